@@ -1,5 +1,23 @@
 // backend/src/app.ts
-// Version: 2.23.0
+// Version: 2.41.0
+// Avatars are stored through the storage provider and served from it; drafts get signed media URLs
+// Added the creator moderation dashboard and staff report queue routes
+// Added creator dashboard analytics route
+// Added the follow request inbox; FollowService answers remote requests through the outbox
+// Added per-user rate limit tiers, admin overrides and the rate limit status route
+// Added access-checked media file serving; /uploads now only serves avatars
+// Added pluggable media storage with local disk and S3-compatible backends
+// Added media records for uploads; media routes now require authentication
+// Added own profile editing and avatar upload routes
+// Added moderator actions on reports and account standing routes
+// Added role-based access control, admin role routes and moderator-only report routes
+// Added TOTP two-factor authentication
+// Added password reset and email verification with a configurable mailer
+// Added revocable sessions with refresh tokens and session management routes
+// Added outbox route and federation of post create/update/delete
+// Added inbox dependencies to the ActivityPub router
+// Added ActivityPub actor router mounted at /users and actor keys on registration
+// Added WebFinger router mounted at /.well-known for federation discovery
 // Fixed AuthService constructor call - removed userRepository parameter
 // Fixed FollowService constructor call - removed blockRepository parameter  
 // Fixed FollowController constructor call - added userRepository parameter
@@ -10,35 +28,85 @@
 
 import express from 'express'
 import cors from 'cors'
-import path from 'path'
 import { PrismaClient } from '@prisma/client'
 
 // Import route creators
 import { createAuthRouter } from './routes/auth'
 import { createPostsRouter } from './routes/posts'
 import { createUsersRouter } from './routes/users'
-import mediaRouter from './routes/media'
+import { createMediaRouter } from './routes/media'
 import configRouter from './routes/config'
+import { createWebFingerRouter } from './routes/webfinger'
+import { createActivityPubRouter } from './routes/activitypub'
+import { createReportsRouter } from './routes/reports'
+import { createAdminRouter } from './routes/admin'
+import { createModerationRouter } from './routes/moderation'
+import { createRateLimitRouter } from './routes/rateLimits'
+import { createAnalyticsRouter } from './routes/analytics'
 
 // Import controllers
 import { AuthController } from './controllers/AuthController'
 import { PostController } from './controllers/PostController'
 import { UserController } from './controllers/UserController'
 import { FollowController } from './controllers/FollowController'
+import { ReportController } from './controllers/ReportController'
+import { AdminController } from './controllers/AdminController'
+import { ModerationController } from './controllers/ModerationController'
+import { ModerationDashboardController } from './controllers/ModerationDashboardController'
+import { RateLimitController } from './controllers/RateLimitController'
+import { MediaController } from './controllers/MediaController'
+import { AnalyticsController } from './controllers/AnalyticsController'
 
 // Import services
 import { AuthService } from './services/AuthService'
 import { FollowService } from './services/FollowService'
+import { WebFingerService } from './services/WebFingerService'
+import { ActivityPubService } from './services/ActivityPubService'
+import { ActorKeyService } from './services/ActorKeyService'
+import { RemoteActorService } from './services/RemoteActorService'
+import { ActivityDeliveryService } from './services/ActivityDeliveryService'
+import { InboxService } from './services/InboxService'
+import { DeliveryQueue } from './services/DeliveryQueue'
+import { OutboxService } from './services/OutboxService'
+import { SessionService } from './services/SessionService'
+import { AccountEmailService } from './services/AccountEmailService'
+import { createMailer } from './services/Mailer'
+import { TwoFactorService } from './services/TwoFactorService'
+import { RoleService } from './services/RoleService'
+import { RateLimitTierService } from './services/RateLimitTierService'
+import { ModerationService } from './services/ModerationService'
+import { ModerationDashboardService } from './services/ModerationDashboardService'
+import { ProfileService } from './services/ProfileService'
+import { MediaService } from './services/MediaService'
+import { AnalyticsService } from './services/AnalyticsService'
+import { createStorageProvider } from './services/StorageProvider'
+
+// Import configuration
+import { getFederationConfig } from './config/federation'
+import { getSessionTokenConfig } from './config/sessions'
+import { getMailConfig } from './config/mail'
+import { getStorageConfig } from './config/storage'
+import { getTwoFactorConfig } from './config/twoFactor'
 
 // Import repositories
 import { UserRepository } from './repositories/UserRepository'
 import { PostRepository } from './repositories/PostRepository'
 import { FollowRepository } from './repositories/FollowRepository'
+import { DeliveryJobRepository } from './repositories/DeliveryJobRepository'
 import { BlockRepository } from './repositories/BlockRepository'
+import { SessionRepository } from './repositories/SessionRepository'
+import { AccountTokenRepository } from './repositories/AccountTokenRepository'
+import { TwoFactorRepository } from './repositories/TwoFactorRepository'
+import { RoleChangeRepository } from './repositories/RoleChangeRepository'
+import { RateLimitOverrideRepository } from './repositories/RateLimitOverrideRepository'
+import { ReportRepository } from './repositories/ReportRepository'
+import { ModerationActionRepository } from './repositories/ModerationActionRepository'
+import { MediaRepository } from './repositories/MediaRepository'
+import { AnalyticsRepository } from './repositories/AnalyticsRepository'
 
 // Import middleware
 import { createAuthMiddleware, createOptionalAuthMiddleware } from './middleware/authMiddleware'
-import { createSecureStaticFileHandler } from './middleware/staticFileSecurityMiddleware'
+import { setRateLimitResolver } from './middleware/rateLimitMiddleware'
 import { createExpressAwareSecurityMiddleware } from './middleware/expressAwareSecurityMiddleware'
 
 /**
@@ -70,20 +138,105 @@ export function createApp() {
   const postRepository = new PostRepository(prisma)
   const followRepository = new FollowRepository(prisma)
   const blockRepository = new BlockRepository(prisma)
+  const deliveryJobRepository = new DeliveryJobRepository(prisma)
+  const sessionRepository = new SessionRepository(prisma)
+  const accountTokenRepository = new AccountTokenRepository(prisma)
+  const twoFactorRepository = new TwoFactorRepository(prisma)
+  const roleChangeRepository = new RoleChangeRepository(prisma)
+  const rateLimitOverrideRepository = new RateLimitOverrideRepository(prisma)
+  const reportRepository = new ReportRepository(prisma)
+  const moderationActionRepository = new ModerationActionRepository(prisma)
+  const mediaRepository = new MediaRepository(prisma)
+  const analyticsRepository = new AnalyticsRepository(prisma)
 
   // Initialize services
   const authService = new AuthService() // Fixed: removed userRepository parameter
-  const followService = new FollowService(followRepository, userRepository) // Fixed: removed blockRepository parameter
+  const sessionService = new SessionService(sessionRepository, userRepository, authService, getSessionTokenConfig())
+  const mailConfig = getMailConfig()
+  const accountEmailService = new AccountEmailService(
+    accountTokenRepository,
+    userRepository,
+    sessionRepository,
+    authService,
+    createMailer(mailConfig),
+    mailConfig
+  )
+  const twoFactorService = new TwoFactorService(twoFactorRepository, userRepository, authService, getTwoFactorConfig())
+  const roleService = new RoleService(userRepository, roleChangeRepository, sessionRepository)
+  const rateLimitTierService = new RateLimitTierService(userRepository, rateLimitOverrideRepository)
+  const analyticsService = new AnalyticsService(analyticsRepository)
+  setRateLimitResolver((userId, policy) => rateLimitTierService.resolvePolicy(userId, policy))
+  const moderationService = new ModerationService(
+    moderationActionRepository,
+    reportRepository,
+    userRepository,
+    postRepository,
+    sessionRepository
+  )
+  const moderationDashboardService = new ModerationDashboardService(
+    reportRepository,
+    blockRepository,
+    followRepository,
+    postRepository,
+    userRepository
+  )
+  const federationConfig = getFederationConfig()
+  const webFingerService = new WebFingerService(userRepository, federationConfig.domain)
+  const actorKeyService = new ActorKeyService(federationConfig.keyEncryptionSecret)
+  const activityPubService = new ActivityPubService(userRepository, actorKeyService, federationConfig)
+  const remoteActorService = new RemoteActorService()
+  const activityDeliveryService = new ActivityDeliveryService(actorKeyService)
+  const inboxService = new InboxService(
+    userRepository,
+    followRepository,
+    activityPubService,
+    remoteActorService,
+    activityDeliveryService
+  )
+  const deliveryQueue = new DeliveryQueue(
+    deliveryJobRepository,
+    activityDeliveryService,
+    userRepository,
+    federationConfig.delivery
+  )
+  const outboxService = new OutboxService(
+    postRepository,
+    followRepository,
+    userRepository,
+    activityPubService,
+    remoteActorService,
+    deliveryQueue,
+    federationConfig
+  )
+  const followService = new FollowService(followRepository, userRepository, outboxService)
+  const storageConfig = getStorageConfig()
+  const storageProvider = createStorageProvider(storageConfig)
+  const profileService = new ProfileService(userRepository, storageProvider, outboxService, activityPubService)
+  const mediaService = new MediaService(mediaRepository, storageProvider, storageConfig.signedUrlTtlSeconds)
 
   // Initialize controllers
-  const authController = new AuthController(authService, userRepository)
-  const postController = new PostController(postRepository, userRepository)
-  const userController = new UserController(userRepository, followRepository, blockRepository)
+  const authController = new AuthController(
+    authService,
+    userRepository,
+    activityPubService,
+    sessionService,
+    accountEmailService,
+    twoFactorService
+  )
+  const postController = new PostController(postRepository, userRepository, outboxService, mediaService)
+  const userController = new UserController(userRepository, followRepository, blockRepository, profileService)
   const followController = new FollowController(followService, userRepository) // Fixed: added userRepository parameter
+  const reportController = new ReportController(userRepository, postRepository)
+  const adminController = new AdminController(roleService, rateLimitTierService)
+  const rateLimitController = new RateLimitController(rateLimitTierService)
+  const moderationController = new ModerationController(moderationService)
+  const moderationDashboardController = new ModerationDashboardController(moderationDashboardService)
+  const mediaController = new MediaController(mediaService)
+  const analyticsController = new AnalyticsController(analyticsService)
 
   // Initialize middleware
-  const authMiddleware = createAuthMiddleware(authService)
-  const optionalAuthMiddleware = createOptionalAuthMiddleware(authService)
+  const authMiddleware = createAuthMiddleware(authService, sessionService, userRepository)
+  const optionalAuthMiddleware = createOptionalAuthMiddleware(authService, sessionService, userRepository)
 
   // ============================================================================
   // HEALTH CHECK ENDPOINT
@@ -124,21 +277,77 @@ export function createApp() {
   }))
 
   // Media routes
-  app.use('/api/media', mediaRouter)
+  app.use('/api/media', createMediaRouter({
+    mediaController,
+    authMiddleware,
+    optionalAuthMiddleware
+  }))
+
+  // The caller's rate limits and how much of each is left
+  app.use('/api/rate-limit-status', createRateLimitRouter({
+    rateLimitController,
+    optionalAuthMiddleware
+  }))
+
+  // The signed-in creator's dashboard analytics
+  app.use('/api/analytics', createAnalyticsRouter({
+    analyticsController,
+    authMiddleware
+  }))
 
   // Configuration routes
   app.use('/api/config', configRouter)
 
+  // Report/moderation routes
+  app.use('/api/reports', createReportsRouter({
+    reportController,
+    authMiddleware,
+    optionalAuthMiddleware,
+    moderationController
+  }))
+
+  // Account standing, moderation action reversal, the creator moderation dashboard and the staff queue
+  app.use('/api/moderation', createModerationRouter({
+    moderationController,
+    moderationDashboardController,
+    authMiddleware
+  }))
+
+  // Admin routes
+  app.use('/api/admin', createAdminRouter({
+    adminController,
+    authMiddleware
+  }))
+
+  // ============================================================================
+  // FEDERATION ROUTES
+  // ============================================================================
+
+  // WebFinger discovery must live at the host root per RFC 7033
+  app.use('/.well-known', createWebFingerRouter({
+    webFingerService
+  }))
+
+  // Actor URIs (https://domain/users/:username) resolve outside the /api prefix
+  app.use('/users', createActivityPubRouter({
+    activityPubService,
+    inboxService,
+    outboxService,
+    remoteActorService
+  }))
+
   // ============================================================================
   // STATIC FILE SERVING
   // ============================================================================
   
-  // Secure static file handler for uploads
-  const uploadsPath = path.join(process.cwd(), 'uploads')
-  const secureFileHandler = createSecureStaticFileHandler(uploadsPath)
+  // Avatars are read from the storage provider so any instance can serve them;
+  // media is served by /api/media, which checks who may read each file
+  app.get('/uploads/avatars/:filename', (req, res) => userController.getAvatar(req, res))
 
-  // Serve uploaded files securely
-  app.use('/uploads', ...secureFileHandler)
+  // Media recorded before files moved behind /api/media still links to /uploads
+  app.get('/uploads/:filename', (req, res) => {
+    res.redirect(301, `/api/media/${encodeURIComponent(req.params['filename'] ?? '')}`)
+  })
 
   // ============================================================================
   // ERROR HANDLING
@@ -168,7 +377,25 @@ export function createApp() {
 export default createApp
 
 // backend/src/app.ts
-// Version: 2.23.0
+// Version: 2.41.0
+// Avatars are stored through the storage provider and served from it; drafts get signed media URLs
+// Added the creator moderation dashboard and staff report queue routes
+// Added creator dashboard analytics route
+// Added the follow request inbox; FollowService answers remote requests through the outbox
+// Added per-user rate limit tiers, admin overrides and the rate limit status route
+// Added access-checked media file serving; /uploads now only serves avatars
+// Added pluggable media storage with local disk and S3-compatible backends
+// Added media records for uploads; media routes now require authentication
+// Added own profile editing and avatar upload routes
+// Added moderator actions on reports and account standing routes
+// Added role-based access control, admin role routes and moderator-only report routes
+// Added TOTP two-factor authentication
+// Added password reset and email verification with a configurable mailer
+// Added revocable sessions with refresh tokens and session management routes
+// Added outbox route and federation of post create/update/delete
+// Added inbox dependencies to the ActivityPub router
+// Added ActivityPub actor router mounted at /users and actor keys on registration
+// Added WebFinger router mounted at /.well-known for federation discovery
 // Fixed AuthService constructor call - removed userRepository parameter
 // Fixed FollowService constructor call - removed blockRepository parameter  
 // Fixed FollowController constructor call - added userRepository parameter
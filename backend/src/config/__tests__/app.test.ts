@@ -41,12 +41,14 @@ vi.mock('../../routes/users', () => ({
   })
 }))
 
-vi.mock('../../routes/media', () => {
-  const router = Router()
-  router.get('/', vi.fn((req, res) => res.json({ media: [] })))
-  router.post('/upload', vi.fn((req, res) => res.json({ success: true })))
-  return { default: router }
-})
+vi.mock('../../routes/media', () => ({
+  createMediaRouter: vi.fn(() => {
+    const router = Router()
+    router.get('/', vi.fn((req, res) => res.json({ media: [] })))
+    router.post('/upload', vi.fn((req, res) => res.json({ success: true })))
+    return router
+  })
+}))
 
 vi.mock('../../routes/config', () => {
   const router = Router()
@@ -0,0 +1,75 @@
+// backend/src/config/analyticsRollup.ts
+// Version: 1.0.0 - Initial analytics rollup configuration
+
+import { z } from 'zod'
+
+/**
+ * Analytics rollup configuration interface
+ * Controls how often the daily per-creator rollups are refreshed
+ */
+export interface AnalyticsRollupConfig {
+  enabled: boolean
+  intervalMs: number
+}
+
+/**
+ * Environment variables validation schema
+ * Each run refreshes yesterday and today, so the interval sets how current today's numbers are
+ */
+const envSchema = z.object({
+  ANALYTICS_ROLLUP_ENABLED: z.enum(['true', 'false']).default('true'),
+  ANALYTICS_ROLLUP_INTERVAL_MS: z.coerce.number().int().min(60 * 1000).default(60 * 60 * 1000)
+})
+
+/**
+ * Create analytics rollup configuration from environment variables
+ * @returns Analytics rollup configuration object
+ * @throws Error if environment validation fails
+ */
+function createAnalyticsRollupConfig(): AnalyticsRollupConfig {
+  try {
+    const env = envSchema.parse(process.env)
+
+    return {
+      enabled: env.ANALYTICS_ROLLUP_ENABLED === 'true',
+      intervalMs: env.ANALYTICS_ROLLUP_INTERVAL_MS
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      throw new Error(`Analytics rollup environment validation failed:\n${errorMessages.join('\n')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Cached analytics rollup configuration
+ */
+let analyticsRollupConfigCache: AnalyticsRollupConfig | null = null
+
+/**
+ * Get analytics rollup configuration
+ * Returns cached configuration or creates new one if not cached
+ * @returns Analytics rollup configuration object
+ */
+export function getAnalyticsRollupConfig(): AnalyticsRollupConfig {
+  if (!analyticsRollupConfigCache) {
+    analyticsRollupConfigCache = createAnalyticsRollupConfig()
+  }
+
+  return analyticsRollupConfigCache
+}
+
+/**
+ * Reset configuration cache
+ * Useful for testing or when environment changes
+ */
+export function resetAnalyticsRollupConfig(): void {
+  analyticsRollupConfigCache = null
+}
+
+export default getAnalyticsRollupConfig
+
+// backend/src/config/analyticsRollup.ts
+// Version: 1.0.0 - Initial analytics rollup configuration
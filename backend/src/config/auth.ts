@@ -5,9 +5,9 @@ import { z } from 'zod'
 
 /**
  * User role enumeration for type safety
- * Defines available user roles in the system
+ * Defined alongside the persisted role on the User model
  */
-export type UserRole = 'admin' | 'user' | 'moderator'
+export type { UserRole } from '../models/User'
 
 /**
  * JWT token configuration interface
@@ -0,0 +1,123 @@
+// backend/src/config/federation.ts
+// Version: 1.2.0 - Added delivery queue retry and concurrency settings
+
+import { z } from 'zod'
+
+/**
+ * Federation configuration interface
+ * Defines how this instance identifies itself to the fediverse
+ */
+export interface FederationConfig {
+  domain: string
+  baseUrl: string
+  instanceName: string
+  profileBaseUrl: string
+  keyEncryptionSecret: string
+  delivery: DeliveryConfig
+}
+
+/**
+ * Outgoing delivery queue settings
+ */
+export interface DeliveryConfig {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  hostConcurrency: number
+  batchSize: number
+  pollIntervalMs: number
+}
+
+/**
+ * Development fallback for encrypting actor private keys at rest
+ */
+const DEFAULT_KEY_ENCRYPTION_SECRET = 'dev-actor-key-secret-change-this-in-production'
+
+/**
+ * Environment variables validation schema
+ * All federation settings have development-friendly defaults
+ */
+const envSchema = z.object({
+  INSTANCE_DOMAIN: z.string().min(1).default('localhost:3001'),
+  INSTANCE_NAME: z.string().default('ParaSocial Instance'),
+  FEDERATION_PROTOCOL: z.enum(['https', 'http']).default('https'),
+  FRONTEND_URL: z.string().url().optional(),
+  ACTOR_KEY_SECRET: z.string().min(32, 'ACTOR_KEY_SECRET must be at least 32 characters long').optional(),
+  DELIVERY_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(8),
+  DELIVERY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(60 * 1000),
+  DELIVERY_MAX_DELAY_MS: z.coerce.number().int().min(0).default(12 * 60 * 60 * 1000),
+  DELIVERY_HOST_CONCURRENCY: z.coerce.number().int().min(1).default(2),
+  DELIVERY_BATCH_SIZE: z.coerce.number().int().min(1).default(50),
+  DELIVERY_POLL_INTERVAL_MS: z.coerce.number().int().min(100).default(5000)
+})
+
+/**
+ * Create federation configuration from environment variables
+ * @returns Federation configuration object
+ * @throws Error if environment validation fails
+ */
+function createFederationConfig(): FederationConfig {
+  try {
+    const env = envSchema.parse(process.env)
+    const domain = env.INSTANCE_DOMAIN.toLowerCase()
+    const baseUrl = `${env.FEDERATION_PROTOCOL}://${domain}`
+
+    if (process.env['NODE_ENV'] === 'production' && !env.ACTOR_KEY_SECRET) {
+      console.warn('WARNING: Using default actor key secret in production. Set ACTOR_KEY_SECRET environment variable.')
+    }
+
+    return {
+      domain,
+      baseUrl,
+      instanceName: env.INSTANCE_NAME,
+      // Human-facing profile pages are served by the frontend when it is configured
+      profileBaseUrl: `${(env.FRONTEND_URL || baseUrl).replace(/\/$/, '')}/profile`,
+      keyEncryptionSecret: env.ACTOR_KEY_SECRET || DEFAULT_KEY_ENCRYPTION_SECRET,
+      delivery: {
+        maxAttempts: env.DELIVERY_MAX_ATTEMPTS,
+        baseDelayMs: env.DELIVERY_BASE_DELAY_MS,
+        maxDelayMs: env.DELIVERY_MAX_DELAY_MS,
+        hostConcurrency: env.DELIVERY_HOST_CONCURRENCY,
+        batchSize: env.DELIVERY_BATCH_SIZE,
+        pollIntervalMs: env.DELIVERY_POLL_INTERVAL_MS
+      }
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      throw new Error(`Federation environment validation failed:\n${errorMessages.join('\n')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Cached federation configuration
+ */
+let federationConfigCache: FederationConfig | null = null
+
+/**
+ * Get federation configuration
+ * Returns cached configuration or creates new one if not cached
+ * @returns Federation configuration object
+ */
+export function getFederationConfig(): FederationConfig {
+  if (!federationConfigCache) {
+    federationConfigCache = createFederationConfig()
+  }
+
+  return federationConfigCache
+}
+
+/**
+ * Reset configuration cache
+ * Useful for testing or when environment changes
+ */
+export function resetFederationConfig(): void {
+  federationConfigCache = null
+}
+
+export default getFederationConfig
+
+// backend/src/config/federation.ts
+// Version: 1.2.0 - Added delivery queue retry and concurrency settings
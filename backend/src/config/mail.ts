@@ -0,0 +1,120 @@
+// backend/src/config/mail.ts
+// Version: 1.0.0 - Initial outgoing email configuration with SMTP, file and console transports
+
+import { z } from 'zod'
+
+/**
+ * Mail transport selection
+ * smtp sends real email; file and console are for local development and tests
+ */
+export type MailTransport = 'smtp' | 'file' | 'console'
+
+/**
+ * SMTP server settings
+ */
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user: string | undefined
+  password: string | undefined
+}
+
+/**
+ * Mail configuration interface
+ */
+export interface MailConfig {
+  transport: MailTransport
+  from: string
+  linkBaseUrl: string
+  fileDirectory: string
+  smtp: SmtpConfig | null
+}
+
+/**
+ * Environment variables validation schema
+ * MAIL_LINK_BASE_URL is the frontend origin that emailed links open
+ */
+const envSchema = z.object({
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).default('console'),
+  MAIL_FROM: z.string().default('ParaSocial <no-reply@localhost>'),
+  MAIL_LINK_BASE_URL: z.string().url().default('http://localhost:3000'),
+  MAIL_FILE_DIR: z.string().default('./tmp/mail'),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().min(1).max(65535).default(587),
+  SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional()
+})
+
+/**
+ * Create mail configuration from environment variables
+ * @returns Mail configuration object
+ * @throws Error if environment validation fails or SMTP is selected without a host
+ */
+function createMailConfig(): MailConfig {
+  try {
+    const env = envSchema.parse(process.env)
+
+    if (env.MAIL_TRANSPORT === 'smtp' && !env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required when MAIL_TRANSPORT is smtp')
+    }
+
+    if (process.env['NODE_ENV'] === 'production' && env.MAIL_TRANSPORT !== 'smtp') {
+      console.warn(`WARNING: MAIL_TRANSPORT is ${env.MAIL_TRANSPORT} in production. Emails will not be delivered.`)
+    }
+
+    return {
+      transport: env.MAIL_TRANSPORT,
+      from: env.MAIL_FROM,
+      linkBaseUrl: env.MAIL_LINK_BASE_URL.replace(/\/+$/, ''),
+      fileDirectory: env.MAIL_FILE_DIR,
+      smtp: env.SMTP_HOST
+        ? {
+            host: env.SMTP_HOST,
+            port: env.SMTP_PORT,
+            secure: env.SMTP_SECURE === 'true',
+            user: env.SMTP_USER,
+            password: env.SMTP_PASSWORD
+          }
+        : null
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      throw new Error(`Mail environment validation failed:\n${errorMessages.join('\n')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Cached mail configuration
+ */
+let mailConfigCache: MailConfig | null = null
+
+/**
+ * Get mail configuration
+ * Returns cached configuration or creates new one if not cached
+ * @returns Mail configuration object
+ */
+export function getMailConfig(): MailConfig {
+  if (!mailConfigCache) {
+    mailConfigCache = createMailConfig()
+  }
+
+  return mailConfigCache
+}
+
+/**
+ * Reset configuration cache
+ * Useful for testing or when environment changes
+ */
+export function resetMailConfig(): void {
+  mailConfigCache = null
+}
+
+export default getMailConfig
+
+// backend/src/config/mail.ts
+// Version: 1.0.0 - Initial outgoing email configuration with SMTP, file and console transports
@@ -0,0 +1,81 @@
+// backend/src/config/mediaCleanup.ts
+// Version: 1.0.0 - Initial orphaned media cleanup configuration
+
+import { z } from 'zod'
+
+/**
+ * Media cleanup configuration interface
+ * Controls how long unattached uploads are kept and how often they are removed
+ */
+export interface MediaCleanupConfig {
+  enabled: boolean
+  intervalMs: number
+  gracePeriodMs: number
+  batchSize: number
+}
+
+/**
+ * Environment variables validation schema
+ * The grace period should comfortably cover the time spent writing a post after uploading
+ */
+const envSchema = z.object({
+  MEDIA_CLEANUP_ENABLED: z.enum(['true', 'false']).default('true'),
+  MEDIA_CLEANUP_INTERVAL_MS: z.coerce.number().int().min(1000).default(60 * 60 * 1000),
+  MEDIA_ORPHAN_GRACE_MS: z.coerce.number().int().min(60 * 1000).default(24 * 60 * 60 * 1000),
+  MEDIA_CLEANUP_BATCH_SIZE: z.coerce.number().int().min(1).max(1000).default(100)
+})
+
+/**
+ * Create media cleanup configuration from environment variables
+ * @returns Media cleanup configuration object
+ * @throws Error if environment validation fails
+ */
+function createMediaCleanupConfig(): MediaCleanupConfig {
+  try {
+    const env = envSchema.parse(process.env)
+
+    return {
+      enabled: env.MEDIA_CLEANUP_ENABLED === 'true',
+      intervalMs: env.MEDIA_CLEANUP_INTERVAL_MS,
+      gracePeriodMs: env.MEDIA_ORPHAN_GRACE_MS,
+      batchSize: env.MEDIA_CLEANUP_BATCH_SIZE
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      throw new Error(`Media cleanup environment validation failed:\n${errorMessages.join('\n')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Cached media cleanup configuration
+ */
+let mediaCleanupConfigCache: MediaCleanupConfig | null = null
+
+/**
+ * Get media cleanup configuration
+ * Returns cached configuration or creates new one if not cached
+ * @returns Media cleanup configuration object
+ */
+export function getMediaCleanupConfig(): MediaCleanupConfig {
+  if (!mediaCleanupConfigCache) {
+    mediaCleanupConfigCache = createMediaCleanupConfig()
+  }
+
+  return mediaCleanupConfigCache
+}
+
+/**
+ * Reset configuration cache
+ * Useful for testing or when environment changes
+ */
+export function resetMediaCleanupConfig(): void {
+  mediaCleanupConfigCache = null
+}
+
+export default getMediaCleanupConfig
+
+// backend/src/config/mediaCleanup.ts
+// Version: 1.0.0 - Initial orphaned media cleanup configuration
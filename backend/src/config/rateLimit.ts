@@ -0,0 +1,175 @@
+// backend/src/config/rateLimit.ts
+// Version: 1.2.0 - Added report submission and moderation policies
+
+import { z } from 'zod'
+import type { UserRole, VerificationTier } from '../models/User'
+
+/**
+ * Where rate limit state is kept
+ * memory is per process; postgres and redis are shared by every instance
+ */
+export type RateLimitStoreDriver = 'memory' | 'postgres' | 'redis'
+
+/**
+ * How requests are counted
+ * sliding-window smooths the burst a fixed window allows at its boundary;
+ * token-bucket allows bursts of up to max and refills at max per window
+ */
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket'
+
+/**
+ * Limit applied to one kind of request
+ */
+export interface RateLimitPolicy {
+  windowMs: number
+  max: number
+}
+
+/**
+ * Rate limit configuration interface
+ */
+export interface RateLimitSettings {
+  store: RateLimitStoreDriver
+  algorithm: RateLimitAlgorithm
+  keyPrefix: string
+  redisUrl: string | undefined
+}
+
+/**
+ * Limits for each kind of request, shared by every limiter that applies them
+ */
+export const RATE_LIMIT_POLICIES = {
+  // Failed authentication attempts (login, register)
+  auth: { windowMs: 60 * 1000, max: 5 },
+  // Post creation
+  postCreation: { windowMs: 60 * 1000, max: 10 },
+  // Media uploads and deletes
+  mediaUpload: { windowMs: 60 * 1000, max: 10 },
+  // Follow and unfollow
+  followOperations: { windowMs: 60 * 60 * 1000, max: 20 },
+  // General API
+  general: { windowMs: 15 * 60 * 1000, max: 100 },
+  // Report submission
+  reportCreation: { windowMs: 15 * 60 * 1000, max: 5 },
+  // Moderators reviewing and acting on reports
+  reportManagement: { windowMs: 5 * 60 * 1000, max: 50 }
+} satisfies Record<string, RateLimitPolicy>
+
+/**
+ * Name of a rate limit policy
+ */
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES
+
+/**
+ * Policies counted per signed-in user, which scale with the user's tier and
+ * role and can be overridden by admins. auth and the report policies are
+ * counted per IP, before the request is authenticated.
+ */
+export const USER_RATE_LIMIT_POLICIES = ['postCreation', 'mediaUpload', 'followOperations', 'general'] as const
+
+/**
+ * Name of a policy counted per signed-in user
+ */
+export type UserRateLimitPolicyName = typeof USER_RATE_LIMIT_POLICIES[number]
+
+/**
+ * Check whether a policy is counted per signed-in user
+ * @param policy - Policy name
+ * @returns True for policies in USER_RATE_LIMIT_POLICIES
+ */
+export function isUserRateLimitPolicy(policy: RateLimitPolicyName): policy is UserRateLimitPolicyName {
+  return (USER_RATE_LIMIT_POLICIES as readonly string[]).includes(policy)
+}
+
+/**
+ * How much each verification tier multiplies a policy's max
+ * A notable account, such as a verified news outlet, can post ten times as
+ * fast as a brand-new one
+ */
+export const RATE_LIMIT_TIER_MULTIPLIERS: Record<VerificationTier, number> = {
+  none: 1,
+  email: 2,
+  phone: 3,
+  identity: 5,
+  notable: 10
+}
+
+/**
+ * How much each role multiplies a policy's max
+ * A user gets the larger of their tier and role multipliers
+ */
+export const RATE_LIMIT_ROLE_MULTIPLIERS: Record<UserRole, number> = {
+  user: 1,
+  moderator: 5,
+  admin: 10
+}
+
+/**
+ * Environment variables validation schema
+ * RATE_LIMIT_REDIS_URL accepts any server that speaks the Redis protocol, such as Valkey
+ */
+const envSchema = z.object({
+  RATE_LIMIT_STORE: z.enum(['memory', 'postgres', 'redis']).default('memory'),
+  RATE_LIMIT_ALGORITHM: z.enum(['sliding-window', 'token-bucket']).default('sliding-window'),
+  RATE_LIMIT_KEY_PREFIX: z.string().default('ratelimit:'),
+  RATE_LIMIT_REDIS_URL: z.string().url().optional()
+})
+
+/**
+ * Create rate limit configuration from environment variables
+ * @returns Rate limit configuration object
+ * @throws Error if environment validation fails or redis is selected without a URL
+ */
+function createRateLimitSettings(): RateLimitSettings {
+  try {
+    const env = envSchema.parse(process.env)
+
+    if (env.RATE_LIMIT_STORE === 'redis' && !env.RATE_LIMIT_REDIS_URL) {
+      throw new Error('RATE_LIMIT_REDIS_URL is required when RATE_LIMIT_STORE is redis')
+    }
+
+    return {
+      store: env.RATE_LIMIT_STORE,
+      algorithm: env.RATE_LIMIT_ALGORITHM,
+      keyPrefix: env.RATE_LIMIT_KEY_PREFIX,
+      redisUrl: env.RATE_LIMIT_REDIS_URL
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      throw new Error(`Rate limit environment validation failed:\n${errorMessages.join('\n')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Cached rate limit configuration
+ */
+let rateLimitSettingsCache: RateLimitSettings | null = null
+
+/**
+ * Get rate limit configuration
+ * Returns cached configuration or creates new one if not cached
+ * @returns Rate limit configuration object
+ */
+export function getRateLimitSettings(): RateLimitSettings {
+  if (!rateLimitSettingsCache) {
+    rateLimitSettingsCache = createRateLimitSettings()
+  }
+
+  return rateLimitSettingsCache
+}
+
+/**
+ * Reset configuration cache
+ * Useful for testing or when environment changes
+ */
+export function resetRateLimitSettings(): void {
+  rateLimitSettingsCache = null
+}
+
+export default getRateLimitSettings
+
+// backend/src/config/rateLimit.ts
+// Version: 1.2.0 - Added report submission and moderation policies
@@ -0,0 +1,81 @@
+// backend/src/config/scheduler.ts
+// Version: 1.0.0 - Initial background scheduler configuration
+
+import { z } from 'zod'
+
+/**
+ * Scheduler configuration interface
+ * Controls how often scheduled posts are checked and published
+ */
+export interface SchedulerConfig {
+  enabled: boolean
+  intervalMs: number
+  batchSize: number
+  lockKey: number
+}
+
+/**
+ * Environment variables validation schema
+ * SCHEDULER_LOCK_KEY only needs changing if another app shares the database
+ */
+const envSchema = z.object({
+  SCHEDULER_ENABLED: z.enum(['true', 'false']).default('true'),
+  SCHEDULER_INTERVAL_MS: z.coerce.number().int().min(1000).default(30 * 1000),
+  SCHEDULER_BATCH_SIZE: z.coerce.number().int().min(1).max(500).default(50),
+  SCHEDULER_LOCK_KEY: z.coerce.number().int().default(727001)
+})
+
+/**
+ * Create scheduler configuration from environment variables
+ * @returns Scheduler configuration object
+ * @throws Error if environment validation fails
+ */
+function createSchedulerConfig(): SchedulerConfig {
+  try {
+    const env = envSchema.parse(process.env)
+
+    return {
+      enabled: env.SCHEDULER_ENABLED === 'true',
+      intervalMs: env.SCHEDULER_INTERVAL_MS,
+      batchSize: env.SCHEDULER_BATCH_SIZE,
+      lockKey: env.SCHEDULER_LOCK_KEY
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      throw new Error(`Scheduler environment validation failed:\n${errorMessages.join('\n')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Cached scheduler configuration
+ */
+let schedulerConfigCache: SchedulerConfig | null = null
+
+/**
+ * Get scheduler configuration
+ * Returns cached configuration or creates new one if not cached
+ * @returns Scheduler configuration object
+ */
+export function getSchedulerConfig(): SchedulerConfig {
+  if (!schedulerConfigCache) {
+    schedulerConfigCache = createSchedulerConfig()
+  }
+
+  return schedulerConfigCache
+}
+
+/**
+ * Reset configuration cache
+ * Useful for testing or when environment changes
+ */
+export function resetSchedulerConfig(): void {
+  schedulerConfigCache = null
+}
+
+export default getSchedulerConfig
+
+// backend/src/config/scheduler.ts
+// Version: 1.0.0 - Initial background scheduler configuration
@@ -0,0 +1,74 @@
+// backend/src/config/sessions.ts
+// Version: 1.0.0 - Initial access and refresh token lifetime configuration
+
+import { z } from 'zod'
+
+/**
+ * Session token configuration interface
+ * Access tokens are short-lived; refresh tokens keep a device logged in
+ */
+export interface SessionTokenConfig {
+  accessTokenTtlSeconds: number
+  refreshTokenTtlDays: number
+}
+
+/**
+ * Environment variables validation schema
+ */
+const envSchema = z.object({
+  SESSION_ACCESS_TOKEN_TTL_SECONDS: z.coerce.number().int().min(60).default(15 * 60),
+  SESSION_REFRESH_TOKEN_TTL_DAYS: z.coerce.number().int().min(1).max(365).default(30)
+})
+
+/**
+ * Create session token configuration from environment variables
+ * @returns Session token configuration object
+ * @throws Error if environment validation fails
+ */
+function createSessionTokenConfig(): SessionTokenConfig {
+  try {
+    const env = envSchema.parse(process.env)
+
+    return {
+      accessTokenTtlSeconds: env.SESSION_ACCESS_TOKEN_TTL_SECONDS,
+      refreshTokenTtlDays: env.SESSION_REFRESH_TOKEN_TTL_DAYS
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      throw new Error(`Session environment validation failed:\n${errorMessages.join('\n')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Cached session token configuration
+ */
+let sessionTokenConfigCache: SessionTokenConfig | null = null
+
+/**
+ * Get session token configuration
+ * Returns cached configuration or creates new one if not cached
+ * @returns Session token configuration object
+ */
+export function getSessionTokenConfig(): SessionTokenConfig {
+  if (!sessionTokenConfigCache) {
+    sessionTokenConfigCache = createSessionTokenConfig()
+  }
+
+  return sessionTokenConfigCache
+}
+
+/**
+ * Reset configuration cache
+ * Useful for testing or when environment changes
+ */
+export function resetSessionTokenConfig(): void {
+  sessionTokenConfigCache = null
+}
+
+export default getSessionTokenConfig
+
+// backend/src/config/sessions.ts
+// Version: 1.0.0 - Initial access and refresh token lifetime configuration
@@ -0,0 +1,161 @@
+// backend/src/config/storage.ts
+// Version: 1.2.0 - Initial media storage configuration with local disk and S3-compatible drivers
+// Changed: Export the default signed URL lifetime for MediaService
+
+import { randomBytes } from 'crypto'
+import path from 'path'
+import { z } from 'zod'
+
+/**
+ * Storage driver selection
+ * local keeps files on this instance's disk; s3 works across instances
+ */
+export type StorageDriver = 'local' | 's3'
+
+/**
+ * Local disk settings
+ * signingSecret signs expiring URLs handed out for private files
+ */
+export interface LocalStorageConfig {
+  directory: string
+  signingSecret: string
+}
+
+/**
+ * S3-compatible bucket settings
+ * endpoint is set for MinIO and other non-AWS services, which usually need path-style URLs
+ */
+export interface S3StorageConfig {
+  bucket: string
+  region: string
+  endpoint: string | undefined
+  forcePathStyle: boolean
+  accessKeyId: string | undefined
+  secretAccessKey: string | undefined
+}
+
+/**
+ * Storage configuration interface
+ */
+export interface StorageConfig {
+  driver: StorageDriver
+  publicUrl: string
+  signedUrlTtlSeconds: number
+  local: LocalStorageConfig
+  s3: S3StorageConfig | null
+}
+
+/**
+ * How long signed URLs for drafts and unattached uploads stay valid by default (15 minutes)
+ */
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 15 * 60
+
+/**
+ * Where media URLs point when STORAGE_PUBLIC_URL is not set
+ * The media route checks who may read each file, so drafts stay private
+ */
+const DEFAULT_PUBLIC_URL = '/api/media'
+
+/**
+ * Environment variables validation schema
+ * STORAGE_PUBLIC_URL is where stored files are served from, e.g. a CDN in front of a
+ * public bucket; files served from there skip the media route's access checks
+ */
+const envSchema = z.object({
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_PUBLIC_URL: z.string().optional(),
+  STORAGE_SIGNING_SECRET: z.string().min(32, 'STORAGE_SIGNING_SECRET must be at least 32 characters long').optional(),
+  STORAGE_SIGNED_URL_TTL_SECONDS: z.coerce.number().int().min(60).max(7 * 24 * 60 * 60).default(DEFAULT_SIGNED_URL_TTL_SECONDS),
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  S3_ENDPOINT: z.string().url().optional(),
+  S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional()
+})
+
+/**
+ * Create storage configuration from environment variables
+ * @returns Storage configuration object
+ * @throws Error if environment validation fails, S3 is selected without a bucket,
+ *         or local storage has no signing secret in production
+ */
+function createStorageConfig(): StorageConfig {
+  try {
+    const env = envSchema.parse(process.env)
+    const isProduction = process.env['NODE_ENV'] === 'production'
+
+    if (env.STORAGE_DRIVER === 's3' && !env.S3_BUCKET) {
+      throw new Error('S3_BUCKET is required when STORAGE_DRIVER is s3')
+    }
+
+    if (isProduction && env.STORAGE_DRIVER === 'local' && !env.STORAGE_SIGNING_SECRET) {
+      throw new Error('STORAGE_SIGNING_SECRET is required for local storage in production')
+    }
+
+    const s3: S3StorageConfig | null = env.S3_BUCKET
+      ? {
+          bucket: env.S3_BUCKET,
+          region: env.S3_REGION,
+          endpoint: env.S3_ENDPOINT,
+          forcePathStyle: env.S3_FORCE_PATH_STYLE
+            ? env.S3_FORCE_PATH_STYLE === 'true'
+            : Boolean(env.S3_ENDPOINT),
+          accessKeyId: env.S3_ACCESS_KEY_ID,
+          secretAccessKey: env.S3_SECRET_ACCESS_KEY
+        }
+      : null
+
+    const publicUrl = env.STORAGE_PUBLIC_URL ?? DEFAULT_PUBLIC_URL
+
+    return {
+      driver: env.STORAGE_DRIVER,
+      publicUrl: publicUrl.replace(/\/+$/, ''),
+      signedUrlTtlSeconds: env.STORAGE_SIGNED_URL_TTL_SECONDS,
+      local: {
+        directory: path.join(process.cwd(), 'uploads'),
+        // A per-process secret is fine for development, where a single instance serves files
+        signingSecret: env.STORAGE_SIGNING_SECRET ?? randomBytes(32).toString('hex')
+      },
+      s3
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      throw new Error(`Storage environment validation failed:\n${errorMessages.join('\n')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Cached storage configuration
+ */
+let storageConfigCache: StorageConfig | null = null
+
+/**
+ * Get storage configuration
+ * Returns cached configuration or creates new one if not cached
+ * @returns Storage configuration object
+ */
+export function getStorageConfig(): StorageConfig {
+  if (!storageConfigCache) {
+    storageConfigCache = createStorageConfig()
+  }
+
+  return storageConfigCache
+}
+
+/**
+ * Reset configuration cache
+ * Useful for testing or when environment changes
+ */
+export function resetStorageConfig(): void {
+  storageConfigCache = null
+}
+
+export default getStorageConfig
+
+// backend/src/config/storage.ts
+// Version: 1.2.0 - Initial media storage configuration with local disk and S3-compatible drivers
+// Changed: Export the default signed URL lifetime for MediaService
@@ -0,0 +1,85 @@
+// backend/src/config/twoFactor.ts
+// Version: 1.0.0 - Initial TOTP issuer, secret encryption and login challenge configuration
+
+import { z } from 'zod'
+
+/**
+ * Two-factor authentication configuration interface
+ */
+export interface TwoFactorConfig {
+  issuer: string
+  secret: string
+  challengeTtlSeconds: number
+}
+
+/**
+ * Development fallback for encrypting TOTP secrets and signing login challenges
+ */
+const DEFAULT_TWO_FACTOR_SECRET = 'dev-two-factor-secret-change-this-in-production'
+
+/**
+ * Environment variables validation schema
+ */
+const envSchema = z.object({
+  TWO_FACTOR_ISSUER: z.string().min(1).default('ParaSocial'),
+  TWO_FACTOR_SECRET: z.string().min(32, 'TWO_FACTOR_SECRET must be at least 32 characters long').optional(),
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS: z.coerce.number().int().min(30).max(30 * 60).default(5 * 60)
+})
+
+/**
+ * Create two-factor configuration from environment variables
+ * @returns Two-factor configuration object
+ * @throws Error if environment validation fails
+ */
+function createTwoFactorConfig(): TwoFactorConfig {
+  try {
+    const env = envSchema.parse(process.env)
+
+    if (process.env['NODE_ENV'] === 'production' && !env.TWO_FACTOR_SECRET) {
+      console.warn('WARNING: Using default two-factor secret in production. Set TWO_FACTOR_SECRET environment variable.')
+    }
+
+    return {
+      issuer: env.TWO_FACTOR_ISSUER,
+      secret: env.TWO_FACTOR_SECRET || DEFAULT_TWO_FACTOR_SECRET,
+      challengeTtlSeconds: env.TWO_FACTOR_CHALLENGE_TTL_SECONDS
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      throw new Error(`Two-factor environment validation failed:\n${errorMessages.join('\n')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Cached two-factor configuration
+ */
+let twoFactorConfigCache: TwoFactorConfig | null = null
+
+/**
+ * Get two-factor configuration
+ * Returns cached configuration or creates new one if not cached
+ * @returns Two-factor configuration object
+ */
+export function getTwoFactorConfig(): TwoFactorConfig {
+  if (!twoFactorConfigCache) {
+    twoFactorConfigCache = createTwoFactorConfig()
+  }
+
+  return twoFactorConfigCache
+}
+
+/**
+ * Reset configuration cache
+ * Useful for testing or when environment changes
+ */
+export function resetTwoFactorConfig(): void {
+  twoFactorConfigCache = null
+}
+
+export default getTwoFactorConfig
+
+// backend/src/config/twoFactor.ts
+// Version: 1.0.0 - Initial TOTP issuer, secret encryption and login challenge configuration
@@ -0,0 +1,87 @@
+// backend/src/config/videoProcessing.ts
+// Version: 1.0.0 - Initial video transcoding configuration
+
+import { z } from 'zod'
+
+/**
+ * Video processing configuration interface
+ * Controls the background job that transcodes uploaded videos with ffmpeg
+ */
+export interface VideoProcessingConfig {
+  enabled: boolean
+  intervalMs: number
+  batchSize: number
+  timeoutMs: number
+  ffmpegPath: string
+  ffprobePath: string
+}
+
+/**
+ * Environment variables validation schema
+ * The timeout applies to each ffmpeg run; a 50MB upload normally takes well under a minute
+ */
+const envSchema = z.object({
+  VIDEO_PROCESSING_ENABLED: z.enum(['true', 'false']).default('true'),
+  VIDEO_PROCESSING_INTERVAL_MS: z.coerce.number().int().min(1000).default(15 * 1000),
+  VIDEO_PROCESSING_BATCH_SIZE: z.coerce.number().int().min(1).max(20).default(2),
+  VIDEO_PROCESSING_TIMEOUT_MS: z.coerce.number().int().min(10 * 1000).default(10 * 60 * 1000),
+  FFMPEG_PATH: z.string().min(1).default('ffmpeg'),
+  FFPROBE_PATH: z.string().min(1).default('ffprobe')
+})
+
+/**
+ * Create video processing configuration from environment variables
+ * @returns Video processing configuration object
+ * @throws Error if environment validation fails
+ */
+function createVideoProcessingConfig(): VideoProcessingConfig {
+  try {
+    const env = envSchema.parse(process.env)
+
+    return {
+      enabled: env.VIDEO_PROCESSING_ENABLED === 'true',
+      intervalMs: env.VIDEO_PROCESSING_INTERVAL_MS,
+      batchSize: env.VIDEO_PROCESSING_BATCH_SIZE,
+      timeoutMs: env.VIDEO_PROCESSING_TIMEOUT_MS,
+      ffmpegPath: env.FFMPEG_PATH,
+      ffprobePath: env.FFPROBE_PATH
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const errorMessages = error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+      throw new Error(`Video processing environment validation failed:\n${errorMessages.join('\n')}`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Cached video processing configuration
+ */
+let videoProcessingConfigCache: VideoProcessingConfig | null = null
+
+/**
+ * Get video processing configuration
+ * Returns cached configuration or creates new one if not cached
+ * @returns Video processing configuration object
+ */
+export function getVideoProcessingConfig(): VideoProcessingConfig {
+  if (!videoProcessingConfigCache) {
+    videoProcessingConfigCache = createVideoProcessingConfig()
+  }
+
+  return videoProcessingConfigCache
+}
+
+/**
+ * Reset configuration cache
+ * Useful for testing or when environment changes
+ */
+export function resetVideoProcessingConfig(): void {
+  videoProcessingConfigCache = null
+}
+
+export default getVideoProcessingConfig
+
+// backend/src/config/videoProcessing.ts
+// Version: 1.0.0 - Initial video transcoding configuration
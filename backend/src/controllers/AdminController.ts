@@ -0,0 +1,289 @@
+// src/controllers/AdminController.ts
+// Version: 1.1.0
+// Admin endpoints for granting and revoking user roles
+// Changed: Added per-user rate limit overrides
+
+import { Request, Response } from 'express'
+import { User } from '../models/User'
+import { RoleService } from '../services/RoleService'
+import { RateLimitTierService } from '../services/RateLimitTierService'
+
+/**
+ * Map role service error codes to HTTP status codes
+ * @param code - Error code from RoleService
+ * @returns HTTP status code
+ */
+function mapErrorCodeToStatus(code?: string): number {
+  switch (code) {
+    case 'CANNOT_CHANGE_OWN_ROLE':
+      return 403
+    case 'USER_NOT_FOUND':
+    case 'OVERRIDE_NOT_FOUND':
+      return 404
+    case 'ROLE_UNCHANGED':
+    case 'ROLE_CONFLICT':
+      return 409
+    default:
+      return 500
+  }
+}
+
+/**
+ * Admin controller class
+ * Routes are expected to run authMiddleware and requireRole('admin') first
+ */
+export class AdminController {
+  constructor(
+    private roleService: RoleService,
+    private rateLimitTierService: RateLimitTierService
+  ) {}
+
+  /**
+   * Grant or revoke a role
+   * PUT /admin/users/:id/role
+   */
+  async updateUserRole(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      const validation = User.validateRoleUpdate(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid role update',
+            details: validation.error.issues
+          }
+        })
+        return
+      }
+
+      const { role, reason } = validation.data
+      const result = await this.roleService.changeRole(req.user.id, req.params['id'] as string, role, reason)
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to change role'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: result.data
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while changing role'
+        }
+      })
+    }
+  }
+
+  /**
+   * List the role changes made to a user
+   * GET /admin/users/:id/role-changes
+   */
+  async getUserRoleHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.roleService.getRoleHistory(req.params['id'] as string)
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to load role history'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          roleChanges: result.data
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while loading role history'
+        }
+      })
+    }
+  }
+
+  /**
+   * Show a user's rate limits and the overrides set for them
+   * GET /admin/users/:id/rate-limits
+   */
+  async getUserRateLimits(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.params['id'] as string
+      const limits = await this.rateLimitTierService.getUserLimits(userId)
+      const overrides = await this.rateLimitTierService.listOverrides(userId)
+      if (!limits.success || !limits.data || !overrides.success || !overrides.data) {
+        const code = limits.code || overrides.code
+        res.status(mapErrorCodeToStatus(code)).json({
+          success: false,
+          error: {
+            code: code || 'SERVER_ERROR',
+            message: limits.error || overrides.error || 'Failed to load rate limits'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...limits.data,
+          overrides: overrides.data
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while loading rate limits'
+        }
+      })
+    }
+  }
+
+  /**
+   * Set a user's limit for a policy, replacing the limit from their tier and role
+   * PUT /admin/users/:id/rate-limits/:policy
+   */
+  async setUserRateLimit(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      const validation = User.validateRateLimitOverride({ ...req.body, policy: req.params['policy'] })
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid rate limit override',
+            details: validation.error.issues
+          }
+        })
+        return
+      }
+
+      const result = await this.rateLimitTierService.setOverride(req.user.id, req.params['id'] as string, validation.data)
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to set rate limit'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: result.data
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while setting rate limit'
+        }
+      })
+    }
+  }
+
+  /**
+   * Remove a user's override, returning them to their tier limit
+   * DELETE /admin/users/:id/rate-limits/:policy
+   */
+  async removeUserRateLimit(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      const validation = User.validateRateLimitPolicy(req.params['policy'])
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Unknown rate limit policy',
+            details: validation.error.issues
+          }
+        })
+        return
+      }
+
+      const result = await this.rateLimitTierService.removeOverride(req.user.id, req.params['id'] as string, validation.data)
+      if (!result.success) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to remove rate limit'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          userId: req.params['id'],
+          policy: validation.data
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while removing rate limit'
+        }
+      })
+    }
+  }
+}
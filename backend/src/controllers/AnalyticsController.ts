@@ -0,0 +1,143 @@
+// backend/src/controllers/AnalyticsController.ts
+// Version: 1.1.0
+// Creator dashboard analytics for the signed-in user
+// Changed: Added day, week and month series from the daily rollups
+
+import { Request, Response } from 'express'
+import { AnalyticsService } from '../services/AnalyticsService'
+import { CreatorDailyStatsSchemas } from '../models/CreatorDailyStats'
+
+/**
+ * Map analytics service error codes to HTTP status codes
+ * @param code - Error code from AnalyticsService
+ * @returns HTTP status code
+ */
+function mapErrorCodeToStatus(code?: string): number {
+  switch (code) {
+    case 'INVALID_TIMEZONE':
+    case 'INVALID_RANGE':
+      return 400
+    default:
+      return 500
+  }
+}
+
+/**
+ * Analytics controller class
+ * Routes are expected to run authMiddleware first; creators only see their own numbers
+ */
+export class AnalyticsController {
+  constructor(private analyticsService: AnalyticsService) {}
+
+  /**
+   * Get the signed-in creator's dashboard analytics
+   * Optional ?timezone= (IANA name) sets the timezone for best posting times
+   * GET /analytics/dashboard
+   */
+  async getDashboard(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      const timezone = typeof req.query['timezone'] === 'string' ? req.query['timezone'] : undefined
+      const result = await this.analyticsService.getDashboard(req.user.id, { timezone })
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to load analytics'
+          }
+        })
+        return
+      }
+
+      res.set('Cache-Control', 'private, no-store')
+      res.json({
+        success: true,
+        data: result.data
+      })
+    } catch (error) {
+      console.error('Analytics dashboard error:', error)
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while loading analytics'
+        }
+      })
+    }
+  }
+
+  /**
+   * Get the signed-in creator's daily rollups as a series
+   * ?interval= is day (default), week or month; ?from= and ?to= are UTC days as YYYY-MM-DD
+   * Buckets without activity are returned with zero counts
+   * GET /analytics/series
+   */
+  async getSeries(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      const queryValidation = CreatorDailyStatsSchemas.series.safeParse(req.query)
+      if (!queryValidation.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: queryValidation.error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        })
+        return
+      }
+
+      const result = await this.analyticsService.getSeries(req.user.id, queryValidation.data)
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to load analytics'
+          }
+        })
+        return
+      }
+
+      res.set('Cache-Control', 'private, no-store')
+      res.json({
+        success: true,
+        data: result.data
+      })
+    } catch (error) {
+      console.error('Analytics series error:', error)
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while loading analytics'
+        }
+      })
+    }
+  }
+}
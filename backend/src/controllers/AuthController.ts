@@ -1,10 +1,15 @@
 // src/controllers/AuthController.ts
-// Version: 1.4.0
-// Removed unused User import
+// Version: 1.9.1
+// Refuse logins to suspended accounts
+// A username stays taken while a renamed account still federates under its actor URI
 
 import { Request, Response } from 'express'
-import { AuthService } from '../services/AuthService'
+import { AuthService, User } from '../services/AuthService'
 import { UserRepository } from '../repositories/UserRepository'
+import { ActivityPubService } from '../services/ActivityPubService'
+import { SessionService, SessionContext } from '../services/SessionService'
+import { AccountEmailService } from '../services/AccountEmailService'
+import { TwoFactorService } from '../services/TwoFactorService'
 
 // Extend Express Request to include user from auth middleware
 interface AuthenticatedRequest extends Request {
@@ -12,17 +17,61 @@ interface AuthenticatedRequest extends Request {
     id: string
     email: string
     username: string
+    sessionId?: string
+  }
+}
+
+/**
+ * Map session, account email and two-factor service error codes to HTTP status codes
+ * @param code - Error code from SessionService, AccountEmailService or TwoFactorService
+ * @returns HTTP status code
+ */
+function mapErrorCodeToStatus(code?: string): number {
+  switch (code) {
+    case 'VALIDATION_ERROR':
+    case 'INVALID_TOKEN':
+      return 400
+    case 'ALREADY_VERIFIED':
+    case 'TWO_FACTOR_ALREADY_ENABLED':
+    case 'TWO_FACTOR_NOT_STARTED':
+    case 'TWO_FACTOR_NOT_ENABLED':
+      return 409
+    case 'TOO_MANY_REQUESTS':
+      return 429
+    case 'USER_NOT_FOUND':
+      return 404
+    case 'MAIL_FAILED':
+      return 503
+    case 'INVALID_REFRESH_TOKEN':
+    case 'REFRESH_TOKEN_REUSED':
+    case 'SESSION_REVOKED':
+    case 'SESSION_EXPIRED':
+    case 'USER_INACTIVE':
+    case 'INVALID_CHALLENGE':
+    case 'INVALID_CODE':
+    case 'INVALID_CREDENTIALS':
+      return 401
+    case 'SESSION_NOT_FOUND':
+      return 404
+    default:
+      return 500
   }
 }
 
 /**
  * Authentication controller class
  * Handles user registration, login, logout, and profile operations
+ * With a SessionService, logins create revocable sessions with refresh tokens
+ * With a TwoFactorService, enrolled users finish logging in with a TOTP or recovery code
  */
 export class AuthController {
   constructor(
     private authService: AuthService,
-    private userRepository: UserRepository
+    private userRepository: UserRepository,
+    private activityPubService?: ActivityPubService,
+    private sessionService?: SessionService,
+    private accountEmailService?: AccountEmailService,
+    private twoFactorService?: TwoFactorService
   ) {}
 
   /**
@@ -78,7 +127,11 @@ export class AuthController {
         return
       }
 
+      // Renamed accounts keep the actor URI of their old name, so that name is not free again
       const existingUserByUsername = await this.userRepository.findByUsername(username)
+        ?? (this.activityPubService
+          ? await this.userRepository.findByActorId(this.activityPubService.getActorUri(username))
+          : null)
       if (existingUserByUsername) {
         res.status(409).json({
           success: false,
@@ -92,6 +145,12 @@ export class AuthController {
 
       // Hash password and create user
       const passwordHash = await this.authService.hashPassword(password)
+
+      // Federated creators get an actor URI and signing keys up front
+      const actorIdentity = this.activityPubService
+        ? await this.activityPubService.createActorIdentity(username)
+        : null
+
       const userData = {
         username,
         email,
@@ -101,17 +160,18 @@ export class AuthController {
         avatar: null,
         website: null,
         isVerified: false,
-        verificationTier: 'none' as const
+        verificationTier: 'none' as const,
+        ...(actorIdentity ?? {})
       }
 
       const user = await this.userRepository.create(userData)
-      const token = this.authService.generateToken(user)
+      this.sendInitialVerificationEmail(user.id)
 
       res.status(201).json({
         success: true,
         data: {
           user: user.getPublicProfile(),
-          token
+          ...(await this.issueTokens(user, req))
         }
       })
     } catch (error) {
@@ -197,13 +257,30 @@ export class AuthController {
         return
       }
 
-      // Generate token and return user data
-      const token = this.authService.generateToken(user)
+      // Checked after the password so the response does not reveal suspension to guessers
+      if (user.isActive === false) {
+        this.sendAccountSuspended(res)
+        return
+      }
+
+      // Enrolled users get a challenge instead of tokens until they enter a code
+      if (this.twoFactorService && await this.twoFactorService.isEnabled(user.id)) {
+        res.json({
+          success: true,
+          data: {
+            twoFactorRequired: true,
+            ...this.twoFactorService.createChallenge(user.id)
+          }
+        })
+        return
+      }
+
+      // Generate tokens and return user data
       res.json({
         success: true,
         data: {
           user: user.getPrivateProfile(),
-          token
+          ...(await this.issueTokens(user, req))
         }
       })
     } catch (error) {
@@ -217,15 +294,71 @@ export class AuthController {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   * POST /auth/refresh
+   */
+  async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.sessionService) {
+        this.sendSessionsUnavailable(res)
+        return
+      }
+
+      const { refreshToken } = req.body ?? {}
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Refresh token is required'
+          }
+        })
+        return
+      }
+
+      const result = await this.sessionService.refresh(refreshToken, this.getSessionContext(req))
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to refresh session'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          token: result.data.accessToken,
+          refreshToken: result.data.refreshToken,
+          expiresIn: result.data.expiresIn
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error during token refresh'
+        }
+      })
+    }
+  }
+
   /**
    * Logout current user session
    * POST /auth/logout
-   * Note: For JWT-based auth, logout is typically handled client-side
+   * Revokes the session the access token belongs to, which also invalidates its refresh token
    */
-  async logout(_req: AuthenticatedRequest, res: Response): Promise<void> {
+  async logout(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      // For JWT-based auth, logout is typically handled client-side
-      // Server can maintain a blacklist of tokens if needed
+      if (this.sessionService && req.user?.sessionId) {
+        await this.sessionService.endSession(req.user.sessionId)
+      }
+
       res.json({
         success: true,
         data: {
@@ -287,4 +420,751 @@ export class AuthController {
       })
     }
   }
+
+  /**
+   * List the current user's logged-in devices
+   * GET /auth/sessions
+   */
+  async getSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      if (!this.sessionService) {
+        this.sendSessionsUnavailable(res)
+        return
+      }
+
+      const sessions = await this.sessionService.listSessions(req.user.id, req.user.sessionId)
+
+      res.json({
+        success: true,
+        data: { sessions }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while fetching sessions'
+        }
+      })
+    }
+  }
+
+  /**
+   * Log out one of the current user's devices
+   * DELETE /auth/sessions/:id
+   */
+  async deleteSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      if (!this.sessionService) {
+        this.sendSessionsUnavailable(res)
+        return
+      }
+
+      const sessionId = req.params['id']
+      if (!sessionId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Session ID is required'
+          }
+        })
+        return
+      }
+
+      const result = await this.sessionService.revokeSession(req.user.id, sessionId)
+      if (!result.success) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to revoke session'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          id: sessionId,
+          current: sessionId === req.user.sessionId,
+          message: 'Session revoked'
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while revoking session'
+        }
+      })
+    }
+  }
+
+  /**
+   * Email a password reset link
+   * POST /auth/forgot-password
+   * Responds the same way whether or not the account exists
+   */
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.accountEmailService) {
+        this.sendAccountEmailUnavailable(res)
+        return
+      }
+
+      const { email } = req.body ?? {}
+      if (!email || typeof email !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Email is required'
+          }
+        })
+        return
+      }
+
+      await this.accountEmailService.requestPasswordReset(email.trim())
+
+      res.json({
+        success: true,
+        data: {
+          message: 'If an account exists for that email, a reset link has been sent'
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error during password reset request'
+        }
+      })
+    }
+  }
+
+  /**
+   * Set a new password with a reset token
+   * POST /auth/reset-password
+   */
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.accountEmailService) {
+        this.sendAccountEmailUnavailable(res)
+        return
+      }
+
+      const { token, password } = req.body ?? {}
+      if (!token || typeof token !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Reset token is required'
+          }
+        })
+        return
+      }
+
+      const result = await this.accountEmailService.resetPassword(token, password)
+      if (!result.success) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to reset password',
+            ...(result.details ? { details: result.details } : {})
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Password has been reset. Please log in again.'
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error during password reset'
+        }
+      })
+    }
+  }
+
+  /**
+   * Verify an email address with a verification token
+   * POST /auth/verify-email
+   */
+  async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.accountEmailService) {
+        this.sendAccountEmailUnavailable(res)
+        return
+      }
+
+      const { token } = req.body ?? {}
+      if (!token || typeof token !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Verification token is required'
+          }
+        })
+        return
+      }
+
+      const result = await this.accountEmailService.verifyEmail(token)
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to verify email'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          verificationTier: result.data.verificationTier,
+          message: 'Email address verified'
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error during email verification'
+        }
+      })
+    }
+  }
+
+  /**
+   * Send a new verification email to the current user
+   * POST /auth/verify-email/resend
+   */
+  async resendVerification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      if (!this.accountEmailService) {
+        this.sendAccountEmailUnavailable(res)
+        return
+      }
+
+      const result = await this.accountEmailService.sendVerificationEmail(req.user.id)
+      if (!result.success) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to send verification email'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Verification email sent'
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while sending verification email'
+        }
+      })
+    }
+  }
+
+  /**
+   * Finish a login by answering its two-factor challenge
+   * POST /auth/2fa/verify
+   */
+  async verifyTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.twoFactorService) {
+        this.sendTwoFactorUnavailable(res)
+        return
+      }
+
+      const { challengeToken, code } = req.body ?? {}
+      if (!challengeToken || typeof challengeToken !== 'string' || !code || typeof code !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Challenge token and code are required'
+          }
+        })
+        return
+      }
+
+      const result = await this.twoFactorService.completeChallenge(challengeToken, code)
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to verify code'
+          }
+        })
+        return
+      }
+
+      // The account may have been suspended since the password step
+      if (result.data.user.isActive === false) {
+        this.sendAccountSuspended(res)
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          user: result.data.user.getPrivateProfile(),
+          ...(await this.issueTokens(result.data.user, req)),
+          usedRecoveryCode: result.data.usedRecoveryCode
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error during two-factor verification'
+        }
+      })
+    }
+  }
+
+  /**
+   * Get the current user's two-factor settings
+   * GET /auth/2fa
+   */
+  async getTwoFactorStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      if (!this.twoFactorService) {
+        this.sendTwoFactorUnavailable(res)
+        return
+      }
+
+      res.json({
+        success: true,
+        data: await this.twoFactorService.getStatus(req.user.id)
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while fetching two-factor status'
+        }
+      })
+    }
+  }
+
+  /**
+   * Start two-factor enrollment
+   * POST /auth/2fa/setup
+   * Returns the secret and the otpauth:// URI to render as a QR code
+   */
+  async setupTwoFactor(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      if (!this.twoFactorService) {
+        this.sendTwoFactorUnavailable(res)
+        return
+      }
+
+      const result = await this.twoFactorService.beginSetup(req.user.id)
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to start two-factor setup'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: result.data
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error during two-factor setup'
+        }
+      })
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code and turn two-factor on
+   * POST /auth/2fa/enable
+   * The recovery codes in the response are never shown again
+   */
+  async enableTwoFactor(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      if (!this.twoFactorService) {
+        this.sendTwoFactorUnavailable(res)
+        return
+      }
+
+      const { code } = req.body ?? {}
+      if (!code || typeof code !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Authentication code is required'
+          }
+        })
+        return
+      }
+
+      const result = await this.twoFactorService.confirmSetup(req.user.id, code)
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to enable two-factor authentication'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          enabled: true,
+          recoveryCodes: result.data.recoveryCodes
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while enabling two-factor authentication'
+        }
+      })
+    }
+  }
+
+  /**
+   * Turn two-factor off after re-entering the password and a code
+   * POST /auth/2fa/disable
+   */
+  async disableTwoFactor(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      if (!this.twoFactorService) {
+        this.sendTwoFactorUnavailable(res)
+        return
+      }
+
+      const { password, code } = req.body ?? {}
+      if (!password || typeof password !== 'string' || !code || typeof code !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Password and authentication code are required'
+          }
+        })
+        return
+      }
+
+      const result = await this.twoFactorService.disable(req.user.id, password, code)
+      if (!result.success) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to disable two-factor authentication'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          enabled: false,
+          message: 'Two-factor authentication disabled'
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while disabling two-factor authentication'
+        }
+      })
+    }
+  }
+
+  /**
+   * Replace the recovery codes after re-entering the password and a code
+   * POST /auth/2fa/recovery-codes
+   */
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        })
+        return
+      }
+
+      if (!this.twoFactorService) {
+        this.sendTwoFactorUnavailable(res)
+        return
+      }
+
+      const { password, code } = req.body ?? {}
+      if (!password || typeof password !== 'string' || !code || typeof code !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Password and authentication code are required'
+          }
+        })
+        return
+      }
+
+      const result = await this.twoFactorService.regenerateRecoveryCodes(req.user.id, password, code)
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'SERVER_ERROR',
+            message: result.error || 'Failed to regenerate recovery codes'
+          }
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          recoveryCodes: result.data.recoveryCodes
+        }
+      })
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while regenerating recovery codes'
+        }
+      })
+    }
+  }
+
+  /**
+   * Issue tokens for a freshly authenticated user
+   * Starts a session when sessions are enabled, otherwise returns a plain JWT
+   * @param user - Authenticated user
+   * @param req - Request the login came from
+   * @returns Promise<Object> Token fields for the response body
+   */
+  private async issueTokens(user: User, req: Request): Promise<{ token: string, refreshToken?: string, expiresIn?: number }> {
+    if (!this.sessionService) {
+      return { token: this.authService.generateToken(user) }
+    }
+
+    const session = await this.sessionService.startSession(user, this.getSessionContext(req))
+    return {
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn
+    }
+  }
+
+  /**
+   * Collect client details shown in the device list
+   * @param req - Incoming request
+   * @returns SessionContext User agent and IP address, when known
+   */
+  private getSessionContext(req: Request): SessionContext {
+    const userAgent = req.headers?.['user-agent']
+    return {
+      userAgent: typeof userAgent === 'string' ? userAgent.slice(0, 512) : null,
+      ipAddress: req.ip || null
+    }
+  }
+
+  /**
+   * Send the first verification email without holding up registration
+   * Failures are logged by the service; the user can ask for a resend
+   * @param userId - Newly registered user
+   */
+  private sendInitialVerificationEmail(userId: string): void {
+    if (!this.accountEmailService) {
+      return
+    }
+
+    this.accountEmailService.sendVerificationEmail(userId).catch(() => {
+      // Registration already succeeded; the resend endpoint covers this
+    })
+  }
+
+  /**
+   * Respond when email flows are not configured
+   * @param res - Express response
+   */
+  private sendAccountEmailUnavailable(res: Response): void {
+    res.status(501).json({
+      success: false,
+      error: {
+        code: 'EMAIL_UNAVAILABLE',
+        message: 'Email features are not enabled'
+      }
+    })
+  }
+
+  /**
+   * Respond when a suspended user tries to sign in
+   * @param res - Express response
+   */
+  private sendAccountSuspended(res: Response): void {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'ACCOUNT_SUSPENDED',
+        message: 'This account has been suspended'
+      }
+    })
+  }
+
+  /**
+   * Respond when two-factor authentication is not configured
+   * @param res - Express response
+   */
+  private sendTwoFactorUnavailable(res: Response): void {
+    res.status(501).json({
+      success: false,
+      error: {
+        code: 'TWO_FACTOR_UNAVAILABLE',
+        message: 'Two-factor authentication is not enabled'
+      }
+    })
+  }
+
+  /**
+   * Respond when session management is not configured
+   * @param res - Express response
+   */
+  private sendSessionsUnavailable(res: Response): void {
+    res.status(501).json({
+      success: false,
+      error: {
+        code: 'SESSIONS_UNAVAILABLE',
+        message: 'Session management is not enabled'
+      }
+    })
+  }
 }
\ No newline at end of file
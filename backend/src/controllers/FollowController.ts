@@ -1,6 +1,6 @@
 // backend/src/controllers/FollowController.ts
-// Version: 1.12.0
-// Fixed response formats, method signatures, ActivityPub logic, and added getUserFollowing method
+// Version: 1.13.0
+// Added the follow request inbox with accept and reject for accounts that approve their followers
 
 import { Request, Response } from 'express'
 import { FollowService } from '../services/FollowService'
@@ -614,6 +614,134 @@ export class FollowController {
     }
   }
 
+  /**
+   * List follow requests waiting for the signed-in user's approval
+   * GET /users/follow-requests
+   */
+  async getFollowRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt((req.query['page'] as string) || '1') || 1
+      const limit = Math.min(parseInt((req.query['limit'] as string) || '20') || 20, 50)
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+          code: 'AUTHENTICATION_REQUIRED'
+        })
+        return
+      }
+
+      const result: ServiceResponse = await this.followService.getFollowRequests(req.user.id, {
+        offset: (page - 1) * limit,
+        limit
+      })
+
+      if (!result.success) {
+        const statusCode = this.mapErrorCodeToStatus(result.code)
+        res.status(statusCode).json({
+          success: false,
+          error: result.error || 'Failed to get follow requests',
+          code: result.code
+        })
+        return
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data
+      })
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+        details: errorMessage
+      })
+    }
+  }
+
+  /**
+   * Approve a follow request
+   * POST /users/follow-requests/:id/accept
+   */
+  async acceptFollowRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.answerFollowRequest(req, res, 'accept')
+  }
+
+  /**
+   * Decline a follow request
+   * POST /users/follow-requests/:id/reject
+   */
+  async rejectFollowRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.answerFollowRequest(req, res, 'reject')
+  }
+
+  /**
+   * Accept or reject one of the signed-in user's follow requests
+   */
+  private async answerFollowRequest(
+    req: AuthenticatedRequest,
+    res: Response,
+    decision: 'accept' | 'reject'
+  ): Promise<void> {
+    try {
+      const requestId = req.params['id']
+
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+          code: 'AUTHENTICATION_REQUIRED'
+        })
+        return
+      }
+
+      if (!requestId) {
+        res.status(400).json({
+          success: false,
+          error: 'Follow request ID is required',
+          code: 'VALIDATION_ERROR'
+        })
+        return
+      }
+
+      const result: ServiceResponse = decision === 'accept'
+        ? await this.followService.acceptFollowRequest(req.user.id, requestId)
+        : await this.followService.rejectFollowRequest(req.user.id, requestId)
+
+      if (!result.success) {
+        const statusCode = this.mapErrorCodeToStatus(result.code)
+        res.status(statusCode).json({
+          success: false,
+          error: result.error || `Failed to ${decision} follow request`,
+          code: result.code
+        })
+        return
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: decision === 'accept' ? 'Follow request accepted' : 'Follow request rejected'
+        }
+      })
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+        details: errorMessage
+      })
+    }
+  }
+
   /**
    * Map error codes to HTTP status codes
    */
@@ -627,9 +755,11 @@ export class FollowController {
         return 403
       case 'USER_NOT_FOUND':
       case 'NOT_FOLLOWING':
+      case 'FOLLOW_REQUEST_NOT_FOUND':
         return 404
       case 'NO_FOLLOWER_IDENTITY':
       case 'ALREADY_FOLLOWING':
+      case 'FOLLOW_REQUEST_PENDING':
       case 'SELF_FOLLOW_ERROR':
         return 409
       case 'INTERNAL_ERROR':
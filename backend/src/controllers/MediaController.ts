@@ -0,0 +1,326 @@
+// backend/src/controllers/MediaController.ts
+// Version: 1.4.0
+// Records uploaded files as media the uploader can attach to a post
+// Changed: Uploads can be marked sensitive so readers see them only after clicking through
+
+import { Request, Response } from 'express'
+import { pipeline } from 'stream/promises'
+import { z } from 'zod'
+import { MediaService, MediaFile } from '../services/MediaService'
+import { ByteRange } from '../services/StorageProvider'
+import { setMediaFileHeaders } from '../middleware/staticFileSecurityMiddleware'
+import { MAX_ALT_TEXT_LENGTH } from '../utils/constants'
+
+/**
+ * Validation schema for the form fields sent with an upload
+ */
+const uploadFieldsSchema = z.object({
+  altText: z.string().trim().max(MAX_ALT_TEXT_LENGTH).optional(),
+  // Multipart fields arrive as strings
+  sensitive: z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+})
+
+/**
+ * Validation schema for the query string of a media file request
+ * expires and signature come from a signed URL; download asks for an attachment
+ */
+const mediaFileQuerySchema = z.object({
+  expires: z.coerce.number().int().optional(),
+  signature: z.string().optional(),
+  download: z.enum(['1', 'true']).optional()
+})
+
+/**
+ * Send a 404 in the shape the media routes use
+ * @param res - Express response
+ */
+function sendNotFound(res: Response): void {
+  res.status(404).json({
+    success: false,
+    error: {
+      code: 'NOT_FOUND',
+      message: 'File not found',
+      details: []
+    }
+  })
+}
+
+/**
+ * Media controller class
+ * Upload and delete routes are expected to run authMiddleware (and multer for
+ * uploads) first; the file route runs optionalAuthMiddleware
+ */
+export class MediaController {
+  constructor(private mediaService: MediaService) {}
+
+  /**
+   * Record an uploaded file as unattached media
+   * POST /media/upload
+   */
+  async uploadMedia(req: Request, res: Response): Promise<void> {
+    const file = req.file
+
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required to upload media',
+            details: []
+          }
+        })
+        return
+      }
+
+      if (!file) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'UPLOAD_ERROR',
+            message: 'No file uploaded',
+            details: []
+          }
+        })
+        return
+      }
+
+      const validation = uploadFieldsSchema.safeParse(req.body ?? {})
+      if (!validation.success) {
+        await this.mediaService.discardUpload(file.path)
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid media data',
+            details: validation.error.errors.map(err => ({
+              field: err.path.join('.'),
+              message: err.message
+            }))
+          }
+        })
+        return
+      }
+
+      const result = await this.mediaService.createUpload(
+        req.user.id,
+        {
+          filename: file.filename,
+          path: file.path,
+          originalName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size
+        },
+        validation.data.altText,
+        validation.data.sensitive
+      )
+      if (!result.success) {
+        res.status(result.code === 'INVALID_IMAGE' ? 400 : 500).json({
+          success: false,
+          error: {
+            code: result.code || 'INTERNAL_ERROR',
+            message: result.error || 'Failed to save uploaded media',
+            details: []
+          }
+        })
+        return
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { media: result.data }
+      })
+
+    } catch (error) {
+      console.error('Error saving uploaded media:', error)
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to save uploaded media',
+          details: []
+        }
+      })
+    }
+  }
+
+  /**
+   * Serve a media file to a viewer allowed to read it
+   * GET /media/:identifier, where identifier is a media ID or a stored filename
+   * Supports single byte ranges for video seeking, and ETag/Last-Modified revalidation
+   */
+  async getMedia(req: Request<{ identifier: string }>, res: Response): Promise<void> {
+    try {
+      const query = mediaFileQuerySchema.safeParse(req.query)
+      const params = query.success ? query.data : {}
+      const signedUrl = params.expires !== undefined && params.signature
+        ? { expires: params.expires, signature: params.signature }
+        : null
+
+      const result = await this.mediaService.findMediaFile(req.params.identifier, req.user, signedUrl)
+      if (!result.success || !result.data) {
+        sendNotFound(res)
+        return
+      }
+      const file = result.data
+
+      setMediaFileHeaders(res, {
+        filename: file.key,
+        downloadName: file.downloadName,
+        download: params.download !== undefined,
+        isPublic: file.isPublic
+      })
+      res.setHeader('ETag', file.etag)
+      res.setHeader('Last-Modified', file.lastModified.toUTCString())
+
+      // req.fresh compares If-None-Match and If-Modified-Since with the headers set above
+      if (req.fresh) {
+        res.status(304).end()
+        return
+      }
+
+      const range = file.size !== null ? this.parseRange(req, file) : null
+      if (range === 'unsatisfiable') {
+        res.setHeader('Content-Range', `bytes */${file.size}`)
+        res.status(416).json({
+          success: false,
+          error: {
+            code: 'RANGE_NOT_SATISFIABLE',
+            message: 'Requested range is outside the file',
+            details: []
+          }
+        })
+        return
+      }
+
+      const stored = await this.mediaService.openMediaFile(file, range ?? undefined)
+      if (!stored) {
+        res.removeHeader('ETag')
+        res.removeHeader('Last-Modified')
+        res.removeHeader('Content-Disposition')
+        res.removeHeader('Cache-Control')
+        sendNotFound(res)
+        return
+      }
+
+      const size = file.size ?? stored.size
+      res.setHeader('Content-Type', file.mimeType)
+      res.setHeader('Accept-Ranges', 'bytes')
+      if (range) {
+        res.status(206)
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`)
+        res.setHeader('Content-Length', range.end - range.start + 1)
+      } else if (size !== undefined) {
+        res.setHeader('Content-Length', size)
+      }
+
+      if (req.method === 'HEAD') {
+        stored.body.destroy()
+        res.end()
+        return
+      }
+
+      await pipeline(stored.body, res)
+
+    } catch (error) {
+      if (res.headersSent) {
+        // The client went away or storage failed mid-stream; nothing more can be sent
+        res.destroy()
+        return
+      }
+
+      console.error('Error serving media:', error)
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to serve media',
+          details: []
+        }
+      })
+    }
+  }
+
+  /**
+   * Delete media and its stored files
+   * DELETE /media/:identifier, where identifier is a media ID or a stored filename
+   */
+  async deleteMedia(req: Request<{ identifier: string }>, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required to delete media',
+            details: []
+          }
+        })
+        return
+      }
+
+      const result = await this.mediaService.deleteMedia(req.params.identifier, req.user)
+      if (!result.success) {
+        if (result.code === 'FORBIDDEN') {
+          res.status(403).json({
+            success: false,
+            error: {
+              code: 'FORBIDDEN',
+              message: result.error || 'Only the uploader can delete this media',
+              details: []
+            }
+          })
+          return
+        }
+
+        sendNotFound(res)
+        return
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'File deleted successfully'
+      })
+
+    } catch (error) {
+      console.error('Error deleting media:', error)
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete media',
+          details: []
+        }
+      })
+    }
+  }
+
+  /**
+   * Read a single byte range from the Range header
+   * Multiple ranges, malformed headers and an If-Range that no longer matches
+   * are answered with the whole file, as RFC 9110 allows
+   * @param req - Express request
+   * @param file - File being served, with a known size
+   * @returns The range, 'unsatisfiable', or null to send the whole file
+   */
+  private parseRange(req: Request<{ identifier: string }>, file: MediaFile): ByteRange | 'unsatisfiable' | null {
+    if (!req.headers.range || file.size === null) {
+      return null
+    }
+
+    const ifRange = req.headers['if-range']
+    if (ifRange && ifRange !== file.etag && ifRange !== file.lastModified.toUTCString()) {
+      return null
+    }
+
+    const ranges = req.range(file.size, { combine: true })
+    if (ranges === -1) {
+      return 'unsatisfiable'
+    }
+    if (ranges === -2 || ranges === undefined || ranges.type !== 'bytes' || ranges.length !== 1) {
+      return null
+    }
+
+    return { start: ranges[0]!.start, end: ranges[0]!.end }
+  }
+}
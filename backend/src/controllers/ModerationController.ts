@@ -0,0 +1,245 @@
+// src/controllers/ModerationController.ts
+// Version: 1.0.0
+// Moderator actions on reports, their reversal and account standing
+
+import { Request, Response } from 'express'
+import { ModerationActionSchemas } from '../models/ModerationAction'
+import { ModerationService } from '../services/ModerationService'
+
+/**
+ * Map moderation service error codes to HTTP status codes
+ * @param code - Error code from ModerationService
+ * @returns HTTP status code
+ */
+function mapErrorCodeToStatus(code?: string): number {
+  switch (code) {
+    case 'INVALID_ACTION':
+      return 400
+    case 'CANNOT_MODERATE_STAFF':
+      return 403
+    case 'REPORT_NOT_FOUND':
+    case 'POST_NOT_FOUND':
+    case 'USER_NOT_FOUND':
+    case 'ACTION_NOT_FOUND':
+      return 404
+    case 'ALREADY_SUSPENDED':
+    case 'ACTION_ALREADY_REVERSED':
+      return 409
+    default:
+      return 500
+  }
+}
+
+/**
+ * Moderation controller class
+ * Staff routes are expected to run authMiddleware and requireRole('moderator', 'admin') first
+ */
+export class ModerationController {
+  constructor(private moderationService: ModerationService) {}
+
+  /**
+   * Take an action from a report
+   * POST /reports/:id/actions
+   */
+  async takeAction(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      const validation = ModerationActionSchemas.create.safeParse(req.body)
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid moderation action',
+            details: validation.error.issues
+          }
+        })
+        return
+      }
+
+      const result = await this.moderationService.takeAction(
+        { id: req.user.id, role: req.user.role ?? 'user' },
+        req.params['id'] as string,
+        validation.data.type,
+        validation.data.reason
+      )
+      if (!result.success || !result.data) {
+        this.sendServiceError(res, result.code, result.error || 'Failed to take moderation action')
+        return
+      }
+
+      res.status(201).json({
+        success: true,
+        data: {
+          action: result.data
+        }
+      })
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while taking moderation action')
+    }
+  }
+
+  /**
+   * List the actions taken from a report
+   * GET /reports/:id/actions
+   */
+  async getReportActions(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.moderationService.getReportActions(req.params['id'] as string)
+      if (!result.success || !result.data) {
+        this.sendServiceError(res, result.code, result.error || 'Failed to load moderation actions')
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          actions: result.data
+        }
+      })
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while loading moderation actions')
+    }
+  }
+
+  /**
+   * Reverse an action
+   * POST /moderation/actions/:id/reverse
+   */
+  async reverseAction(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      const validation = ModerationActionSchemas.reverse.safeParse(req.body ?? {})
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid reversal',
+            details: validation.error.issues
+          }
+        })
+        return
+      }
+
+      const result = await this.moderationService.reverseAction(
+        { id: req.user.id, role: req.user.role ?? 'user' },
+        req.params['id'] as string,
+        validation.data.reason
+      )
+      if (!result.success || !result.data) {
+        this.sendServiceError(res, result.code, result.error || 'Failed to reverse moderation action')
+        return
+      }
+
+      res.json({
+        success: true,
+        data: {
+          action: result.data
+        }
+      })
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while reversing moderation action')
+    }
+  }
+
+  /**
+   * Get the signed-in user's account standing
+   * GET /moderation/standing
+   */
+  async getOwnStanding(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      const result = await this.moderationService.getAccountStanding(req.user.id)
+      if (!result.success || !result.data) {
+        this.sendServiceError(res, result.code, result.error || 'Failed to load account standing')
+        return
+      }
+
+      res.json({
+        success: true,
+        data: result.data
+      })
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while loading account standing')
+    }
+  }
+
+  /**
+   * Get any user's account standing, including escalations
+   * GET /moderation/users/:id/standing
+   */
+  async getUserStanding(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.moderationService.getAccountStanding(req.params['id'] as string, true)
+      if (!result.success || !result.data) {
+        this.sendServiceError(res, result.code, result.error || 'Failed to load account standing')
+        return
+      }
+
+      res.json({
+        success: true,
+        data: result.data
+      })
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while loading account standing')
+    }
+  }
+
+  /**
+   * Respond 401 for requests without an authenticated user
+   * @param res - Express response
+   */
+  private sendAuthenticationRequired(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'AUTHENTICATION_REQUIRED',
+        message: 'Authentication required'
+      }
+    })
+  }
+
+  /**
+   * Respond with a ModerationService error
+   * @param res - Express response
+   * @param code - Error code from the service
+   * @param message - Error message from the service
+   */
+  private sendServiceError(res: Response, code: string | undefined, message: string): void {
+    res.status(mapErrorCodeToStatus(code)).json({
+      success: false,
+      error: {
+        code: code || 'SERVER_ERROR',
+        message
+      }
+    })
+  }
+
+  /**
+   * Respond 500 for unexpected errors
+   * @param res - Express response
+   * @param message - Error message
+   */
+  private sendServerError(res: Response, message: string): void {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message
+      }
+    })
+  }
+}
@@ -0,0 +1,239 @@
+// backend/src/controllers/ModerationDashboardController.ts
+// Version: 1.0.0
+// Creator moderation dashboard and the staff report queue
+
+import { Request, Response } from 'express'
+import { z } from 'zod'
+import { ModerationDashboardSchemas } from '../models/ModerationDashboard'
+import { ModerationDashboardService } from '../services/ModerationDashboardService'
+
+/**
+ * Map moderation dashboard service error codes to HTTP status codes
+ * @param code - Error code from ModerationDashboardService
+ * @returns HTTP status code
+ */
+function mapErrorCodeToStatus(code?: string): number {
+  switch (code) {
+    case 'POST_NOT_FOUND':
+      return 404
+    default:
+      return 500
+  }
+}
+
+/**
+ * Moderation dashboard controller class
+ * Creator routes are expected to run authMiddleware first and only ever show the
+ * signed-in user's own data; the staff queue also needs requireRole('moderator', 'admin')
+ */
+export class ModerationDashboardController {
+  constructor(private moderationDashboardService: ModerationDashboardService) {}
+
+  /**
+   * Get counts for the signed-in creator's moderation panel
+   * GET /moderation/dashboard
+   */
+  async getSummary(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      const result = await this.moderationDashboardService.getSummary(req.user.id)
+      this.sendResult(res, result, 'Failed to load moderation summary')
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while loading moderation summary')
+    }
+  }
+
+  /**
+   * List reports against the signed-in creator's account
+   * GET /moderation/dashboard/reports
+   */
+  async getAccountReports(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      const query = this.parseQuery(ModerationDashboardSchemas.reports, req, res)
+      if (!query) {
+        return
+      }
+
+      const result = await this.moderationDashboardService.getAccountReports(req.user.id, query)
+      this.sendResult(res, result, 'Failed to load reports')
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while loading reports')
+    }
+  }
+
+  /**
+   * List the signed-in creator's reported posts with report counts
+   * GET /moderation/dashboard/posts
+   */
+  async getReportedPosts(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      const query = this.parseQuery(ModerationDashboardSchemas.page, req, res)
+      if (!query) {
+        return
+      }
+
+      const result = await this.moderationDashboardService.getReportedPosts(req.user.id, query)
+      this.sendResult(res, result, 'Failed to load reported posts')
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while loading reported posts')
+    }
+  }
+
+  /**
+   * List reports against one of the signed-in creator's posts
+   * GET /moderation/dashboard/posts/:id/reports
+   */
+  async getPostReports(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      const query = this.parseQuery(ModerationDashboardSchemas.reports, req, res)
+      if (!query) {
+        return
+      }
+
+      const result = await this.moderationDashboardService.getPostReports(
+        req.user.id,
+        req.params['id'] as string,
+        query
+      )
+      this.sendResult(res, result, 'Failed to load reports')
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while loading reports')
+    }
+  }
+
+  /**
+   * List the accounts the signed-in creator has blocked
+   * GET /moderation/dashboard/blocks
+   */
+  async getBlockedUsers(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      const query = this.parseQuery(ModerationDashboardSchemas.page, req, res)
+      if (!query) {
+        return
+      }
+
+      const result = await this.moderationDashboardService.getBlockedUsers(req.user.id, query)
+      this.sendResult(res, result, 'Failed to load blocked accounts')
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while loading blocked accounts')
+    }
+  }
+
+  /**
+   * Get the most-reported accounts ordered by severity and age
+   * GET /moderation/queue
+   */
+  async getStaffQueue(_req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.moderationDashboardService.getStaffQueue()
+      this.sendResult(res, result, 'Failed to load moderation queue')
+    } catch (error) {
+      this.sendServerError(res, 'Internal server error while loading moderation queue')
+    }
+  }
+
+  /**
+   * Validate query parameters, responding 400 when they are invalid
+   * @param schema - Query schema
+   * @param req - Express request
+   * @param res - Express response
+   * @returns Parsed query, or null after responding
+   */
+  private parseQuery<T extends z.ZodTypeAny>(schema: T, req: Request, res: Response): z.infer<T> | null {
+    const validation = schema.safeParse(req.query)
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: validation.error.issues
+        }
+      })
+      return null
+    }
+    return validation.data
+  }
+
+  /**
+   * Respond with a service result, or its error
+   * @param res - Express response
+   * @param result - Result from ModerationDashboardService
+   * @param fallbackMessage - Message when the service gave none
+   */
+  private sendResult(
+    res: Response,
+    result: { success: boolean, data?: unknown, error?: string, code?: string },
+    fallbackMessage: string
+  ): void {
+    if (!result.success || !result.data) {
+      res.status(mapErrorCodeToStatus(result.code)).json({
+        success: false,
+        error: {
+          code: result.code || 'SERVER_ERROR',
+          message: result.error || fallbackMessage
+        }
+      })
+      return
+    }
+
+    res.set('Cache-Control', 'private, no-store')
+    res.json({
+      success: true,
+      data: result.data
+    })
+  }
+
+  /**
+   * Respond 401 for requests without an authenticated user
+   * @param res - Express response
+   */
+  private sendAuthenticationRequired(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'AUTHENTICATION_REQUIRED',
+        message: 'Authentication required'
+      }
+    })
+  }
+
+  /**
+   * Respond 500 for unexpected errors
+   * @param res - Express response
+   * @param message - Error message
+   */
+  private sendServerError(res: Response, message: string): void {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message
+      }
+    })
+  }
+}
@@ -1,11 +1,16 @@
 // backend/src/controllers/PostController.ts
-// Version: 4.3.0 - Fixed unused variable warnings and optimized variable usage
-// Changed: Removed unused variable warnings by optimizing variable declarations
+// Version: 4.11.0 - Signed media URLs for unpublished posts
+// Changed: Drafts and scheduled posts are returned to their author with signed, expiring media URLs
 
 import { Request, Response } from 'express'
 import { z } from 'zod'
 import { PostRepository } from '../repositories/PostRepository'
 import { UserRepository } from '../repositories/UserRepository'
+import { OutboxService } from '../services/OutboxService'
+import { MediaService, PostWithMediaUrls } from '../services/MediaService'
+import { UserRole } from '../models/User'
+import { Post, PostLifecycleAction, PostSchemas } from '../models/Post'
+import { CONTENT_LABELS, MAX_MEDIA_ATTACHMENTS } from '../utils/constants'
 
 /**
  * Interface for authenticated requests
@@ -15,6 +20,7 @@ interface AuthenticatedRequest extends Request {
     id: string
     email: string
     username: string
+    role?: UserRole
   }
 }
 
@@ -40,14 +46,27 @@ const postQuerySchema = z.object({
   includeContentWarning: z.enum(['true', 'false']).optional()
 })
 
+/**
+ * Validation schema for content labels; repeats are dropped
+ */
+const contentLabelsSchema = z.array(z.enum(CONTENT_LABELS))
+  .max(CONTENT_LABELS.length)
+  .transform(labels => [...new Set(labels)])
+
 /**
  * Validation schema for post creation
  */
 const createPostSchema = z.object({
-  content: z.string().min(1).max(5000),
+  content: z.string().max(5000),
   contentWarning: z.string().max(500).optional().nullable(),
+  contentLabels: contentLabelsSchema.optional(),
   isScheduled: z.boolean().default(false),
-  scheduledFor: z.string().datetime().optional().nullable()
+  scheduledFor: z.string().datetime().optional().nullable(),
+  isPublished: z.boolean().optional(),
+  mediaIds: z.array(z.string().min(1)).max(MAX_MEDIA_ATTACHMENTS).optional()
+}).refine(data => data.content.trim().length > 0 || (data.mediaIds?.length ?? 0) > 0, {
+  message: 'Post must have content or media attachments',
+  path: ['content']
 })
 
 /**
@@ -56,9 +75,21 @@ const createPostSchema = z.object({
 const updatePostSchema = z.object({
   content: z.string().min(1, 'Post content cannot be empty').max(5000).optional(),
   contentWarning: z.string().max(500).optional().nullable(),
-  isPublished: z.boolean().optional()
+  contentLabels: contentLabelsSchema.optional(),
+  isPublished: z.boolean().optional(),
+  mediaIds: z.array(z.string().min(1)).max(MAX_MEDIA_ATTACHMENTS).optional()
 })
 
+/**
+ * Messages for lifecycle changes the post's current state does not allow
+ */
+const INVALID_TRANSITION_MESSAGES: Record<PostLifecycleAction, string> = {
+  publish: 'Only drafts and scheduled posts can be published',
+  schedule: 'Published posts cannot be scheduled; unpublish the post first',
+  unpublish: 'Only published posts can be unpublished',
+  draft: 'Only scheduled posts can be moved back to draft'
+}
+
 /**
  * Controller for handling post-related operations
  * Includes CRUD operations and post management
@@ -66,7 +97,9 @@ const updatePostSchema = z.object({
 export class PostController {
   constructor(
     private postRepository: PostRepository,
-    private userRepository: UserRepository
+    private userRepository: UserRepository,
+    private outboxService?: OutboxService,
+    private mediaService?: MediaService
   ) {}
 
   /**
@@ -181,26 +214,46 @@ export class PostController {
         return
       }
 
-      const { content, contentWarning, isScheduled, scheduledFor } = validation.data
+      const { content, contentWarning, contentLabels, isScheduled, scheduledFor, isPublished, mediaIds } = validation.data
 
-      // Create post data
+      // Create post data; isPublished: false keeps the post as a draft
       const postData = {
         content,
         contentWarning: contentWarning || null,
+        ...(contentLabels && { contentLabels }),
         isScheduled: isScheduled || false,
         scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
-        isPublished: !isScheduled,
+        isPublished: !isScheduled && isPublished !== false,
         authorId: userId,
         createdAt: new Date(),
         updatedAt: new Date()
       }
 
-      // Create the post
-      const post = await this.postRepository.create(postData)
+      // Create the post, claiming the uploads in the same transaction when there are any
+      const post = mediaIds && mediaIds.length > 0
+        ? await this.postRepository.createWithMedia(postData, mediaIds)
+        : await this.postRepository.create(postData)
+
+      if (!post) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_MEDIA',
+            message: 'Media not found or already attached to a post',
+            details: [{ field: 'mediaIds', message: 'Each media ID must be one of your unattached uploads' }]
+          }
+        })
+        return
+      }
+
+      // Federation runs in the background and never fails the request
+      if (this.outboxService && post.isPublished) {
+        void this.outboxService.publishPost(post.id)
+      }
 
       res.status(201).json({
         success: true,
-        data: { post },
+        data: { post: await this.withPrivateMediaUrls(post) },
         message: 'Post created successfully'
       })
 
@@ -253,8 +306,26 @@ export class PostController {
         return
       }
 
-      // Check if user can access this post (published or owned by user)
+      // Removed posts and posts by suspended authors are only shown to staff;
+      // hidden posts are also shown to their author
       const userId = req.user?.id
+      const isStaff = req.user?.role === 'moderator' || req.user?.role === 'admin'
+      const isModerated = post.moderationStatus === 'removed' ||
+        (post.moderationStatus === 'hidden' && post.authorId !== userId) ||
+        post.author?.isActive === false
+      if (isModerated && !isStaff) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Post not found',
+            details: []
+          }
+        })
+        return
+      }
+
+      // Check if user can access this post (published or owned by user)
       if (!post.isPublished && post.authorId !== userId) {
         res.status(403).json({
           success: false,
@@ -269,7 +340,7 @@ export class PostController {
 
       res.status(200).json({
         success: true,
-        data: { post }
+        data: { post: await this.withPrivateMediaUrls(post) }
       })
 
     } catch (error) {
@@ -377,30 +448,66 @@ export class PostController {
         return
       }
 
-      // Prepare update data - build object with only defined properties
-      const baseUpdateData = {
-        updatedAt: new Date(),
-        scheduledFor: null as null,
-        isPublished: validation.data.isPublished ?? true
+      // Edits never change whether the post is live; the lifecycle endpoints own that
+      if (validation.data.isPublished !== undefined && validation.data.isPublished !== existingPost.isPublished) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: 'Use the publish, schedule, unpublish or draft endpoints to change whether a post is live',
+            details: [{ field: 'isPublished', message: 'Editing a post cannot publish or unpublish it' }]
+          }
+        })
+        return
       }
 
-      // Build the final update object with only the properties that have values
-      const updateData = { ...baseUpdateData }
-      
-      if (validation.data.content !== undefined) {
-        Object.assign(updateData, { content: validation.data.content })
+      // Attachments can only change before the post goes out to followers
+      if (validation.data.mediaIds !== undefined) {
+        if (existingPost.isPublished) {
+          res.status(400).json({
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Media can only be changed on drafts and scheduled posts',
+              details: [{ field: 'mediaIds', message: 'Unpublish the post to change its media' }]
+            }
+          })
+          return
+        }
+
+        const replaced = await this.postRepository.replaceMedia(postId, userId, validation.data.mediaIds)
+        if (!replaced) {
+          res.status(400).json({
+            success: false,
+            error: {
+              code: 'INVALID_MEDIA',
+              message: 'Media not found or already attached to a post',
+              details: [{ field: 'mediaIds', message: 'Each media ID must be one of your unattached uploads' }]
+            }
+          })
+          return
+        }
       }
-      
-      if (validation.data.contentWarning !== undefined) {
-        Object.assign(updateData, { contentWarning: validation.data.contentWarning })
+
+      // Only content fields change here; publish state and schedule stay as they were
+      const { content, contentWarning, contentLabels } = validation.data
+      const updateData = {
+        ...(content !== undefined && { content }),
+        ...(contentWarning !== undefined && { contentWarning }),
+        ...(contentLabels !== undefined && { contentLabels })
       }
 
       // Update the post
       const updatedPost = await this.postRepository.update(postId, updateData)
 
+      // Followers only hear about edits to posts they have already seen
+      if (this.outboxService && updatedPost?.isPublished) {
+        void this.outboxService.updatePost(postId)
+      }
+
       res.status(200).json({
         success: true,
-        data: { post: updatedPost },
+        data: { post: updatedPost && await this.withPrivateMediaUrls(updatedPost) },
         message: 'Post updated successfully'
       })
 
@@ -465,7 +572,11 @@ export class PostController {
       }
 
       // Delete the post
-      await this.postRepository.delete(postId)
+      const deletedPost = await this.postRepository.delete(postId)
+
+      if (this.outboxService && deletedPost) {
+        void this.outboxService.deletePost(deletedPost)
+      }
 
       res.status(200).json({
         success: true,
@@ -485,6 +596,162 @@ export class PostController {
     }
   }
 
+  /**
+   * List the signed-in user's drafts, most recently edited first
+   * GET /posts/drafts
+   */
+  async getDrafts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      const pagination = this.parsePagination(req, res)
+      if (!pagination) {
+        return
+      }
+
+      const result = await this.postRepository.findByAuthor(userId, {
+        offset: pagination.offset,
+        limit: pagination.limit,
+        isPublished: false,
+        isScheduled: false,
+        orderBy: 'updatedAt'
+      })
+
+      await this.sendPostList(res, result, pagination)
+
+    } catch (error) {
+      console.error('Error getting drafts:', error)
+      this.sendInternalError(res, 'Failed to retrieve drafts')
+    }
+  }
+
+  /**
+   * List the signed-in user's upcoming scheduled posts, soonest first
+   * GET /posts/scheduled
+   */
+  async getScheduledPosts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id
+      if (!userId) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      const pagination = this.parsePagination(req, res)
+      if (!pagination) {
+        return
+      }
+
+      const result = await this.postRepository.findScheduled(userId, {
+        offset: pagination.offset,
+        limit: pagination.limit
+      })
+
+      await this.sendPostList(res, result, pagination)
+
+    } catch (error) {
+      console.error('Error getting scheduled posts:', error)
+      this.sendInternalError(res, 'Failed to retrieve scheduled posts')
+    }
+  }
+
+  /**
+   * List posts by author ID
+   * GET /posts/author/:authorId
+   * Authors see all their posts, drafts and scheduled included; everyone else sees published posts
+   */
+  async getPostsByAuthor(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const authorId = req.params['authorId']
+      if (!authorId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Author ID is required',
+            details: []
+          }
+        })
+        return
+      }
+
+      const pagination = this.parsePagination(req, res)
+      if (!pagination) {
+        return
+      }
+
+      if (req.user?.id === authorId) {
+        const result = await this.postRepository.findByAuthor(authorId, {
+          offset: pagination.offset,
+          limit: pagination.limit
+        })
+        await this.sendPostList(res, result, pagination)
+        return
+      }
+
+      const author = await this.userRepository.findById(authorId)
+      if (!author || author.isActive === false) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'User not found',
+            details: []
+          }
+        })
+        return
+      }
+
+      const result = await this.postRepository.findPublished({
+        authorId,
+        offset: pagination.offset,
+        limit: pagination.limit
+      })
+
+      await this.sendPostList(res, result, pagination)
+
+    } catch (error) {
+      console.error('Error getting posts by author:', error)
+      this.sendInternalError(res, 'Failed to retrieve posts')
+    }
+  }
+
+  /**
+   * Publish a draft or scheduled post now
+   * POST /posts/:id/publish
+   */
+  async publishPost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyLifecycleAction(req, res, 'publish')
+  }
+
+  /**
+   * Take a published post back to draft
+   * POST /posts/:id/unpublish
+   */
+  async unpublishPost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyLifecycleAction(req, res, 'unpublish')
+  }
+
+  /**
+   * Schedule a draft, or move a scheduled post to a new time
+   * POST /posts/:id/schedule
+   */
+  async schedulePost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyLifecycleAction(req, res, 'schedule')
+  }
+
+  /**
+   * Cancel a post's schedule and keep it as a draft
+   * POST /posts/:id/draft
+   */
+  async moveToDraft(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyLifecycleAction(req, res, 'draft')
+  }
+
   /**
    * Get posts by a specific user (for user profile pages)
    * This method may be used by other controllers like UserController
@@ -582,4 +849,213 @@ export class PostController {
       })
     }
   }
+
+  /**
+   * Check ownership and the Post model's transition rules, then apply a lifecycle change
+   * Publishing and unpublishing are federated; drafts and schedules never left the server
+   * @param req - Authenticated request with the post ID
+   * @param res - Express response
+   * @param action - Lifecycle change to apply
+   */
+  private async applyLifecycleAction(
+    req: AuthenticatedRequest,
+    res: Response,
+    action: PostLifecycleAction
+  ): Promise<void> {
+    try {
+      const postId = req.params['id']
+      const userId = req.user?.id
+
+      if (!userId) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      if (!postId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Post ID is required',
+            details: []
+          }
+        })
+        return
+      }
+
+      let scheduledFor: Date | null = null
+      if (action === 'schedule') {
+        const validation = PostSchemas.schedule.safeParse(req.body ?? {})
+        if (!validation.success) {
+          res.status(400).json({
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid schedule',
+              details: validation.error.errors.map(err => ({
+                field: err.path.join('.'),
+                message: err.message
+              }))
+            }
+          })
+          return
+        }
+        scheduledFor = new Date(validation.data.scheduledFor)
+      }
+
+      const existingPost = await this.postRepository.findById(postId)
+      if (!existingPost || existingPost.authorId !== userId) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Post not found or you do not have permission to change it',
+            details: []
+          }
+        })
+        return
+      }
+
+      const post = new Post(existingPost)
+      if (!post.canApply(action)) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: INVALID_TRANSITION_MESSAGES[action],
+            details: []
+          }
+        })
+        return
+      }
+
+      const updatedPost = await this.postRepository.updateIfState(
+        postId,
+        { isPublished: post.isPublished, isScheduled: post.isScheduled },
+        post.getLifecycleUpdate(action, scheduledFor)
+      )
+      if (!updatedPost) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'STATE_CHANGED',
+            message: 'The post changed while you were editing it; reload and try again',
+            details: []
+          }
+        })
+        return
+      }
+
+      if (this.outboxService && action === 'publish') {
+        void this.outboxService.publishPost(postId)
+      } else if (this.outboxService && action === 'unpublish') {
+        void this.outboxService.unpublishPost(postId)
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { post: await this.withPrivateMediaUrls(updatedPost) }
+      })
+
+    } catch (error) {
+      console.error(`Error applying ${action} to post:`, error)
+      this.sendInternalError(res, 'Failed to update post')
+    }
+  }
+
+  /**
+   * Validate page and limit query parameters, responding 400 when they are invalid
+   * @param req - Request with the query
+   * @param res - Express response
+   * @returns Page, limit (capped at 50) and offset, or null if a response was sent
+   */
+  private parsePagination(
+    req: AuthenticatedRequest,
+    res: Response
+  ): { page: number, limit: number, offset: number } | null {
+    const queryValidation = postQuerySchema.safeParse(req.query)
+    if (!queryValidation.success) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: queryValidation.error.issues
+        }
+      })
+      return null
+    }
+
+    const page = parseInt(queryValidation.data.page)
+    const limit = Math.min(parseInt(queryValidation.data.limit), 50)
+    return { page, limit, offset: (page - 1) * limit }
+  }
+
+  /**
+   * Sign the media URLs of a post that is not published yet
+   * Only the author is shown such posts; without a media service the stored URLs are kept
+   * @param post - Post with its media
+   * @returns Promise<T> The post as it should be returned
+   */
+  private async withPrivateMediaUrls<T extends PostWithMediaUrls>(post: T): Promise<T> {
+    return this.mediaService ? this.mediaService.signPostMedia(post) : post
+  }
+
+  /**
+   * Respond with a page of posts
+   * Drafts and scheduled posts in the page get signed media URLs
+   * @param res - Express response
+   * @param result - Posts and counts from PostRepository
+   * @param pagination - Page and limit the posts were loaded with
+   */
+  private async sendPostList(
+    res: Response,
+    result: { posts: PostWithMediaUrls[], totalCount: number, hasMore: boolean },
+    pagination: { page: number, limit: number }
+  ): Promise<void> {
+    const posts = await Promise.all(result.posts.map(post => this.withPrivateMediaUrls(post)))
+    res.status(200).json({
+      success: true,
+      data: {
+        posts,
+        pagination: {
+          page: pagination.page,
+          limit: pagination.limit,
+          total: result.totalCount,
+          hasMore: result.hasMore
+        }
+      }
+    })
+  }
+
+  /**
+   * Respond 401 for requests without an authenticated user
+   * @param res - Express response
+   */
+  private sendAuthenticationRequired(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required',
+        details: []
+      }
+    })
+  }
+
+  /**
+   * Respond 500 for unexpected errors
+   * @param res - Express response
+   * @param message - Error message
+   */
+  private sendInternalError(res: Response, message: string): void {
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message,
+        details: []
+      }
+    })
+  }
 }
\ No newline at end of file
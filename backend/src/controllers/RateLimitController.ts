@@ -0,0 +1,97 @@
+// backend/src/controllers/RateLimitController.ts
+// Version: 1.1.0
+// Reports the caller's rate limits and how much of each is left
+
+import { Request, Response } from 'express'
+import { RATE_LIMIT_POLICIES, RateLimitPolicyName, isUserRateLimitPolicy } from '../config/rateLimit'
+import { getRequestRateLimitStatus } from '../middleware/rateLimitMiddleware'
+import { RateLimitTierService } from '../services/RateLimitTierService'
+
+/**
+ * Suffix of each policy's status headers, as the frontend reads them
+ * The general policy uses the plain RateLimit-* names
+ */
+const STATUS_HEADER_SUFFIXES: Record<RateLimitPolicyName, string> = {
+  auth: '-Auth',
+  postCreation: '-Post',
+  mediaUpload: '-Media',
+  followOperations: '-Follow',
+  general: '',
+  reportCreation: '-Report',
+  reportManagement: '-Moderation'
+}
+
+/**
+ * Rate limit controller class
+ * Routes are expected to run optionalAuthMiddleware first, so signed-in
+ * users see their own limits and anonymous callers see their IP's
+ */
+export class RateLimitController {
+  constructor(private rateLimitTierService: RateLimitTierService) {}
+
+  /**
+   * Report every policy's limit, remaining allowance and reset time without using any of it
+   * Each policy is also sent as headers so a HEAD request is enough. Reset
+   * times are in milliseconds since the epoch, unlike RateLimit-Reset on
+   * limited responses, which is in seconds.
+   * GET /rate-limit-status
+   */
+  async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const userLimits = req.user
+        ? await this.rateLimitTierService.getUserLimits(req.user.id)
+        : null
+      const user = userLimits?.success ? userLimits.data : undefined
+      const now = Date.now()
+
+      const limits: Record<string, unknown> = {}
+      for (const name of Object.keys(RATE_LIMIT_POLICIES) as RateLimitPolicyName[]) {
+        const status = await getRequestRateLimitStatus(req, name)
+        const resetAt = now + status.resetMs
+        const suffix = STATUS_HEADER_SUFFIXES[name]
+
+        res.set({
+          [`RateLimit-Limit${suffix}`]: status.limit.toString(),
+          [`RateLimit-Remaining${suffix}`]: status.remaining.toString(),
+          [`RateLimit-Reset${suffix}`]: resetAt.toString(),
+          [`RateLimit-Window${suffix}`]: status.windowMs.toString()
+        })
+
+        limits[name] = {
+          limit: status.limit,
+          remaining: status.remaining,
+          windowMs: status.windowMs,
+          resetAt: new Date(resetAt).toISOString(),
+          source: user && isUserRateLimitPolicy(name) ? user.limits[name].source : 'default'
+        }
+      }
+
+      if (user) {
+        res.set({
+          'RateLimit-Tier': user.verificationTier,
+          'RateLimit-Role': user.role
+        })
+      }
+      res.set('Cache-Control', 'private, no-store')
+
+      res.json({
+        success: true,
+        data: {
+          verificationTier: user?.verificationTier ?? null,
+          role: user?.role ?? null,
+          multiplier: user?.multiplier ?? 1,
+          limits
+        }
+      })
+    } catch (error) {
+      console.error('Rate limit status error:', error)
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Internal server error while loading rate limits'
+        }
+      })
+    }
+  }
+}
@@ -241,7 +241,7 @@ export class ReportController {
         return
       }
 
-      // TODO: Validate that the user has moderator permissions
+      // Moderator permissions are enforced by requireRole on the route
       
       // TODO: Replace with actual database update operation
       // const updatedReport = await ReportService.updateStatus(id, { status, moderatorNotes, moderatorId })
@@ -1,12 +1,15 @@
 // backend/src/controllers/UserController.ts
-// Version: 1.0.5 - Removed unused mapErrorCodeToStatus method
-// Changed: Eliminated unused private method that was never called
+// Version: 1.2.0 - Added own profile editing and avatar upload
+// Changed: Serve avatars from the storage provider through getAvatar
 
 import { Request, Response } from 'express'
+import { pipeline } from 'stream/promises'
 import { UserRepository } from '../repositories/UserRepository'
 import { FollowRepository } from '../repositories/FollowRepository'
 import { BlockRepository } from '../repositories/BlockRepository'
 import { User, PublicProfile } from '../models/User'
+import { ProfileService, ProfileServiceResult } from '../services/ProfileService'
+import { setMediaFileHeaders } from '../middleware/staticFileSecurityMiddleware'
 
 // Extend Express Request to include user from auth middleware
 interface AuthenticatedRequest extends Request {
@@ -30,17 +33,187 @@ interface UserProfileResponse {
   relationshipContext?: RelationshipContext
 }
 
+/**
+ * Map profile service error codes to HTTP status codes
+ * @param code - Error code from ProfileService
+ * @returns HTTP status code
+ */
+function mapErrorCodeToStatus(code?: string): number {
+  switch (code) {
+    case 'INVALID_IMAGE':
+    case 'INVALID_CROP':
+      return 400
+    case 'USER_NOT_FOUND':
+      return 404
+    case 'USERNAME_TAKEN':
+      return 409
+    default:
+      return 500
+  }
+}
+
 /**
  * UserController handles user profile operations and user management
- * Includes profile retrieval, blocking/unblocking functionality
+ * Includes profile retrieval, own profile editing, blocking/unblocking functionality
  */
 export class UserController {
   constructor(
     private userRepository: UserRepository,
     private followRepository: FollowRepository,
-    private blockRepository: BlockRepository
+    private blockRepository: BlockRepository,
+    private profileService?: ProfileService
   ) {}
 
+  /**
+   * Get the signed-in user's own profile
+   * GET /users/profile
+   * Requires authentication
+   */
+  async getOwnProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      if (!this.profileService) {
+        this.sendProfileUnavailable(res)
+        return
+      }
+
+      this.sendProfileResult(res, await this.profileService.getProfile(req.user.id))
+
+    } catch (error: unknown) {
+      this.sendServerError(res, error)
+    }
+  }
+
+  /**
+   * Update the signed-in user's display name, bio, website or username
+   * PUT /users/profile
+   * Requires authentication
+   */
+  async updateOwnProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      if (!this.profileService) {
+        this.sendProfileUnavailable(res)
+        return
+      }
+
+      const validation = User.validateProfileUpdate(req.body ?? {})
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid profile data',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.issues
+        })
+        return
+      }
+
+      this.sendProfileResult(res, await this.profileService.updateProfile(req.user.id, validation.data))
+
+    } catch (error: unknown) {
+      this.sendServerError(res, error)
+    }
+  }
+
+  /**
+   * Replace the signed-in user's avatar
+   * POST /users/avatar
+   * Requires authentication and a multipart 'avatar' image, with optional cropX, cropY and cropSize
+   */
+  async uploadAvatar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendAuthenticationRequired(res)
+        return
+      }
+
+      if (!this.profileService) {
+        this.sendProfileUnavailable(res)
+        return
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: 'An avatar image is required',
+          code: 'VALIDATION_ERROR'
+        })
+        return
+      }
+
+      const validation = User.validateAvatarCrop(req.body ?? {})
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid crop area',
+          code: 'VALIDATION_ERROR',
+          details: validation.error.issues
+        })
+        return
+      }
+
+      const { cropX, cropY, cropSize } = validation.data
+      const crop = cropX !== undefined && cropY !== undefined && cropSize !== undefined
+        ? { x: cropX, y: cropY, size: cropSize }
+        : undefined
+
+      this.sendProfileResult(res, await this.profileService.updateAvatar(req.user.id, req.file.buffer, crop))
+
+    } catch (error: unknown) {
+      this.sendServerError(res, error)
+    }
+  }
+
+  /**
+   * Serve one size of a stored avatar
+   * GET /uploads/avatars/:filename
+   * Avatars are public, so shared caches may keep them
+   */
+  async getAvatar(req: Request<{ filename: string }>, res: Response): Promise<void> {
+    try {
+      const stored = this.profileService
+        ? await this.profileService.openAvatar(req.params.filename)
+        : null
+      if (!stored) {
+        res.status(404).json({
+          success: false,
+          error: 'Avatar not found',
+          code: 'NOT_FOUND'
+        })
+        return
+      }
+
+      setMediaFileHeaders(res, {
+        filename: req.params.filename,
+        downloadName: req.params.filename,
+        download: false,
+        isPublic: true
+      })
+      res.setHeader('Content-Type', 'image/webp')
+      if (stored.size !== undefined) {
+        res.setHeader('Content-Length', stored.size)
+      }
+
+      await pipeline(stored.body, res)
+
+    } catch (error: unknown) {
+      if (res.headersSent) {
+        // The client went away or storage failed mid-stream; nothing more can be sent
+        res.destroy()
+        return
+      }
+      this.sendServerError(res, error)
+    }
+  }
+
   /**
    * Get user profile by username
    * GET /users/:username
@@ -297,4 +470,63 @@ export class UserController {
       })
     }
   }
+
+  /**
+   * Respond with the user's private profile or the ProfileService error
+   * @param res - Express response
+   * @param result - ProfileService result
+   */
+  private sendProfileResult(res: Response, result: ProfileServiceResult): void {
+    if (!result.success || !result.data) {
+      res.status(mapErrorCodeToStatus(result.code)).json({
+        success: false,
+        error: result.error || 'Failed to update profile',
+        code: result.code || 'INTERNAL_ERROR'
+      })
+      return
+    }
+
+    res.status(200).json({
+      success: true,
+      data: result.data.getPrivateProfile()
+    })
+  }
+
+  /**
+   * Respond 401 for requests without an authenticated user
+   * @param res - Express response
+   */
+  private sendAuthenticationRequired(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+      code: 'UNAUTHORIZED'
+    })
+  }
+
+  /**
+   * Respond 501 when profile editing is not configured
+   * @param res - Express response
+   */
+  private sendProfileUnavailable(res: Response): void {
+    res.status(501).json({
+      success: false,
+      error: 'Profile editing is not available',
+      code: 'PROFILE_EDITING_UNAVAILABLE'
+    })
+  }
+
+  /**
+   * Respond 500 for unexpected errors
+   * @param res - Express response
+   * @param error - Caught error
+   */
+  private sendServerError(res: Response, error: unknown): void {
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      details: error instanceof Error ? error.message : 'Unknown error occurred'
+    })
+  }
 }
\ No newline at end of file
@@ -0,0 +1,200 @@
+// backend/src/controllers/__tests__/AdminController.test.ts
+// Unit tests for AdminController role and rate limit management with mocked services
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AdminController } from '../AdminController'
+
+const createMockRequest = (body: any = {}, params: any = {}, user?: any) => ({
+  body,
+  params,
+  user
+} as any)
+
+const createMockResponse = () => {
+  const res: any = {}
+  res.status = vi.fn().mockReturnValue(res)
+  res.json = vi.fn().mockReturnValue(res)
+  return res
+}
+
+describe('AdminController', () => {
+  let mockRoleService: any
+  let mockRateLimitTierService: any
+  let adminController: AdminController
+
+  const admin = { id: 'admin1', email: 'admin@example.com', username: 'admin', role: 'admin' }
+
+  beforeEach(() => {
+    mockRoleService = {
+      changeRole: vi.fn(),
+      getRoleHistory: vi.fn()
+    }
+    mockRateLimitTierService = {
+      getUserLimits: vi.fn(),
+      listOverrides: vi.fn(),
+      setOverride: vi.fn(),
+      removeOverride: vi.fn()
+    }
+    adminController = new AdminController(mockRoleService, mockRateLimitTierService)
+  })
+
+  describe('updateUserRole', () => {
+    it('should change the role on behalf of the signed-in admin', async () => {
+      const outcome = { userId: 'user123', previousRole: 'user', role: 'moderator', sessionsRevoked: 0 }
+      mockRoleService.changeRole.mockResolvedValue({ success: true, data: outcome })
+      const res = createMockResponse()
+
+      await adminController.updateUserRole(
+        createMockRequest({ role: 'moderator', reason: ' Helps with reports ' }, { id: 'user123' }, admin),
+        res
+      )
+
+      expect(mockRoleService.changeRole).toHaveBeenCalledWith('admin1', 'user123', 'moderator', 'Helps with reports')
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: outcome })
+    })
+
+    it('should reject an unknown role', async () => {
+      const res = createMockResponse()
+
+      await adminController.updateUserRole(createMockRequest({ role: 'owner' }, { id: 'user123' }, admin), res)
+
+      expect(res.status).toHaveBeenCalledWith(400)
+      expect(res.json.mock.calls[0][0].error.code).toBe('VALIDATION_ERROR')
+      expect(mockRoleService.changeRole).not.toHaveBeenCalled()
+    })
+
+    it.each([
+      ['CANNOT_CHANGE_OWN_ROLE', 403],
+      ['USER_NOT_FOUND', 404],
+      ['ROLE_UNCHANGED', 409],
+      ['ROLE_CONFLICT', 409]
+    ])('should map %s to %i', async (code, status) => {
+      mockRoleService.changeRole.mockResolvedValue({ success: false, error: 'Nope', code })
+      const res = createMockResponse()
+
+      await adminController.updateUserRole(createMockRequest({ role: 'user' }, { id: 'user123' }, admin), res)
+
+      expect(res.status).toHaveBeenCalledWith(status)
+      expect(res.json).toHaveBeenCalledWith({ success: false, error: { code, message: 'Nope' } })
+    })
+
+    it('should require authentication', async () => {
+      const res = createMockResponse()
+
+      await adminController.updateUserRole(createMockRequest({ role: 'user' }, { id: 'user123' }), res)
+
+      expect(res.status).toHaveBeenCalledWith(401)
+    })
+  })
+
+  describe('getUserRoleHistory', () => {
+    it('should return the audit entries', async () => {
+      const entries = [{ id: 'change1', userId: 'user123', newRole: 'moderator' }]
+      mockRoleService.getRoleHistory.mockResolvedValue({ success: true, data: entries })
+      const res = createMockResponse()
+
+      await adminController.getUserRoleHistory(createMockRequest({}, { id: 'user123' }, admin), res)
+
+      expect(mockRoleService.getRoleHistory).toHaveBeenCalledWith('user123')
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: { roleChanges: entries } })
+    })
+  })
+
+  describe('getUserRateLimits', () => {
+    it('should return the limits together with the overrides', async () => {
+      const limits = { userId: 'user123', verificationTier: 'identity', role: 'user', multiplier: 5, limits: {} }
+      const overrides = [{ id: 'override1', policy: 'general', max: 1000 }]
+      mockRateLimitTierService.getUserLimits.mockResolvedValue({ success: true, data: limits })
+      mockRateLimitTierService.listOverrides.mockResolvedValue({ success: true, data: overrides })
+      const res = createMockResponse()
+
+      await adminController.getUserRateLimits(createMockRequest({}, { id: 'user123' }, admin), res)
+
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: { ...limits, overrides } })
+    })
+
+    it('should respond 404 for an unknown user', async () => {
+      const notFound = { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+      mockRateLimitTierService.getUserLimits.mockResolvedValue(notFound)
+      mockRateLimitTierService.listOverrides.mockResolvedValue(notFound)
+      const res = createMockResponse()
+
+      await adminController.getUserRateLimits(createMockRequest({}, { id: 'missing' }, admin), res)
+
+      expect(res.status).toHaveBeenCalledWith(404)
+    })
+  })
+
+  describe('setUserRateLimit', () => {
+    it('should set the override on behalf of the signed-in admin', async () => {
+      const override = { id: 'override1', userId: 'user123', policy: 'postCreation', max: 100 }
+      mockRateLimitTierService.setOverride.mockResolvedValue({ success: true, data: override })
+      const res = createMockResponse()
+
+      await adminController.setUserRateLimit(
+        createMockRequest(
+          { max: 100, expiresAt: '2999-01-01T00:00:00.000Z', reason: ' Election night ' },
+          { id: 'user123', policy: 'postCreation' },
+          admin
+        ),
+        res
+      )
+
+      expect(mockRateLimitTierService.setOverride).toHaveBeenCalledWith('admin1', 'user123', {
+        policy: 'postCreation',
+        max: 100,
+        expiresAt: new Date('2999-01-01T00:00:00.000Z'),
+        reason: 'Election night'
+      })
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: override })
+    })
+
+    it.each([
+      ['an unknown policy', { max: 10 }, 'burst'],
+      ['the auth policy, which is counted per IP', { max: 10 }, 'auth'],
+      ['a limit below 1', { max: 0 }, 'general'],
+      ['an expiry in the past', { max: 10, expiresAt: '2000-01-01T00:00:00.000Z' }, 'general']
+    ])('should reject %s', async (_case, body, policy) => {
+      const res = createMockResponse()
+
+      await adminController.setUserRateLimit(createMockRequest(body, { id: 'user123', policy }, admin), res)
+
+      expect(res.status).toHaveBeenCalledWith(400)
+      expect(res.json.mock.calls[0][0].error.code).toBe('VALIDATION_ERROR')
+      expect(mockRateLimitTierService.setOverride).not.toHaveBeenCalled()
+    })
+
+    it('should require authentication', async () => {
+      const res = createMockResponse()
+
+      await adminController.setUserRateLimit(createMockRequest({ max: 10 }, { id: 'user123', policy: 'general' }), res)
+
+      expect(res.status).toHaveBeenCalledWith(401)
+    })
+  })
+
+  describe('removeUserRateLimit', () => {
+    it('should remove the override', async () => {
+      mockRateLimitTierService.removeOverride.mockResolvedValue({ success: true })
+      const res = createMockResponse()
+
+      await adminController.removeUserRateLimit(createMockRequest({}, { id: 'user123', policy: 'general' }, admin), res)
+
+      expect(mockRateLimitTierService.removeOverride).toHaveBeenCalledWith('admin1', 'user123', 'general')
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: { userId: 'user123', policy: 'general' } })
+    })
+
+    it('should respond 404 when no override was set', async () => {
+      mockRateLimitTierService.removeOverride.mockResolvedValue({
+        success: false,
+        error: 'No general override is set for this user',
+        code: 'OVERRIDE_NOT_FOUND'
+      })
+      const res = createMockResponse()
+
+      await adminController.removeUserRateLimit(createMockRequest({}, { id: 'user123', policy: 'general' }, admin), res)
+
+      expect(res.status).toHaveBeenCalledWith(404)
+    })
+  })
+})
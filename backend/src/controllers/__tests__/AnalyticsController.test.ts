@@ -0,0 +1,145 @@
+// backend/src/controllers/__tests__/AnalyticsController.test.ts
+// Unit tests for AnalyticsController with a mocked AnalyticsService
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AnalyticsController } from '../AnalyticsController'
+
+const createMockRequest = (query: any = {}, user?: any) => ({
+  query,
+  user
+} as any)
+
+const createMockResponse = () => {
+  const res: any = {}
+  res.status = vi.fn().mockReturnValue(res)
+  res.json = vi.fn().mockReturnValue(res)
+  res.set = vi.fn().mockReturnValue(res)
+  return res
+}
+
+describe('AnalyticsController', () => {
+  let mockAnalyticsService: any
+  let analyticsController: AnalyticsController
+
+  const creator = { id: 'user123', email: 'creator@example.com', username: 'creator' }
+
+  beforeEach(() => {
+    mockAnalyticsService = {
+      getDashboard: vi.fn(),
+      getSeries: vi.fn()
+    }
+    analyticsController = new AnalyticsController(mockAnalyticsService)
+  })
+
+  describe('getDashboard', () => {
+    it('should return the signed-in creator\'s dashboard in their timezone', async () => {
+      const dashboard = { followers: { total: 120 } }
+      mockAnalyticsService.getDashboard.mockResolvedValue({ success: true, data: dashboard })
+      const res = createMockResponse()
+
+      await analyticsController.getDashboard(createMockRequest({ timezone: 'Europe/Berlin' }, creator), res)
+
+      expect(mockAnalyticsService.getDashboard).toHaveBeenCalledWith('user123', { timezone: 'Europe/Berlin' })
+      expect(res.set).toHaveBeenCalledWith('Cache-Control', 'private, no-store')
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: dashboard })
+    })
+
+    it('should reject an unknown timezone', async () => {
+      mockAnalyticsService.getDashboard.mockResolvedValue({
+        success: false,
+        error: 'Unknown timezone',
+        code: 'INVALID_TIMEZONE'
+      })
+      const res = createMockResponse()
+
+      await analyticsController.getDashboard(createMockRequest({ timezone: 'Nowhere' }, creator), res)
+
+      expect(res.status).toHaveBeenCalledWith(400)
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'INVALID_TIMEZONE', message: 'Unknown timezone' }
+      })
+    })
+
+    it('should require authentication', async () => {
+      const res = createMockResponse()
+
+      await analyticsController.getDashboard(createMockRequest(), res)
+
+      expect(res.status).toHaveBeenCalledWith(401)
+      expect(mockAnalyticsService.getDashboard).not.toHaveBeenCalled()
+    })
+
+    it('should respond 500 when the service throws', async () => {
+      mockAnalyticsService.getDashboard.mockRejectedValue(new Error('connection lost'))
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const res = createMockResponse()
+
+      await analyticsController.getDashboard(createMockRequest({}, creator), res)
+
+      expect(res.status).toHaveBeenCalledWith(500)
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Internal server error while loading analytics' }
+      })
+    })
+  })
+  describe('getSeries', () => {
+    it('should return the series for the requested interval and range', async () => {
+      const series = { interval: 'week', from: '2025-06-02', to: '2025-06-30', points: [] }
+      mockAnalyticsService.getSeries.mockResolvedValue({ success: true, data: series })
+      const res = createMockResponse()
+
+      await analyticsController.getSeries(
+        createMockRequest({ interval: 'week', from: '2025-06-02', to: '2025-06-30' }, creator),
+        res
+      )
+
+      expect(mockAnalyticsService.getSeries).toHaveBeenCalledWith('user123', {
+        interval: 'week',
+        from: '2025-06-02',
+        to: '2025-06-30'
+      })
+      expect(res.set).toHaveBeenCalledWith('Cache-Control', 'private, no-store')
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: series })
+    })
+
+    it('should reject an unknown interval', async () => {
+      const res = createMockResponse()
+
+      await analyticsController.getSeries(createMockRequest({ interval: 'year' }, creator), res)
+
+      expect(res.status).toHaveBeenCalledWith(400)
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'VALIDATION_ERROR' })
+      }))
+      expect(mockAnalyticsService.getSeries).not.toHaveBeenCalled()
+    })
+
+    it('should reject a range the service refuses', async () => {
+      mockAnalyticsService.getSeries.mockResolvedValue({
+        success: false,
+        error: 'from must not be after to',
+        code: 'INVALID_RANGE'
+      })
+      const res = createMockResponse()
+
+      await analyticsController.getSeries(createMockRequest({ from: '2025-06-10', to: '2025-06-01' }, creator), res)
+
+      expect(res.status).toHaveBeenCalledWith(400)
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'INVALID_RANGE', message: 'from must not be after to' }
+      })
+    })
+
+    it('should require authentication', async () => {
+      const res = createMockResponse()
+
+      await analyticsController.getSeries(createMockRequest(), res)
+
+      expect(res.status).toHaveBeenCalledWith(401)
+      expect(mockAnalyticsService.getSeries).not.toHaveBeenCalled()
+    })
+  })
+})
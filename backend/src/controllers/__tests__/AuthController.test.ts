@@ -1,5 +1,10 @@
 // backend/src/controllers/__tests__/AuthController.test.ts
-// Version: 1.1.0
+// Version: 1.6.1
+// Added suspended account login test
+// Added registration test for a username whose actor URI a renamed account still holds
+// Added password reset and email verification tests
+// Added session, refresh token and device management tests
+// Added registration test for ActivityPub actor identity generation
 // Fixed spy expectations to match actual AuthController implementation that calls findByEmail and findByUsername separately
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
@@ -79,6 +84,7 @@ describe('AuthController', () => {
     mockUserRepository = {
       findByEmail: vi.fn(),
       findByUsername: vi.fn(),
+      findByActorId: vi.fn(),
       findById: vi.fn(),
       create: vi.fn()
     }
@@ -133,6 +139,40 @@ describe('AuthController', () => {
           }
         })
       })
+
+      it('should store the actor identity and encrypted key when federation is enabled', async () => {
+        // Arrange
+        const mockActivityPubService = {
+          getActorUri: vi.fn((username: string) => `https://parasocial.example/users/${username}`),
+          createActorIdentity: vi.fn().mockResolvedValue({
+            actorId: 'https://parasocial.example/users/testuser',
+            publicKey: '-----BEGIN PUBLIC KEY-----',
+            privateKey: 'v1:iv:tag:ciphertext'
+          })
+        }
+        authController = new AuthController(mockAuthService, mockUserRepository, mockActivityPubService as any)
+        mockReq.body = validRegistrationData
+        mockAuthService.validateRegistrationData.mockReturnValue({ success: true, data: validRegistrationData })
+        mockUserRepository.findByEmail.mockResolvedValue(null)
+        mockUserRepository.findByUsername.mockResolvedValue(null)
+        mockUserRepository.findByActorId.mockResolvedValue(null)
+        mockAuthService.hashPassword.mockResolvedValue('hashedPassword123')
+        mockUserRepository.create.mockResolvedValue(mockUser)
+        mockAuthService.generateToken.mockReturnValue('jwt.token.here')
+
+        // Act
+        await authController.register(mockReq, mockRes)
+
+        // Assert
+        expect(mockUserRepository.findByActorId).toHaveBeenCalledWith('https://parasocial.example/users/testuser')
+        expect(mockActivityPubService.createActorIdentity).toHaveBeenCalledWith('testuser')
+        expect(mockUserRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+          actorId: 'https://parasocial.example/users/testuser',
+          publicKey: '-----BEGIN PUBLIC KEY-----',
+          privateKey: 'v1:iv:tag:ciphertext'
+        }))
+        expect(mockRes.status).toHaveBeenCalledWith(201)
+      })
     })
 
     describe('Validation Errors', () => {
@@ -254,6 +294,40 @@ describe('AuthController', () => {
           }
         })
       })
+
+      it('should return 409 when a renamed account still holds the username\'s actor URI', async () => {
+        // Arrange
+        const mockActivityPubService = {
+          getActorUri: vi.fn((username: string) => `https://parasocial.example/users/${username}`),
+          createActorIdentity: vi.fn()
+        }
+        authController = new AuthController(mockAuthService, mockUserRepository, mockActivityPubService as any)
+        mockReq.body = validRegistrationData
+        mockAuthService.validateRegistrationData.mockReturnValue({ success: true, data: validRegistrationData })
+        mockUserRepository.findByEmail.mockResolvedValue(null)
+        mockUserRepository.findByUsername.mockResolvedValue(null)
+        mockUserRepository.findByActorId.mockResolvedValue({
+          ...mockUser,
+          username: 'renameduser',
+          actorId: 'https://parasocial.example/users/testuser'
+        })
+
+        // Act
+        await authController.register(mockReq, mockRes)
+
+        // Assert
+        expect(mockUserRepository.findByActorId).toHaveBeenCalledWith('https://parasocial.example/users/testuser')
+        expect(mockActivityPubService.createActorIdentity).not.toHaveBeenCalled()
+        expect(mockUserRepository.create).not.toHaveBeenCalled()
+        expect(mockRes.status).toHaveBeenCalledWith(409)
+        expect(mockRes.json).toHaveBeenCalledWith({
+          success: false,
+          error: {
+            code: 'USERNAME_EXISTS',
+            message: 'This username is already taken'
+          }
+        })
+      })
     })
 
     describe('Server Errors', () => {
@@ -574,6 +648,28 @@ describe('AuthController', () => {
           }
         })
       })
+
+      it('should refuse a suspended account once the password is correct', async () => {
+        mockReq.body = validLoginData
+        mockAuthService.validateLoginData.mockReturnValue({
+          success: true,
+          data: validLoginData
+        })
+        mockUserRepository.findByEmail.mockResolvedValue({ ...mockUser, isActive: false })
+        mockAuthService.verifyPassword.mockResolvedValue(true)
+
+        await authController.login(mockReq, mockRes)
+
+        expect(mockAuthService.generateToken).not.toHaveBeenCalled()
+        expect(mockRes.status).toHaveBeenCalledWith(403)
+        expect(mockRes.json).toHaveBeenCalledWith({
+          success: false,
+          error: {
+            code: 'ACCOUNT_SUSPENDED',
+            message: 'This account has been suspended'
+          }
+        })
+      })
     })
 
     describe('Server Errors', () => {
@@ -730,4 +826,407 @@ describe('AuthController', () => {
       })
     })
   })
-})
\ No newline at end of file
+
+  describe('sessions', () => {
+    let mockSessionService: any
+
+    const sessionTokens = {
+      sessionId: 'session1',
+      accessToken: 'access.jwt.token',
+      refreshToken: 'refresh-token-1',
+      expiresIn: 900
+    }
+
+    beforeEach(() => {
+      mockSessionService = {
+        startSession: vi.fn().mockResolvedValue(sessionTokens),
+        refresh: vi.fn(),
+        endSession: vi.fn().mockResolvedValue(undefined),
+        listSessions: vi.fn(),
+        revokeSession: vi.fn()
+      }
+      authController = new AuthController(mockAuthService, mockUserRepository, undefined, mockSessionService)
+      mockReq.headers = { 'user-agent': 'Firefox' }
+      mockReq.ip = '203.0.113.7'
+    })
+
+    it('should start a session on login and return a refresh token', async () => {
+      mockReq.body = validLoginData
+      mockAuthService.validateLoginData.mockReturnValue({ success: true, data: validLoginData })
+      mockUserRepository.findByEmail.mockResolvedValue(mockUser)
+      mockAuthService.verifyPassword.mockResolvedValue(true)
+
+      await authController.login(mockReq, mockRes)
+
+      expect(mockSessionService.startSession).toHaveBeenCalledWith(mockUser, {
+        userAgent: 'Firefox',
+        ipAddress: '203.0.113.7'
+      })
+      expect(mockAuthService.generateToken).not.toHaveBeenCalled()
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          user: mockUser.getPrivateProfile(),
+          token: 'access.jwt.token',
+          refreshToken: 'refresh-token-1',
+          expiresIn: 900
+        }
+      })
+    })
+
+    it('should exchange a refresh token', async () => {
+      mockReq.body = { refreshToken: 'refresh-token-1' }
+      mockSessionService.refresh.mockResolvedValue({
+        success: true,
+        data: { ...sessionTokens, accessToken: 'access.jwt.token2', refreshToken: 'refresh-token-2', user: mockUser }
+      })
+
+      await authController.refresh(mockReq, mockRes)
+
+      expect(mockSessionService.refresh).toHaveBeenCalledWith('refresh-token-1', {
+        userAgent: 'Firefox',
+        ipAddress: '203.0.113.7'
+      })
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { token: 'access.jwt.token2', refreshToken: 'refresh-token-2', expiresIn: 900 }
+      })
+    })
+
+    it('should return 401 when a refresh token is reused', async () => {
+      mockReq.body = { refreshToken: 'refresh-token-1' }
+      mockSessionService.refresh.mockResolvedValue({
+        success: false,
+        error: 'Refresh token has already been used',
+        code: 'REFRESH_TOKEN_REUSED'
+      })
+
+      await authController.refresh(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: 'REFRESH_TOKEN_REUSED',
+          message: 'Refresh token has already been used'
+        }
+      })
+    })
+
+    it('should require a refresh token', async () => {
+      mockReq.body = {}
+
+      await authController.refresh(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockSessionService.refresh).not.toHaveBeenCalled()
+    })
+
+    it('should revoke the current session on logout', async () => {
+      mockReq.user = { id: 'user123', email: 'test@example.com', username: 'testuser', sessionId: 'session1' }
+
+      await authController.logout(mockReq, mockRes)
+
+      expect(mockSessionService.endSession).toHaveBeenCalledWith('session1')
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { message: 'Logged out successfully' }
+      })
+    })
+
+    it('should list sessions with the current one flagged', async () => {
+      mockReq.user = { id: 'user123', email: 'test@example.com', username: 'testuser', sessionId: 'session1' }
+      const sessions = [{ id: 'session1', current: true }, { id: 'session2', current: false }]
+      mockSessionService.listSessions.mockResolvedValue(sessions)
+
+      await authController.getSessions(mockReq, mockRes)
+
+      expect(mockSessionService.listSessions).toHaveBeenCalledWith('user123', 'session1')
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true, data: { sessions } })
+    })
+
+    it('should revoke another device', async () => {
+      mockReq.user = { id: 'user123', email: 'test@example.com', username: 'testuser', sessionId: 'session1' }
+      mockReq.params = { id: 'session2' }
+      mockSessionService.revokeSession.mockResolvedValue({ success: true, data: { id: 'session2' } })
+
+      await authController.deleteSession(mockReq, mockRes)
+
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith('user123', 'session2')
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { id: 'session2', current: false, message: 'Session revoked' }
+      })
+    })
+
+    it('should return 404 for sessions the user does not own', async () => {
+      mockReq.user = { id: 'user123', email: 'test@example.com', username: 'testuser', sessionId: 'session1' }
+      mockReq.params = { id: 'session9' }
+      mockSessionService.revokeSession.mockResolvedValue({
+        success: false,
+        error: 'Session not found',
+        code: 'SESSION_NOT_FOUND'
+      })
+
+      await authController.deleteSession(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(404)
+    })
+
+    it('should report session routes as unavailable without a session service', async () => {
+      authController = new AuthController(mockAuthService, mockUserRepository)
+      mockReq.user = { id: 'user123', email: 'test@example.com', username: 'testuser' }
+
+      await authController.getSessions(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(501)
+    })
+  })
+
+  describe('account emails', () => {
+    let mockAccountEmailService: any
+
+    beforeEach(() => {
+      mockAccountEmailService = {
+        requestPasswordReset: vi.fn().mockResolvedValue({ success: true }),
+        resetPassword: vi.fn(),
+        sendVerificationEmail: vi.fn().mockResolvedValue({ success: true }),
+        verifyEmail: vi.fn()
+      }
+      authController = new AuthController(mockAuthService, mockUserRepository, undefined, undefined, mockAccountEmailService)
+    })
+
+    it('should send a verification email after registration', async () => {
+      mockReq.body = validRegistrationData
+      mockAuthService.validateRegistrationData.mockReturnValue({ success: true, data: validRegistrationData })
+      mockUserRepository.findByEmail.mockResolvedValue(null)
+      mockUserRepository.findByUsername.mockResolvedValue(null)
+      mockAuthService.hashPassword.mockResolvedValue('hashedPassword123')
+      mockUserRepository.create.mockResolvedValue(mockUser)
+      mockAuthService.generateToken.mockReturnValue('jwt.token')
+
+      await authController.register(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(201)
+      expect(mockAccountEmailService.sendVerificationEmail).toHaveBeenCalledWith('user123')
+    })
+
+    it('should answer forgot-password the same way for any email', async () => {
+      mockReq.body = { email: 'nobody@example.com' }
+
+      await authController.forgotPassword(mockReq, mockRes)
+
+      expect(mockAccountEmailService.requestPasswordReset).toHaveBeenCalledWith('nobody@example.com')
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { message: 'If an account exists for that email, a reset link has been sent' }
+      })
+    })
+
+    it('should return 400 for an invalid reset token', async () => {
+      mockReq.body = { token: 'stale', password: 'new-password' }
+      mockAccountEmailService.resetPassword.mockResolvedValue({
+        success: false,
+        error: 'Reset link is invalid or has expired',
+        code: 'INVALID_TOKEN'
+      })
+
+      await authController.resetPassword(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'INVALID_TOKEN', message: 'Reset link is invalid or has expired' }
+      })
+    })
+
+    it('should return the new verification tier', async () => {
+      mockReq.body = { token: 'verify-token' }
+      mockAccountEmailService.verifyEmail.mockResolvedValue({ success: true, data: { verificationTier: 'email' } })
+
+      await authController.verifyEmail(mockReq, mockRes)
+
+      expect(mockAccountEmailService.verifyEmail).toHaveBeenCalledWith('verify-token')
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { verificationTier: 'email', message: 'Email address verified' }
+      })
+    })
+
+    it('should return 429 when resending too soon', async () => {
+      mockReq.user = { id: 'user123', email: 'test@example.com', username: 'testuser' }
+      mockAccountEmailService.sendVerificationEmail.mockResolvedValue({
+        success: false,
+        error: 'A verification email was sent recently. Please wait a minute before asking again.',
+        code: 'TOO_MANY_REQUESTS'
+      })
+
+      await authController.resendVerification(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(429)
+    })
+  })
+
+  describe('two-factor authentication', () => {
+    let mockTwoFactorService: any
+
+    beforeEach(() => {
+      mockTwoFactorService = {
+        isEnabled: vi.fn().mockResolvedValue(true),
+        createChallenge: vi.fn().mockReturnValue({ challengeToken: 'challenge.token', expiresIn: 300 }),
+        completeChallenge: vi.fn(),
+        getStatus: vi.fn(),
+        beginSetup: vi.fn(),
+        confirmSetup: vi.fn(),
+        disable: vi.fn(),
+        regenerateRecoveryCodes: vi.fn()
+      }
+      authController = new AuthController(
+        mockAuthService,
+        mockUserRepository,
+        undefined,
+        undefined,
+        undefined,
+        mockTwoFactorService
+      )
+      mockReq.user = { id: 'user123', email: 'test@example.com', username: 'testuser' }
+    })
+
+    it('should return a challenge instead of tokens for enrolled users', async () => {
+      mockReq.body = validLoginData
+      mockAuthService.validateLoginData.mockReturnValue({ success: true, data: validLoginData })
+      mockUserRepository.findByEmail.mockResolvedValue(mockUser)
+      mockAuthService.verifyPassword.mockResolvedValue(true)
+
+      await authController.login(mockReq, mockRes)
+
+      expect(mockTwoFactorService.createChallenge).toHaveBeenCalledWith('user123')
+      expect(mockAuthService.generateToken).not.toHaveBeenCalled()
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { twoFactorRequired: true, challengeToken: 'challenge.token', expiresIn: 300 }
+      })
+    })
+
+    it('should log in normally when two-factor is off', async () => {
+      mockTwoFactorService.isEnabled.mockResolvedValue(false)
+      mockReq.body = validLoginData
+      mockAuthService.validateLoginData.mockReturnValue({ success: true, data: validLoginData })
+      mockUserRepository.findByEmail.mockResolvedValue(mockUser)
+      mockAuthService.verifyPassword.mockResolvedValue(true)
+      mockAuthService.generateToken.mockReturnValue('jwt.token')
+
+      await authController.login(mockReq, mockRes)
+
+      expect(mockTwoFactorService.createChallenge).not.toHaveBeenCalled()
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { user: mockUser.getPrivateProfile(), token: 'jwt.token' }
+      })
+    })
+
+    it('should not reveal whether two-factor is on when the password is wrong', async () => {
+      mockReq.body = validLoginData
+      mockAuthService.validateLoginData.mockReturnValue({ success: true, data: validLoginData })
+      mockUserRepository.findByEmail.mockResolvedValue(mockUser)
+      mockAuthService.verifyPassword.mockResolvedValue(false)
+
+      await authController.login(mockReq, mockRes)
+
+      expect(mockTwoFactorService.isEnabled).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+    })
+
+    it('should issue tokens once the challenge is answered', async () => {
+      mockReq.body = { challengeToken: 'challenge.token', code: '123456' }
+      mockTwoFactorService.completeChallenge.mockResolvedValue({
+        success: true,
+        data: { user: mockUser, usedRecoveryCode: false }
+      })
+      mockAuthService.generateToken.mockReturnValue('jwt.token')
+
+      await authController.verifyTwoFactor(mockReq, mockRes)
+
+      expect(mockTwoFactorService.completeChallenge).toHaveBeenCalledWith('challenge.token', '123456')
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { user: mockUser.getPrivateProfile(), token: 'jwt.token', usedRecoveryCode: false }
+      })
+    })
+
+    it('should return 401 for a wrong code', async () => {
+      mockReq.body = { challengeToken: 'challenge.token', code: '000000' }
+      mockTwoFactorService.completeChallenge.mockResolvedValue({
+        success: false,
+        error: 'Invalid authentication code',
+        code: 'INVALID_CODE'
+      })
+
+      await authController.verifyTwoFactor(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'INVALID_CODE', message: 'Invalid authentication code' }
+      })
+    })
+
+    it('should require a challenge token and code', async () => {
+      mockReq.body = { code: '123456' }
+
+      await authController.verifyTwoFactor(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockTwoFactorService.completeChallenge).not.toHaveBeenCalled()
+    })
+
+    it('should return the otpauth URI when setup starts', async () => {
+      const setup = { secret: 'JBSWY3DPEHPK3PXP', otpauthUri: 'otpauth://totp/ParaSocial%3Atest%40example.com?secret=JBSWY3DPEHPK3PXP' }
+      mockTwoFactorService.beginSetup.mockResolvedValue({ success: true, data: setup })
+
+      await authController.setupTwoFactor(mockReq, mockRes)
+
+      expect(mockTwoFactorService.beginSetup).toHaveBeenCalledWith('user123')
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true, data: setup })
+    })
+
+    it('should return recovery codes when enrollment is confirmed', async () => {
+      mockReq.body = { code: '123456' }
+      mockTwoFactorService.confirmSetup.mockResolvedValue({ success: true, data: { recoveryCodes: ['abcde-fghij'] } })
+
+      await authController.enableTwoFactor(mockReq, mockRes)
+
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { enabled: true, recoveryCodes: ['abcde-fghij'] }
+      })
+    })
+
+    it('should require the password and a code to disable', async () => {
+      mockReq.body = { code: '123456' }
+
+      await authController.disableTwoFactor(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockTwoFactorService.disable).not.toHaveBeenCalled()
+    })
+
+    it('should return 401 when re-authentication fails', async () => {
+      mockReq.body = { password: 'wrong', code: '123456' }
+      mockTwoFactorService.disable.mockResolvedValue({ success: false, error: 'Password is incorrect', code: 'INVALID_CREDENTIALS' })
+
+      await authController.disableTwoFactor(mockReq, mockRes)
+
+      expect(mockTwoFactorService.disable).toHaveBeenCalledWith('user123', 'wrong', '123456')
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+    })
+
+    it('should respond 501 when two-factor is not configured', async () => {
+      authController = new AuthController(mockAuthService, mockUserRepository)
+
+      await authController.setupTwoFactor(mockReq, mockRes)
+
+      expect(mockRes.status).toHaveBeenCalledWith(501)
+    })
+  })
+})
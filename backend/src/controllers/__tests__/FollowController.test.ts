@@ -1,6 +1,6 @@
 // backend\src\controllers\__tests__\FollowController.test.ts
-// Version: 1.8.0
-// Fixed final test expectation to match actual controller response structure with nested 'follow' object
+// Version: 1.9.0
+// Added follow request inbox, accept and reject tests
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import type { Request, Response } from 'express'
@@ -30,6 +30,9 @@ interface MockFollowService {
   checkFollowStatus: ReturnType<typeof vi.fn>
   bulkCheckFollowing: ReturnType<typeof vi.fn>
   getRecentFollowers: ReturnType<typeof vi.fn>
+  getFollowRequests: ReturnType<typeof vi.fn>
+  acceptFollowRequest: ReturnType<typeof vi.fn>
+  rejectFollowRequest: ReturnType<typeof vi.fn>
 }
 
 /**
@@ -52,7 +55,7 @@ interface MockResponse {
  * Mock authenticated request interface
  */
 interface MockAuthenticatedRequest extends Partial<Request> {
-  params?: { username?: string }
+  params?: { username?: string, id?: string }
   user?: {
     id: string
     email: string
@@ -81,7 +84,10 @@ describe('FollowController Unit Tests', () => {
       getFollowStats: vi.fn(),
       checkFollowStatus: vi.fn(),
       bulkCheckFollowing: vi.fn(),
-      getRecentFollowers: vi.fn()
+      getRecentFollowers: vi.fn(),
+      getFollowRequests: vi.fn(),
+      acceptFollowRequest: vi.fn(),
+      rejectFollowRequest: vi.fn()
     }
 
     mockUserRepository = {
@@ -340,6 +346,70 @@ describe('FollowController Unit Tests', () => {
     })
   })
 
+  /**
+   * Test the follow request inbox
+   */
+  describe('follow requests', () => {
+    const creator = {
+      id: 'user_123',
+      email: 'creator@example.com',
+      username: 'creator'
+    }
+
+    it('should list the signed-in user\'s pending requests', async () => {
+      mockRequest = { user: creator, query: { page: '2', limit: '10' } }
+      const page = { requests: [], totalCount: 12, hasMore: false }
+      mockFollowService.getFollowRequests.mockResolvedValue({ success: true, data: page })
+
+      await followController.getFollowRequests(mockRequest as Request, mockResponse as any)
+
+      expect(mockFollowService.getFollowRequests).toHaveBeenCalledWith('user_123', { offset: 10, limit: 10 })
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: page })
+    })
+
+    it('should accept a request', async () => {
+      mockRequest = { user: creator, params: { id: 'follow_1' } }
+      mockFollowService.acceptFollowRequest.mockResolvedValue({ success: true, data: {} })
+
+      await followController.acceptFollowRequest(mockRequest as Request, mockResponse as any)
+
+      expect(mockFollowService.acceptFollowRequest).toHaveBeenCalledWith('user_123', 'follow_1')
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: { message: 'Follow request accepted' }
+      })
+    })
+
+    it('should return 404 when rejecting an unknown request', async () => {
+      mockRequest = { user: creator, params: { id: 'missing' } }
+      mockFollowService.rejectFollowRequest.mockResolvedValue({
+        success: false,
+        error: 'Follow request not found',
+        code: 'FOLLOW_REQUEST_NOT_FOUND'
+      })
+
+      await followController.rejectFollowRequest(mockRequest as Request, mockResponse as any)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404)
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'FOLLOW_REQUEST_NOT_FOUND' }))
+    })
+
+    it('should return 409 when a follow request is already pending', async () => {
+      mockRequest = { params: { username: 'creator' }, body: {}, user: { ...creator, id: 'follower_456' } }
+      mockUserRepository.findByUsername.mockResolvedValue({ id: 'user_123', username: 'creator', isActive: true })
+      mockFollowService.followUser.mockResolvedValue({
+        success: false,
+        error: 'Follow request is already waiting for approval',
+        code: 'FOLLOW_REQUEST_PENDING'
+      })
+
+      await followController.followUser(mockRequest as Request, mockResponse as any)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409)
+    })
+  })
+
   /**
    * Test error handling
    */
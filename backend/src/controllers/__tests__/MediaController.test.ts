@@ -0,0 +1,167 @@
+// backend/src/controllers/__tests__/MediaController.test.ts
+// Version: 1.4.0
+// Unit tests for recording and deleting uploaded media
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Request, Response } from 'express'
+import { MediaController } from '../MediaController'
+
+describe('MediaController', () => {
+  let mediaController: MediaController
+  let mockMediaService: any
+  let mockReq: any
+  let mockRes: any
+
+  const media = { id: 'media1', url: '/uploads/file-1.png', postId: null }
+
+  beforeEach(() => {
+    mockMediaService = {
+      createUpload: vi.fn().mockResolvedValue({ success: true, data: media }),
+      discardUpload: vi.fn().mockResolvedValue(undefined),
+      deleteMedia: vi.fn().mockResolvedValue({ success: true })
+    }
+    mediaController = new MediaController(mockMediaService)
+
+    mockReq = {
+      user: { id: 'user123', email: 'creator@example.com', username: 'creator' },
+      file: {
+        filename: 'file-1.png',
+        path: '/tmp/parasocial-uploads/file-1.png',
+        originalname: 'sky.png',
+        mimetype: 'image/png',
+        size: 2048
+      },
+      body: { altText: '  A clear blue sky  ' }
+    }
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis()
+    }
+  })
+
+  it('should record the upload for the signed-in user', async () => {
+    await mediaController.uploadMedia(mockReq as Request, mockRes as Response)
+
+    expect(mockMediaService.createUpload).toHaveBeenCalledWith(
+      'user123',
+      {
+        filename: 'file-1.png',
+        path: '/tmp/parasocial-uploads/file-1.png',
+        originalName: 'sky.png',
+        mimeType: 'image/png',
+        size: 2048
+      },
+      'A clear blue sky',
+      false
+    )
+    expect(mockRes.status).toHaveBeenCalledWith(201)
+    expect(mockRes.json).toHaveBeenCalledWith({ success: true, data: { media } })
+  })
+
+  it('should record uploads marked sensitive', async () => {
+    mockReq.body = { altText: 'Strobe test', sensitive: 'true' }
+
+    await mediaController.uploadMedia(mockReq as Request, mockRes as Response)
+
+    expect(mockMediaService.createUpload).toHaveBeenCalledWith('user123', expect.any(Object), 'Strobe test', true)
+    expect(mockRes.status).toHaveBeenCalledWith(201)
+  })
+
+  it('should reject and remove uploads with overlong alt text', async () => {
+    mockReq.body = { altText: 'a'.repeat(1501) }
+
+    await mediaController.uploadMedia(mockReq as Request, mockRes as Response)
+
+    expect(mockRes.status).toHaveBeenCalledWith(400)
+    expect(mockMediaService.discardUpload).toHaveBeenCalledWith('/tmp/parasocial-uploads/file-1.png')
+    expect(mockMediaService.createUpload).not.toHaveBeenCalled()
+  })
+
+  it('should respond 400 for images that fail processing', async () => {
+    mockMediaService.createUpload.mockResolvedValue({
+      success: false,
+      error: 'File is not a supported image',
+      code: 'INVALID_IMAGE'
+    })
+
+    await mediaController.uploadMedia(mockReq as Request, mockRes as Response)
+
+    expect(mockRes.status).toHaveBeenCalledWith(400)
+    expect(mockRes.json.mock.calls[0][0].error.code).toBe('INVALID_IMAGE')
+  })
+
+  it('should require a file', async () => {
+    delete mockReq.file
+
+    await mediaController.uploadMedia(mockReq as Request, mockRes as Response)
+
+    expect(mockRes.status).toHaveBeenCalledWith(400)
+  })
+
+  it('should require authentication', async () => {
+    delete mockReq.user
+
+    await mediaController.uploadMedia(mockReq as Request, mockRes as Response)
+
+    expect(mockRes.status).toHaveBeenCalledWith(401)
+  })
+
+  it('should respond 500 when the record cannot be saved', async () => {
+    mockMediaService.createUpload.mockRejectedValue(new Error('Database down'))
+
+    await mediaController.uploadMedia(mockReq as Request, mockRes as Response)
+
+    expect(mockRes.status).toHaveBeenCalledWith(500)
+  })
+
+  describe('deleteMedia', () => {
+    beforeEach(() => {
+      mockReq.params = { identifier: 'file-1.png' }
+    })
+
+    it('should delete the media through the service as the signed-in user', async () => {
+      await mediaController.deleteMedia(mockReq, mockRes as Response)
+
+      expect(mockMediaService.deleteMedia).toHaveBeenCalledWith('file-1.png', mockReq.user)
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+    })
+
+    it('should respond 403 to users other than the uploader', async () => {
+      mockMediaService.deleteMedia.mockResolvedValue({
+        success: false,
+        error: 'Only the uploader can delete this media',
+        code: 'FORBIDDEN'
+      })
+
+      await mediaController.deleteMedia(mockReq, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(403)
+      expect(mockRes.json.mock.calls[0][0].error.code).toBe('FORBIDDEN')
+    })
+
+    it('should require authentication', async () => {
+      delete mockReq.user
+
+      await mediaController.deleteMedia(mockReq, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+      expect(mockMediaService.deleteMedia).not.toHaveBeenCalled()
+    })
+
+    it('should respond 404 for unknown files', async () => {
+      mockMediaService.deleteMedia.mockResolvedValue({ success: false, error: 'Media not found', code: 'NOT_FOUND' })
+
+      await mediaController.deleteMedia(mockReq, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(404)
+    })
+
+    it('should respond 500 when storage fails', async () => {
+      mockMediaService.deleteMedia.mockRejectedValue(new Error('Bucket unavailable'))
+
+      await mediaController.deleteMedia(mockReq, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(500)
+    })
+  })
+})
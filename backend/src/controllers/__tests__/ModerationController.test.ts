@@ -0,0 +1,118 @@
+// backend/src/controllers/__tests__/ModerationController.test.ts
+// Unit tests for ModerationController with a mocked ModerationService
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ModerationController } from '../ModerationController'
+
+const createMockRequest = (body: any = {}, params: any = {}, user?: any) => ({
+  body,
+  params,
+  user
+} as any)
+
+const createMockResponse = () => {
+  const res: any = {}
+  res.status = vi.fn().mockReturnValue(res)
+  res.json = vi.fn().mockReturnValue(res)
+  return res
+}
+
+describe('ModerationController', () => {
+  let mockModerationService: any
+  let moderationController: ModerationController
+
+  const moderator = { id: 'mod1', email: 'mod@example.com', username: 'mod', role: 'moderator' }
+
+  beforeEach(() => {
+    mockModerationService = {
+      takeAction: vi.fn(),
+      reverseAction: vi.fn(),
+      getReportActions: vi.fn(),
+      getAccountStanding: vi.fn()
+    }
+    moderationController = new ModerationController(mockModerationService)
+  })
+
+  describe('takeAction', () => {
+    it('should take the action as the signed-in moderator', async () => {
+      const action = { id: 'action1', type: 'WARN_USER' }
+      mockModerationService.takeAction.mockResolvedValue({ success: true, data: action })
+      const res = createMockResponse()
+
+      await moderationController.takeAction(
+        createMockRequest({ type: 'WARN_USER', reason: 'Rude replies' }, { id: 'report1' }, moderator),
+        res
+      )
+
+      expect(mockModerationService.takeAction).toHaveBeenCalledWith(
+        { id: 'mod1', role: 'moderator' },
+        'report1',
+        'WARN_USER',
+        'Rude replies'
+      )
+      expect(res.status).toHaveBeenCalledWith(201)
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: { action } })
+    })
+
+    it('should reject an action without a reason', async () => {
+      const res = createMockResponse()
+
+      await moderationController.takeAction(createMockRequest({ type: 'WARN_USER' }, { id: 'report1' }, moderator), res)
+
+      expect(res.status).toHaveBeenCalledWith(400)
+      expect(mockModerationService.takeAction).not.toHaveBeenCalled()
+    })
+
+    it.each([
+      ['INVALID_ACTION', 400],
+      ['CANNOT_MODERATE_STAFF', 403],
+      ['REPORT_NOT_FOUND', 404],
+      ['ALREADY_SUSPENDED', 409]
+    ])('should map %s to %i', async (code, status) => {
+      mockModerationService.takeAction.mockResolvedValue({ success: false, error: 'Nope', code })
+      const res = createMockResponse()
+
+      await moderationController.takeAction(
+        createMockRequest({ type: 'SUSPEND_USER', reason: 'Spam' }, { id: 'report1' }, moderator),
+        res
+      )
+
+      expect(res.status).toHaveBeenCalledWith(status)
+      expect(res.json).toHaveBeenCalledWith({ success: false, error: { code, message: 'Nope' } })
+    })
+  })
+
+  describe('reverseAction', () => {
+    it('should map an already reversed action to 409', async () => {
+      mockModerationService.reverseAction.mockResolvedValue({ success: false, error: 'Nope', code: 'ACTION_ALREADY_REVERSED' })
+      const res = createMockResponse()
+
+      await moderationController.reverseAction(createMockRequest({}, { id: 'action1' }, moderator), res)
+
+      expect(mockModerationService.reverseAction).toHaveBeenCalledWith({ id: 'mod1', role: 'moderator' }, 'action1', undefined)
+      expect(res.status).toHaveBeenCalledWith(409)
+    })
+  })
+
+  describe('standing', () => {
+    it('should show users their own standing without internal entries', async () => {
+      const standing = { userId: 'user123', status: 'good', actions: [] }
+      mockModerationService.getAccountStanding.mockResolvedValue({ success: true, data: standing })
+      const res = createMockResponse()
+
+      await moderationController.getOwnStanding(createMockRequest({}, {}, { id: 'user123' }), res)
+
+      expect(mockModerationService.getAccountStanding).toHaveBeenCalledWith('user123')
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: standing })
+    })
+
+    it('should show staff the full standing of any user', async () => {
+      mockModerationService.getAccountStanding.mockResolvedValue({ success: true, data: {} })
+      const res = createMockResponse()
+
+      await moderationController.getUserStanding(createMockRequest({}, { id: 'user123' }, moderator), res)
+
+      expect(mockModerationService.getAccountStanding).toHaveBeenCalledWith('user123', true)
+    })
+  })
+})
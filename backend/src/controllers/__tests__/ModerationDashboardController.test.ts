@@ -0,0 +1,133 @@
+// backend/src/controllers/__tests__/ModerationDashboardController.test.ts
+// Unit tests for ModerationDashboardController with a mocked ModerationDashboardService
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ModerationDashboardController } from '../ModerationDashboardController'
+
+const createMockRequest = (query: any = {}, params: any = {}, user?: any) => ({
+  query,
+  params,
+  user
+} as any)
+
+const createMockResponse = () => {
+  const res: any = {}
+  res.status = vi.fn().mockReturnValue(res)
+  res.json = vi.fn().mockReturnValue(res)
+  res.set = vi.fn().mockReturnValue(res)
+  return res
+}
+
+describe('ModerationDashboardController', () => {
+  let mockService: any
+  let controller: ModerationDashboardController
+
+  const creator = { id: 'creator1', email: 'creator@example.com', username: 'creator' }
+
+  beforeEach(() => {
+    mockService = {
+      getSummary: vi.fn(),
+      getAccountReports: vi.fn(),
+      getReportedPosts: vi.fn(),
+      getPostReports: vi.fn(),
+      getBlockedUsers: vi.fn(),
+      getStaffQueue: vi.fn()
+    }
+    controller = new ModerationDashboardController(mockService)
+  })
+
+  describe('getSummary', () => {
+    it('should return the signed-in creator\'s counts', async () => {
+      const summary = { reportedPosts: 3, accountReports: 0, blockedUsers: 12, pendingFollowRequests: 1 }
+      mockService.getSummary.mockResolvedValue({ success: true, data: summary })
+      const res = createMockResponse()
+
+      await controller.getSummary(createMockRequest({}, {}, creator), res)
+
+      expect(mockService.getSummary).toHaveBeenCalledWith('creator1')
+      expect(res.set).toHaveBeenCalledWith('Cache-Control', 'private, no-store')
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: summary })
+    })
+
+    it('should require authentication', async () => {
+      const res = createMockResponse()
+
+      await controller.getSummary(createMockRequest(), res)
+
+      expect(res.status).toHaveBeenCalledWith(401)
+      expect(mockService.getSummary).not.toHaveBeenCalled()
+    })
+
+    it('should respond 500 when the service throws', async () => {
+      mockService.getSummary.mockRejectedValue(new Error('connection lost'))
+      const res = createMockResponse()
+
+      await controller.getSummary(createMockRequest({}, {}, creator), res)
+
+      expect(res.status).toHaveBeenCalledWith(500)
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Internal server error while loading moderation summary' }
+      })
+    })
+  })
+
+  describe('getAccountReports', () => {
+    it('should pass parsed paging and status to the service', async () => {
+      mockService.getAccountReports.mockResolvedValue({ success: true, data: { reports: [] } })
+      const res = createMockResponse()
+
+      await controller.getAccountReports(createMockRequest({ page: '2', status: 'PENDING' }, {}, creator), res)
+
+      expect(mockService.getAccountReports).toHaveBeenCalledWith('creator1', { page: 2, limit: 20, status: 'PENDING' })
+    })
+
+    it('should reject an unknown status', async () => {
+      const res = createMockResponse()
+
+      await controller.getAccountReports(createMockRequest({ status: 'OPEN' }, {}, creator), res)
+
+      expect(res.status).toHaveBeenCalledWith(400)
+      expect(mockService.getAccountReports).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getPostReports', () => {
+    it('should respond 404 for a post the creator does not own', async () => {
+      mockService.getPostReports.mockResolvedValue({ success: false, error: 'Post not found', code: 'POST_NOT_FOUND' })
+      const res = createMockResponse()
+
+      await controller.getPostReports(createMockRequest({}, { id: 'post1' }, creator), res)
+
+      expect(mockService.getPostReports).toHaveBeenCalledWith('creator1', 'post1', { page: 1, limit: 20 })
+      expect(res.status).toHaveBeenCalledWith(404)
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'POST_NOT_FOUND', message: 'Post not found' }
+      })
+    })
+  })
+
+  describe('getBlockedUsers', () => {
+    it('should reject a limit over 50', async () => {
+      const res = createMockResponse()
+
+      await controller.getBlockedUsers(createMockRequest({ limit: '500' }, {}, creator), res)
+
+      expect(res.status).toHaveBeenCalledWith(400)
+      expect(mockService.getBlockedUsers).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getStaffQueue', () => {
+    it('should return the queue', async () => {
+      const queue = { pendingReports: 4, users: [] }
+      mockService.getStaffQueue.mockResolvedValue({ success: true, data: queue })
+      const res = createMockResponse()
+
+      await controller.getStaffQueue(createMockRequest(), res)
+
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: queue })
+    })
+  })
+})
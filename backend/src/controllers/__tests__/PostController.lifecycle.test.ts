@@ -0,0 +1,284 @@
+// backend/src/controllers/__tests__/PostController.lifecycle.test.ts
+// Version: 1.1.0
+// Unit tests for draft, schedule, publish and unpublish endpoints and the listings behind them
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Request, Response } from 'express'
+import { PostController } from '../PostController'
+
+describe('PostController draft lifecycle', () => {
+  let postController: PostController
+  let mockPostRepository: any
+  let mockUserRepository: any
+  let mockOutboxService: any
+  let mockReq: any
+  let mockRes: any
+
+  const future = new Date(Date.now() + 24 * 60 * 60 * 1000)
+
+  const createPost = (overrides: Record<string, unknown> = {}) => ({
+    id: 'post-123',
+    content: 'Written days ahead',
+    contentWarning: null,
+    isScheduled: false,
+    scheduledFor: null,
+    isPublished: false,
+    publishedAt: null,
+    activityId: null,
+    authorId: 'user-123',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  })
+
+  const list = { posts: [createPost()], totalCount: 1, hasMore: false }
+
+  beforeEach(() => {
+    mockPostRepository = {
+      findById: vi.fn().mockResolvedValue(createPost()),
+      updateIfState: vi.fn().mockImplementation(async (id, _state, data) => createPost({ id, ...data })),
+      findByAuthor: vi.fn().mockResolvedValue(list),
+      findScheduled: vi.fn().mockResolvedValue(list),
+      findPublished: vi.fn().mockResolvedValue(list)
+    }
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue({ id: 'author-9', isActive: true })
+    }
+    mockOutboxService = {
+      publishPost: vi.fn().mockResolvedValue(undefined),
+      unpublishPost: vi.fn().mockResolvedValue(undefined)
+    }
+
+    postController = new PostController(mockPostRepository, mockUserRepository, mockOutboxService)
+
+    mockReq = {
+      user: { id: 'user-123', email: 'creator@example.com', username: 'creator' },
+      params: { id: 'post-123' },
+      query: {},
+      body: {}
+    }
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis()
+    }
+  })
+
+  describe('publishPost', () => {
+    it('should publish a draft and federate it', async () => {
+      await postController.publishPost(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.updateIfState).toHaveBeenCalledWith(
+        'post-123',
+        { isPublished: false, isScheduled: false },
+        { isPublished: true, isScheduled: false, scheduledFor: null }
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+      expect(mockOutboxService.publishPost).toHaveBeenCalledWith('post-123')
+    })
+
+    it('should publish a scheduled post ahead of time', async () => {
+      mockPostRepository.findById.mockResolvedValue(createPost({ isScheduled: true, scheduledFor: future }))
+
+      await postController.publishPost(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.updateIfState).toHaveBeenCalledWith(
+        'post-123',
+        { isPublished: false, isScheduled: true },
+        expect.objectContaining({ isPublished: true })
+      )
+    })
+
+    it('should respond 409 for posts that are already published', async () => {
+      mockPostRepository.findById.mockResolvedValue(createPost({ isPublished: true, publishedAt: new Date() }))
+
+      await postController.publishPost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(409)
+      expect(mockRes.json.mock.calls[0][0].error.code).toBe('INVALID_STATE')
+      expect(mockPostRepository.updateIfState).not.toHaveBeenCalled()
+    })
+
+    it('should respond 409 when the scheduler published the post first', async () => {
+      mockPostRepository.updateIfState.mockResolvedValue(null)
+
+      await postController.publishPost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(409)
+      expect(mockRes.json.mock.calls[0][0].error.code).toBe('STATE_CHANGED')
+      expect(mockOutboxService.publishPost).not.toHaveBeenCalled()
+    })
+
+    it('should respond 404 for posts by someone else', async () => {
+      mockPostRepository.findById.mockResolvedValue(createPost({ authorId: 'someone-else' }))
+
+      await postController.publishPost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(404)
+    })
+
+    it('should require authentication', async () => {
+      delete mockReq.user
+
+      await postController.publishPost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+    })
+  })
+
+  describe('unpublishPost', () => {
+    it('should take a published post back to draft and withdraw it', async () => {
+      mockPostRepository.findById.mockResolvedValue(createPost({ isPublished: true, publishedAt: new Date() }))
+
+      await postController.unpublishPost(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.updateIfState).toHaveBeenCalledWith(
+        'post-123',
+        { isPublished: true, isScheduled: false },
+        { isPublished: false, isScheduled: false, scheduledFor: null, publishedAt: null }
+      )
+      expect(mockOutboxService.unpublishPost).toHaveBeenCalledWith('post-123')
+    })
+
+    it('should respond 409 for drafts', async () => {
+      await postController.unpublishPost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(409)
+    })
+  })
+
+  describe('schedulePost', () => {
+    it('should schedule a draft without federating it', async () => {
+      mockReq.body = { scheduledFor: future.toISOString() }
+
+      await postController.schedulePost(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.updateIfState).toHaveBeenCalledWith(
+        'post-123',
+        { isPublished: false, isScheduled: false },
+        { isPublished: false, isScheduled: true, scheduledFor: future }
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+      expect(mockOutboxService.publishPost).not.toHaveBeenCalled()
+    })
+
+    it('should reject times in the past', async () => {
+      mockReq.body = { scheduledFor: new Date(Date.now() - 60000).toISOString() }
+
+      await postController.schedulePost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockPostRepository.findById).not.toHaveBeenCalled()
+    })
+
+    it('should respond 409 for published posts', async () => {
+      mockReq.body = { scheduledFor: future.toISOString() }
+      mockPostRepository.findById.mockResolvedValue(createPost({ isPublished: true, publishedAt: new Date() }))
+
+      await postController.schedulePost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(409)
+    })
+  })
+
+  describe('moveToDraft', () => {
+    it('should cancel the schedule', async () => {
+      mockPostRepository.findById.mockResolvedValue(createPost({ isScheduled: true, scheduledFor: future }))
+
+      await postController.moveToDraft(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.updateIfState).toHaveBeenCalledWith(
+        'post-123',
+        { isPublished: false, isScheduled: true },
+        { isPublished: false, isScheduled: false, scheduledFor: null }
+      )
+    })
+
+    it('should respond 409 for posts that are already drafts', async () => {
+      await postController.moveToDraft(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(409)
+    })
+  })
+
+  describe('listings', () => {
+    it('should list the user\'s drafts', async () => {
+      mockReq.query = { page: '2', limit: '10' }
+
+      await postController.getDrafts(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.findByAuthor).toHaveBeenCalledWith('user-123', {
+        offset: 10,
+        limit: 10,
+        isPublished: false,
+        isScheduled: false,
+        orderBy: 'updatedAt'
+      })
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          posts: list.posts,
+          pagination: { page: 2, limit: 10, total: 1, hasMore: false }
+        }
+      })
+    })
+
+    it('should hand out signed media URLs for drafts when media is configured', async () => {
+      const signed = createPost({ media: [{ id: 'media-1', url: '/api/media/file-1.png?expires=1&signature=s' }] })
+      const mockMediaService = { signPostMedia: vi.fn().mockResolvedValue(signed) }
+      postController = new PostController(mockPostRepository, mockUserRepository, mockOutboxService, mockMediaService as any)
+
+      await postController.getDrafts(mockReq as Request, mockRes as Response)
+
+      expect(mockMediaService.signPostMedia).toHaveBeenCalledWith(list.posts[0])
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ posts: [signed] })
+      }))
+    })
+
+    it('should sign the media of a draft fetched by its author', async () => {
+      const signed = createPost({ media: [] })
+      const mockMediaService = { signPostMedia: vi.fn().mockResolvedValue(signed) }
+      postController = new PostController(mockPostRepository, mockUserRepository, mockOutboxService, mockMediaService as any)
+      mockPostRepository.findById.mockResolvedValue(createPost({ author: { isActive: true }, moderationStatus: 'visible' }))
+
+      await postController.getPostById(mockReq as Request, mockRes as Response)
+
+      expect(mockMediaService.signPostMedia).toHaveBeenCalled()
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true, data: { post: signed } })
+    })
+
+    it('should list the user\'s scheduled posts', async () => {
+      await postController.getScheduledPosts(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.findScheduled).toHaveBeenCalledWith('user-123', { offset: 0, limit: 20 })
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+    })
+
+    it('should show authors all of their own posts', async () => {
+      mockReq.params = { authorId: 'user-123' }
+
+      await postController.getPostsByAuthor(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.findByAuthor).toHaveBeenCalledWith('user-123', { offset: 0, limit: 20 })
+      expect(mockPostRepository.findPublished).not.toHaveBeenCalled()
+    })
+
+    it('should show other viewers only published posts', async () => {
+      mockReq.params = { authorId: 'author-9' }
+
+      await postController.getPostsByAuthor(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.findPublished).toHaveBeenCalledWith({ authorId: 'author-9', offset: 0, limit: 20 })
+      expect(mockPostRepository.findByAuthor).not.toHaveBeenCalled()
+    })
+
+    it('should respond 404 for unknown authors', async () => {
+      mockReq.params = { authorId: 'missing' }
+      mockUserRepository.findById.mockResolvedValue(null)
+
+      await postController.getPostsByAuthor(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(404)
+    })
+  })
+})
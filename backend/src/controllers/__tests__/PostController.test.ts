@@ -1,12 +1,13 @@
 // backend/src/controllers/__tests__/PostController.test.ts
-// Version: 1.1.0 - Fixed test expectations to match current PostController implementation
-// Changed: Updated response structure expectations, limit values, validation formats, and field names
+// Version: 1.7.0 - PUT edits content only
+// Changed: PUT /posts/:id no longer publishes drafts or drops schedules
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { Request, Response } from 'express'
 import { PostController } from '../PostController'
 import { PostRepository } from '../../repositories/PostRepository'
 import { UserRepository } from '../../repositories/UserRepository'
+import { OutboxService } from '../../services/OutboxService'
 
 /**
  * Mock authenticated request interface
@@ -16,6 +17,7 @@ interface MockAuthenticatedRequest extends Partial<Request> {
     id: string
     email: string
     username: string
+    role?: 'user' | 'moderator' | 'admin'
   }
   params?: Record<string, string>
   query?: Record<string, string>
@@ -38,6 +40,8 @@ interface MockPostRepository {
   findByIdWithAuthorAndMedia: ReturnType<typeof vi.fn>
   findById: ReturnType<typeof vi.fn>
   create: ReturnType<typeof vi.fn>
+  createWithMedia: ReturnType<typeof vi.fn>
+  replaceMedia: ReturnType<typeof vi.fn>
   update: ReturnType<typeof vi.fn>
   delete: ReturnType<typeof vi.fn>
   existsByIdAndAuthor: ReturnType<typeof vi.fn>
@@ -92,6 +96,8 @@ describe('PostController', () => {
       findByIdWithAuthorAndMedia: vi.fn(),
       findById: vi.fn(),
       create: vi.fn(),
+      createWithMedia: vi.fn(),
+      replaceMedia: vi.fn(),
       update: vi.fn(),
       delete: vi.fn(),
       existsByIdAndAuthor: vi.fn()
@@ -361,11 +367,153 @@ describe('PostController', () => {
 
       expect(mockPostRepository.create).not.toHaveBeenCalled()
     })
+
+    it('should attach uploaded media', async () => {
+      mockReq.body = { content: 'Look at this', mediaIds: ['media-1', 'media-2'] }
+      mockPostRepository.createWithMedia.mockResolvedValue(mockPost)
+
+      await postController.createPost(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.createWithMedia).toHaveBeenCalledWith(
+        expect.objectContaining({ content: 'Look at this', authorId: 'user-456' }),
+        ['media-1', 'media-2']
+      )
+      expect(mockPostRepository.create).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(201)
+    })
+
+    it('should allow media-only posts', async () => {
+      mockReq.body = { content: '', mediaIds: ['media-1'] }
+      mockPostRepository.createWithMedia.mockResolvedValue(mockPost)
+
+      await postController.createPost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(201)
+    })
+
+    it('should reject media the author cannot attach', async () => {
+      mockReq.body = { content: 'Not mine', mediaIds: ['someone-elses'] }
+      mockPostRepository.createWithMedia.mockResolvedValue(null)
+
+      await postController.createPost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockRes.json.mock.calls[0][0].error.code).toBe('INVALID_MEDIA')
+    })
+
+    it('should reject more than four attachments', async () => {
+      mockReq.body = { content: 'Too many', mediaIds: ['m1', 'm2', 'm3', 'm4', 'm5'] }
+
+      await postController.createPost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockPostRepository.createWithMedia).not.toHaveBeenCalled()
+    })
+
+    it('should save a draft when isPublished is false', async () => {
+      mockReq.body = { content: 'Still writing', isPublished: false }
+      mockPostRepository.create.mockResolvedValue({ ...mockPost, isPublished: false })
+
+      await postController.createPost(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ content: 'Still writing', isPublished: false, isScheduled: false })
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(201)
+    })
+
+    it('should save content labels without repeats', async () => {
+      mockReq.body = { content: 'Storm footage', contentLabels: ['flashing-lights', 'flashing-lights'] }
+      mockPostRepository.create.mockResolvedValue(mockPost)
+
+      await postController.createPost(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ contentLabels: ['flashing-lights'] })
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(201)
+    })
+
+    it('should reject unknown content labels', async () => {
+      mockReq.body = { content: 'Storm footage', contentLabels: ['scary'] }
+
+      await postController.createPost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockRes.json.mock.calls[0][0].error.code).toBe('VALIDATION_ERROR')
+      expect(mockPostRepository.create).not.toHaveBeenCalled()
+    })
   })
 
-  // Note: updatePost() method tests removed as the method is not yet implemented
-  // The router shows TODO: PUT /posts/:id - updatePost method needs to be implemented
-  // When the method is implemented, add back the validation tests here
+  /**
+   * Test PUT /posts/:id - media changes
+   */
+  describe('updatePost()', () => {
+    const draft = { ...mockPost, isPublished: false, publishedAt: null }
+
+    beforeEach(() => {
+      mockReq.user = {
+        id: 'user-456',
+        email: 'test@example.com',
+        username: 'testuser'
+      }
+      mockReq.params = { id: 'post-123' }
+    })
+
+    it('should replace a draft\'s media before updating it', async () => {
+      mockReq.body = { content: 'Draft with pictures', isPublished: false, mediaIds: ['media-1'] }
+      mockPostRepository.findById.mockResolvedValue(draft)
+      mockPostRepository.replaceMedia.mockResolvedValue(true)
+      mockPostRepository.update.mockResolvedValue(draft)
+
+      await postController.updatePost(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.replaceMedia).toHaveBeenCalledWith('post-123', 'user-456', ['media-1'])
+      expect(mockPostRepository.update).toHaveBeenCalledWith(
+        'post-123',
+        expect.objectContaining({ content: 'Draft with pictures' })
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+    })
+
+    it('should change the content labels of a published post', async () => {
+      mockReq.body = { contentLabels: ['spoilers'] }
+      mockPostRepository.findById.mockResolvedValue(mockPost)
+      mockPostRepository.update.mockResolvedValue(mockPost)
+
+      await postController.updatePost(mockReq as Request, mockRes as Response)
+
+      expect(mockPostRepository.update).toHaveBeenCalledWith(
+        'post-123',
+        expect.objectContaining({ contentLabels: ['spoilers'] })
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+    })
+
+    it('should reject media changes on published posts', async () => {
+      mockReq.body = { mediaIds: [] }
+      mockPostRepository.findById.mockResolvedValue(mockPost)
+
+      await postController.updatePost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockRes.json.mock.calls[0][0].error.code).toBe('VALIDATION_ERROR')
+      expect(mockPostRepository.replaceMedia).not.toHaveBeenCalled()
+      expect(mockPostRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject media the author cannot attach', async () => {
+      mockReq.body = { isPublished: false, mediaIds: ['someone-elses'] }
+      mockPostRepository.findById.mockResolvedValue(draft)
+      mockPostRepository.replaceMedia.mockResolvedValue(false)
+
+      await postController.updatePost(mockReq as Request, mockRes as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(400)
+      expect(mockRes.json.mock.calls[0][0].error.code).toBe('INVALID_MEDIA')
+      expect(mockPostRepository.update).not.toHaveBeenCalled()
+    })
+  })
 
   /**
    * Test GET /posts/:id - get specific post
@@ -429,5 +577,164 @@ describe('PostController', () => {
         }
       })
     })
+
+    it('should hide removed posts and posts by suspended authors from everyone but staff', async () => {
+      mockReq.params = { id: 'post-123' }
+      mockReq.user = { id: 'user-456', email: 'test@example.com', username: 'testuser' }
+
+      mockPostRepository.findByIdWithAuthorAndMedia.mockResolvedValue({ ...mockPost, moderationStatus: 'removed' })
+      await postController.getPostById(mockReq as Request, mockRes as Response)
+      expect(mockRes.status).toHaveBeenLastCalledWith(404)
+
+      mockPostRepository.findByIdWithAuthorAndMedia.mockResolvedValue({ ...mockPost, author: { ...mockPost.author, isActive: false } })
+      await postController.getPostById(mockReq as Request, mockRes as Response)
+      expect(mockRes.status).toHaveBeenLastCalledWith(404)
+
+      mockReq.user = { id: 'mod-1', email: 'mod@example.com', username: 'mod', role: 'moderator' }
+      await postController.getPostById(mockReq as Request, mockRes as Response)
+      expect(mockRes.status).toHaveBeenLastCalledWith(200)
+    })
+
+    it('should still show a hidden post to its author', async () => {
+      const hiddenPost = { ...mockPost, moderationStatus: 'hidden', authorId: 'user-456' }
+      mockReq.params = { id: 'post-123' }
+      mockReq.user = { id: 'user-456', email: 'test@example.com', username: 'testuser' }
+      mockPostRepository.findByIdWithAuthorAndMedia.mockResolvedValue(hiddenPost)
+
+      await postController.getPostById(mockReq as Request, mockRes as Response)
+      expect(mockRes.status).toHaveBeenLastCalledWith(200)
+
+      mockReq.user = { id: 'user-789', email: 'other@example.com', username: 'other' }
+      await postController.getPostById(mockReq as Request, mockRes as Response)
+      expect(mockRes.status).toHaveBeenLastCalledWith(404)
+    })
+  })
+
+  /**
+   * Test federation hooks into the outbox
+   */
+  describe('federation', () => {
+    let mockOutboxService: {
+      publishPost: ReturnType<typeof vi.fn>
+      updatePost: ReturnType<typeof vi.fn>
+      unpublishPost: ReturnType<typeof vi.fn>
+      deletePost: ReturnType<typeof vi.fn>
+    }
+
+    beforeEach(() => {
+      mockOutboxService = {
+        publishPost: vi.fn().mockResolvedValue(undefined),
+        updatePost: vi.fn().mockResolvedValue(undefined),
+        unpublishPost: vi.fn().mockResolvedValue(undefined),
+        deletePost: vi.fn().mockResolvedValue(undefined)
+      }
+
+      postController = new PostController(
+        mockPostRepository as unknown as PostRepository,
+        mockUserRepository as unknown as UserRepository,
+        mockOutboxService as unknown as OutboxService
+      )
+
+      mockReq.user = { id: 'user-456', email: 'test@example.com', username: 'testuser' }
+    })
+
+    it('should publish new public posts', async () => {
+      mockReq.body = { content: 'Hello fediverse' }
+      mockPostRepository.create.mockResolvedValue(mockPost)
+
+      await postController.createPost(mockReq as Request, mockRes as unknown as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(201)
+      expect(mockOutboxService.publishPost).toHaveBeenCalledWith('post-123')
+    })
+
+    it('should not federate scheduled posts on creation', async () => {
+      mockReq.body = {
+        content: 'Later',
+        isScheduled: true,
+        scheduledFor: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+      }
+      mockPostRepository.create.mockResolvedValue({ ...mockPost, isPublished: false })
+
+      await postController.createPost(mockReq as Request, mockRes as unknown as Response)
+
+      expect(mockOutboxService.publishPost).not.toHaveBeenCalled()
+    })
+
+    it('should send edits of published posts as updates', async () => {
+      mockReq.params = { id: 'post-123' }
+      mockReq.body = { content: 'Edited' }
+      mockPostRepository.findById.mockResolvedValue(mockPost)
+      mockPostRepository.update.mockResolvedValue({ ...mockPost, content: 'Edited' })
+
+      await postController.updatePost(mockReq as Request, mockRes as unknown as Response)
+
+      expect(mockOutboxService.updatePost).toHaveBeenCalledWith('post-123')
+      expect(mockOutboxService.publishPost).not.toHaveBeenCalled()
+    })
+
+    it('should not publish or federate drafts that are only edited', async () => {
+      const draft = { ...mockPost, isPublished: false, publishedAt: null }
+      mockReq.params = { id: 'post-123' }
+      mockReq.body = { content: 'Still a draft' }
+      mockPostRepository.findById.mockResolvedValue(draft)
+      mockPostRepository.update.mockResolvedValue({ ...draft, content: 'Still a draft' })
+
+      await postController.updatePost(mockReq as Request, mockRes as unknown as Response)
+
+      const updateData = mockPostRepository.update.mock.calls[0][1]
+      expect(updateData).toEqual({ content: 'Still a draft' })
+      expect(mockOutboxService.publishPost).not.toHaveBeenCalled()
+      expect(mockOutboxService.updatePost).not.toHaveBeenCalled()
+    })
+
+    it('should keep the schedule of scheduled posts sent isPublished false', async () => {
+      const scheduled = {
+        ...mockPost,
+        isPublished: false,
+        isScheduled: true,
+        scheduledFor: new Date(Date.now() + 60 * 60 * 1000),
+        publishedAt: null
+      }
+      mockReq.params = { id: 'post-123' }
+      mockReq.body = { content: 'Later, edited', isPublished: false }
+      mockPostRepository.findById.mockResolvedValue(scheduled)
+      mockPostRepository.update.mockResolvedValue({ ...scheduled, content: 'Later, edited' })
+
+      await postController.updatePost(mockReq as Request, mockRes as unknown as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+      const updateData = mockPostRepository.update.mock.calls[0][1]
+      expect(updateData).not.toHaveProperty('scheduledFor')
+      expect(updateData).not.toHaveProperty('isPublished')
+      expect(mockOutboxService.unpublishPost).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to change publish state through an edit', async () => {
+      mockReq.params = { id: 'post-123' }
+      mockReq.body = { isPublished: true }
+      mockPostRepository.findById.mockResolvedValue({ ...mockPost, isPublished: false })
+
+      await postController.updatePost(mockReq as Request, mockRes as unknown as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(409)
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'INVALID_STATE' })
+      }))
+      expect(mockPostRepository.update).not.toHaveBeenCalled()
+      expect(mockOutboxService.publishPost).not.toHaveBeenCalled()
+    })
+
+    it('should federate deletions with the deleted row', async () => {
+      const deletedPost = { ...mockPost, activityId: 'https://example.com/posts/post-123/activity' }
+      mockReq.params = { id: 'post-123' }
+      mockPostRepository.existsByIdAndAuthor.mockResolvedValue(true)
+      mockPostRepository.delete.mockResolvedValue(deletedPost)
+
+      await postController.deletePost(mockReq as Request, mockRes as unknown as Response)
+
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+      expect(mockOutboxService.deletePost).toHaveBeenCalledWith(deletedPost)
+    })
   })
-})
\ No newline at end of file
+})
@@ -0,0 +1,226 @@
+// backend/src/controllers/__tests__/UserController.profile.test.ts
+// Version: 1.1.0
+// Unit tests for own profile editing, avatar upload and avatar serving
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Request, Response } from 'express'
+import { PassThrough, Readable } from 'stream'
+import { UserController } from '../UserController'
+import { User } from '../../models/User'
+
+describe('UserController profile editing', () => {
+  let userController: UserController
+  let mockProfileService: any
+  let mockRequest: any
+  let mockResponse: any
+
+  const user = new User({
+    id: 'user123',
+    email: 'creator@example.com',
+    username: 'creator',
+    displayName: 'The Creator',
+    bio: 'I make things',
+    avatar: null,
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-01T00:00:00.000Z')
+  })
+
+  beforeEach(() => {
+    mockProfileService = {
+      getProfile: vi.fn().mockResolvedValue({ success: true, data: user }),
+      updateProfile: vi.fn().mockResolvedValue({ success: true, data: user }),
+      updateAvatar: vi.fn().mockResolvedValue({ success: true, data: user }),
+      openAvatar: vi.fn().mockResolvedValue(null)
+    }
+
+    userController = new UserController({} as any, {} as any, {} as any, mockProfileService)
+
+    mockRequest = {
+      user: { id: 'user123', email: 'creator@example.com', username: 'creator' },
+      body: {},
+      params: {}
+    }
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis()
+    }
+  })
+
+  describe('getOwnProfile', () => {
+    it('should return the private profile', async () => {
+      await userController.getOwnProfile(mockRequest as Request, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: user.getPrivateProfile()
+      })
+    })
+
+    it('should require authentication', async () => {
+      delete mockRequest.user
+
+      await userController.getOwnProfile(mockRequest as Request, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401)
+      expect(mockProfileService.getProfile).not.toHaveBeenCalled()
+    })
+
+    it('should respond 501 when profile editing is not configured', async () => {
+      userController = new UserController({} as any, {} as any, {} as any)
+
+      await userController.getOwnProfile(mockRequest as Request, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(501)
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'PROFILE_EDITING_UNAVAILABLE'
+      }))
+    })
+  })
+
+  describe('updateOwnProfile', () => {
+    it('should pass validated fields to the service', async () => {
+      mockRequest.body = { displayName: '  New Name  ', bio: 'Hello', website: '', username: 'new_name', role: 'admin' }
+
+      await userController.updateOwnProfile(mockRequest as Request, mockResponse as Response)
+
+      expect(mockProfileService.updateProfile).toHaveBeenCalledWith('user123', {
+        displayName: 'New Name',
+        bio: 'Hello',
+        website: '',
+        username: 'new_name'
+      })
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+    })
+
+    it('should reject invalid fields', async () => {
+      mockRequest.body = { website: 'ftp://example.com' }
+
+      await userController.updateOwnProfile(mockRequest as Request, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'VALIDATION_ERROR' }))
+      expect(mockProfileService.updateProfile).not.toHaveBeenCalled()
+    })
+
+    it('should reject reserved usernames', async () => {
+      mockRequest.body = { username: 'Profile' }
+
+      await userController.updateOwnProfile(mockRequest as Request, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockProfileService.updateProfile).not.toHaveBeenCalled()
+    })
+
+    it('should respond 409 when the username is taken', async () => {
+      mockRequest.body = { username: 'taken' }
+      mockProfileService.updateProfile.mockResolvedValue({
+        success: false,
+        error: 'Username is already taken',
+        code: 'USERNAME_TAKEN'
+      })
+
+      await userController.updateOwnProfile(mockRequest as Request, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Username is already taken',
+        code: 'USERNAME_TAKEN'
+      })
+    })
+  })
+
+  describe('uploadAvatar', () => {
+    const image = Buffer.from('image-bytes')
+
+    it('should centre-crop when no crop is sent', async () => {
+      mockRequest.file = { buffer: image }
+
+      await userController.uploadAvatar(mockRequest as Request, mockResponse as Response)
+
+      expect(mockProfileService.updateAvatar).toHaveBeenCalledWith('user123', image, undefined)
+      expect(mockResponse.status).toHaveBeenCalledWith(200)
+    })
+
+    it('should pass the crop square from the form fields', async () => {
+      mockRequest.file = { buffer: image }
+      mockRequest.body = { cropX: '10', cropY: '20', cropSize: '300' }
+
+      await userController.uploadAvatar(mockRequest as Request, mockResponse as Response)
+
+      expect(mockProfileService.updateAvatar).toHaveBeenCalledWith('user123', image, { x: 10, y: 20, size: 300 })
+    })
+
+    it('should reject a partial crop', async () => {
+      mockRequest.file = { buffer: image }
+      mockRequest.body = { cropX: '10' }
+
+      await userController.uploadAvatar(mockRequest as Request, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockProfileService.updateAvatar).not.toHaveBeenCalled()
+    })
+
+    it('should require a file', async () => {
+      await userController.uploadAvatar(mockRequest as Request, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockProfileService.updateAvatar).not.toHaveBeenCalled()
+    })
+
+    it('should respond 400 for files that are not images', async () => {
+      mockRequest.file = { buffer: image }
+      mockProfileService.updateAvatar.mockResolvedValue({
+        success: false,
+        error: 'File is not a supported image',
+        code: 'INVALID_IMAGE'
+      })
+
+      await userController.uploadAvatar(mockRequest as Request, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+    })
+
+    it('should respond 500 when processing throws', async () => {
+      mockRequest.file = { buffer: image }
+      mockProfileService.updateAvatar.mockRejectedValue(new Error('Disk full'))
+
+      await userController.uploadAvatar(mockRequest as Request, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500)
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ details: 'Disk full' }))
+    })
+  })
+
+  describe('getAvatar', () => {
+    it('should stream the avatar from storage with public caching', async () => {
+      mockRequest.params = { filename: 'user123-1000-400.webp' }
+      mockProfileService.openAvatar.mockResolvedValue({
+        body: Readable.from([Buffer.from('webp')]),
+        contentType: undefined,
+        size: 4,
+        lastModified: undefined
+      })
+      const response = Object.assign(new PassThrough(), { setHeader: vi.fn(), headersSent: false })
+      const chunks: Buffer[] = []
+      response.on('data', chunk => chunks.push(chunk))
+
+      await userController.getAvatar(mockRequest as Request<{ filename: string }>, response as unknown as Response)
+
+      expect(mockProfileService.openAvatar).toHaveBeenCalledWith('user123-1000-400.webp')
+      expect(response.setHeader).toHaveBeenCalledWith('Content-Type', 'image/webp')
+      expect(response.setHeader).toHaveBeenCalledWith('Cache-Control', 'public, max-age=86400')
+      expect(Buffer.concat(chunks).toString()).toBe('webp')
+    })
+
+    it('should respond 404 for avatars storage does not have', async () => {
+      mockRequest.params = { filename: 'user123-1000-400.webp' }
+
+      await userController.getAvatar(mockRequest as Request<{ filename: string }>, mockResponse as Response)
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404)
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'NOT_FOUND' }))
+    })
+  })
+})
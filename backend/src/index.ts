@@ -1,6 +1,6 @@
 // Path: backend/src/index.ts
-// Version: 2.2.0
-// Added config router for /api/config endpoint
+// Version: 2.23.0
+// Avatars stored and served through the storage provider; signed media URLs for drafts
 
 import express from 'express'
 import cors from 'cors'
@@ -10,8 +10,14 @@ import { PrismaClient } from '@prisma/client'
 import { createAuthRouter } from './routes/auth'
 import { createUsersRouter } from './routes/users'
 import { createPostsRouter } from './routes/posts'
+import { createAdminRouter } from './routes/admin'
+import { createModerationRouter } from './routes/moderation'
 import { createReportsRouter } from './routes/reports'
 import { createMediaRouter } from './routes/media'
+import { createRateLimitRouter } from './routes/rateLimits'
+import { createAnalyticsRouter } from './routes/analytics'
+import { createWebFingerRouter } from './routes/webfinger'
+import { createActivityPubRouter } from './routes/activitypub'
 import configRouter from './routes/config'
 
 // Import controllers
@@ -20,20 +26,75 @@ import { PostController } from './controllers/PostController'
 import { UserController } from './controllers/UserController'
 import { FollowController } from './controllers/FollowController'
 import { ReportController } from './controllers/ReportController'
+import { AdminController } from './controllers/AdminController'
+import { ModerationController } from './controllers/ModerationController'
+import { ModerationDashboardController } from './controllers/ModerationDashboardController'
+import { RateLimitController } from './controllers/RateLimitController'
+import { MediaController } from './controllers/MediaController'
+import { AnalyticsController } from './controllers/AnalyticsController'
 
 // Import services
 import { AuthService } from './services/AuthService'
 import { FollowService } from './services/FollowService'
+import { WebFingerService } from './services/WebFingerService'
+import { ActivityPubService } from './services/ActivityPubService'
+import { ActorKeyService } from './services/ActorKeyService'
+import { RemoteActorService } from './services/RemoteActorService'
+import { ActivityDeliveryService } from './services/ActivityDeliveryService'
+import { InboxService } from './services/InboxService'
+import { DeliveryQueue } from './services/DeliveryQueue'
+import { OutboxService } from './services/OutboxService'
+import { PostScheduler } from './services/PostScheduler'
+import { SessionService } from './services/SessionService'
+import { AccountEmailService } from './services/AccountEmailService'
+import { createMailer } from './services/Mailer'
+import { TwoFactorService } from './services/TwoFactorService'
+import { RoleService } from './services/RoleService'
+import { RateLimitTierService } from './services/RateLimitTierService'
+import { ModerationService } from './services/ModerationService'
+import { ModerationDashboardService } from './services/ModerationDashboardService'
+import { ProfileService } from './services/ProfileService'
+import { MediaService } from './services/MediaService'
+import { AnalyticsService } from './services/AnalyticsService'
+import { MediaCleanupJob } from './services/MediaCleanupJob'
+import { AnalyticsRollupJob } from './services/AnalyticsRollupJob'
+import { createStorageProvider } from './services/StorageProvider'
+import { VideoTranscoder } from './services/VideoTranscoder'
+import { VideoProcessingJob } from './services/VideoProcessingJob'
+import { createRateLimitStore } from './services/RateLimitStore'
+
+// Import configuration
+import { getFederationConfig } from './config/federation'
+import { getSchedulerConfig } from './config/scheduler'
+import { getMediaCleanupConfig } from './config/mediaCleanup'
+import { getAnalyticsRollupConfig } from './config/analyticsRollup'
+import { getStorageConfig } from './config/storage'
+import { getVideoProcessingConfig } from './config/videoProcessing'
+import { getSessionTokenConfig } from './config/sessions'
+import { getMailConfig } from './config/mail'
+import { getTwoFactorConfig } from './config/twoFactor'
+import { getRateLimitSettings } from './config/rateLimit'
 
 // Import repositories
 import { UserRepository } from './repositories/UserRepository'
 import { PostRepository } from './repositories/PostRepository'
 import { FollowRepository } from './repositories/FollowRepository'
 import { BlockRepository } from './repositories/BlockRepository'
+import { DeliveryJobRepository } from './repositories/DeliveryJobRepository'
+import { SessionRepository } from './repositories/SessionRepository'
+import { AccountTokenRepository } from './repositories/AccountTokenRepository'
+import { TwoFactorRepository } from './repositories/TwoFactorRepository'
+import { RoleChangeRepository } from './repositories/RoleChangeRepository'
+import { RateLimitOverrideRepository } from './repositories/RateLimitOverrideRepository'
+import { ReportRepository } from './repositories/ReportRepository'
+import { ModerationActionRepository } from './repositories/ModerationActionRepository'
+import { MediaRepository } from './repositories/MediaRepository'
+import { AnalyticsRepository } from './repositories/AnalyticsRepository'
 
 // Import middleware
 import { createAuthMiddleware, createOptionalAuthMiddleware } from './middleware/authMiddleware'
 import { globalErrorHandler, notFoundHandler } from './middleware/globalError'
+import { setRateLimitResolver, setRateLimitStore } from './middleware/rateLimitMiddleware'
 
 // ============================================================================
 // APPLICATION SETUP
@@ -59,21 +120,122 @@ const userRepository = new UserRepository(prisma)
 const postRepository = new PostRepository(prisma)
 const followRepository = new FollowRepository(prisma)
 const blockRepository = new BlockRepository(prisma)
+const deliveryJobRepository = new DeliveryJobRepository(prisma)
+const sessionRepository = new SessionRepository(prisma)
+const accountTokenRepository = new AccountTokenRepository(prisma)
+const twoFactorRepository = new TwoFactorRepository(prisma)
+const roleChangeRepository = new RoleChangeRepository(prisma)
+const rateLimitOverrideRepository = new RateLimitOverrideRepository(prisma)
+const reportRepository = new ReportRepository(prisma)
+const moderationActionRepository = new ModerationActionRepository(prisma)
+const mediaRepository = new MediaRepository(prisma)
+const analyticsRepository = new AnalyticsRepository(prisma)
 
 // Services
 const authService = new AuthService()
-const followService = new FollowService(followRepository, userRepository)
+const sessionService = new SessionService(sessionRepository, userRepository, authService, getSessionTokenConfig())
+const mailConfig = getMailConfig()
+const accountEmailService = new AccountEmailService(
+  accountTokenRepository,
+  userRepository,
+  sessionRepository,
+  authService,
+  createMailer(mailConfig),
+  mailConfig
+)
+const twoFactorService = new TwoFactorService(twoFactorRepository, userRepository, authService, getTwoFactorConfig())
+const roleService = new RoleService(userRepository, roleChangeRepository, sessionRepository)
+const rateLimitTierService = new RateLimitTierService(userRepository, rateLimitOverrideRepository)
+const analyticsService = new AnalyticsService(analyticsRepository)
+const moderationService = new ModerationService(
+  moderationActionRepository,
+  reportRepository,
+  userRepository,
+  postRepository,
+  sessionRepository
+)
+const moderationDashboardService = new ModerationDashboardService(
+  reportRepository,
+  blockRepository,
+  followRepository,
+  postRepository,
+  userRepository
+)
+const federationConfig = getFederationConfig()
+const webFingerService = new WebFingerService(userRepository, federationConfig.domain)
+const actorKeyService = new ActorKeyService(federationConfig.keyEncryptionSecret)
+const activityPubService = new ActivityPubService(userRepository, actorKeyService, federationConfig)
+const remoteActorService = new RemoteActorService()
+const activityDeliveryService = new ActivityDeliveryService(actorKeyService)
+const inboxService = new InboxService(
+  userRepository,
+  followRepository,
+  activityPubService,
+  remoteActorService,
+  activityDeliveryService
+)
+const deliveryQueue = new DeliveryQueue(
+  deliveryJobRepository,
+  activityDeliveryService,
+  userRepository,
+  federationConfig.delivery
+)
+const outboxService = new OutboxService(
+  postRepository,
+  followRepository,
+  userRepository,
+  activityPubService,
+  remoteActorService,
+  deliveryQueue,
+  federationConfig
+)
+const followService = new FollowService(followRepository, userRepository, outboxService)
+const postScheduler = new PostScheduler(
+  prisma,
+  [post => outboxService.publishPost(post.id)],
+  getSchedulerConfig()
+)
+const storageConfig = getStorageConfig()
+const storageProvider = createStorageProvider(storageConfig)
+const profileService = new ProfileService(userRepository, storageProvider, outboxService, activityPubService)
+const mediaService = new MediaService(mediaRepository, storageProvider, storageConfig.signedUrlTtlSeconds)
+const mediaCleanupJob = new MediaCleanupJob(mediaRepository, storageProvider, getMediaCleanupConfig())
+const analyticsRollupJob = new AnalyticsRollupJob(analyticsRepository, getAnalyticsRollupConfig())
+const videoProcessingConfig = getVideoProcessingConfig()
+const videoProcessingJob = new VideoProcessingJob(
+  mediaRepository,
+  storageProvider,
+  new VideoTranscoder(videoProcessingConfig),
+  videoProcessingConfig
+)
+
+// Every rate limiter counts in the configured store, so limits hold across instances
+setRateLimitStore(createRateLimitStore(getRateLimitSettings(), prisma))
+setRateLimitResolver((userId, policy) => rateLimitTierService.resolvePolicy(userId, policy))
 
 // Controllers
-const authController = new AuthController(authService, userRepository)
-const postController = new PostController(postRepository, userRepository)
-const userController = new UserController(userRepository, followRepository, blockRepository)
+const authController = new AuthController(
+  authService,
+  userRepository,
+  activityPubService,
+  sessionService,
+  accountEmailService,
+  twoFactorService
+)
+const postController = new PostController(postRepository, userRepository, outboxService, mediaService)
+const userController = new UserController(userRepository, followRepository, blockRepository, profileService)
 const followController = new FollowController(followService, userRepository)
 const reportController = new ReportController(userRepository, postRepository)
+const adminController = new AdminController(roleService, rateLimitTierService)
+const rateLimitController = new RateLimitController(rateLimitTierService)
+const moderationController = new ModerationController(moderationService)
+const moderationDashboardController = new ModerationDashboardController(moderationDashboardService)
+const mediaController = new MediaController(mediaService)
+const analyticsController = new AnalyticsController(analyticsService)
 
 // Create middleware instances
-const authMiddleware = createAuthMiddleware(authService)
-const optionalAuthMiddleware = createOptionalAuthMiddleware(authService)
+const authMiddleware = createAuthMiddleware(authService, sessionService, userRepository)
+const optionalAuthMiddleware = createOptionalAuthMiddleware(authService, sessionService, userRepository)
 
 // ============================================================================
 // ROUTE SETUP
@@ -84,19 +246,36 @@ app.get('/health', (_req, res) => {
   res.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
-    version: '2.2.0'
+    version: '2.16.0'
   })
 })
 
 // Configuration endpoint
 app.use('/api/config', configRouter)
 
+// WebFinger discovery for ActivityPub federation
+app.use('/.well-known', createWebFingerRouter({
+  webFingerService
+}))
+
 // Authentication routes
 app.use('/auth', createAuthRouter({
   authController,
   authMiddleware
 }))
 
+// ActivityPub actor documents share /users/:username with the JSON API
+// and only answer requests that ask for application/activity+json
+app.use('/users', createActivityPubRouter({
+  activityPubService,
+  inboxService,
+  outboxService,
+  remoteActorService
+}))
+
+// Avatars, read from the storage provider
+app.get('/uploads/avatars/:filename', (req, res) => userController.getAvatar(req, res))
+
 // User routes
 app.use('/users', createUsersRouter({
   userController,
@@ -115,6 +294,20 @@ app.use('/posts', createPostsRouter({
 
 // Media upload routes
 app.use('/media', createMediaRouter({
+  mediaController,
+  authMiddleware,
+  optionalAuthMiddleware
+}))
+
+// The caller's rate limits and how much of each is left
+app.use('/rate-limit-status', createRateLimitRouter({
+  rateLimitController,
+  optionalAuthMiddleware
+}))
+
+// The signed-in creator's dashboard analytics
+app.use('/analytics', createAnalyticsRouter({
+  analyticsController,
   authMiddleware
 }))
 
@@ -122,7 +315,21 @@ app.use('/media', createMediaRouter({
 app.use('/reports', createReportsRouter({
   reportController,
   authMiddleware,
-  optionalAuthMiddleware
+  optionalAuthMiddleware,
+  moderationController
+}))
+
+// Account standing, moderation action reversal, the creator moderation dashboard and the staff queue
+app.use('/moderation', createModerationRouter({
+  moderationController,
+  moderationDashboardController,
+  authMiddleware
+}))
+
+// Admin routes
+app.use('/admin', createAdminRouter({
+  adminController,
+  authMiddleware
 }))
 
 // ============================================================================
@@ -145,14 +352,27 @@ app.listen(PORT, () => {
   console.log(`🔧 Environment: ${process.env['NODE_ENV'] || 'development'}`)
   console.log('✅ Routes mounted:')
   console.log('   - /api/config (application configuration)')
+  console.log('   - /.well-known/webfinger (federation discovery)')
   console.log('   - /auth/* (authentication)')
   console.log('   - /users/* (user management)')
   console.log('   - /posts/* (post operations)')
   console.log('   - /media/* (file uploads)')
   console.log('   - /reports/* (content moderation)')
+  console.log('   - /moderation/* (account standing and moderation dashboard)')
+  console.log('   - /rate-limit-status (rate limits for the caller)')
+  console.log('   - /analytics/* (creator dashboard analytics)')
+  console.log('   - /admin/* (role and rate limit management)')
   console.log('✅ Rate limiting applied to all critical routes')
+
+  // Deliver queued ActivityPub activities, publish scheduled posts, remove orphaned uploads,
+  // transcode videos and roll up daily analytics in the background
+  deliveryQueue.start()
+  postScheduler.start()
+  mediaCleanupJob.start()
+  videoProcessingJob.start()
+  analyticsRollupJob.start()
 })
 
 // Path: backend/src/index.ts
-// Version: 2.2.0
-// Added config router for /api/config endpoint
\ No newline at end of file
+// Version: 2.23.0
+// Avatars stored and served through the storage provider; signed media URLs for drafts
\ No newline at end of file
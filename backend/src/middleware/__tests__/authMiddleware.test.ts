@@ -1,5 +1,5 @@
 // backend/src/middleware/__tests__/authMiddleware.test.ts
-// Version: 1.1.0 - Removed all TypeScript "any" types
+// Version: 1.4.0 - Added suspended account tests
 // Changed: Replaced all "any" with proper TypeScript types for type safety
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
@@ -155,6 +155,56 @@ describe('Authentication Middleware', () => {
         expect(mockAuthService.extractTokenFromHeader).toHaveBeenCalled()
         expect(mockNext).toHaveBeenCalled()
       })
+
+      it('should copy a known role claim and ignore unknown ones', async () => {
+        mockReq.headers.authorization = `Bearer ${validToken}`
+        mockAuthService.extractTokenFromHeader.mockReturnValue(validToken)
+        mockAuthService.verifyToken.mockReturnValueOnce({ ...mockDecodedToken, role: 'moderator' })
+
+        await authMiddleware(mockReq as Request, mockRes as Response, mockNext)
+
+        expect(mockReq.user).toMatchObject({ id: 'user123', role: 'moderator' })
+
+        mockAuthService.verifyToken.mockReturnValueOnce({ ...mockDecodedToken, role: 'superuser' })
+
+        await authMiddleware(mockReq as Request, mockRes as Response, mockNext)
+
+        expect(mockReq.user).not.toHaveProperty('role')
+      })
+    })
+
+    describe('Suspended Accounts', () => {
+      it('should reject a suspended user with 403', async () => {
+        const accountChecker = { isActive: vi.fn().mockResolvedValue(false) }
+        const middleware = createAuthMiddleware(mockAuthService, undefined, accountChecker)
+        mockReq.headers.authorization = `Bearer ${validToken}`
+        mockAuthService.extractTokenFromHeader.mockReturnValue(validToken)
+        mockAuthService.verifyToken.mockReturnValue(mockDecodedToken)
+
+        await middleware(mockReq as Request, mockRes as Response, mockNext)
+
+        expect(accountChecker.isActive).toHaveBeenCalledWith('user123')
+        expect(mockRes.status).toHaveBeenCalledWith(403)
+        expect(mockRes.json).toHaveBeenCalledWith({
+          success: false,
+          error: 'Account is suspended',
+          code: 'ACCOUNT_SUSPENDED'
+        })
+        expect(mockNext).not.toHaveBeenCalled()
+      })
+
+      it('should treat a suspended user as anonymous in optional auth', async () => {
+        const accountChecker = { isActive: vi.fn().mockResolvedValue(false) }
+        const middleware = createOptionalAuthMiddleware(mockAuthService, undefined, accountChecker)
+        mockReq.headers.authorization = `Bearer ${validToken}`
+        mockAuthService.extractTokenFromHeader.mockReturnValue(validToken)
+        mockAuthService.verifyToken.mockReturnValue(mockDecodedToken)
+
+        await middleware(mockReq as Request, mockRes as Response, mockNext)
+
+        expect(mockReq.user).toBeUndefined()
+        expect(mockNext).toHaveBeenCalledWith()
+      })
     })
 
     describe('Missing Authentication', () => {
@@ -495,4 +545,63 @@ describe('Authentication Middleware', () => {
       expect(req2.user).toBeUndefined()
     })
   })
-})
\ No newline at end of file
+
+  describe('Session Revocation', () => {
+    let mockSessionChecker: { isSessionActive: ReturnType<typeof vi.fn> }
+
+    beforeEach(() => {
+      mockSessionChecker = {
+        isSessionActive: vi.fn().mockResolvedValue(true)
+      }
+      authMiddleware = createAuthMiddleware(mockAuthService, mockSessionChecker)
+      optionalAuthMiddleware = createOptionalAuthMiddleware(mockAuthService, mockSessionChecker)
+      mockReq.headers.authorization = `Bearer ${validToken}`
+      mockAuthService.extractTokenFromHeader.mockReturnValue(validToken)
+    })
+
+    it('should attach the session id for active sessions', async () => {
+      mockAuthService.verifyToken.mockReturnValue({ ...mockDecodedToken, jti: 'session1' })
+
+      await authMiddleware(mockReq as Request, mockRes as Response, mockNext)
+
+      expect(mockSessionChecker.isSessionActive).toHaveBeenCalledWith('session1')
+      expect(mockReq.user).toEqual({ ...mockUser, sessionId: 'session1' })
+      expect(mockNext).toHaveBeenCalledWith()
+    })
+
+    it('should return 401 when the session was revoked', async () => {
+      mockAuthService.verifyToken.mockReturnValue({ ...mockDecodedToken, jti: 'session1' })
+      mockSessionChecker.isSessionActive.mockResolvedValue(false)
+
+      await authMiddleware(mockReq as Request, mockRes as Response, mockNext)
+
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Session has been revoked'
+      })
+      expect(mockNext).not.toHaveBeenCalled()
+      expect(mockReq.user).toBeUndefined()
+    })
+
+    it('should reject tokens without a session id', async () => {
+      mockAuthService.verifyToken.mockReturnValue(mockDecodedToken)
+
+      await authMiddleware(mockReq as Request, mockRes as Response, mockNext)
+
+      expect(mockSessionChecker.isSessionActive).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+      expect(mockNext).not.toHaveBeenCalled()
+    })
+
+    it('should continue anonymously on optional routes when the session was revoked', async () => {
+      mockAuthService.verifyToken.mockReturnValue({ ...mockDecodedToken, jti: 'session1' })
+      mockSessionChecker.isSessionActive.mockResolvedValue(false)
+
+      await optionalAuthMiddleware(mockReq as Request, mockRes as Response, mockNext)
+
+      expect(mockReq.user).toBeUndefined()
+      expect(mockNext).toHaveBeenCalledWith()
+    })
+  })
+})
@@ -1,11 +1,13 @@
 // backend/src/middleware/__tests__/rateLimitMiddleware.test.ts
-// Version: 6.0.0 - Fixed TypeScript errors by correcting import structure and property access
+// Version: 6.2.1 - Added limiters that only count failed requests
+// Changed: Skipped outcomes are refunded, so concurrent requests are held to the limit
 // Fixed: Updated rateLimitConfig access to use DEFAULT_CONFIGS and corrected property names
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import express, { Application } from 'express'
 import request, { Response } from 'supertest'
-import rateLimitConfig from '../rateLimitMiddleware'
+import rateLimitConfig, { createRateLimit, RateLimitConfig } from '../rateLimitMiddleware'
+import { MemoryRateLimitStore } from '../../services/RateLimitStore'
 
 /**
  * Helper function to create Express app with rate limiting middleware
@@ -493,6 +495,7 @@ describe('Rate Limiting Middleware', () => {
       // Fixed: Access configurations through DEFAULT_CONFIGS property
       expect(rateLimitConfig.DEFAULT_CONFIGS.auth.max).toBe(5)
       expect(rateLimitConfig.DEFAULT_CONFIGS.auth.windowMs).toBe(60 * 1000) // 1 minute
+      expect(rateLimitConfig.DEFAULT_CONFIGS.auth.skipSuccessfulRequests).toBe(true)
       
       expect(rateLimitConfig.DEFAULT_CONFIGS.postCreation.max).toBe(10)
       expect(rateLimitConfig.DEFAULT_CONFIGS.postCreation.windowMs).toBe(60 * 1000) // 1 minute
@@ -534,4 +537,120 @@ describe('Rate Limiting Middleware', () => {
       expect(rateLimitConfig.generalRateLimit).toBeDefined()
     })
   })
-})
\ No newline at end of file
+
+  describe('Store-backed limiters', () => {
+    /**
+     * App limited by createRateLimit; the x-client header stands in for the client IP
+     */
+    const createStoreApp = (config: Partial<RateLimitConfig>, store: MemoryRateLimitStore) => {
+      const app = express()
+      app.use(createRateLimit({
+        windowMs: 60 * 1000,
+        max: 2,
+        keyGenerator: (req) => req.get('x-client') ?? 'anonymous',
+        store,
+        ...config
+      }))
+      app.get('/test', (req, res) => res.json({ success: true }))
+      app.get('/fail', (req, res) => res.status(401).json({ success: false }))
+      return app
+    }
+
+    it('should answer 429 with Retry-After once the limit is used', async () => {
+      const app = createStoreApp({ prefix: 'test', message: 'Slow down' }, new MemoryRateLimitStore())
+
+      const first = await request(app).get('/test').set('x-client', 'a')
+      await request(app).get('/test').set('x-client', 'a')
+      const limited = await request(app).get('/test').set('x-client', 'a')
+
+      expect(first.status).toBe(200)
+      expect(first.headers['ratelimit-limit']).toBe('2')
+      expect(first.headers['ratelimit-remaining']).toBe('1')
+      expect(limited.status).toBe(429)
+      expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0)
+      expect(limited.body.error).toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', message: 'Slow down', rateLimitKey: 'a' })
+    })
+
+    it('should share counts between limiters with the same prefix and store', async () => {
+      const store = new MemoryRateLimitStore()
+      const instanceA = createStoreApp({ prefix: 'shared' }, store)
+      const instanceB = createStoreApp({ prefix: 'shared' }, store)
+      const otherPolicy = createStoreApp({ prefix: 'other' }, store)
+
+      await request(instanceA).get('/test').set('x-client', 'a')
+      await request(instanceB).get('/test').set('x-client', 'a')
+
+      expect((await request(instanceA).get('/test').set('x-client', 'a')).status).toBe(429)
+      expect((await request(otherPolicy).get('/test').set('x-client', 'a')).status).toBe(200)
+    })
+
+    it('should let a burst through and refill with the token bucket algorithm', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      try {
+        const app = createStoreApp({ prefix: 'bucket', algorithm: 'token-bucket' }, new MemoryRateLimitStore())
+
+        await request(app).get('/test').set('x-client', 'a')
+        await request(app).get('/test').set('x-client', 'a')
+        const limited = await request(app).get('/test').set('x-client', 'a')
+        vi.advanceTimersByTime(30 * 1000)
+        const refilled = await request(app).get('/test').set('x-client', 'a')
+
+        expect(limited.status).toBe(429)
+        expect(limited.headers['retry-after']).toBe('30')
+        expect(refilled.status).toBe(200)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should only count failed requests when successful ones are skipped', async () => {
+      const app = createStoreApp({ prefix: 'failures', skipSuccessfulRequests: true }, new MemoryRateLimitStore())
+
+      await request(app).get('/test').set('x-client', 'a')
+      await request(app).get('/test').set('x-client', 'a')
+      await request(app).get('/test').set('x-client', 'a')
+      const firstFailure = await request(app).get('/fail').set('x-client', 'a')
+      await request(app).get('/fail').set('x-client', 'a')
+      const limited = await request(app).get('/test').set('x-client', 'a')
+
+      expect(firstFailure.status).toBe(401)
+      expect(firstFailure.headers['ratelimit-remaining']).toBe('1')
+      expect(limited.status).toBe(429)
+      expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0)
+    })
+
+    it('should only count successful requests when failed ones are skipped', async () => {
+      const app = createStoreApp({ prefix: 'successes', skipFailedRequests: true }, new MemoryRateLimitStore())
+
+      await request(app).get('/fail').set('x-client', 'a')
+      await request(app).get('/fail').set('x-client', 'a')
+      await request(app).get('/fail').set('x-client', 'a')
+
+      expect((await request(app).get('/test').set('x-client', 'a')).status).toBe(200)
+      expect((await request(app).get('/test').set('x-client', 'a')).status).toBe(200)
+      expect((await request(app).get('/test').set('x-client', 'a')).status).toBe(429)
+    })
+
+    it('should hold concurrent requests to the limit when successful ones are skipped', async () => {
+      const app = createStoreApp({ prefix: 'parallel', skipSuccessfulRequests: true }, new MemoryRateLimitStore())
+
+      const responses = await Promise.all(
+        Array.from({ length: 5 }, () => request(app).get('/fail').set('x-client', 'a'))
+      )
+      const statuses = responses.map(response => response.status)
+
+      expect(statuses.filter(status => status === 401)).toHaveLength(2)
+      expect(statuses.filter(status => status === 429)).toHaveLength(3)
+    })
+
+    it('should let requests through when the store fails', async () => {
+      const store = new MemoryRateLimitStore()
+      vi.spyOn(store, 'consume').mockRejectedValue(new Error('connection lost'))
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const response = await request(createStoreApp({}, store)).get('/test')
+
+      expect(response.status).toBe(200)
+    })
+  })
+})
@@ -0,0 +1,69 @@
+// backend/src/middleware/__tests__/roleMiddleware.test.ts
+// Unit tests for requireRole middleware
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Request, Response, NextFunction } from 'express'
+import { requireRole } from '../roleMiddleware'
+
+describe('requireRole', () => {
+  let mockRes: { status: ReturnType<typeof vi.fn>, json: ReturnType<typeof vi.fn> }
+  let mockNext: NextFunction
+
+  /**
+   * Build a request carrying the given user
+   */
+  function requestFor(user?: Request['user']): Request {
+    return { user } as Request
+  }
+
+  beforeEach(() => {
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis()
+    }
+    mockNext = vi.fn()
+  })
+
+  it('should let through a user holding one of the roles', () => {
+    const middleware = requireRole('moderator', 'admin')
+
+    middleware(requestFor({ id: 'mod1', email: 'mod@example.com', username: 'mod', role: 'moderator' }), mockRes as unknown as Response, mockNext)
+
+    expect(mockNext).toHaveBeenCalled()
+    expect(mockRes.status).not.toHaveBeenCalled()
+  })
+
+  it('should reject a user with a lower role', () => {
+    const middleware = requireRole('admin')
+
+    middleware(requestFor({ id: 'mod1', email: 'mod@example.com', username: 'mod', role: 'moderator' }), mockRes as unknown as Response, mockNext)
+
+    expect(mockNext).not.toHaveBeenCalled()
+    expect(mockRes.status).toHaveBeenCalledWith(403)
+    expect(mockRes.json).toHaveBeenCalledWith({
+      success: false,
+      error: {
+        code: 'AUTHORIZATION_FAILED',
+        message: 'You do not have permission to perform this action'
+      }
+    })
+  })
+
+  it('should treat a token without a role claim as a plain user', () => {
+    const middleware = requireRole('moderator', 'admin')
+
+    middleware(requestFor({ id: 'user1', email: 'user@example.com', username: 'user' }), mockRes as unknown as Response, mockNext)
+
+    expect(mockNext).not.toHaveBeenCalled()
+    expect(mockRes.status).toHaveBeenCalledWith(403)
+  })
+
+  it('should require authentication first', () => {
+    const middleware = requireRole('admin')
+
+    middleware(requestFor(), mockRes as unknown as Response, mockNext)
+
+    expect(mockNext).not.toHaveBeenCalled()
+    expect(mockRes.status).toHaveBeenCalledWith(401)
+  })
+})
@@ -0,0 +1,151 @@
+// backend/src/middleware/activityPubMiddleware.ts
+// Version: 1.1.0 - Added ActivityStreams body parsing and HTTP Signature verification for inboxes
+
+import express, { Request, Response, NextFunction, RequestHandler } from 'express'
+import { RemoteActorService } from '../services/RemoteActorService'
+import {
+  parseSignatureHeader,
+  verifySignature,
+  verifyDigest,
+  isSignatureDateFresh
+} from '../utils/httpSignature'
+import { MAX_ACTIVITY_SIZE } from '../utils/constants'
+
+/**
+ * ActivityStreams profile accepted alongside application/ld+json
+ */
+const ACTIVITYSTREAMS_PROFILE = 'https://www.w3.org/ns/activitystreams'
+
+/**
+ * Request with the unparsed body kept for Digest verification
+ */
+interface RawBodyRequest extends Request {
+  rawBody?: Buffer
+}
+
+/**
+ * Check whether a request asks for an ActivityPub representation
+ * Matches application/activity+json and the ld+json ActivityStreams profile
+ * @param req - Express request
+ * @returns True if the Accept header requests ActivityStreams JSON
+ */
+export function acceptsActivityJson(req: Request): boolean {
+  const accept = (req.headers['accept'] || '').toLowerCase()
+
+  if (accept.includes('application/activity+json')) {
+    return true
+  }
+
+  return accept.includes('application/ld+json') && accept.includes(ACTIVITYSTREAMS_PROFILE)
+}
+
+/**
+ * Only continue to the ActivityPub handler when ActivityStreams JSON was requested
+ * Other requests skip to the next matching route, so actor URIs can share
+ * paths with the regular JSON API
+ */
+export const requireActivityJson = (req: Request, _res: Response, next: NextFunction): void => {
+  if (!acceptsActivityJson(req)) {
+    next('route')
+    return
+  }
+
+  next()
+}
+
+/**
+ * Parse ActivityStreams JSON bodies and keep the raw bytes for Digest checks
+ * The app-wide JSON parser only handles application/json
+ */
+export const parseActivityJson: RequestHandler = express.json({
+  type: ['application/activity+json', 'application/ld+json'],
+  limit: MAX_ACTIVITY_SIZE,
+  verify: (req, _res, buf) => {
+    (req as RawBodyRequest).rawBody = buf
+  }
+})
+
+/**
+ * Send a 401 response for a rejected signature
+ * @param res - Express response
+ * @param code - Error code
+ * @param message - Error message
+ */
+function rejectSignature(res: Response, code: string, message: string): void {
+  res.status(401).json({
+    success: false,
+    error: {
+      code,
+      message
+    }
+  })
+}
+
+/**
+ * Create middleware that verifies HTTP Signatures on inbox deliveries
+ * On success the signing actor's URI is stored in res.locals.signedActorId
+ * @param remoteActorService - Service used to fetch the sender's public key
+ * @returns Express middleware
+ */
+export function createHttpSignatureMiddleware(remoteActorService: RemoteActorService): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const signatureHeader = req.headers['signature']
+    if (typeof signatureHeader !== 'string') {
+      rejectSignature(res, 'SIGNATURE_REQUIRED', 'Request must carry an HTTP Signature')
+      return
+    }
+
+    const signature = parseSignatureHeader(signatureHeader)
+    if (!signature) {
+      rejectSignature(res, 'INVALID_SIGNATURE', 'Malformed Signature header')
+      return
+    }
+
+    // Without these the signature could be replayed against another path or body
+    const required = ['(request-target)', 'host', 'date', 'digest']
+    const missing = required.filter(header => !signature.headers.includes(header))
+    if (missing.length > 0) {
+      rejectSignature(res, 'INVALID_SIGNATURE', `Signature must cover: ${missing.join(', ')}`)
+      return
+    }
+
+    const dateHeader = req.headers['date']
+    if (!dateHeader || !isSignatureDateFresh(dateHeader)) {
+      rejectSignature(res, 'SIGNATURE_EXPIRED', 'Date header is missing or outside the accepted window')
+      return
+    }
+
+    const rawBody = (req as RawBodyRequest).rawBody || Buffer.alloc(0)
+    const digestHeader = req.headers['digest']
+    if (typeof digestHeader !== 'string' || !verifyDigest(digestHeader, rawBody)) {
+      rejectSignature(res, 'DIGEST_MISMATCH', 'Digest header does not match the request body')
+      return
+    }
+
+    const verifyWith = (publicKeyPem: string): boolean => verifySignature({
+      method: req.method,
+      path: req.originalUrl,
+      headers: req.headers,
+      signature,
+      publicKeyPem
+    })
+
+    try {
+      let publicKey = await remoteActorService.getPublicKey(signature.keyId)
+
+      // The actor may have rotated keys since we cached them
+      if (!verifyWith(publicKey.publicKeyPem)) {
+        publicKey = await remoteActorService.getPublicKey(signature.keyId, true)
+        if (!verifyWith(publicKey.publicKeyPem)) {
+          rejectSignature(res, 'INVALID_SIGNATURE', 'Signature verification failed')
+          return
+        }
+      }
+
+      res.locals['signedActorId'] = publicKey.owner
+      next()
+    } catch (error) {
+      rejectSignature(res, 'ACTOR_KEY_UNAVAILABLE', 'Could not fetch the signing actor\'s public key')
+    }
+  }
+}
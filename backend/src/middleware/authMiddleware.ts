@@ -0,0 +1,169 @@
+// backend/src/middleware/authMiddleware.ts
+// Express middleware for JWT token authentication using TypeScript
+// Checks session-bound tokens against the session store so revoked sessions are rejected
+// Copies the role claim onto req.user for requireRole
+// Rejects suspended accounts when given an account checker
+
+import { Request, Response, NextFunction } from 'express'
+import { isUserRole, UserRole } from '../models/User'
+
+// Extend Express Request to include user from auth middleware
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string
+    email: string
+    username: string
+    sessionId?: string
+    role?: UserRole
+  }
+}
+
+// Auth service interface
+interface AuthService {
+  extractTokenFromHeader(header: string): string | null
+  verifyToken(token: string): {
+    userId: string
+    email: string
+    username: string
+    role?: string
+    jti?: string
+  }
+}
+
+// Session store interface, used to reject tokens whose session was revoked
+interface SessionChecker {
+  isSessionActive(sessionId: string): Promise<boolean>
+}
+
+// Account lookup interface, used to reject suspended users
+interface AccountChecker {
+  isActive(userId: string): Promise<boolean>
+}
+
+/**
+ * Check that a decoded token's session is still active
+ * Without a session checker every valid token is accepted.
+ * With one, tokens must carry a jti naming an active session.
+ */
+async function isTokenSessionActive(
+  decoded: { jti?: string },
+  sessionChecker?: SessionChecker
+): Promise<boolean> {
+  if (!sessionChecker) {
+    return true
+  }
+
+  if (!decoded.jti) {
+    return false
+  }
+
+  return await sessionChecker.isSessionActive(decoded.jti)
+}
+
+/**
+ * Authentication middleware factory
+ * Creates middleware function with injected AuthService,
+ * an optional session checker for revocation and an optional
+ * account checker for suspension
+ */
+export function createAuthMiddleware(
+  authService: AuthService,
+  sessionChecker?: SessionChecker,
+  accountChecker?: AccountChecker
+) {
+  /**
+   * Express middleware to authenticate requests
+   * Extracts and verifies JWT token, adds user info to request
+   */
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      // Extract token from Authorization header
+      const authHeader = req.headers.authorization
+      const token = authService.extractTokenFromHeader(authHeader || '')
+
+      if (!token) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication token required'
+        })
+        return
+      }
+
+      // Verify token and extract user information
+      const decoded = authService.verifyToken(token)
+
+      // Reject tokens whose session was logged out or revoked
+      if (!(await isTokenSessionActive(decoded, sessionChecker))) {
+        res.status(401).json({
+          success: false,
+          error: 'Session has been revoked'
+        })
+        return
+      }
+
+      // Suspension revokes sessions too, but tokens without a session need this check
+      if (accountChecker && !(await accountChecker.isActive(decoded.userId))) {
+        res.status(403).json({
+          success: false,
+          error: 'Account is suspended',
+          code: 'ACCOUNT_SUSPENDED'
+        })
+        return
+      }
+      
+      // Add user information to request object
+      req.user = {
+        id: decoded.userId,
+        email: decoded.email,
+        username: decoded.username,
+        ...(decoded.jti ? { sessionId: decoded.jti } : {}),
+        ...(isUserRole(decoded.role) ? { role: decoded.role } : {})
+      }
+
+      next()
+    } catch (error) {
+      res.status(401).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid authentication token'
+      })
+    }
+  }
+}
+
+/**
+ * Optional authentication middleware
+ * Similar to auth middleware but doesn't fail if no token is provided
+ * Suspended users continue as anonymous
+ */
+export function createOptionalAuthMiddleware(
+  authService: AuthService,
+  sessionChecker?: SessionChecker,
+  accountChecker?: AccountChecker
+) {
+  return async (req: AuthenticatedRequest, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const authHeader = req.headers.authorization
+      const token = authService.extractTokenFromHeader(authHeader || '')
+
+      if (token) {
+        const decoded = authService.verifyToken(token)
+        const isActive = await isTokenSessionActive(decoded, sessionChecker) &&
+          (!accountChecker || await accountChecker.isActive(decoded.userId))
+        if (isActive) {
+          req.user = {
+            id: decoded.userId,
+            email: decoded.email,
+            username: decoded.username,
+            ...(decoded.jti ? { sessionId: decoded.jti } : {}),
+            ...(isUserRole(decoded.role) ? { role: decoded.role } : {})
+          }
+        }
+      }
+
+      next()
+    } catch (error) {
+      // For optional auth, continue without user info if token is invalid
+      next()
+    }
+  }
+}
\ No newline at end of file
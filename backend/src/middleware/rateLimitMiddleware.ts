@@ -1,8 +1,25 @@
 // src/middleware/rateLimitMiddleware.ts
-// Version: 1.0.0
-// Initial implementation of rate limiting middleware
+// Version: 2.2.1
+// Rate limiting backed by a pluggable RateLimitStore
+// Changed: skipSuccessfulRequests and skipFailedRequests count requests once they finish; added report policies
+// Changed: Skipped outcomes are counted up front and refunded, so concurrent requests cannot pass the limit together
 
 import { Request, Response, NextFunction } from 'express'
+import {
+  RATE_LIMIT_POLICIES,
+  RateLimitAlgorithm,
+  RateLimitPolicy,
+  RateLimitPolicyName,
+  UserRateLimitPolicyName,
+  getRateLimitSettings,
+  isUserRateLimitPolicy
+} from '../config/rateLimit'
+import {
+  MemoryRateLimitStore,
+  RateLimitRule,
+  RateLimitResult,
+  RateLimitStore
+} from '../services/RateLimitStore'
 
 // Interface for rate limit request
 interface RateLimitRequest extends Request {
@@ -19,79 +36,143 @@ export interface RateLimitConfig {
   windowMs: number // Time window in milliseconds
   max: number // Maximum number of requests per window
   keyGenerator?: (req: RateLimitRequest) => string // Custom key generator
-  skipSuccessfulRequests?: boolean // Skip counting successful requests
-  skipFailedRequests?: boolean // Skip counting failed requests
+  skipSuccessfulRequests?: boolean // Skip counting responses below 400
+  skipFailedRequests?: boolean // Skip counting responses of 400 and above
   standardHeaders?: boolean // Include rate limit headers
   legacyHeaders?: boolean // Include legacy X-RateLimit headers
+  prefix?: string // Namespace for keys; limiters with the same prefix share counts
+  algorithm?: RateLimitAlgorithm // Defaults to RATE_LIMIT_ALGORITHM
+  store?: RateLimitStore // Defaults to the store set with setRateLimitStore
+  message?: string // Message sent with 429 responses
+  policy?: RateLimitPolicyName // Per-user policies scale with the signed-in user's tier and overrides
 }
 
+// Looks up the limit that applies to a signed-in user for a per-user policy
+type RateLimitResolver = (userId: string, policy: UserRateLimitPolicyName) => Promise<RateLimitPolicy>
+
 // Rate limit error types
 export enum RateLimitError {
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   INVALID_RATE_LIMIT_CONFIG = 'INVALID_RATE_LIMIT_CONFIG'
 }
 
-// In-memory store for rate limiting (in production, use Redis)
-interface RateLimitStore {
-  [key: string]: {
-    count: number
-    resetTime: number
-  }
-}
+// Store used by limiters that are not given one; replaced at startup when
+// RATE_LIMIT_STORE selects a shared store
+let defaultStore: RateLimitStore = new MemoryRateLimitStore()
 
-const rateLimitStore: RateLimitStore = {}
+// Per-user limits; without one every user gets the policy's default limit
+let limitResolver: RateLimitResolver | null = null
 
-// Default rate limit configurations
+// Default rate limit configurations, with limits from RATE_LIMIT_POLICIES
 export const DEFAULT_CONFIGS = {
-  // Authentication endpoints (login, register)
+  // Authentication endpoints (login, register); only failed attempts count
   auth: {
-    windowMs: 60 * 1000, // 1 minute
-    max: 5, // 5 attempts per minute
+    ...RATE_LIMIT_POLICIES.auth,
+    prefix: 'auth',
+    policy: 'auth' as const,
     keyGenerator: (req: RateLimitRequest): string => req.ip,
+    skipSuccessfulRequests: true,
+    message: 'Too many authentication attempts, please try again later',
     standardHeaders: true
   },
-  
+
   // Post creation
   postCreation: {
-    windowMs: 60 * 1000, // 1 minute
-    max: 10, // 10 posts per minute
+    ...RATE_LIMIT_POLICIES.postCreation,
+    prefix: 'postCreation',
+    policy: 'postCreation' as const,
     keyGenerator: (req: RateLimitRequest): string => req.user?.id || req.ip,
     standardHeaders: true
   },
-  
+
   // Media upload
   mediaUpload: {
-    windowMs: 60 * 1000, // 1 minute
-    max: 10, // 10 uploads per minute
+    ...RATE_LIMIT_POLICIES.mediaUpload,
+    prefix: 'mediaUpload',
+    policy: 'mediaUpload' as const,
     keyGenerator: (req: RateLimitRequest): string => req.user?.id || req.ip,
     standardHeaders: true
   },
-  
+
   // Follow operations
   followOperations: {
-    windowMs: 60 * 60 * 1000, // 1 hour
-    max: 20, // 20 follow/unfollow operations per hour
+    ...RATE_LIMIT_POLICIES.followOperations,
+    prefix: 'followOperations',
+    policy: 'followOperations' as const,
     keyGenerator: (req: RateLimitRequest): string => req.user?.id || req.ip,
     standardHeaders: true
   },
-  
+
   // General API
   general: {
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    max: 100, // 100 requests per 15 minutes
+    ...RATE_LIMIT_POLICIES.general,
+    prefix: 'general',
+    policy: 'general' as const,
     keyGenerator: (req: RateLimitRequest): string => req.user?.id || req.ip,
     standardHeaders: true
+  },
+
+  // Report submission, before authentication so federated reporters are counted too
+  reportCreation: {
+    ...RATE_LIMIT_POLICIES.reportCreation,
+    prefix: 'reportCreation',
+    policy: 'reportCreation' as const,
+    keyGenerator: (req: RateLimitRequest): string => req.ip,
+    message: 'Too many reports submitted. Please try again later.',
+    standardHeaders: true
+  },
+
+  // Report moderation, before authentication
+  reportManagement: {
+    ...RATE_LIMIT_POLICIES.reportManagement,
+    prefix: 'reportManagement',
+    policy: 'reportManagement' as const,
+    keyGenerator: (req: RateLimitRequest): string => req.ip,
+    message: 'Too many moderation requests. Please try again later.',
+    standardHeaders: true
   }
 }
 
-// Clean up expired entries from rate limit store
-const cleanupExpiredEntries = (): void => {
-  const now = Date.now()
-  for (const key in rateLimitStore) {
-    const entry = rateLimitStore[key]
-    if (entry && entry.resetTime <= now) {
-      delete rateLimitStore[key]
-    }
+// Set the store used by limiters that are not given one
+export const setRateLimitStore = (store: RateLimitStore): void => {
+  defaultStore = store
+}
+
+// Get the store used by limiters that are not given one
+export const getRateLimitStore = (): RateLimitStore => defaultStore
+
+// Set how per-user limits are looked up, or null to use policy defaults
+export const setRateLimitResolver = (resolver: RateLimitResolver | null): void => {
+  limitResolver = resolver
+}
+
+// Work out the limit for a request: the user's own for per-user policies, else the configured one
+const resolveLimit = async (config: RateLimitConfig, req: RateLimitRequest): Promise<RateLimitPolicy> => {
+  if (config.policy && isUserRateLimitPolicy(config.policy) && req.user && limitResolver) {
+    return await limitResolver(req.user.id, config.policy)
+  }
+
+  return { windowMs: config.windowMs, max: config.max }
+}
+
+// Set standard and legacy rate limit headers from a result
+const setRateLimitHeaders = (res: Response, config: RateLimitConfig, result: RateLimitResult, now: number): void => {
+  const reset = Math.ceil((now + result.resetMs) / 1000).toString()
+
+  if (config.standardHeaders !== false) {
+    res.set({
+      'RateLimit-Limit': result.limit.toString(),
+      'RateLimit-Remaining': result.remaining.toString(),
+      'RateLimit-Reset': reset
+    })
+  }
+
+  if (config.legacyHeaders) {
+    res.set({
+      'X-RateLimit-Limit': result.limit.toString(),
+      'X-RateLimit-Remaining': result.remaining.toString(),
+      'X-RateLimit-Reset': reset
+    })
   }
 }
 
@@ -101,7 +182,7 @@ export const createRateLimit = (config: RateLimitConfig) => {
   if (!config.windowMs || config.windowMs <= 0) {
     throw new Error('windowMs must be a positive number')
   }
-  
+
   if (!config.max || config.max <= 0) {
     throw new Error('max must be a positive number')
   }
@@ -110,57 +191,37 @@ export const createRateLimit = (config: RateLimitConfig) => {
   const keyGenerator = config.keyGenerator || ((req: RateLimitRequest): string => {
     return req.user?.id || req.ip
   })
+  const prefix = config.prefix ?? `${config.max}:${config.windowMs}`
+  // Limiters that skip some outcomes still count each request up front and give it back once it finishes
+  const refundsSkipped = config.skipSuccessfulRequests === true || config.skipFailedRequests === true
 
-  return (req: RateLimitRequest, res: Response, next: NextFunction): void => {
+  // Typed as a plain Express handler so routes can use it without casts
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      // Clean up expired entries periodically
-      if (Math.random() < 0.01) { // 1% chance to clean up
-        cleanupExpiredEntries()
-      }
-
-      const key = keyGenerator(req)
+      const key = keyGenerator(req as RateLimitRequest)
       const now = Date.now()
-      const windowStart = now
-      const resetTime = windowStart + config.windowMs
-
-      // Get or create rate limit entry
-      let entry = rateLimitStore[key]
-      
-      if (!entry || entry.resetTime <= now) {
-        // Create new entry or reset expired entry
-        entry = {
-          count: 0,
-          resetTime
-        }
-        rateLimitStore[key] = entry
+      // Resolved per request, so the store and resolver set at startup apply to limiters created at import
+      const rule: RateLimitRule = {
+        ...await resolveLimit(config, req as RateLimitRequest),
+        algorithm: config.algorithm ?? getRateLimitSettings().algorithm
       }
 
-      // Check if limit exceeded
-      if (entry.count >= config.max) {
-        const retryAfter = Math.ceil((entry.resetTime - now) / 1000)
-        
-        // Set rate limit headers
-        if (config.standardHeaders !== false) {
-          res.set({
-            'RateLimit-Limit': config.max.toString(),
-            'RateLimit-Remaining': '0',
-            'RateLimit-Reset': Math.ceil(entry.resetTime / 1000).toString()
-          })
-        }
+      const store = config.store ?? defaultStore
+      const bucketKey = `${prefix}:${key}`
 
-        if (config.legacyHeaders) {
-          res.set({
-            'X-RateLimit-Limit': config.max.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': Math.ceil(entry.resetTime / 1000).toString()
-          })
-        }
+      const result = await store.consume(bucketKey, rule, now)
+      setRateLimitHeaders(res, config, result, now)
+
+      // Check if limit exceeded
+      if (!result.allowed) {
+        const retryAfter = Math.ceil(result.retryAfterMs / 1000)
+        res.set('Retry-After', retryAfter.toString())
 
         res.status(429).json({
           success: false,
           error: {
             code: RateLimitError.RATE_LIMIT_EXCEEDED,
-            message: 'Rate limit exceeded',
+            message: config.message ?? 'Rate limit exceeded',
             rateLimitKey: key,
             retryAfter: `${retryAfter} seconds`
           }
@@ -168,23 +229,17 @@ export const createRateLimit = (config: RateLimitConfig) => {
         return
       }
 
-      // Increment counter
-      entry.count++
-
-      // Set rate limit headers
-      if (config.standardHeaders !== false) {
-        res.set({
-          'RateLimit-Limit': config.max.toString(),
-          'RateLimit-Remaining': (config.max - entry.count).toString(),
-          'RateLimit-Reset': Math.ceil(entry.resetTime / 1000).toString()
-        })
-      }
+      if (refundsSkipped) {
+        // Requests still in flight hold their place, so parallel requests cannot all pass the check
+        res.on('finish', () => {
+          const skip = res.statusCode < 400 ? config.skipSuccessfulRequests : config.skipFailedRequests
+          if (!skip) {
+            return
+          }
 
-      if (config.legacyHeaders) {
-        res.set({
-          'X-RateLimit-Limit': config.max.toString(),
-          'X-RateLimit-Remaining': (config.max - entry.count).toString(),
-          'X-RateLimit-Reset': Math.ceil(entry.resetTime / 1000).toString()
+          store.consume(bucketKey, rule, Date.now(), -1).catch(error => {
+            console.error('Rate limit middleware error:', error)
+          })
         })
       }
 
@@ -203,12 +258,14 @@ export const postCreationRateLimit = createRateLimit(DEFAULT_CONFIGS.postCreatio
 export const mediaUploadRateLimit = createRateLimit(DEFAULT_CONFIGS.mediaUpload)
 export const followOperationsRateLimit = createRateLimit(DEFAULT_CONFIGS.followOperations)
 export const generalRateLimit = createRateLimit(DEFAULT_CONFIGS.general)
+export const reportCreationRateLimit = createRateLimit(DEFAULT_CONFIGS.reportCreation)
+export const reportManagementRateLimit = createRateLimit(DEFAULT_CONFIGS.reportManagement)
 
 // Key generator functions for different strategies
 export const keyGenerators = {
   // Rate limit by IP address
   byIP: (req: RateLimitRequest): string => req.ip,
-  
+
   // Rate limit by user ID (requires authentication)
   byUserID: (req: RateLimitRequest): string => {
     if (!req.user?.id) {
@@ -216,10 +273,10 @@ export const keyGenerators = {
     }
     return req.user.id
   },
-  
+
   // Rate limit by user ID if authenticated, otherwise by IP
   byUserOrIP: (req: RateLimitRequest): string => req.user?.id || req.ip,
-  
+
   // Rate limit by a combination of user ID and endpoint
   byUserAndEndpoint: (endpoint: string) => (req: RateLimitRequest): string => {
     const userKey = req.user?.id || req.ip
@@ -241,25 +298,41 @@ export const createCustomRateLimit = (
   })
 }
 
-// Reset rate limit for a specific key (useful for testing)
-export const resetRateLimit = (key: string): void => {
-  delete rateLimitStore[key]
+// Reset rate limit for a specific key, given as "<prefix>:<client key>" (useful for testing)
+export const resetRateLimit = async (key: string): Promise<void> => {
+  await defaultStore.reset(key)
 }
 
-// Reset all rate limits (useful for testing)
-export const resetAllRateLimits = (): void => {
-  for (const key in rateLimitStore) {
-    delete rateLimitStore[key]
-  }
+// Reset all rate limits (useful for testing; only the memory store supports it)
+export const resetAllRateLimits = async (): Promise<void> => {
+  await defaultStore.clear?.()
 }
 
-// Get current rate limit status for a key
-export const getRateLimitStatus = (key: string): { count: number, resetTime: number } | null => {
-  const entry = rateLimitStore[key]
-  if (!entry || entry.resetTime <= Date.now()) {
-    return null
-  }
-  return { ...entry }
+// Get current rate limit status for a key, given as "<prefix>:<client key>", without using it
+export const getRateLimitStatus = async (
+  key: string,
+  config: Pick<RateLimitConfig, 'windowMs' | 'max' | 'algorithm'>
+): Promise<RateLimitResult> => {
+  return await defaultStore.consume(key, {
+    windowMs: config.windowMs,
+    max: config.max,
+    algorithm: config.algorithm ?? getRateLimitSettings().algorithm
+  }, Date.now(), 0)
+}
+
+// Get a request's current status for one of DEFAULT_CONFIGS, without using it
+export const getRequestRateLimitStatus = async (
+  req: Request,
+  name: RateLimitPolicyName
+): Promise<RateLimitResult & RateLimitPolicy> => {
+  const config = DEFAULT_CONFIGS[name]
+  const limit = await resolveLimit(config, req as RateLimitRequest)
+  const result = await defaultStore.consume(`${config.prefix}:${config.keyGenerator(req as RateLimitRequest)}`, {
+    ...limit,
+    algorithm: getRateLimitSettings().algorithm
+  }, Date.now(), 0)
+
+  return { ...result, ...limit }
 }
 
 // Export default rate limit configurations
@@ -270,11 +343,20 @@ export default {
   mediaUploadRateLimit,
   followOperationsRateLimit,
   generalRateLimit,
+  reportCreationRateLimit,
+  reportManagementRateLimit,
   keyGenerators,
   createCustomRateLimit,
   resetRateLimit,
   resetAllRateLimits,
   getRateLimitStatus,
+  getRequestRateLimitStatus,
+  setRateLimitStore,
+  getRateLimitStore,
+  setRateLimitResolver,
   RateLimitError,
   DEFAULT_CONFIGS
-}
\ No newline at end of file
+}
+
+// Export types for use in other files
+export type { RateLimitResolver }
@@ -0,0 +1,41 @@
+// backend/src/middleware/roleMiddleware.ts
+// Express middleware restricting routes to moderators and admins using TypeScript
+// Runs after authMiddleware and reads the role it copied from the access token
+
+import { Request, Response, NextFunction } from 'express'
+import { UserRole } from '../models/User'
+
+/**
+ * Role-based access middleware factory
+ * Tokens without a role claim count as the plain user role
+ * @param roles - Roles allowed through
+ * @returns Express middleware responding 401 without a user and 403 for other roles
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Authentication required'
+        }
+      })
+      return
+    }
+
+    const role = req.user.role ?? 'user'
+    if (!roles.includes(role)) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'AUTHORIZATION_FAILED',
+          message: 'You do not have permission to perform this action'
+        }
+      })
+      return
+    }
+
+    next()
+  }
+}
@@ -1,6 +1,7 @@
 // backend/src/middleware/staticFileSecurityMiddleware.ts
 // Complete implementation of createSecureStaticFileHandler
-// Version: 2.8.0 - Added complete implementation of missing function
+// Version: 2.9.0 - Added complete implementation of missing function
+// Changed: Share path checks and security headers with the media file route
 
 import { Request, Response, NextFunction } from 'express'
 import path from 'path'
@@ -97,6 +98,44 @@ const setSecurityHeaders = (req: Request, res: Response, filename: string): void
   res.setHeader('Cache-Control', 'public, max-age=86400') // 24 hours
 }
 
+/**
+ * Options for the headers of a media file response
+ */
+interface MediaFileHeaderOptions {
+  filename: string
+  downloadName: string
+  download: boolean
+  isPublic: boolean
+}
+
+/**
+ * Build a Content-Disposition header carrying a filename
+ * The quoted name is an ASCII fallback; filename* keeps the original name for current browsers
+ */
+const buildContentDisposition = (disposition: string, downloadName: string): string => {
+  const asciiName = downloadName.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  const encodedName = encodeURIComponent(downloadName).replace(/['()*]/g, char =>
+    `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+
+  return `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodedName}`
+}
+
+/**
+ * Set security and caching headers for a media file response
+ * Public media may be cached by shared caches; drafts and other private media
+ * are only kept by the viewer's browser and revalidated on every use
+ */
+export const setMediaFileHeaders = (res: Response, options: MediaFileHeaderOptions): void => {
+  res.setHeader('X-Content-Type-Options', 'nosniff')
+  res.setHeader('X-Frame-Options', 'SAMEORIGIN')
+
+  const disposition = options.download ? 'attachment' : getContentDisposition(options.filename)
+  res.setHeader('Content-Disposition', buildContentDisposition(disposition, options.downloadName))
+
+  res.setHeader('Cache-Control', options.isPublic ? 'public, max-age=86400' : 'private, no-cache')
+}
+
 /**
  * Path traversal protection middleware
  */
@@ -258,6 +297,18 @@ export const createSecureStaticFileHandler = (staticRoot: string): Array<(req: R
   ]
 }
 
+/**
+ * Create the path checks for routes that serve stored media
+ * The files come from a StorageProvider, so only the request path is checked here
+ * @returns Array of middleware functions to run before a media file handler
+ */
+export const createMediaFileSecurityMiddleware = (): Array<(req: Request, res: Response, next: NextFunction) => void> => {
+  return [
+    pathTraversalProtection,
+    dotfileProtection
+  ]
+}
+
 /**
  * Global security middleware for all requests
  * Validates paths for security threats before any route processing
@@ -283,4 +334,9 @@ export const createGlobalSecurityMiddleware = () => {
     
     next()
   }
-}
\ No newline at end of file
+}
+
+// Export types for use in other files
+export type {
+  MediaFileHeaderOptions
+}
@@ -0,0 +1,191 @@
+// backend/src/models/CreatorDailyStats.ts
+// Version: 1.0.0
+// Per-creator daily analytics rollups and the day, week and month series built from them
+
+import { z } from 'zod'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Counts stored per creator per UTC day
+ * Note: These should match the CreatorDailyStats columns in the Prisma schema
+ */
+export const DAILY_STAT_FIELDS = [
+  'newFollowers',
+  'lostFollowers',
+  'postsPublished',
+  'deliveriesAttempted',
+  'deliveriesSucceeded',
+  'reportsReceived'
+] as const
+
+type DailyStatField = typeof DAILY_STAT_FIELDS[number]
+type DailyStatsCounts = Record<DailyStatField, number>
+
+/**
+ * Stored rollup for one creator and day
+ */
+interface DailyStats extends DailyStatsCounts {
+  date: Date
+}
+
+// Bucket sizes a series can be grouped by; weeks start on Monday
+export const SERIES_INTERVALS = ['day', 'week', 'month'] as const
+type SeriesInterval = typeof SERIES_INTERVALS[number]
+
+/**
+ * One bucket of a series; start is the bucket's first day as YYYY-MM-DD
+ */
+interface SeriesPoint extends DailyStatsCounts {
+  start: string
+}
+
+// Validation schemas
+const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+  .refine(value => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)), 'Invalid date')
+
+export const CreatorDailyStatsSchemas = {
+  series: z.object({
+    interval: z.enum(SERIES_INTERVALS).default('day'),
+    from: isoDate.optional(),
+    to: isoDate.optional()
+  }),
+
+  backfill: z.object({
+    from: isoDate,
+    to: isoDate.optional()
+  })
+}
+
+/**
+ * Counts for a day with no activity
+ * @returns DailyStatsCounts All zero
+ */
+export function emptyDailyStats(): DailyStatsCounts {
+  return {
+    newFollowers: 0,
+    lostFollowers: 0,
+    postsPublished: 0,
+    deliveriesAttempted: 0,
+    deliveriesSucceeded: 0,
+    reportsReceived: 0
+  }
+}
+
+/**
+ * Midnight UTC at the start of a date's day
+ * @param date - Any time on the day
+ * @returns Date Start of the UTC day
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * Move a date by whole days
+ * @param date - Start date
+ * @param days - Days to add; negative moves back
+ * @returns Date New date
+ */
+export function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+/**
+ * Format a date as its UTC day
+ * @param date - Date
+ * @returns string YYYY-MM-DD
+ */
+export function formatUtcDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * First day of the bucket a date falls in
+ * @param date - Any time in the bucket
+ * @param interval - Bucket size
+ * @returns Date Midnight UTC on the bucket's first day
+ */
+export function startOfPeriod(date: Date, interval: SeriesInterval): Date {
+  const day = startOfUtcDay(date)
+  switch (interval) {
+    case 'week':
+      // getUTCDay is 0 on Sunday; weeks start on Monday
+      return addUtcDays(day, -((day.getUTCDay() + 6) % 7))
+    case 'month':
+      return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1))
+    default:
+      return day
+  }
+}
+
+/**
+ * First day of the bucket after the one starting at a date
+ * @param start - First day of a bucket
+ * @param interval - Bucket size
+ * @returns Date First day of the next bucket
+ */
+export function nextPeriod(start: Date, interval: SeriesInterval): Date {
+  switch (interval) {
+    case 'week':
+      return addUtcDays(start, 7)
+    case 'month':
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1))
+    default:
+      return addUtcDays(start, 1)
+  }
+}
+
+/**
+ * Count the buckets between two dates, inclusive
+ * @param from - First day
+ * @param to - Last day
+ * @param interval - Bucket size
+ * @returns number Buckets in the series
+ */
+export function countPeriods(from: Date, to: Date, interval: SeriesInterval): number {
+  let count = 0
+  for (let start = startOfPeriod(from, interval); start <= to; start = nextPeriod(start, interval)) {
+    count++
+  }
+  return count
+}
+
+/**
+ * Sum daily rollups into buckets, with a zero bucket wherever there was no activity
+ * @param rows - Daily rollups inside the range, in any order
+ * @param from - First day of the range
+ * @param to - Last day of the range
+ * @param interval - Bucket size
+ * @returns SeriesPoint[] One point per bucket, oldest first
+ */
+export function buildSeries(rows: DailyStats[], from: Date, to: Date, interval: SeriesInterval): SeriesPoint[] {
+  const points = new Map<string, SeriesPoint>()
+  for (let start = startOfPeriod(from, interval); start <= to; start = nextPeriod(start, interval)) {
+    const key = formatUtcDate(start)
+    points.set(key, { start: key, ...emptyDailyStats() })
+  }
+
+  for (const row of rows) {
+    const point = points.get(formatUtcDate(startOfPeriod(row.date, interval)))
+    if (!point) {
+      continue
+    }
+
+    for (const field of DAILY_STAT_FIELDS) {
+      point[field] += row[field]
+    }
+  }
+
+  return Array.from(points.values())
+}
+
+// Export types for use in other files
+export type {
+  DailyStatField,
+  DailyStatsCounts,
+  DailyStats,
+  SeriesInterval,
+  SeriesPoint
+}
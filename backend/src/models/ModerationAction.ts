@@ -0,0 +1,130 @@
+// backend/src/models/ModerationAction.ts
+// Version: 1.0.0
+// Moderator actions taken from reports and the account standing built from them
+
+import { z } from 'zod'
+
+/**
+ * Actions a moderator can take from a report
+ * Note: These should match the Prisma schema enum exactly
+ */
+export enum ModerationActionType {
+  SUSPEND_USER = 'SUSPEND_USER',
+  HIDE_POST = 'HIDE_POST',
+  REMOVE_POST = 'REMOVE_POST',
+  WARN_USER = 'WARN_USER',
+  ESCALATE = 'ESCALATE'
+}
+
+/**
+ * Post visibility set by moderation, stored in Post.moderationStatus
+ * hidden posts are still shown to their author, removed posts to nobody
+ */
+export const POST_MODERATION_STATUSES = ['visible', 'hidden', 'removed'] as const
+type PostModerationStatus = typeof POST_MODERATION_STATUSES[number]
+
+// Actions that need a reported post rather than a reported account
+export const POST_ACTION_TYPES: readonly ModerationActionType[] = [
+  ModerationActionType.HIDE_POST,
+  ModerationActionType.REMOVE_POST
+]
+
+// Validation schemas
+export const ModerationActionSchemas = {
+  create: z.object({
+    type: z.nativeEnum(ModerationActionType),
+    reason: z.string()
+      .trim()
+      .min(1, 'A reason is required')
+      .max(1000, 'Reason must be less than 1000 characters')
+  }),
+
+  reverse: z.object({
+    reason: z.string()
+      .trim()
+      .max(1000, 'Reason must be less than 1000 characters')
+      .optional()
+  })
+}
+
+/**
+ * Stored moderation action
+ */
+interface ModerationAction {
+  id: string
+  type: ModerationActionType
+  reason: string
+  createdAt: Date
+  reportId: string | null
+  moderatorId: string | null
+  targetUserId: string
+  targetPostId: string | null
+  reversedAt: Date | null
+  reversedById: string | null
+  reversalReason: string | null
+}
+
+/**
+ * Summary of moderation against an account
+ * Only actions that have not been reversed count
+ */
+interface AccountStanding {
+  userId: string
+  status: 'good' | 'warned' | 'suspended'
+  activeWarnings: number
+  hiddenPosts: number
+  removedPosts: number
+  actions: ModerationAction[]
+}
+
+/**
+ * Work out a post's visibility from the actions still in force against it
+ * Removal wins over hiding, so reversing one of two actions leaves the other in place
+ * @param activeTypes - Types of unreversed actions on the post
+ * @returns PostModerationStatus Value for Post.moderationStatus
+ */
+export function getPostModerationStatus(activeTypes: ModerationActionType[]): PostModerationStatus {
+  if (activeTypes.includes(ModerationActionType.REMOVE_POST)) {
+    return 'removed'
+  }
+  if (activeTypes.includes(ModerationActionType.HIDE_POST)) {
+    return 'hidden'
+  }
+  return 'visible'
+}
+
+/**
+ * Build a user's account standing from their moderation history
+ * @param userId - User the actions were taken against
+ * @param isActive - User.isActive; false means suspended
+ * @param actions - Actions against the user, newest first
+ * @returns AccountStanding Counts of actions in force plus the full history
+ */
+export function buildAccountStanding(
+  userId: string,
+  isActive: boolean,
+  actions: ModerationAction[]
+): AccountStanding {
+  const active = actions.filter(action => !action.reversedAt)
+  const count = (type: ModerationActionType) => active.filter(action => action.type === type).length
+
+  const activeWarnings = count(ModerationActionType.WARN_USER)
+  const hiddenPosts = count(ModerationActionType.HIDE_POST)
+  const removedPosts = count(ModerationActionType.REMOVE_POST)
+
+  let status: AccountStanding['status'] = 'good'
+  if (!isActive) {
+    status = 'suspended'
+  } else if (activeWarnings > 0 || removedPosts > 0) {
+    status = 'warned'
+  }
+
+  return { userId, status, activeWarnings, hiddenPosts, removedPosts, actions }
+}
+
+// Export types for use in other files
+export type {
+  ModerationAction,
+  AccountStanding,
+  PostModerationStatus
+}
@@ -0,0 +1,141 @@
+// backend/src/models/ModerationDashboard.ts
+// Version: 1.0.0
+// Creator-facing view of reports and blocks, and the staff report queue
+
+import { z } from 'zod'
+import { Report, ReportStatus, ReportType } from './Report'
+
+// Report severities from least to most urgent
+export const REPORT_SEVERITIES = ['low', 'medium', 'high'] as const
+type ReportSeverity = typeof REPORT_SEVERITIES[number]
+
+/**
+ * How urgent each kind of report is for the staff queue
+ * Note: Every ReportType must be listed
+ */
+export const REPORT_TYPE_SEVERITY: Record<ReportType, ReportSeverity> = {
+  [ReportType.HARASSMENT]: 'high',
+  [ReportType.INAPPROPRIATE_CONTENT]: 'high',
+  [ReportType.MISINFORMATION]: 'medium',
+  [ReportType.COPYRIGHT]: 'medium',
+  [ReportType.SPAM]: 'low',
+  [ReportType.OTHER]: 'low'
+}
+
+// Reports still waiting for a decision; REVIEWED reports were escalated to an admin
+export const OPEN_REPORT_STATUSES: readonly ReportStatus[] = [
+  ReportStatus.PENDING,
+  ReportStatus.REVIEWED
+]
+
+// Validation schemas
+const page = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+})
+
+export const ModerationDashboardSchemas = {
+  page,
+
+  reports: page.extend({
+    status: z.nativeEnum(ReportStatus).optional()
+  })
+}
+
+/**
+ * Report as shown to the creator it is about
+ * Who reported, what they wrote and the moderator's notes are left out
+ */
+interface CreatorReport {
+  id: string
+  type: ReportType
+  status: ReportStatus
+  reportedPostId: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Counts for the creator dashboard's moderation panel
+ */
+interface CreatorModerationSummary {
+  reportedPosts: number
+  accountReports: number
+  blockedUsers: number
+  pendingFollowRequests: number
+}
+
+/**
+ * One of a creator's posts that has been reported
+ */
+interface ReportedPost {
+  postId: string
+  reportCount: number
+  openCount: number
+  latestReportAt: Date
+}
+
+/**
+ * Open reports of one type against an account
+ */
+interface OpenReportGroup {
+  userId: string
+  type: ReportType
+  count: number
+  oldestAt: Date
+}
+
+/**
+ * A much-reported account in the staff queue
+ * severity and oldestOpenAt are null once every report has been decided
+ */
+interface ModerationQueueEntry {
+  userId: string
+  username: string | null
+  reportCount: number
+  openCount: number
+  severity: ReportSeverity | null
+  oldestOpenAt: Date | null
+}
+
+/**
+ * Strip a report down to what the reported creator may see
+ * @param report - Stored report
+ * @returns CreatorReport Report without reporter or moderator details
+ */
+export function toCreatorReport(report: Report): CreatorReport {
+  return {
+    id: report.id,
+    type: report.type,
+    status: report.status,
+    reportedPostId: report.reportedPostId ?? null,
+    createdAt: report.createdAt,
+    updatedAt: report.updatedAt
+  }
+}
+
+/**
+ * Most urgent severity among report types
+ * @param types - Report types
+ * @returns ReportSeverity | null Highest severity, or null for no reports
+ */
+export function highestSeverity(types: ReportType[]): ReportSeverity | null {
+  let highest: ReportSeverity | null = null
+  for (const type of types) {
+    const severity = REPORT_TYPE_SEVERITY[type]
+    if (highest === null || REPORT_SEVERITIES.indexOf(severity) > REPORT_SEVERITIES.indexOf(highest)) {
+      highest = severity
+    }
+  }
+  return highest
+}
+
+// Export types for use in other files
+export type {
+  ReportSeverity,
+  CreatorReport,
+  CreatorModerationSummary,
+  ReportedPost,
+  OpenReportGroup,
+  ModerationQueueEntry
+}
@@ -1,7 +1,9 @@
 // backend/src/models/Post.ts
 // Post model class with validation schemas using proper TypeScript types
+// Changed: Content labels alongside the content warning, and which labels make media sensitive
 
 import { z } from 'zod'
+import { CONTENT_LABELS, SENSITIVE_MEDIA_LABELS } from '../utils/constants'
 
 // Validation schemas
 export const PostSchemas = {
@@ -16,6 +18,7 @@ export const PostSchemas = {
       .max(200, 'Content warning must be less than 200 characters')
       .optional()
       .or(z.literal('')),
+    contentLabels: z.array(z.enum(CONTENT_LABELS)).max(CONTENT_LABELS.length).optional(),
     isScheduled: z.boolean().default(false),
     scheduledFor: z.string()
       .datetime('Invalid scheduled date format')
@@ -50,6 +53,7 @@ export const PostSchemas = {
       .max(200, 'Content warning must be less than 200 characters')
       .optional()
       .or(z.literal('')),
+    contentLabels: z.array(z.enum(CONTENT_LABELS)).max(CONTENT_LABELS.length).optional(),
     isPublished: z.boolean().optional()
   }),
 
@@ -68,6 +72,35 @@ export const PostSchemas = {
   })
 }
 
+/**
+ * Lifecycle changes a creator can make to their own post
+ * publish: go live now, including ahead of a schedule
+ * schedule: set or move the publication time of an unpublished post
+ * unpublish: take a published post back to draft
+ * draft: cancel a schedule and keep the post as a draft
+ */
+export const POST_LIFECYCLE_ACTIONS = ['publish', 'schedule', 'unpublish', 'draft'] as const
+type PostLifecycleAction = typeof POST_LIFECYCLE_ACTIONS[number]
+
+type ContentLabel = typeof CONTENT_LABELS[number]
+
+/**
+ * Check whether a post's labels put every attachment behind a click-through
+ * @param labels - Post content labels
+ * @returns boolean True if any label is one of SENSITIVE_MEDIA_LABELS
+ */
+export function labelsRequireSensitiveMedia(labels: readonly string[]): boolean {
+  return labels.some(label => SENSITIVE_MEDIA_LABELS.indexOf(label) !== -1)
+}
+
+// Fields a lifecycle change writes
+interface PostLifecycleUpdate {
+  isPublished: boolean
+  isScheduled: boolean
+  scheduledFor: Date | null
+  publishedAt?: null
+}
+
 // Post data interface (complete post with all fields)
 interface PostData {
   id: string
@@ -312,6 +345,55 @@ export class Post {
     return `https://${domain}/posts/${this.id}/activity`
   }
 
+  /**
+   * Generate ActivityPub object ID (the Note itself) for federation
+   * @param domain - Instance domain name
+   * @returns ActivityPub object URI
+   */
+  generateObjectId(domain: string): string {
+    return `https://${domain}/posts/${this.id}`
+  }
+
+  /**
+   * Check whether a lifecycle change is allowed from the post's current state
+   * @param action - Lifecycle change to apply
+   * @returns boolean indicating if the change is allowed
+   */
+  canApply(action: PostLifecycleAction): boolean {
+    const isPendingSchedule = !this.isPublished && (this.isScheduledPost() || this.hasExpiredSchedule())
+
+    switch (action) {
+      case 'publish':
+        return this.isReadyToPublish() || this.isScheduledPost()
+      case 'schedule':
+        return this.isDraft() || isPendingSchedule
+      case 'unpublish':
+        return this.isPublished
+      case 'draft':
+        return isPendingSchedule
+    }
+  }
+
+  /**
+   * Get the fields to write for a lifecycle change
+   * Publishing leaves publishedAt to the repository, which stamps it on the transition
+   * @param action - Lifecycle change to apply
+   * @param scheduledFor - New publication time, required for schedule
+   * @returns PostLifecycleUpdate Fields for PostRepository
+   */
+  getLifecycleUpdate(action: PostLifecycleAction, scheduledFor: Date | null = null): PostLifecycleUpdate {
+    switch (action) {
+      case 'publish':
+        return { isPublished: true, isScheduled: false, scheduledFor: null }
+      case 'schedule':
+        return { isPublished: false, isScheduled: true, scheduledFor }
+      case 'unpublish':
+        return { isPublished: false, isScheduled: false, scheduledFor: null, publishedAt: null }
+      case 'draft':
+        return { isPublished: false, isScheduled: false, scheduledFor: null }
+    }
+  }
+
   /**
    * Update post content and metadata
    * @param updateData - Data to update
@@ -348,5 +430,8 @@ export type {
   PostDraft,
   PostSummary,
   PostCreateData,
-  PostUpdateData
+  PostUpdateData,
+  PostLifecycleAction,
+  PostLifecycleUpdate,
+  ContentLabel
 }
\ No newline at end of file
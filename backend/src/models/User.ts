@@ -1,8 +1,45 @@
 // backend/src/models/User.ts
-// Version: 1.2.0 - Fixed exactOptionalPropertyTypes compatibility for createdAt/updatedAt
-// Changed: Made createdAt/updatedAt required properties with constructor defaults
+// Version: 1.7.0 - Added content labels to open without a click
+// Changed: autoExpandLabels is editable through updateProfile and shown only on the private profile
 
 import { z } from 'zod'
+import { USER_RATE_LIMIT_POLICIES } from '../config/rateLimit'
+import { CONTENT_LABELS } from '../utils/constants'
+
+/**
+ * Roles a local account can hold, from least to most privileged
+ */
+export const USER_ROLES = ['user', 'moderator', 'admin'] as const
+
+type UserRole = typeof USER_ROLES[number]
+
+/**
+ * Check whether a value is a known role
+ * @param value - Value to check, typically a database column or JWT claim
+ * @returns True if the value is one of USER_ROLES
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * Verification tiers, from least to most verified
+ */
+export const VERIFICATION_TIERS = ['none', 'email', 'phone', 'identity', 'notable'] as const
+
+type VerificationTier = typeof VERIFICATION_TIERS[number]
+
+/**
+ * Check whether a value is a known verification tier
+ * @param value - Value to check, typically a database column
+ * @returns True if the value is one of VERIFICATION_TIERS
+ */
+export function isVerificationTier(value: unknown): value is VerificationTier {
+  return typeof value === 'string' && (VERIFICATION_TIERS as readonly string[]).includes(value)
+}
+
+// Usernames that would collide with fixed /users/* routes
+const RESERVED_USERNAMES: readonly string[] = ['profile', 'avatar']
 
 // Validation schemas
 export const UserSchemas = {
@@ -12,7 +49,8 @@ export const UserSchemas = {
     username: z.string()
       .min(3, 'Username must be at least 3 characters')
       .max(30, 'Username must be less than 30 characters')
-      .regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores'),
+      .regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores')
+      .refine((username) => !RESERVED_USERNAMES.includes(username.toLowerCase()), 'Username is reserved'),
     password: z.string()
       .min(8, 'Password must be at least 8 characters')
       .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one lowercase letter, one uppercase letter, and one number'),
@@ -30,6 +68,12 @@ export const UserSchemas = {
 
   // Profile update validation
   updateProfile: z.object({
+    username: z.string()
+      .min(3, 'Username must be at least 3 characters')
+      .max(30, 'Username must be less than 30 characters')
+      .regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores')
+      .refine((username) => !RESERVED_USERNAMES.includes(username.toLowerCase()), 'Username is reserved')
+      .optional(),
     displayName: z.string()
       .trim()
       .min(1, 'Display name cannot be empty')
@@ -44,7 +88,51 @@ export const UserSchemas = {
         message: 'Invalid website URL'
       })
       .optional()
-      .or(z.literal(''))
+      .or(z.literal('')),
+    approveFollowers: z.boolean().optional(),
+    autoExpandLabels: z.array(z.enum(CONTENT_LABELS))
+      .max(CONTENT_LABELS.length)
+      .transform(labels => [...new Set(labels)])
+      .optional()
+  }),
+
+  // Avatar crop square, sent as multipart fields alongside the image
+  avatarCrop: z.object({
+    cropX: z.coerce.number().int().min(0, 'Crop position cannot be negative'),
+    cropY: z.coerce.number().int().min(0, 'Crop position cannot be negative'),
+    cropSize: z.coerce.number().int().min(1, 'Crop size must be at least 1 pixel')
+  })
+    .partial()
+    .refine((crop) => [crop.cropX, crop.cropY, crop.cropSize].every(value => value === undefined) ||
+      [crop.cropX, crop.cropY, crop.cropSize].every(value => value !== undefined), {
+      message: 'cropX, cropY and cropSize must be sent together'
+    }),
+
+  // Role change validation (admin only)
+  updateRole: z.object({
+    role: z.enum(USER_ROLES),
+    reason: z.string()
+      .trim()
+      .max(500, 'Reason must be less than 500 characters')
+      .optional()
+  }),
+
+  // Rate limit override validation (admin only)
+  rateLimitOverride: z.object({
+    policy: z.enum(USER_RATE_LIMIT_POLICIES),
+    max: z.number().int().min(1, 'Limit must be at least 1').max(100000, 'Limit must be at most 100000'),
+    windowMs: z.number()
+      .int()
+      .min(1000, 'Window must be at least one second')
+      .max(24 * 60 * 60 * 1000, 'Window must be at most one day')
+      .optional(),
+    expiresAt: z.coerce.date()
+      .refine((date) => date.getTime() > Date.now(), 'Expiry must be in the future')
+      .optional(),
+    reason: z.string()
+      .trim()
+      .max(500, 'Reason must be less than 500 characters')
+      .optional()
   })
 }
 
@@ -59,6 +147,9 @@ interface UserData {
   website?: string | null | undefined
   isVerified?: boolean | null | undefined
   verificationTier?: string | null | undefined
+  role?: string | null | undefined
+  approveFollowers?: boolean | null | undefined
+  autoExpandLabels?: string[] | null | undefined
   createdAt?: Date | undefined
   updatedAt?: Date | undefined
   passwordHash?: string | undefined
@@ -78,11 +169,14 @@ interface PublicProfile {
   website: string | null
   isVerified: boolean
   verificationTier: string
+  approveFollowers: boolean
 }
 
 // Private profile interface (extends public)
 interface PrivateProfile extends PublicProfile {
   email: string
+  role: UserRole
+  autoExpandLabels: string[]
   createdAt: Date
   updatedAt: Date
 }
@@ -100,6 +194,9 @@ export class User {
   public website: string | null
   public isVerified: boolean
   public verificationTier: string
+  public role: UserRole
+  public approveFollowers: boolean
+  public autoExpandLabels: string[]
   public createdAt: Date  // Changed from optional to required
   public updatedAt: Date  // Changed from optional to required
   public passwordHash?: string | undefined
@@ -124,6 +221,12 @@ export class User {
     this.isVerified = data.isVerified || false
     // Handle verificationTier: default to 'none' if null/undefined
     this.verificationTier = data.verificationTier || 'none'
+    // Handle role: anything unrecognized gets the least privileged role
+    this.role = isUserRole(data.role) ? data.role : 'user'
+    // Handle approveFollowers: follows are accepted straight away unless turned on
+    this.approveFollowers = data.approveFollowers || false
+    // Handle autoExpandLabels: every labelled post stays collapsed until chosen otherwise
+    this.autoExpandLabels = data.autoExpandLabels || []
     // Handle dates: provide current date if undefined to satisfy exactOptionalPropertyTypes
     this.createdAt = data.createdAt || new Date()
     this.updatedAt = data.updatedAt || new Date()
@@ -147,6 +250,7 @@ export class User {
       website: this.website,
       isVerified: this.isVerified,
       verificationTier: this.verificationTier,
+      approveFollowers: this.approveFollowers,
       ...(this as any).followersCount !== undefined && { followersCount: (this as any).followersCount },
       ...(this as any).postsCount !== undefined && { postsCount: (this as any).postsCount }
     }
@@ -160,6 +264,8 @@ export class User {
     return {
       ...this.getPublicProfile(),
       email: this.email,
+      role: this.role,
+      autoExpandLabels: this.autoExpandLabels,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt
     }
@@ -179,11 +285,29 @@ export class User {
   static validateProfileUpdate(data: unknown) {
     return UserSchemas.updateProfile.safeParse(data)
   }
+
+  static validateAvatarCrop(data: unknown) {
+    return UserSchemas.avatarCrop.safeParse(data)
+  }
+
+  static validateRoleUpdate(data: unknown) {
+    return UserSchemas.updateRole.safeParse(data)
+  }
+
+  static validateRateLimitOverride(data: unknown) {
+    return UserSchemas.rateLimitOverride.safeParse(data)
+  }
+
+  static validateRateLimitPolicy(data: unknown) {
+    return UserSchemas.rateLimitOverride.shape.policy.safeParse(data)
+  }
 }
 
 // Export types for use in other files
 export type {
   UserData,
+  UserRole,
+  VerificationTier,
   PublicProfile,
   PrivateProfile
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+// backend/src/models/__tests__/CreatorDailyStats.test.ts
+// Version: 1.0.0
+// Day, week and month bucketing and gap filling for daily analytics rollups
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildSeries,
+  countPeriods,
+  CreatorDailyStatsSchemas,
+  emptyDailyStats,
+  startOfPeriod
+} from '../CreatorDailyStats'
+
+const day = (value: string) => new Date(`${value}T00:00:00Z`)
+
+describe('CreatorDailyStats', () => {
+  describe('startOfPeriod()', () => {
+    it('should start weeks on Monday', () => {
+      // 2025-06-01 is a Sunday, 2025-06-04 a Wednesday
+      expect(startOfPeriod(day('2025-06-01'), 'week')).toEqual(day('2025-05-26'))
+      expect(startOfPeriod(day('2025-06-04'), 'week')).toEqual(day('2025-06-02'))
+      expect(startOfPeriod(day('2025-06-02'), 'week')).toEqual(day('2025-06-02'))
+    })
+
+    it('should start months on the first and days at midnight UTC', () => {
+      expect(startOfPeriod(new Date('2025-06-17T23:30:00Z'), 'month')).toEqual(day('2025-06-01'))
+      expect(startOfPeriod(new Date('2025-06-17T23:30:00Z'), 'day')).toEqual(day('2025-06-17'))
+    })
+  })
+
+  describe('countPeriods()', () => {
+    it('should count the buckets a range touches', () => {
+      expect(countPeriods(day('2025-06-01'), day('2025-06-30'), 'day')).toBe(30)
+      expect(countPeriods(day('2025-06-01'), day('2025-06-30'), 'week')).toBe(6)
+      expect(countPeriods(day('2024-12-15'), day('2025-02-01'), 'month')).toBe(3)
+    })
+  })
+
+  describe('buildSeries()', () => {
+    it('should fill days without a rollup with zeros', () => {
+      const rows = [
+        { date: day('2025-06-02'), ...emptyDailyStats(), newFollowers: 3, postsPublished: 1 }
+      ]
+
+      const series = buildSeries(rows, day('2025-06-01'), day('2025-06-03'), 'day')
+
+      expect(series).toEqual([
+        { start: '2025-06-01', ...emptyDailyStats() },
+        { start: '2025-06-02', ...emptyDailyStats(), newFollowers: 3, postsPublished: 1 },
+        { start: '2025-06-03', ...emptyDailyStats() }
+      ])
+    })
+
+    it('should sum days into their week and month', () => {
+      const rows = [
+        { date: day('2025-06-01'), ...emptyDailyStats(), deliveriesAttempted: 10, deliveriesSucceeded: 9 },
+        { date: day('2025-06-02'), ...emptyDailyStats(), deliveriesAttempted: 5, deliveriesSucceeded: 5 },
+        { date: day('2025-06-08'), ...emptyDailyStats(), lostFollowers: 2 }
+      ]
+
+      const weeks = buildSeries(rows, day('2025-06-01'), day('2025-06-10'), 'week')
+      const months = buildSeries(rows, day('2025-06-01'), day('2025-06-10'), 'month')
+
+      expect(weeks.map(point => point.start)).toEqual(['2025-05-26', '2025-06-02', '2025-06-09'])
+      expect(weeks[0]).toMatchObject({ deliveriesAttempted: 10, deliveriesSucceeded: 9 })
+      expect(weeks[1]).toMatchObject({ deliveriesAttempted: 5, lostFollowers: 2 })
+      expect(weeks[2]).toEqual({ start: '2025-06-09', ...emptyDailyStats() })
+      expect(months).toEqual([
+        { start: '2025-06-01', ...emptyDailyStats(), deliveriesAttempted: 15, deliveriesSucceeded: 14, lostFollowers: 2 }
+      ])
+    })
+  })
+
+  describe('CreatorDailyStatsSchemas.series', () => {
+    it('should default to daily buckets', () => {
+      expect(CreatorDailyStatsSchemas.series.parse({})).toEqual({ interval: 'day' })
+    })
+
+    it('should reject unknown intervals and malformed dates', () => {
+      expect(CreatorDailyStatsSchemas.series.safeParse({ interval: 'year' }).success).toBe(false)
+      expect(CreatorDailyStatsSchemas.series.safeParse({ from: '06/01/2025' }).success).toBe(false)
+      expect(CreatorDailyStatsSchemas.series.safeParse({ to: '2025-13-45' }).success).toBe(false)
+    })
+  })
+})
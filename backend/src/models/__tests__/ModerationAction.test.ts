@@ -0,0 +1,78 @@
+// backend/src/models/__tests__/ModerationAction.test.ts
+// Version: 1.0.0 - Post moderation status and account standing tests
+
+import { describe, it, expect } from 'vitest'
+import {
+  ModerationActionSchemas,
+  ModerationActionType,
+  buildAccountStanding,
+  getPostModerationStatus
+} from '../ModerationAction'
+import type { ModerationAction } from '../ModerationAction'
+
+/**
+ * Build a stored action with sensible defaults
+ */
+function action(type: ModerationActionType, overrides: Partial<ModerationAction> = {}): ModerationAction {
+  return {
+    id: `action-${type}`,
+    type,
+    reason: 'Breaks the rules',
+    createdAt: new Date('2025-06-01T12:00:00Z'),
+    reportId: 'report1',
+    moderatorId: 'mod1',
+    targetUserId: 'user123',
+    targetPostId: null,
+    reversedAt: null,
+    reversedById: null,
+    reversalReason: null,
+    ...overrides
+  }
+}
+
+describe('ModerationAction model', () => {
+  describe('getPostModerationStatus()', () => {
+    it('should let removal win over hiding', () => {
+      expect(getPostModerationStatus([ModerationActionType.HIDE_POST, ModerationActionType.REMOVE_POST])).toBe('removed')
+      expect(getPostModerationStatus([ModerationActionType.HIDE_POST])).toBe('hidden')
+      expect(getPostModerationStatus([])).toBe('visible')
+    })
+  })
+
+  describe('buildAccountStanding()', () => {
+    it('should report good standing with no actions in force', () => {
+      const standing = buildAccountStanding('user123', true, [
+        action(ModerationActionType.WARN_USER, { reversedAt: new Date() })
+      ])
+
+      expect(standing.status).toBe('good')
+      expect(standing.activeWarnings).toBe(0)
+      expect(standing.actions).toHaveLength(1)
+    })
+
+    it('should count warnings and moderated posts still in force', () => {
+      const standing = buildAccountStanding('user123', true, [
+        action(ModerationActionType.WARN_USER),
+        action(ModerationActionType.HIDE_POST, { targetPostId: 'post1' }),
+        action(ModerationActionType.REMOVE_POST, { targetPostId: 'post2' })
+      ])
+
+      expect(standing).toMatchObject({ status: 'warned', activeWarnings: 1, hiddenPosts: 1, removedPosts: 1 })
+    })
+
+    it('should report suspended accounts as suspended', () => {
+      const standing = buildAccountStanding('user123', false, [action(ModerationActionType.SUSPEND_USER)])
+
+      expect(standing.status).toBe('suspended')
+    })
+  })
+
+  describe('ModerationActionSchemas', () => {
+    it('should require a known type and a reason', () => {
+      expect(ModerationActionSchemas.create.safeParse({ type: 'WARN_USER', reason: ' Spam ' }).data)
+        .toEqual({ type: ModerationActionType.WARN_USER, reason: 'Spam' })
+      expect(ModerationActionSchemas.create.safeParse({ type: 'BAN', reason: 'Spam' }).success).toBe(false)
+      expect(ModerationActionSchemas.create.safeParse({ type: 'WARN_USER', reason: '  ' }).success).toBe(false)
+    })
+  })
+})
@@ -273,6 +273,17 @@ describe('Post Business Logic Methods', () => {
     })
   })
 
+  describe('generateObjectId()', () => {
+    it('should generate the Note URI next to the activity URI', () => {
+      const post = new Post(createMockPost({
+        id: 'post-123'
+      }))
+
+      expect(post.generateObjectId('example.com')).toBe('https://example.com/posts/post-123')
+      expect(post.generateActivityId('example.com')).toBe(`${post.generateObjectId('example.com')}/activity`)
+    })
+  })
+
   describe('generateActivityId()', () => {
     it('should generate correct ActivityPub URI format', () => {
       const post = new Post(createMockPost({
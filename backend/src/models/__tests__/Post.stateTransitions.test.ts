@@ -443,4 +443,66 @@ describe('Post State Transitions', () => {
       expect(post.content).toBe('Final content')
     })
   })
+
+  describe('Lifecycle Actions', () => {
+    const future = () => new Date(Date.now() + 3600000)
+    const past = () => new Date(Date.now() - 3600000)
+
+    const draft = () => new Post(createMockPost({ isPublished: false, publishedAt: null }))
+    const scheduled = () => new Post(createMockPost({
+      isPublished: false,
+      publishedAt: null,
+      isScheduled: true,
+      scheduledFor: future()
+    }))
+    const published = () => new Post(createMockPost())
+
+    it('should allow publishing drafts and scheduled posts but not published ones', () => {
+      expect(draft().canApply('publish')).toBe(true)
+      expect(scheduled().canApply('publish')).toBe(true)
+      expect(published().canApply('publish')).toBe(false)
+    })
+
+    it('should allow scheduling drafts and rescheduling pending posts', () => {
+      const expired = new Post(createMockPost({
+        isPublished: false,
+        publishedAt: null,
+        isScheduled: true,
+        scheduledFor: past()
+      }))
+
+      expect(draft().canApply('schedule')).toBe(true)
+      expect(scheduled().canApply('schedule')).toBe(true)
+      expect(expired.canApply('schedule')).toBe(true)
+      expect(published().canApply('schedule')).toBe(false)
+    })
+
+    it('should only unpublish published posts', () => {
+      expect(published().canApply('unpublish')).toBe(true)
+      expect(draft().canApply('unpublish')).toBe(false)
+      expect(scheduled().canApply('unpublish')).toBe(false)
+    })
+
+    it('should only move scheduled posts back to draft', () => {
+      const publishedFromSchedule = new Post(createMockPost({ isScheduled: true, scheduledFor: past() }))
+
+      expect(scheduled().canApply('draft')).toBe(true)
+      expect(draft().canApply('draft')).toBe(false)
+      expect(publishedFromSchedule.canApply('draft')).toBe(false)
+    })
+
+    it('should describe the fields each action writes', () => {
+      const when = future()
+
+      expect(scheduled().getLifecycleUpdate('publish')).toEqual({ isPublished: true, isScheduled: false, scheduledFor: null })
+      expect(draft().getLifecycleUpdate('schedule', when)).toEqual({ isPublished: false, isScheduled: true, scheduledFor: when })
+      expect(published().getLifecycleUpdate('unpublish')).toEqual({
+        isPublished: false,
+        isScheduled: false,
+        scheduledFor: null,
+        publishedAt: null
+      })
+      expect(scheduled().getLifecycleUpdate('draft')).toEqual({ isPublished: false, isScheduled: false, scheduledFor: null })
+    })
+  })
 })
\ No newline at end of file
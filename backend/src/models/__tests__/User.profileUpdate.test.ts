@@ -1,6 +1,7 @@
 // backend/src/models/__tests__/User.profileUpdate.test.ts
-// Version: 1.7.0
+// Version: 1.8.0
 // Fixed: Updated test to expect 4 validation errors instead of 3 due to website field having 2 validations
+// Changed: Cover autoExpandLabels
 
 import { describe, it, expect, beforeEach } from 'vitest'
 import { User } from '../User'
@@ -86,4 +87,17 @@ describe('User Profile Update Validation', () => {
       issue.path.includes('website') && issue.code === 'invalid_string'
     )).toBe(true)
   })
+
+  it('should accept known content labels to auto-expand, dropping repeats', () => {
+    const result = User.validateProfileUpdate({ autoExpandLabels: ['spoilers', 'medical', 'spoilers'] })
+
+    expect(result.success).toBe(true)
+    expect(result.data?.autoExpandLabels).toEqual(['spoilers', 'medical'])
+  })
+
+  it('should reject unknown content labels', () => {
+    const result = User.validateProfileUpdate({ autoExpandLabels: ['everything'] })
+
+    expect(result.success).toBe(false)
+  })
 })
\ No newline at end of file
@@ -0,0 +1,98 @@
+// backend/src/repositories/AccountTokenRepository.ts
+// Data access layer for emailed password reset and email verification tokens
+
+import { PrismaClient, Prisma } from '@prisma/client'
+
+type AccountTokenType = 'PASSWORD_RESET' | 'EMAIL_VERIFICATION'
+
+interface AccountToken {
+  id: string
+  userId: string
+  type: AccountTokenType
+  tokenHash: string
+  expiresAt: Date
+  usedAt: Date | null
+  createdAt: Date
+}
+
+/**
+ * Account token repository class
+ * Handles database operations for single-use account tokens
+ */
+export class AccountTokenRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Store a new token, invalidating the user's earlier unused tokens of the same type
+   * Only the most recently emailed link works
+   * @param userId - User the token is for
+   * @param type - Token purpose
+   * @param tokenHash - SHA-256 hash of the token
+   * @param expiresAt - When the token stops working
+   * @param now - Current time
+   * @returns Promise<AccountToken> Created token row
+   */
+  async issue(
+    userId: string,
+    type: AccountTokenType,
+    tokenHash: string,
+    expiresAt: Date,
+    now: Date = new Date()
+  ): Promise<AccountToken> {
+    return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.accountToken.updateMany({
+        where: { userId, type, usedAt: null },
+        data: { usedAt: now }
+      })
+
+      return await tx.accountToken.create({
+        data: { userId, type, tokenHash, expiresAt }
+      })
+    })
+  }
+
+  /**
+   * Find the most recently issued token of a type for a user
+   * @param userId - User ID
+   * @param type - Token purpose
+   * @returns Promise<AccountToken | null> Latest token or null if none was issued
+   */
+  async findLatest(userId: string, type: AccountTokenType): Promise<AccountToken | null> {
+    return await this.prisma.accountToken.findFirst({
+      where: { userId, type },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  /**
+   * Use up a token
+   * The token must match the type, be unused and unexpired. Marking it used only
+   * succeeds for one caller, so a token can never be redeemed twice.
+   * @param tokenHash - SHA-256 hash of the presented token
+   * @param type - Expected token purpose
+   * @param now - Current time
+   * @returns Promise<AccountToken | null> The consumed token or null if it is not redeemable
+   */
+  async consume(tokenHash: string, type: AccountTokenType, now: Date = new Date()): Promise<AccountToken | null> {
+    const token = await this.prisma.accountToken.findUnique({
+      where: { tokenHash }
+    })
+
+    if (!token || token.type !== type || token.usedAt || token.expiresAt <= now) {
+      return null
+    }
+
+    const result = await this.prisma.accountToken.updateMany({
+      where: { id: token.id, usedAt: null },
+      data: { usedAt: now }
+    })
+
+    return result.count === 1 ? { ...token, usedAt: now } : null
+  }
+}
+
+// Export types for use in other files
+export type {
+  AccountToken,
+  AccountTokenType
+}
@@ -0,0 +1,305 @@
+// backend/src/repositories/AnalyticsRepository.ts
+// Data access layer for creator dashboard analytics and their daily rollups
+
+import { PrismaClient } from '@prisma/client'
+import type { DailyStats, DailyStatsCounts } from '../models/CreatorDailyStats'
+
+/**
+ * Delivery outcomes for a sender over a period
+ */
+interface DeliveryOutcomeCounts {
+  attempted: number
+  succeeded: number
+}
+
+/**
+ * Grouped count row as returned by Prisma groupBy
+ */
+type GroupedCount<K extends string> = Record<K, string> & { _count: { _all: number } }
+
+/**
+ * Turn grouped count rows into counts by user ID
+ * @param rows - groupBy rows
+ * @param key - Column holding the user ID
+ * @returns Map<string, number> Count per user
+ */
+function toCountMap<K extends string>(rows: GroupedCount<K>[], key: K): Map<string, number> {
+  return new Map(rows.map(row => [row[key], row._count._all]))
+}
+
+/**
+ * Analytics repository class
+ * Live queries over follows, posts and delivery outcomes for one creator,
+ * per-user counts over a time range for the rollup job, and the rollups themselves.
+ * Ranges are half-open: start is included, end is not.
+ */
+export class AnalyticsRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Count a user's accepted followers
+   * @param userId - Followed user ID
+   * @param since - Only count follows created at or after this time
+   * @returns Promise<number> Follower count
+   */
+  async countFollowers(userId: string, since?: Date): Promise<number> {
+    return await this.prisma.follow.count({
+      where: {
+        followedId: userId,
+        isAccepted: true,
+        ...(since !== undefined && { createdAt: { gte: since } })
+      }
+    })
+  }
+
+  /**
+   * List the actor URIs of a user's accepted remote followers
+   * Local followers have no actor URI and are left out
+   * @param userId - Followed user ID
+   * @returns Promise<string[]> Remote actor URIs
+   */
+  async findFollowerActorIds(userId: string): Promise<string[]> {
+    const follows: Array<{ actorId: string | null }> = await this.prisma.follow.findMany({
+      where: {
+        followedId: userId,
+        isAccepted: true,
+        actorId: { not: null }
+      },
+      select: { actorId: true }
+    })
+
+    return follows
+      .map(follow => follow.actorId)
+      .filter((actorId): actorId is string => actorId !== null)
+  }
+
+  /**
+   * Count a user's published posts
+   * @param userId - Author ID
+   * @returns Promise<number> Published post count
+   */
+  async countPublishedPosts(userId: string): Promise<number> {
+    return await this.prisma.post.count({
+      where: {
+        authorId: userId,
+        isPublished: true
+      }
+    })
+  }
+
+  /**
+   * List when a user's posts were published
+   * @param userId - Author ID
+   * @param since - Only include posts published at or after this time
+   * @returns Promise<Date[]> Publication times, oldest first
+   */
+  async findPublishedTimes(userId: string, since: Date): Promise<Date[]> {
+    const posts: Array<{ publishedAt: Date | null }> = await this.prisma.post.findMany({
+      where: {
+        authorId: userId,
+        isPublished: true,
+        publishedAt: { gte: since }
+      },
+      select: { publishedAt: true },
+      orderBy: { publishedAt: 'asc' }
+    })
+
+    return posts
+      .map(post => post.publishedAt)
+      .filter((publishedAt): publishedAt is Date => publishedAt !== null)
+  }
+
+  /**
+   * Count finished deliveries of a user's activities
+   * Deliveries still queued or being retried are not counted
+   * @param userId - Sender ID
+   * @param since - Only count outcomes recorded at or after this time
+   * @returns Promise<DeliveryOutcomeCounts> Finished and successful deliveries
+   */
+  async countDeliveryOutcomes(userId: string, since: Date): Promise<DeliveryOutcomeCounts> {
+    const where = {
+      senderId: userId,
+      createdAt: { gte: since }
+    }
+
+    const [attempted, succeeded] = await Promise.all([
+      this.prisma.deliveryOutcome.count({ where }),
+      this.prisma.deliveryOutcome.count({ where: { ...where, delivered: true } })
+    ])
+
+    return { attempted, succeeded }
+  }
+
+  /**
+   * Count new followers per user over a range
+   * Follows that were removed since are still counted from their lost-follower record
+   * @param start - Range start
+   * @param end - Range end
+   * @returns Promise<Map<string, number>> New followers by followed user ID
+   */
+  async countNewFollowersByUser(start: Date, end: Date): Promise<Map<string, number>> {
+    const [current, removed] = await Promise.all([
+      this.prisma.follow.groupBy({
+        by: ['followedId'],
+        where: { isAccepted: true, createdAt: { gte: start, lt: end } },
+        _count: { _all: true }
+      }),
+      this.prisma.followerLoss.groupBy({
+        by: ['followedId'],
+        where: { followedAt: { gte: start, lt: end } },
+        _count: { _all: true }
+      })
+    ])
+
+    const counts = toCountMap<'followedId'>(current, 'followedId')
+    for (const [userId, count] of toCountMap<'followedId'>(removed, 'followedId')) {
+      counts.set(userId, (counts.get(userId) || 0) + count)
+    }
+    return counts
+  }
+
+  /**
+   * Count lost followers per user over a range
+   * @param start - Range start
+   * @param end - Range end
+   * @returns Promise<Map<string, number>> Lost followers by followed user ID
+   */
+  async countLostFollowersByUser(start: Date, end: Date): Promise<Map<string, number>> {
+    const rows = await this.prisma.followerLoss.groupBy({
+      by: ['followedId'],
+      where: { createdAt: { gte: start, lt: end } },
+      _count: { _all: true }
+    })
+
+    return toCountMap<'followedId'>(rows, 'followedId')
+  }
+
+  /**
+   * Count posts published per author over a range
+   * @param start - Range start
+   * @param end - Range end
+   * @returns Promise<Map<string, number>> Published posts by author ID
+   */
+  async countPublishedPostsByUser(start: Date, end: Date): Promise<Map<string, number>> {
+    const rows = await this.prisma.post.groupBy({
+      by: ['authorId'],
+      where: { isPublished: true, publishedAt: { gte: start, lt: end } },
+      _count: { _all: true }
+    })
+
+    return toCountMap<'authorId'>(rows, 'authorId')
+  }
+
+  /**
+   * Count finished and successful deliveries per sender over a range
+   * @param start - Range start
+   * @param end - Range end
+   * @returns Promise<Map<string, DeliveryOutcomeCounts>> Delivery counts by sender ID
+   */
+  async countDeliveryOutcomesByUser(start: Date, end: Date): Promise<Map<string, DeliveryOutcomeCounts>> {
+    const rows: Array<{ senderId: string, delivered: boolean, _count: { _all: number } }> =
+      await this.prisma.deliveryOutcome.groupBy({
+        by: ['senderId', 'delivered'],
+        where: { createdAt: { gte: start, lt: end } },
+        _count: { _all: true }
+      })
+
+    const counts = new Map<string, DeliveryOutcomeCounts>()
+    for (const row of rows) {
+      const sender = counts.get(row.senderId) || { attempted: 0, succeeded: 0 }
+      sender.attempted += row._count._all
+      if (row.delivered) {
+        sender.succeeded += row._count._all
+      }
+      counts.set(row.senderId, sender)
+    }
+    return counts
+  }
+
+  /**
+   * Count reports received per user over a range
+   * A report against a post counts for the post's author
+   * @param start - Range start
+   * @param end - Range end
+   * @returns Promise<Map<string, number>> Reports by reported user ID
+   */
+  async countReportsReceivedByUser(start: Date, end: Date): Promise<Map<string, number>> {
+    const reports: Array<{ reportedUserId: string | null, reportedPost: { authorId: string } | null }> =
+      await this.prisma.report.findMany({
+        where: { createdAt: { gte: start, lt: end } },
+        select: {
+          reportedUserId: true,
+          reportedPost: { select: { authorId: true } }
+        }
+      })
+
+    const counts = new Map<string, number>()
+    for (const report of reports) {
+      const userId = report.reportedUserId ?? report.reportedPost?.authorId
+      if (userId) {
+        counts.set(userId, (counts.get(userId) || 0) + 1)
+      }
+    }
+    return counts
+  }
+
+  /**
+   * List users that already have a rollup for a day
+   * @param date - Day, as midnight UTC
+   * @returns Promise<string[]> User IDs
+   */
+  async findDailyStatsUserIds(date: Date): Promise<string[]> {
+    const rows: Array<{ userId: string }> = await this.prisma.creatorDailyStats.findMany({
+      where: { date },
+      select: { userId: true }
+    })
+
+    return rows.map(row => row.userId)
+  }
+
+  /**
+   * Write a user's rollup for a day, replacing any earlier one
+   * @param userId - User ID
+   * @param date - Day, as midnight UTC
+   * @param counts - Totals for the day
+   */
+  async upsertDailyStats(userId: string, date: Date, counts: DailyStatsCounts): Promise<void> {
+    await this.prisma.creatorDailyStats.upsert({
+      where: { userId_date: { userId, date } },
+      create: { userId, date, ...counts },
+      update: counts
+    })
+  }
+
+  /**
+   * List a user's rollups over a range of days
+   * Days without activity have no row
+   * @param userId - User ID
+   * @param from - First day, as midnight UTC
+   * @param to - Last day, as midnight UTC (included)
+   * @returns Promise<DailyStats[]> Rollups, oldest first
+   */
+  async findDailyStats(userId: string, from: Date, to: Date): Promise<DailyStats[]> {
+    return await this.prisma.creatorDailyStats.findMany({
+      where: {
+        userId,
+        date: { gte: from, lte: to }
+      },
+      select: {
+        date: true,
+        newFollowers: true,
+        lostFollowers: true,
+        postsPublished: true,
+        deliveriesAttempted: true,
+        deliveriesSucceeded: true,
+        reportsReceived: true
+      },
+      orderBy: { date: 'asc' }
+    })
+  }
+}
+
+// Export types for use in other files
+export type {
+  DeliveryOutcomeCounts
+}
@@ -0,0 +1,199 @@
+// backend/src/repositories/DeliveryJobRepository.ts
+// Data access layer for the persistent ActivityPub delivery queue
+
+import { Prisma, PrismaClient } from '@prisma/client'
+
+interface DeliveryJobCreateData {
+  activityId: string
+  activity: Record<string, unknown>
+  inbox: string
+  host: string
+  senderId: string
+}
+
+interface DeliveryJob {
+  id: string
+  activityId: string
+  activity: Record<string, unknown>
+  inbox: string
+  host: string
+  senderId: string
+  status: 'PENDING' | 'PROCESSING' | 'DEAD'
+  attempts: number
+  nextAttemptAt: Date
+  lastError: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface PaginationOptions {
+  offset?: number | undefined
+  limit?: number | undefined
+}
+
+/**
+ * Delivery job repository class
+ * Handles database operations for queued outgoing activities
+ */
+export class DeliveryJobRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Queue deliveries, skipping activity/inbox pairs that are already queued
+   * @param jobs - Deliveries to queue
+   * @returns Promise<number> Number of jobs actually created
+   */
+  async enqueue(jobs: DeliveryJobCreateData[]): Promise<number> {
+    if (jobs.length === 0) {
+      return 0
+    }
+
+    const result = await this.prisma.deliveryJob.createMany({
+      data: jobs.map(job => ({
+        activityId: job.activityId,
+        activity: job.activity,
+        inbox: job.inbox,
+        host: job.host,
+        senderId: job.senderId
+      })),
+      skipDuplicates: true
+    })
+
+    return result.count
+  }
+
+  /**
+   * Claim due jobs for processing
+   * Only rows still PENDING are flipped, so concurrent workers never claim the same job twice
+   * @param limit - Maximum number of jobs to claim
+   * @param now - Current time
+   * @returns Promise<DeliveryJob[]> Jobs now marked PROCESSING
+   */
+  async claimDue(limit: number, now: Date = new Date()): Promise<DeliveryJob[]> {
+    const candidates = await this.prisma.deliveryJob.findMany({
+      where: {
+        status: 'PENDING',
+        nextAttemptAt: { lte: now }
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit
+    })
+
+    const claimed: DeliveryJob[] = []
+    for (const job of candidates) {
+      const result = await this.prisma.deliveryJob.updateMany({
+        where: { id: job.id, status: 'PENDING' },
+        data: { status: 'PROCESSING' }
+      })
+
+      if (result.count === 1) {
+        claimed.push({ ...job, status: 'PROCESSING' })
+      }
+    }
+
+    return claimed
+  }
+
+  /**
+   * Remove a job after successful delivery and record the outcome
+   * @param id - Delivery job ID
+   */
+  async markDelivered(id: string): Promise<void> {
+    await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const job = await tx.deliveryJob.delete({
+        where: { id }
+      })
+
+      await tx.deliveryOutcome.create({
+        data: { senderId: job.senderId, host: job.host, delivered: true }
+      })
+    })
+  }
+
+  /**
+   * Put a failed job back in the queue for a later attempt
+   * @param id - Delivery job ID
+   * @param attempts - Attempts made so far
+   * @param nextAttemptAt - When the job becomes due again
+   * @param error - Reason the last attempt failed
+   */
+  async scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void> {
+    await this.prisma.deliveryJob.update({
+      where: { id },
+      data: {
+        status: 'PENDING',
+        attempts,
+        nextAttemptAt,
+        lastError: error
+      }
+    })
+  }
+
+  /**
+   * Dead-letter a job that will not be retried and record the outcome
+   * @param id - Delivery job ID
+   * @param attempts - Attempts made so far
+   * @param error - Reason the last attempt failed
+   */
+  async markDead(id: string, attempts: number, error: string): Promise<void> {
+    await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const job = await tx.deliveryJob.update({
+        where: { id },
+        data: {
+          status: 'DEAD',
+          attempts,
+          lastError: error
+        }
+      })
+
+      await tx.deliveryOutcome.create({
+        data: { senderId: job.senderId, host: job.host, delivered: false }
+      })
+    })
+  }
+
+  /**
+   * Return jobs stuck in PROCESSING (e.g. after a crash) to the queue
+   * @param before - Jobs last touched before this time are considered stale
+   * @returns Promise<number> Number of jobs released
+   */
+  async releaseStale(before: Date): Promise<number> {
+    const result = await this.prisma.deliveryJob.updateMany({
+      where: {
+        status: 'PROCESSING',
+        updatedAt: { lt: before }
+      },
+      data: { status: 'PENDING' }
+    })
+
+    return result.count
+  }
+
+  /**
+   * List dead-lettered jobs, most recent first
+   * @param options - Pagination options
+   * @returns Promise<Object> Dead jobs with total count
+   */
+  async findDead(options: PaginationOptions = {}) {
+    const offset = Math.max(0, options.offset || 0)
+    const limit = Math.max(1, Math.min(100, options.limit || 20))
+
+    const [jobs, totalCount] = await Promise.all([
+      this.prisma.deliveryJob.findMany({
+        where: { status: 'DEAD' },
+        orderBy: { updatedAt: 'desc' },
+        skip: offset,
+        take: limit
+      }),
+      this.prisma.deliveryJob.count({ where: { status: 'DEAD' } })
+    ])
+
+    return { jobs, totalCount, hasMore: offset + limit < totalCount }
+  }
+}
+
+// Export types for use in other files
+export type {
+  DeliveryJob,
+  DeliveryJobCreateData
+}
@@ -1,12 +1,18 @@
 // backend/src/repositories/FollowRepository.ts
 // Complete data access layer for Follow operations using Prisma with proper TypeScript types
+// Version: 1.4.0 - Record lost followers when accepted follows are removed
+// Changed: 1.3.0 - Added pending follow requests for accounts that approve their followers
+// Changed: 1.2.0 - Added remote follower actor lookup for outbox delivery
+// Changed: 1.1.0 - Store ActivityPub Follow activity IDs and look up/remove federated follows
 
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
 
 interface FollowCreateData {
   followerId: string    // Required - either local user ID or external actor ID
   followedId: string    // Required - always a ParaSocial user ID
   actorId?: string | null | undefined // Optional - ActivityPub actor URI for federation
+  activityId?: string | null | undefined // Optional - URI of the remote Follow activity
+  isAccepted?: boolean | undefined // Optional - false stores a follow request awaiting approval
 }
 
 interface PaginationOptions {
@@ -19,6 +25,19 @@ interface FollowStats {
   followingCount: number
 }
 
+interface PendingFollow {
+  id: string
+  followerId: string
+  actorId: string | null
+  createdAt: Date
+}
+
+interface PendingFollowPage {
+  requests: PendingFollow[]
+  totalCount: number
+  hasMore: boolean
+}
+
 /**
  * Follow repository class
  * Handles database operations for follow relationships
@@ -43,7 +62,8 @@ export class FollowRepository {
         followerId: followData.followerId,
         followedId: followData.followedId,
         actorId: followData.actorId || null,
-        isAccepted: true // Default to accepted for Phase 2.3
+        ...(followData.activityId && { activityId: followData.activityId }),
+        isAccepted: followData.isAccepted ?? true
       },
       include: {
         followed: {
@@ -96,6 +116,7 @@ export class FollowRepository {
 
   /**
    * Delete follow relationship
+   * Removing an accepted follow records a lost follower for analytics
    * @param followerId - Follower ID or actor ID
    * @param followedId - Followed user ID
    * @returns Promise<Object|null> Deleted follow relationship or null if not found
@@ -109,24 +130,94 @@ export class FollowRepository {
     }
 
     // Delete the found follow relationship
-    return await this.prisma.follow.delete({
-      where: {
-        id: followToDelete.id
-      },
-      include: {
-        followed: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
-            isVerified: true
+    return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const deleted = await tx.follow.delete({
+        where: {
+          id: followToDelete.id
+        },
+        include: {
+          followed: {
+            select: {
+              id: true,
+              username: true,
+              displayName: true,
+              avatar: true,
+              isVerified: true
+            }
           }
         }
+      })
+
+      if (deleted.isAccepted) {
+        await tx.followerLoss.create({
+          data: { followedId: deleted.followedId, followedAt: deleted.createdAt }
+        })
+      }
+
+      return deleted
+    })
+  }
+
+  /**
+   * Find follow relationship by the ActivityPub Follow activity that created it
+   * @param activityId - Follow activity URI
+   * @returns Promise<Object|null> Follow relationship or null if not found
+   */
+  async findByActivityId(activityId: string) {
+    return await this.prisma.follow.findUnique({
+      where: { activityId }
+    })
+  }
+
+  /**
+   * Delete every follow created by a remote actor
+   * Used when the actor's account is deleted on its home instance
+   * Accepted follows are recorded as lost followers for analytics
+   * @param actorId - ActivityPub actor URI
+   * @returns Promise<number> Number of follows removed
+   */
+  async deleteByActorId(actorId: string): Promise<number> {
+    return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const accepted: Array<{ followedId: string, createdAt: Date }> = await tx.follow.findMany({
+        where: { actorId, isAccepted: true },
+        select: { followedId: true, createdAt: true }
+      })
+
+      const result = await tx.follow.deleteMany({
+        where: { actorId }
+      })
+
+      if (accepted.length > 0) {
+        await tx.followerLoss.createMany({
+          data: accepted.map(follow => ({ followedId: follow.followedId, followedAt: follow.createdAt }))
+        })
       }
+
+      return result.count
     })
   }
 
+  /**
+   * Get the actor URIs of every accepted remote follower of a user
+   * @param userId - Local user ID
+   * @returns Promise<string[]> Distinct ActivityPub actor URIs
+   */
+  async findRemoteFollowerActorIds(userId: string): Promise<string[]> {
+    const follows = await this.prisma.follow.findMany({
+      where: {
+        followedId: userId,
+        isAccepted: true,
+        actorId: { not: null }
+      },
+      select: { actorId: true },
+      distinct: ['actorId']
+    })
+
+    return follows
+      .map((follow: { actorId: string | null }) => follow.actorId)
+      .filter((actorId: string | null): actorId is string => !!actorId)
+  }
+
   /**
    * Find follow relationship by ID
    * @param id - Follow relationship ID
@@ -204,6 +295,81 @@ export class FollowRepository {
     }
   }
 
+  /**
+   * Get follow requests waiting for a user's approval, oldest first
+   * @param userId - User ID the requests were sent to
+   * @param options - Pagination options
+   * @returns Promise<PendingFollowPage> Requests array and total count
+   */
+  async findPendingByFollowedId(userId: string, options: PaginationOptions = {}): Promise<PendingFollowPage> {
+    const offset = Math.max(0, options.offset || 0)
+    const limit = Math.max(1, Math.min(100, options.limit || 20))
+
+    const requests = await this.prisma.follow.findMany({
+      where: {
+        followedId: userId,
+        isAccepted: false
+      },
+      select: {
+        id: true,
+        followerId: true,
+        actorId: true,
+        createdAt: true
+      },
+      orderBy: {
+        createdAt: 'asc'
+      },
+      skip: offset,
+      take: limit
+    })
+
+    const totalCount = await this.countPendingByFollowedId(userId)
+
+    return {
+      requests,
+      totalCount,
+      hasMore: offset + limit < totalCount
+    }
+  }
+
+  /**
+   * Count follow requests waiting for a user's approval
+   * @param userId - User ID the requests were sent to
+   * @returns Promise<number> Number of pending requests
+   */
+  async countPendingByFollowedId(userId: string): Promise<number> {
+    return await this.prisma.follow.count({
+      where: {
+        followedId: userId,
+        isAccepted: false
+      }
+    })
+  }
+
+  /**
+   * Approve a pending follow request
+   * @param id - Follow relationship ID
+   * @returns Promise<Object> Accepted follow relationship
+   */
+  async accept(id: string) {
+    return await this.prisma.follow.update({
+      where: { id },
+      data: { isAccepted: true }
+    })
+  }
+
+  /**
+   * Delete a follow relationship by ID
+   * Used to decline a follow request
+   * @param id - Follow relationship ID
+   * @returns Promise<Object> Deleted follow relationship
+   */
+  async deleteById(id: string) {
+    return await this.prisma.follow.delete({
+      where: { id }
+    })
+  }
+
   /**
    * Get users that a specific user is following with pagination
    * @param userId - User ID to get following list for
@@ -421,4 +587,10 @@ export class FollowRepository {
     // Use existing deleteByFollowerAndFollowed method
     return await this.deleteByFollowerAndFollowed(followerId, followedId)
   }
+}
+
+// Export types for use in other files
+export type {
+  PendingFollow,
+  PendingFollowPage
 }
\ No newline at end of file
@@ -1,19 +1,33 @@
 // backend/src/repositories/MediaRepository.ts
-// Version: 1.8
-// Temporarily removed null filtering methods - incompatible with current required postId schema
+// Version: 2.5.1
+// Changed: Uploads detached from a post are aged from when they were detached
+// Changed: Media of a deleted uploader has no uploaderId
 
 import { PrismaClient } from '@prisma/client'
 
+/**
+ * Processing state of a media record
+ * Mirrors the MediaProcessingStatus enum in the Prisma schema
+ */
+type MediaProcessingStatus = 'PENDING' | 'PROCESSING' | 'READY' | 'FAILED'
+
 interface MediaCreateData {
   id: string
   filename: string
+  originalName?: string
   url: string
+  thumbnailUrl?: string
+  previewUrl?: string
+  blurhash?: string
   mimeType: string
   size: number
   altText?: string
+  sensitive?: boolean
   width?: number
   height?: number
-  postId: string  // Required in current schema
+  uploaderId: string
+  postId?: string  // Left out for uploads that no post has claimed yet
+  processingStatus?: MediaProcessingStatus  // Defaults to READY
 }
 
 interface MediaUpdateData {
@@ -25,12 +39,68 @@ interface MediaUpdateData {
 
 interface MediaFilterOptions {
   postId?: string  // Specific post ID to filter by
+  uploaderId?: string
+  unattached?: boolean  // Only media no post has claimed yet
   mimeType?: string
   hasAltText?: boolean
   createdAfter?: Date
   createdBefore?: Date
 }
 
+/**
+ * Video claimed by the video processing job
+ */
+interface PendingVideo {
+  id: string
+  filename: string
+  mimeType: string
+}
+
+/**
+ * Result of transcoding a video, stored when it becomes ready
+ */
+interface ProcessedVideoData {
+  filename: string
+  url: string
+  mimeType: string
+  size: number
+  posterUrl: string
+  duration: number | null
+  width: number | null
+  height: number | null
+}
+
+/**
+ * Media looked up for serving, with what decides who may read it
+ * post is null while the upload is unattached
+ */
+interface ServableMedia {
+  id: string
+  filename: string
+  originalName: string | null
+  mimeType: string
+  size: number | null
+  thumbnailUrl: string | null
+  previewUrl: string | null
+  posterUrl: string | null
+  uploaderId: string | null  // Null once the uploader is deleted
+  updatedAt: Date
+  post: {
+    authorId: string
+    isPublished: boolean
+    moderationStatus: string
+    author: { isActive: boolean }
+  } | null
+}
+
+/**
+ * Unattached upload found by the orphan cleanup
+ */
+interface OrphanedMedia {
+  id: string
+  filename: string
+}
+
 interface PaginationOptions {
   offset?: number
   limit?: number
@@ -58,19 +128,40 @@ export class MediaRepository {
       url: mediaData.url,
       mimeType: mediaData.mimeType,
       size: mediaData.size,
-      postId: mediaData.postId  // Required in current schema
+      uploaderId: mediaData.uploaderId
     }
 
     // Only include optional fields if they have values
+    if (mediaData.postId !== undefined) {
+      data.postId = mediaData.postId
+    }
+    if (mediaData.originalName !== undefined) {
+      data.originalName = mediaData.originalName
+    }
+    if (mediaData.thumbnailUrl !== undefined) {
+      data.thumbnailUrl = mediaData.thumbnailUrl
+    }
+    if (mediaData.previewUrl !== undefined) {
+      data.previewUrl = mediaData.previewUrl
+    }
+    if (mediaData.blurhash !== undefined) {
+      data.blurhash = mediaData.blurhash
+    }
     if (mediaData.altText !== undefined) {
       data.altText = mediaData.altText
     }
+    if (mediaData.sensitive !== undefined) {
+      data.sensitive = mediaData.sensitive
+    }
     if (mediaData.width !== undefined) {
       data.width = mediaData.width
     }
     if (mediaData.height !== undefined) {
       data.height = mediaData.height
     }
+    if (mediaData.processingStatus !== undefined) {
+      data.processingStatus = mediaData.processingStatus
+    }
 
     return await this.prisma.media.create({ data })
   }
@@ -112,6 +203,50 @@ export class MediaRepository {
     })
   }
 
+  /**
+   * Find media to serve by its ID, its stored filename or the filename of one of its renditions
+   * Renditions are matched on the end of their URL, which ends in the storage key
+   * @param identifier - Media ID or storage key
+   * @returns Promise<ServableMedia|null> Media with its post's visibility, or null if not found
+   */
+  async findForServing(identifier: string): Promise<ServableMedia | null> {
+    const urlSuffix = `/${encodeURIComponent(identifier)}`
+
+    return await this.prisma.media.findFirst({
+      where: {
+        OR: [
+          { id: identifier },
+          { filename: identifier },
+          { thumbnailUrl: { endsWith: urlSuffix } },
+          { previewUrl: { endsWith: urlSuffix } },
+          { posterUrl: { endsWith: urlSuffix } }
+        ]
+      },
+      select: {
+        id: true,
+        filename: true,
+        originalName: true,
+        mimeType: true,
+        size: true,
+        thumbnailUrl: true,
+        previewUrl: true,
+        posterUrl: true,
+        uploaderId: true,
+        updatedAt: true,
+        post: {
+          select: {
+            authorId: true,
+            isPublished: true,
+            moderationStatus: true,
+            author: {
+              select: { isActive: true }
+            }
+          }
+        }
+      }
+    })
+  }
+
   /**
    * Update media record
    * @param id - Media ID to update
@@ -164,6 +299,8 @@ export class MediaRepository {
   ) {
     const {
       postId,
+      uploaderId,
+      unattached,
       mimeType,
       hasAltText,
       createdAfter,
@@ -182,6 +319,12 @@ export class MediaRepository {
     // Apply filters
     if (postId) {
       where.postId = postId
+    } else if (unattached) {
+      where.postId = null
+    }
+
+    if (uploaderId) {
+      where.uploaderId = uploaderId
     }
 
     if (mimeType) {
@@ -236,6 +379,8 @@ export class MediaRepository {
   async count(filters: MediaFilterOptions = {}) {
     const {
       postId,
+      uploaderId,
+      unattached,
       mimeType,
       hasAltText,
       createdAfter,
@@ -247,6 +392,12 @@ export class MediaRepository {
     // Apply same filters as findMany
     if (postId) {
       where.postId = postId
+    } else if (unattached) {
+      where.postId = null
+    }
+
+    if (uploaderId) {
+      where.uploaderId = uploaderId
     }
 
     if (mimeType) {
@@ -291,6 +442,149 @@ export class MediaRepository {
     })
   }
 
+  /**
+   * Attach an uploader's unattached media to their post
+   * Media that belongs to someone else or is already on a post is left alone,
+   * so a count lower than mediaIds.length means some IDs could not be attached
+   * @param mediaIds - Media IDs to attach
+   * @param postId - Post to attach them to
+   * @param uploaderId - User who must have uploaded every item
+   * @returns Promise<number> Number of media attached
+   */
+  async attachToPost(mediaIds: string[], postId: string, uploaderId: string): Promise<number> {
+    const result = await this.prisma.media.updateMany({
+      where: {
+        id: { in: mediaIds },
+        uploaderId,
+        postId: null
+      },
+      data: { postId }
+    })
+
+    return result.count
+  }
+
+  /**
+   * Find uploads that have been unattached since before a cutoff, oldest first
+   * Uploads taken off a post count from when they were detached, not uploaded
+   * @param unattachedBefore - Only uploads unattached since before this
+   * @param limit - Maximum number to return
+   * @returns Promise<OrphanedMedia[]> Orphaned media IDs and stored filenames
+   */
+  async findOrphaned(unattachedBefore: Date, limit: number): Promise<OrphanedMedia[]> {
+    return await this.prisma.media.findMany({
+      where: {
+        postId: null,
+        OR: [
+          { detachedAt: null, createdAt: { lt: unattachedBefore } },
+          { detachedAt: { lt: unattachedBefore } }
+        ]
+      },
+      select: {
+        id: true,
+        filename: true
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit
+    })
+  }
+
+  /**
+   * Delete media only while it is still unattached
+   * Guards the orphan cleanup against a post claiming the media mid-run
+   * @param id - Media ID
+   * @returns Promise<boolean> True if the record was deleted
+   */
+  async deleteIfUnattached(id: string): Promise<boolean> {
+    const result = await this.prisma.media.deleteMany({
+      where: {
+        id,
+        postId: null
+      }
+    })
+
+    return result.count === 1
+  }
+
+  /**
+   * Claim videos waiting to be processed, oldest first
+   * Only rows still PENDING are flipped, so concurrent workers never claim the same video twice
+   * @param limit - Maximum number of videos to claim
+   * @returns Promise<PendingVideo[]> Videos now marked PROCESSING
+   */
+  async claimPendingVideos(limit: number): Promise<PendingVideo[]> {
+    const candidates: PendingVideo[] = await this.prisma.media.findMany({
+      where: { processingStatus: 'PENDING' },
+      select: {
+        id: true,
+        filename: true,
+        mimeType: true
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit
+    })
+
+    const claimed: PendingVideo[] = []
+    for (const video of candidates) {
+      const result = await this.prisma.media.updateMany({
+        where: { id: video.id, processingStatus: 'PENDING' },
+        data: { processingStatus: 'PROCESSING' }
+      })
+
+      if (result.count === 1) {
+        claimed.push(video)
+      }
+    }
+
+    return claimed
+  }
+
+  /**
+   * Return videos stuck in PROCESSING (e.g. after a crash) to the queue
+   * @param before - Videos last touched before this time are considered stale
+   * @returns Promise<number> Number of videos released
+   */
+  async releaseStaleProcessing(before: Date): Promise<number> {
+    const result = await this.prisma.media.updateMany({
+      where: {
+        processingStatus: 'PROCESSING',
+        updatedAt: { lt: before }
+      },
+      data: { processingStatus: 'PENDING' }
+    })
+
+    return result.count
+  }
+
+  /**
+   * Record a transcoded video and mark it ready
+   * @param id - Media ID
+   * @param video - Stored file, poster and probed details of the transcoded video
+   * @returns Promise<boolean> False if the media was deleted while it was processed
+   */
+  async completeProcessing(id: string, video: ProcessedVideoData): Promise<boolean> {
+    const result = await this.prisma.media.updateMany({
+      where: { id, processingStatus: 'PROCESSING' },
+      data: {
+        ...video,
+        processingStatus: 'READY'
+      }
+    })
+
+    return result.count === 1
+  }
+
+  /**
+   * Mark a video that could not be transcoded
+   * @param id - Media ID
+   */
+  async markProcessingFailed(id: string): Promise<void> {
+    await this.prisma.media.updateMany({
+      where: { id, processingStatus: 'PROCESSING' },
+      data: { processingStatus: 'FAILED' }
+    })
+  }
+
   /**
    * Get media statistics
    * @returns Promise<Object> Usage statistics
@@ -321,4 +615,16 @@ export class MediaRepository {
       videoFiles: videoCount
     }
   }
-}
\ No newline at end of file
+}
+
+// Export types for use in other files
+export type {
+  MediaCreateData,
+  MediaUpdateData,
+  MediaFilterOptions,
+  MediaProcessingStatus,
+  PendingVideo,
+  ProcessedVideoData,
+  ServableMedia,
+  OrphanedMedia
+}
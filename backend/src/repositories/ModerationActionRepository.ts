@@ -0,0 +1,191 @@
+// backend/src/repositories/ModerationActionRepository.ts
+// Data access layer for moderator actions, their effects and their reversal
+
+import { PrismaClient, Prisma } from '@prisma/client'
+import {
+  ModerationAction,
+  ModerationActionType,
+  POST_ACTION_TYPES,
+  getPostModerationStatus
+} from '../models/ModerationAction'
+import { ReportStatus } from '../models/Report'
+
+/**
+ * Data needed to record a moderation action
+ */
+interface ModerationActionCreateData {
+  type: ModerationActionType
+  reason: string
+  reportId: string | null
+  moderatorId: string | null
+  targetUserId: string
+  targetPostId: string | null
+}
+
+/**
+ * Moderation action repository class
+ * Records actions and applies their effect to the user or post in one transaction
+ */
+export class ModerationActionRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Record an action, apply it and update the report it came from
+   * @param data - Action type, reason and targets
+   * @param reportStatus - Status to give the report, when the action came from one
+   * @param now - Time the action was taken
+   * @returns Promise<ModerationAction> Stored action
+   */
+  async applyAction(
+    data: ModerationActionCreateData,
+    reportStatus: ReportStatus | null,
+    now: Date = new Date()
+  ): Promise<ModerationAction> {
+    return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const action = await tx.moderationAction.create({
+        data: { ...data, createdAt: now }
+      })
+
+      if (data.type === ModerationActionType.SUSPEND_USER) {
+        await tx.user.update({
+          where: { id: data.targetUserId },
+          data: { isActive: false }
+        })
+      }
+
+      if (data.targetPostId && POST_ACTION_TYPES.includes(data.type)) {
+        await this.syncPostStatus(tx, data.targetPostId)
+      }
+
+      if (data.reportId && reportStatus) {
+        await tx.report.update({
+          where: { id: data.reportId },
+          data: {
+            status: reportStatus,
+            moderatorId: data.moderatorId,
+            reviewedAt: now,
+            ...(reportStatus === ReportStatus.RESOLVED ? { resolvedAt: now } : {})
+          }
+        })
+      }
+
+      return action
+    })
+  }
+
+  /**
+   * Reverse an action and undo its effect
+   * A user stays suspended, and a post stays hidden or removed, while another
+   * unreversed action still calls for it
+   * @param id - Action ID
+   * @param reversedById - Moderator reversing the action
+   * @param reason - Optional note explaining the reversal
+   * @param now - Time of the reversal
+   * @returns Promise<ModerationAction | null> Reversed action, or null if it was already reversed or does not exist
+   */
+  async reverse(
+    id: string,
+    reversedById: string,
+    reason: string | null,
+    now: Date = new Date()
+  ): Promise<ModerationAction | null> {
+    return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const result = await tx.moderationAction.updateMany({
+        where: { id, reversedAt: null },
+        data: { reversedAt: now, reversedById, reversalReason: reason }
+      })
+
+      if (result.count !== 1) {
+        return null
+      }
+
+      const action: ModerationAction = await tx.moderationAction.findUnique({ where: { id } })
+
+      if (action.type === ModerationActionType.SUSPEND_USER) {
+        const remainingSuspensions = await tx.moderationAction.count({
+          where: {
+            targetUserId: action.targetUserId,
+            type: ModerationActionType.SUSPEND_USER,
+            reversedAt: null
+          }
+        })
+
+        if (remainingSuspensions === 0) {
+          await tx.user.update({
+            where: { id: action.targetUserId },
+            data: { isActive: true }
+          })
+        }
+      }
+
+      if (action.targetPostId && POST_ACTION_TYPES.includes(action.type)) {
+        await this.syncPostStatus(tx, action.targetPostId)
+      }
+
+      return action
+    })
+  }
+
+  /**
+   * Find an action by ID
+   * @param id - Action ID
+   * @returns Promise<ModerationAction | null> Action or null if not found
+   */
+  async findById(id: string): Promise<ModerationAction | null> {
+    return await this.prisma.moderationAction.findUnique({
+      where: { id }
+    })
+  }
+
+  /**
+   * List the actions taken from a report, newest first
+   * @param reportId - Report ID
+   * @returns Promise<ModerationAction[]> Actions including reversed ones
+   */
+  async findByReportId(reportId: string): Promise<ModerationAction[]> {
+    return await this.prisma.moderationAction.findMany({
+      where: { reportId },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  /**
+   * List the actions taken against a user, newest first
+   * @param userId - Target user ID
+   * @param limit - Maximum number of actions
+   * @returns Promise<ModerationAction[]> Actions including reversed ones
+   */
+  async findByTargetUserId(userId: string, limit: number = 100): Promise<ModerationAction[]> {
+    return await this.prisma.moderationAction.findMany({
+      where: { targetUserId: userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+  }
+
+  /**
+   * Recompute Post.moderationStatus from the post's unreversed actions
+   * @param tx - Transaction client
+   * @param postId - Post ID
+   */
+  private async syncPostStatus(tx: Prisma.TransactionClient, postId: string): Promise<void> {
+    const activeActions: Array<{ type: ModerationActionType }> = await tx.moderationAction.findMany({
+      where: {
+        targetPostId: postId,
+        type: { in: [...POST_ACTION_TYPES] },
+        reversedAt: null
+      },
+      select: { type: true }
+    })
+
+    await tx.post.update({
+      where: { id: postId },
+      data: { moderationStatus: getPostModerationStatus(activeActions.map(action => action.type)) }
+    })
+  }
+}
+
+// Export types for use in other files
+export type {
+  ModerationActionCreateData
+}
@@ -1,12 +1,16 @@
-// backend/src/repositories/PostRepository.ts - Version 5.3.1
+// backend/src/repositories/PostRepository.ts - Version 5.12.2
 // Fixed to match test expectations: proper defaults, missing methods, correct query patterns
-// Changed: Fixed findReadyToPublish method to include media and _count relations
+// Changed: Media detached by replaceMedia records when, so the orphan cleanup waits a full grace period
+// Changed: Deleting a post detaches its media so the orphan cleanup removes the files
 
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, Prisma } from '@prisma/client'
+import type { MediaProcessingStatus } from './MediaRepository'
+import { labelsRequireSensitiveMedia } from '../models/Post'
 
 interface PostCreateData {
   content: string
   contentWarning?: string | null
+  contentLabels?: string[]
   isScheduled?: boolean
   scheduledFor?: Date | null
   isPublished?: boolean
@@ -17,11 +21,13 @@ interface PostCreateData {
 interface PostUpdateData {
   content?: string
   contentWarning?: string | null
+  contentLabels?: string[]
   isScheduled?: boolean
   scheduledFor?: Date | null
   isPublished?: boolean
   publishedAt?: Date | null
   activityId?: string | null
+  objectId?: string | null
 }
 
 interface PostFilterOptions {
@@ -44,6 +50,7 @@ interface PostWithRelations {
   id: string
   content: string
   contentWarning: string | null
+  contentLabels: string[]
   isScheduled: boolean
   scheduledFor: Date | null
   isPublished: boolean
@@ -51,6 +58,8 @@ interface PostWithRelations {
   updatedAt: Date
   publishedAt: Date | null
   activityId: string | null
+  objectId: string | null
+  moderationStatus: string
   authorId: string
   author: {
     id: string
@@ -60,15 +69,23 @@ interface PostWithRelations {
     actorId: string | null
     isVerified: boolean
     verificationTier: string | null
+    isActive?: boolean
   }
   media: Array<{
     id: string
     filename: string
     url: string
+    thumbnailUrl: string | null
+    previewUrl: string | null
+    blurhash: string | null
     mimeType: string
     altText: string | null
+    sensitive: boolean
     width: number | null
     height: number | null
+    posterUrl: string | null
+    duration: number | null
+    processingStatus: MediaProcessingStatus
   }>
   _count: {
     media: number
@@ -101,6 +118,7 @@ export class PostRepository {
       data: {
         content: postData.content,
         contentWarning: postData.contentWarning || null,
+        ...(postData.contentLabels && { contentLabels: postData.contentLabels }),
         isScheduled: postData.isScheduled || false,
         scheduledFor: postData.scheduledFor || null,
         isPublished: postData.isPublished !== undefined ? postData.isPublished : true,
@@ -125,10 +143,17 @@ export class PostRepository {
             id: true,
             filename: true,
             url: true,
+            thumbnailUrl: true,
+            previewUrl: true,
+            blurhash: true,
             mimeType: true,
             altText: true,
+            sensitive: true,
             width: true,
-            height: true
+            height: true,
+            posterUrl: true,
+            duration: true,
+            processingStatus: true
           }
         },
         _count: {
@@ -140,6 +165,102 @@ export class PostRepository {
     })
   }
 
+  /**
+   * Create a post and attach the author's unattached uploads to it
+   * Runs in one transaction, so nothing is saved unless every upload belongs to
+   * the author and no other post has claimed it
+   * @param postData - Post data to create
+   * @param mediaIds - IDs of media uploaded by the author
+   * @returns Promise<PostWithRelations|null> Created post with its media, or null if any media could not be attached
+   */
+  async createWithMedia(postData: PostCreateData, mediaIds: string[]): Promise<PostWithRelations | null> {
+    const uniqueIds = [...new Set(mediaIds)]
+    const unavailable = new Error('Media unavailable')
+
+    try {
+      const postId = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Repositories take any Prisma client; the transaction client keeps both writes together
+        const post = await new PostRepository(tx as unknown as PrismaClient).create(postData)
+
+        const { count } = await tx.media.updateMany({
+          where: {
+            id: { in: uniqueIds },
+            uploaderId: postData.authorId,
+            postId: null
+          },
+          data: {
+            postId: post.id,
+            ...(labelsRequireSensitiveMedia(postData.contentLabels ?? []) && { sensitive: true })
+          }
+        })
+        if (count !== uniqueIds.length) {
+          throw unavailable
+        }
+
+        return post.id
+      })
+
+      return await this.findById(postId)
+    } catch (error) {
+      if (error === unavailable) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Replace the media attached to a post with the author's uploads
+   * Uploads no longer listed go back to being unattached, so they can be
+   * attached again later; their orphan grace period starts again from now, so
+   * an old upload is not deleted on the next cleanup. Runs in one transaction,
+   * so nothing changes unless every listed upload belongs to the author and is
+   * free or already on the post
+   * @param postId - Post ID
+   * @param authorId - Post author's user ID
+   * @param mediaIds - IDs of the media the post should have; empty removes all
+   * @returns Promise<boolean> True if replaced, false if any media could not be attached
+   */
+  async replaceMedia(postId: string, authorId: string, mediaIds: string[]): Promise<boolean> {
+    const uniqueIds = [...new Set(mediaIds)]
+    const unavailable = new Error('Media unavailable')
+
+    try {
+      await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await tx.media.updateMany({
+          where: {
+            postId,
+            id: { notIn: uniqueIds }
+          },
+          data: { postId: null, detachedAt: new Date() }
+        })
+
+        if (uniqueIds.length === 0) {
+          return
+        }
+
+        const { count } = await tx.media.updateMany({
+          where: {
+            id: { in: uniqueIds },
+            uploaderId: authorId,
+            OR: [{ postId: null }, { postId }]
+          },
+          data: { postId }
+        })
+        if (count !== uniqueIds.length) {
+          throw unavailable
+        }
+      })
+
+      return true
+    } catch (error) {
+      if (error === unavailable) {
+        return false
+      }
+      throw error
+    }
+  }
+
   /**
    * Find post by ID with full relations (for detailed view)
    * @param id - Post ID
@@ -165,10 +286,17 @@ export class PostRepository {
             id: true,
             filename: true,
             url: true,
+            thumbnailUrl: true,
+            previewUrl: true,
+            blurhash: true,
             mimeType: true,
             altText: true,
+            sensitive: true,
             width: true,
-            height: true
+            height: true,
+            posterUrl: true,
+            duration: true,
+            processingStatus: true
           }
         },
         _count: {
@@ -221,7 +349,8 @@ export class PostRepository {
             avatar: true,
             actorId: true,
             isVerified: true,
-            verificationTier: true
+            verificationTier: true,
+            isActive: true
           }
         },
         media: {
@@ -229,10 +358,17 @@ export class PostRepository {
             id: true,
             filename: true,
             url: true,
+            thumbnailUrl: true,
+            previewUrl: true,
+            blurhash: true,
             mimeType: true,
             altText: true,
+            sensitive: true,
             width: true,
-            height: true
+            height: true,
+            posterUrl: true,
+            duration: true,
+            processingStatus: true
           }
         },
         _count: {
@@ -293,10 +429,17 @@ export class PostRepository {
               id: true,
               filename: true,
               url: true,
+              thumbnailUrl: true,
+              previewUrl: true,
+              blurhash: true,
               mimeType: true,
               altText: true,
+              sensitive: true,
               width: true,
-              height: true
+              height: true,
+              posterUrl: true,
+              duration: true,
+              processingStatus: true
             }
           },
           _count: {
@@ -335,7 +478,9 @@ export class PostRepository {
     // Build where clause for published posts
     const where: any = {
       isPublished: true,
-      publishedAt: { not: null } // Ensure posts have been actually published
+      publishedAt: { not: null }, // Ensure posts have been actually published
+      moderationStatus: 'visible', // Skip posts hidden or removed by moderators
+      author: { isActive: true } // Skip posts by suspended authors
     }
 
     // Add optional filters
@@ -376,10 +521,17 @@ export class PostRepository {
               id: true,
               filename: true,
               url: true,
+              thumbnailUrl: true,
+              previewUrl: true,
+              blurhash: true,
               mimeType: true,
               altText: true,
+              sensitive: true,
               width: true,
-              height: true
+              height: true,
+              posterUrl: true,
+              duration: true,
+              processingStatus: true
             }
           },
           _count: {
@@ -428,10 +580,17 @@ export class PostRepository {
             id: true,
             filename: true,
             url: true,
+            thumbnailUrl: true,
+            previewUrl: true,
+            blurhash: true,
             mimeType: true,
             altText: true,
+            sensitive: true,
             width: true,
-            height: true
+            height: true,
+            posterUrl: true,
+            duration: true,
+            processingStatus: true
           }
         },
         _count: {
@@ -486,10 +645,17 @@ export class PostRepository {
               id: true,
               filename: true,
               url: true,
+              thumbnailUrl: true,
+              previewUrl: true,
+              blurhash: true,
               mimeType: true,
               altText: true,
+              sensitive: true,
               width: true,
-              height: true
+              height: true,
+              posterUrl: true,
+              duration: true,
+              processingStatus: true
             }
           },
           _count: {
@@ -533,10 +699,17 @@ export class PostRepository {
             id: true,
             filename: true,
             url: true,
+            thumbnailUrl: true,
+            previewUrl: true,
+            blurhash: true,
             mimeType: true,
             altText: true,
+            sensitive: true,
             width: true,
-            height: true
+            height: true,
+            posterUrl: true,
+            duration: true,
+            processingStatus: true
           }
         },
         _count: {
@@ -591,11 +764,10 @@ export class PostRepository {
   /**
    * Batch publish expired scheduled posts
    * @param limit - Maximum number of posts to publish (default 50)
+   * @param now - Current time; posts scheduled at or before it are published
    * @returns Promise<Array> Array of published posts
    */
-  async publishExpiredScheduled(limit: number = 50) {
-    const now = new Date()
-
+  async publishExpiredScheduled(limit: number = 50, now: Date = new Date()) {
     // Find expired scheduled posts
     const expiredPosts = await this.prisma.post.findMany({
       where: {
@@ -653,7 +825,7 @@ export class PostRepository {
         }
       }
 
-      return await this.prisma.post.update({
+      const post = await this.prisma.post.update({
         where: { id },
         data: dataToUpdate,
         include: {
@@ -673,10 +845,17 @@ export class PostRepository {
               id: true,
               filename: true,
               url: true,
+              thumbnailUrl: true,
+              previewUrl: true,
+              blurhash: true,
               mimeType: true,
               altText: true,
+              sensitive: true,
               width: true,
-              height: true
+              height: true,
+              posterUrl: true,
+              duration: true,
+              processingStatus: true
             }
           },
           _count: {
@@ -686,29 +865,85 @@ export class PostRepository {
           }
         }
       })
+
+      // Attachments added after a label like flashing-lights was set are covered too
+      if (labelsRequireSensitiveMedia(post.contentLabels ?? []) &&
+          post.media.some((media: PostWithRelations['media'][number]) => !media.sensitive)) {
+        await this.prisma.media.updateMany({
+          where: { postId: id },
+          data: { sensitive: true }
+        })
+        post.media = post.media.map((media: PostWithRelations['media'][number]) => ({ ...media, sensitive: true }))
+      }
+
+      return post
     } catch (error) {
       return null
     }
   }
 
+  /**
+   * Apply a lifecycle change only if the post is still in the state it was read in
+   * Guards against the scheduler publishing the post between the read and the write
+   * @param id - Post ID
+   * @param state - isPublished and isScheduled as last read
+   * @param updateData - Data to write
+   * @param now - Time of the change, used for publishedAt when publishing
+   * @returns Promise<PostWithRelations|null> Updated post, or null if the post changed state or is gone
+   */
+  async updateIfState(
+    id: string,
+    state: { isPublished: boolean, isScheduled: boolean },
+    updateData: PostUpdateData,
+    now: Date = new Date()
+  ): Promise<PostWithRelations | null> {
+    const result = await this.prisma.post.updateMany({
+      where: { id, ...state },
+      data: {
+        ...updateData,
+        ...(updateData.isPublished && !state.isPublished ? { publishedAt: now } : {}),
+        updatedAt: now
+      }
+    })
+
+    if (result.count !== 1) {
+      return null
+    }
+
+    return await this.findById(id)
+  }
+
   /**
    * Delete post by ID
+   * Its media is left unattached, like media an edit takes off, so the orphan
+   * cleanup deletes the stored files once the grace period has passed
    * @param id - Post ID
    * @returns Promise<Object|null> Deleted post with media info or null if not found
    */
   async delete(id: string) {
     try {
-      return await this.prisma.post.delete({
-        where: { id },
-        include: {
-          media: {
-            select: {
-              id: true,
-              url: true,
-              filename: true
+      return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const deleted = await tx.post.delete({
+          where: { id },
+          include: {
+            media: {
+              select: {
+                id: true,
+                url: true,
+                filename: true
+              }
             }
           }
+        })
+
+        if (deleted.media.length > 0) {
+          await tx.media.updateMany({
+            where: { id: { in: deleted.media.map((media: { id: string }) => media.id) } },
+            data: { postId: null, detachedAt: new Date() }
+          })
         }
+
+        return deleted
       })
     } catch (error) {
       return null
@@ -730,4 +965,4 @@ export class PostRepository {
   }
 }
 
-// backend/src/repositories/PostRepository.ts - Version 5.3.1
\ No newline at end of file
+// backend/src/repositories/PostRepository.ts - Version 5.11.0
\ No newline at end of file
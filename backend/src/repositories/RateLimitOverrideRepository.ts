@@ -0,0 +1,90 @@
+// backend/src/repositories/RateLimitOverrideRepository.ts
+// Data access layer for admin-set per-user rate limits
+
+import { PrismaClient } from '@prisma/client'
+import type { UserRateLimitPolicyName } from '../config/rateLimit'
+
+interface RateLimitOverride {
+  id: string
+  userId: string
+  policy: string
+  max: number
+  windowMs: number | null
+  reason: string | null
+  createdById: string | null
+  expiresAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Data needed to set a user's limit for one policy
+ */
+interface RateLimitOverrideData {
+  userId: string
+  policy: UserRateLimitPolicyName
+  max: number
+  windowMs: number | null
+  reason: string | null
+  createdById: string | null
+  expiresAt: Date | null
+}
+
+/**
+ * Rate limit override repository class
+ * Each user has at most one override per policy
+ */
+export class RateLimitOverrideRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * List a user's overrides that have not expired
+   * @param userId - User ID
+   * @param now - Current time
+   * @returns Promise<RateLimitOverride[]> Overrides ordered by policy
+   */
+  async findActiveByUserId(userId: string, now: Date = new Date()): Promise<RateLimitOverride[]> {
+    return await this.prisma.rateLimitOverride.findMany({
+      where: {
+        userId,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+      },
+      orderBy: { policy: 'asc' }
+    })
+  }
+
+  /**
+   * Set a user's limit for a policy, replacing any existing override
+   * @param data - User, policy, limit and audit details
+   * @returns Promise<RateLimitOverride> Stored override
+   */
+  async upsert(data: RateLimitOverrideData): Promise<RateLimitOverride> {
+    const { userId, policy, ...values } = data
+
+    return await this.prisma.rateLimitOverride.upsert({
+      where: { userId_policy: { userId, policy } },
+      create: data,
+      update: values
+    })
+  }
+
+  /**
+   * Remove a user's override for a policy
+   * @param userId - User ID
+   * @param policy - Policy name
+   * @returns Promise<boolean> True if an override was removed
+   */
+  async delete(userId: string, policy: UserRateLimitPolicyName): Promise<boolean> {
+    const result = await this.prisma.rateLimitOverride.deleteMany({
+      where: { userId, policy }
+    })
+
+    return result.count > 0
+  }
+}
+
+// Export types for use in other files
+export type {
+  RateLimitOverride,
+  RateLimitOverrideData
+}
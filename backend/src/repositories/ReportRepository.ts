@@ -1,6 +1,7 @@
 // backend/src/repositories/ReportRepository.ts
-// Version: 1.0.0
+// Version: 1.1.0
 // Complete ReportRepository implementation for content moderation system
+// Changed: Added open report counts for the creator dashboard and staff queue
 //
 // IMPORTANT: Run these commands to enable full type safety:
 // 1. npm run db:generate  (generates Prisma types)
@@ -20,6 +21,7 @@ import {
   ReportRepositoryInterface, 
   ReportError 
 } from '../models/Report'
+import { OPEN_REPORT_STATUSES, OpenReportGroup, ReportedPost } from '../models/ModerationDashboard'
 
 /**
  * Prisma implementation of the report repository
@@ -446,6 +448,120 @@ export class ReportRepository implements ReportRepositoryInterface {
     })
   }
 
+  /**
+   * Count reports against an account that are still waiting for a decision
+   * @param userId - Reported user ID
+   * @returns Promise<number> - Number of open reports
+   */
+  async countOpenByReportedUser(userId: string): Promise<number> {
+    try {
+      return await this.prisma.report.count({
+        where: {
+          reportedUserId: userId,
+          status: { in: [...OPEN_REPORT_STATUSES] }
+        }
+      })
+    } catch (error) {
+      throw new ReportError(
+        'Failed to count open user reports',
+        'COUNT_OPEN_FAILED',
+        500
+      )
+    }
+  }
+
+  /**
+   * List an author's posts that have been reported, most recently reported first
+   * @param authorId - Post author ID
+   * @returns Promise<ReportedPost[]> - Report counts per post
+   */
+  async findReportedPostsByAuthor(authorId: string): Promise<ReportedPost[]> {
+    try {
+      // Grouping by status as well gives the open count without a second query
+      const groups: Array<{
+        reportedPostId: string
+        status: ReportStatus
+        _count: { _all: number }
+        _max: { createdAt: Date }
+      }> = await (this.prisma.report.groupBy as any)({
+        by: ['reportedPostId', 'status'],
+        where: { reportedPost: { authorId } },
+        _count: { _all: true },
+        _max: { createdAt: true }
+      })
+
+      const posts = new Map<string, ReportedPost>()
+      for (const group of groups) {
+        const post = posts.get(group.reportedPostId) || {
+          postId: group.reportedPostId,
+          reportCount: 0,
+          openCount: 0,
+          latestReportAt: group._max.createdAt
+        }
+        post.reportCount += group._count._all
+        if (OPEN_REPORT_STATUSES.includes(group.status)) {
+          post.openCount += group._count._all
+        }
+        if (group._max.createdAt > post.latestReportAt) {
+          post.latestReportAt = group._max.createdAt
+        }
+        posts.set(group.reportedPostId, post)
+      }
+
+      return Array.from(posts.values())
+        .sort((a, b) => b.latestReportAt.getTime() - a.latestReportAt.getTime())
+
+    } catch (error) {
+      throw new ReportError(
+        'Failed to find reported posts for author',
+        'FIND_REPORTED_POSTS_FAILED',
+        500
+      )
+    }
+  }
+
+  /**
+   * Group open reports against accounts by type
+   * @param userIds - Reported user IDs
+   * @returns Promise<OpenReportGroup[]> - Count and oldest report per account and type
+   */
+  async findOpenGroupsByReportedUsers(userIds: string[]): Promise<OpenReportGroup[]> {
+    if (userIds.length === 0) {
+      return []
+    }
+
+    try {
+      const groups: Array<{
+        reportedUserId: string
+        type: ReportType
+        _count: { _all: number }
+        _min: { createdAt: Date }
+      }> = await (this.prisma.report.groupBy as any)({
+        by: ['reportedUserId', 'type'],
+        where: {
+          reportedUserId: { in: userIds },
+          status: { in: [...OPEN_REPORT_STATUSES] }
+        },
+        _count: { _all: true },
+        _min: { createdAt: true }
+      })
+
+      return groups.map(group => ({
+        userId: group.reportedUserId,
+        type: group.type,
+        count: group._count._all,
+        oldestAt: group._min.createdAt
+      }))
+
+    } catch (error) {
+      throw new ReportError(
+        'Failed to group open reports by user',
+        'GROUP_OPEN_FAILED',
+        500
+      )
+    }
+  }
+
   /**
    * Map Prisma report object to Report interface
    * Handles type conversion and ensures consistent data structure across the application
@@ -471,5 +587,6 @@ export class ReportRepository implements ReportRepositoryInterface {
 }
 
 // backend/src/repositories/ReportRepository.ts
-// Version: 1.0.0
-// Complete ReportRepository implementation for content moderation system
\ No newline at end of file
+// Version: 1.1.0
+// Complete ReportRepository implementation for content moderation system
+// Changed: Added open report counts for the creator dashboard and staff queue
\ No newline at end of file
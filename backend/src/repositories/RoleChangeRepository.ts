@@ -0,0 +1,84 @@
+// backend/src/repositories/RoleChangeRepository.ts
+// Data access layer for user role changes and their audit trail
+
+import { PrismaClient, Prisma } from '@prisma/client'
+import type { UserRole } from '../models/User'
+
+interface RoleChange {
+  id: string
+  userId: string
+  actorId: string | null
+  previousRole: string
+  newRole: string
+  reason: string | null
+  createdAt: Date
+}
+
+/**
+ * Data needed to change a user's role
+ */
+interface RoleChangeData {
+  userId: string
+  actorId: string | null
+  previousRole: UserRole
+  newRole: UserRole
+  reason: string | null
+}
+
+/**
+ * Role change repository class
+ * Updates roles and records who changed them in one transaction
+ */
+export class RoleChangeRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Change a user's role and write the audit entry
+   * The update only applies if the role is still previousRole, so two admins
+   * changing the same user at once cannot both succeed
+   * @param data - Target user, acting admin, roles and reason
+   * @returns Promise<RoleChange | null> Audit entry, or null if the role changed underneath us
+   */
+  async applyChange(data: RoleChangeData): Promise<RoleChange | null> {
+    return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const result = await tx.user.updateMany({
+        where: { id: data.userId, role: data.previousRole },
+        data: { role: data.newRole }
+      })
+
+      if (result.count !== 1) {
+        return null
+      }
+
+      return await tx.roleChange.create({
+        data: {
+          userId: data.userId,
+          actorId: data.actorId,
+          previousRole: data.previousRole,
+          newRole: data.newRole,
+          reason: data.reason
+        }
+      })
+    })
+  }
+
+  /**
+   * List a user's role changes, newest first
+   * @param userId - User ID
+   * @param limit - Maximum number of entries
+   * @returns Promise<RoleChange[]> Audit entries
+   */
+  async findByUserId(userId: string, limit: number = 50): Promise<RoleChange[]> {
+    return await this.prisma.roleChange.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+  }
+}
+
+// Export types for use in other files
+export type {
+  RoleChange,
+  RoleChangeData
+}
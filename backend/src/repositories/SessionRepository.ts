@@ -0,0 +1,186 @@
+// backend/src/repositories/SessionRepository.ts
+// Data access layer for logged-in sessions and their refresh tokens
+
+import { PrismaClient, Prisma } from '@prisma/client'
+
+interface SessionCreateData {
+  userId: string
+  userAgent: string | null
+  ipAddress: string | null
+  expiresAt: Date
+}
+
+interface Session {
+  id: string
+  userId: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: Date
+  lastUsedAt: Date
+  expiresAt: Date
+  revokedAt: Date | null
+  revokedReason: string | null
+}
+
+interface RefreshTokenWithSession {
+  id: string
+  sessionId: string
+  tokenHash: string
+  createdAt: Date
+  usedAt: Date | null
+  session: Session
+}
+
+type SessionRevokeReason = 'logout' | 'user_revoked' | 'refresh_token_reuse' | 'password_reset' | 'role_revoked' | 'suspended'
+
+/**
+ * Session repository class
+ * Handles database operations for sessions and refresh token rotation
+ */
+export class SessionRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Create a session together with its first refresh token
+   * @param data - Session data
+   * @param tokenHash - Hash of the initial refresh token
+   * @returns Promise<Session> Created session
+   */
+  async create(data: SessionCreateData, tokenHash: string): Promise<Session> {
+    return await this.prisma.session.create({
+      data: {
+        userId: data.userId,
+        userAgent: data.userAgent,
+        ipAddress: data.ipAddress,
+        expiresAt: data.expiresAt,
+        refreshTokens: {
+          create: { tokenHash }
+        }
+      }
+    })
+  }
+
+  /**
+   * Find session by ID
+   * @param id - Session ID
+   * @returns Promise<Session | null> Session or null if not found
+   */
+  async findById(id: string): Promise<Session | null> {
+    return await this.prisma.session.findUnique({
+      where: { id }
+    })
+  }
+
+  /**
+   * List a user's sessions that are neither revoked nor expired
+   * @param userId - User ID
+   * @param now - Current time
+   * @returns Promise<Session[]> Active sessions, most recently used first
+   */
+  async findActiveByUserId(userId: string, now: Date = new Date()): Promise<Session[]> {
+    return await this.prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: now }
+      },
+      orderBy: { lastUsedAt: 'desc' }
+    })
+  }
+
+  /**
+   * Find a refresh token by its hash, including the session it belongs to
+   * @param tokenHash - SHA-256 hash of the presented refresh token
+   * @returns Promise<RefreshTokenWithSession | null> Token row or null if unknown
+   */
+  async findRefreshToken(tokenHash: string): Promise<RefreshTokenWithSession | null> {
+    return await this.prisma.refreshToken.findUnique({
+      where: { tokenHash },
+      include: { session: true }
+    })
+  }
+
+  /**
+   * Exchange a refresh token for a new one
+   * The old token is only consumed if it is still unused, so two concurrent
+   * refreshes with the same token cannot both succeed.
+   * @param tokenId - ID of the token being exchanged
+   * @param sessionId - Session the tokens belong to
+   * @param newTokenHash - Hash of the replacement token
+   * @param context - Where the refresh came from
+   * @param now - Current time
+   * @returns Promise<boolean> False if the token had already been used
+   */
+  async rotateRefreshToken(
+    tokenId: string,
+    sessionId: string,
+    newTokenHash: string,
+    context: { userAgent: string | null, ipAddress: string | null },
+    now: Date = new Date()
+  ): Promise<boolean> {
+    return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const consumed = await tx.refreshToken.updateMany({
+        where: { id: tokenId, usedAt: null },
+        data: { usedAt: now }
+      })
+
+      if (consumed.count !== 1) {
+        return false
+      }
+
+      await tx.refreshToken.create({
+        data: { sessionId, tokenHash: newTokenHash }
+      })
+      await tx.session.update({
+        where: { id: sessionId },
+        data: {
+          lastUsedAt: now,
+          ...(context.userAgent ? { userAgent: context.userAgent } : {}),
+          ...(context.ipAddress ? { ipAddress: context.ipAddress } : {})
+        }
+      })
+
+      return true
+    })
+  }
+
+  /**
+   * Revoke a session if it is not already revoked
+   * @param id - Session ID
+   * @param reason - Why the session was revoked
+   * @param now - Current time
+   * @returns Promise<boolean> True if the session was revoked by this call
+   */
+  async revoke(id: string, reason: SessionRevokeReason, now: Date = new Date()): Promise<boolean> {
+    const result = await this.prisma.session.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: now, revokedReason: reason }
+    })
+
+    return result.count === 1
+  }
+
+  /**
+   * Revoke every active session for a user
+   * @param userId - User ID
+   * @param reason - Why the sessions were revoked
+   * @param now - Current time
+   * @returns Promise<number> Number of sessions revoked
+   */
+  async revokeAllForUser(userId: string, reason: SessionRevokeReason, now: Date = new Date()): Promise<number> {
+    const result = await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now, revokedReason: reason }
+    })
+
+    return result.count
+  }
+}
+
+// Export types for use in other files
+export type {
+  Session,
+  SessionCreateData,
+  SessionRevokeReason,
+  RefreshTokenWithSession
+}
@@ -0,0 +1,154 @@
+// backend/src/repositories/TwoFactorRepository.ts
+// Data access layer for TOTP credentials and recovery codes
+
+import { PrismaClient, Prisma } from '@prisma/client'
+
+interface TwoFactorCredential {
+  id: string
+  userId: string
+  secret: string
+  enabledAt: Date | null
+  lastUsedStep: number | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Two-factor repository class
+ * Handles database operations for TOTP secrets and one-time recovery codes
+ */
+export class TwoFactorRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Find a user's TOTP credential, enabled or still pending confirmation
+   * @param userId - User ID
+   * @returns Promise<TwoFactorCredential | null> Credential or null if the user never started setup
+   */
+  async findByUserId(userId: string): Promise<TwoFactorCredential | null> {
+    return await this.prisma.twoFactorCredential.findUnique({
+      where: { userId }
+    })
+  }
+
+  /**
+   * Store a new unconfirmed secret, replacing any earlier unfinished setup
+   * @param userId - User ID
+   * @param secret - Encrypted TOTP secret
+   * @returns Promise<TwoFactorCredential> Pending credential
+   */
+  async savePendingSecret(userId: string, secret: string): Promise<TwoFactorCredential> {
+    return await this.prisma.twoFactorCredential.upsert({
+      where: { userId },
+      create: { userId, secret },
+      update: { secret, enabledAt: null, lastUsedStep: null }
+    })
+  }
+
+  /**
+   * Turn on two-factor authentication and store the first recovery codes
+   * Only succeeds for a pending credential, so a second confirmation cannot replace the codes
+   * @param userId - User ID
+   * @param step - TOTP step of the code that confirmed setup
+   * @param codeHashes - Hashed recovery codes
+   * @param now - Current time
+   * @returns Promise<boolean> True if the credential was pending and is now enabled
+   */
+  async enable(userId: string, step: number, codeHashes: string[], now: Date = new Date()): Promise<boolean> {
+    return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const result = await tx.twoFactorCredential.updateMany({
+        where: { userId, enabledAt: null },
+        data: { enabledAt: now, lastUsedStep: step }
+      })
+
+      if (result.count !== 1) {
+        return false
+      }
+
+      await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } })
+      await tx.twoFactorRecoveryCode.createMany({
+        data: codeHashes.map(codeHash => ({ userId, codeHash }))
+      })
+
+      return true
+    })
+  }
+
+  /**
+   * Record the step of an accepted code
+   * Fails if that step or a later one was already used, which stops replays
+   * @param userId - User ID
+   * @param step - TOTP step of the accepted code
+   * @returns Promise<boolean> True if the step had not been used yet
+   */
+  async recordUsedStep(userId: string, step: number): Promise<boolean> {
+    const result = await this.prisma.twoFactorCredential.updateMany({
+      where: {
+        userId,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }]
+      },
+      data: { lastUsedStep: step }
+    })
+
+    return result.count === 1
+  }
+
+  /**
+   * Use up a recovery code
+   * @param userId - User ID
+   * @param codeHash - Hash of the presented code
+   * @param now - Current time
+   * @returns Promise<boolean> True if the code existed and had not been used
+   */
+  async consumeRecoveryCode(userId: string, codeHash: string, now: Date = new Date()): Promise<boolean> {
+    const result = await this.prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: now }
+    })
+
+    return result.count === 1
+  }
+
+  /**
+   * Count a user's unused recovery codes
+   * @param userId - User ID
+   * @returns Promise<number> Codes still available
+   */
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    return await this.prisma.twoFactorRecoveryCode.count({
+      where: { userId, usedAt: null }
+    })
+  }
+
+  /**
+   * Replace all of a user's recovery codes with a new set
+   * @param userId - User ID
+   * @param codeHashes - Hashed recovery codes
+   */
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } })
+      await tx.twoFactorRecoveryCode.createMany({
+        data: codeHashes.map(codeHash => ({ userId, codeHash }))
+      })
+    })
+  }
+
+  /**
+   * Remove a user's credential and recovery codes
+   * @param userId - User ID
+   * @returns Promise<boolean> True if a credential was removed
+   */
+  async delete(userId: string): Promise<boolean> {
+    return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } })
+      const result = await tx.twoFactorCredential.deleteMany({ where: { userId } })
+      return result.count > 0
+    })
+  }
+}
+
+// Export types for use in other files
+export type {
+  TwoFactorCredential
+}
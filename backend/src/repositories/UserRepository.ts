@@ -1,7 +1,7 @@
 // backend/src/repositories/UserRepository.ts
 // Enhanced user repository with methods for authentication and user management using proper TypeScript types
 
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
 import { User } from '../models/User'
 
 interface UserCreateData {
@@ -12,16 +12,22 @@ interface UserCreateData {
   bio?: string | null
   isVerified?: boolean
   verificationTier?: string
+  actorId?: string
+  publicKey?: string
+  privateKey?: string
 }
 
 interface UserUpdateData {
+  username?: string
   displayName?: string
-  bio?: string
-  avatar?: string
-  website?: string
+  bio?: string | null
+  avatar?: string | null
+  website?: string | null
   isVerified?: boolean
   verificationTier?: string
   isActive?: boolean
+  approveFollowers?: boolean
+  autoExpandLabels?: string[]
 }
 
 interface SearchOptions {
@@ -50,7 +56,10 @@ export class UserRepository {
         displayName: userData.displayName || userData.username,
         bio: userData.bio || '',
         isVerified: userData.isVerified ?? false,
-        verificationTier: userData.verificationTier || 'none'
+        verificationTier: userData.verificationTier || 'none',
+        actorId: userData.actorId ?? null,
+        publicKey: userData.publicKey ?? null,
+        privateKey: userData.privateKey ?? null
       }
     })
 
@@ -70,6 +79,20 @@ export class UserRepository {
     return dbUser ? new User(dbUser) : null
   }
 
+  /**
+   * Check whether a user's account is active (not suspended or deactivated)
+   * @param id - User ID
+   * @returns Promise<boolean> True if the user exists and is active
+   */
+  async isActive(id: string): Promise<boolean> {
+    const dbUser = await this.prisma.user.findUnique({
+      where: { id },
+      select: { isActive: true }
+    })
+
+    return dbUser?.isActive === true
+  }
+
   /**
    * Find user by email
    * @param email - User email
@@ -96,6 +119,20 @@ export class UserRepository {
     return dbUser ? new User(dbUser) : null
   }
 
+  /**
+   * Find user by ActivityPub actor URI
+   * The URI keeps the username the account federated under, even after a rename
+   * @param actorId - Actor URI
+   * @returns Promise<User|null> User instance or null if not found
+   */
+  async findByActorId(actorId: string): Promise<User | null> {
+    const dbUser = await this.prisma.user.findUnique({
+      where: { actorId }
+    })
+
+    return dbUser ? new User(dbUser) : null
+  }
+
   /**
    * Find user by email or username
    * @param email - User email
@@ -115,6 +152,23 @@ export class UserRepository {
     return dbUser ? new User(dbUser) : null
   }
 
+  /**
+   * Find several users by ID
+   * @param ids - User IDs
+   * @returns Promise<User[]> Users that exist, in no particular order
+   */
+  async findByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) {
+      return []
+    }
+
+    const dbUsers = await this.prisma.user.findMany({
+      where: { id: { in: ids } }
+    })
+
+    return dbUsers.map(dbUser => new User(dbUser))
+  }
+
   /**
    * Find user by username with follower and post counts
    * @param username - Username
@@ -126,7 +180,8 @@ export class UserRepository {
       include: {
         _count: {
           select: {
-            followers: true,
+            // Follow requests still awaiting approval are not followers yet
+            followers: { where: { isAccepted: true } },
             posts: true
           }
         }
@@ -190,13 +245,32 @@ export class UserRepository {
 
   /**
    * Hard delete user (permanently remove from database)
+   * The user's uploads are left unattached and without an uploader, so the
+   * orphan cleanup deletes the stored files
    * @param id - User ID
    * @returns Promise<boolean> True if user was deleted
    */
   async hardDelete(id: string): Promise<boolean> {
     try {
-      await this.prisma.user.delete({
-        where: { id }
+      // Follows made by the user have no foreign key (followers may be remote), so remove them explicitly
+      // and record the accepted ones as lost followers of the accounts they followed
+      await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const accepted: Array<{ followedId: string, createdAt: Date }> = await tx.follow.findMany({
+          where: { followerId: id, isAccepted: true },
+          select: { followedId: true, createdAt: true }
+        })
+
+        await tx.follow.deleteMany({ where: { followerId: id } })
+        if (accepted.length > 0) {
+          await tx.followerLoss.createMany({
+            data: accepted.map(follow => ({ followedId: follow.followedId, followedAt: follow.createdAt }))
+          })
+        }
+        await tx.media.updateMany({
+          where: { uploaderId: id },
+          data: { postId: null, detachedAt: new Date() }
+        })
+        await tx.user.delete({ where: { id } })
       })
       return true
     } catch (error) {
@@ -262,18 +336,26 @@ export class UserRepository {
 
   /**
    * Check if username is available
+   * A renamed account keeps the actor URI of its old name, so that name stays
+   * taken while anyone else holds the actor URI it would get
    * @param username - Username to check
    * @param excludeUserId - User ID to exclude from check (for updates)
+   * @param actorId - Actor URI the username would federate under, if federation is on
    * @returns Promise<boolean> True if username is available
    */
-  async isUsernameAvailable(username: string, excludeUserId?: string): Promise<boolean> {
+  async isUsernameAvailable(username: string, excludeUserId?: string, actorId?: string): Promise<boolean> {
     const existingUser = await this.prisma.user.findUnique({
       where: { username }
     })
 
-    if (!existingUser) return true
-    if (excludeUserId && existingUser.id === excludeUserId) return true
-    return false
+    if (existingUser && existingUser.id !== excludeUserId) return false
+    if (!actorId) return true
+
+    const actorOwner = await this.prisma.user.findUnique({
+      where: { actorId }
+    })
+
+    return !actorOwner || actorOwner.id === excludeUserId
   }
 
   /**
@@ -313,6 +395,36 @@ export class UserRepository {
 
     return dbUsers.map(dbUser => new User(dbUser))
   }
+
+  /**
+   * Replace a user's password hash
+   * @param id - User ID
+   * @param passwordHash - New bcrypt hash
+   * @returns Promise<boolean> True if the user was updated
+   */
+  async updatePassword(id: string, passwordHash: string): Promise<boolean> {
+    const result = await this.prisma.user.updateMany({
+      where: { id },
+      data: { passwordHash, updatedAt: new Date() }
+    })
+
+    return result.count === 1
+  }
+
+  /**
+   * Record a verified email address
+   * Only raises the tier from 'none', so users on higher tiers keep them
+   * @param id - User ID
+   * @returns Promise<boolean> True if the tier was raised
+   */
+  async markEmailVerified(id: string): Promise<boolean> {
+    const result = await this.prisma.user.updateMany({
+      where: { id, verificationTier: 'none' },
+      data: { verificationTier: 'email', updatedAt: new Date() }
+    })
+
+    return result.count === 1
+  }
 }
 
 // Export types for use in other files
@@ -0,0 +1,108 @@
+// backend/src/repositories/__tests__/AccountTokenRepository.test.ts
+// Unit tests for AccountTokenRepository with mocked Prisma client
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AccountTokenRepository } from '../AccountTokenRepository'
+
+const mockTx = {
+  accountToken: {
+    updateMany: vi.fn(),
+    create: vi.fn()
+  }
+}
+
+const mockPrismaClient = {
+  accountToken: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    updateMany: vi.fn()
+  },
+  $transaction: vi.fn()
+}
+
+describe('AccountTokenRepository', () => {
+  let accountTokenRepository: AccountTokenRepository
+
+  const now = new Date('2025-06-01T12:00:00Z')
+  const token = {
+    id: 'token1',
+    userId: 'user123',
+    type: 'PASSWORD_RESET',
+    tokenHash: 'hash1',
+    expiresAt: new Date('2025-06-01T13:00:00Z'),
+    usedAt: null,
+    createdAt: now
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaClient.$transaction.mockImplementation(async (work: (tx: typeof mockTx) => Promise<unknown>) => work(mockTx))
+    accountTokenRepository = new AccountTokenRepository(mockPrismaClient as any)
+  })
+
+  describe('issue()', () => {
+    it('should invalidate older unused tokens of the same type before creating', async () => {
+      mockTx.accountToken.create.mockResolvedValueOnce(token)
+
+      const result = await accountTokenRepository.issue('user123', 'PASSWORD_RESET', 'hash1', token.expiresAt, now)
+
+      expect(result).toEqual(token)
+      expect(mockTx.accountToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', type: 'PASSWORD_RESET', usedAt: null },
+        data: { usedAt: now }
+      })
+      expect(mockTx.accountToken.create).toHaveBeenCalledWith({
+        data: { userId: 'user123', type: 'PASSWORD_RESET', tokenHash: 'hash1', expiresAt: token.expiresAt }
+      })
+    })
+  })
+
+  describe('findLatest()', () => {
+    it('should return the newest token of the type', async () => {
+      mockPrismaClient.accountToken.findFirst.mockResolvedValueOnce(token)
+
+      await accountTokenRepository.findLatest('user123', 'PASSWORD_RESET')
+
+      expect(mockPrismaClient.accountToken.findFirst).toHaveBeenCalledWith({
+        where: { userId: 'user123', type: 'PASSWORD_RESET' },
+        orderBy: { createdAt: 'desc' }
+      })
+    })
+  })
+
+  describe('consume()', () => {
+    it('should mark a valid token used and return it', async () => {
+      mockPrismaClient.accountToken.findUnique.mockResolvedValueOnce(token)
+      mockPrismaClient.accountToken.updateMany.mockResolvedValueOnce({ count: 1 })
+
+      const result = await accountTokenRepository.consume('hash1', 'PASSWORD_RESET', now)
+
+      expect(result).toEqual({ ...token, usedAt: now })
+      expect(mockPrismaClient.accountToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token1', usedAt: null },
+        data: { usedAt: now }
+      })
+    })
+
+    it.each([
+      ['unknown', null],
+      ['already used', { ...token, usedAt: now }],
+      ['expired', { ...token, expiresAt: now }],
+      ['of another type', { ...token, type: 'EMAIL_VERIFICATION' }]
+    ])('should refuse a token that is %s', async (_label, stored) => {
+      mockPrismaClient.accountToken.findUnique.mockResolvedValueOnce(stored)
+
+      const result = await accountTokenRepository.consume('hash1', 'PASSWORD_RESET', now)
+
+      expect(result).toBeNull()
+      expect(mockPrismaClient.accountToken.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should refuse a token another request consumed first', async () => {
+      mockPrismaClient.accountToken.findUnique.mockResolvedValueOnce(token)
+      mockPrismaClient.accountToken.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      expect(await accountTokenRepository.consume('hash1', 'PASSWORD_RESET', now)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,185 @@
+// backend/src/repositories/__tests__/AnalyticsRepository.test.ts
+// Unit tests for AnalyticsRepository with mocked Prisma client
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AnalyticsRepository } from '../AnalyticsRepository'
+
+const mockPrismaClient = {
+  follow: {
+    count: vi.fn(),
+    findMany: vi.fn(),
+    groupBy: vi.fn()
+  },
+  followerLoss: {
+    groupBy: vi.fn()
+  },
+  post: {
+    count: vi.fn(),
+    findMany: vi.fn(),
+    groupBy: vi.fn()
+  },
+  deliveryOutcome: {
+    count: vi.fn(),
+    groupBy: vi.fn()
+  },
+  report: {
+    findMany: vi.fn()
+  },
+  creatorDailyStats: {
+    findMany: vi.fn(),
+    upsert: vi.fn()
+  }
+}
+
+describe('AnalyticsRepository', () => {
+  let analyticsRepository: AnalyticsRepository
+  const since = new Date('2025-06-01T00:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    analyticsRepository = new AnalyticsRepository(mockPrismaClient as any)
+  })
+
+  describe('countFollowers()', () => {
+    it('should count accepted followers', async () => {
+      mockPrismaClient.follow.count.mockResolvedValueOnce(12)
+
+      expect(await analyticsRepository.countFollowers('user123')).toBe(12)
+      expect(mockPrismaClient.follow.count).toHaveBeenCalledWith({
+        where: { followedId: 'user123', isAccepted: true }
+      })
+    })
+
+    it('should only count follows made since a time when given one', async () => {
+      mockPrismaClient.follow.count.mockResolvedValueOnce(3)
+
+      await analyticsRepository.countFollowers('user123', since)
+
+      expect(mockPrismaClient.follow.count).toHaveBeenCalledWith({
+        where: { followedId: 'user123', isAccepted: true, createdAt: { gte: since } }
+      })
+    })
+  })
+
+  describe('findFollowerActorIds()', () => {
+    it('should return remote followers\' actor URIs', async () => {
+      mockPrismaClient.follow.findMany.mockResolvedValueOnce([
+        { actorId: 'https://mastodon.social/users/alice' },
+        { actorId: 'https://lemmy.world/u/bob' }
+      ])
+
+      const actorIds = await analyticsRepository.findFollowerActorIds('user123')
+
+      expect(actorIds).toEqual(['https://mastodon.social/users/alice', 'https://lemmy.world/u/bob'])
+      expect(mockPrismaClient.follow.findMany).toHaveBeenCalledWith({
+        where: { followedId: 'user123', isAccepted: true, actorId: { not: null } },
+        select: { actorId: true }
+      })
+    })
+  })
+
+  describe('findPublishedTimes()', () => {
+    it('should return publication times of published posts', async () => {
+      const publishedAt = new Date('2025-06-02T09:00:00Z')
+      mockPrismaClient.post.findMany.mockResolvedValueOnce([{ publishedAt }, { publishedAt: null }])
+
+      const times = await analyticsRepository.findPublishedTimes('user123', since)
+
+      expect(times).toEqual([publishedAt])
+      expect(mockPrismaClient.post.findMany).toHaveBeenCalledWith({
+        where: { authorId: 'user123', isPublished: true, publishedAt: { gte: since } },
+        select: { publishedAt: true },
+        orderBy: { publishedAt: 'asc' }
+      })
+    })
+  })
+
+  describe('countDeliveryOutcomes()', () => {
+    it('should count finished and successful deliveries', async () => {
+      mockPrismaClient.deliveryOutcome.count
+        .mockResolvedValueOnce(50)
+        .mockResolvedValueOnce(47)
+
+      const counts = await analyticsRepository.countDeliveryOutcomes('user123', since)
+
+      expect(counts).toEqual({ attempted: 50, succeeded: 47 })
+      expect(mockPrismaClient.deliveryOutcome.count).toHaveBeenCalledWith({
+        where: { senderId: 'user123', createdAt: { gte: since }, delivered: true }
+      })
+    })
+  })
+  describe('rollup queries', () => {
+    const start = new Date('2025-06-01T00:00:00Z')
+    const end = new Date('2025-06-02T00:00:00Z')
+
+    it('should count new followers including those who have since left', async () => {
+      mockPrismaClient.follow.groupBy.mockResolvedValueOnce([
+        { followedId: 'creator1', _count: { _all: 2 } }
+      ])
+      mockPrismaClient.followerLoss.groupBy.mockResolvedValueOnce([
+        { followedId: 'creator1', _count: { _all: 1 } },
+        { followedId: 'creator2', _count: { _all: 1 } }
+      ])
+
+      const counts = await analyticsRepository.countNewFollowersByUser(start, end)
+
+      expect(counts).toEqual(new Map([['creator1', 3], ['creator2', 1]]))
+      expect(mockPrismaClient.follow.groupBy).toHaveBeenCalledWith({
+        by: ['followedId'],
+        where: { isAccepted: true, createdAt: { gte: start, lt: end } },
+        _count: { _all: true }
+      })
+      expect(mockPrismaClient.followerLoss.groupBy).toHaveBeenCalledWith({
+        by: ['followedId'],
+        where: { followedAt: { gte: start, lt: end } },
+        _count: { _all: true }
+      })
+    })
+
+    it('should count delivery outcomes per sender', async () => {
+      mockPrismaClient.deliveryOutcome.groupBy.mockResolvedValueOnce([
+        { senderId: 'creator1', delivered: true, _count: { _all: 9 } },
+        { senderId: 'creator1', delivered: false, _count: { _all: 1 } },
+        { senderId: 'creator2', delivered: false, _count: { _all: 4 } }
+      ])
+
+      const counts = await analyticsRepository.countDeliveryOutcomesByUser(start, end)
+
+      expect(counts).toEqual(new Map([
+        ['creator1', { attempted: 10, succeeded: 9 }],
+        ['creator2', { attempted: 4, succeeded: 0 }]
+      ]))
+    })
+
+    it('should count reports against a user or their posts', async () => {
+      mockPrismaClient.report.findMany.mockResolvedValueOnce([
+        { reportedUserId: 'creator1', reportedPost: null },
+        { reportedUserId: null, reportedPost: { authorId: 'creator1' } },
+        { reportedUserId: null, reportedPost: { authorId: 'creator2' } }
+      ])
+
+      const counts = await analyticsRepository.countReportsReceivedByUser(start, end)
+
+      expect(counts).toEqual(new Map([['creator1', 2], ['creator2', 1]]))
+    })
+
+    it('should upsert a rollup by user and day', async () => {
+      const counts = {
+        newFollowers: 3,
+        lostFollowers: 1,
+        postsPublished: 0,
+        deliveriesAttempted: 0,
+        deliveriesSucceeded: 0,
+        reportsReceived: 0
+      }
+
+      await analyticsRepository.upsertDailyStats('creator1', start, counts)
+
+      expect(mockPrismaClient.creatorDailyStats.upsert).toHaveBeenCalledWith({
+        where: { userId_date: { userId: 'creator1', date: start } },
+        create: { userId: 'creator1', date: start, ...counts },
+        update: counts
+      })
+    })
+  })
+})
@@ -0,0 +1,166 @@
+// backend/src/repositories/__tests__/DeliveryJobRepository.test.ts
+// Unit tests for DeliveryJobRepository with mocked Prisma client
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DeliveryJobRepository } from '../DeliveryJobRepository'
+
+const mockPrismaClient = {
+  deliveryJob: {
+    createMany: vi.fn(),
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    count: vi.fn()
+  },
+  deliveryOutcome: {
+    create: vi.fn()
+  },
+  $transaction: vi.fn()
+}
+
+describe('DeliveryJobRepository', () => {
+  let deliveryJobRepository: DeliveryJobRepository
+
+  const job = {
+    id: 'job1',
+    activityId: 'https://parasocial.example/posts/post1/activity',
+    activity: { type: 'Create' },
+    inbox: 'https://remote.example/inbox',
+    host: 'remote.example',
+    senderId: 'user123',
+    status: 'PENDING',
+    attempts: 0,
+    nextAttemptAt: new Date('2025-06-01T12:00:00Z'),
+    lastError: null
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaClient.$transaction.mockImplementation(async (work: (tx: typeof mockPrismaClient) => Promise<unknown>) => work(mockPrismaClient))
+    deliveryJobRepository = new DeliveryJobRepository(mockPrismaClient as any)
+  })
+
+  describe('enqueue()', () => {
+    it('should insert jobs and skip duplicates', async () => {
+      mockPrismaClient.deliveryJob.createMany.mockResolvedValueOnce({ count: 1 })
+
+      const created = await deliveryJobRepository.enqueue([{
+        activityId: job.activityId,
+        activity: job.activity,
+        inbox: job.inbox,
+        host: job.host,
+        senderId: job.senderId
+      }])
+
+      expect(created).toBe(1)
+      expect(mockPrismaClient.deliveryJob.createMany).toHaveBeenCalledWith({
+        data: [{
+          activityId: job.activityId,
+          activity: job.activity,
+          inbox: job.inbox,
+          host: job.host,
+          senderId: job.senderId
+        }],
+        skipDuplicates: true
+      })
+    })
+
+    it('should not touch the database for an empty batch', async () => {
+      expect(await deliveryJobRepository.enqueue([])).toBe(0)
+      expect(mockPrismaClient.deliveryJob.createMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('claimDue()', () => {
+    it('should claim only jobs that are still pending', async () => {
+      const now = new Date('2025-06-01T12:00:00Z')
+      mockPrismaClient.deliveryJob.findMany.mockResolvedValueOnce([job, { ...job, id: 'job2' }])
+      mockPrismaClient.deliveryJob.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+
+      const claimed = await deliveryJobRepository.claimDue(10, now)
+
+      expect(mockPrismaClient.deliveryJob.findMany).toHaveBeenCalledWith({
+        where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: 10
+      })
+      expect(mockPrismaClient.deliveryJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job1', status: 'PENDING' },
+        data: { status: 'PROCESSING' }
+      })
+      expect(claimed).toEqual([{ ...job, status: 'PROCESSING' }])
+    })
+  })
+
+  describe('state transitions', () => {
+    it('should delete delivered jobs and record the outcome', async () => {
+      mockPrismaClient.deliveryJob.delete.mockResolvedValueOnce(job)
+
+      await deliveryJobRepository.markDelivered('job1')
+
+      expect(mockPrismaClient.deliveryJob.delete).toHaveBeenCalledWith({ where: { id: 'job1' } })
+      expect(mockPrismaClient.deliveryOutcome.create).toHaveBeenCalledWith({
+        data: { senderId: 'user123', host: 'remote.example', delivered: true }
+      })
+    })
+
+    it('should reschedule failed jobs', async () => {
+      const nextAttemptAt = new Date('2025-06-01T12:05:00Z')
+
+      await deliveryJobRepository.scheduleRetry('job1', 2, nextAttemptAt, 'HTTP 503')
+
+      expect(mockPrismaClient.deliveryJob.update).toHaveBeenCalledWith({
+        where: { id: 'job1' },
+        data: { status: 'PENDING', attempts: 2, nextAttemptAt, lastError: 'HTTP 503' }
+      })
+    })
+
+    it('should dead-letter jobs and record the outcome', async () => {
+      mockPrismaClient.deliveryJob.update.mockResolvedValueOnce({ ...job, status: 'DEAD' })
+
+      await deliveryJobRepository.markDead('job1', 8, 'HTTP 500')
+
+      expect(mockPrismaClient.deliveryJob.update).toHaveBeenCalledWith({
+        where: { id: 'job1' },
+        data: { status: 'DEAD', attempts: 8, lastError: 'HTTP 500' }
+      })
+      expect(mockPrismaClient.deliveryOutcome.create).toHaveBeenCalledWith({
+        data: { senderId: 'user123', host: 'remote.example', delivered: false }
+      })
+    })
+
+    it('should release stale processing jobs', async () => {
+      const before = new Date('2025-06-01T11:00:00Z')
+      mockPrismaClient.deliveryJob.updateMany.mockResolvedValueOnce({ count: 3 })
+
+      const released = await deliveryJobRepository.releaseStale(before)
+
+      expect(released).toBe(3)
+      expect(mockPrismaClient.deliveryJob.updateMany).toHaveBeenCalledWith({
+        where: { status: 'PROCESSING', updatedAt: { lt: before } },
+        data: { status: 'PENDING' }
+      })
+    })
+  })
+
+  describe('findDead()', () => {
+    it('should page through dead-lettered jobs', async () => {
+      mockPrismaClient.deliveryJob.findMany.mockResolvedValueOnce([{ ...job, status: 'DEAD' }])
+      mockPrismaClient.deliveryJob.count.mockResolvedValueOnce(21)
+
+      const result = await deliveryJobRepository.findDead({ offset: 0, limit: 20 })
+
+      expect(mockPrismaClient.deliveryJob.findMany).toHaveBeenCalledWith({
+        where: { status: 'DEAD' },
+        orderBy: { updatedAt: 'desc' },
+        skip: 0,
+        take: 20
+      })
+      expect(result.totalCount).toBe(21)
+      expect(result.hasMore).toBe(true)
+    })
+  })
+})
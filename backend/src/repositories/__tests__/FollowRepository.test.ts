@@ -16,9 +16,16 @@ const mockPrismaClient = {
     findFirst: vi.fn(),
     findUnique: vi.fn(),
     findMany: vi.fn(),
+    update: vi.fn(),
     delete: vi.fn(),
+    deleteMany: vi.fn(),
     count: vi.fn()
-  }
+  },
+  followerLoss: {
+    create: vi.fn(),
+    createMany: vi.fn()
+  },
+  $transaction: vi.fn()
 }
 
 describe('FollowRepository Unit Tests', () => {
@@ -56,6 +63,7 @@ describe('FollowRepository Unit Tests', () => {
   beforeEach(() => {
     // Reset all mocks before each test to ensure clean state
     vi.clearAllMocks()
+    mockPrismaClient.$transaction.mockImplementation(async (work: (tx: typeof mockPrismaClient) => Promise<unknown>) => work(mockPrismaClient))
     
     // Create fresh repository instance with mocked client
     followRepository = new FollowRepository(mockPrismaClient as any)
@@ -139,6 +147,27 @@ describe('FollowRepository Unit Tests', () => {
       expect(result).toEqual(mockFollowDataWithActor)
     })
 
+    it('should store the ActivityPub Follow activity ID for inbox follows', async () => {
+      mockPrismaClient.follow.create.mockResolvedValueOnce(mockFollowDataWithActor)
+
+      await followRepository.create({
+        followerId: testActorId,
+        followedId: testUserId,
+        actorId: testActorId,
+        activityId: 'https://mastodon.social/follows/123'
+      })
+
+      expect(mockPrismaClient.follow.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          followerId: testActorId,
+          followedId: testUserId,
+          actorId: testActorId,
+          activityId: 'https://mastodon.social/follows/123',
+          isAccepted: true
+        }
+      }))
+    })
+
     it('should handle Prisma creation errors', async () => {
       // Setup mock to throw error
       const error = new Error('Database connection failed')
@@ -303,6 +332,27 @@ describe('FollowRepository Unit Tests', () => {
       expect(result).toEqual(mockFollowData)
     })
 
+    it('should record a lost follower when an accepted follow is deleted', async () => {
+      mockPrismaClient.follow.findFirst.mockResolvedValueOnce(mockFollowData)
+      mockPrismaClient.follow.delete.mockResolvedValueOnce(mockFollowData)
+
+      await followRepository.deleteByFollowerAndFollowed(testFollowerId, testUserId)
+
+      expect(mockPrismaClient.followerLoss.create).toHaveBeenCalledWith({
+        data: { followedId: testUserId, followedAt: mockFollowData.createdAt }
+      })
+    })
+
+    it('should not record a lost follower for a withdrawn follow request', async () => {
+      const pendingFollow = { ...mockFollowData, isAccepted: false }
+      mockPrismaClient.follow.findFirst.mockResolvedValueOnce(pendingFollow)
+      mockPrismaClient.follow.delete.mockResolvedValueOnce(pendingFollow)
+
+      await followRepository.deleteByFollowerAndFollowed(testFollowerId, testUserId)
+
+      expect(mockPrismaClient.followerLoss.create).not.toHaveBeenCalled()
+    })
+
     it('should return null when trying to delete non-existent follow relationship', async () => {
       // Setup mock to return null (relationship not found)
       mockPrismaClient.follow.findFirst.mockResolvedValueOnce(null)
@@ -582,4 +632,123 @@ describe('FollowRepository Unit Tests', () => {
       )
     })
   })
-})
\ No newline at end of file
+  describe('federated follow lookups', () => {
+    it('should find follows by Follow activity ID', async () => {
+      mockPrismaClient.follow.findUnique.mockResolvedValueOnce(mockFollowDataWithActor)
+
+      const result = await followRepository.findByActivityId('https://mastodon.social/follows/123')
+
+      expect(mockPrismaClient.follow.findUnique).toHaveBeenCalledWith({
+        where: { activityId: 'https://mastodon.social/follows/123' }
+      })
+      expect(result).toEqual(mockFollowDataWithActor)
+    })
+
+    it('should delete every follow created by a remote actor', async () => {
+      mockPrismaClient.follow.findMany.mockResolvedValueOnce([])
+      mockPrismaClient.follow.deleteMany.mockResolvedValueOnce({ count: 3 })
+
+      const removed = await followRepository.deleteByActorId(testActorId)
+
+      expect(mockPrismaClient.follow.deleteMany).toHaveBeenCalledWith({
+        where: { actorId: testActorId }
+      })
+      expect(removed).toBe(3)
+      expect(mockPrismaClient.followerLoss.createMany).not.toHaveBeenCalled()
+    })
+
+    it('should record lost followers for a remote actor\'s accepted follows', async () => {
+      const followedAt = new Date('2025-01-15T10:00:00Z')
+      mockPrismaClient.follow.findMany.mockResolvedValueOnce([
+        { followedId: testUserId, createdAt: followedAt },
+        { followedId: 'user_999', createdAt: followedAt }
+      ])
+      mockPrismaClient.follow.deleteMany.mockResolvedValueOnce({ count: 3 })
+
+      await followRepository.deleteByActorId(testActorId)
+
+      expect(mockPrismaClient.follow.findMany).toHaveBeenCalledWith({
+        where: { actorId: testActorId, isAccepted: true },
+        select: { followedId: true, createdAt: true }
+      })
+      expect(mockPrismaClient.followerLoss.createMany).toHaveBeenCalledWith({
+        data: [
+          { followedId: testUserId, followedAt },
+          { followedId: 'user_999', followedAt }
+        ]
+      })
+    })
+
+    it('should list distinct accepted remote follower actor IDs', async () => {
+      mockPrismaClient.follow.findMany.mockResolvedValueOnce([
+        { actorId: testActorId },
+        { actorId: 'https://remote.example/users/alice' }
+      ])
+
+      const actorIds = await followRepository.findRemoteFollowerActorIds(testUserId)
+
+      expect(mockPrismaClient.follow.findMany).toHaveBeenCalledWith({
+        where: {
+          followedId: testUserId,
+          isAccepted: true,
+          actorId: { not: null }
+        },
+        select: { actorId: true },
+        distinct: ['actorId']
+      })
+      expect(actorIds).toEqual([testActorId, 'https://remote.example/users/alice'])
+    })
+  })
+
+  describe('follow requests', () => {
+    it('should store a pending request when asked to', async () => {
+      mockPrismaClient.follow.create.mockResolvedValueOnce({ ...mockFollowData, isAccepted: false })
+
+      await followRepository.create({ followerId: testFollowerId, followedId: testUserId, isAccepted: false })
+
+      expect(mockPrismaClient.follow.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ isAccepted: false })
+      }))
+    })
+
+    it('should list pending requests oldest first', async () => {
+      mockPrismaClient.follow.findMany.mockResolvedValueOnce([])
+      mockPrismaClient.follow.count.mockResolvedValueOnce(25)
+
+      const result = await followRepository.findPendingByFollowedId(testUserId, { offset: 0, limit: 20 })
+
+      expect(mockPrismaClient.follow.findMany).toHaveBeenCalledWith({
+        where: { followedId: testUserId, isAccepted: false },
+        select: { id: true, followerId: true, actorId: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+        skip: 0,
+        take: 20
+      })
+      expect(mockPrismaClient.follow.count).toHaveBeenCalledWith({
+        where: { followedId: testUserId, isAccepted: false }
+      })
+      expect(result).toEqual({ requests: [], totalCount: 25, hasMore: true })
+    })
+
+    it('should mark a request accepted', async () => {
+      mockPrismaClient.follow.update.mockResolvedValueOnce(mockFollowData)
+
+      await followRepository.accept(testFollowId)
+
+      expect(mockPrismaClient.follow.update).toHaveBeenCalledWith({
+        where: { id: testFollowId },
+        data: { isAccepted: true }
+      })
+    })
+
+    it('should delete a declined request by ID', async () => {
+      mockPrismaClient.follow.delete.mockResolvedValueOnce(mockFollowData)
+
+      await followRepository.deleteById(testFollowId)
+
+      expect(mockPrismaClient.follow.delete).toHaveBeenCalledWith({
+        where: { id: testFollowId }
+      })
+    })
+  })
+})
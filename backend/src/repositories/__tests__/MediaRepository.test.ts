@@ -0,0 +1,232 @@
+// backend/src/repositories/__tests__/MediaRepository.test.ts
+// Unit tests for MediaRepository ownership and orphan queries with mocked Prisma client
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { MediaRepository } from '../MediaRepository'
+
+const mockPrismaClient = {
+  media: {
+    create: vi.fn(),
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    count: vi.fn(),
+    updateMany: vi.fn(),
+    deleteMany: vi.fn()
+  }
+}
+
+describe('MediaRepository', () => {
+  let mediaRepository: MediaRepository
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mediaRepository = new MediaRepository(mockPrismaClient as any)
+  })
+
+  describe('create()', () => {
+    it('should create unattached media owned by the uploader', async () => {
+      mockPrismaClient.media.create.mockResolvedValue({ id: 'media1' })
+
+      await mediaRepository.create({
+        id: 'media1',
+        filename: 'file-123.png',
+        originalName: 'holiday.png',
+        url: '/uploads/file-123.png',
+        mimeType: 'image/png',
+        size: 2048,
+        width: 640,
+        height: 480,
+        uploaderId: 'user123'
+      })
+
+      expect(mockPrismaClient.media.create).toHaveBeenCalledWith({
+        data: {
+          id: 'media1',
+          filename: 'file-123.png',
+          originalName: 'holiday.png',
+          url: '/uploads/file-123.png',
+          mimeType: 'image/png',
+          size: 2048,
+          width: 640,
+          height: 480,
+          uploaderId: 'user123'
+        }
+      })
+    })
+  })
+
+  describe('attachToPost()', () => {
+    it('should only claim the uploader\'s unattached media', async () => {
+      mockPrismaClient.media.updateMany.mockResolvedValue({ count: 2 })
+
+      const attached = await mediaRepository.attachToPost(['media1', 'media2'], 'post1', 'user123')
+
+      expect(attached).toBe(2)
+      expect(mockPrismaClient.media.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['media1', 'media2'] }, uploaderId: 'user123', postId: null },
+        data: { postId: 'post1' }
+      })
+    })
+  })
+
+  describe('findMany()', () => {
+    it('should filter to an uploader\'s unattached media', async () => {
+      mockPrismaClient.media.findMany.mockResolvedValue([])
+
+      await mediaRepository.findMany({ uploaderId: 'user123', unattached: true })
+
+      expect(mockPrismaClient.media.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { postId: null, uploaderId: 'user123' }
+      }))
+    })
+  })
+
+  describe('findForServing()', () => {
+    it('should match the media ID, stored filename or a rendition URL and include post visibility', async () => {
+      mockPrismaClient.media.findFirst.mockResolvedValue(null)
+
+      await mediaRepository.findForServing('file-123-thumb.webp')
+
+      const query = mockPrismaClient.media.findFirst.mock.calls[0]![0]
+      expect(query.where.OR).toEqual([
+        { id: 'file-123-thumb.webp' },
+        { filename: 'file-123-thumb.webp' },
+        { thumbnailUrl: { endsWith: '/file-123-thumb.webp' } },
+        { previewUrl: { endsWith: '/file-123-thumb.webp' } },
+        { posterUrl: { endsWith: '/file-123-thumb.webp' } }
+      ])
+      expect(query.select).toMatchObject({
+        uploaderId: true,
+        updatedAt: true,
+        post: {
+          select: {
+            authorId: true,
+            isPublished: true,
+            moderationStatus: true,
+            author: { select: { isActive: true } }
+          }
+        }
+      })
+    })
+  })
+
+  describe('findOrphaned()', () => {
+    it('should find the oldest uploads unattached since before the cutoff', async () => {
+      const cutoff = new Date('2025-06-01T12:00:00Z')
+      mockPrismaClient.media.findMany.mockResolvedValue([{ id: 'media1', filename: 'file-1.png' }])
+
+      const orphans = await mediaRepository.findOrphaned(cutoff, 50)
+
+      expect(orphans).toEqual([{ id: 'media1', filename: 'file-1.png' }])
+      expect(mockPrismaClient.media.findMany).toHaveBeenCalledWith({
+        where: {
+          postId: null,
+          OR: [
+            { detachedAt: null, createdAt: { lt: cutoff } },
+            { detachedAt: { lt: cutoff } }
+          ]
+        },
+        select: { id: true, filename: true },
+        orderBy: { createdAt: 'asc' },
+        take: 50
+      })
+    })
+  })
+
+  describe('deleteIfUnattached()', () => {
+    it('should delete media that is still unattached', async () => {
+      mockPrismaClient.media.deleteMany.mockResolvedValue({ count: 1 })
+
+      expect(await mediaRepository.deleteIfUnattached('media1')).toBe(true)
+      expect(mockPrismaClient.media.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'media1', postId: null }
+      })
+    })
+
+    it('should report media a post claimed in the meantime', async () => {
+      mockPrismaClient.media.deleteMany.mockResolvedValue({ count: 0 })
+
+      expect(await mediaRepository.deleteIfUnattached('media1')).toBe(false)
+    })
+  })
+
+  describe('claimPendingVideos()', () => {
+    it('should claim only videos another worker has not claimed first', async () => {
+      mockPrismaClient.media.findMany.mockResolvedValue([
+        { id: 'media1', filename: 'file-1.mov', mimeType: 'video/quicktime' },
+        { id: 'media2', filename: 'file-2.mp4', mimeType: 'video/mp4' }
+      ])
+      mockPrismaClient.media.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+
+      const claimed = await mediaRepository.claimPendingVideos(2)
+
+      expect(claimed.map(video => video.id)).toEqual(['media1'])
+      expect(mockPrismaClient.media.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { processingStatus: 'PENDING' },
+        orderBy: { createdAt: 'asc' },
+        take: 2
+      }))
+      expect(mockPrismaClient.media.updateMany).toHaveBeenCalledWith({
+        where: { id: 'media1', processingStatus: 'PENDING' },
+        data: { processingStatus: 'PROCESSING' }
+      })
+    })
+  })
+
+  describe('releaseStaleProcessing()', () => {
+    it('should return videos stuck in PROCESSING to the queue', async () => {
+      const before = new Date('2025-06-01T12:00:00Z')
+      mockPrismaClient.media.updateMany.mockResolvedValue({ count: 1 })
+
+      expect(await mediaRepository.releaseStaleProcessing(before)).toBe(1)
+      expect(mockPrismaClient.media.updateMany).toHaveBeenCalledWith({
+        where: { processingStatus: 'PROCESSING', updatedAt: { lt: before } },
+        data: { processingStatus: 'PENDING' }
+      })
+    })
+  })
+
+  describe('completeProcessing()', () => {
+    const video = {
+      filename: 'file-1.mp4',
+      url: '/uploads/file-1.mp4',
+      mimeType: 'video/mp4',
+      size: 4096,
+      posterUrl: '/uploads/file-1-poster.jpg',
+      duration: 12.5,
+      width: 1280,
+      height: 720
+    }
+
+    it('should record the transcoded video and mark it ready', async () => {
+      mockPrismaClient.media.updateMany.mockResolvedValue({ count: 1 })
+
+      expect(await mediaRepository.completeProcessing('media1', video)).toBe(true)
+      expect(mockPrismaClient.media.updateMany).toHaveBeenCalledWith({
+        where: { id: 'media1', processingStatus: 'PROCESSING' },
+        data: { ...video, processingStatus: 'READY' }
+      })
+    })
+
+    it('should report media deleted while it was processed', async () => {
+      mockPrismaClient.media.updateMany.mockResolvedValue({ count: 0 })
+
+      expect(await mediaRepository.completeProcessing('media1', video)).toBe(false)
+    })
+  })
+
+  describe('markProcessingFailed()', () => {
+    it('should mark a claimed video as failed', async () => {
+      mockPrismaClient.media.updateMany.mockResolvedValue({ count: 1 })
+
+      await mediaRepository.markProcessingFailed('media1')
+
+      expect(mockPrismaClient.media.updateMany).toHaveBeenCalledWith({
+        where: { id: 'media1', processingStatus: 'PROCESSING' },
+        data: { processingStatus: 'FAILED' }
+      })
+    })
+  })
+})
@@ -0,0 +1,160 @@
+// backend/src/repositories/__tests__/ModerationActionRepository.test.ts
+// Unit tests for ModerationActionRepository with mocked Prisma client
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ModerationActionRepository } from '../ModerationActionRepository'
+import { ModerationActionType } from '../../models/ModerationAction'
+import { ReportStatus } from '../../models/Report'
+
+const mockTx = {
+  moderationAction: {
+    create: vi.fn(),
+    updateMany: vi.fn(),
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn()
+  },
+  user: {
+    update: vi.fn()
+  },
+  post: {
+    update: vi.fn()
+  },
+  report: {
+    update: vi.fn()
+  }
+}
+
+const mockPrismaClient = {
+  moderationAction: {
+    findUnique: vi.fn(),
+    findMany: vi.fn()
+  },
+  $transaction: vi.fn()
+}
+
+describe('ModerationActionRepository', () => {
+  let moderationActionRepository: ModerationActionRepository
+
+  const now = new Date('2025-06-01T12:00:00Z')
+  const base = {
+    reason: 'Breaks the rules',
+    reportId: 'report1',
+    moderatorId: 'mod1',
+    targetUserId: 'user123',
+    targetPostId: null
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaClient.$transaction.mockImplementation(async (work: (tx: typeof mockTx) => Promise<unknown>) => work(mockTx))
+    mockTx.moderationAction.create.mockImplementation(async ({ data }) => ({ id: 'action1', ...data }))
+    moderationActionRepository = new ModerationActionRepository(mockPrismaClient as any)
+  })
+
+  describe('applyAction()', () => {
+    it('should suspend the user and resolve the report', async () => {
+      await moderationActionRepository.applyAction(
+        { ...base, type: ModerationActionType.SUSPEND_USER },
+        ReportStatus.RESOLVED,
+        now
+      )
+
+      expect(mockTx.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { isActive: false }
+      })
+      expect(mockTx.report.update).toHaveBeenCalledWith({
+        where: { id: 'report1' },
+        data: { status: ReportStatus.RESOLVED, moderatorId: 'mod1', reviewedAt: now, resolvedAt: now }
+      })
+    })
+
+    it('should derive the post status from every action in force', async () => {
+      mockTx.moderationAction.findMany.mockResolvedValueOnce([
+        { type: ModerationActionType.REMOVE_POST },
+        { type: ModerationActionType.HIDE_POST }
+      ])
+
+      await moderationActionRepository.applyAction(
+        { ...base, type: ModerationActionType.HIDE_POST, targetPostId: 'post1' },
+        ReportStatus.RESOLVED,
+        now
+      )
+
+      expect(mockTx.post.update).toHaveBeenCalledWith({
+        where: { id: 'post1' },
+        data: { moderationStatus: 'removed' }
+      })
+      expect(mockTx.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should only mark an escalated report reviewed', async () => {
+      await moderationActionRepository.applyAction(
+        { ...base, type: ModerationActionType.ESCALATE },
+        ReportStatus.REVIEWED,
+        now
+      )
+
+      expect(mockTx.report.update).toHaveBeenCalledWith({
+        where: { id: 'report1' },
+        data: { status: ReportStatus.REVIEWED, moderatorId: 'mod1', reviewedAt: now }
+      })
+    })
+  })
+
+  describe('reverse()', () => {
+    it('should lift a suspension when no other suspension is in force', async () => {
+      mockTx.moderationAction.updateMany.mockResolvedValueOnce({ count: 1 })
+      mockTx.moderationAction.findUnique.mockResolvedValueOnce({ id: 'action1', ...base, type: ModerationActionType.SUSPEND_USER })
+      mockTx.moderationAction.count.mockResolvedValueOnce(0)
+
+      const result = await moderationActionRepository.reverse('action1', 'mod2', 'Appeal upheld', now)
+
+      expect(result?.id).toBe('action1')
+      expect(mockTx.moderationAction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'action1', reversedAt: null },
+        data: { reversedAt: now, reversedById: 'mod2', reversalReason: 'Appeal upheld' }
+      })
+      expect(mockTx.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { isActive: true }
+      })
+    })
+
+    it('should keep the user suspended while another suspension is in force', async () => {
+      mockTx.moderationAction.updateMany.mockResolvedValueOnce({ count: 1 })
+      mockTx.moderationAction.findUnique.mockResolvedValueOnce({ id: 'action1', ...base, type: ModerationActionType.SUSPEND_USER })
+      mockTx.moderationAction.count.mockResolvedValueOnce(1)
+
+      await moderationActionRepository.reverse('action1', 'mod2', null, now)
+
+      expect(mockTx.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should restore a post once its only action is reversed', async () => {
+      mockTx.moderationAction.updateMany.mockResolvedValueOnce({ count: 1 })
+      mockTx.moderationAction.findUnique.mockResolvedValueOnce({
+        id: 'action1',
+        ...base,
+        type: ModerationActionType.REMOVE_POST,
+        targetPostId: 'post1'
+      })
+      mockTx.moderationAction.findMany.mockResolvedValueOnce([])
+
+      await moderationActionRepository.reverse('action1', 'mod2', null, now)
+
+      expect(mockTx.post.update).toHaveBeenCalledWith({
+        where: { id: 'post1' },
+        data: { moderationStatus: 'visible' }
+      })
+    })
+
+    it('should return null for an action that was already reversed', async () => {
+      mockTx.moderationAction.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      expect(await moderationActionRepository.reverse('action1', 'mod2', null, now)).toBeNull()
+      expect(mockTx.moderationAction.findUnique).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -111,10 +111,17 @@ describe('PostRepository - Post Creation', () => {
               id: true,
               filename: true,
               url: true,
+              thumbnailUrl: true,
+              previewUrl: true,
+              blurhash: true,
               mimeType: true,
               altText: true,
+              sensitive: true,
               width: true,
-              height: true
+              height: true,
+              posterUrl: true,
+              duration: true,
+              processingStatus: true
             }
           },
           _count: {
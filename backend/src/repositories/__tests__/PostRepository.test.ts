@@ -1,6 +1,7 @@
-// backend/tests/repositories/PostRepository.test.ts - Version 1.1.0
+// backend/tests/repositories/PostRepository.test.ts - Version 1.6.2
 // Unit tests for PostRepository database operations
-// Changed: Updated findReadyToPublish test to expect media and _count relations
+// Changed: Detached media records when it was detached
+// Changed: Deleting a post detaches its media for the orphan cleanup
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { PostRepository } from '../PostRepository'
@@ -16,7 +17,11 @@ const mockPrismaClient = {
     delete: vi.fn(),
     count: vi.fn(),
     updateMany: vi.fn()
-  }
+  },
+  media: {
+    updateMany: vi.fn()
+  },
+  $transaction: vi.fn((work: (tx: unknown) => Promise<unknown>) => work(mockPrismaClient))
 }
 
 describe('PostRepository', () => {
@@ -104,10 +109,17 @@ describe('PostRepository', () => {
               id: true,
               filename: true,
               url: true,
+              thumbnailUrl: true,
+              previewUrl: true,
+              blurhash: true,
               mimeType: true,
               altText: true,
+              sensitive: true,
               width: true,
-              height: true
+              height: true,
+              posterUrl: true,
+              duration: true,
+              processingStatus: true
             }
           },
           _count: {
@@ -231,10 +243,17 @@ describe('PostRepository', () => {
               id: true,
               filename: true,
               url: true,
+              thumbnailUrl: true,
+              previewUrl: true,
+              blurhash: true,
               mimeType: true,
               altText: true,
+              sensitive: true,
               width: true,
-              height: true
+              height: true,
+              posterUrl: true,
+              duration: true,
+              processingStatus: true
             }
           },
           _count: {
@@ -340,7 +359,9 @@ describe('PostRepository', () => {
       expect(mockPrismaClient.post.findMany).toHaveBeenCalledWith({
         where: {
           isPublished: true,
-          publishedAt: { not: null }
+          publishedAt: { not: null },
+          moderationStatus: 'visible',
+          author: { isActive: true }
         },
         include: expect.any(Object),
         orderBy: { publishedAt: 'desc' },
@@ -457,10 +478,17 @@ describe('PostRepository', () => {
               id: true,
               filename: true,
               url: true,
+              thumbnailUrl: true,
+              previewUrl: true,
+              blurhash: true,
               mimeType: true,
               altText: true,
+              sensitive: true,
               width: true,
-              height: true
+              height: true,
+              posterUrl: true,
+              duration: true,
+              processingStatus: true
             }
           },
           _count: {
@@ -549,6 +577,33 @@ describe('PostRepository', () => {
       expect(result).toEqual(mockUpdatedPost)
     })
 
+    it('should mark media sensitive when the post has a flashing lights label', async () => {
+      mockPrismaClient.post.update.mockResolvedValue(createMockPost({
+        contentLabels: ['flashing-lights'],
+        media: [{ id: 'media-1', sensitive: false }, { id: 'media-2', sensitive: true }]
+      }))
+      mockPrismaClient.media.updateMany.mockResolvedValue({ count: 2 })
+
+      const result = await postRepository.update('post-123', { contentLabels: ['flashing-lights'] })
+
+      expect(mockPrismaClient.media.updateMany).toHaveBeenCalledWith({
+        where: { postId: 'post-123' },
+        data: { sensitive: true }
+      })
+      expect(result?.media.every(media => media.sensitive)).toBe(true)
+    })
+
+    it('should leave media alone for labels that only warn about the text', async () => {
+      mockPrismaClient.post.update.mockResolvedValue(createMockPost({
+        contentLabels: ['spoilers'],
+        media: [{ id: 'media-1', sensitive: false }]
+      }))
+
+      await postRepository.update('post-123', { contentLabels: ['spoilers'] })
+
+      expect(mockPrismaClient.media.updateMany).not.toHaveBeenCalled()
+    })
+
     it('should set publishedAt when transitioning to published', async () => {
       // Mock finding existing unpublished post
       mockPrismaClient.post.findUnique.mockResolvedValue({
@@ -604,6 +659,171 @@ describe('PostRepository', () => {
     })
   })
 
+  describe('updateIfState()', () => {
+    const now = new Date('2024-01-02T00:00:00Z')
+
+    it('should only update a post still in the expected state', async () => {
+      mockPrismaClient.post.updateMany.mockResolvedValue({ count: 1 })
+      mockPrismaClient.post.findUnique.mockResolvedValue(createMockPost({ isScheduled: true, isPublished: false }))
+
+      const result = await postRepository.updateIfState(
+        'post-123',
+        { isPublished: false, isScheduled: false },
+        { isScheduled: true, scheduledFor: now },
+        now
+      )
+
+      expect(mockPrismaClient.post.updateMany).toHaveBeenCalledWith({
+        where: { id: 'post-123', isPublished: false, isScheduled: false },
+        data: { isScheduled: true, scheduledFor: now, updatedAt: now }
+      })
+      expect(result?.isScheduled).toBe(true)
+    })
+
+    it('should stamp publishedAt when publishing an unpublished post', async () => {
+      mockPrismaClient.post.updateMany.mockResolvedValue({ count: 1 })
+      mockPrismaClient.post.findUnique.mockResolvedValue(createMockPost())
+
+      await postRepository.updateIfState(
+        'post-123',
+        { isPublished: false, isScheduled: true },
+        { isPublished: true, isScheduled: false, scheduledFor: null },
+        now
+      )
+
+      expect(mockPrismaClient.post.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: { isPublished: true, isScheduled: false, scheduledFor: null, publishedAt: now, updatedAt: now }
+      }))
+    })
+
+    it('should return null when the post changed state', async () => {
+      mockPrismaClient.post.updateMany.mockResolvedValue({ count: 0 })
+
+      const result = await postRepository.updateIfState(
+        'post-123',
+        { isPublished: false, isScheduled: true },
+        { isPublished: true, isScheduled: false, scheduledFor: null }
+      )
+
+      expect(result).toBeNull()
+      expect(mockPrismaClient.post.findUnique).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createWithMedia()', () => {
+    const postData = { content: 'With pictures', authorId: 'user-123' }
+
+    it('should create the post and attach the author\'s uploads in one transaction', async () => {
+      const withMedia = createMockPost({ media: [{ id: 'media-1' }, { id: 'media-2' }] })
+      mockPrismaClient.post.create.mockResolvedValue(createMockPost())
+      mockPrismaClient.media.updateMany.mockResolvedValue({ count: 2 })
+      mockPrismaClient.post.findUnique.mockResolvedValue(withMedia)
+
+      const result = await postRepository.createWithMedia(postData, ['media-1', 'media-2', 'media-1'])
+
+      expect(mockPrismaClient.$transaction).toHaveBeenCalled()
+      expect(mockPrismaClient.media.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['media-1', 'media-2'] },
+          uploaderId: 'user-123',
+          postId: null
+        },
+        data: { postId: 'post-123' }
+      })
+      expect(result).toEqual(withMedia)
+    })
+
+    it('should attach uploads as sensitive when the labels call for it', async () => {
+      mockPrismaClient.post.create.mockResolvedValue(createMockPost({ contentLabels: ['flashing-lights'] }))
+      mockPrismaClient.media.updateMany.mockResolvedValue({ count: 1 })
+      mockPrismaClient.post.findUnique.mockResolvedValue(createMockPost())
+
+      await postRepository.createWithMedia({ ...postData, contentLabels: ['flashing-lights'] }, ['media-1'])
+
+      expect(mockPrismaClient.post.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ contentLabels: ['flashing-lights'] })
+      }))
+      expect(mockPrismaClient.media.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: { postId: 'post-123', sensitive: true }
+      }))
+    })
+
+    it('should return null when any upload cannot be attached', async () => {
+      mockPrismaClient.post.create.mockResolvedValue(createMockPost())
+      mockPrismaClient.media.updateMany.mockResolvedValue({ count: 1 })
+
+      const result = await postRepository.createWithMedia(postData, ['media-1', 'someone-elses'])
+
+      expect(result).toBeNull()
+      expect(mockPrismaClient.post.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should pass other errors through', async () => {
+      mockPrismaClient.post.create.mockRejectedValue(new Error('Connection lost'))
+
+      await expect(postRepository.createWithMedia(postData, ['media-1'])).rejects.toThrow('Connection lost')
+    })
+  })
+
+  describe('replaceMedia()', () => {
+    it('should detach media no longer listed and claim the rest', async () => {
+      mockPrismaClient.media.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 2 })
+
+      const result = await postRepository.replaceMedia('post-123', 'user-123', ['media-1', 'media-2', 'media-1'])
+
+      expect(result).toBe(true)
+      expect(mockPrismaClient.media.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { postId: 'post-123', id: { notIn: ['media-1', 'media-2'] } },
+        data: { postId: null, detachedAt: expect.any(Date) }
+      })
+      expect(mockPrismaClient.media.updateMany).toHaveBeenNthCalledWith(2, {
+        where: {
+          id: { in: ['media-1', 'media-2'] },
+          uploaderId: 'user-123',
+          OR: [{ postId: null }, { postId: 'post-123' }]
+        },
+        data: { postId: 'post-123' }
+      })
+    })
+
+    it('should restart the orphan grace period of detached media', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      try {
+        vi.setSystemTime(new Date('2025-06-01T12:00:00Z'))
+        mockPrismaClient.media.updateMany.mockResolvedValue({ count: 1 })
+
+        await postRepository.replaceMedia('post-123', 'user-123', [])
+
+        expect(mockPrismaClient.media.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+          data: { postId: null, detachedAt: new Date('2025-06-01T12:00:00Z') }
+        }))
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should only detach when the list is empty', async () => {
+      mockPrismaClient.media.updateMany.mockResolvedValue({ count: 2 })
+
+      const result = await postRepository.replaceMedia('post-123', 'user-123', [])
+
+      expect(result).toBe(true)
+      expect(mockPrismaClient.media.updateMany).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return false when any upload cannot be attached', async () => {
+      mockPrismaClient.media.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 })
+
+      const result = await postRepository.replaceMedia('post-123', 'user-123', ['media-1', 'someone-elses'])
+
+      expect(result).toBe(false)
+    })
+  })
+
   describe('delete()', () => {
     it('should delete post and return deleted post with media info', async () => {
       const mockDeletedPost = {
@@ -631,6 +851,47 @@ describe('PostRepository', () => {
 
       expect(result).toEqual(mockDeletedPost)
     })
+
+    it('should detach the deleted post\'s media so the orphan cleanup removes the files', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      try {
+        vi.setSystemTime(new Date('2024-02-01T00:00:00Z'))
+        mockPrismaClient.post.delete.mockResolvedValue({
+          ...createMockPost(),
+          media: [
+            { id: 'media-1', url: 'https://example.com/a.jpg', filename: 'a.jpg' },
+            { id: 'media-2', url: 'https://example.com/b.jpg', filename: 'b.jpg' }
+          ]
+        })
+
+        await postRepository.delete('post-123')
+
+        expect(mockPrismaClient.$transaction).toHaveBeenCalled()
+        expect(mockPrismaClient.media.updateMany).toHaveBeenCalledWith({
+          where: { id: { in: ['media-1', 'media-2'] } },
+          data: { postId: null, detachedAt: new Date('2024-02-01T00:00:00Z') }
+        })
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should not touch media when the post had none', async () => {
+      mockPrismaClient.post.delete.mockResolvedValue(createMockPost())
+
+      await postRepository.delete('post-123')
+
+      expect(mockPrismaClient.media.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should return null when the post does not exist', async () => {
+      mockPrismaClient.post.delete.mockRejectedValueOnce(new Error('Record to delete does not exist'))
+
+      const result = await postRepository.delete('missing')
+
+      expect(result).toBeNull()
+      expect(mockPrismaClient.media.updateMany).not.toHaveBeenCalled()
+    })
   })
 
   describe('existsByIdAndAuthor()', () => {
@@ -763,6 +1024,21 @@ describe('PostRepository', () => {
       expect(mockPrismaClient.post.updateMany).not.toHaveBeenCalled()
     })
 
+    it('should publish relative to the supplied time', async () => {
+      const now = new Date('2024-01-01T02:00:00Z')
+      mockPrismaClient.post.findMany.mockResolvedValue([{ id: 'post-1' }])
+      mockPrismaClient.post.updateMany.mockResolvedValue({ count: 1 })
+
+      await postRepository.publishExpiredScheduled(10, now)
+
+      expect(mockPrismaClient.post.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ scheduledFor: { lte: now } })
+      }))
+      expect(mockPrismaClient.post.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: { isPublished: true, publishedAt: now, updatedAt: now }
+      }))
+    })
+
     it('should use default limit of 50', async () => {
       mockPrismaClient.post.findMany.mockResolvedValue([])
 
@@ -777,4 +1053,4 @@ describe('PostRepository', () => {
   })
 })
 
-// backend/tests/repositories/PostRepository.test.ts - Version 1.1.0
\ No newline at end of file
+// backend/tests/repositories/PostRepository.test.ts - Version 1.4.0
\ No newline at end of file
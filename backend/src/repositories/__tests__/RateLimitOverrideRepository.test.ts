@@ -0,0 +1,83 @@
+// backend/src/repositories/__tests__/RateLimitOverrideRepository.test.ts
+// Unit tests for RateLimitOverrideRepository with mocked Prisma client
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { RateLimitOverrideRepository } from '../RateLimitOverrideRepository'
+
+const mockPrismaClient = {
+  rateLimitOverride: {
+    findMany: vi.fn(),
+    upsert: vi.fn(),
+    deleteMany: vi.fn()
+  }
+}
+
+describe('RateLimitOverrideRepository', () => {
+  let rateLimitOverrideRepository: RateLimitOverrideRepository
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    rateLimitOverrideRepository = new RateLimitOverrideRepository(mockPrismaClient as any)
+  })
+
+  describe('findActiveByUserId()', () => {
+    it('should only return overrides that have not expired', async () => {
+      const now = new Date('2025-06-01T12:00:00Z')
+      mockPrismaClient.rateLimitOverride.findMany.mockResolvedValueOnce([])
+
+      await rateLimitOverrideRepository.findActiveByUserId('user123', now)
+
+      expect(mockPrismaClient.rateLimitOverride.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user123',
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+        },
+        orderBy: { policy: 'asc' }
+      })
+    })
+  })
+
+  describe('upsert()', () => {
+    it('should replace the existing override for the same user and policy', async () => {
+      const data = {
+        userId: 'user123',
+        policy: 'postCreation' as const,
+        max: 100,
+        windowMs: null,
+        reason: 'Breaking news coverage',
+        createdById: 'admin1',
+        expiresAt: null
+      }
+      mockPrismaClient.rateLimitOverride.upsert.mockResolvedValueOnce({ id: 'override1', ...data })
+
+      const result = await rateLimitOverrideRepository.upsert(data)
+
+      expect(result.id).toBe('override1')
+      expect(mockPrismaClient.rateLimitOverride.upsert).toHaveBeenCalledWith({
+        where: { userId_policy: { userId: 'user123', policy: 'postCreation' } },
+        create: data,
+        update: {
+          max: 100,
+          windowMs: null,
+          reason: 'Breaking news coverage',
+          createdById: 'admin1',
+          expiresAt: null
+        }
+      })
+    })
+  })
+
+  describe('delete()', () => {
+    it('should report whether an override was removed', async () => {
+      mockPrismaClient.rateLimitOverride.deleteMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+
+      expect(await rateLimitOverrideRepository.delete('user123', 'general')).toBe(true)
+      expect(await rateLimitOverrideRepository.delete('user123', 'general')).toBe(false)
+      expect(mockPrismaClient.rateLimitOverride.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', policy: 'general' }
+      })
+    })
+  })
+})
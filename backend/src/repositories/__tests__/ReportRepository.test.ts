@@ -457,6 +457,77 @@ describe('ReportRepository', () => {
       })
     })
   })
+
+  describe('countOpenByReportedUser', () => {
+    it('should count pending and escalated reports against the account', async () => {
+      mockReportCount.mockResolvedValue(3)
+
+      const result = await reportRepository.countOpenByReportedUser('user-456')
+
+      expect(result).toBe(3)
+      expect(mockReportCount).toHaveBeenCalledWith({
+        where: {
+          reportedUserId: 'user-456',
+          status: { in: [ReportStatus.PENDING, ReportStatus.REVIEWED] }
+        }
+      })
+    })
+  })
+
+  describe('findReportedPostsByAuthor', () => {
+    it('should combine report counts per post, most recently reported first', async () => {
+      vi.mocked(mockPrisma.report.groupBy as any).mockResolvedValue([
+        { reportedPostId: 'post-1', status: ReportStatus.PENDING, _count: { _all: 2 }, _max: { createdAt: new Date('2024-01-10T00:00:00Z') } },
+        { reportedPostId: 'post-1', status: ReportStatus.DISMISSED, _count: { _all: 1 }, _max: { createdAt: new Date('2024-01-12T00:00:00Z') } },
+        { reportedPostId: 'post-2', status: ReportStatus.RESOLVED, _count: { _all: 1 }, _max: { createdAt: new Date('2024-01-15T00:00:00Z') } }
+      ])
+
+      const result = await reportRepository.findReportedPostsByAuthor('author-1')
+
+      expect(result).toEqual([
+        { postId: 'post-2', reportCount: 1, openCount: 0, latestReportAt: new Date('2024-01-15T00:00:00Z') },
+        { postId: 'post-1', reportCount: 3, openCount: 2, latestReportAt: new Date('2024-01-12T00:00:00Z') }
+      ])
+      expect(mockPrisma.report.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+        by: ['reportedPostId', 'status'],
+        where: { reportedPost: { authorId: 'author-1' } }
+      }))
+    })
+
+    it('should throw ReportError when the query fails', async () => {
+      vi.mocked(mockPrisma.report.groupBy as any).mockRejectedValue(new Error('Database error'))
+
+      await expect(reportRepository.findReportedPostsByAuthor('author-1')).rejects.toThrow(ReportError)
+    })
+  })
+
+  describe('findOpenGroupsByReportedUsers', () => {
+    it('should group open reports by account and type', async () => {
+      vi.mocked(mockPrisma.report.groupBy as any).mockResolvedValue([
+        { reportedUserId: 'user-1', type: ReportType.SPAM, _count: { _all: 4 }, _min: { createdAt: new Date('2024-01-01T00:00:00Z') } }
+      ])
+
+      const result = await reportRepository.findOpenGroupsByReportedUsers(['user-1', 'user-2'])
+
+      expect(result).toEqual([
+        { userId: 'user-1', type: ReportType.SPAM, count: 4, oldestAt: new Date('2024-01-01T00:00:00Z') }
+      ])
+      expect(mockPrisma.report.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+        by: ['reportedUserId', 'type'],
+        where: {
+          reportedUserId: { in: ['user-1', 'user-2'] },
+          status: { in: [ReportStatus.PENDING, ReportStatus.REVIEWED] }
+        }
+      }))
+    })
+
+    it('should not query when there are no accounts', async () => {
+      const result = await reportRepository.findOpenGroupsByReportedUsers([])
+
+      expect(result).toEqual([])
+      expect(mockPrisma.report.groupBy).not.toHaveBeenCalled()
+    })
+  })
 })
 
 // backend/src/repositories/__tests__/ReportRepository.test.ts
@@ -0,0 +1,78 @@
+// backend/src/repositories/__tests__/RoleChangeRepository.test.ts
+// Unit tests for RoleChangeRepository with mocked Prisma client
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { RoleChangeRepository } from '../RoleChangeRepository'
+
+const mockTx = {
+  user: {
+    updateMany: vi.fn()
+  },
+  roleChange: {
+    create: vi.fn()
+  }
+}
+
+const mockPrismaClient = {
+  roleChange: {
+    findMany: vi.fn()
+  },
+  $transaction: vi.fn()
+}
+
+describe('RoleChangeRepository', () => {
+  let roleChangeRepository: RoleChangeRepository
+
+  const change = {
+    userId: 'user123',
+    actorId: 'admin1',
+    previousRole: 'user' as const,
+    newRole: 'moderator' as const,
+    reason: 'Helps with reports'
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaClient.$transaction.mockImplementation(async (work: (tx: typeof mockTx) => Promise<unknown>) => work(mockTx))
+    roleChangeRepository = new RoleChangeRepository(mockPrismaClient as any)
+  })
+
+  describe('applyChange()', () => {
+    it('should update the role and write the audit entry together', async () => {
+      mockTx.user.updateMany.mockResolvedValueOnce({ count: 1 })
+      mockTx.roleChange.create.mockResolvedValueOnce({ id: 'change1', ...change })
+
+      const result = await roleChangeRepository.applyChange(change)
+
+      expect(result?.id).toBe('change1')
+      expect(mockTx.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user123', role: 'user' },
+        data: { role: 'moderator' }
+      })
+      expect(mockTx.roleChange.create).toHaveBeenCalledWith({ data: change })
+    })
+
+    it('should skip the audit entry when the role no longer matches', async () => {
+      mockTx.user.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const result = await roleChangeRepository.applyChange(change)
+
+      expect(result).toBeNull()
+      expect(mockTx.roleChange.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('findByUserId()', () => {
+    it('should list entries newest first', async () => {
+      mockPrismaClient.roleChange.findMany.mockResolvedValueOnce([])
+
+      await roleChangeRepository.findByUserId('user123')
+
+      expect(mockPrismaClient.roleChange.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user123' },
+        orderBy: { createdAt: 'desc' },
+        take: 50
+      })
+    })
+  })
+})
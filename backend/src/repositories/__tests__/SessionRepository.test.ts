@@ -0,0 +1,179 @@
+// backend/src/repositories/__tests__/SessionRepository.test.ts
+// Unit tests for SessionRepository with mocked Prisma client
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { SessionRepository } from '../SessionRepository'
+
+const mockTx = {
+  refreshToken: {
+    updateMany: vi.fn(),
+    create: vi.fn()
+  },
+  session: {
+    update: vi.fn()
+  }
+}
+
+const mockPrismaClient = {
+  session: {
+    create: vi.fn(),
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    updateMany: vi.fn()
+  },
+  refreshToken: {
+    findUnique: vi.fn()
+  },
+  $transaction: vi.fn()
+}
+
+describe('SessionRepository', () => {
+  let sessionRepository: SessionRepository
+
+  const now = new Date('2025-06-01T12:00:00Z')
+  const session = {
+    id: 'session1',
+    userId: 'user123',
+    userAgent: 'Firefox',
+    ipAddress: '203.0.113.7',
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: new Date('2025-07-01T12:00:00Z'),
+    revokedAt: null,
+    revokedReason: null
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaClient.$transaction.mockImplementation(async (work: (tx: typeof mockTx) => Promise<unknown>) => work(mockTx))
+    sessionRepository = new SessionRepository(mockPrismaClient as any)
+  })
+
+  describe('create()', () => {
+    it('should create the session with its first refresh token', async () => {
+      mockPrismaClient.session.create.mockResolvedValueOnce(session)
+
+      const result = await sessionRepository.create({
+        userId: 'user123',
+        userAgent: 'Firefox',
+        ipAddress: '203.0.113.7',
+        expiresAt: session.expiresAt
+      }, 'hash1')
+
+      expect(result).toEqual(session)
+      expect(mockPrismaClient.session.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user123',
+          userAgent: 'Firefox',
+          ipAddress: '203.0.113.7',
+          expiresAt: session.expiresAt,
+          refreshTokens: { create: { tokenHash: 'hash1' } }
+        }
+      })
+    })
+  })
+
+  describe('findActiveByUserId()', () => {
+    it('should exclude revoked and expired sessions', async () => {
+      mockPrismaClient.session.findMany.mockResolvedValueOnce([session])
+
+      await sessionRepository.findActiveByUserId('user123', now)
+
+      expect(mockPrismaClient.session.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', revokedAt: null, expiresAt: { gt: now } },
+        orderBy: { lastUsedAt: 'desc' }
+      })
+    })
+  })
+
+  describe('findRefreshToken()', () => {
+    it('should look the token up by hash with its session', async () => {
+      mockPrismaClient.refreshToken.findUnique.mockResolvedValueOnce(null)
+
+      const result = await sessionRepository.findRefreshToken('hash1')
+
+      expect(result).toBeNull()
+      expect(mockPrismaClient.refreshToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: 'hash1' },
+        include: { session: true }
+      })
+    })
+  })
+
+  describe('rotateRefreshToken()', () => {
+    it('should consume the old token, store the new one and touch the session', async () => {
+      mockTx.refreshToken.updateMany.mockResolvedValueOnce({ count: 1 })
+
+      const rotated = await sessionRepository.rotateRefreshToken(
+        'token1',
+        'session1',
+        'hash2',
+        { userAgent: 'Safari', ipAddress: null },
+        now
+      )
+
+      expect(rotated).toBe(true)
+      expect(mockTx.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token1', usedAt: null },
+        data: { usedAt: now }
+      })
+      expect(mockTx.refreshToken.create).toHaveBeenCalledWith({
+        data: { sessionId: 'session1', tokenHash: 'hash2' }
+      })
+      expect(mockTx.session.update).toHaveBeenCalledWith({
+        where: { id: 'session1' },
+        data: { lastUsedAt: now, userAgent: 'Safari' }
+      })
+    })
+
+    it('should refuse a token that was already used', async () => {
+      mockTx.refreshToken.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const rotated = await sessionRepository.rotateRefreshToken(
+        'token1',
+        'session1',
+        'hash2',
+        { userAgent: null, ipAddress: null },
+        now
+      )
+
+      expect(rotated).toBe(false)
+      expect(mockTx.refreshToken.create).not.toHaveBeenCalled()
+      expect(mockTx.session.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('revoke()', () => {
+    it('should only revoke sessions that are still active', async () => {
+      mockPrismaClient.session.updateMany.mockResolvedValueOnce({ count: 1 })
+
+      const revoked = await sessionRepository.revoke('session1', 'logout', now)
+
+      expect(revoked).toBe(true)
+      expect(mockPrismaClient.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session1', revokedAt: null },
+        data: { revokedAt: now, revokedReason: 'logout' }
+      })
+    })
+
+    it('should report sessions that were already revoked', async () => {
+      mockPrismaClient.session.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      expect(await sessionRepository.revoke('session1', 'logout', now)).toBe(false)
+    })
+  })
+
+  describe('revokeAllForUser()', () => {
+    it('should revoke every active session of the user', async () => {
+      mockPrismaClient.session.updateMany.mockResolvedValueOnce({ count: 3 })
+
+      const count = await sessionRepository.revokeAllForUser('user123', 'user_revoked', now)
+
+      expect(count).toBe(3)
+      expect(mockPrismaClient.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', revokedAt: null },
+        data: { revokedAt: now, revokedReason: 'user_revoked' }
+      })
+    })
+  })
+})
@@ -0,0 +1,137 @@
+// backend/src/repositories/__tests__/TwoFactorRepository.test.ts
+// Unit tests for TwoFactorRepository with mocked Prisma client
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { TwoFactorRepository } from '../TwoFactorRepository'
+
+const mockTx = {
+  twoFactorCredential: {
+    updateMany: vi.fn(),
+    deleteMany: vi.fn()
+  },
+  twoFactorRecoveryCode: {
+    deleteMany: vi.fn(),
+    createMany: vi.fn()
+  }
+}
+
+const mockPrismaClient = {
+  twoFactorCredential: {
+    findUnique: vi.fn(),
+    upsert: vi.fn(),
+    updateMany: vi.fn()
+  },
+  twoFactorRecoveryCode: {
+    updateMany: vi.fn(),
+    count: vi.fn()
+  },
+  $transaction: vi.fn()
+}
+
+describe('TwoFactorRepository', () => {
+  let twoFactorRepository: TwoFactorRepository
+
+  const now = new Date('2025-06-01T12:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaClient.$transaction.mockImplementation(async (work: (tx: typeof mockTx) => Promise<unknown>) => work(mockTx))
+    twoFactorRepository = new TwoFactorRepository(mockPrismaClient as any)
+  })
+
+  describe('savePendingSecret()', () => {
+    it('should replace an unfinished setup with the new secret', async () => {
+      await twoFactorRepository.savePendingSecret('user123', 'v1:encrypted')
+
+      expect(mockPrismaClient.twoFactorCredential.upsert).toHaveBeenCalledWith({
+        where: { userId: 'user123' },
+        create: { userId: 'user123', secret: 'v1:encrypted' },
+        update: { secret: 'v1:encrypted', enabledAt: null, lastUsedStep: null }
+      })
+    })
+  })
+
+  describe('enable()', () => {
+    it('should enable a pending credential and store the recovery codes', async () => {
+      mockTx.twoFactorCredential.updateMany.mockResolvedValueOnce({ count: 1 })
+
+      const result = await twoFactorRepository.enable('user123', 55000, ['hash1', 'hash2'], now)
+
+      expect(result).toBe(true)
+      expect(mockTx.twoFactorCredential.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', enabledAt: null },
+        data: { enabledAt: now, lastUsedStep: 55000 }
+      })
+      expect(mockTx.twoFactorRecoveryCode.createMany).toHaveBeenCalledWith({
+        data: [
+          { userId: 'user123', codeHash: 'hash1' },
+          { userId: 'user123', codeHash: 'hash2' }
+        ]
+      })
+    })
+
+    it('should leave recovery codes alone when the credential is not pending', async () => {
+      mockTx.twoFactorCredential.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      const result = await twoFactorRepository.enable('user123', 55000, ['hash1'], now)
+
+      expect(result).toBe(false)
+      expect(mockTx.twoFactorRecoveryCode.createMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('recordUsedStep()', () => {
+    it('should only move the last used step forward', async () => {
+      mockPrismaClient.twoFactorCredential.updateMany.mockResolvedValueOnce({ count: 1 })
+
+      const result = await twoFactorRepository.recordUsedStep('user123', 55001)
+
+      expect(result).toBe(true)
+      expect(mockPrismaClient.twoFactorCredential.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user123',
+          OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: 55001 } }]
+        },
+        data: { lastUsedStep: 55001 }
+      })
+    })
+
+    it('should report a replayed step', async () => {
+      mockPrismaClient.twoFactorCredential.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      expect(await twoFactorRepository.recordUsedStep('user123', 55001)).toBe(false)
+    })
+  })
+
+  describe('consumeRecoveryCode()', () => {
+    it('should mark an unused code used', async () => {
+      mockPrismaClient.twoFactorRecoveryCode.updateMany.mockResolvedValueOnce({ count: 1 })
+
+      const result = await twoFactorRepository.consumeRecoveryCode('user123', 'hash1', now)
+
+      expect(result).toBe(true)
+      expect(mockPrismaClient.twoFactorRecoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', codeHash: 'hash1', usedAt: null },
+        data: { usedAt: now }
+      })
+    })
+
+    it('should refuse a used or unknown code', async () => {
+      mockPrismaClient.twoFactorRecoveryCode.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      expect(await twoFactorRepository.consumeRecoveryCode('user123', 'hash1', now)).toBe(false)
+    })
+  })
+
+  describe('delete()', () => {
+    it('should remove the recovery codes and the credential', async () => {
+      mockTx.twoFactorCredential.deleteMany.mockResolvedValueOnce({ count: 1 })
+
+      const result = await twoFactorRepository.delete('user123')
+
+      expect(result).toBe(true)
+      expect(mockTx.twoFactorRecoveryCode.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user123' } })
+      expect(mockTx.twoFactorCredential.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user123' } })
+    })
+  })
+})
@@ -0,0 +1,260 @@
+// backend/src/routes/__tests__/activitypub.routes.test.ts
+// Version: 1.2.0
+// Route tests for ActivityPub actor content negotiation, signed inbox deliveries and the outbox
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import crypto from 'crypto'
+import { createActivityPubRouter } from '../activitypub'
+import { signRequest } from '../../utils/httpSignature'
+
+const remoteKeys = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+})
+
+describe('ActivityPub Routes', () => {
+  let app: express.Application
+  let mockActivityPubService: any
+  let mockInboxService: any
+  let mockOutboxService: any
+  let mockRemoteActorService: any
+
+  const actor = {
+    '@context': ['https://www.w3.org/ns/activitystreams', 'https://w3id.org/security/v1'],
+    id: 'https://parasocial.example/users/creator',
+    type: 'Person',
+    preferredUsername: 'creator'
+  }
+
+  beforeEach(() => {
+    mockActivityPubService = {
+      getActor: vi.fn()
+    }
+    mockInboxService = {
+      handleActivity: vi.fn().mockResolvedValue({ success: true, data: { type: 'Follow', status: 'processed' } })
+    }
+    mockOutboxService = {
+      getOutbox: vi.fn().mockResolvedValue({ success: true, data: { type: 'OrderedCollection', totalItems: 3 } })
+    }
+    mockRemoteActorService = {
+      getPublicKey: vi.fn().mockResolvedValue({
+        id: 'https://remote.example/users/alice#main-key',
+        owner: 'https://remote.example/users/alice',
+        publicKeyPem: remoteKeys.publicKey
+      })
+    }
+
+    app = express()
+    app.use('/users', createActivityPubRouter({
+      activityPubService: mockActivityPubService,
+      inboxService: mockInboxService,
+      outboxService: mockOutboxService,
+      remoteActorService: mockRemoteActorService
+    }))
+    // Stand-in for the regular users router
+    app.get('/users/:username', (_req, res) => {
+      res.json({ success: true, data: { profile: true } })
+    })
+  })
+
+  it('should serve the Person document for application/activity+json', async () => {
+    mockActivityPubService.getActor.mockResolvedValue({ success: true, data: actor })
+
+    const response = await request(app)
+      .get('/users/creator')
+      .set('Accept', 'application/activity+json')
+      .expect(200)
+
+    expect(response.headers['content-type']).toContain('application/activity+json')
+    expect(JSON.parse(response.text)).toEqual(actor)
+    expect(mockActivityPubService.getActor).toHaveBeenCalledWith('creator')
+  })
+
+  it('should serve the Person document for the ld+json ActivityStreams profile', async () => {
+    mockActivityPubService.getActor.mockResolvedValue({ success: true, data: actor })
+
+    await request(app)
+      .get('/users/creator')
+      .set('Accept', 'application/ld+json; profile="https://www.w3.org/ns/activitystreams"')
+      .expect(200)
+
+    expect(mockActivityPubService.getActor).toHaveBeenCalled()
+  })
+
+  it('should fall through to the JSON API for other Accept headers', async () => {
+    const response = await request(app)
+      .get('/users/creator')
+      .set('Accept', 'application/json')
+      .expect(200)
+
+    expect(response.body.data.profile).toBe(true)
+    expect(mockActivityPubService.getActor).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['USER_NOT_FOUND', 404],
+    ['ACTOR_NOT_FOUND', 404],
+    ['USER_INACTIVE', 410],
+    ['INTERNAL_ERROR', 500]
+  ])('should map %s to HTTP %i', async (code, status) => {
+    mockActivityPubService.getActor.mockResolvedValue({ success: false, error: 'Failed', code })
+
+    const response = await request(app)
+      .get('/users/creator')
+      .set('Accept', 'application/activity+json')
+      .expect(status)
+
+    expect(response.body.error.code).toBe(code)
+  })
+
+  describe('POST /users/:username/inbox', () => {
+    const follow = {
+      '@context': 'https://www.w3.org/ns/activitystreams',
+      id: 'https://remote.example/follows/1',
+      type: 'Follow',
+      actor: 'https://remote.example/users/alice',
+      object: 'https://parasocial.example/users/creator'
+    }
+
+    const signedPost = (body: string, privateKeyPem: string = remoteKeys.privateKey) => {
+      const headers = signRequest({
+        method: 'POST',
+        url: 'https://parasocial.example/users/creator/inbox',
+        keyId: 'https://remote.example/users/alice#main-key',
+        privateKeyPem,
+        body
+      })
+
+      return request(app)
+        .post('/users/creator/inbox')
+        .set('Host', headers['host']!)
+        .set('Date', headers['date']!)
+        .set('Digest', headers['digest']!)
+        .set('Signature', headers['signature']!)
+        .set('Content-Type', 'application/activity+json')
+        .send(body)
+    }
+
+    it('should accept correctly signed activities and pass the signer along', async () => {
+      const response = await signedPost(JSON.stringify(follow)).expect(202)
+
+      expect(response.body.data).toEqual({ type: 'Follow', status: 'processed' })
+      expect(mockRemoteActorService.getPublicKey).toHaveBeenCalledWith('https://remote.example/users/alice#main-key')
+      expect(mockInboxService.handleActivity).toHaveBeenCalledWith('creator', follow, 'https://remote.example/users/alice')
+    })
+
+    it('should reject unsigned requests', async () => {
+      const response = await request(app)
+        .post('/users/creator/inbox')
+        .set('Content-Type', 'application/activity+json')
+        .send(JSON.stringify(follow))
+        .expect(401)
+
+      expect(response.body.error.code).toBe('SIGNATURE_REQUIRED')
+      expect(mockInboxService.handleActivity).not.toHaveBeenCalled()
+    })
+
+    it('should reject requests signed with another key', async () => {
+      const otherKeys = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+      })
+
+      const response = await signedPost(JSON.stringify(follow), otherKeys.privateKey).expect(401)
+
+      expect(response.body.error.code).toBe('INVALID_SIGNATURE')
+      // Retried once with a fresh key in case the actor rotated keys
+      expect(mockRemoteActorService.getPublicKey).toHaveBeenLastCalledWith('https://remote.example/users/alice#main-key', true)
+    })
+
+    it('should reject bodies that do not match the digest', async () => {
+      const headers = signRequest({
+        method: 'POST',
+        url: 'https://parasocial.example/users/creator/inbox',
+        keyId: 'https://remote.example/users/alice#main-key',
+        privateKeyPem: remoteKeys.privateKey,
+        body: JSON.stringify(follow)
+      })
+
+      const response = await request(app)
+        .post('/users/creator/inbox')
+        .set('Host', headers['host']!)
+        .set('Date', headers['date']!)
+        .set('Digest', headers['digest']!)
+        .set('Signature', headers['signature']!)
+        .set('Content-Type', 'application/activity+json')
+        .send(JSON.stringify({ ...follow, object: 'https://parasocial.example/users/other' }))
+        .expect(401)
+
+      expect(response.body.error.code).toBe('DIGEST_MISMATCH')
+    })
+
+    it('should return 401 when the actor key cannot be fetched', async () => {
+      mockRemoteActorService.getPublicKey.mockRejectedValue(new Error('offline'))
+
+      const response = await signedPost(JSON.stringify(follow)).expect(401)
+
+      expect(response.body.error.code).toBe('ACTOR_KEY_UNAVAILABLE')
+    })
+
+    it('should require the ActivityPub content type', async () => {
+      await request(app)
+        .post('/users/creator/inbox')
+        .set('Content-Type', 'application/json')
+        .send(follow)
+        .expect(400)
+    })
+
+    it.each([
+      ['INVALID_ACTIVITY', 400],
+      ['ACTOR_MISMATCH', 403],
+      ['USER_NOT_FOUND', 404],
+      ['USER_INACTIVE', 410]
+    ])('should map inbox error %s to HTTP %i', async (code, status) => {
+      mockInboxService.handleActivity.mockResolvedValue({ success: false, error: 'Failed', code })
+
+      await signedPost(JSON.stringify(follow)).expect(status)
+    })
+  })
+
+  describe('GET /users/:username/outbox', () => {
+    it('should serve the collection summary as ActivityStreams JSON', async () => {
+      const response = await request(app)
+        .get('/users/creator/outbox')
+        .expect(200)
+
+      expect(response.headers['content-type']).toContain('application/activity+json')
+      expect(JSON.parse(response.text)).toEqual({ type: 'OrderedCollection', totalItems: 3 })
+      expect(mockOutboxService.getOutbox).toHaveBeenCalledWith('creator', undefined)
+    })
+
+    it('should pass the requested page along', async () => {
+      await request(app)
+        .get('/users/creator/outbox?page=2')
+        .expect(200)
+
+      expect(mockOutboxService.getOutbox).toHaveBeenCalledWith('creator', 2)
+    })
+
+    it('should reject invalid page numbers', async () => {
+      const response = await request(app)
+        .get('/users/creator/outbox?page=0')
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+      expect(mockOutboxService.getOutbox).not.toHaveBeenCalled()
+    })
+
+    it('should map outbox errors', async () => {
+      mockOutboxService.getOutbox.mockResolvedValue({ success: false, error: 'User not found', code: 'USER_NOT_FOUND' })
+
+      await request(app)
+        .get('/users/nobody/outbox')
+        .expect(404)
+    })
+  })
+})
@@ -0,0 +1,232 @@
+// backend/src/routes/__tests__/media.router.test.ts
+// Version: 1.0.0
+// Serving and deleting media through the media router, with local storage in a temporary directory
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import request from 'supertest'
+import express, { Request, Response, NextFunction } from 'express'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { createMediaRouter } from '../media'
+import { MediaController } from '../../controllers/MediaController'
+import { MediaService } from '../../services/MediaService'
+import { LocalStorageProvider } from '../../services/StorageProvider'
+
+/**
+ * Stand-in authentication: the x-user-id header names the signed-in user
+ */
+const identifyUser = (req: Request) => {
+  const userId = req.get('x-user-id')
+  if (userId) {
+    req.user = { id: userId, email: `${userId}@example.com`, username: userId }
+  }
+}
+
+const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  identifyUser(req)
+  if (!req.user) {
+    res.status(401).json({ success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } })
+    return
+  }
+  next()
+}
+
+const optionalAuthMiddleware = (req: Request, _res: Response, next: NextFunction) => {
+  identifyUser(req)
+  next()
+}
+
+describe('Media router', () => {
+  const videoBytes = Buffer.from('0123456789abcdefghij')
+
+  let directory: string
+  let mockMediaRepository: any
+  let app: express.Application
+
+  /**
+   * Media as findForServing returns it, on a published post by default
+   */
+  const servableMedia = (overrides: Record<string, unknown> = {}) => ({
+    id: 'media1',
+    filename: 'file-1.mp4',
+    originalName: 'Beach day.mov',
+    mimeType: 'video/mp4',
+    size: videoBytes.length,
+    thumbnailUrl: null,
+    previewUrl: null,
+    posterUrl: '/api/media/file-1-poster.jpg',
+    uploaderId: 'user123',
+    updatedAt: new Date('2025-06-02T12:00:00Z'),
+    post: {
+      authorId: 'user123',
+      isPublished: true,
+      moderationStatus: 'visible',
+      author: { isActive: true }
+    },
+    ...overrides
+  })
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-media-'))
+    await fs.writeFile(path.join(directory, 'file-1.mp4'), videoBytes)
+    await fs.writeFile(path.join(directory, 'file-1-poster.jpg'), 'poster')
+
+    mockMediaRepository = {
+      findForServing: vi.fn().mockResolvedValue(servableMedia()),
+      delete: vi.fn().mockResolvedValue({ id: 'media1' })
+    }
+    const storage = new LocalStorageProvider({ directory, signingSecret: 'x'.repeat(32) }, '/api/media')
+    const mediaController = new MediaController(new MediaService(mockMediaRepository, storage))
+
+    app = express()
+    app.use('/api/media', createMediaRouter({ mediaController, authMiddleware, optionalAuthMiddleware }))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  describe('GET /api/media/:identifier', () => {
+    it('should serve public media by ID with caching and security headers', async () => {
+      const response = await request(app).get('/api/media/media1')
+
+      expect(response.status).toBe(200)
+      expect(response.headers['content-type']).toBe('video/mp4')
+      expect(response.headers['content-length']).toBe('20')
+      expect(response.headers['accept-ranges']).toBe('bytes')
+      expect(response.headers['etag']).toMatch(/^"[\w-]{27}"$/)
+      expect(response.headers['last-modified']).toBe('Mon, 02 Jun 2025 12:00:00 GMT')
+      expect(response.headers['cache-control']).toBe('public, max-age=86400')
+      expect(response.headers['x-content-type-options']).toBe('nosniff')
+      expect(response.headers['content-disposition'])
+        .toBe('inline; filename="Beach day.mp4"; filename*=UTF-8\'\'Beach%20day.mp4')
+      expect(Buffer.from(response.body).toString()).toBe('0123456789abcdefghij')
+    })
+
+    it('should serve a rendition by its filename', async () => {
+      const response = await request(app).get('/api/media/file-1-poster.jpg')
+
+      expect(response.status).toBe(200)
+      expect(response.headers['content-type']).toBe('image/jpeg')
+      expect(response.body.toString()).toBe('poster')
+    })
+
+    it('should offer the file as an attachment on request', async () => {
+      const response = await request(app).get('/api/media/file-1.mp4?download=1')
+
+      expect(response.headers['content-disposition']).toMatch(/^attachment; filename="Beach day.mp4"/)
+    })
+
+    it('should answer a byte range with 206 and Content-Range', async () => {
+      const response = await request(app)
+        .get('/api/media/media1')
+        .set('Range', 'bytes=10-14')
+
+      expect(response.status).toBe(206)
+      expect(response.headers['content-range']).toBe('bytes 10-14/20')
+      expect(response.headers['content-length']).toBe('5')
+      expect(Buffer.from(response.body).toString()).toBe('abcde')
+    })
+
+    it('should answer an open-ended range up to the end of the file', async () => {
+      const response = await request(app)
+        .get('/api/media/media1')
+        .set('Range', 'bytes=15-')
+
+      expect(response.status).toBe(206)
+      expect(response.headers['content-range']).toBe('bytes 15-19/20')
+    })
+
+    it('should respond 416 to a range beyond the file', async () => {
+      const response = await request(app)
+        .get('/api/media/media1')
+        .set('Range', 'bytes=50-60')
+
+      expect(response.status).toBe(416)
+      expect(response.headers['content-range']).toBe('bytes */20')
+    })
+
+    it('should send the whole file when If-Range no longer matches', async () => {
+      const response = await request(app)
+        .get('/api/media/media1')
+        .set('Range', 'bytes=10-14')
+        .set('If-Range', '"stale"')
+
+      expect(response.status).toBe(200)
+      expect(response.headers['content-length']).toBe('20')
+    })
+
+    it('should respond 304 when the ETag or modification time still matches', async () => {
+      const first = await request(app).get('/api/media/media1')
+
+      const byEtag = await request(app)
+        .get('/api/media/media1')
+        .set('If-None-Match', first.headers['etag']!)
+      const byDate = await request(app)
+        .get('/api/media/media1')
+        .set('If-Modified-Since', first.headers['last-modified']!)
+
+      expect(byEtag.status).toBe(304)
+      expect(byDate.status).toBe(304)
+    })
+
+    it('should only serve draft media to its author, without shared caching', async () => {
+      mockMediaRepository.findForServing.mockResolvedValue(servableMedia({
+        post: { authorId: 'user123', isPublished: false, moderationStatus: 'visible', author: { isActive: true } }
+      }))
+
+      const anonymous = await request(app).get('/api/media/media1')
+      const stranger = await request(app).get('/api/media/media1').set('x-user-id', 'user456')
+      const author = await request(app).get('/api/media/media1').set('x-user-id', 'user123')
+
+      expect(anonymous.status).toBe(404)
+      expect(stranger.status).toBe(404)
+      expect(author.status).toBe(200)
+      expect(author.headers['cache-control']).toBe('private, no-cache')
+    })
+
+    it('should respond 404 when storage no longer has the file', async () => {
+      await fs.unlink(path.join(directory, 'file-1.mp4'))
+
+      const response = await request(app).get('/api/media/media1')
+
+      expect(response.status).toBe(404)
+      expect(response.headers['content-disposition']).toBeUndefined()
+    })
+
+    it('should block dotfiles before looking anything up', async () => {
+      const response = await request(app).get('/api/media/.env')
+
+      expect(response.status).toBe(403)
+      expect(mockMediaRepository.findForServing).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('DELETE /api/media/:identifier', () => {
+    it('should let the uploader delete the media and its files', async () => {
+      const response = await request(app)
+        .delete('/api/media/media1')
+        .set('x-user-id', 'user123')
+
+      expect(response.status).toBe(200)
+      expect(mockMediaRepository.delete).toHaveBeenCalledWith('media1')
+      expect(await fs.readdir(directory)).toEqual([])
+    })
+
+    it('should refuse other users', async () => {
+      const response = await request(app)
+        .delete('/api/media/media1')
+        .set('x-user-id', 'user456')
+
+      expect(response.status).toBe(403)
+      expect(mockMediaRepository.delete).not.toHaveBeenCalled()
+    })
+
+    it('should require authentication', async () => {
+      const response = await request(app).delete('/api/media/media1')
+
+      expect(response.status).toBe(401)
+    })
+  })
+})
@@ -0,0 +1,165 @@
+// backend/src/routes/__tests__/rateLimitStatus.router.test.ts
+// Version: 1.0.0
+// Per-user limits through the real limiters and the status route, with mocked repositories
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import request from 'supertest'
+import express, { Request, Response, NextFunction } from 'express'
+import { createRateLimitRouter } from '../rateLimits'
+import { RateLimitController } from '../../controllers/RateLimitController'
+import { RateLimitTierService } from '../../services/RateLimitTierService'
+import { MemoryRateLimitStore } from '../../services/RateLimitStore'
+import {
+  DEFAULT_CONFIGS,
+  createRateLimit,
+  getRateLimitStore,
+  setRateLimitResolver,
+  setRateLimitStore
+} from '../../middleware/rateLimitMiddleware'
+
+/**
+ * Stand-in authentication: the x-user-id header names the signed-in user
+ */
+const optionalAuthMiddleware = async (req: Request, _res: Response, next: NextFunction) => {
+  const userId = req.get('x-user-id')
+  if (userId) {
+    req.user = { id: userId, email: `${userId}@example.com`, username: userId }
+  }
+  next()
+}
+
+describe('Rate limit tiers', () => {
+  const users: Record<string, { id: string, verificationTier: string, role: string }> = {
+    newcomer: { id: 'newcomer', verificationTier: 'none', role: 'user' },
+    newsroom: { id: 'newsroom', verificationTier: 'notable', role: 'user' }
+  }
+
+  let mockOverrideRepository: any
+  let app: express.Application
+  const originalStore = getRateLimitStore()
+
+  beforeEach(() => {
+    const mockUserRepository: any = {
+      findById: vi.fn(async (id: string) => users[id] ?? null)
+    }
+    mockOverrideRepository = {
+      findActiveByUserId: vi.fn().mockResolvedValue([])
+    }
+    const rateLimitTierService = new RateLimitTierService(mockUserRepository, mockOverrideRepository)
+
+    setRateLimitStore(new MemoryRateLimitStore())
+    setRateLimitResolver((userId, policy) => rateLimitTierService.resolvePolicy(userId, policy))
+
+    app = express()
+    app.set('trust proxy', true)
+    app.post('/api/posts', optionalAuthMiddleware, createRateLimit(DEFAULT_CONFIGS.postCreation), (_req, res) => {
+      res.status(201).json({ success: true })
+    })
+    app.use('/api/rate-limit-status', createRateLimitRouter({
+      rateLimitController: new RateLimitController(rateLimitTierService),
+      optionalAuthMiddleware
+    }))
+  })
+
+  afterEach(() => {
+    setRateLimitResolver(null)
+    setRateLimitStore(originalStore)
+  })
+
+  /**
+   * Create posts as a user, returning each response status
+   */
+  const createPosts = async (userId: string, count: number) => {
+    const statuses: number[] = []
+    for (let i = 0; i < count; i++) {
+      statuses.push((await request(app).post('/api/posts').set('x-user-id', userId)).status)
+    }
+    return statuses
+  }
+
+  it('should hold a new account to the default post limit', async () => {
+    const statuses = await createPosts('newcomer', 11)
+
+    expect(statuses.filter(status => status === 201)).toHaveLength(10)
+    expect(statuses[10]).toBe(429)
+  })
+
+  it('should let a notable account post ten times as fast', async () => {
+    const statuses = await createPosts('newsroom', 11)
+    const response = await request(app).post('/api/posts').set('x-user-id', 'newsroom')
+
+    expect(statuses.every(status => status === 201)).toBe(true)
+    expect(response.headers['ratelimit-limit']).toBe('100')
+  })
+
+  it('should apply an admin override in place of the tier limit', async () => {
+    mockOverrideRepository.findActiveByUserId.mockResolvedValue([
+      { policy: 'postCreation', max: 2, windowMs: null, expiresAt: null }
+    ])
+
+    expect(await createPosts('newsroom', 3)).toEqual([201, 201, 429])
+  })
+
+  describe('GET /api/rate-limit-status', () => {
+    it('should report the signed-in user\'s tier and remaining allowance without using any', async () => {
+      await createPosts('newsroom', 3)
+
+      const response = await request(app).get('/api/rate-limit-status').set('x-user-id', 'newsroom')
+      const again = await request(app).get('/api/rate-limit-status').set('x-user-id', 'newsroom')
+
+      expect(response.status).toBe(200)
+      expect(response.headers['cache-control']).toBe('private, no-store')
+      expect(response.headers['ratelimit-tier']).toBe('notable')
+      expect(response.headers['ratelimit-role']).toBe('user')
+      expect(response.headers['ratelimit-limit-post']).toBe('100')
+      expect(response.headers['ratelimit-remaining-post']).toBe('97')
+      expect(response.headers['ratelimit-window-post']).toBe('60000')
+      expect(response.body.data).toMatchObject({
+        verificationTier: 'notable',
+        role: 'user',
+        multiplier: 10,
+        limits: {
+          postCreation: { limit: 100, remaining: 97, windowMs: 60000, source: 'tier' },
+          general: { limit: 1000, source: 'tier' },
+          auth: { limit: 5, source: 'default' }
+        }
+      })
+      expect(again.headers['ratelimit-remaining-post']).toBe('97')
+    })
+
+    it('should send reset times in milliseconds since the epoch', async () => {
+      vi.useFakeTimers({ toFake: ['Date'], now: new Date('2025-06-01T12:00:30Z') })
+      try {
+        await createPosts('newcomer', 1)
+
+        const response = await request(app).get('/api/rate-limit-status').set('x-user-id', 'newcomer')
+
+        // The request counts through the end of the next minute
+        expect(response.headers['ratelimit-reset-post']).toBe(String(Date.parse('2025-06-01T12:02:00Z')))
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should answer HEAD with the same headers', async () => {
+      const response = await request(app).head('/api/rate-limit-status').set('x-user-id', 'newcomer')
+
+      expect(response.status).toBe(200)
+      expect(response.headers['ratelimit-limit-post']).toBe('10')
+      expect(response.headers['ratelimit-limit-auth']).toBe('5')
+      expect(response.headers['ratelimit-limit']).toBe('100')
+    })
+
+    it('should report default limits without a tier to anonymous callers', async () => {
+      const response = await request(app).get('/api/rate-limit-status')
+
+      expect(response.headers['ratelimit-tier']).toBeUndefined()
+      expect(response.body.data).toMatchObject({
+        verificationTier: null,
+        role: null,
+        multiplier: 1,
+        limits: { postCreation: { limit: 10, source: 'default' } }
+      })
+    })
+  })
+})
@@ -11,6 +11,9 @@ import { createUsersRouter } from '../users'
  */
 interface MockUserController {
   getUserProfile: ReturnType<typeof vi.fn>
+  getOwnProfile: ReturnType<typeof vi.fn>
+  updateOwnProfile: ReturnType<typeof vi.fn>
+  uploadAvatar: ReturnType<typeof vi.fn>
   blockUser: ReturnType<typeof vi.fn>
   unblockUser: ReturnType<typeof vi.fn>
 }
@@ -53,6 +56,15 @@ describe('Users Router Refactoring Tests', () => {
       getUserProfile: vi.fn().mockImplementation((req, res) => {
         res.json({ success: true, controller: 'UserController', method: 'getUserProfile' })
       }),
+      getOwnProfile: vi.fn().mockImplementation((req, res) => {
+        res.json({ success: true, controller: 'UserController', method: 'getOwnProfile' })
+      }),
+      updateOwnProfile: vi.fn().mockImplementation((req, res) => {
+        res.json({ success: true, controller: 'UserController', method: 'updateOwnProfile', body: req.body })
+      }),
+      uploadAvatar: vi.fn().mockImplementation((req, res) => {
+        res.json({ success: true, controller: 'UserController', method: 'uploadAvatar', size: req.file?.size })
+      }),
       blockUser: vi.fn().mockImplementation((req, res) => {
         res.json({ success: true, controller: 'UserController', method: 'blockUser' })
       }),
@@ -244,6 +256,51 @@ describe('Users Router Refactoring Tests', () => {
     })
   })
 
+  /**
+   * Test own profile routes, which must not be read as usernames
+   */
+  describe('Own Profile Operations - UserController Usage', () => {
+    it('should use getOwnProfile for GET /users/profile', async () => {
+      const response = await request(app)
+        .get('/users/profile')
+        .expect(200)
+
+      expect(response.body.method).toBe('getOwnProfile')
+      expect(mockUserController.getUserProfile).not.toHaveBeenCalled()
+      expect(mockAuthMiddleware).toHaveBeenCalled()
+    })
+
+    it('should use updateOwnProfile for PUT /users/profile', async () => {
+      const response = await request(app)
+        .put('/users/profile')
+        .send({ displayName: 'New Name' })
+        .expect(200)
+
+      expect(response.body.method).toBe('updateOwnProfile')
+      expect(response.body.body).toEqual({ displayName: 'New Name' })
+    })
+
+    it('should accept an image for POST /users/avatar', async () => {
+      const response = await request(app)
+        .post('/users/avatar')
+        .attach('avatar', Buffer.from('fake-png-bytes'), { filename: 'me.png', contentType: 'image/png' })
+        .expect(200)
+
+      expect(response.body.method).toBe('uploadAvatar')
+      expect(response.body.size).toBe(14)
+    })
+
+    it('should reject avatar uploads that are not images', async () => {
+      const response = await request(app)
+        .post('/users/avatar')
+        .attach('avatar', Buffer.from('%PDF-1.4'), { filename: 'me.pdf', contentType: 'application/pdf' })
+        .expect(400)
+
+      expect(response.body.code).toBe('VALIDATION_ERROR')
+      expect(mockUserController.uploadAvatar).not.toHaveBeenCalled()
+    })
+  })
+
   /**
    * Test that PostController is used for post operations
    */
@@ -0,0 +1,84 @@
+// backend/src/routes/__tests__/webfinger.routes.test.ts
+// Version: 1.0.0
+// Route tests for /.well-known/webfinger status codes and response format
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import { createWebFingerRouter } from '../webfinger'
+
+describe('WebFinger Routes', () => {
+  let app: express.Application
+  let mockWebFingerService: any
+
+  beforeEach(() => {
+    mockWebFingerService = {
+      resolve: vi.fn()
+    }
+
+    app = express()
+    app.use('/.well-known', createWebFingerRouter({
+      webFingerService: mockWebFingerService
+    }))
+  })
+
+  it('should return the JRD with application/jrd+json content type', async () => {
+    const jrd = {
+      subject: 'acct:creator@parasocial.example',
+      aliases: ['https://parasocial.example/users/creator'],
+      links: [
+        { rel: 'self', type: 'application/activity+json', href: 'https://parasocial.example/users/creator' }
+      ]
+    }
+    mockWebFingerService.resolve.mockResolvedValue({ success: true, data: jrd })
+
+    const response = await request(app)
+      .get('/.well-known/webfinger')
+      .query({ resource: 'acct:creator@parasocial.example' })
+      .expect(200)
+
+    expect(response.headers['content-type']).toContain('application/jrd+json')
+    expect(response.headers['access-control-allow-origin']).toBe('*')
+    expect(JSON.parse(response.text)).toEqual(jrd)
+    expect(mockWebFingerService.resolve).toHaveBeenCalledWith('acct:creator@parasocial.example')
+  })
+
+  it('should return 400 when the resource parameter is missing', async () => {
+    const response = await request(app)
+      .get('/.well-known/webfinger')
+      .expect(400)
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR')
+    expect(mockWebFingerService.resolve).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 for badly formed resources', async () => {
+    await request(app)
+      .get('/.well-known/webfinger')
+      .query({ resource: 'creator' })
+      .expect(400)
+
+    expect(mockWebFingerService.resolve).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['USER_NOT_FOUND', 404],
+    ['RESOURCE_NOT_FOUND', 404],
+    ['ACTOR_NOT_FOUND', 404],
+    ['USER_INACTIVE', 410],
+    ['INVALID_RESOURCE', 400],
+    ['INTERNAL_ERROR', 500]
+  ])('should map %s to HTTP %i', async (code, status) => {
+    mockWebFingerService.resolve.mockResolvedValue({ success: false, error: 'Failed', code })
+
+    const response = await request(app)
+      .get('/.well-known/webfinger')
+      .query({ resource: 'acct:creator@parasocial.example' })
+      .expect(status)
+
+    expect(response.body).toEqual({
+      success: false,
+      error: { code, message: 'Failed' }
+    })
+  })
+})
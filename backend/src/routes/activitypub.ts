@@ -0,0 +1,166 @@
+// backend/src/routes/activitypub.ts
+// Version: 1.2.0 - Added per-user outbox collection
+// Changed: 1.1.0 - Added signed per-user inbox endpoint
+
+import { Router, Request, Response } from 'express'
+import { ActivityPubService } from '../services/ActivityPubService'
+import { InboxService } from '../services/InboxService'
+import { OutboxService } from '../services/OutboxService'
+import { RemoteActorService } from '../services/RemoteActorService'
+import {
+  requireActivityJson,
+  parseActivityJson,
+  createHttpSignatureMiddleware
+} from '../middleware/activityPubMiddleware'
+import { validateActivityPubInbox } from '../middleware/followValidationMiddleware'
+import { ACTIVITYPUB_CONTENT_TYPE } from '../utils/constants'
+
+// Dependencies interface for dependency injection
+interface ActivityPubRouterDependencies {
+  activityPubService: ActivityPubService
+  inboxService: InboxService
+  outboxService: OutboxService
+  remoteActorService: RemoteActorService
+}
+
+/**
+ * Map ActivityPub service error codes to HTTP status codes
+ * @param code - Error code from ActivityPubService
+ * @returns HTTP status code
+ */
+function mapErrorCodeToStatus(code?: string): number {
+  switch (code) {
+    case 'INVALID_ACTIVITY':
+    case 'VALIDATION_ERROR':
+      return 400
+    case 'ACTOR_MISMATCH':
+      return 403
+    case 'USER_NOT_FOUND':
+    case 'ACTOR_NOT_FOUND':
+      return 404
+    case 'USER_INACTIVE':
+      return 410
+    default:
+      return 500
+  }
+}
+
+/**
+ * Create ActivityPub router with dependency injection
+ * Mounts under /users ahead of the regular users router; requests that
+ * don't ask for ActivityStreams JSON fall through to it
+ * @param dependencies - Injected dependencies
+ * @returns Configured Express router
+ */
+export function createActivityPubRouter(dependencies: ActivityPubRouterDependencies): Router {
+  const { activityPubService, inboxService, outboxService, remoteActorService } = dependencies
+  const router = Router()
+  const verifyHttpSignature = createHttpSignatureMiddleware(remoteActorService)
+
+  /**
+   * GET /users/:username
+   * Serve the creator's ActivityStreams Person document
+   * Public endpoint fetched by remote instances
+   */
+  router.get('/:username',
+    requireActivityJson,
+    async (req: Request, res: Response) => {
+      const username = req.params['username'] as string
+      const result = await activityPubService.getActor(username)
+
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'INTERNAL_ERROR',
+            message: result.error || 'Failed to load actor'
+          }
+        })
+        return
+      }
+
+      res.status(200)
+        .type(ACTIVITYPUB_CONTENT_TYPE)
+        .send(JSON.stringify(result.data))
+    }
+  )
+
+  /**
+   * POST /users/:username/inbox
+   * Receive activities from remote servers
+   * Requests must be signed by the activity's actor
+   */
+  router.post('/:username/inbox',
+    parseActivityJson,
+    validateActivityPubInbox,
+    verifyHttpSignature,
+    async (req: Request, res: Response) => {
+      const username = req.params['username'] as string
+      const signedActorId = res.locals['signedActorId'] as string
+      const result = await inboxService.handleActivity(username, req.body, signedActorId)
+
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'INTERNAL_ERROR',
+            message: result.error || 'Failed to process activity'
+          }
+        })
+        return
+      }
+
+      // Processing happens synchronously, but 202 is what senders expect from inboxes
+      res.status(202).json({
+        success: true,
+        data: result.data
+      })
+    }
+  )
+
+  /**
+   * GET /users/:username/outbox
+   * Serve the creator's published posts as an OrderedCollection of Create activities
+   * Without ?page the collection summary is returned; pages start at 1
+   */
+  router.get('/:username/outbox', async (req: Request, res: Response) => {
+    const username = req.params['username'] as string
+    const pageParam = req.query['page']
+    let page: number | undefined
+
+    if (pageParam !== undefined) {
+      page = Number(pageParam)
+      if (!Number.isInteger(page) || page < 1) {
+        res.status(mapErrorCodeToStatus('VALIDATION_ERROR')).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Page must be a positive integer'
+          }
+        })
+        return
+      }
+    }
+
+    const result = await outboxService.getOutbox(username, page)
+
+    if (!result.success || !result.data) {
+      res.status(mapErrorCodeToStatus(result.code)).json({
+        success: false,
+        error: {
+          code: result.code || 'INTERNAL_ERROR',
+          message: result.error || 'Failed to load outbox'
+        }
+      })
+      return
+    }
+
+    res.status(200)
+      .type(ACTIVITYPUB_CONTENT_TYPE)
+      .send(JSON.stringify(result.data))
+  })
+
+  return router
+}
+
+export default createActivityPubRouter
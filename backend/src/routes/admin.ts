@@ -0,0 +1,87 @@
+// backend/src/routes/admin.ts
+// Version: 1.1.0
+// Admin-only routes for managing user roles and rate limits
+
+import { Router, Request, Response, NextFunction } from 'express'
+import { AdminController } from '../controllers/AdminController'
+import { requireRole } from '../middleware/roleMiddleware'
+
+// Middleware function type
+type MiddlewareFunction = (req: Request, res: Response, next: NextFunction) => Promise<void>
+
+// Dependencies interface for dependency injection
+interface AdminRouterDependencies {
+  adminController: AdminController
+  authMiddleware: MiddlewareFunction
+}
+
+/**
+ * Create admin router with dependency injection
+ * Every route requires an authenticated admin
+ * @param dependencies - Injected dependencies
+ * @returns Configured Express router
+ */
+export function createAdminRouter(dependencies: AdminRouterDependencies): Router {
+  const { adminController, authMiddleware } = dependencies
+  const router = Router()
+
+  router.use(authMiddleware, requireRole('admin'))
+
+  /**
+   * PUT /admin/users/:id/role
+   * Grant or revoke a role
+   *
+   * Body:
+   * {
+   *   "role": "user" | "moderator" | "admin",
+   *   "reason": "Optional note for the audit trail"
+   * }
+   */
+  router.put('/users/:id/role', async (req: Request, res: Response) => {
+    await adminController.updateUserRole(req, res)
+  })
+
+  /**
+   * GET /admin/users/:id/role-changes
+   * List the role changes made to a user, newest first
+   */
+  router.get('/users/:id/role-changes', async (req: Request, res: Response) => {
+    await adminController.getUserRoleHistory(req, res)
+  })
+
+  /**
+   * GET /admin/users/:id/rate-limits
+   * Show a user's limits per policy, where each comes from, and their overrides
+   */
+  router.get('/users/:id/rate-limits', async (req: Request, res: Response) => {
+    await adminController.getUserRateLimits(req, res)
+  })
+
+  /**
+   * PUT /admin/users/:id/rate-limits/:policy
+   * Override a user's limit for postCreation, mediaUpload, followOperations or general
+   *
+   * Body:
+   * {
+   *   "max": 100,
+   *   "windowMs": 60000,
+   *   "expiresAt": "2025-07-01T00:00:00.000Z",
+   *   "reason": "Optional note for the audit trail"
+   * }
+   */
+  router.put('/users/:id/rate-limits/:policy', async (req: Request, res: Response) => {
+    await adminController.setUserRateLimit(req, res)
+  })
+
+  /**
+   * DELETE /admin/users/:id/rate-limits/:policy
+   * Remove an override, returning the user to the limit from their tier and role
+   */
+  router.delete('/users/:id/rate-limits/:policy', async (req: Request, res: Response) => {
+    await adminController.removeUserRateLimit(req, res)
+  })
+
+  return router
+}
+
+export default createAdminRouter
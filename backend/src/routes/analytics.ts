@@ -0,0 +1,47 @@
+// backend/src/routes/analytics.ts
+// Version: 1.1.0
+// Routes for creator dashboard analytics
+// Changed: Added day, week and month series
+
+import { Router, Request, Response, NextFunction } from 'express'
+import { AnalyticsController } from '../controllers/AnalyticsController'
+
+// Middleware function type
+type MiddlewareFunction = (req: Request, res: Response, next: NextFunction) => Promise<void>
+
+// Dependencies interface for dependency injection
+interface AnalyticsRouterDependencies {
+  analyticsController: AnalyticsController
+  authMiddleware: MiddlewareFunction
+}
+
+/**
+ * Create analytics router with dependency injection
+ * Mounted at /analytics
+ * @param dependencies - Injected dependencies
+ * @returns Configured Express router
+ */
+export function createAnalyticsRouter(dependencies: AnalyticsRouterDependencies): Router {
+  const { analyticsController, authMiddleware } = dependencies
+  const router = Router()
+
+  /**
+   * GET /analytics/dashboard
+   * Follower growth, top instances, posting times and delivery success for the signed-in creator
+   */
+  router.get('/dashboard', authMiddleware, async (req: Request, res: Response) => {
+    await analyticsController.getDashboard(req, res)
+  })
+
+  /**
+   * GET /analytics/series
+   * Daily rollups for the signed-in creator grouped by day, week or month
+   */
+  router.get('/series', authMiddleware, async (req: Request, res: Response) => {
+    await analyticsController.getSeries(req, res)
+  })
+
+  return router
+}
+
+export default createAnalyticsRouter
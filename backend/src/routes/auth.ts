@@ -1,12 +1,16 @@
 // backend/src/routes/auth.ts
-// Version: 2.0.0 
+// Version: 2.4.0
+// Changed: Failed attempts are limited on the shared rate limit store
+// Added: Two-factor enrollment, login verification and recovery code routes
+// Added: Password reset and email verification routes
+// Added: Refresh token exchange and session management routes
 // Fixed: Connected routes to actual AuthController methods instead of placeholder handlers
 // Fixed: Proper dependency injection pattern with AuthController
 // Fixed: Proper Express RequestHandler typing
 
 import { Router } from 'express'
-import rateLimit from 'express-rate-limit'
 import { AuthController } from '../controllers/AuthController'
+import { authRateLimit } from '../middleware/rateLimitMiddleware'
 
 // Define the interface for auth router dependencies
 interface AuthRouterDependencies {
@@ -14,28 +18,6 @@ interface AuthRouterDependencies {
   authMiddleware: any
 }
 
-// Rate limiter configuration for authentication endpoints
-const authRateLimit = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 5, // Limit each IP to 5 requests per windowMs
-  message: {
-    error: 'Too many authentication attempts, please try again later',
-    retryAfter: '15 minutes'
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  // Skip successful requests to avoid penalizing legitimate users
-  skipSuccessfulRequests: true,
-  // Handle undefined IP by providing a key function
-  keyGenerator: (req): string => {
-    // Use req.ip if available, otherwise fall back to connection info
-    return req.ip || 
-           req.connection.remoteAddress || 
-           req.socket.remoteAddress || 
-           '127.0.0.1'
-  }
-})
-
 /**
  * Create auth router with dependencies injected
  * Connects routes to actual AuthController methods
@@ -67,6 +49,61 @@ export const createAuthRouter = (dependencies: AuthRouterDependencies): Router =
     authController.login(req, res)
   })
   
+  /**
+   * POST /refresh
+   * Exchange a refresh token for a new access token and refresh token
+   * Calls AuthController.refresh method
+   */
+  router.post('/refresh', (req, res) => {
+    authController.refresh(req, res)
+  })
+  
+  /**
+   * POST /2fa/verify
+   * Finish a login with the challenge token and a TOTP or recovery code
+   * Calls AuthController.verifyTwoFactor method
+   */
+  router.post('/2fa/verify', (req, res) => {
+    authController.verifyTwoFactor(req, res)
+  })
+  
+  /**
+   * POST /forgot-password
+   * Email a password reset link
+   * Calls AuthController.forgotPassword method
+   */
+  router.post('/forgot-password', (req, res) => {
+    authController.forgotPassword(req, res)
+  })
+  
+  /**
+   * POST /reset-password
+   * Set a new password with a reset token
+   * Calls AuthController.resetPassword method
+   */
+  router.post('/reset-password', (req, res) => {
+    authController.resetPassword(req, res)
+  })
+  
+  /**
+   * POST /verify-email
+   * Verify an email address with a verification token
+   * Calls AuthController.verifyEmail method
+   */
+  router.post('/verify-email', (req, res) => {
+    authController.verifyEmail(req, res)
+  })
+  
+  /**
+   * POST /verify-email/resend
+   * Send a new verification email
+   * Requires authentication
+   * Calls AuthController.resendVerification method
+   */
+  router.post('/verify-email/resend', authMiddleware, (req, res) => {
+    authController.resendVerification(req, res)
+  })
+  
   /**
    * POST /logout
    * Logout current user session
@@ -87,6 +124,76 @@ export const createAuthRouter = (dependencies: AuthRouterDependencies): Router =
     authController.getCurrentUser(req, res)
   })
   
+  /**
+   * GET /sessions
+   * List the current user's logged-in devices
+   * Requires authentication
+   * Calls AuthController.getSessions method
+   */
+  router.get('/sessions', authMiddleware, (req, res) => {
+    authController.getSessions(req, res)
+  })
+  
+  /**
+   * DELETE /sessions/:id
+   * Revoke one of the current user's sessions
+   * Requires authentication
+   * Calls AuthController.deleteSession method
+   */
+  router.delete('/sessions/:id', authMiddleware, (req, res) => {
+    authController.deleteSession(req, res)
+  })
+  
+  /**
+   * GET /2fa
+   * Get the current user's two-factor settings
+   * Requires authentication
+   * Calls AuthController.getTwoFactorStatus method
+   */
+  router.get('/2fa', authMiddleware, (req, res) => {
+    authController.getTwoFactorStatus(req, res)
+  })
+  
+  /**
+   * POST /2fa/setup
+   * Start two-factor enrollment and get the otpauth:// URI
+   * Requires authentication
+   * Calls AuthController.setupTwoFactor method
+   */
+  router.post('/2fa/setup', authMiddleware, (req, res) => {
+    authController.setupTwoFactor(req, res)
+  })
+  
+  /**
+   * POST /2fa/enable
+   * Confirm enrollment with a code and receive recovery codes
+   * Requires authentication
+   * Calls AuthController.enableTwoFactor method
+   */
+  router.post('/2fa/enable', authMiddleware, (req, res) => {
+    authController.enableTwoFactor(req, res)
+  })
+  
+  /**
+   * POST /2fa/disable
+   * Turn two-factor off with the password and a code
+   * Requires authentication
+   * Calls AuthController.disableTwoFactor method
+   */
+  router.post('/2fa/disable', authMiddleware, (req, res) => {
+    authController.disableTwoFactor(req, res)
+  })
+  
+  /**
+   * POST /2fa/recovery-codes
+   * Replace the recovery codes with the password and a code
+   * Requires authentication
+   * Calls AuthController.regenerateRecoveryCodes method
+   */
+  router.post('/2fa/recovery-codes', authMiddleware, (req, res) => {
+    authController.regenerateRecoveryCodes(req, res)
+  })
+  
   return router
 }
 
@@ -94,7 +201,11 @@ export const createAuthRouter = (dependencies: AuthRouterDependencies): Router =
 export default createAuthRouter
 
 // backend/src/routes/auth.ts
-// Version: 2.0.0 
+// Version: 2.4.0
+// Changed: Failed attempts are limited on the shared rate limit store
+// Added: Two-factor enrollment, login verification and recovery code routes
+// Added: Password reset and email verification routes
+// Added: Refresh token exchange and session management routes
 // Fixed: Connected routes to actual AuthController methods instead of placeholder handlers
 // Fixed: Proper dependency injection pattern with AuthController
 // Fixed: Proper Express RequestHandler typing
\ No newline at end of file
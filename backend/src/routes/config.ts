@@ -1,6 +1,6 @@
 // Path: backend/src/routes/config.ts
-// Version: 1.1.2
-// Fixed unused parameter warning
+// Version: 1.2.0
+// Enabled email verification feature flag
 
 import { Request, Response, Router } from 'express'
 
@@ -37,7 +37,7 @@ router.get('/', async (_req: Request, res: Response): Promise<void> => {
       features: {
         registration: true,
         socialLogin: false,
-        emailVerification: false
+        emailVerification: true
       },
       api: {
         baseUrl: process.env['API_BASE_URL'] || 'http://localhost:3001/api',
@@ -65,5 +65,5 @@ router.get('/', async (_req: Request, res: Response): Promise<void> => {
 export default router
 
 // Path: backend/src/routes/config.ts
-// Version: 1.1.2
-// Fixed unused parameter warning
\ No newline at end of file
+// Version: 1.2.0
+// Enabled email verification feature flag
\ No newline at end of file
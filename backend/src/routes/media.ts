@@ -1,39 +1,38 @@
 // backend\src\routes\media.ts
-// Version: 1.4
-// Changed: Removed unused ParamsDictionary import to fix TypeScript error
+// Version: 1.9
+// Changed: Rate limit uploads and deletes per user with the shared mediaUpload policy
 
 import { Router, Request, Response, NextFunction } from 'express'
 import multer from 'multer'
+import os from 'os'
 import path from 'path'
 import fs from 'fs/promises'
-import rateLimit from 'express-rate-limit'
+import { MediaController } from '../controllers/MediaController'
+import { createMediaFileSecurityMiddleware } from '../middleware/staticFileSecurityMiddleware'
+import { createRateLimit, DEFAULT_CONFIGS } from '../middleware/rateLimitMiddleware'
+import { matchesDeclaredType, readFileHeader } from '../utils/fileSignature'
 
 // Types for dependency injection
 interface MediaRouterConfig {
+  mediaController: MediaController
   authMiddleware: (req: Request, res: Response, next: NextFunction) => void
+  optionalAuthMiddleware: (req: Request, res: Response, next: NextFunction) => void
 }
 
-// Rate limiting for media uploads
-const mediaUploadRateLimit = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 10, // Limit each IP to 10 uploads per windowMs
-  message: {
-    success: false,
-    error: {
-      code: 'RATE_LIMIT_EXCEEDED',
-      message: 'Too many upload attempts. Please try again later.',
-      details: []
-    }
-  },
-  standardHeaders: true,
-  legacyHeaders: false
+// Rate limiting for media uploads and deletes; runs after authentication so
+// it counts per user, sharing counts with every limiter on the mediaUpload policy
+const mediaUploadRateLimit = createRateLimit({
+  ...DEFAULT_CONFIGS.mediaUpload,
+  message: 'Too many upload attempts. Please try again later.'
 })
 
+// Uploads are staged on local disk for checking and processing; MediaService
+// then writes them to the configured StorageProvider and removes the staged copy
+const UPLOAD_STAGING_DIRECTORY = path.join(os.tmpdir(), 'parasocial-uploads')
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
-  destination: function (_req, _file, cb) {
-    cb(null, 'uploads/')
-  },
+  destination: UPLOAD_STAGING_DIRECTORY,
   filename: function (_req, file, cb) {
     // Generate unique filename with timestamp and original name
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9)
@@ -87,84 +86,25 @@ const validateMediaUpload = (req: Request, res: Response, next: NextFunction) =>
   return next()
 }
 
-// Route handlers
-const uploadSingleHandler = (req: Request, res: Response) => {
-  if (!req.file) {
-    return res.status(400).json({
-      success: false,
-      error: {
-        code: 'UPLOAD_ERROR',
-        message: 'No file uploaded',
-        details: []
-      }
-    })
-  }
-
-  // Generate file URL
-  const baseUrl = process.env['BASE_URL'] || `http://localhost:${process.env['PORT'] || 5000}`
-  const fileUrl = `${baseUrl}/uploads/${req.file.filename}`
+// Check the file's magic bytes against the declared type, so a renamed script
+// cannot be served back as an image; mismatched files are removed
+const verifyFileSignature = async (req: Request, res: Response, next: NextFunction) => {
+  const file = req.file as Express.Multer.File
 
-  return res.status(201).json({
-    success: true,
-    data: {
-      filename: req.file.filename,
-      originalName: req.file.originalname,
-      mimetype: req.file.mimetype,
-      size: req.file.size,
-      url: fileUrl
-    }
-  })
-}
-
-const getMediaHandler = (_req: Request<{ filename: string }>, res: Response) => {
-  // This handler is currently disabled as per the comment in the original
-  return res.status(404).json({
-    success: false,
-    error: {
-      code: 'NOT_FOUND',
-      message: 'Media metadata endpoint is disabled',
-      details: []
-    }
-  })
-}
-
-const deleteFileHandler = async (req: Request<{ filename: string }>, res: Response, next: NextFunction) => {
   try {
-    const { filename } = req.params
-    
-    // Security check for path traversal
-    if (filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: 'Invalid filename',
-          details: [{ field: 'filename', message: 'Filename contains invalid characters' }]
-        }
-      })
+    if (matchesDeclaredType(await readFileHeader(file.path), file.mimetype)) {
+      return next()
     }
 
-    const filePath = path.join(process.cwd(), 'uploads', filename)
-    
-    try {
-      await fs.unlink(filePath)
-      return res.status(200).json({
-        success: true,
-        message: 'File deleted successfully'
-      })
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        return res.status(404).json({
-          success: false,
-          error: {
-            code: 'NOT_FOUND',
-            message: 'File not found',
-            details: []
-          }
-        })
+    await fs.unlink(file.path).catch(() => undefined)
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'File content does not match its type',
+        details: [{ field: 'file', message: `File is not a valid ${file.mimetype} file` }]
       }
-      throw error
-    }
+    })
   } catch (error) {
     return next(error)
   }
@@ -215,45 +155,38 @@ const handleMulterError = (error: any, _req: Request, res: Response, next: NextF
  */
 export function createMediaRouter(config: MediaRouterConfig): Router {
   const router = Router()
-  
-  // Apply rate limiting to all media routes
-  router.use(mediaUploadRateLimit)
-  
-  // Apply authentication to all routes
-  router.use(config.authMiddleware)
 
-  // Single file upload endpoint with validation
-  router.post('/upload', 
+  // Single file upload endpoint with validation; the controller processes the file and records the Media row
+  router.post('/upload',
+    config.authMiddleware,
+    mediaUploadRateLimit,
     upload.single('file'), 
     handleMulterError,
     validateMediaUpload,
-    uploadSingleHandler
+    verifyFileSignature,
+    async (req: Request, res: Response) => {
+      await config.mediaController.uploadMedia(req, res)
+    }
   )
 
-  // Get media metadata endpoint (disabled)
-  router.get('/:filename', getMediaHandler)
+  // Serve a media file by media ID or stored filename; drafts and unattached
+  // uploads are only served to their owner, so the viewer is identified if signed in
+  router.get('/:identifier',
+    ...createMediaFileSecurityMiddleware(),
+    config.optionalAuthMiddleware,
+    async (req: Request<{ identifier: string }>, res: Response) => {
+      await config.mediaController.getMedia(req, res)
+    }
+  )
 
-  // Delete media endpoint (by filename until schema is updated)
-  router.delete('/:filename', deleteFileHandler)
+  // Delete media and its stored files; only the uploader may
+  router.delete('/:identifier',
+    config.authMiddleware,
+    mediaUploadRateLimit,
+    async (req: Request<{ identifier: string }>, res: Response) => {
+      await config.mediaController.deleteMedia(req, res)
+    }
+  )
 
   return router
 }
-
-// Default export for backward compatibility
-const router = Router()
-
-// Apply rate limiting to all media routes
-router.use(mediaUploadRateLimit)
-
-// Route definitions with properly typed handlers
-router.post('/upload', 
-  upload.single('file'), 
-  handleMulterError,
-  validateMediaUpload,
-  uploadSingleHandler
-)
-
-router.get('/:filename', getMediaHandler)
-router.delete('/:filename', deleteFileHandler)
-
-export default router
\ No newline at end of file
@@ -0,0 +1,116 @@
+// backend/src/routes/moderation.ts
+// Version: 1.1.0
+// Account standing and reversal of moderator actions
+// Changed: Added the creator moderation dashboard and the staff report queue
+
+import { Router, Request, Response, NextFunction } from 'express'
+import { ModerationController } from '../controllers/ModerationController'
+import { ModerationDashboardController } from '../controllers/ModerationDashboardController'
+import { requireRole } from '../middleware/roleMiddleware'
+
+// Middleware function type
+type MiddlewareFunction = (req: Request, res: Response, next: NextFunction) => Promise<void>
+
+// Dependencies interface for dependency injection
+interface ModerationRouterDependencies {
+  moderationController: ModerationController
+  moderationDashboardController: ModerationDashboardController
+  authMiddleware: MiddlewareFunction
+}
+
+/**
+ * Create moderation router with dependency injection
+ * Actions themselves are taken from reports, see POST /reports/:id/actions
+ * @param dependencies - Injected dependencies
+ * @returns Configured Express router
+ */
+export function createModerationRouter(dependencies: ModerationRouterDependencies): Router {
+  const { moderationController, moderationDashboardController, authMiddleware } = dependencies
+  const router = Router()
+  const requireModerator = requireRole('moderator', 'admin')
+
+  /**
+   * GET /moderation/standing
+   * The signed-in user's account standing
+   */
+  router.get('/standing', authMiddleware, async (req: Request, res: Response) => {
+    await moderationController.getOwnStanding(req, res)
+  })
+
+  /**
+   * GET /moderation/dashboard
+   * Counts of reported posts, open account reports, blocked accounts and
+   * pending follow requests for the signed-in creator
+   */
+  router.get('/dashboard', authMiddleware, async (req: Request, res: Response) => {
+    await moderationDashboardController.getSummary(req, res)
+  })
+
+  /**
+   * GET /moderation/dashboard/reports
+   * Reports against the signed-in creator's account, without who reported
+   */
+  router.get('/dashboard/reports', authMiddleware, async (req: Request, res: Response) => {
+    await moderationDashboardController.getAccountReports(req, res)
+  })
+
+  /**
+   * GET /moderation/dashboard/posts
+   * The signed-in creator's reported posts with report counts
+   */
+  router.get('/dashboard/posts', authMiddleware, async (req: Request, res: Response) => {
+    await moderationDashboardController.getReportedPosts(req, res)
+  })
+
+  /**
+   * GET /moderation/dashboard/posts/:id/reports
+   * Reports against one of the signed-in creator's posts, without who reported
+   */
+  router.get('/dashboard/posts/:id/reports', authMiddleware, async (req: Request, res: Response) => {
+    await moderationDashboardController.getPostReports(req, res)
+  })
+
+  /**
+   * GET /moderation/dashboard/blocks
+   * Accounts the signed-in creator has blocked
+   */
+  router.get('/dashboard/blocks', authMiddleware, async (req: Request, res: Response) => {
+    await moderationDashboardController.getBlockedUsers(req, res)
+  })
+
+  /**
+   * GET /moderation/queue
+   * Most-reported accounts ordered by severity and age of their open reports
+   * Requires moderator or admin role
+   */
+  router.get('/queue', authMiddleware, requireModerator, async (req: Request, res: Response) => {
+    await moderationDashboardController.getStaffQueue(req, res)
+  })
+
+  /**
+   * GET /moderation/users/:id/standing
+   * Any user's account standing, including escalations
+   * Requires moderator or admin role
+   */
+  router.get('/users/:id/standing', authMiddleware, requireModerator, async (req: Request, res: Response) => {
+    await moderationController.getUserStanding(req, res)
+  })
+
+  /**
+   * POST /moderation/actions/:id/reverse
+   * Reverse an action and undo its effect
+   * Requires moderator or admin role
+   *
+   * Body:
+   * {
+   *   "reason": "Optional note explaining the reversal"
+   * }
+   */
+  router.post('/actions/:id/reverse', authMiddleware, requireModerator, async (req: Request, res: Response) => {
+    await moderationController.reverseAction(req, res)
+  })
+
+  return router
+}
+
+export default createModerationRouter
@@ -1,6 +1,6 @@
 // backend/src/routes/posts.ts
-// Version: 1.4.0 - Added PUT /posts/:id endpoint for updatePost method
-// Changed: Added updatePost route with validation middleware, removed TODO comment
+// Version: 1.6.0 - Rate limited post creation per user
+// Changed: Authenticate before the post creation limit so it applies the user's tier
 
 import { Router, Request, Response, NextFunction } from 'express'
 import { PostController } from '../controllers/PostController'
@@ -54,17 +54,53 @@ export function createPostsRouter(dependencies: PostsRouterDependencies): Router
    * Create a new post
    * Requires authentication and rate limiting
    * Includes full validation middleware
-   * Note: Rate limiting middleware uses type cast to resolve RateLimitRequest vs Express Request compatibility
+   * Authenticates first so the limit is counted per user and scales with their tier
    */
   router.post('/', 
-    postCreationRateLimit as any, // Type cast to resolve RateLimitRequest vs Request compatibility
     authMiddleware, 
+    postCreationRateLimit,
     ...validatePostCreationEndpoint, 
     async (req: Request, res: Response) => {
       await postController.createPost(req, res)
     }
   )
 
+  /**
+   * GET /posts/drafts
+   * List the signed-in user's drafts
+   * Requires authentication; registered before /:id
+   */
+  router.get('/drafts',
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      await postController.getDrafts(req, res)
+    }
+  )
+
+  /**
+   * GET /posts/scheduled
+   * List the signed-in user's upcoming scheduled posts
+   * Requires authentication; registered before /:id
+   */
+  router.get('/scheduled',
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      await postController.getScheduledPosts(req, res)
+    }
+  )
+
+  /**
+   * GET /posts/author/:authorId
+   * List posts by author ID; the author also sees drafts and scheduled posts
+   * Optional authentication
+   */
+  router.get('/author/:authorId',
+    optionalAuthMiddleware,
+    async (req: Request, res: Response) => {
+      await postController.getPostsByAuthor(req, res)
+    }
+  )
+
   /**
    * GET /posts/:id
    * Get specific post by ID
@@ -93,6 +129,56 @@ export function createPostsRouter(dependencies: PostsRouterDependencies): Router
     }
   )
 
+  /**
+   * POST /posts/:id/publish
+   * Publish a draft or scheduled post now
+   * Requires authentication and ownership; PATCH is accepted for older clients
+   */
+  router.route('/:id/publish')
+    .post(authMiddleware, async (req: Request, res: Response) => {
+      await postController.publishPost(req, res)
+    })
+    .patch(authMiddleware, async (req: Request, res: Response) => {
+      await postController.publishPost(req, res)
+    })
+
+  /**
+   * POST /posts/:id/unpublish
+   * Take a published post back to draft
+   * Requires authentication and ownership; PATCH is accepted for older clients
+   */
+  router.route('/:id/unpublish')
+    .post(authMiddleware, async (req: Request, res: Response) => {
+      await postController.unpublishPost(req, res)
+    })
+    .patch(authMiddleware, async (req: Request, res: Response) => {
+      await postController.unpublishPost(req, res)
+    })
+
+  /**
+   * POST /posts/:id/schedule
+   * Schedule a draft or reschedule a scheduled post
+   * Requires authentication and ownership
+   */
+  router.post('/:id/schedule',
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      await postController.schedulePost(req, res)
+    }
+  )
+
+  /**
+   * POST /posts/:id/draft
+   * Cancel a post's schedule and keep it as a draft
+   * Requires authentication and ownership
+   */
+  router.post('/:id/draft',
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      await postController.moveToDraft(req, res)
+    }
+  )
+
   /**
    * DELETE /posts/:id
    * Delete own post
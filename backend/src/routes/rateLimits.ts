@@ -0,0 +1,39 @@
+// backend/src/routes/rateLimits.ts
+// Version: 1.0.0
+// Route reporting the caller's rate limits
+
+import { Router, Request, Response, NextFunction } from 'express'
+import { RateLimitController } from '../controllers/RateLimitController'
+
+// Middleware function type
+type MiddlewareFunction = (req: Request, res: Response, next: NextFunction) => Promise<void>
+
+// Dependencies interface for dependency injection
+interface RateLimitRouterDependencies {
+  rateLimitController: RateLimitController
+  optionalAuthMiddleware: MiddlewareFunction
+}
+
+/**
+ * Create rate limit status router with dependency injection
+ * Mounted at /rate-limit-status
+ * @param dependencies - Injected dependencies
+ * @returns Configured Express router
+ */
+export function createRateLimitRouter(dependencies: RateLimitRouterDependencies): Router {
+  const { rateLimitController, optionalAuthMiddleware } = dependencies
+  const router = Router()
+
+  /**
+   * GET /rate-limit-status
+   * Limits for the signed-in user, or the caller's IP when anonymous
+   * Express answers HEAD from this route too, with the same headers and no body
+   */
+  router.get('/', optionalAuthMiddleware, async (req: Request, res: Response) => {
+    await rateLimitController.getStatus(req, res)
+  })
+
+  return router
+}
+
+export default createRateLimitRouter
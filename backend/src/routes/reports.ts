@@ -1,12 +1,14 @@
 // backend/src/routes/reports.ts
 // Express routes for report/moderation operations using TypeScript
-// Version: 1.0.2 - Fixed all unused req parameter warnings
-// Changed: Prefixed unused req parameters with underscore in rate limiting and stats endpoint
+// Version: 1.3.0 - Rate limits use the shared rate limit store
+// Changed: POST and GET /:id/actions when a ModerationController is provided
 
 import { Router, Request, Response, NextFunction } from 'express'
 import { ReportController } from '../controllers/ReportController'
+import { ModerationController } from '../controllers/ModerationController'
 import { validateCreateReport } from '../middleware/mediaModerationValidationMiddleware'
-import { rateLimit } from 'express-rate-limit'
+import { requireRole } from '../middleware/roleMiddleware'
+import { reportCreationRateLimit, reportManagementRateLimit } from '../middleware/rateLimitMiddleware'
 
 // Middleware function type
 type MiddlewareFunction = (req: Request, res: Response, next: NextFunction) => Promise<void>
@@ -16,49 +18,9 @@ interface ReportsRouterDependencies {
   reportController: ReportController
   authMiddleware: MiddlewareFunction
   optionalAuthMiddleware: MiddlewareFunction
+  moderationController?: ModerationController
 }
 
-// ============================================================================
-// RATE LIMITING CONFIGURATION
-// ============================================================================
-
-/**
- * Rate limiting for report creation
- * More restrictive to prevent spam reporting
- */
-const reportCreationRateLimit = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 5, // 5 reports per window
-  message: {
-    success: false,
-    error: 'Too many reports submitted. Please try again later.',
-    code: 'RATE_LIMIT_EXCEEDED'
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  // Skip rate limiting for authenticated admin users (TODO: implement admin check)
-  skip: (_req) => { // FIXED: prefixed with underscore
-    // TODO: Add admin role check here
-    return false
-  }
-})
-
-/**
- * Rate limiting for admin report management
- * Less restrictive for legitimate moderation work
- */
-const reportManagementRateLimit = rateLimit({
-  windowMs: 5 * 60 * 1000, // 5 minutes  
-  max: 50, // 50 requests per window
-  message: {
-    success: false,
-    error: 'Too many moderation requests. Please try again later.',
-    code: 'RATE_LIMIT_EXCEEDED'
-  },
-  standardHeaders: true,
-  legacyHeaders: false
-})
-
 /**
  * Create reports router with dependency injection
  * Handles content and user reporting for moderation
@@ -66,8 +28,9 @@ const reportManagementRateLimit = rateLimit({
  * @returns Configured Express router
  */
 export function createReportsRouter(dependencies: ReportsRouterDependencies): Router {
-  const { reportController, authMiddleware, optionalAuthMiddleware } = dependencies
+  const { reportController, authMiddleware, optionalAuthMiddleware, moderationController } = dependencies
   const router = Router()
+  const requireModerator = requireRole('moderator', 'admin')
 
   // ============================================================================
   // PUBLIC REPORT SUBMISSION
@@ -102,7 +65,7 @@ export function createReportsRouter(dependencies: ReportsRouterDependencies): Ro
   /**
    * GET /reports
    * Get paginated list of reports for moderation
-   * Requires authentication (TODO: add admin role check)
+   * Requires moderator or admin role
    * 
    * Query Parameters:
    * - page: Page number (default: 1)
@@ -112,44 +75,13 @@ export function createReportsRouter(dependencies: ReportsRouterDependencies): Ro
    */
   router.get('/',
     reportManagementRateLimit,
-    authMiddleware, // TODO: Replace with admin middleware when implemented
+    authMiddleware,
+    requireModerator,
     async (req: Request, res: Response) => {
       await reportController.getReports(req, res)
     }
   )
 
-  /**
-   * GET /reports/:id
-   * Get specific report by ID for detailed moderation
-   * Requires authentication (TODO: add admin role check)
-   */
-  router.get('/:id',
-    reportManagementRateLimit,
-    authMiddleware, // TODO: Replace with admin middleware when implemented
-    async (req: Request, res: Response) => {
-      await reportController.getReportById(req, res)
-    }
-  )
-
-  /**
-   * PUT /reports/:id
-   * Update report status and add moderation notes
-   * Requires authentication (TODO: add admin role check)
-   * 
-   * Body:
-   * {
-   *   "status": "PENDING" | "REVIEWED" | "RESOLVED" | "DISMISSED",
-   *   "moderatorNotes": "Optional notes about the moderation decision"
-   * }
-   */
-  router.put('/:id',
-    reportManagementRateLimit,
-    authMiddleware, // TODO: Replace with admin middleware when implemented
-    async (req: Request, res: Response) => {
-      await reportController.updateReportStatus(req, res)
-    }
-  )
-
   // ============================================================================
   // STATISTICS ENDPOINTS (FUTURE)
   // ============================================================================
@@ -158,10 +90,12 @@ export function createReportsRouter(dependencies: ReportsRouterDependencies): Ro
    * GET /reports/stats
    * Get report statistics for admin dashboard
    * Currently returns placeholder data
+   * Registered before /:id so "stats" is not read as a report ID
    */
   router.get('/stats',
     reportManagementRateLimit,
-    authMiddleware, // TODO: Replace with admin middleware when implemented
+    authMiddleware,
+    requireModerator,
     async (_req: Request, res: Response) => { // ← FIXED: prefixed with underscore
       // TODO: Implement real statistics
       res.json({
@@ -187,6 +121,80 @@ export function createReportsRouter(dependencies: ReportsRouterDependencies): Ro
     }
   )
 
+  /**
+   * GET /reports/:id
+   * Get specific report by ID for detailed moderation
+   * Requires moderator or admin role
+   */
+  router.get('/:id',
+    reportManagementRateLimit,
+    authMiddleware,
+    requireModerator,
+    async (req: Request, res: Response) => {
+      await reportController.getReportById(req, res)
+    }
+  )
+
+  /**
+   * PUT /reports/:id
+   * Update report status and add moderation notes
+   * Requires moderator or admin role
+   * 
+   * Body:
+   * {
+   *   "status": "PENDING" | "REVIEWED" | "RESOLVED" | "DISMISSED",
+   *   "moderatorNotes": "Optional notes about the moderation decision"
+   * }
+   */
+  router.put('/:id',
+    reportManagementRateLimit,
+    authMiddleware,
+    requireModerator,
+    async (req: Request, res: Response) => {
+      await reportController.updateReportStatus(req, res)
+    }
+  )
+
+  // ============================================================================
+  // MODERATION ACTIONS
+  // ============================================================================
+
+  if (moderationController) {
+    /**
+     * POST /reports/:id/actions
+     * Act on a report and resolve it (ESCALATE marks it reviewed instead)
+     * Requires moderator or admin role
+     *
+     * Body:
+     * {
+     *   "type": "SUSPEND_USER" | "HIDE_POST" | "REMOVE_POST" | "WARN_USER" | "ESCALATE",
+     *   "reason": "Why, shown to the user in their account standing"
+     * }
+     */
+    router.post('/:id/actions',
+      reportManagementRateLimit,
+      authMiddleware,
+      requireModerator,
+      async (req: Request, res: Response) => {
+        await moderationController.takeAction(req, res)
+      }
+    )
+
+    /**
+     * GET /reports/:id/actions
+     * List the actions taken from a report, including reversed ones
+     * Requires moderator or admin role
+     */
+    router.get('/:id/actions',
+      reportManagementRateLimit,
+      authMiddleware,
+      requireModerator,
+      async (req: Request, res: Response) => {
+        await moderationController.getReportActions(req, res)
+      }
+    )
+  }
+
   return router
 }
 
@@ -1,8 +1,9 @@
 // backend/src/routes/users.ts
-// Version: 1.0.1 - Fixed import names for follow validation middleware
-// Changed: Corrected validateFollowRequestEndpoint to validateFollowRequest and validateUnfollowRequestEndpoint to validateUnfollowRequest
+// Version: 1.3.0 - Added the follow request inbox
+// Changed: Signed-in users can list, accept and reject pending follow requests
 
 import { Router, Request, Response, NextFunction } from 'express'
+import multer from 'multer'
 import { UserController } from '../controllers/UserController'
 import { PostController } from '../controllers/PostController'
 import { FollowController } from '../controllers/FollowController'
@@ -11,6 +12,7 @@ import {
   validateFollowRequest,
   validateUnfollowRequest
 } from '../middleware/followValidationMiddleware'
+import { ALLOWED_IMAGE_TYPES, MAX_AVATAR_SIZE } from '../utils/constants'
 
 // Middleware function type
 type MiddlewareFunction = (req: Request, res: Response, next: NextFunction) => Promise<void>
@@ -32,6 +34,47 @@ interface UsernameParamsRequest extends AuthenticatedRequest {
   }
 }
 
+// Avatars are processed in memory and only the resized copies are written to disk
+const avatarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_AVATAR_SIZE,
+    files: 1
+  },
+  fileFilter: (_req, file, cb) => {
+    if (ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+      cb(null, true)
+    } else {
+      cb(new Error('INVALID_FILE_TYPE'))
+    }
+  }
+}).single('avatar')
+
+/**
+ * Accept a single 'avatar' image, turning upload errors into 400 responses
+ */
+function handleAvatarUpload(req: Request, res: Response, next: NextFunction): void {
+  avatarUpload(req, res, (error: unknown) => {
+    if (!error) {
+      next()
+      return
+    }
+
+    let message = 'Invalid avatar upload'
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      message = `Avatar must be smaller than ${MAX_AVATAR_SIZE / (1024 * 1024)}MB`
+    } else if (error instanceof Error && error.message === 'INVALID_FILE_TYPE') {
+      message = 'Avatar must be a JPEG, PNG, WebP or GIF image'
+    }
+
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'VALIDATION_ERROR'
+    })
+  })
+}
+
 // Dependencies interface for dependency injection
 interface UsersRouterDependencies {
   userController: UserController
@@ -58,6 +101,84 @@ export function createUsersRouter(dependencies: UsersRouterDependencies): Router
   
   const router = Router()
 
+  // ============================================================================
+  // OWN PROFILE OPERATIONS
+  // Registered before /:username so these paths are not read as usernames
+  // ============================================================================
+
+  /**
+   * GET /users/profile
+   * Get the signed-in user's own profile
+   * Requires authentication
+   */
+  router.get('/profile',
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      await userController.getOwnProfile(req as AuthenticatedRequest, res)
+    }
+  )
+
+  /**
+   * PUT /users/profile
+   * Update display name, bio, website or username
+   * Requires authentication
+   */
+  router.put('/profile',
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      await userController.updateOwnProfile(req as AuthenticatedRequest, res)
+    }
+  )
+
+  /**
+   * POST /users/avatar
+   * Upload a new avatar as multipart field 'avatar'
+   * Requires authentication
+   */
+  router.post('/avatar',
+    authMiddleware,
+    handleAvatarUpload,
+    async (req: Request, res: Response) => {
+      await userController.uploadAvatar(req as AuthenticatedRequest, res)
+    }
+  )
+
+  /**
+   * GET /users/follow-requests
+   * List follow requests waiting for the signed-in user's approval
+   * Requires authentication
+   */
+  router.get('/follow-requests',
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      await followController.getFollowRequests(req as AuthenticatedRequest, res)
+    }
+  )
+
+  /**
+   * POST /users/follow-requests/:id/accept
+   * Approve a follow request
+   * Requires authentication
+   */
+  router.post('/follow-requests/:id/accept',
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      await followController.acceptFollowRequest(req as AuthenticatedRequest, res)
+    }
+  )
+
+  /**
+   * POST /users/follow-requests/:id/reject
+   * Decline a follow request
+   * Requires authentication
+   */
+  router.post('/follow-requests/:id/reject',
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      await followController.rejectFollowRequest(req as AuthenticatedRequest, res)
+    }
+  )
+
   // ============================================================================
   // USER PROFILE OPERATIONS
   // ============================================================================
@@ -101,8 +222,8 @@ export function createUsersRouter(dependencies: UsersRouterDependencies): Router
    * Includes rate limiting and validation
    */
   router.post('/:username/follow', 
-    followOperationsRateLimit as any, // Type cast for compatibility
     optionalAuthMiddleware,
+    followOperationsRateLimit,
     validateFollowRequest,
     async (req: Request, res: Response) => {
       // Type assert the request to include username parameter
@@ -118,8 +239,8 @@ export function createUsersRouter(dependencies: UsersRouterDependencies): Router
    * Includes rate limiting and validation
    */
   router.delete('/:username/follow', 
-    followOperationsRateLimit as any, // Type cast for compatibility
     authMiddleware,
+    followOperationsRateLimit,
     validateUnfollowRequest,
     async (req: Request, res: Response) => {
       // Type assert the request to include username parameter
@@ -0,0 +1,77 @@
+// backend/src/routes/webfinger.ts
+// Version: 1.0.0 - Initial WebFinger discovery endpoint for ActivityPub federation
+
+import { Router, Request, Response } from 'express'
+import { WebFingerService } from '../services/WebFingerService'
+import { validateWebFingerQuery } from '../middleware/followValidationMiddleware'
+
+// Dependencies interface for dependency injection
+interface WebFingerRouterDependencies {
+  webFingerService: WebFingerService
+}
+
+/**
+ * Map WebFinger service error codes to HTTP status codes
+ * @param code - Error code from WebFingerService
+ * @returns HTTP status code
+ */
+function mapErrorCodeToStatus(code?: string): number {
+  switch (code) {
+    case 'INVALID_RESOURCE':
+      return 400
+    case 'RESOURCE_NOT_FOUND':
+    case 'USER_NOT_FOUND':
+    case 'ACTOR_NOT_FOUND':
+      return 404
+    case 'USER_INACTIVE':
+      return 410
+    default:
+      return 500
+  }
+}
+
+/**
+ * Create WebFinger router with dependency injection
+ * Mounts under the /.well-known prefix
+ * @param dependencies - Injected dependencies
+ * @returns Configured Express router
+ */
+export function createWebFingerRouter(dependencies: WebFingerRouterDependencies): Router {
+  const { webFingerService } = dependencies
+  const router = Router()
+
+  /**
+   * GET /.well-known/webfinger?resource=acct:username@domain
+   * Resolve a creator to their ActivityPub actor
+   * Public endpoint used by remote instances (Mastodon, Pleroma, etc.)
+   */
+  router.get('/webfinger',
+    validateWebFingerQuery,
+    async (req: Request, res: Response) => {
+      const resource = req.query['resource'] as string
+      const result = await webFingerService.resolve(resource)
+
+      // Remote instances and browser-based clients fetch this cross-origin
+      res.set('Access-Control-Allow-Origin', '*')
+
+      if (!result.success || !result.data) {
+        res.status(mapErrorCodeToStatus(result.code)).json({
+          success: false,
+          error: {
+            code: result.code || 'INTERNAL_ERROR',
+            message: result.error || 'Failed to resolve resource'
+          }
+        })
+        return
+      }
+
+      res.status(200)
+        .type('application/jrd+json')
+        .send(JSON.stringify(result.data))
+    }
+  )
+
+  return router
+}
+
+export default createWebFingerRouter
@@ -0,0 +1,54 @@
+// backend/src/scripts/backfillAnalytics.ts
+// Version: 1.0.0
+// Command line tool for rebuilding daily analytics rollups over past days
+// Usage: npm run analytics:backfill -- <from YYYY-MM-DD> [to YYYY-MM-DD]
+
+import { PrismaClient } from '@prisma/client'
+import { CreatorDailyStatsSchemas, startOfUtcDay } from '../models/CreatorDailyStats'
+import { AnalyticsRepository } from '../repositories/AnalyticsRepository'
+import { AnalyticsRollupJob } from '../services/AnalyticsRollupJob'
+
+/**
+ * Roll up every day from the first date to the second (default today), both included
+ * Days that already have rollups are recomputed and overwritten
+ * @param args - First and optional last day
+ * @returns Promise<number> Process exit code
+ */
+async function main(args: string[]): Promise<number> {
+  const [from, to] = args
+  const parsed = CreatorDailyStatsSchemas.backfill.safeParse({ from, to })
+  if (!parsed.success) {
+    console.error('Usage: npm run analytics:backfill -- <from YYYY-MM-DD> [to YYYY-MM-DD]')
+    return 1
+  }
+
+  const fromDate = new Date(`${parsed.data.from}T00:00:00Z`)
+  const toDate = parsed.data.to ? new Date(`${parsed.data.to}T00:00:00Z`) : startOfUtcDay(new Date())
+  if (fromDate > toDate) {
+    console.error('The first day must not be after the last day')
+    return 1
+  }
+
+  const prisma = new PrismaClient()
+  try {
+    // The periodic timer is never started, so the config only needs to allow runs
+    const job = new AnalyticsRollupJob(new AnalyticsRepository(prisma), { enabled: true, intervalMs: 0 })
+    const result = await job.backfill(fromDate, toDate)
+    if (result.status !== 'completed') {
+      console.error(`Backfill stopped after ${result.days} days`)
+      return 1
+    }
+
+    console.log(`✅ Rolled up ${result.days} days (${result.rows} rows)`)
+    return 0
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ Failed to backfill analytics:', error)
+    process.exit(1)
+  })
@@ -0,0 +1,58 @@
+// backend/src/scripts/setUserRole.ts
+// Version: 1.0.0
+// Command line tool for setting a user's role, used to appoint the first admin
+// Usage: npm run role:set -- <email> <user|moderator|admin> [reason]
+
+import { PrismaClient } from '@prisma/client'
+import { isUserRole, USER_ROLES } from '../models/User'
+import { UserRepository } from '../repositories/UserRepository'
+import { RoleChangeRepository } from '../repositories/RoleChangeRepository'
+import { SessionRepository } from '../repositories/SessionRepository'
+import { RoleService } from '../services/RoleService'
+
+/**
+ * Set a role by email, recording the change with no acting user
+ * @param args - Email, role and optional reason
+ * @returns Promise<number> Process exit code
+ */
+async function main(args: string[]): Promise<number> {
+  const [email, role, ...reasonWords] = args
+  if (!email || !isUserRole(role)) {
+    console.error(`Usage: npm run role:set -- <email> <${USER_ROLES.join('|')}> [reason]`)
+    return 1
+  }
+
+  const prisma = new PrismaClient()
+  try {
+    const userRepository = new UserRepository(prisma)
+    const user = await userRepository.findByEmail(email)
+    if (!user) {
+      console.error(`No user with email ${email}`)
+      return 1
+    }
+
+    const roleService = new RoleService(
+      userRepository,
+      new RoleChangeRepository(prisma),
+      new SessionRepository(prisma)
+    )
+    const reason = reasonWords.join(' ') || 'Set from the command line'
+    const result = await roleService.changeRole(null, user.id, role, reason)
+    if (!result.success || !result.data) {
+      console.error(result.error)
+      return 1
+    }
+
+    console.log(`✅ ${user.username} is now ${result.data.role} (was ${result.data.previousRole})`)
+    return 0
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ Failed to set role:', error)
+    process.exit(1)
+  })
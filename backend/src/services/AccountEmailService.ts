@@ -0,0 +1,228 @@
+// backend/src/services/AccountEmailService.ts
+// Version: 1.0.0 - Password reset and email verification through emailed single-use tokens
+
+import crypto from 'crypto'
+import { AuthService } from './AuthService'
+import { Mailer } from './Mailer'
+import { AccountTokenRepository, AccountTokenType } from '../repositories/AccountTokenRepository'
+import { UserRepository } from '../repositories/UserRepository'
+import { SessionRepository } from '../repositories/SessionRepository'
+import { MailConfig } from '../config/mail'
+import {
+  PASSWORD_RESET_TOKEN_TTL,
+  EMAIL_VERIFICATION_TOKEN_TTL,
+  ACCOUNT_EMAIL_COOLDOWN
+} from '../utils/constants'
+import { authLogger } from '../utils/logger'
+
+/**
+ * Account email service result interface
+ */
+interface AccountEmailResult<T = undefined> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+  details?: unknown
+}
+
+/**
+ * Hash an emailed token for storage and lookup
+ * @param token - Token from the emailed link
+ * @returns string Hex SHA-256 digest
+ */
+function hashAccountToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * AccountEmailService class
+ * Sends password reset and verification links and redeems their tokens.
+ * Tokens are random, stored only as hashes, expire, and work once.
+ */
+export class AccountEmailService {
+  constructor(
+    private accountTokenRepository: AccountTokenRepository,
+    private userRepository: UserRepository,
+    private sessionRepository: SessionRepository,
+    private authService: AuthService,
+    private mailer: Mailer,
+    private mailConfig: MailConfig
+  ) {}
+
+  /**
+   * Email a password reset link
+   * Always succeeds so the response never reveals whether an account exists
+   * @param email - Address the user entered
+   * @returns Promise<AccountEmailResult> Success
+   */
+  async requestPasswordReset(email: string): Promise<AccountEmailResult> {
+    const user = await this.userRepository.findByEmail(email)
+    if (!user || user.isActive === false) {
+      return { success: true }
+    }
+
+    const token = await this.issueToken(user.id, 'PASSWORD_RESET', PASSWORD_RESET_TOKEN_TTL)
+    if (!token) {
+      return { success: true }
+    }
+
+    const link = `${this.mailConfig.linkBaseUrl}/reset-password?token=${encodeURIComponent(token)}`
+    await this.sendSafely(user.id, {
+      to: user.email,
+      subject: 'Reset your ParaSocial password',
+      text: [
+        `Hi ${user.displayName || user.username},`,
+        '',
+        'Someone asked to reset the password for your ParaSocial account.',
+        'Open this link within an hour to choose a new password:',
+        '',
+        link,
+        '',
+        'If this was not you, you can ignore this email. Your password has not changed.'
+      ].join('\n')
+    })
+
+    return { success: true }
+  }
+
+  /**
+   * Set a new password using a reset token
+   * Every session is revoked so a stolen session cannot outlive the reset
+   * @param token - Token from the reset link
+   * @param password - New password
+   * @returns Promise<AccountEmailResult> Success, VALIDATION_ERROR or INVALID_TOKEN
+   */
+  async resetPassword(token: string, password: string): Promise<AccountEmailResult> {
+    // Validate first so a rejected password does not burn the token
+    const validation = this.authService.validatePassword(password)
+    if (!validation.success) {
+      return {
+        success: false,
+        error: 'Invalid password',
+        code: 'VALIDATION_ERROR',
+        details: validation.error?.details
+      }
+    }
+
+    const consumed = await this.accountTokenRepository.consume(hashAccountToken(token), 'PASSWORD_RESET')
+    if (!consumed) {
+      return { success: false, error: 'Reset link is invalid or has expired', code: 'INVALID_TOKEN' }
+    }
+
+    const passwordHash = await this.authService.hashPassword(password)
+    const updated = await this.userRepository.updatePassword(consumed.userId, passwordHash)
+    if (!updated) {
+      return { success: false, error: 'Reset link is invalid or has expired', code: 'INVALID_TOKEN' }
+    }
+
+    const revoked = await this.sessionRepository.revokeAllForUser(consumed.userId, 'password_reset')
+    authLogger.info('Password reset completed', { userId: consumed.userId, sessionsRevoked: revoked })
+
+    return { success: true }
+  }
+
+  /**
+   * Email a verification link to a user who has not verified their address
+   * @param userId - User to verify
+   * @returns Promise<AccountEmailResult> Success, USER_NOT_FOUND, ALREADY_VERIFIED, TOO_MANY_REQUESTS or MAIL_FAILED
+   */
+  async sendVerificationEmail(userId: string): Promise<AccountEmailResult> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    if (user.verificationTier !== 'none') {
+      return { success: false, error: 'Email address is already verified', code: 'ALREADY_VERIFIED' }
+    }
+
+    const token = await this.issueToken(user.id, 'EMAIL_VERIFICATION', EMAIL_VERIFICATION_TOKEN_TTL)
+    if (!token) {
+      return {
+        success: false,
+        error: 'A verification email was sent recently. Please wait a minute before asking again.',
+        code: 'TOO_MANY_REQUESTS'
+      }
+    }
+
+    const link = `${this.mailConfig.linkBaseUrl}/verify-email?token=${encodeURIComponent(token)}`
+    const sent = await this.sendSafely(user.id, {
+      to: user.email,
+      subject: 'Verify your ParaSocial email address',
+      text: [
+        `Hi ${user.displayName || user.username},`,
+        '',
+        'Confirm this is your email address by opening this link within 24 hours:',
+        '',
+        link
+      ].join('\n')
+    })
+
+    if (!sent) {
+      return { success: false, error: 'Failed to send verification email', code: 'MAIL_FAILED' }
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * Redeem a verification token and raise the user's tier to email
+   * @param token - Token from the verification link
+   * @returns Promise<AccountEmailResult> The user's verification tier, or INVALID_TOKEN
+   */
+  async verifyEmail(token: string): Promise<AccountEmailResult<{ verificationTier: string }>> {
+    const consumed = await this.accountTokenRepository.consume(hashAccountToken(token), 'EMAIL_VERIFICATION')
+    if (!consumed) {
+      return { success: false, error: 'Verification link is invalid or has expired', code: 'INVALID_TOKEN' }
+    }
+
+    await this.userRepository.markEmailVerified(consumed.userId)
+    const user = await this.userRepository.findById(consumed.userId)
+    authLogger.info('Email address verified', { userId: consumed.userId })
+
+    return { success: true, data: { verificationTier: user?.verificationTier ?? 'email' } }
+  }
+
+  /**
+   * Create and store a token unless one of the same type was issued moments ago
+   * @param userId - User the token is for
+   * @param type - Token purpose
+   * @param ttlMs - Token lifetime
+   * @returns Promise<string | null> Raw token for the email, or null while cooling down
+   */
+  private async issueToken(userId: string, type: AccountTokenType, ttlMs: number): Promise<string | null> {
+    const now = new Date()
+    const latest = await this.accountTokenRepository.findLatest(userId, type)
+    if (latest && now.getTime() - latest.createdAt.getTime() < ACCOUNT_EMAIL_COOLDOWN) {
+      return null
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url')
+    await this.accountTokenRepository.issue(userId, type, hashAccountToken(token), new Date(now.getTime() + ttlMs), now)
+    return token
+  }
+
+  /**
+   * Send an email, logging instead of throwing on transport failure
+   * @param userId - User the email is for, for the log
+   * @param message - Email to send
+   * @returns Promise<boolean> True if the mailer accepted the message
+   */
+  private async sendSafely(userId: string, message: { to: string, subject: string, text: string }): Promise<boolean> {
+    try {
+      await this.mailer.send(message)
+      return true
+    } catch (error) {
+      authLogger.error('Failed to send account email', {
+        userId,
+        subject: message.subject,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return false
+    }
+  }
+}
+
+// Export types for use in other files
+export type { AccountEmailResult }
@@ -0,0 +1,94 @@
+// backend/src/services/ActivityDeliveryService.ts
+// Version: 1.0.0 - Initial signed delivery of activities to remote inboxes
+
+import { ActorKeyService } from './ActorKeyService'
+import { FetchFunction } from './RemoteActorService'
+import { ActivityPubActivity } from '../types/ActivityPub'
+import { signRequest } from '../utils/httpSignature'
+import { ACTIVITYPUB_CONTENT_TYPE, FEDERATION_TIMEOUT } from '../utils/constants'
+
+/**
+ * Local actor an activity is sent on behalf of
+ */
+interface DeliverySender {
+  actorId: string
+  privateKey: string // Encrypted at rest, decrypted just before signing
+}
+
+/**
+ * Result of a single delivery attempt
+ */
+interface DeliveryResult {
+  success: boolean
+  status?: number
+  error?: string
+}
+
+/**
+ * ActivityDeliveryService class
+ * POSTs activities to remote inboxes with an HTTP Signature from the sending actor
+ */
+export class ActivityDeliveryService {
+  private fetchFn: FetchFunction
+
+  constructor(
+    private actorKeyService: ActorKeyService,
+    fetchFn?: FetchFunction,
+    private timeoutMs: number = FEDERATION_TIMEOUT
+  ) {
+    this.fetchFn = fetchFn || fetch
+  }
+
+  /**
+   * Deliver an activity to one inbox
+   * @param activity - Activity to send
+   * @param inboxUrl - Remote inbox or shared inbox URL
+   * @param sender - Local actor signing the request
+   * @returns Promise<DeliveryResult> Outcome of the attempt; never throws
+   */
+  async deliver(activity: ActivityPubActivity, inboxUrl: string, sender: DeliverySender): Promise<DeliveryResult> {
+    try {
+      const body = JSON.stringify(activity)
+      const signedHeaders = signRequest({
+        method: 'POST',
+        url: inboxUrl,
+        keyId: `${sender.actorId}#main-key`,
+        privateKeyPem: this.actorKeyService.decryptPrivateKey(sender.privateKey),
+        body
+      })
+
+      const response = await this.fetchFn(inboxUrl, {
+        method: 'POST',
+        headers: {
+          ...signedHeaders,
+          'content-type': ACTIVITYPUB_CONTENT_TYPE,
+          accept: ACTIVITYPUB_CONTENT_TYPE
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs)
+      })
+
+      if (!response.ok) {
+        return {
+          success: false,
+          status: response.status,
+          error: `Inbox responded with HTTP ${response.status}`
+        }
+      }
+
+      return { success: true, status: response.status }
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown delivery error'
+      }
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  DeliverySender,
+  DeliveryResult
+}
@@ -0,0 +1,477 @@
+// backend/src/services/ActivityPubService.ts
+// Version: 1.6.0 - Content labels join the Note summary; sensitive media marks the Note sensitive
+// Changed: 1.5.0 - Added Reject activity builder and manuallyApprovesFollowers from the user's setting
+// Changed: 1.4.0 - Added BlurHash to Note attachments
+// Changed: 1.3.0 - Added Update{Person} builder and actor lookup after a rename
+// Changed: 1.2.0 - Added Note, Create/Update/Delete and outbox collection builders
+// Changed: 1.1.0 - Added Accept activity builder for inbox follow handling
+
+import { UserRepository } from '../repositories/UserRepository'
+import { ActorKeyService } from './ActorKeyService'
+import { FederationConfig } from '../config/federation'
+import { User } from '../models/User'
+import { Post, labelsRequireSensitiveMedia } from '../models/Post'
+import { ActivityPubActor, ActivityPubActivity, ActivityPubObject } from '../types/ActivityPub'
+import {
+  ACTIVITYPUB_CONTEXT,
+  ACTIVITYPUB_SECURITY_CONTEXT,
+  ACTIVITYPUB_PUBLIC,
+  CONTENT_LABEL_NAMES,
+  OUTBOX_PAGE_SIZE
+} from '../utils/constants'
+
+/**
+ * Federation identity assigned to a creator at registration
+ * privateKey is encrypted and safe to persist as-is
+ */
+interface ActorIdentity {
+  actorId: string
+  publicKey: string
+  privateKey: string
+}
+
+/**
+ * Published post as loaded by PostRepository, with the fields federation needs
+ */
+interface FederatedPost {
+  id: string
+  content: string
+  contentWarning: string | null
+  contentLabels?: string[]
+  isScheduled: boolean
+  scheduledFor: Date | null
+  isPublished: boolean
+  createdAt: Date
+  updatedAt: Date
+  publishedAt: Date | null
+  activityId: string | null
+  objectId?: string | null
+  authorId: string
+  author: {
+    username: string
+    actorId: string | null
+  }
+  media?: Array<{
+    url: string
+    mimeType: string
+    altText: string | null
+    sensitive?: boolean
+    width: number | null
+    height: number | null
+    blurhash?: string | null
+  }>
+}
+
+/**
+ * ActivityPub service result interface
+ */
+interface ActivityPubServiceResult<T = ActivityPubActor> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * ActivityPubService class
+ * Owns the mapping between local users and their ActivityPub actors
+ */
+export class ActivityPubService {
+  constructor(
+    private userRepository: UserRepository,
+    private actorKeyService: ActorKeyService,
+    private federationConfig: FederationConfig
+  ) {}
+
+  /**
+   * Build the canonical actor URI for a username
+   * @param username - Local username
+   * @returns Actor URI, e.g. https://domain/users/username
+   */
+  getActorUri(username: string): string {
+    return `${this.federationConfig.baseUrl}/users/${username}`
+  }
+
+  /**
+   * Create the actor URI and signing keypair for a new creator
+   * @param username - Username the account is being registered with
+   * @returns Promise<ActorIdentity> Identity with the private key encrypted for storage
+   */
+  async createActorIdentity(username: string): Promise<ActorIdentity> {
+    const { publicKey, privateKey } = await this.actorKeyService.generateEncryptedKeyPair()
+
+    return {
+      actorId: this.getActorUri(username),
+      publicKey,
+      privateKey
+    }
+  }
+
+  /**
+   * Build the ActivityStreams Person document for a user
+   * @param user - User with actorId and publicKey set
+   * @returns ActivityPubActor document
+   */
+  buildActor(user: User): ActivityPubActor {
+    const actorId = user.actorId || this.getActorUri(user.username)
+
+    const actor: ActivityPubActor = {
+      '@context': [ACTIVITYPUB_CONTEXT, ACTIVITYPUB_SECURITY_CONTEXT],
+      id: actorId,
+      type: 'Person',
+      preferredUsername: user.username,
+      name: user.displayName,
+      summary: user.bio,
+      url: `${this.federationConfig.profileBaseUrl}/${user.username}`,
+      inbox: `${actorId}/inbox`,
+      outbox: `${actorId}/outbox`,
+      followers: `${actorId}/followers`,
+      following: `${actorId}/following`,
+      publicKey: {
+        id: `${actorId}#main-key`,
+        owner: actorId,
+        publicKeyPem: user.publicKey || ''
+      },
+      manuallyApprovesFollowers: user.approveFollowers,
+      discoverable: true,
+      published: user.createdAt.toISOString()
+    }
+
+    if (user.avatar) {
+      actor.icon = {
+        type: 'Image',
+        url: new URL(user.avatar, this.federationConfig.baseUrl).toString()
+      }
+    }
+
+    return actor
+  }
+
+  /**
+   * Wrap a user's actor document in an Update activity after a profile change
+   * Each change gets its own activity id so remote servers do not discard it as a duplicate
+   * @param user - User with actorId and publicKey set
+   * @returns ActivityPubActivity Update{Person}
+   */
+  buildActorUpdateActivity(user: User): ActivityPubActivity {
+    const { '@context': context, ...actor } = this.buildActor(user)
+
+    return {
+      '@context': context,
+      id: `${actor.id}#updates/${user.updatedAt.getTime()}`,
+      type: 'Update',
+      actor: actor.id,
+      to: [ACTIVITYPUB_PUBLIC],
+      cc: [actor.followers],
+      object: actor
+    }
+  }
+
+  /**
+   * Build an Accept activity answering a remote Follow
+   * @param user - Local user being followed
+   * @param followActivity - The Follow activity received in the inbox
+   * @param followId - ID of the stored Follow row, used to mint a stable Accept id
+   * @returns ActivityPubActivity Accept activity
+   */
+  buildAcceptActivity(user: User, followActivity: ActivityPubActivity, followId: string): ActivityPubActivity {
+    const actorId = user.actorId || this.getActorUri(user.username)
+
+    return {
+      '@context': ACTIVITYPUB_CONTEXT,
+      id: `${actorId}#accepts/follows/${followId}`,
+      type: 'Accept',
+      actor: actorId,
+      object: followActivity
+    }
+  }
+
+  /**
+   * Build a Reject activity declining a remote Follow request
+   * @param user - Local user who was asked
+   * @param followActivity - The Follow activity being declined
+   * @param followId - ID of the stored Follow row, used to mint a stable Reject id
+   * @returns ActivityPubActivity Reject activity
+   */
+  buildRejectActivity(user: User, followActivity: ActivityPubActivity, followId: string): ActivityPubActivity {
+    const actorId = user.actorId || this.getActorUri(user.username)
+
+    return {
+      '@context': ACTIVITYPUB_CONTEXT,
+      id: `${actorId}#rejects/follows/${followId}`,
+      type: 'Reject',
+      actor: actorId,
+      object: followActivity
+    }
+  }
+
+  /**
+   * Get the Note URI for a post, falling back to the canonical URI if none is stored
+   * @param post - Post to identify
+   * @returns Note object URI
+   */
+  getObjectId(post: FederatedPost): string {
+    return post.objectId || new Post(post).generateObjectId(this.federationConfig.domain)
+  }
+
+  /**
+   * Build the ActivityStreams Note for a published post
+   * Content warnings map to summary + sensitive, the way Mastodon reads them.
+   * Content labels are named at the start of the summary so remote readers see
+   * them even when the creator wrote no warning, and sensitive media marks the
+   * whole Note sensitive since Mastodon only hides attachments per post
+   * @param post - Published post with author and media
+   * @returns ActivityPubObject Note document
+   */
+  buildNote(post: FederatedPost): ActivityPubObject {
+    const actorId = post.author.actorId || this.getActorUri(post.author.username)
+    const published = post.publishedAt || post.createdAt
+    const labels = post.contentLabels || []
+    const mediaSensitive = labelsRequireSensitiveMedia(labels)
+    const summary = formatSummary(post.contentWarning, labels)
+
+    const note: ActivityPubObject = {
+      id: this.getObjectId(post),
+      type: 'Note',
+      attributedTo: actorId,
+      content: formatContentHtml(post.content),
+      summary,
+      sensitive: !!summary || mediaSensitive || (post.media || []).some(media => media.sensitive),
+      published: published.toISOString(),
+      url: `${this.federationConfig.profileBaseUrl}/${post.author.username}`,
+      to: [ACTIVITYPUB_PUBLIC],
+      cc: [`${actorId}/followers`],
+      attachment: (post.media || []).map(media => ({
+        type: 'Document',
+        mediaType: media.mimeType,
+        url: new URL(media.url, this.federationConfig.baseUrl).toString(),
+        name: media.altText || null,
+        ...(media.width && { width: media.width }),
+        ...(media.height && { height: media.height }),
+        // Mastodon's extension for a placeholder while the attachment loads
+        ...(media.blurhash && { blurhash: media.blurhash }),
+        // Misskey and its forks hide attachments one by one
+        ...((mediaSensitive || media.sensitive) && { sensitive: true })
+      }))
+    }
+
+    if (post.updatedAt.getTime() > published.getTime()) {
+      note['updated'] = post.updatedAt.toISOString()
+    }
+
+    return note
+  }
+
+  /**
+   * Wrap a post in the Create activity announcing it
+   * @param post - Published post with activityId set
+   * @returns ActivityPubActivity Create{Note}
+   */
+  buildCreateActivity(post: FederatedPost): ActivityPubActivity {
+    const note = this.buildNote(post)
+
+    return {
+      '@context': ACTIVITYPUB_CONTEXT,
+      id: post.activityId || new Post(post).generateActivityId(this.federationConfig.domain),
+      type: 'Create',
+      actor: note['attributedTo'] as string,
+      published: note['published'],
+      to: note['to'],
+      cc: note['cc'],
+      object: note
+    }
+  }
+
+  /**
+   * Wrap an edited post in an Update activity
+   * Each edit gets its own activity id so remote servers do not discard it as a duplicate
+   * @param post - Edited post
+   * @returns ActivityPubActivity Update{Note}
+   */
+  buildUpdateActivity(post: FederatedPost): ActivityPubActivity {
+    const note = this.buildNote(post)
+
+    return {
+      '@context': ACTIVITYPUB_CONTEXT,
+      id: `${note.id}#updates/${post.updatedAt.getTime()}`,
+      type: 'Update',
+      actor: note['attributedTo'] as string,
+      to: note['to'],
+      cc: note['cc'],
+      object: note
+    }
+  }
+
+  /**
+   * Build the Delete activity replacing a post with a Tombstone
+   * @param post - Post being deleted or withdrawn
+   * @returns ActivityPubActivity Delete{Tombstone}
+   */
+  buildDeleteActivity(post: FederatedPost): ActivityPubActivity {
+    const objectId = this.getObjectId(post)
+    const actorId = post.author.actorId || this.getActorUri(post.author.username)
+
+    return {
+      '@context': ACTIVITYPUB_CONTEXT,
+      id: `${objectId}#delete`,
+      type: 'Delete',
+      actor: actorId,
+      to: [ACTIVITYPUB_PUBLIC],
+      object: {
+        id: objectId,
+        type: 'Tombstone'
+      }
+    }
+  }
+
+  /**
+   * Build the outbox collection summary linking to its first page
+   * @param username - Local username
+   * @param totalItems - Number of published posts
+   * @returns ActivityPubObject OrderedCollection
+   */
+  buildOutboxCollection(username: string, totalItems: number): ActivityPubObject {
+    const outboxId = `${this.getActorUri(username)}/outbox`
+
+    return {
+      '@context': ACTIVITYPUB_CONTEXT,
+      id: outboxId,
+      type: 'OrderedCollection',
+      totalItems,
+      first: `${outboxId}?page=1`,
+      last: `${outboxId}?page=${Math.max(1, Math.ceil(totalItems / OUTBOX_PAGE_SIZE))}`
+    }
+  }
+
+  /**
+   * Build one page of the outbox as Create activities, newest first
+   * @param username - Local username
+   * @param posts - Published posts on this page
+   * @param page - 1-based page number
+   * @param hasMore - Whether another page follows
+   * @returns ActivityPubObject OrderedCollectionPage
+   */
+  buildOutboxPage(username: string, posts: FederatedPost[], page: number, hasMore: boolean): ActivityPubObject {
+    const outboxId = `${this.getActorUri(username)}/outbox`
+
+    const collectionPage: ActivityPubObject = {
+      '@context': ACTIVITYPUB_CONTEXT,
+      id: `${outboxId}?page=${page}`,
+      type: 'OrderedCollectionPage',
+      partOf: outboxId,
+      orderedItems: posts.map(post => this.buildCreateActivity(post))
+    }
+
+    if (page > 1) {
+      collectionPage['prev'] = `${outboxId}?page=${page - 1}`
+    }
+    if (hasMore) {
+      collectionPage['next'] = `${outboxId}?page=${page + 1}`
+    }
+
+    return collectionPage
+  }
+
+  /**
+   * Look up a local creator and return their actor document
+   * @param username - Username from the actor URI
+   * @returns Promise<ActivityPubServiceResult> Actor document or error code
+   */
+  async getActor(username: string): Promise<ActivityPubServiceResult> {
+    try {
+      // A renamed creator keeps the actor URI they federated under
+      const user = await this.userRepository.findByUsername(username)
+        ?? await this.userRepository.findByActorId(this.getActorUri(username))
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        }
+      }
+
+      if (user.isActive === false) {
+        return {
+          success: false,
+          error: 'User account is no longer active',
+          code: 'USER_INACTIVE'
+        }
+      }
+
+      // Accounts created before federation was enabled have no keys to publish
+      if (!user.actorId || !user.publicKey) {
+        return {
+          success: false,
+          error: 'User has no ActivityPub actor',
+          code: 'ACTOR_NOT_FOUND'
+        }
+      }
+
+      return {
+        success: true,
+        data: this.buildActor(user)
+      }
+
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load actor',
+        code: 'INTERNAL_ERROR'
+      }
+    }
+  }
+}
+
+/**
+ * Escape text for inclusion in HTML
+ * @param text - Plain text
+ * @returns HTML-safe text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Convert plain-text post content to the HTML remote servers expect
+ * Blank lines start a new paragraph, single newlines become line breaks
+ * @param content - Plain-text post content
+ * @returns HTML content
+ */
+function formatContentHtml(content: string): string {
+  return content
+    .trim()
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('')
+}
+
+/**
+ * Build a Note summary from the content warning and content labels
+ * Labels lead, so a flashing lights warning survives however the creator words theirs
+ * @param contentWarning - Creator's warning text
+ * @param labels - Post content labels
+ * @returns Summary text, or null when the post has neither
+ */
+function formatSummary(contentWarning: string | null, labels: string[]): string | null {
+  const names = labels
+    .filter((label): label is keyof typeof CONTENT_LABEL_NAMES => label in CONTENT_LABEL_NAMES)
+    .map(label => CONTENT_LABEL_NAMES[label])
+    .join(', ')
+
+  if (names && contentWarning) {
+    return `${names}: ${contentWarning}`
+  }
+  return names || contentWarning || null
+}
+
+// Export types for use in other files
+export type {
+  FederatedPost,
+  ActorIdentity,
+  ActivityPubServiceResult
+}
@@ -0,0 +1,193 @@
+// backend/src/services/AnalyticsRollupJob.ts
+// Version: 1.1.0 - Background rollup of per-creator daily analytics
+// Changed: Use the shared system clock from PostScheduler
+
+import { AnalyticsRepository } from '../repositories/AnalyticsRepository'
+import { AnalyticsRollupConfig } from '../config/analyticsRollup'
+import { addUtcDays, DailyStatsCounts, startOfUtcDay } from '../models/CreatorDailyStats'
+import { SchedulerClock, systemClock } from './PostScheduler'
+import { schedulerLogger } from '../utils/logger'
+
+/**
+ * Outcome of a single rollup run
+ */
+interface AnalyticsRollupRunResult {
+  status: 'completed' | 'skipped' | 'failed'
+  days: number
+  rows: number
+}
+
+/**
+ * AnalyticsRollupJob class
+ * Periodically writes each creator's totals for yesterday and today (UTC) to
+ * creator_daily_stats. A day is always recomputed in full from the raw tables
+ * and written over the previous rollup, so runs can repeat, overlap across
+ * instances or be backfilled for past days without double counting.
+ */
+export class AnalyticsRollupJob {
+  private timer: unknown = null
+  private currentRun: Promise<AnalyticsRollupRunResult> | null = null
+
+  constructor(
+    private analyticsRepository: AnalyticsRepository,
+    private config: AnalyticsRollupConfig,
+    private clock: SchedulerClock = systemClock
+  ) {}
+
+  /**
+   * Start the periodic timer and run once immediately
+   * Does nothing when the job is disabled or already running
+   */
+  start(): void {
+    if (!this.config.enabled || this.timer) {
+      return
+    }
+
+    this.timer = this.clock.setInterval(() => {
+      void this.runOnce()
+    }, this.config.intervalMs)
+
+    schedulerLogger.info('Analytics rollup started', { intervalMs: this.config.intervalMs })
+    void this.runOnce()
+  }
+
+  /**
+   * Stop the timer and wait for an in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      this.clock.clearInterval(this.timer)
+      this.timer = null
+      schedulerLogger.info('Analytics rollup stopped')
+    }
+
+    if (this.currentRun) {
+      await this.currentRun
+    }
+  }
+
+  /**
+   * Check whether the periodic timer is active
+   * @returns boolean True between start() and stop()
+   */
+  isRunning(): boolean {
+    return this.timer !== null
+  }
+
+  /**
+   * Roll up yesterday and today
+   * Yesterday is redone so activity just before midnight is not missed
+   * A run that overlaps a previous one is skipped
+   * @returns Promise<AnalyticsRollupRunResult> What the run did
+   */
+  async runOnce(): Promise<AnalyticsRollupRunResult> {
+    const today = startOfUtcDay(this.clock.now())
+    return await this.run(addUtcDays(today, -1), today)
+  }
+
+  /**
+   * Roll up every day in a range, for example after deploying or losing rollups
+   * A run that overlaps a previous one is skipped
+   * @param from - First day
+   * @param to - Last day (included)
+   * @returns Promise<AnalyticsRollupRunResult> What the run did
+   */
+  async backfill(from: Date, to: Date): Promise<AnalyticsRollupRunResult> {
+    return await this.run(startOfUtcDay(from), startOfUtcDay(to))
+  }
+
+  /**
+   * Roll up one day for every creator with activity on it
+   * Creators who already have a rollup for the day are rewritten too, so
+   * counts that dropped back to zero do not leave stale numbers behind
+   * @param date - Any time on the day
+   * @returns Promise<number> Rollup rows written
+   */
+  async rollupDay(date: Date): Promise<number> {
+    const start = startOfUtcDay(date)
+    const end = addUtcDays(start, 1)
+
+    const [newFollowers, lostFollowers, postsPublished, deliveries, reportsReceived, existing] = await Promise.all([
+      this.analyticsRepository.countNewFollowersByUser(start, end),
+      this.analyticsRepository.countLostFollowersByUser(start, end),
+      this.analyticsRepository.countPublishedPostsByUser(start, end),
+      this.analyticsRepository.countDeliveryOutcomesByUser(start, end),
+      this.analyticsRepository.countReportsReceivedByUser(start, end),
+      this.analyticsRepository.findDailyStatsUserIds(start)
+    ])
+
+    const userIds = new Set<string>([
+      ...newFollowers.keys(),
+      ...lostFollowers.keys(),
+      ...postsPublished.keys(),
+      ...deliveries.keys(),
+      ...reportsReceived.keys(),
+      ...existing
+    ])
+
+    for (const userId of userIds) {
+      const counts: DailyStatsCounts = {
+        newFollowers: newFollowers.get(userId) || 0,
+        lostFollowers: lostFollowers.get(userId) || 0,
+        postsPublished: postsPublished.get(userId) || 0,
+        deliveriesAttempted: deliveries.get(userId)?.attempted || 0,
+        deliveriesSucceeded: deliveries.get(userId)?.succeeded || 0,
+        reportsReceived: reportsReceived.get(userId) || 0
+      }
+      await this.analyticsRepository.upsertDailyStats(userId, start, counts)
+    }
+
+    return userIds.size
+  }
+
+  /**
+   * Roll up a range of days, oldest first, unless a run is already in flight
+   * @param from - First day, as midnight UTC
+   * @param to - Last day, as midnight UTC (included)
+   * @returns Promise<AnalyticsRollupRunResult> What the run did
+   */
+  private async run(from: Date, to: Date): Promise<AnalyticsRollupRunResult> {
+    if (this.currentRun) {
+      return { status: 'skipped', days: 0, rows: 0 }
+    }
+
+    this.currentRun = this.rollupRange(from, to)
+    try {
+      return await this.currentRun
+    } finally {
+      this.currentRun = null
+    }
+  }
+
+  /**
+   * Roll up each day in a range
+   * @param from - First day, as midnight UTC
+   * @param to - Last day, as midnight UTC (included)
+   * @returns Promise<AnalyticsRollupRunResult> What the run did
+   */
+  private async rollupRange(from: Date, to: Date): Promise<AnalyticsRollupRunResult> {
+    let days = 0
+    let rows = 0
+
+    try {
+      for (let day = from; day <= to; day = addUtcDays(day, 1)) {
+        rows += await this.rollupDay(day)
+        days++
+      }
+
+      return { status: 'completed', days, rows }
+
+    } catch (error) {
+      schedulerLogger.error('Analytics rollup run failed', {
+        days,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return { status: 'failed', days, rows }
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  AnalyticsRollupRunResult
+}
@@ -0,0 +1,343 @@
+// backend/src/services/AnalyticsService.ts
+// Version: 1.1.0 - Creator dashboard analytics from follows, posts and delivery outcomes
+// Changed: Added day, week and month series read from the daily rollups
+
+import { AnalyticsRepository } from '../repositories/AnalyticsRepository'
+import {
+  buildSeries,
+  countPeriods,
+  formatUtcDate,
+  SeriesInterval,
+  SeriesPoint,
+  startOfPeriod,
+  startOfUtcDay
+} from '../models/CreatorDailyStats'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Follower growth windows
+const WEEK_DAYS = 7
+const MONTH_DAYS = 30
+
+// Posting cadence looks back far enough to cover a few weeks of habits
+const POSTING_WINDOW_DAYS = 90
+
+// Delivery success covers deliveries that finished recently
+const DELIVERY_WINDOW_DAYS = 30
+
+const TOP_INSTANCE_LIMIT = 5
+const BEST_POSTING_TIME_LIMIT = 3
+
+// Delivery success rates at or above these count as good or fair federation health
+const GOOD_DELIVERY_RATE = 0.95
+const FAIR_DELIVERY_RATE = 0.8
+
+// Buckets shown when no start date is given, and the most a series may have
+const DEFAULT_SERIES_LENGTH: Record<SeriesInterval, number> = { day: 30, week: 12, month: 12 }
+const MAX_SERIES_LENGTH: Record<SeriesInterval, number> = { day: 366, week: 156, month: 60 }
+
+/**
+ * Analytics service result interface
+ */
+interface AnalyticsServiceResult<T = undefined> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+type FederationHealth = 'good' | 'fair' | 'poor'
+
+/**
+ * Remote instance and how many of the creator's followers are on it
+ */
+interface InstanceCount {
+  host: string
+  followers: number
+}
+
+/**
+ * Hour of day and how many posts were published in it
+ */
+interface PostingTime {
+  hour: string
+  posts: number
+}
+
+/**
+ * Everything the creator dashboard shows, computed from stored data
+ */
+interface CreatorDashboard {
+  followers: {
+    total: number
+    weeklyGrowth: number
+    monthlyGrowth: number
+    topInstances: InstanceCount[]
+  }
+  posts: {
+    total: number
+    postsPerWeek: number
+    bestPostingTimes: PostingTime[]
+    timezone: string
+  }
+  delivery: {
+    attempted: number
+    succeeded: number
+    successRate: number | null
+    federationHealth: FederationHealth | null
+  }
+  generatedAt: Date
+}
+
+/**
+ * Options for building the dashboard
+ */
+interface DashboardOptions {
+  timezone?: string | undefined
+  now?: Date | undefined
+}
+
+/**
+ * Range and bucket size for a series; dates are YYYY-MM-DD in UTC
+ */
+interface SeriesOptions {
+  interval: SeriesInterval
+  from?: string | undefined
+  to?: string | undefined
+  now?: Date | undefined
+}
+
+/**
+ * Series of rollup totals, one point per bucket including empty ones
+ */
+interface CreatorSeries {
+  interval: SeriesInterval
+  from: string
+  to: string
+  points: SeriesPoint[]
+}
+
+/**
+ * AnalyticsService class
+ * Builds a creator's dashboard from their follows, published posts and
+ * federation delivery outcomes. Growth counts follows that are still in
+ * place, so followers who left since are not counted.
+ */
+export class AnalyticsService {
+  constructor(private analyticsRepository: AnalyticsRepository) {}
+
+  /**
+   * Build a creator's dashboard analytics
+   * @param userId - Creator's user ID
+   * @param options - IANA timezone for posting times (default UTC) and current time
+   * @returns Promise<AnalyticsServiceResult> Dashboard, or INVALID_TIMEZONE
+   */
+  async getDashboard(userId: string, options: DashboardOptions = {}): Promise<AnalyticsServiceResult<CreatorDashboard>> {
+    const timezone = options.timezone || 'UTC'
+    if (!this.isValidTimezone(timezone)) {
+      return {
+        success: false,
+        error: 'Unknown timezone',
+        code: 'INVALID_TIMEZONE'
+      }
+    }
+
+    const now = options.now ?? new Date()
+    const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS)
+
+    const [
+      total,
+      weeklyGrowth,
+      monthlyGrowth,
+      actorIds,
+      totalPosts,
+      publishedTimes,
+      deliveries
+    ] = await Promise.all([
+      this.analyticsRepository.countFollowers(userId),
+      this.analyticsRepository.countFollowers(userId, daysAgo(WEEK_DAYS)),
+      this.analyticsRepository.countFollowers(userId, daysAgo(MONTH_DAYS)),
+      this.analyticsRepository.findFollowerActorIds(userId),
+      this.analyticsRepository.countPublishedPosts(userId),
+      this.analyticsRepository.findPublishedTimes(userId, daysAgo(POSTING_WINDOW_DAYS)),
+      this.analyticsRepository.countDeliveryOutcomes(userId, daysAgo(DELIVERY_WINDOW_DAYS))
+    ])
+
+    const successRate = deliveries.attempted > 0
+      ? deliveries.succeeded / deliveries.attempted
+      : null
+
+    return {
+      success: true,
+      data: {
+        followers: {
+          total,
+          weeklyGrowth,
+          monthlyGrowth,
+          topInstances: this.countInstances(actorIds)
+        },
+        posts: {
+          total: totalPosts,
+          postsPerWeek: Math.round(publishedTimes.length / (POSTING_WINDOW_DAYS / WEEK_DAYS) * 10) / 10,
+          bestPostingTimes: this.countPostingHours(publishedTimes, timezone),
+          timezone
+        },
+        delivery: {
+          attempted: deliveries.attempted,
+          succeeded: deliveries.succeeded,
+          successRate,
+          federationHealth: successRate === null ? null : this.rateHealth(successRate)
+        },
+        generatedAt: now
+      }
+    }
+  }
+
+  /**
+   * Build a series of a creator's daily rollups grouped by day, week or month
+   * The range defaults to the last 30 days, 12 weeks or 12 months up to today.
+   * from is moved back to the start of its bucket so the first bucket is whole.
+   * @param userId - Creator's user ID
+   * @param options - Bucket size, range and current time
+   * @returns Promise<AnalyticsServiceResult> Gap-filled series, or INVALID_RANGE
+   */
+  async getSeries(userId: string, options: SeriesOptions): Promise<AnalyticsServiceResult<CreatorSeries>> {
+    const { interval } = options
+    const to = options.to ? new Date(`${options.to}T00:00:00Z`) : startOfUtcDay(options.now ?? new Date())
+
+    let from: Date
+    if (options.from) {
+      from = startOfPeriod(new Date(`${options.from}T00:00:00Z`), interval)
+    } else {
+      from = startOfPeriod(to, interval)
+      for (let i = 1; i < DEFAULT_SERIES_LENGTH[interval]; i++) {
+        from = startOfPeriod(new Date(from.getTime() - 1), interval)
+      }
+    }
+
+    if (from > to) {
+      return {
+        success: false,
+        error: 'from must not be after to',
+        code: 'INVALID_RANGE'
+      }
+    }
+
+    if (countPeriods(from, to, interval) > MAX_SERIES_LENGTH[interval]) {
+      return {
+        success: false,
+        error: `A ${interval} series can have at most ${MAX_SERIES_LENGTH[interval]} points`,
+        code: 'INVALID_RANGE'
+      }
+    }
+
+    const rows = await this.analyticsRepository.findDailyStats(userId, from, to)
+
+    return {
+      success: true,
+      data: {
+        interval,
+        from: formatUtcDate(from),
+        to: formatUtcDate(to),
+        points: buildSeries(rows, from, to, interval)
+      }
+    }
+  }
+
+  /**
+   * Count followers per remote host, busiest first
+   * @param actorIds - Remote follower actor URIs
+   * @returns InstanceCount[] Top hosts; ties go alphabetically
+   */
+  private countInstances(actorIds: string[]): InstanceCount[] {
+    const counts = new Map<string, number>()
+    for (const actorId of actorIds) {
+      const host = this.getHost(actorId)
+      if (host) {
+        counts.set(host, (counts.get(host) || 0) + 1)
+      }
+    }
+
+    return Array.from(counts, ([host, followers]) => ({ host, followers }))
+      .sort((a, b) => b.followers - a.followers || a.host.localeCompare(b.host))
+      .slice(0, TOP_INSTANCE_LIMIT)
+  }
+
+  /**
+   * Count posts per hour of day in a timezone, busiest first
+   * @param publishedTimes - Publication times
+   * @param timezone - IANA timezone
+   * @returns PostingTime[] Top hours as HH:00; ties go to the earlier hour
+   */
+  private countPostingHours(publishedTimes: Date[], timezone: string): PostingTime[] {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: '2-digit',
+      hourCycle: 'h23'
+    })
+
+    const counts = new Map<string, number>()
+    for (const publishedAt of publishedTimes) {
+      const hour = formatter.formatToParts(publishedAt).find(part => part.type === 'hour')?.value
+      if (hour) {
+        const label = `${hour}:00`
+        counts.set(label, (counts.get(label) || 0) + 1)
+      }
+    }
+
+    return Array.from(counts, ([hour, posts]) => ({ hour, posts }))
+      .sort((a, b) => b.posts - a.posts || a.hour.localeCompare(b.hour))
+      .slice(0, BEST_POSTING_TIME_LIMIT)
+  }
+
+  /**
+   * Rate federation health from the delivery success rate
+   * @param successRate - Share of finished deliveries that succeeded
+   * @returns FederationHealth Health rating
+   */
+  private rateHealth(successRate: number): FederationHealth {
+    if (successRate >= GOOD_DELIVERY_RATE) {
+      return 'good'
+    }
+    return successRate >= FAIR_DELIVERY_RATE ? 'fair' : 'poor'
+  }
+
+  /**
+   * Check that a timezone is one Intl knows
+   * @param timezone - IANA timezone name
+   * @returns boolean True if valid
+   */
+  private isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Extract the host of an actor URI
+   * @param actorId - Actor URI
+   * @returns Host or null if the URI is invalid
+   */
+  private getHost(actorId: string): string | null {
+    try {
+      return new URL(actorId).host || null
+    } catch {
+      return null
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  AnalyticsServiceResult,
+  CreatorDashboard,
+  CreatorSeries,
+  DashboardOptions,
+  FederationHealth,
+  InstanceCount,
+  PostingTime,
+  SeriesOptions
+}
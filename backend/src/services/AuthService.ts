@@ -1,10 +1,11 @@
 // backend/src/services/AuthService.ts
-// Version: 2.1.0
-// Fixed extractTokenFromHeader to return null instead of throwing errors
+// Version: 2.4.0
+// UserRole now comes from the User model, where it is persisted
 
 import jwt from 'jsonwebtoken'
 import bcrypt from 'bcrypt'
 import { z } from 'zod'
+import type { UserRole } from '../models/User'
 
 // Type definitions for authentication-related data structures
 export interface User {
@@ -48,17 +49,20 @@ export interface JwtPayload {
   email: string
   username: string
   role?: UserRole // Made optional to match test expectations
+  jti?: string // Session id, present on tokens issued for a session
   iat?: number
   exp?: number
 }
 
-export type UserRole = 'admin' | 'user' | 'moderator'
+export type { UserRole }
 
 // Validation schemas using Zod
+const passwordSchema = z.string().min(6, 'Password must be at least 6 characters')
+
 const registrationSchema = z.object({
   email: z.string().email('Invalid email format'),
   username: z.string().min(3, 'Username must be at least 3 characters').max(30, 'Username too long'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  password: passwordSchema,
   displayName: z.string().optional()
 })
 
@@ -126,10 +130,12 @@ export class AuthService {
 
   /**
    * Generates JWT token for user
+   * Tokens issued for a session carry its id as jti so they can be revoked
    * @param user - User object to generate token for
+   * @param session - Session the token belongs to and its lifetime
    * @returns JWT token string
    */
-  generateToken(user: User): string {
+  generateToken(user: User, session?: { id: string, expiresInSeconds: number }): string {
     const payload: any = {
       userId: user.id,
       email: user.email,
@@ -141,6 +147,10 @@ export class AuthService {
       payload.role = user.role
     }
 
+    if (session) {
+      return jwt.sign(payload, this.jwtSecret, { expiresIn: session.expiresInSeconds, jwtid: session.id })
+    }
+
     return jwt.sign(payload, this.jwtSecret, { expiresIn: '7d' })
   }
 
@@ -238,6 +248,30 @@ export class AuthService {
     }
   }
 
+  /**
+   * Validates a new password with the same rules as registration
+   * @param password - Password to validate
+   * @returns Validation result with success flag and error details
+   */
+  validatePassword(password: unknown): { success: boolean; error?: any } {
+    const result = passwordSchema.safeParse(password)
+    if (result.success) {
+      return { success: true }
+    }
+
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Validation failed',
+        details: result.error.errors.map(err => ({
+          field: 'password',
+          message: err.message
+        }))
+      }
+    }
+  }
+
   /**
    * Validates user login data
    * @param loginData - Login credentials to validate
@@ -276,5 +310,5 @@ export class AuthService {
 }
 
 // backend/src/services/AuthService.ts
-// Version: 2.1.0
-// Fixed extractTokenFromHeader to return null instead of throwing errors
\ No newline at end of file
+// Version: 2.4.0
+// UserRole now comes from the User model, where it is persisted
\ No newline at end of file
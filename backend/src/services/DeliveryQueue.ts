@@ -0,0 +1,267 @@
+// backend/src/services/DeliveryQueue.ts
+// Version: 1.0.0 - Persistent outgoing delivery queue with backoff, dead-lettering and per-host limits
+
+import { DeliveryJobRepository, DeliveryJob } from '../repositories/DeliveryJobRepository'
+import { UserRepository } from '../repositories/UserRepository'
+import { ActivityDeliveryService, DeliverySender } from './ActivityDeliveryService'
+import { DeliveryConfig } from '../config/federation'
+import { ActivityPubActivity } from '../types/ActivityPub'
+import { federationLogger } from '../utils/logger'
+
+// Jobs left in PROCESSING this long are assumed to belong to a crashed worker
+const STALE_PROCESSING_MS = 10 * 60 * 1000
+
+/**
+ * Summary of one processing pass
+ */
+interface DeliveryRunSummary {
+  claimed: number
+  delivered: number
+  retried: number
+  dead: number
+}
+
+/**
+ * DeliveryQueue class
+ * Persists outgoing activities per inbox and delivers them in the background
+ * Failed deliveries are retried with exponential backoff until maxAttempts, then dead-lettered
+ */
+export class DeliveryQueue {
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  constructor(
+    private deliveryJobRepository: DeliveryJobRepository,
+    private activityDeliveryService: ActivityDeliveryService,
+    private userRepository: UserRepository,
+    private config: DeliveryConfig
+  ) {}
+
+  /**
+   * Queue an activity for delivery to a set of inboxes
+   * Duplicate inbox URLs are collapsed into a single delivery
+   * @param activity - Activity to deliver; must have an id
+   * @param inboxes - Remote inbox or shared inbox URLs
+   * @param senderId - Local user ID whose key signs the deliveries
+   * @returns Promise<number> Number of deliveries queued
+   */
+  async enqueue(activity: ActivityPubActivity, inboxes: Iterable<string>, senderId: string): Promise<number> {
+    const jobs = []
+    for (const inbox of new Set(inboxes)) {
+      const host = this.getHost(inbox)
+      if (!host) {
+        federationLogger.warn('Skipping delivery to invalid inbox URL', { inbox })
+        continue
+      }
+
+      jobs.push({
+        activityId: activity.id,
+        activity: activity as unknown as Record<string, unknown>,
+        inbox,
+        host,
+        senderId
+      })
+    }
+
+    return await this.deliveryJobRepository.enqueue(jobs)
+  }
+
+  /**
+   * Deliver every job that is currently due
+   * Overlapping calls are skipped so a slow pass never runs twice at once
+   * @param now - Current time
+   * @returns Promise<DeliveryRunSummary> Counts for the pass
+   */
+  async processDue(now: Date = new Date()): Promise<DeliveryRunSummary> {
+    const summary: DeliveryRunSummary = { claimed: 0, delivered: 0, retried: 0, dead: 0 }
+    if (this.running) {
+      return summary
+    }
+
+    this.running = true
+    try {
+      await this.deliveryJobRepository.releaseStale(new Date(now.getTime() - STALE_PROCESSING_MS))
+
+      const jobs = await this.deliveryJobRepository.claimDue(this.config.batchSize, now)
+      summary.claimed = jobs.length
+      if (jobs.length === 0) {
+        return summary
+      }
+
+      const senders = await this.loadSenders(jobs)
+
+      // Each host gets its own pool so one slow server cannot starve the others
+      const jobsByHost = new Map<string, DeliveryJob[]>()
+      for (const job of jobs) {
+        const hostJobs = jobsByHost.get(job.host) || []
+        hostJobs.push(job)
+        jobsByHost.set(job.host, hostJobs)
+      }
+
+      await Promise.all(Array.from(jobsByHost.values()).map(hostJobs =>
+        this.runPool(hostJobs, this.config.hostConcurrency, async job => {
+          const outcome = await this.attempt(job, senders.get(job.senderId), now)
+          summary[outcome]++
+        })
+      ))
+
+      return summary
+
+    } catch (error) {
+      federationLogger.error('Delivery queue pass failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return summary
+
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(): void {
+    if (this.timer) {
+      return
+    }
+
+    this.timer = setInterval(() => {
+      void this.processDue()
+    }, this.config.pollIntervalMs)
+    this.timer.unref()
+  }
+
+  /**
+   * Stop polling for due jobs
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Backoff before the next attempt
+   * @param attempts - Attempts made so far (1 after the first failure)
+   * @returns Delay in milliseconds, doubling per attempt up to maxDelayMs
+   */
+  getRetryDelay(attempts: number): number {
+    const delay = this.config.baseDelayMs * Math.pow(2, Math.max(0, attempts - 1))
+    return Math.min(delay, this.config.maxDelayMs)
+  }
+
+  /**
+   * Attempt a single job and record the outcome
+   * @param job - Claimed job
+   * @param sender - Signing identity, or undefined if the sender is gone
+   * @param now - Current time
+   * @returns Promise<string> Which summary counter to bump
+   */
+  private async attempt(
+    job: DeliveryJob,
+    sender: DeliverySender | undefined,
+    now: Date
+  ): Promise<'delivered' | 'retried' | 'dead'> {
+    const attempts = job.attempts + 1
+
+    if (!sender) {
+      await this.deliveryJobRepository.markDead(job.id, attempts, 'Sender has no signing key')
+      return 'dead'
+    }
+
+    const result = await this.activityDeliveryService.deliver(
+      job.activity as unknown as ActivityPubActivity,
+      job.inbox,
+      sender
+    )
+
+    if (result.success) {
+      await this.deliveryJobRepository.markDelivered(job.id)
+      return 'delivered'
+    }
+
+    const error = result.error || 'Delivery failed'
+
+    if (this.isPermanentFailure(result.status) || attempts >= this.config.maxAttempts) {
+      federationLogger.warn('Delivery dead-lettered', {
+        jobId: job.id,
+        inbox: job.inbox,
+        attempts,
+        error
+      })
+      await this.deliveryJobRepository.markDead(job.id, attempts, error)
+      return 'dead'
+    }
+
+    const nextAttemptAt = new Date(now.getTime() + this.getRetryDelay(attempts))
+    await this.deliveryJobRepository.scheduleRetry(job.id, attempts, nextAttemptAt, error)
+    return 'retried'
+  }
+
+  /**
+   * Client errors will not succeed on retry, except timeouts and rate limits
+   * @param status - HTTP status from the inbox, if any
+   * @returns boolean True if the job should not be retried
+   */
+  private isPermanentFailure(status: number | undefined): boolean {
+    return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429
+  }
+
+  /**
+   * Load signing identities for every sender in a batch
+   * @param jobs - Claimed jobs
+   * @returns Promise<Map> Sender by user ID; users without keys are left out
+   */
+  private async loadSenders(jobs: DeliveryJob[]): Promise<Map<string, DeliverySender>> {
+    const senders = new Map<string, DeliverySender>()
+
+    for (const senderId of new Set(jobs.map(job => job.senderId))) {
+      const user = await this.userRepository.findById(senderId)
+      if (user?.actorId && user.privateKey) {
+        senders.set(senderId, { actorId: user.actorId, privateKey: user.privateKey })
+      }
+    }
+
+    return senders
+  }
+
+  /**
+   * Run tasks with at most `concurrency` in flight
+   * @param items - Items to process
+   * @param concurrency - Maximum parallel tasks
+   * @param task - Task to run per item
+   */
+  private async runPool<T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> {
+    const queue = [...items]
+    const workers = Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+      let item = queue.shift()
+      while (item !== undefined) {
+        await task(item)
+        item = queue.shift()
+      }
+    })
+
+    await Promise.all(workers)
+  }
+
+  /**
+   * Extract the host of an inbox URL
+   * @param inbox - Inbox URL
+   * @returns Host or null if the URL is invalid
+   */
+  private getHost(inbox: string): string | null {
+    try {
+      const url = new URL(inbox)
+      return url.protocol === 'https:' || url.protocol === 'http:' ? url.host : null
+    } catch {
+      return null
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  DeliveryRunSummary
+}
@@ -1,9 +1,11 @@
 // backend/src/services/FollowService.ts
 // Business logic service for follow/unfollow operations with validation and error handling
+// Version: 1.1.0 - Added follow requests for accounts that approve their followers
 
 import { z } from 'zod'
 import { FollowRepository } from '../repositories/FollowRepository'
 import { UserRepository } from '../repositories/UserRepository'
+import { OutboxService } from './OutboxService'
 
 /**
  * Validation result interface
@@ -77,6 +79,33 @@ interface FollowRelationship {
   }
 }
 
+/**
+ * Follow request awaiting approval, with the local follower's profile when there is one
+ * Remote followers are identified by actorId alone
+ */
+interface FollowRequest {
+  id: string
+  followerId: string
+  actorId: string | null
+  createdAt: Date
+  follower: {
+    id: string
+    username: string
+    displayName: string
+    avatar: string | null
+    isVerified: boolean
+  } | null
+}
+
+/**
+ * Page of pending follow requests
+ */
+interface FollowRequestPage {
+  requests: FollowRequest[]
+  totalCount: number
+  hasMore: boolean
+}
+
 /**
  * FollowService class
  * Handles business logic for follow/unfollow operations including validation,
@@ -120,7 +149,8 @@ export class FollowService {
 
   constructor(
     private followRepository: FollowRepository,
-    private userRepository: UserRepository
+    private userRepository: UserRepository,
+    private outboxService?: OutboxService
   ) {}
 
   /**
@@ -171,6 +201,14 @@ export class FollowService {
 
       // Check if follow relationship already exists
       const existingFollow = await this.followRepository.findByFollowerAndFollowed(followerId, followedId)
+      if (existingFollow && !existingFollow.isAccepted) {
+        return {
+          success: false,
+          error: 'Follow request is already waiting for approval',
+          code: 'FOLLOW_REQUEST_PENDING'
+        }
+      }
+
       if (existingFollow) {
         return {
           success: false,
@@ -190,11 +228,12 @@ export class FollowService {
         }
       }
 
-      // Create the follow relationship
+      // Create the follow relationship, or a request if the user approves followers
       const follow = await this.followRepository.create({
         followerId,
         followedId,
-        actorId
+        actorId,
+        isAccepted: !followedUser.approveFollowers
       })
 
       return {
@@ -311,6 +350,138 @@ export class FollowService {
     }
   }
 
+  /**
+   * Get follow requests waiting for a user's approval, oldest first
+   * @param userId - User the requests were sent to
+   * @param paginationOptions - Pagination options
+   * @returns Promise<FollowServiceResult<FollowRequestPage>>
+   */
+  async getFollowRequests(userId: string, paginationOptions: PaginationOptions = {}): Promise<FollowServiceResult<FollowRequestPage>> {
+    try {
+      const paginationValidation = this.validatePaginationOptions(paginationOptions)
+      if (!paginationValidation.success) {
+        return {
+          success: false,
+          error: 'Invalid pagination options',
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
+      const { requests, totalCount, hasMore } = await this.followRepository.findPendingByFollowedId(
+        userId,
+        paginationValidation.data
+      )
+
+      // Remote followers have no local profile; they are shown by actor URI
+      const localFollowerIds = requests
+        .filter(request => !request.actorId)
+        .map(request => request.followerId)
+      const followers = new Map(
+        (await this.userRepository.findByIds(localFollowerIds)).map(user => [user.id, user])
+      )
+
+      return {
+        success: true,
+        data: {
+          requests: requests.map(request => {
+            const follower = followers.get(request.followerId)
+            return {
+              ...request,
+              follower: follower
+                ? {
+                    id: follower.id,
+                    username: follower.username,
+                    displayName: follower.displayName,
+                    avatar: follower.avatar,
+                    isVerified: follower.isVerified
+                  }
+                : null
+            }
+          }),
+          totalCount,
+          hasMore
+        }
+      }
+
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to retrieve follow requests',
+        code: 'INTERNAL_ERROR'
+      }
+    }
+  }
+
+  /**
+   * Approve a follow request, making the requester a follower
+   * Remote requesters are sent an Accept
+   * @param userId - User the request was sent to
+   * @param requestId - Follow relationship ID
+   * @returns Promise<FollowServiceResult> Accepted follow, or FOLLOW_REQUEST_NOT_FOUND
+   */
+  async acceptFollowRequest(userId: string, requestId: string): Promise<FollowServiceResult> {
+    try {
+      const request = await this.findPendingRequest(userId, requestId)
+      if (!request) {
+        return {
+          success: false,
+          error: 'Follow request not found',
+          code: 'FOLLOW_REQUEST_NOT_FOUND'
+        }
+      }
+
+      const follow = await this.followRepository.accept(request.id)
+      void this.outboxService?.answerFollowRequest(request, 'Accept')
+
+      return {
+        success: true,
+        data: follow
+      }
+
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to accept follow request',
+        code: 'INTERNAL_ERROR'
+      }
+    }
+  }
+
+  /**
+   * Decline a follow request; the requester can ask again later
+   * Remote requesters are sent a Reject
+   * @param userId - User the request was sent to
+   * @param requestId - Follow relationship ID
+   * @returns Promise<FollowServiceResult> Declined follow, or FOLLOW_REQUEST_NOT_FOUND
+   */
+  async rejectFollowRequest(userId: string, requestId: string): Promise<FollowServiceResult> {
+    try {
+      const request = await this.findPendingRequest(userId, requestId)
+      if (!request) {
+        return {
+          success: false,
+          error: 'Follow request not found',
+          code: 'FOLLOW_REQUEST_NOT_FOUND'
+        }
+      }
+
+      const follow = await this.followRepository.deleteById(request.id)
+      void this.outboxService?.answerFollowRequest(request, 'Reject')
+
+      return {
+        success: true,
+        data: follow
+      }
+
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to reject follow request',
+        code: 'INTERNAL_ERROR'
+      }
+    }
+  }
+
   /**
    * Get users that a specific user is following
    * @param userId - User ID to get following list for
@@ -530,6 +701,21 @@ export class FollowService {
     }
   }
 
+  /**
+   * Load a follow request only if it was sent to the user and is still pending
+   * @param userId - User the request was sent to
+   * @param requestId - Follow relationship ID
+   * @returns Follow row or null
+   */
+  private async findPendingRequest(userId: string, requestId: string) {
+    const follow = await this.followRepository.findById(requestId)
+    if (!follow || follow.followedId !== userId || follow.isAccepted) {
+      return null
+    }
+
+    return follow
+  }
+
   /**
    * Validate follow request data
    * @param data - Data to validate
@@ -619,4 +805,10 @@ export class FollowService {
       return false
     }
   }
+}
+
+// Export types for use in other files
+export type {
+  FollowRequest,
+  FollowRequestPage
 }
\ No newline at end of file
@@ -0,0 +1,330 @@
+// backend/src/services/InboxService.ts
+// Version: 1.1.1 - Inboxes of renamed users are found by the actor URI they federated under
+// Changed: 1.1.0 - Hold remote follows for approval when the user approves followers
+// Changed: 1.0.0 - Initial processing of Follow, Undo, Delete and Block activities for user inboxes
+
+import { UserRepository } from '../repositories/UserRepository'
+import { FollowRepository } from '../repositories/FollowRepository'
+import { ActivityPubService } from './ActivityPubService'
+import { RemoteActorService } from './RemoteActorService'
+import { ActivityDeliveryService } from './ActivityDeliveryService'
+import { User } from '../models/User'
+import { ActivityPubActivity, ActivityPubObjectReference } from '../types/ActivityPub'
+import { federationLogger } from '../utils/logger'
+
+/**
+ * Outcome of processing one inbox activity
+ */
+interface InboxProcessingResult {
+  type: string
+  status: 'processed' | 'ignored'
+}
+
+/**
+ * Inbox service result interface
+ */
+interface InboxServiceResult<T = InboxProcessingResult> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * Extract the id from an object reference
+ * @param reference - URI or embedded object
+ * @returns Object id or null if none is present
+ */
+function getObjectId(reference: ActivityPubObjectReference | undefined): string | null {
+  if (!reference) {
+    return null
+  }
+
+  if (typeof reference === 'string') {
+    return reference
+  }
+
+  return typeof reference.id === 'string' ? reference.id : null
+}
+
+/**
+ * InboxService class
+ * Applies activities that remote servers post to a creator's inbox.
+ * Signature verification happens before this service is called; the
+ * verified signer is passed in and must match the activity's actor.
+ */
+export class InboxService {
+  constructor(
+    private userRepository: UserRepository,
+    private followRepository: FollowRepository,
+    private activityPubService: ActivityPubService,
+    private remoteActorService: RemoteActorService,
+    private activityDeliveryService: ActivityDeliveryService
+  ) {}
+
+  /**
+   * Process an activity delivered to a user's inbox
+   * @param username - Owner of the inbox
+   * @param activity - Activity from the request body
+   * @param signedActorId - Actor whose key signed the request
+   * @returns Promise<InboxServiceResult> Whether the activity was processed or ignored
+   */
+  async handleActivity(
+    username: string,
+    activity: ActivityPubActivity,
+    signedActorId: string
+  ): Promise<InboxServiceResult> {
+    try {
+      const actorId = getObjectId(activity.actor)
+      if (!actorId || typeof activity.id !== 'string' || typeof activity.type !== 'string') {
+        return {
+          success: false,
+          error: 'Activity must have an id, type and actor',
+          code: 'INVALID_ACTIVITY'
+        }
+      }
+
+      // A server may only speak for its own actors
+      if (actorId !== signedActorId) {
+        return {
+          success: false,
+          error: 'Activity actor does not match the request signature',
+          code: 'ACTOR_MISMATCH'
+        }
+      }
+
+      // A renamed creator keeps the actor URI, and so the inbox, they federated under
+      const user = await this.userRepository.findByUsername(username)
+        ?? await this.userRepository.findByActorId(this.activityPubService.getActorUri(username))
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        }
+      }
+
+      if (user.isActive === false) {
+        return {
+          success: false,
+          error: 'User account is no longer active',
+          code: 'USER_INACTIVE'
+        }
+      }
+
+      switch (activity.type) {
+        case 'Follow':
+          return await this.handleFollow(user, activity, actorId)
+        case 'Undo':
+          return await this.handleUndo(user, activity, actorId)
+        case 'Delete':
+          return await this.handleDelete(activity, actorId)
+        case 'Block':
+          return await this.handleBlock(user, activity, actorId)
+        default:
+          // Unsupported activities are acknowledged so senders don't retry them
+          return this.ignored(activity.type)
+      }
+
+    } catch (error) {
+      federationLogger.error('Failed to process inbox activity', {
+        username,
+        activityId: activity?.id,
+        error: error instanceof Error ? error.message : String(error)
+      })
+
+      return {
+        success: false,
+        error: 'Failed to process activity',
+        code: 'INTERNAL_ERROR'
+      }
+    }
+  }
+
+  /**
+   * Record a remote follower and answer with a signed Accept
+   * When the user approves followers the Follow is stored as a pending request
+   * and answered later, once the user accepts or rejects it
+   * @param user - Followed local user
+   * @param activity - Follow activity
+   * @param actorId - Remote follower actor URI
+   */
+  private async handleFollow(user: User, activity: ActivityPubActivity, actorId: string): Promise<InboxServiceResult> {
+    if (getObjectId(activity.object) !== user.actorId) {
+      return {
+        success: false,
+        error: 'Follow object must be the inbox owner',
+        code: 'INVALID_ACTIVITY'
+      }
+    }
+
+    // Remote followers are keyed by their actor URI (see FollowRepository)
+    let follow = await this.followRepository.findByFollowerAndFollowed(actorId, user.id)
+    if (!follow) {
+      follow = await this.followRepository.create({
+        followerId: actorId,
+        followedId: user.id,
+        actorId,
+        activityId: activity.id,
+        isAccepted: !user.approveFollowers
+      })
+    }
+
+    if (!follow.isAccepted) {
+      return {
+        success: true,
+        data: { type: 'Follow', status: 'processed' }
+      }
+    }
+
+    // Accept again for repeated Follows in case the remote lost our first answer
+    void this.sendAccept(user, activity, actorId, follow.id)
+
+    return {
+      success: true,
+      data: { type: 'Follow', status: 'processed' }
+    }
+  }
+
+  /**
+   * Handle Undo; only Undo{Follow} changes state
+   * @param user - Inbox owner
+   * @param activity - Undo activity
+   * @param actorId - Remote actor URI
+   */
+  private async handleUndo(user: User, activity: ActivityPubActivity, actorId: string): Promise<InboxServiceResult> {
+    const undone = activity.object
+    const undoneId = getObjectId(undone)
+    const undoneType = typeof undone === 'object' ? undone.type : undefined
+
+    // A bare URI can only be matched against a stored Follow
+    if (undoneType !== undefined && undoneType !== 'Follow') {
+      return this.ignored('Undo')
+    }
+
+    const follow = undoneId ? await this.followRepository.findByActivityId(undoneId) : null
+    if (follow) {
+      if (follow.actorId !== actorId) {
+        return {
+          success: false,
+          error: 'Cannot undo another actor\'s Follow',
+          code: 'ACTOR_MISMATCH'
+        }
+      }
+
+      await this.followRepository.deleteByFollowerAndFollowed(follow.followerId, follow.followedId)
+      return {
+        success: true,
+        data: { type: 'Undo', status: 'processed' }
+      }
+    }
+
+    // Some servers mint a new id for the embedded Follow; fall back to actor + target
+    if (undoneType === 'Follow' && typeof undone === 'object' && getObjectId(undone.object) === user.actorId) {
+      const deleted = await this.followRepository.deleteByFollowerAndFollowed(actorId, user.id)
+      return deleted
+        ? { success: true, data: { type: 'Undo', status: 'processed' } }
+        : this.ignored('Undo')
+    }
+
+    return this.ignored('Undo')
+  }
+
+  /**
+   * Handle Delete; a deleted remote actor loses all of its follows
+   * Remote posts are not stored, so other deletes need no work
+   * @param activity - Delete activity
+   * @param actorId - Remote actor URI
+   */
+  private async handleDelete(activity: ActivityPubActivity, actorId: string): Promise<InboxServiceResult> {
+    if (getObjectId(activity.object) !== actorId) {
+      return this.ignored('Delete')
+    }
+
+    const removed = await this.followRepository.deleteByActorId(actorId)
+    this.remoteActorService.evict(actorId)
+
+    federationLogger.info('Removed follows of deleted remote actor', { actorId, removed })
+
+    return {
+      success: true,
+      data: { type: 'Delete', status: 'processed' }
+    }
+  }
+
+  /**
+   * Handle Block; the blocking actor stops following the local user
+   * Blocks are stored for local users only, so no Block row is created
+   * @param user - Inbox owner
+   * @param activity - Block activity
+   * @param actorId - Remote actor URI
+   */
+  private async handleBlock(user: User, activity: ActivityPubActivity, actorId: string): Promise<InboxServiceResult> {
+    if (getObjectId(activity.object) !== user.actorId) {
+      return this.ignored('Block')
+    }
+
+    await this.followRepository.deleteByFollowerAndFollowed(actorId, user.id)
+
+    return {
+      success: true,
+      data: { type: 'Block', status: 'processed' }
+    }
+  }
+
+  /**
+   * Deliver an Accept for a Follow to the follower's inbox
+   * Runs after the inbox request has been answered; failures are logged only
+   * @param user - Followed local user
+   * @param followActivity - Follow being accepted
+   * @param actorId - Remote follower actor URI
+   * @param followId - Stored Follow row id
+   */
+  private async sendAccept(
+    user: User,
+    followActivity: ActivityPubActivity,
+    actorId: string,
+    followId: string
+  ): Promise<void> {
+    try {
+      if (!user.actorId || !user.privateKey) {
+        federationLogger.warn('Cannot send Accept without actor keys', { userId: user.id })
+        return
+      }
+
+      const remoteActor = await this.remoteActorService.fetchActor(actorId)
+      const accept = this.activityPubService.buildAcceptActivity(user, followActivity, followId)
+      const result = await this.activityDeliveryService.deliver(accept, remoteActor.inbox, {
+        actorId: user.actorId,
+        privateKey: user.privateKey
+      })
+
+      if (!result.success) {
+        federationLogger.warn('Accept delivery failed', { actorId, inbox: remoteActor.inbox, error: result.error })
+      }
+    } catch (error) {
+      federationLogger.warn('Accept delivery failed', {
+        actorId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  /**
+   * Build the result for an activity that needs no work
+   * @param type - Activity type
+   * @returns InboxServiceResult marked as ignored
+   */
+  private ignored(type: string): InboxServiceResult {
+    return {
+      success: true,
+      data: { type, status: 'ignored' }
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  InboxProcessingResult,
+  InboxServiceResult
+}
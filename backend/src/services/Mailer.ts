@@ -0,0 +1,125 @@
+// backend/src/services/Mailer.ts
+// Version: 1.0.0 - Pluggable outgoing email with SMTP, file and console transports
+
+import fs from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import type { Transporter } from 'nodemailer'
+import { MailConfig, SmtpConfig } from '../config/mail'
+
+/**
+ * Email to send
+ */
+interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+/**
+ * Mailer interface
+ * Services depend on this so tests and local setups can swap the transport
+ */
+interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
+
+/**
+ * SmtpMailer class
+ * Delivers email through an SMTP server
+ */
+export class SmtpMailer implements Mailer {
+  private transporter: Transporter
+
+  constructor(smtp: SmtpConfig, private from: string) {
+    this.transporter = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      ...(smtp.user ? { auth: { user: smtp.user, pass: smtp.password ?? '' } } : {})
+    })
+  }
+
+  /**
+   * Send an email over SMTP
+   * @param message - Email to send
+   * @throws Error if the server rejects the message
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message })
+  }
+}
+
+/**
+ * FileMailer class
+ * Writes each email as an .eml file so links can be opened during local testing
+ */
+export class FileMailer implements Mailer {
+  private transporter: Transporter
+
+  constructor(private directory: string, private from: string) {
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true })
+  }
+
+  /**
+   * Render the email and write it to the mail directory
+   * @param message - Email to write
+   */
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message })
+
+    await fs.mkdir(this.directory, { recursive: true })
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+    await fs.writeFile(path.join(this.directory, `${Date.now()}-${recipient}.eml`), info.message as Buffer)
+  }
+}
+
+/**
+ * ConsoleMailer class
+ * Prints emails to stdout; the default for development
+ */
+export class ConsoleMailer implements Mailer {
+  constructor(private from: string) {}
+
+  /**
+   * Print the email
+   * @param message - Email to print
+   */
+  async send(message: MailMessage): Promise<void> {
+    console.log([
+      '📧 Outgoing email',
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text
+    ].join('\n'))
+  }
+}
+
+/**
+ * Create the mailer selected by configuration
+ * @param config - Mail configuration
+ * @returns Mailer Mailer for the configured transport
+ */
+export function createMailer(config: MailConfig): Mailer {
+  switch (config.transport) {
+    case 'smtp':
+      if (!config.smtp) {
+        throw new Error('SMTP transport selected without SMTP settings')
+      }
+      return new SmtpMailer(config.smtp, config.from)
+    case 'file':
+      return new FileMailer(config.fileDirectory, config.from)
+    case 'console':
+    default:
+      return new ConsoleMailer(config.from)
+  }
+}
+
+// Export types for use in other files
+export type {
+  Mailer,
+  MailMessage
+}
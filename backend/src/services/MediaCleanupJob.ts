@@ -0,0 +1,156 @@
+// backend/src/services/MediaCleanupJob.ts
+// Version: 1.4.0 - Background removal of uploads that were never attached to a post
+// Changed: Use the shared system clock from PostScheduler
+
+import { MediaRepository } from '../repositories/MediaRepository'
+import { MediaCleanupConfig } from '../config/mediaCleanup'
+import { SchedulerClock, systemClock } from './PostScheduler'
+import { getRenditionFilenames } from './MediaService'
+import { StorageProvider } from './StorageProvider'
+import { schedulerLogger } from '../utils/logger'
+
+/**
+ * Outcome of a single cleanup run
+ */
+interface MediaCleanupRunResult {
+  status: 'completed' | 'skipped' | 'failed'
+  removed: number
+}
+
+/**
+ * MediaCleanupJob class
+ * Periodically deletes uploads that no post claimed within the grace period.
+ * Each record is deleted only while still unattached, so several instances
+ * can run the job at once and a post attaching media mid-run keeps it.
+ */
+export class MediaCleanupJob {
+  private timer: unknown = null
+  private currentRun: Promise<MediaCleanupRunResult> | null = null
+
+  constructor(
+    private mediaRepository: MediaRepository,
+    private storage: StorageProvider,
+    private config: MediaCleanupConfig,
+    private clock: SchedulerClock = systemClock
+  ) {}
+
+  /**
+   * Start the periodic timer and run once immediately
+   * Does nothing when the job is disabled or already running
+   */
+  start(): void {
+    if (!this.config.enabled || this.timer) {
+      return
+    }
+
+    this.timer = this.clock.setInterval(() => {
+      void this.runOnce()
+    }, this.config.intervalMs)
+
+    schedulerLogger.info('Media cleanup started', {
+      intervalMs: this.config.intervalMs,
+      gracePeriodMs: this.config.gracePeriodMs
+    })
+    void this.runOnce()
+  }
+
+  /**
+   * Stop the timer and wait for an in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      this.clock.clearInterval(this.timer)
+      this.timer = null
+      schedulerLogger.info('Media cleanup stopped')
+    }
+
+    if (this.currentRun) {
+      await this.currentRun
+    }
+  }
+
+  /**
+   * Check whether the periodic timer is active
+   * @returns boolean True between start() and stop()
+   */
+  isRunning(): boolean {
+    return this.timer !== null
+  }
+
+  /**
+   * Remove one batch of orphaned uploads
+   * A run that overlaps a previous one is skipped
+   * @returns Promise<MediaCleanupRunResult> What the run did
+   */
+  async runOnce(): Promise<MediaCleanupRunResult> {
+    if (this.currentRun) {
+      return { status: 'skipped', removed: 0 }
+    }
+
+    this.currentRun = this.removeOrphans()
+    try {
+      return await this.currentRun
+    } finally {
+      this.currentRun = null
+    }
+  }
+
+  /**
+   * Delete orphaned records, then their files and renditions
+   * The record goes first so a file is never removed from under a post
+   * @returns Promise<MediaCleanupRunResult> What the run did
+   */
+  private async removeOrphans(): Promise<MediaCleanupRunResult> {
+    const cutoff = new Date(this.clock.now().getTime() - this.config.gracePeriodMs)
+
+    try {
+      const orphans = await this.mediaRepository.findOrphaned(cutoff, this.config.batchSize)
+
+      let removed = 0
+      for (const media of orphans) {
+        if (!await this.mediaRepository.deleteIfUnattached(media.id)) {
+          continue
+        }
+
+        removed++
+        const renditions = getRenditionFilenames(media.filename)
+        for (const filename of [media.filename, ...Object.values(renditions)]) {
+          await this.removeFile(filename)
+        }
+      }
+
+      if (orphans.length > 0) {
+        schedulerLogger.info('Media cleanup run completed', { removed })
+      }
+
+      return { status: 'completed', removed }
+
+    } catch (error) {
+      schedulerLogger.error('Media cleanup run failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return { status: 'failed', removed: 0 }
+    }
+  }
+
+  /**
+   * Delete an upload's file from storage
+   * Storage already treats a missing file as deleted, so only real failures are logged
+   * @param filename - Storage key
+   */
+  private async removeFile(filename: string): Promise<void> {
+    try {
+      await this.storage.delete(filename)
+    } catch (error) {
+      schedulerLogger.error('Failed to delete orphaned media file', {
+        filename,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  MediaCleanupRunResult
+}
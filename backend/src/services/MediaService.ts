@@ -0,0 +1,508 @@
+// backend/src/services/MediaService.ts
+// Version: 1.6.0 - Image processing for uploads
+// Changed: Media that is not public yet is handed out with signed, expiring URLs
+
+import { createHash, randomUUID } from 'crypto'
+import { createReadStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import sharp from 'sharp'
+import { encode as encodeBlurhash } from 'blurhash'
+import { MediaRepository, MediaProcessingStatus, ServableMedia } from '../repositories/MediaRepository'
+import { StorageProvider, StoredObject, ByteRange } from './StorageProvider'
+import { MEDIA_RENDITIONS } from '../utils/constants'
+import { UserRole } from '../models/User'
+import { DEFAULT_SIGNED_URL_TTL_SECONDS } from '../config/storage'
+
+/**
+ * Edge length in pixels of the image the BlurHash is computed from
+ */
+const BLURHASH_SAMPLE_SIZE = 32
+
+/**
+ * File multer has staged on local disk
+ * filename becomes the storage key; path is where the staged copy lives
+ */
+interface StoredUpload {
+  filename: string
+  path: string
+  originalName: string
+  mimeType: string
+  size: number
+}
+
+/**
+ * Storage keys of an upload's renditions
+ * Images get the WebP thumbnail and preview; videos get the JPEG poster
+ */
+interface RenditionFilenames {
+  thumbnail: string
+  preview: string
+  poster: string
+}
+
+/**
+ * An uploaded image ready to be stored
+ */
+interface ProcessedImage {
+  original: Buffer
+  thumbnail: Buffer
+  preview: Buffer
+  width: number
+  height: number
+  blurhash: string
+}
+
+/**
+ * Media record as returned to the uploader
+ */
+interface UploadedMedia {
+  id: string
+  filename: string
+  originalName: string | null
+  url: string
+  thumbnailUrl: string | null
+  previewUrl: string | null
+  blurhash: string | null
+  posterUrl: string | null
+  duration: number | null
+  mimeType: string
+  size: number | null
+  width: number | null
+  height: number | null
+  altText: string | null
+  sensitive: boolean
+  processingStatus: MediaProcessingStatus
+  postId: string | null
+  createdAt: Date
+}
+
+/**
+ * User asking to read or delete media
+ */
+interface MediaViewer {
+  id: string
+  role?: UserRole | undefined
+}
+
+/**
+ * Media fields that point at stored files
+ */
+interface MediaUrls {
+  filename: string
+  url: string
+  thumbnailUrl: string | null
+  previewUrl: string | null
+  posterUrl: string | null
+}
+
+/**
+ * Post whose media URLs may need signing
+ */
+interface PostWithMediaUrls {
+  isPublished: boolean
+  media?: MediaUrls[]
+}
+
+/**
+ * Parameters of a signed URL, as sent in the query string
+ */
+interface SignedUrlParams {
+  expires: number
+  signature: string
+}
+
+/**
+ * A stored file the viewer may read, with what its response headers need
+ * size is null for renditions, whose size is not recorded
+ */
+interface MediaFile {
+  key: string
+  mimeType: string
+  size: number | null
+  lastModified: Date
+  etag: string
+  downloadName: string
+  isPublic: boolean
+}
+
+/**
+ * Media service result interface
+ */
+interface MediaServiceResult<T> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * Build the storage keys of an upload's renditions
+ * Renditions share the stored filename's base so they can be found from it alone
+ * @param filename - Stored filename of the original upload
+ * @returns Thumbnail, preview and poster filenames
+ */
+export function getRenditionFilenames(filename: string): RenditionFilenames {
+  const base = path.basename(filename, path.extname(filename))
+  return {
+    thumbnail: `${base}-thumb.webp`,
+    preview: `${base}-preview.webp`,
+    poster: `${base}-poster.jpg`
+  }
+}
+
+/**
+ * MediaService class
+ * Records uploaded files as Media owned by the uploader. New media is
+ * unattached until a post claims it through PostRepository.createWithMedia;
+ * MediaCleanupJob removes whatever is never claimed.
+ *
+ * Images are turned upright and re-encoded in their own format, which drops
+ * EXIF data such as GPS location, then get WebP thumbnail and preview
+ * renditions and a BlurHash placeholder. Videos are stored as uploaded and
+ * left PENDING for VideoProcessingJob to transcode. Files are written through
+ * the StorageProvider, so every backend instance can serve them.
+ *
+ * Unattached uploads and media on posts that are not published yet are
+ * returned with signed URLs, so they stay private even when STORAGE_PUBLIC_URL
+ * serves files from a bucket or CDN without the media route's access checks.
+ */
+export class MediaService {
+  constructor(
+    private mediaRepository: MediaRepository,
+    private storage: StorageProvider,
+    private signedUrlTtlSeconds: number = DEFAULT_SIGNED_URL_TTL_SECONDS
+  ) {}
+
+  /**
+   * Process a staged upload, store it and create its Media record
+   * The staged file is always removed; stored files are removed again if saving fails
+   * @param uploaderId - User who uploaded the file
+   * @param upload - File multer staged on local disk
+   * @param altText - Optional accessibility text
+   * @param sensitive - Hide the media behind a click-through when shown
+   * @returns Promise<MediaServiceResult<UploadedMedia>> Created media, or INVALID_IMAGE
+   */
+  async createUpload(
+    uploaderId: string,
+    upload: StoredUpload,
+    altText?: string,
+    sensitive: boolean = false
+  ): Promise<MediaServiceResult<UploadedMedia>> {
+    try {
+      let image: ProcessedImage | null = null
+      if (upload.mimeType.startsWith('image/')) {
+        try {
+          image = await this.processImage(upload)
+        } catch (error) {
+          return { success: false, error: 'File is not a supported image', code: 'INVALID_IMAGE' }
+        }
+      }
+
+      const renditions = getRenditionFilenames(upload.filename)
+      try {
+        if (image) {
+          await this.storage.put(upload.filename, image.original, upload.mimeType)
+          await this.storage.put(renditions.thumbnail, image.thumbnail, 'image/webp')
+          await this.storage.put(renditions.preview, image.preview, 'image/webp')
+        } else {
+          await this.storage.put(upload.filename, createReadStream(upload.path), upload.mimeType)
+        }
+
+        const media = await this.mediaRepository.create({
+          id: randomUUID(),
+          filename: upload.filename,
+          originalName: upload.originalName,
+          url: this.storage.getPublicUrl(upload.filename),
+          mimeType: upload.mimeType,
+          size: image ? image.original.length : upload.size,
+          uploaderId,
+          ...(image && {
+            width: image.width,
+            height: image.height,
+            thumbnailUrl: this.storage.getPublicUrl(renditions.thumbnail),
+            previewUrl: this.storage.getPublicUrl(renditions.preview),
+            blurhash: image.blurhash
+          }),
+          ...(!image && { processingStatus: 'PENDING' as const }),
+          ...(altText && { altText }),
+          ...(sensitive && { sensitive })
+        })
+
+        // Nothing else may read the upload until a published post claims it
+        return { success: true, data: await this.withSignedUrls(media) }
+      } catch (error) {
+        await this.removeStoredFiles(upload.filename)
+        throw error
+      }
+    } finally {
+      await this.discardUpload(upload.path)
+    }
+  }
+
+  /**
+   * Find a stored file to serve by media ID, stored filename or rendition filename
+   * Media the viewer may not read is reported as NOT_FOUND, so drafts are not revealed
+   * @param identifier - Media ID or storage key from the URL
+   * @param viewer - Signed-in user, if any
+   * @param signedUrl - Signature parameters, when the URL was handed out by getSignedUrl
+   * @returns Promise<MediaServiceResult<MediaFile>> File details, or NOT_FOUND
+   */
+  async findMediaFile(
+    identifier: string,
+    viewer?: MediaViewer | null,
+    signedUrl?: SignedUrlParams | null
+  ): Promise<MediaServiceResult<MediaFile>> {
+    const media = await this.mediaRepository.findForServing(identifier)
+    if (!media) {
+      return { success: false, error: 'Media not found', code: 'NOT_FOUND' }
+    }
+
+    const file = this.resolveFile(media, identifier)
+    const isSigned = Boolean(signedUrl) && Boolean(this.storage.verifySignedUrl?.(
+      file.key,
+      signedUrl!.expires,
+      signedUrl!.signature
+    ))
+
+    if (!isSigned && !this.canRead(media, viewer)) {
+      return { success: false, error: 'Media not found', code: 'NOT_FOUND' }
+    }
+
+    return { success: true, data: file }
+  }
+
+  /**
+   * Open a file found by findMediaFile for reading
+   * @param file - File to read
+   * @param range - Optional byte range
+   * @returns Promise<StoredObject | null> File stream, or null if storage no longer has it
+   */
+  async openMediaFile(file: MediaFile, range?: ByteRange): Promise<StoredObject | null> {
+    return this.storage.get(file.key, range)
+  }
+
+  /**
+   * Delete media by its ID or stored filename, along with its files
+   * Only the uploader may delete; media attached to a post is removed from it.
+   * The record is removed through MediaRepository.delete before its files,
+   * so a failed file delete leaves an unreferenced file rather than a broken post
+   * @param identifier - Media ID or stored filename of the original upload
+   * @param viewer - User asking for the delete
+   * @returns Promise<MediaServiceResult<void>> Success, NOT_FOUND or FORBIDDEN
+   */
+  async deleteMedia(identifier: string, viewer: MediaViewer): Promise<MediaServiceResult<void>> {
+    const media = await this.mediaRepository.findForServing(identifier)
+    if (!media || (media.id !== identifier && media.filename !== identifier) || !this.canRead(media, viewer)) {
+      return { success: false, error: 'Media not found', code: 'NOT_FOUND' }
+    }
+
+    if (media.uploaderId !== viewer.id) {
+      return { success: false, error: 'Only the uploader can delete this media', code: 'FORBIDDEN' }
+    }
+
+    await this.mediaRepository.delete(media.id)
+    await this.removeStoredFiles(media.filename)
+
+    return { success: true }
+  }
+
+  /**
+   * Build a URL that grants access to a stored file until it expires
+   * Used for files that are not public yet, such as media on a draft
+   * @param filename - Stored filename
+   * @param expiresInSeconds - How long the URL stays valid, the configured lifetime by default
+   * @returns Promise<string> Signed URL
+   */
+  async getSignedUrl(filename: string, expiresInSeconds: number = this.signedUrlTtlSeconds): Promise<string> {
+    return this.storage.getSignedUrl(filename, expiresInSeconds)
+  }
+
+  /**
+   * Swap a media record's file URLs for signed ones
+   * @param media - Media with its stored URLs
+   * @returns Promise<T> The same media with signed url, thumbnail, preview and poster URLs
+   */
+  async withSignedUrls<T extends MediaUrls>(media: T): Promise<T> {
+    const renditions = getRenditionFilenames(media.filename)
+    return {
+      ...media,
+      url: await this.getSignedUrl(media.filename),
+      thumbnailUrl: media.thumbnailUrl && await this.getSignedUrl(renditions.thumbnail),
+      previewUrl: media.previewUrl && await this.getSignedUrl(renditions.preview),
+      posterUrl: media.posterUrl && await this.getSignedUrl(renditions.poster)
+    }
+  }
+
+  /**
+   * Sign the media URLs of a post that is not published yet
+   * Only its author is shown such a post; published posts are returned unchanged
+   * @param post - Post with its media
+   * @returns Promise<T> The post, with signed media URLs if it is a draft or scheduled
+   */
+  async signPostMedia<T extends PostWithMediaUrls>(post: T): Promise<T> {
+    if (post.isPublished || !post.media || post.media.length === 0) {
+      return post
+    }
+
+    return {
+      ...post,
+      media: await Promise.all(post.media.map(media => this.withSignedUrls(media)))
+    }
+  }
+
+  /**
+   * Remove a staged upload that will not be stored
+   * @param filePath - Local path multer wrote the upload to
+   */
+  async discardUpload(filePath: string): Promise<void> {
+    await fs.unlink(filePath).catch(() => undefined)
+  }
+
+  /**
+   * Decide whether a viewer may read media, mirroring who may read its post
+   * Unattached uploads and drafts are only readable by their owner; removed
+   * posts and posts by suspended authors only by staff; hidden posts also by their author
+   * @param media - Media with its post's visibility
+   * @param viewer - Signed-in user, if any
+   * @returns boolean True if the viewer may read the media
+   */
+  private canRead(media: ServableMedia, viewer?: MediaViewer | null): boolean {
+    const post = media.post
+    if (!post) {
+      return media.uploaderId === viewer?.id
+    }
+
+    const isAuthor = post.authorId === viewer?.id
+    const isStaff = viewer?.role === 'moderator' || viewer?.role === 'admin'
+    const isModerated = post.moderationStatus === 'removed' ||
+      (post.moderationStatus === 'hidden' && !isAuthor) ||
+      !post.author.isActive
+    if (isModerated && !isStaff) {
+      return false
+    }
+
+    return post.isPublished || isAuthor
+  }
+
+  /**
+   * Work out which stored file an identifier names
+   * A media ID or the stored filename names the upload itself; otherwise it is a rendition
+   * @param media - Media the identifier matched
+   * @param identifier - Media ID or storage key from the URL
+   * @returns MediaFile File details
+   */
+  private resolveFile(media: ServableMedia, identifier: string): MediaFile {
+    const isOriginal = identifier === media.id || identifier === media.filename
+    const key = isOriginal ? media.filename : identifier
+    const extension = path.extname(key)
+    const originalBase = media.originalName
+      ? path.basename(media.originalName, path.extname(media.originalName))
+      : null
+
+    // The record changes whenever its files are replaced, such as after transcoding
+    const version = createHash('sha256')
+      .update(`${key}:${media.updatedAt.getTime()}`)
+      .digest('base64url')
+      .slice(0, 27)
+    const isPublic = Boolean(media.post?.isPublished) &&
+      media.post?.moderationStatus === 'visible' &&
+      Boolean(media.post?.author.isActive)
+
+    return {
+      key,
+      mimeType: isOriginal
+        ? media.mimeType
+        : extension === '.webp' ? 'image/webp' : 'image/jpeg',
+      size: isOriginal ? media.size : null,
+      lastModified: media.updatedAt,
+      etag: `"${version}"`,
+      // Offer the name it was uploaded under, with the extension of what is actually served
+      downloadName: isOriginal && originalBase ? `${originalBase}${extension}` : key,
+      isPublic
+    }
+  }
+
+  /**
+   * Remove an upload and its renditions or poster from storage
+   * Failures are ignored; a leftover file is unreachable once its record is gone
+   * @param filename - Stored filename of the original upload
+   */
+  private async removeStoredFiles(filename: string): Promise<void> {
+    const renditions = getRenditionFilenames(filename)
+    await Promise.all([filename, ...Object.values(renditions)].map(key =>
+      this.storage.delete(key).catch(() => undefined)
+    ))
+  }
+
+  /**
+   * Strip metadata from an image and render its renditions
+   * GIFs are kept as uploaded, since re-encoding would drop their animation and
+   * the format has no EXIF block; their renditions use the first frame
+   * @param upload - Staged upload, its type already checked against the file's magic bytes
+   * @returns Promise<ProcessedImage> Image bytes to store, renditions, dimensions and BlurHash
+   * @throws Error if sharp cannot decode the image
+   */
+  private async processImage(upload: StoredUpload): Promise<ProcessedImage> {
+    // sharp writes no metadata unless asked, so re-encoding drops EXIF, XMP and GPS
+    const upright = upload.mimeType === 'image/gif'
+      ? await fs.readFile(upload.path)
+      : await sharp(upload.path).rotate().toBuffer()
+
+    const { width, height } = await sharp(upright).metadata()
+    if (!width || !height) {
+      throw new Error('Image has no dimensions')
+    }
+
+    return {
+      original: upright,
+      thumbnail: await this.renderRendition(upright, MEDIA_RENDITIONS.thumbnail),
+      preview: await this.renderRendition(upright, MEDIA_RENDITIONS.preview),
+      width,
+      height,
+      blurhash: await this.computeBlurhash(upright)
+    }
+  }
+
+  /**
+   * Render a WebP rendition that fits within a square, never enlarging the image
+   * @param image - Upright image bytes
+   * @param maxSize - Longest edge in pixels
+   * @returns Promise<Buffer> WebP bytes
+   */
+  private async renderRendition(image: Buffer, maxSize: number): Promise<Buffer> {
+    return sharp(image)
+      .resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer()
+  }
+
+  /**
+   * Compute a BlurHash placeholder from a small copy of the image
+   * @param image - Upright image bytes
+   * @returns Promise<string> BlurHash with 4x3 components
+   */
+  private async computeBlurhash(image: Buffer): Promise<string> {
+    const { data, info } = await sharp(image)
+      .resize(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+
+    return encodeBlurhash(new Uint8ClampedArray(data), info.width, info.height, 4, 3)
+  }
+}
+
+// Export types for use in other files
+export type {
+  StoredUpload,
+  RenditionFilenames,
+  ProcessedImage,
+  UploadedMedia,
+  MediaViewer,
+  MediaUrls,
+  PostWithMediaUrls,
+  SignedUrlParams,
+  MediaFile,
+  MediaServiceResult
+}
@@ -0,0 +1,315 @@
+// backend/src/services/ModerationDashboardService.ts
+// Version: 1.0.0 - Creator view of reports, blocks and follow requests, and the staff report queue
+
+import {
+  CreatorModerationSummary,
+  CreatorReport,
+  highestSeverity,
+  ModerationQueueEntry,
+  REPORT_SEVERITIES,
+  ReportedPost,
+  toCreatorReport
+} from '../models/ModerationDashboard'
+import { PaginatedReports, ReportStatus } from '../models/Report'
+import { ReportRepository } from '../repositories/ReportRepository'
+import { BlockRepository } from '../repositories/BlockRepository'
+import { FollowRepository } from '../repositories/FollowRepository'
+import { PostRepository } from '../repositories/PostRepository'
+import { UserRepository } from '../repositories/UserRepository'
+
+/**
+ * Moderation dashboard service result interface
+ */
+interface ModerationDashboardResult<T = undefined> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * Page of a list
+ */
+interface PageOptions {
+  page: number
+  limit: number
+}
+
+/**
+ * Page of reports, optionally only those with one status
+ */
+interface ReportPageOptions extends PageOptions {
+  status?: ReportStatus | undefined
+}
+
+/**
+ * Reports against a creator, without reporter or moderator details
+ */
+interface CreatorReportPage {
+  reports: CreatorReport[]
+  pagination: PaginatedReports['pagination']
+}
+
+/**
+ * Page of a creator's reported posts
+ */
+interface ReportedPostPage {
+  posts: ReportedPost[]
+  totalCount: number
+  hasMore: boolean
+}
+
+/**
+ * Account a creator has blocked
+ */
+interface BlockedUser {
+  id: string
+  blockedId: string
+  reason: string | null
+  createdAt: Date
+  user: {
+    id: string
+    username: string
+    displayName: string | null
+    avatar: string | null
+  } | null
+}
+
+/**
+ * Page of a creator's block list
+ */
+interface BlockedUserPage {
+  blocks: BlockedUser[]
+  totalCount: number
+  hasMore: boolean
+}
+
+/**
+ * Staff report queue
+ */
+interface ModerationQueue {
+  pendingReports: number
+  users: ModerationQueueEntry[]
+}
+
+/**
+ * ModerationDashboardService class
+ * Shows creators the reports against their account and posts, who they have
+ * blocked and how many follow requests are waiting, without staff access.
+ * Creators never see who reported them. Staff get the most-reported accounts
+ * ordered by how urgent and how old their open reports are.
+ */
+export class ModerationDashboardService {
+  constructor(
+    private reportRepository: ReportRepository,
+    private blockRepository: BlockRepository,
+    private followRepository: FollowRepository,
+    private postRepository: PostRepository,
+    private userRepository: UserRepository
+  ) {}
+
+  /**
+   * Count what needs the creator's attention
+   * @param userId - Creator's user ID
+   * @returns Promise<ModerationDashboardResult> Posts with open reports, open reports
+   *   against the account, blocked accounts and pending follow requests
+   */
+  async getSummary(userId: string): Promise<ModerationDashboardResult<CreatorModerationSummary>> {
+    const [reportedPosts, accountReports, blockedUsers, pendingFollowRequests] = await Promise.all([
+      this.reportRepository.findReportedPostsByAuthor(userId),
+      this.reportRepository.countOpenByReportedUser(userId),
+      this.blockRepository.getBlockedCount(userId),
+      this.followRepository.countPendingByFollowedId(userId)
+    ])
+
+    return {
+      success: true,
+      data: {
+        reportedPosts: reportedPosts.filter(post => post.openCount > 0).length,
+        accountReports,
+        blockedUsers,
+        pendingFollowRequests
+      }
+    }
+  }
+
+  /**
+   * List reports against the creator's account, newest first
+   * @param userId - Creator's user ID
+   * @param options - Page and optional status filter
+   * @returns Promise<ModerationDashboardResult> Page of reports
+   */
+  async getAccountReports(
+    userId: string,
+    options: ReportPageOptions
+  ): Promise<ModerationDashboardResult<CreatorReportPage>> {
+    const result = await this.reportRepository.findByReportedUser(userId, {
+      page: options.page,
+      limit: options.limit,
+      ...(options.status !== undefined && { status: options.status })
+    })
+
+    return {
+      success: true,
+      data: {
+        reports: result.reports.map(toCreatorReport),
+        pagination: result.pagination
+      }
+    }
+  }
+
+  /**
+   * List the creator's posts that have been reported, most recently reported first
+   * @param userId - Creator's user ID
+   * @param options - Page
+   * @returns Promise<ModerationDashboardResult> Page of posts with report counts
+   */
+  async getReportedPosts(userId: string, options: PageOptions): Promise<ModerationDashboardResult<ReportedPostPage>> {
+    const posts = await this.reportRepository.findReportedPostsByAuthor(userId)
+    const offset = (options.page - 1) * options.limit
+
+    return {
+      success: true,
+      data: {
+        posts: posts.slice(offset, offset + options.limit),
+        totalCount: posts.length,
+        hasMore: offset + options.limit < posts.length
+      }
+    }
+  }
+
+  /**
+   * List reports against one of the creator's posts, newest first
+   * Posts by someone else are treated as missing
+   * @param userId - Creator's user ID
+   * @param postId - Post ID
+   * @param options - Page and optional status filter
+   * @returns Promise<ModerationDashboardResult> Page of reports, or POST_NOT_FOUND
+   */
+  async getPostReports(
+    userId: string,
+    postId: string,
+    options: ReportPageOptions
+  ): Promise<ModerationDashboardResult<CreatorReportPage>> {
+    const post = await this.postRepository.findByIdMinimal(postId)
+    if (!post || post.authorId !== userId) {
+      return { success: false, error: 'Post not found', code: 'POST_NOT_FOUND' }
+    }
+
+    const result = await this.reportRepository.findByReportedPost(postId, {
+      page: options.page,
+      limit: options.limit,
+      ...(options.status !== undefined && { status: options.status })
+    })
+
+    return {
+      success: true,
+      data: {
+        reports: result.reports.map(toCreatorReport),
+        pagination: result.pagination
+      }
+    }
+  }
+
+  /**
+   * List the accounts the creator has blocked, newest first
+   * @param userId - Creator's user ID
+   * @param options - Page
+   * @returns Promise<ModerationDashboardResult> Page of blocks with the blocked profiles
+   */
+  async getBlockedUsers(userId: string, options: PageOptions): Promise<ModerationDashboardResult<BlockedUserPage>> {
+    const offset = (options.page - 1) * options.limit
+    const { blocked, totalCount } = await this.blockRepository.findBlockedByUserId(userId, {
+      offset,
+      limit: options.limit
+    })
+
+    const users = new Map(
+      (await this.userRepository.findByIds(blocked.map((block: { blockedId: string }) => block.blockedId))).map(user => [user.id, user])
+    )
+
+    return {
+      success: true,
+      data: {
+        blocks: blocked.map((block: Omit<BlockedUser, 'user'>) => {
+          const user = users.get(block.blockedId)
+          return {
+            ...block,
+            user: user
+              ? {
+                  id: user.id,
+                  username: user.username,
+                  displayName: user.displayName,
+                  avatar: user.avatar
+                }
+              : null
+          }
+        }),
+        totalCount,
+        hasMore: offset + options.limit < totalCount
+      }
+    }
+  }
+
+  /**
+   * Build the staff queue from the most-reported accounts
+   * Accounts with the most severe open reports come first, then those whose
+   * oldest open report has waited longest. Accounts with nothing open go last.
+   * @returns Promise<ModerationDashboardResult> Pending report count and ordered accounts
+   */
+  async getStaffQueue(): Promise<ModerationDashboardResult<ModerationQueue>> {
+    const statistics = await this.reportRepository.getStatistics()
+    const userIds = statistics.topReportedUsers.map(entry => entry.userId)
+
+    const [groups, users] = await Promise.all([
+      this.reportRepository.findOpenGroupsByReportedUsers(userIds),
+      this.userRepository.findByIds(userIds)
+    ])
+    const usernames = new Map(users.map(user => [user.id, user.username]))
+
+    const entries: ModerationQueueEntry[] = statistics.topReportedUsers.map(entry => {
+      const open = groups.filter(group => group.userId === entry.userId)
+      const oldest = open.reduce<Date | null>(
+        (earliest, group) => earliest === null || group.oldestAt < earliest ? group.oldestAt : earliest,
+        null
+      )
+
+      return {
+        userId: entry.userId,
+        username: usernames.get(entry.userId) ?? null,
+        reportCount: entry.reportCount,
+        openCount: open.reduce((sum, group) => sum + group.count, 0),
+        severity: highestSeverity(open.map(group => group.type)),
+        oldestOpenAt: oldest
+      }
+    })
+
+    entries.sort((a, b) => {
+      if (a.severity === null || b.severity === null) {
+        return Number(a.severity === null) - Number(b.severity === null)
+      }
+      return REPORT_SEVERITIES.indexOf(b.severity) - REPORT_SEVERITIES.indexOf(a.severity)
+        || (a.oldestOpenAt?.getTime() ?? 0) - (b.oldestOpenAt?.getTime() ?? 0)
+    })
+
+    return {
+      success: true,
+      data: {
+        pendingReports: statistics.pendingReports,
+        users: entries
+      }
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  ModerationDashboardResult,
+  PageOptions,
+  ReportPageOptions,
+  CreatorReportPage,
+  ReportedPostPage,
+  BlockedUser,
+  BlockedUserPage,
+  ModerationQueue
+}
@@ -0,0 +1,228 @@
+// backend/src/services/ModerationService.ts
+// Version: 1.0.0 - Moderator actions on reports, their reversal and account standing
+
+import { USER_ROLES, UserRole } from '../models/User'
+import {
+  AccountStanding,
+  ModerationAction,
+  ModerationActionType,
+  POST_ACTION_TYPES,
+  buildAccountStanding
+} from '../models/ModerationAction'
+import { ReportStatus } from '../models/Report'
+import { ModerationActionRepository } from '../repositories/ModerationActionRepository'
+import { ReportRepository } from '../repositories/ReportRepository'
+import { UserRepository } from '../repositories/UserRepository'
+import { PostRepository } from '../repositories/PostRepository'
+import { SessionRepository } from '../repositories/SessionRepository'
+import { moderationLogger } from '../utils/logger'
+
+/**
+ * Moderation service result interface
+ */
+interface ModerationServiceResult<T = undefined> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * Staff member taking or reversing an action
+ */
+interface Moderator {
+  id: string
+  role: UserRole
+}
+
+/**
+ * ModerationService class
+ * Lets moderators act on a report: suspend the account, hide or remove the
+ * post, warn the user or escalate to an admin. Every action is recorded and
+ * can be reversed, and the active ones make up the user's account standing.
+ */
+export class ModerationService {
+  constructor(
+    private moderationActionRepository: ModerationActionRepository,
+    private reportRepository: ReportRepository,
+    private userRepository: UserRepository,
+    private postRepository: PostRepository,
+    private sessionRepository: SessionRepository
+  ) {}
+
+  /**
+   * Take an action from a report
+   * Escalating marks the report reviewed; any other action resolves it
+   * @param moderator - Staff member taking the action
+   * @param reportId - Report being acted on
+   * @param type - Action to take
+   * @param reason - Why, shown to the user in their account standing
+   * @returns Promise<ModerationServiceResult> Stored action, or REPORT_NOT_FOUND, POST_NOT_FOUND,
+   *   USER_NOT_FOUND, INVALID_ACTION, CANNOT_MODERATE_STAFF or ALREADY_SUSPENDED
+   */
+  async takeAction(
+    moderator: Moderator,
+    reportId: string,
+    type: ModerationActionType,
+    reason: string
+  ): Promise<ModerationServiceResult<ModerationAction>> {
+    const report = await this.reportRepository.findById(reportId)
+    if (!report) {
+      return { success: false, error: 'Report not found', code: 'REPORT_NOT_FOUND' }
+    }
+
+    let targetUserId = report.reportedUserId ?? null
+    let targetPostId: string | null = null
+    if (report.reportedPostId) {
+      const post = await this.postRepository.findById(report.reportedPostId)
+      if (!post) {
+        return { success: false, error: 'Reported post not found', code: 'POST_NOT_FOUND' }
+      }
+      targetUserId = post.authorId
+      targetPostId = post.id
+    }
+
+    if (POST_ACTION_TYPES.includes(type) && !targetPostId) {
+      return { success: false, error: 'This report is about an account, not a post', code: 'INVALID_ACTION' }
+    }
+
+    const target = targetUserId ? await this.userRepository.findById(targetUserId) : null
+    if (!target) {
+      return { success: false, error: 'Reported user not found', code: 'USER_NOT_FOUND' }
+    }
+
+    if (!this.canModerate(moderator, target.role)) {
+      return { success: false, error: 'You cannot take action against this account', code: 'CANNOT_MODERATE_STAFF' }
+    }
+
+    if (type === ModerationActionType.SUSPEND_USER && target.isActive === false) {
+      return { success: false, error: 'This account is already suspended', code: 'ALREADY_SUSPENDED' }
+    }
+
+    const action = await this.moderationActionRepository.applyAction(
+      {
+        type,
+        reason,
+        reportId,
+        moderatorId: moderator.id,
+        targetUserId: target.id,
+        targetPostId
+      },
+      type === ModerationActionType.ESCALATE ? ReportStatus.REVIEWED : ReportStatus.RESOLVED
+    )
+
+    // Suspended users are signed out everywhere, not just refused new logins
+    if (type === ModerationActionType.SUSPEND_USER) {
+      await this.sessionRepository.revokeAllForUser(target.id, 'suspended')
+    }
+
+    moderationLogger.info('Moderation action taken', {
+      actionId: action.id,
+      type,
+      reportId,
+      moderatorId: moderator.id,
+      targetUserId: target.id,
+      targetPostId
+    })
+
+    return { success: true, data: action }
+  }
+
+  /**
+   * Reverse an action and undo its effect
+   * @param moderator - Staff member reversing the action
+   * @param actionId - Action to reverse
+   * @param reason - Optional note explaining the reversal
+   * @returns Promise<ModerationServiceResult> Reversed action, or ACTION_NOT_FOUND,
+   *   ACTION_ALREADY_REVERSED or CANNOT_MODERATE_STAFF
+   */
+  async reverseAction(
+    moderator: Moderator,
+    actionId: string,
+    reason?: string
+  ): Promise<ModerationServiceResult<ModerationAction>> {
+    const action = await this.moderationActionRepository.findById(actionId)
+    if (!action) {
+      return { success: false, error: 'Moderation action not found', code: 'ACTION_NOT_FOUND' }
+    }
+
+    if (action.reversedAt) {
+      return { success: false, error: 'This action has already been reversed', code: 'ACTION_ALREADY_REVERSED' }
+    }
+
+    const target = await this.userRepository.findById(action.targetUserId)
+    if (target && !this.canModerate(moderator, target.role)) {
+      return { success: false, error: 'You cannot take action against this account', code: 'CANNOT_MODERATE_STAFF' }
+    }
+
+    const reversed = await this.moderationActionRepository.reverse(actionId, moderator.id, reason || null)
+    if (!reversed) {
+      return { success: false, error: 'This action has already been reversed', code: 'ACTION_ALREADY_REVERSED' }
+    }
+
+    moderationLogger.info('Moderation action reversed', {
+      actionId,
+      type: reversed.type,
+      moderatorId: moderator.id,
+      targetUserId: reversed.targetUserId
+    })
+
+    return { success: true, data: reversed }
+  }
+
+  /**
+   * List the actions taken from a report
+   * @param reportId - Report ID
+   * @returns Promise<ModerationServiceResult> Actions newest first, or REPORT_NOT_FOUND
+   */
+  async getReportActions(reportId: string): Promise<ModerationServiceResult<ModerationAction[]>> {
+    const report = await this.reportRepository.findById(reportId)
+    if (!report) {
+      return { success: false, error: 'Report not found', code: 'REPORT_NOT_FOUND' }
+    }
+
+    return { success: true, data: await this.moderationActionRepository.findByReportId(reportId) }
+  }
+
+  /**
+   * Get a user's account standing
+   * Users viewing their own standing do not see escalations or who acted
+   * @param userId - User ID
+   * @param includeInternal - True for staff, who see the full record
+   * @returns Promise<ModerationServiceResult> Standing, or USER_NOT_FOUND
+   */
+  async getAccountStanding(
+    userId: string,
+    includeInternal: boolean = false
+  ): Promise<ModerationServiceResult<AccountStanding>> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    const actions = await this.moderationActionRepository.findByTargetUserId(userId)
+    const visible = includeInternal
+      ? actions
+      : actions
+        .filter(action => action.type !== ModerationActionType.ESCALATE)
+        .map(action => ({ ...action, moderatorId: null, reversedById: null }))
+
+    return { success: true, data: buildAccountStanding(userId, user.isActive !== false, visible) }
+  }
+
+  /**
+   * Staff can only act on accounts with a lower role than their own
+   * @param moderator - Staff member acting
+   * @param targetRole - Role of the account being acted on
+   * @returns boolean True if the action is allowed
+   */
+  private canModerate(moderator: Moderator, targetRole: UserRole): boolean {
+    return USER_ROLES.indexOf(targetRole) < USER_ROLES.indexOf(moderator.role)
+  }
+}
+
+// Export types for use in other files
+export type {
+  ModerationServiceResult,
+  Moderator
+}
@@ -0,0 +1,338 @@
+// backend/src/services/OutboxService.ts
+// Version: 1.2.1 - Outboxes of renamed users are found by the actor URI they federated under
+// Changed: 1.2.0 - Answer remote follow requests with Accept or Reject
+// Changed: 1.1.0 - Federate profile changes as Update{Person}
+// Changed: 1.0.0 - Federate post publishing, edits and deletions to remote followers
+
+import { PostRepository } from '../repositories/PostRepository'
+import { FollowRepository } from '../repositories/FollowRepository'
+import { UserRepository } from '../repositories/UserRepository'
+import { ActivityPubService, FederatedPost } from './ActivityPubService'
+import { RemoteActorService } from './RemoteActorService'
+import { DeliveryQueue } from './DeliveryQueue'
+import { FederationConfig } from '../config/federation'
+import { Post } from '../models/Post'
+import { ActivityPubActivity, ActivityPubObject } from '../types/ActivityPub'
+import { OUTBOX_PAGE_SIZE } from '../utils/constants'
+import { federationLogger } from '../utils/logger'
+
+/**
+ * Post row as returned by PostRepository.delete, without the author relation
+ */
+type DeletedPost = Omit<FederatedPost, 'author' | 'media'>
+
+/**
+ * Follow row a creator has approved or declined
+ */
+interface AnsweredFollow {
+  id: string
+  followedId: string
+  actorId: string | null
+  activityId: string | null
+}
+
+/**
+ * Outbox service result interface
+ */
+interface OutboxServiceResult<T = ActivityPubObject> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * OutboxService class
+ * Turns local post lifecycle events into activities and queues them for every
+ * remote follower's inbox. Delivery failures never reach the post flow: every
+ * method logs and returns instead of throwing.
+ */
+export class OutboxService {
+  constructor(
+    private postRepository: PostRepository,
+    private followRepository: FollowRepository,
+    private userRepository: UserRepository,
+    private activityPubService: ActivityPubService,
+    private remoteActorService: RemoteActorService,
+    private deliveryQueue: DeliveryQueue,
+    private federationConfig: FederationConfig
+  ) {}
+
+  /**
+   * Federate a post that just became public as Create{Note}
+   * Stores the post's activityId and objectId the first time it is published
+   * @param postId - ID of the published post
+   */
+  async publishPost(postId: string): Promise<void> {
+    try {
+      let post = await this.postRepository.findById(postId)
+      if (!post || !post.isPublished) {
+        return
+      }
+
+      if (!post.activityId || !post.objectId) {
+        const model = new Post(post)
+        post = await this.postRepository.update(post.id, {
+          activityId: model.generateActivityId(this.federationConfig.domain),
+          objectId: model.generateObjectId(this.federationConfig.domain)
+        })
+        if (!post) {
+          return
+        }
+      }
+
+      await this.deliverToFollowers(this.activityPubService.buildCreateActivity(post), post.authorId)
+
+    } catch (error) {
+      this.logFailure('Create', postId, error)
+    }
+  }
+
+  /**
+   * Federate an edit of an already federated post as Update{Note}
+   * @param postId - ID of the edited post
+   */
+  async updatePost(postId: string): Promise<void> {
+    try {
+      const post = await this.postRepository.findById(postId)
+      if (!post || !post.isPublished || !post.activityId) {
+        return
+      }
+
+      await this.deliverToFollowers(this.activityPubService.buildUpdateActivity(post), post.authorId)
+
+    } catch (error) {
+      this.logFailure('Update', postId, error)
+    }
+  }
+
+  /**
+   * Withdraw a federated post that went back to draft
+   * Sends Delete{Tombstone} and clears the stored ids so a later publish starts over
+   * @param postId - ID of the unpublished post
+   */
+  async unpublishPost(postId: string): Promise<void> {
+    try {
+      const post = await this.postRepository.findById(postId)
+      if (!post || post.isPublished || !post.activityId) {
+        return
+      }
+
+      await this.deliverToFollowers(this.activityPubService.buildDeleteActivity(post), post.authorId)
+      await this.postRepository.update(post.id, { activityId: null, objectId: null })
+
+    } catch (error) {
+      this.logFailure('Delete', postId, error)
+    }
+  }
+
+  /**
+   * Federate the deletion of a post as Delete{Tombstone}
+   * @param deletedPost - Row returned by PostRepository.delete
+   */
+  async deletePost(deletedPost: DeletedPost): Promise<void> {
+    try {
+      if (!deletedPost.activityId) {
+        return
+      }
+
+      const author = await this.userRepository.findById(deletedPost.authorId)
+      if (!author) {
+        return
+      }
+
+      const activity = this.activityPubService.buildDeleteActivity({
+        ...deletedPost,
+        author: { username: author.username, actorId: author.actorId ?? null }
+      })
+
+      await this.deliverToFollowers(activity, deletedPost.authorId)
+
+    } catch (error) {
+      this.logFailure('Delete', deletedPost.id, error)
+    }
+  }
+
+  /**
+   * Federate a profile change as Update{Person}
+   * Accounts without an actor or keys have never federated and are skipped
+   * @param userId - ID of the user whose profile changed
+   */
+  async updateProfile(userId: string): Promise<void> {
+    try {
+      const user = await this.userRepository.findById(userId)
+      if (!user || user.isActive === false || !user.actorId || !user.publicKey) {
+        return
+      }
+
+      await this.deliverToFollowers(this.activityPubService.buildActorUpdateActivity(user), user.id)
+
+    } catch (error) {
+      federationLogger.error('Failed to federate profile update', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  /**
+   * Tell a remote follower whether their follow request was approved
+   * Only follows that arrived as an ActivityPub Follow can be answered, since
+   * the answer has to name the Follow activity. Local follows are skipped.
+   * @param follow - Follow row that was approved or declined
+   * @param decision - Accept or Reject
+   */
+  async answerFollowRequest(follow: AnsweredFollow, decision: 'Accept' | 'Reject'): Promise<void> {
+    try {
+      if (!follow.actorId || !follow.activityId) {
+        return
+      }
+
+      const user = await this.userRepository.findById(follow.followedId)
+      if (!user || !user.actorId || !user.privateKey) {
+        return
+      }
+
+      const followActivity: ActivityPubActivity = {
+        id: follow.activityId,
+        type: 'Follow',
+        actor: follow.actorId,
+        object: user.actorId
+      }
+      const activity = decision === 'Accept'
+        ? this.activityPubService.buildAcceptActivity(user, followActivity, follow.id)
+        : this.activityPubService.buildRejectActivity(user, followActivity, follow.id)
+
+      const remoteActor = await this.remoteActorService.fetchActor(follow.actorId)
+      await this.deliveryQueue.enqueue(activity, [remoteActor.inbox], user.id)
+      void this.deliveryQueue.processDue()
+
+    } catch (error) {
+      federationLogger.error('Failed to answer follow request', {
+        decision,
+        followId: follow.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  /**
+   * Build a creator's outbox collection or one of its pages
+   * @param username - Local username
+   * @param page - 1-based page number; omit for the collection summary
+   * @returns Promise<OutboxServiceResult> OrderedCollection(Page) or error code
+   */
+  async getOutbox(username: string, page?: number): Promise<OutboxServiceResult> {
+    try {
+      // A renamed creator keeps the actor URI, and so the outbox, they federated under
+      const user = await this.userRepository.findByUsername(username)
+        ?? await this.userRepository.findByActorId(this.activityPubService.getActorUri(username))
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        }
+      }
+
+      if (user.isActive === false) {
+        return {
+          success: false,
+          error: 'User account is no longer active',
+          code: 'USER_INACTIVE'
+        }
+      }
+
+      if (!user.actorId) {
+        return {
+          success: false,
+          error: 'User has no ActivityPub actor',
+          code: 'ACTOR_NOT_FOUND'
+        }
+      }
+
+      if (page === undefined) {
+        const { totalCount } = await this.postRepository.findPublished({ authorId: user.id, limit: 1 })
+        return {
+          success: true,
+          data: this.activityPubService.buildOutboxCollection(username, totalCount)
+        }
+      }
+
+      const { posts, hasMore } = await this.postRepository.findPublished({
+        authorId: user.id,
+        offset: (page - 1) * OUTBOX_PAGE_SIZE,
+        limit: OUTBOX_PAGE_SIZE
+      })
+
+      return {
+        success: true,
+        data: this.activityPubService.buildOutboxPage(username, posts, page, hasMore)
+      }
+
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to load outbox',
+        code: 'INTERNAL_ERROR'
+      }
+    }
+  }
+
+  /**
+   * Queue an activity for every remote follower of the author
+   * Followers on the same server share one delivery through their shared inbox
+   * @param activity - Activity to deliver
+   * @param authorId - Local author whose key signs the deliveries
+   */
+  private async deliverToFollowers(activity: ActivityPubActivity, authorId: string): Promise<void> {
+    const actorIds = await this.followRepository.findRemoteFollowerActorIds(authorId)
+    if (actorIds.length === 0) {
+      return
+    }
+
+    const inboxes = new Set<string>()
+    for (const actorId of actorIds) {
+      try {
+        const actor = await this.remoteActorService.fetchActor(actorId)
+        inboxes.add(actor.sharedInbox || actor.inbox)
+      } catch (error) {
+        federationLogger.warn('Skipping follower whose actor could not be fetched', {
+          actorId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    const queued = await this.deliveryQueue.enqueue(activity, inboxes, authorId)
+    federationLogger.info('Queued activity for delivery', {
+      activityId: activity.id,
+      type: activity.type,
+      inboxes: queued
+    })
+
+    // Start delivering right away instead of waiting for the next poll
+    void this.deliveryQueue.processDue()
+  }
+
+  /**
+   * Log a federation failure without interrupting the caller
+   * @param type - Activity type being sent
+   * @param postId - Affected post ID
+   * @param error - Caught error
+   */
+  private logFailure(type: string, postId: string, error: unknown): void {
+    federationLogger.error('Failed to federate post', {
+      type,
+      postId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+// Export types for use in other files
+export type {
+  AnsweredFollow,
+  DeletedPost,
+  OutboxServiceResult
+}
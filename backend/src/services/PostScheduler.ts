@@ -0,0 +1,197 @@
+// backend/src/services/PostScheduler.ts
+// Version: 1.1.0 - Background publishing of scheduled posts under a Postgres advisory lock
+// Changed: Export the system clock shared by the background jobs
+
+import { PrismaClient } from '@prisma/client'
+import { PostRepository } from '../repositories/PostRepository'
+import { SchedulerConfig } from '../config/scheduler'
+import { withAdvisoryLock } from '../utils/advisoryLock'
+import { schedulerLogger } from '../utils/logger'
+
+/**
+ * Post that the scheduler just made public
+ */
+interface ScheduledPostPublished {
+  id: string
+  authorId: string
+}
+
+/**
+ * Callback run for each post after its publish has been committed
+ */
+type PostPublishedHook = (post: ScheduledPostPublished) => Promise<void> | void
+
+/**
+ * Time source and timer functions
+ * Injected so tests can drive the scheduler with a fake clock
+ */
+interface SchedulerClock {
+  now(): Date
+  setInterval(callback: () => void, ms: number): unknown
+  clearInterval(handle: unknown): void
+}
+
+/**
+ * Outcome of a single scheduler run
+ */
+interface SchedulerRunResult {
+  status: 'completed' | 'skipped' | 'failed'
+  published: number
+}
+
+/**
+ * Real clock backed by Node timers, shared by every background job
+ * Timers are unref'd so no job keeps the process alive
+ */
+export const systemClock: SchedulerClock = {
+  now: () => new Date(),
+  setInterval: (callback, ms) => {
+    const timer = setInterval(callback, ms)
+    timer.unref()
+    return timer
+  },
+  clearInterval: handle => clearInterval(handle as NodeJS.Timeout)
+}
+
+/**
+ * PostScheduler class
+ * Periodically publishes posts whose scheduledFor time has passed.
+ * Every instance runs the timer, but only the one holding the advisory lock
+ * publishes in a given run, so posts are never published twice.
+ */
+export class PostScheduler {
+  private timer: unknown = null
+  private currentRun: Promise<SchedulerRunResult> | null = null
+
+  constructor(
+    private prisma: PrismaClient,
+    private hooks: PostPublishedHook[],
+    private config: SchedulerConfig,
+    private clock: SchedulerClock = systemClock
+  ) {}
+
+  /**
+   * Start the periodic timer and run once immediately to catch up on overdue posts
+   * Does nothing when the scheduler is disabled or already running
+   */
+  start(): void {
+    if (!this.config.enabled || this.timer) {
+      return
+    }
+
+    this.timer = this.clock.setInterval(() => {
+      void this.runOnce()
+    }, this.config.intervalMs)
+
+    schedulerLogger.info('Post scheduler started', { intervalMs: this.config.intervalMs })
+    void this.runOnce()
+  }
+
+  /**
+   * Stop the timer and wait for an in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      this.clock.clearInterval(this.timer)
+      this.timer = null
+      schedulerLogger.info('Post scheduler stopped')
+    }
+
+    if (this.currentRun) {
+      await this.currentRun
+    }
+  }
+
+  /**
+   * Check whether the periodic timer is active
+   * @returns boolean True between start() and stop()
+   */
+  isRunning(): boolean {
+    return this.timer !== null
+  }
+
+  /**
+   * Publish every post that is due, then fire the post-published hooks
+   * A run that overlaps a previous one is skipped
+   * @returns Promise<SchedulerRunResult> What the run did
+   */
+  async runOnce(): Promise<SchedulerRunResult> {
+    if (this.currentRun) {
+      return { status: 'skipped', published: 0 }
+    }
+
+    this.currentRun = this.publishDuePosts()
+    try {
+      return await this.currentRun
+    } finally {
+      this.currentRun = null
+    }
+  }
+
+  /**
+   * Publish due posts while holding the advisory lock
+   * Hooks run after the transaction commits so they see the published rows
+   * @returns Promise<SchedulerRunResult> What the run did
+   */
+  private async publishDuePosts(): Promise<SchedulerRunResult> {
+    const startedAt = this.clock.now()
+
+    try {
+      const outcome = await withAdvisoryLock(this.prisma, this.config.lockKey, async tx => {
+        // Repositories take any Prisma client; the transaction client keeps the lock's connection
+        const postRepository = new PostRepository(tx as unknown as PrismaClient)
+        return await postRepository.publishExpiredScheduled(this.config.batchSize, startedAt)
+      })
+
+      if (!outcome.acquired) {
+        schedulerLogger.debug('Scheduler lock held by another instance, skipping run')
+        return { status: 'skipped', published: 0 }
+      }
+
+      const posts: ScheduledPostPublished[] = outcome.result
+      for (const post of posts) {
+        await this.runHooks(post)
+      }
+
+      schedulerLogger.info('Scheduled post run completed', {
+        published: posts.length,
+        postIds: posts.map(post => post.id),
+        durationMs: this.clock.now().getTime() - startedAt.getTime()
+      })
+
+      return { status: 'completed', published: posts.length }
+
+    } catch (error) {
+      schedulerLogger.error('Scheduled post run failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return { status: 'failed', published: 0 }
+    }
+  }
+
+  /**
+   * Run every hook for a published post
+   * A failing hook is logged and does not stop the others
+   * @param post - Post that was published
+   */
+  private async runHooks(post: ScheduledPostPublished): Promise<void> {
+    for (const hook of this.hooks) {
+      try {
+        await hook(post)
+      } catch (error) {
+        schedulerLogger.error('Post published hook failed', {
+          postId: post.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  PostPublishedHook,
+  ScheduledPostPublished,
+  SchedulerClock,
+  SchedulerRunResult
+}
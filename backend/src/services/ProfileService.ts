@@ -0,0 +1,270 @@
+// backend/src/services/ProfileService.ts
+// Version: 1.3.1 - Profile editing and avatar processing for the signed-in user
+// Changed: Avatars are written through the StorageProvider so every instance can serve them
+// Changed: A new username must not map to an actor URI another account still federates under
+
+import sharp from 'sharp'
+import { User } from '../models/User'
+import { UserRepository, UserUpdateData } from '../repositories/UserRepository'
+import { OutboxService } from './OutboxService'
+import { ActivityPubService } from './ActivityPubService'
+import { StorageProvider, StoredObject } from './StorageProvider'
+import { AVATAR_SIZES } from '../utils/constants'
+
+/**
+ * Public path avatars are served from
+ */
+const AVATAR_URL_PATH = '/uploads/avatars'
+
+/**
+ * Storage key prefix avatar files are kept under
+ */
+const AVATAR_KEY_PREFIX = 'avatars'
+
+/**
+ * Name of one stored avatar size, as it appears in the avatar URL
+ */
+const AVATAR_FILENAME_PATTERN = /^([\w-]+)-\d+\.webp$/
+
+/**
+ * Profile fields a user can change, as validated by UserSchemas.updateProfile
+ */
+interface ProfileUpdate {
+  username?: string | undefined
+  displayName?: string | undefined
+  bio?: string | undefined
+  website?: string | undefined
+  approveFollowers?: boolean | undefined
+  autoExpandLabels?: string[] | undefined
+}
+
+/**
+ * Square region of the uploaded image to keep, in pixels of the upright image
+ */
+interface AvatarCrop {
+  x: number
+  y: number
+  size: number
+}
+
+/**
+ * Profile service result interface
+ */
+interface ProfileServiceResult<T = User> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * ProfileService class
+ * Applies profile edits and avatar uploads for the signed-in user, then lets
+ * remote followers know through an Update{Person}. Avatars are cropped square
+ * and written as WebP at every size in AVATAR_SIZES through the StorageProvider,
+ * so an avatar saved on one instance can be served by any other.
+ */
+export class ProfileService {
+  constructor(
+    private userRepository: UserRepository,
+    private storage: StorageProvider,
+    private outboxService?: OutboxService,
+    private activityPubService?: ActivityPubService
+  ) {}
+
+  /**
+   * Get the signed-in user's profile
+   * @param userId - User ID
+   * @returns Promise<ProfileServiceResult> User, or USER_NOT_FOUND
+   */
+  async getProfile(userId: string): Promise<ProfileServiceResult> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    return { success: true, data: user }
+  }
+
+  /**
+   * Update profile fields
+   * An empty website clears it; a new username must not belong to anyone else
+   * @param userId - User ID
+   * @param update - Validated profile fields
+   * @returns Promise<ProfileServiceResult> Updated user, or USER_NOT_FOUND or USERNAME_TAKEN
+   */
+  async updateProfile(userId: string, update: ProfileUpdate): Promise<ProfileServiceResult> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    const data: UserUpdateData = {
+      ...(update.displayName !== undefined && { displayName: update.displayName }),
+      ...(update.bio !== undefined && { bio: update.bio }),
+      ...(update.website !== undefined && { website: update.website || null }),
+      ...(update.approveFollowers !== undefined && { approveFollowers: update.approveFollowers }),
+      ...(update.autoExpandLabels !== undefined && { autoExpandLabels: update.autoExpandLabels })
+    }
+
+    // Renamed accounts keep their old actor URI, so that URI keeps the old name reserved
+    const actorId = update.username !== undefined
+      ? this.activityPubService?.getActorUri(update.username)
+      : undefined
+
+    if (update.username !== undefined && update.username !== user.username) {
+      if (!await this.userRepository.isUsernameAvailable(update.username, userId, actorId)) {
+        return { success: false, error: 'Username is already taken', code: 'USERNAME_TAKEN' }
+      }
+      data.username = update.username
+    }
+
+    const updated = await this.userRepository.update(userId, data)
+    if (!updated) {
+      // Someone may have claimed the username between the check and the write
+      if (data.username && !await this.userRepository.isUsernameAvailable(data.username, userId, actorId)) {
+        return { success: false, error: 'Username is already taken', code: 'USERNAME_TAKEN' }
+      }
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    // Reading preferences stay on this server; anything else changes the actor remote servers see
+    if (Object.keys(data).some(key => key !== 'autoExpandLabels')) {
+      this.federate(userId)
+    }
+    return { success: true, data: updated }
+  }
+
+  /**
+   * Replace the user's avatar with an uploaded image
+   * The image is turned upright, cropped to a square (the centre when no crop
+   * is given) and stored at every size in AVATAR_SIZES. The previous avatar's
+   * files are removed once the new one is saved.
+   * @param userId - User ID
+   * @param image - Uploaded image bytes
+   * @param crop - Optional square region to keep
+   * @returns Promise<ProfileServiceResult> Updated user, or USER_NOT_FOUND, INVALID_IMAGE or INVALID_CROP
+   */
+  async updateAvatar(userId: string, image: Buffer, crop?: AvatarCrop): Promise<ProfileServiceResult> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    let upright: Buffer
+    let width: number
+    let height: number
+    try {
+      const { data, info } = await sharp(image).rotate().toBuffer({ resolveWithObject: true })
+      upright = data
+      width = info.width
+      height = info.height
+    } catch (error) {
+      return { success: false, error: 'File is not a supported image', code: 'INVALID_IMAGE' }
+    }
+
+    const region = crop ?? {
+      x: Math.floor((width - Math.min(width, height)) / 2),
+      y: Math.floor((height - Math.min(width, height)) / 2),
+      size: Math.min(width, height)
+    }
+    if (region.x + region.size > width || region.y + region.size > height) {
+      return { success: false, error: 'Crop area is outside the image', code: 'INVALID_CROP' }
+    }
+
+    const baseName = `${userId}-${Date.now()}`
+    const keys = AVATAR_SIZES.map(size => this.getAvatarKey(baseName, size))
+
+    try {
+      for (const [index, size] of AVATAR_SIZES.entries()) {
+        const rendered = await sharp(upright)
+          .extract({ left: region.x, top: region.y, width: region.size, height: region.size })
+          .resize(size, size)
+          .webp({ quality: 85 })
+          .toBuffer()
+        await this.storage.put(keys[index] as string, rendered, 'image/webp')
+      }
+    } catch (error) {
+      await this.removeFiles(keys)
+      throw error
+    }
+
+    const updated = await this.userRepository.update(userId, {
+      avatar: `${AVATAR_URL_PATH}/${baseName}-${AVATAR_SIZES[0]}.webp`
+    })
+    if (!updated) {
+      await this.removeFiles(keys)
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    await this.removeAvatar(user.avatar)
+    this.federate(userId)
+    return { success: true, data: updated }
+  }
+
+  /**
+   * Open one stored avatar size for serving
+   * @param filename - File name from the avatar URL, e.g. "user123-1700000000000-400.webp"
+   * @returns Promise<StoredObject | null> Avatar stream, or null for unknown or malformed names
+   */
+  async openAvatar(filename: string): Promise<StoredObject | null> {
+    if (!AVATAR_FILENAME_PATTERN.test(filename)) {
+      return null
+    }
+
+    return this.storage.get(`${AVATAR_KEY_PREFIX}/${filename}`)
+  }
+
+  /**
+   * Delete the files behind an avatar this service stored
+   * Avatars set some other way, such as an external URL, are left alone
+   * @param avatar - Previous User.avatar value
+   */
+  private async removeAvatar(avatar: string | null): Promise<void> {
+    if (!avatar?.startsWith(`${AVATAR_URL_PATH}/`)) {
+      return
+    }
+
+    const match = avatar.slice(AVATAR_URL_PATH.length + 1).match(AVATAR_FILENAME_PATTERN)
+    if (!match) {
+      return
+    }
+
+    await this.removeFiles(AVATAR_SIZES.map(size => this.getAvatarKey(match[1] as string, size)))
+  }
+
+  /**
+   * Delete stored files, ignoring any that are already gone
+   * @param keys - Storage keys
+   */
+  private async removeFiles(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(key => this.storage.delete(key).catch(() => undefined)))
+  }
+
+  /**
+   * Build the storage key for one avatar size
+   * @param baseName - Name shared by every size of the avatar
+   * @param size - Edge length in pixels
+   * @returns Storage key under the avatar prefix
+   */
+  private getAvatarKey(baseName: string, size: number): string {
+    return `${AVATAR_KEY_PREFIX}/${baseName}-${size}.webp`
+  }
+
+  /**
+   * Send the changed profile to remote followers without waiting for delivery
+   * @param userId - User whose profile changed
+   */
+  private federate(userId: string): void {
+    if (this.outboxService) {
+      void this.outboxService.updateProfile(userId)
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  ProfileUpdate,
+  AvatarCrop,
+  ProfileServiceResult
+}
@@ -0,0 +1,470 @@
+// backend/src/services/RateLimitStore.ts
+// Version: 1.1.0 - Rate limit state in process memory, Postgres or a Redis-protocol server
+// Changed: Postgres cleanup failures are logged through the database logger
+// Changed: A negative cost refunds requests consumed earlier
+
+import { PrismaClient, Prisma } from '@prisma/client'
+import Redis from 'ioredis'
+import { RateLimitAlgorithm, RateLimitPolicy, RateLimitSettings } from '../config/rateLimit'
+import { dbLogger } from '../utils/logger'
+
+/**
+ * A policy together with the algorithm that enforces it
+ */
+interface RateLimitRule extends RateLimitPolicy {
+  algorithm: RateLimitAlgorithm
+}
+
+/**
+ * Sliding window counter: requests in the current fixed window plus the
+ * previous window's count, weighted by how much of it still overlaps
+ */
+interface SlidingWindowState {
+  type: 'sliding-window'
+  windowStart: number
+  previous: number
+  current: number
+}
+
+/**
+ * Token bucket: tokens left and when they were last topped up
+ */
+interface TokenBucketState {
+  type: 'token-bucket'
+  tokens: number
+  updatedAt: number
+}
+
+type RateLimitState = SlidingWindowState | TokenBucketState
+
+/**
+ * Outcome of consuming from a rate limit
+ * resetMs is how long until the full limit is available again
+ */
+interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetMs: number
+  retryAfterMs: number
+}
+
+/**
+ * RateLimitStore interface
+ * consume applies the rule atomically, so instances sharing a store enforce
+ * one limit between them. A cost of 0 reads the limit without using it; a
+ * negative cost gives back requests consumed earlier and is always allowed.
+ */
+interface RateLimitStore {
+  consume(key: string, rule: RateLimitRule, now: number, cost?: number): Promise<RateLimitResult>
+  reset(key: string): Promise<void>
+  // Only the memory store can cheaply forget every key; used by tests
+  clear?(): Promise<void>
+  close?(): Promise<void>
+}
+
+/**
+ * Advance a rate limit's state to now and try to consume from it
+ * The Redis store runs the same steps in Lua; keep the two in step
+ * @param state - Stored state, or null for a new or expired key
+ * @param rule - Limit and algorithm
+ * @param now - Current time in milliseconds
+ * @param cost - Requests to consume; negative to refund them
+ * @returns New state and whether the requests were allowed
+ */
+export function advanceRateLimit(
+  state: RateLimitState | null,
+  rule: RateLimitRule,
+  now: number,
+  cost: number
+): { state: RateLimitState, allowed: boolean } {
+  if (rule.algorithm === 'token-bucket') {
+    const ratePerMs = rule.max / rule.windowMs
+    let tokens = rule.max
+    if (state?.type === 'token-bucket') {
+      tokens = Math.min(rule.max, state.tokens + Math.max(0, now - state.updatedAt) * ratePerMs)
+    }
+
+    const allowed = tokens >= cost
+    return {
+      state: { type: 'token-bucket', tokens: allowed ? Math.min(rule.max, tokens - cost) : tokens, updatedAt: now },
+      allowed
+    }
+  }
+
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs
+  let previous = 0
+  let current = 0
+  if (state?.type === 'sliding-window') {
+    if (state.windowStart === windowStart) {
+      previous = state.previous
+      current = state.current
+    } else if (state.windowStart === windowStart - rule.windowMs) {
+      previous = state.current
+    }
+  }
+
+  const weight = (rule.windowMs - (now - windowStart)) / rule.windowMs
+  // A refund for a request counted in an earlier window has nothing left to give back
+  const allowed = cost < 0 || previous * weight + current + cost <= rule.max
+  return {
+    state: { type: 'sliding-window', windowStart, previous, current: allowed ? Math.max(0, current + cost) : current },
+    allowed
+  }
+}
+
+/**
+ * Work out the remaining allowance and wait times for an advanced state
+ * @param state - State returned by advanceRateLimit
+ * @param allowed - Whether the requests were allowed
+ * @param rule - Limit and algorithm
+ * @param now - Current time in milliseconds
+ * @param cost - Requests that were consumed
+ * @returns Result to report, and when the state can be forgotten
+ */
+export function describeRateLimit(
+  state: RateLimitState,
+  allowed: boolean,
+  rule: RateLimitRule,
+  now: number,
+  cost: number
+): { result: RateLimitResult, expiresAt: number } {
+  if (state.type === 'token-bucket') {
+    const ratePerMs = rule.max / rule.windowMs
+    const resetMs = Math.ceil((rule.max - state.tokens) / ratePerMs)
+    return {
+      result: {
+        allowed,
+        limit: rule.max,
+        remaining: Math.floor(state.tokens),
+        resetMs,
+        retryAfterMs: allowed ? 0 : Math.ceil((cost - state.tokens) / ratePerMs)
+      },
+      expiresAt: now + resetMs
+    }
+  }
+
+  const { windowStart, previous, current } = state
+  const elapsed = now - windowStart
+  const used = previous * (rule.windowMs - elapsed) / rule.windowMs + current
+
+  // The previous window's weight reaches zero at the end of this window;
+  // this window's requests carry on counting through the next one
+  const windowEnd = windowStart + rule.windowMs
+  const resetAt = current > 0 ? windowEnd + rule.windowMs : previous > 0 ? windowEnd : now
+
+  let retryAfterMs = 0
+  if (!allowed) {
+    const spare = rule.max - current - cost
+    if (spare >= 0 && previous > 0) {
+      // Wait for the previous window's weight to fall far enough within this window
+      retryAfterMs = Math.ceil(rule.windowMs * (1 - spare / previous)) - elapsed
+    } else {
+      // Wait for the next window, where this window's requests are the weighted ones
+      const nextSpare = rule.max - cost
+      retryAfterMs = (windowEnd - now) +
+        (current > 0 ? Math.max(0, Math.ceil(rule.windowMs * (1 - nextSpare / current))) : 0)
+    }
+  }
+
+  return {
+    result: {
+      allowed,
+      limit: rule.max,
+      remaining: Math.max(0, Math.floor(rule.max - used)),
+      resetMs: resetAt - now,
+      retryAfterMs: Math.max(0, retryAfterMs)
+    },
+    expiresAt: windowEnd + rule.windowMs
+  }
+}
+
+/**
+ * MemoryRateLimitStore class
+ * Keeps state in this process, so limits reset on restart and are per instance.
+ * Suitable for development, tests and single-instance deployments.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { state: RateLimitState, expiresAt: number }>()
+
+  /**
+   * Apply a rule to a key
+   * @param key - Client key
+   * @param rule - Limit and algorithm
+   * @param now - Current time in milliseconds
+   * @param cost - Requests to consume; 0 reads without consuming, negative refunds
+   * @returns Promise<RateLimitResult> Whether the requests were allowed
+   */
+  async consume(key: string, rule: RateLimitRule, now: number, cost = 1): Promise<RateLimitResult> {
+    // Clean up expired entries periodically
+    if (Math.random() < 0.01) {
+      this.removeExpired(now)
+    }
+
+    const bucket = this.buckets.get(key)
+    const advanced = advanceRateLimit(bucket && bucket.expiresAt > now ? bucket.state : null, rule, now, cost)
+    const { result, expiresAt } = describeRateLimit(advanced.state, advanced.allowed, rule, now, cost)
+
+    this.buckets.set(key, { state: advanced.state, expiresAt })
+    return result
+  }
+
+  /**
+   * Forget a key's state
+   * @param key - Client key
+   */
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key)
+  }
+
+  /**
+   * Forget every key's state
+   */
+  async clear(): Promise<void> {
+    this.buckets.clear()
+  }
+
+  /**
+   * Drop state that has returned to its initial value
+   * @param now - Current time in milliseconds
+   */
+  private removeExpired(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAt <= now) {
+        this.buckets.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * PostgresRateLimitStore class
+ * Keeps state in the rate_limit_buckets table. Each consume locks its row
+ * for the duration of a short transaction, so instances never race on a key.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(
+    private prisma: PrismaClient,
+    private keyPrefix = ''
+  ) {}
+
+  /**
+   * Apply a rule to a key inside a transaction holding the key's row lock
+   * @param key - Client key
+   * @param rule - Limit and algorithm
+   * @param now - Current time in milliseconds
+   * @param cost - Requests to consume; 0 reads without consuming, negative refunds
+   * @returns Promise<RateLimitResult> Whether the requests were allowed
+   */
+  async consume(key: string, rule: RateLimitRule, now: number, cost = 1): Promise<RateLimitResult> {
+    const bucketKey = this.keyPrefix + key
+
+    // Clean up expired rows periodically
+    if (Math.random() < 0.01) {
+      void this.removeExpired(now).catch(error => {
+        dbLogger.error('Failed to remove expired rate limit buckets', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      })
+    }
+
+    return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.$executeRaw`
+        INSERT INTO rate_limit_buckets (key, state, "expiresAt")
+        VALUES (${bucketKey}, 'null'::jsonb, to_timestamp(0))
+        ON CONFLICT (key) DO NOTHING`
+
+      const rows = await tx.$queryRaw<Array<{ state: RateLimitState | null, expiresAt: Date }>>`
+        SELECT state, "expiresAt" FROM rate_limit_buckets WHERE key = ${bucketKey} FOR UPDATE`
+      const row = rows[0]
+
+      const advanced = advanceRateLimit(
+        row && row.expiresAt.getTime() > now ? row.state : null,
+        rule,
+        now,
+        cost
+      )
+      const { result, expiresAt } = describeRateLimit(advanced.state, advanced.allowed, rule, now, cost)
+
+      await tx.$executeRaw`
+        UPDATE rate_limit_buckets
+        SET state = ${JSON.stringify(advanced.state)}::jsonb, "expiresAt" = ${new Date(expiresAt)}
+        WHERE key = ${bucketKey}`
+
+      return result
+    })
+  }
+
+  /**
+   * Forget a key's state
+   * @param key - Client key
+   */
+  async reset(key: string): Promise<void> {
+    await this.prisma.$executeRaw`DELETE FROM rate_limit_buckets WHERE key = ${this.keyPrefix + key}`
+  }
+
+  /**
+   * Delete rows whose state has returned to its initial value
+   * @param now - Current time in milliseconds
+   * @returns Promise<number> Number of rows deleted
+   */
+  async removeExpired(now: number): Promise<number> {
+    return await this.prisma.$executeRaw`
+      DELETE FROM rate_limit_buckets WHERE "expiresAt" <= ${new Date(now)}`
+  }
+}
+
+/**
+ * Sliding window step for the Redis store, mirroring advanceRateLimit
+ * Window starts are passed in and compared as strings, so Lua never formats
+ * millisecond timestamps as floats
+ * KEYS[1] bucket; ARGV window start, previous window start, weight, max, cost, time to live
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local stored = redis.call('HMGET', KEYS[1], 'windowStart', 'previous', 'current')
+local previous = 0
+local current = 0
+if stored[1] == ARGV[1] then
+  previous = tonumber(stored[2]) or 0
+  current = tonumber(stored[3]) or 0
+elseif stored[1] == ARGV[2] then
+  previous = tonumber(stored[3]) or 0
+end
+local cost = tonumber(ARGV[5])
+local allowed = 0
+if cost < 0 or previous * tonumber(ARGV[3]) + current + cost <= tonumber(ARGV[4]) then
+  allowed = 1
+  current = math.max(0, current + cost)
+end
+redis.call('HSET', KEYS[1], 'windowStart', ARGV[1], 'previous', previous, 'current', current)
+redis.call('PEXPIRE', KEYS[1], ARGV[6])
+return {allowed, tostring(previous), tostring(current)}
+`
+
+/**
+ * Token bucket step for the Redis store, mirroring advanceRateLimit
+ * KEYS[1] bucket; ARGV max, tokens per millisecond, now, cost
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local stored = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local max = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local storedTokens = tonumber(stored[1])
+local storedAt = tonumber(stored[2])
+local tokens = max
+if storedTokens and storedAt then
+  local elapsed = math.max(0, tonumber(ARGV[3]) - storedAt)
+  tokens = math.min(max, storedTokens + elapsed * rate)
+end
+local allowed = 0
+if tokens >= tonumber(ARGV[4]) then
+  allowed = 1
+  tokens = math.min(max, tokens - tonumber(ARGV[4]))
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', ARGV[3])
+redis.call('PEXPIRE', KEYS[1], math.ceil((max - tokens) / rate) + 1)
+return {allowed, tostring(tokens)}
+`
+
+/**
+ * RedisRateLimitStore class
+ * Keeps state in hashes on a Redis-protocol server (Redis, Valkey, KeyDB and
+ * similar). Each consume is one Lua script, which the server runs atomically.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private client: Redis,
+    private keyPrefix = ''
+  ) {}
+
+  /**
+   * Apply a rule to a key with a single script call
+   * @param key - Client key
+   * @param rule - Limit and algorithm
+   * @param now - Current time in milliseconds
+   * @param cost - Requests to consume; 0 reads without consuming, negative refunds
+   * @returns Promise<RateLimitResult> Whether the requests were allowed
+   */
+  async consume(key: string, rule: RateLimitRule, now: number, cost = 1): Promise<RateLimitResult> {
+    const bucketKey = this.keyPrefix + key
+    let state: RateLimitState
+    let allowed: boolean
+
+    if (rule.algorithm === 'token-bucket') {
+      const reply = await this.client.eval(
+        TOKEN_BUCKET_SCRIPT, 1, bucketKey,
+        rule.max, rule.max / rule.windowMs, now, cost
+      ) as [number, string]
+
+      allowed = reply[0] === 1
+      state = { type: 'token-bucket', tokens: Number(reply[1]), updatedAt: now }
+    } else {
+      const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs
+      const reply = await this.client.eval(
+        SLIDING_WINDOW_SCRIPT, 1, bucketKey,
+        windowStart,
+        windowStart - rule.windowMs,
+        (rule.windowMs - (now - windowStart)) / rule.windowMs,
+        rule.max,
+        cost,
+        // Relative, so the expiry holds even if the server's clock differs from ours
+        windowStart + 2 * rule.windowMs - now
+      ) as [number, string, string]
+
+      allowed = reply[0] === 1
+      state = { type: 'sliding-window', windowStart, previous: Number(reply[1]), current: Number(reply[2]) }
+    }
+
+    return describeRateLimit(state, allowed, rule, now, cost).result
+  }
+
+  /**
+   * Forget a key's state
+   * @param key - Client key
+   */
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key)
+  }
+
+  /**
+   * Close the connection
+   */
+  async close(): Promise<void> {
+    await this.client.quit()
+  }
+}
+
+/**
+ * Create the rate limit store selected by configuration
+ * @param settings - Rate limit configuration
+ * @param prisma - Database client, used by the postgres store
+ * @returns RateLimitStore Store for the configured driver
+ */
+export function createRateLimitStore(settings: RateLimitSettings, prisma: PrismaClient): RateLimitStore {
+  switch (settings.store) {
+    case 'postgres':
+      return new PostgresRateLimitStore(prisma, settings.keyPrefix)
+    case 'redis':
+      if (!settings.redisUrl) {
+        throw new Error('Redis rate limit store selected without a URL')
+      }
+      return new RedisRateLimitStore(
+        // Fail fast while the server is unreachable; the middleware lets requests through
+        new Redis(settings.redisUrl, { maxRetriesPerRequest: 1, enableOfflineQueue: false }),
+        settings.keyPrefix
+      )
+    case 'memory':
+    default:
+      return new MemoryRateLimitStore()
+  }
+}
+
+// Export types for use in other files
+export type {
+  RateLimitRule,
+  RateLimitState,
+  SlidingWindowState,
+  TokenBucketState,
+  RateLimitResult,
+  RateLimitStore
+}
@@ -0,0 +1,231 @@
+// backend/src/services/RateLimitTierService.ts
+// Version: 1.0.0 - Per-user rate limits from verification tier, role and admin overrides
+
+import {
+  RATE_LIMIT_POLICIES,
+  RATE_LIMIT_ROLE_MULTIPLIERS,
+  RATE_LIMIT_TIER_MULTIPLIERS,
+  RateLimitPolicy,
+  USER_RATE_LIMIT_POLICIES,
+  UserRateLimitPolicyName
+} from '../config/rateLimit'
+import { isVerificationTier, UserRole, VerificationTier } from '../models/User'
+import { UserRepository } from '../repositories/UserRepository'
+import { RateLimitOverrideRepository, RateLimitOverride } from '../repositories/RateLimitOverrideRepository'
+import { authLogger } from '../utils/logger'
+
+/**
+ * Rate limit tier service result interface
+ */
+interface RateLimitTierServiceResult<T = undefined> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * Limit that applies to a user for one policy
+ * source says whether it comes from their tier and role or an admin override
+ */
+interface UserRateLimit extends RateLimitPolicy {
+  source: 'tier' | 'override'
+  expiresAt: Date | null
+}
+
+/**
+ * Every per-user limit for a user, with what they were worked out from
+ */
+interface UserRateLimits {
+  userId: string
+  verificationTier: VerificationTier
+  role: UserRole
+  multiplier: number
+  limits: Record<UserRateLimitPolicyName, UserRateLimit>
+}
+
+/**
+ * Limit an admin sets for a user
+ */
+interface RateLimitOverrideInput {
+  policy: UserRateLimitPolicyName
+  max: number
+  windowMs?: number | undefined
+  expiresAt?: Date | undefined
+  reason?: string | undefined
+}
+
+/**
+ * RateLimitTierService class
+ * Works out each user's limits: the policy's max times the larger of their
+ * tier and role multipliers, unless an admin has set an override.
+ * Limits are looked up on every rate-limited request, so they are cached
+ * briefly; a change made on another instance applies once its cache expires.
+ */
+export class RateLimitTierService {
+  private cache = new Map<string, { limits: UserRateLimits, expiresAt: number }>()
+
+  constructor(
+    private userRepository: UserRepository,
+    private overrideRepository: RateLimitOverrideRepository,
+    private cacheTtlMs: number = 60 * 1000
+  ) {}
+
+  /**
+   * Get every per-user limit for a user
+   * @param userId - User ID
+   * @returns Promise<RateLimitTierServiceResult> Limits, or USER_NOT_FOUND
+   */
+  async getUserLimits(userId: string): Promise<RateLimitTierServiceResult<UserRateLimits>> {
+    const now = Date.now()
+    const cached = this.cache.get(userId)
+    if (cached && cached.expiresAt > now) {
+      return { success: true, data: cached.limits }
+    }
+
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      this.cache.delete(userId)
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    const verificationTier = isVerificationTier(user.verificationTier) ? user.verificationTier : 'none'
+    const multiplier = Math.max(
+      RATE_LIMIT_TIER_MULTIPLIERS[verificationTier],
+      RATE_LIMIT_ROLE_MULTIPLIERS[user.role]
+    )
+    const overrides = await this.overrideRepository.findActiveByUserId(userId, new Date(now))
+
+    const limits = {} as Record<UserRateLimitPolicyName, UserRateLimit>
+    for (const policy of USER_RATE_LIMIT_POLICIES) {
+      const base = RATE_LIMIT_POLICIES[policy]
+      const override = overrides.find(entry => entry.policy === policy)
+
+      limits[policy] = override
+        ? { windowMs: override.windowMs ?? base.windowMs, max: override.max, source: 'override', expiresAt: override.expiresAt }
+        : { windowMs: base.windowMs, max: base.max * multiplier, source: 'tier', expiresAt: null }
+    }
+
+    // Cache until the first override expires, so expired overrides stop applying on time
+    const expiresAt = Math.min(
+      now + this.cacheTtlMs,
+      ...overrides.flatMap(entry => entry.expiresAt ? [entry.expiresAt.getTime()] : [])
+    )
+    const data: UserRateLimits = { userId, verificationTier, role: user.role, multiplier, limits }
+    this.cache.set(userId, { limits: data, expiresAt })
+
+    return { success: true, data }
+  }
+
+  /**
+   * Get the limit that applies to a user for one policy
+   * Falls back to the policy's default when the user cannot be looked up,
+   * so rate limiting keeps working if the database is briefly unavailable
+   * @param userId - User ID
+   * @param policy - Policy name
+   * @returns Promise<RateLimitPolicy> Window and max
+   */
+  async resolvePolicy(userId: string, policy: UserRateLimitPolicyName): Promise<RateLimitPolicy> {
+    try {
+      const result = await this.getUserLimits(userId)
+      if (result.success && result.data) {
+        const { windowMs, max } = result.data.limits[policy]
+        return { windowMs, max }
+      }
+    } catch (error) {
+      console.error('Failed to resolve user rate limit:', error)
+    }
+
+    return RATE_LIMIT_POLICIES[policy]
+  }
+
+  /**
+   * List the overrides set for a user
+   * @param userId - User ID
+   * @returns Promise<RateLimitTierServiceResult> Overrides that have not expired, or USER_NOT_FOUND
+   */
+  async listOverrides(userId: string): Promise<RateLimitTierServiceResult<RateLimitOverride[]>> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    return { success: true, data: await this.overrideRepository.findActiveByUserId(userId) }
+  }
+
+  /**
+   * Set a user's limit for a policy, replacing their tier limit
+   * @param actorId - Admin making the change
+   * @param userId - User whose limit changes
+   * @param input - Policy, limit and optional window, expiry and reason
+   * @returns Promise<RateLimitTierServiceResult> Stored override, or USER_NOT_FOUND
+   */
+  async setOverride(
+    actorId: string,
+    userId: string,
+    input: RateLimitOverrideInput
+  ): Promise<RateLimitTierServiceResult<RateLimitOverride>> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    const override = await this.overrideRepository.upsert({
+      userId,
+      policy: input.policy,
+      max: input.max,
+      windowMs: input.windowMs ?? null,
+      reason: input.reason || null,
+      createdById: actorId,
+      expiresAt: input.expiresAt ?? null
+    })
+    this.cache.delete(userId)
+
+    authLogger.info('User rate limit overridden', {
+      userId,
+      actorId,
+      policy: input.policy,
+      max: input.max,
+      windowMs: override.windowMs,
+      expiresAt: override.expiresAt
+    })
+
+    return { success: true, data: override }
+  }
+
+  /**
+   * Remove a user's override, returning them to their tier limit
+   * @param actorId - Admin making the change
+   * @param userId - User whose limit changes
+   * @param policy - Policy name
+   * @returns Promise<RateLimitTierServiceResult> Success, or USER_NOT_FOUND or OVERRIDE_NOT_FOUND
+   */
+  async removeOverride(
+    actorId: string,
+    userId: string,
+    policy: UserRateLimitPolicyName
+  ): Promise<RateLimitTierServiceResult> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    const removed = await this.overrideRepository.delete(userId, policy)
+    this.cache.delete(userId)
+    if (!removed) {
+      return { success: false, error: `No ${policy} override is set for this user`, code: 'OVERRIDE_NOT_FOUND' }
+    }
+
+    authLogger.info('User rate limit override removed', { userId, actorId, policy })
+
+    return { success: true }
+  }
+}
+
+// Export types for use in other files
+export type {
+  RateLimitTierServiceResult,
+  UserRateLimit,
+  UserRateLimits,
+  RateLimitOverrideInput
+}
@@ -0,0 +1,249 @@
+// backend/src/services/RemoteActorService.ts
+// Version: 1.1.0 - Initial remote actor and public key fetching with in-memory cache
+// Changed: Actor documents must carry the id they were fetched from; only public https hosts are fetched
+
+import { RemoteActor, ActivityPubPublicKey } from '../types/ActivityPub'
+import { ACTIVITYPUB_CONTENT_TYPE, FEDERATION_TIMEOUT } from '../utils/constants'
+
+/**
+ * Fetch implementation used for outgoing requests
+ * Injected so tests can point the service at a local stand-in server
+ */
+type FetchFunction = typeof fetch
+
+/**
+ * Remote actor service options
+ */
+interface RemoteActorServiceOptions {
+  fetchFn?: FetchFunction
+  cacheTtlMs?: number
+  timeoutMs?: number
+}
+
+/**
+ * Cached actor entry
+ */
+interface CachedActor {
+  actor: RemoteActor
+  expiresAt: number
+}
+
+/**
+ * Default time remote actor documents are cached (1 hour)
+ */
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000
+
+/**
+ * RemoteActorService class
+ * Fetches actor documents from other instances to find their inboxes and
+ * the public keys used to verify their HTTP Signatures
+ */
+export class RemoteActorService {
+  private cache = new Map<string, CachedActor>()
+  private fetchFn: FetchFunction
+  private cacheTtlMs: number
+  private timeoutMs: number
+
+  constructor(options: RemoteActorServiceOptions = {}) {
+    this.fetchFn = options.fetchFn || fetch
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS
+    this.timeoutMs = options.timeoutMs ?? FEDERATION_TIMEOUT
+  }
+
+  /**
+   * Fetch a remote actor, using the cache when possible
+   * @param actorUri - Actor URI
+   * @param refresh - Bypass the cache (e.g. after a key rotation)
+   * @returns Promise<RemoteActor> Normalized actor document
+   * @throws Error if the actor cannot be fetched or is malformed
+   */
+  async fetchActor(actorUri: string, refresh: boolean = false): Promise<RemoteActor> {
+    const actorId = stripFragment(actorUri)
+
+    const cached = this.cache.get(actorId)
+    if (!refresh && cached && cached.expiresAt > Date.now()) {
+      return cached.actor
+    }
+
+    const document = await this.fetchDocument(actorId)
+    const actor = parseActor(document)
+    if (!actor) {
+      throw new Error(`Malformed actor document at ${actorId}`)
+    }
+
+    // A server may only speak for the URL it was asked about, otherwise any
+    // host could serve a document claiming to be someone else's actor
+    if (actor.id !== actorId) {
+      throw new Error(`Actor document at ${actorId} claims to be ${actor.id}`)
+    }
+
+    this.cache.set(actorId, { actor, expiresAt: Date.now() + this.cacheTtlMs })
+    return actor
+  }
+
+  /**
+   * Resolve a signature keyId to its owner and PEM key
+   * @param keyId - keyId from the Signature header, usually actorUri#main-key
+   * @param refresh - Bypass the cache
+   * @returns Promise<ActivityPubPublicKey> Key with owner actor URI
+   * @throws Error if the key cannot be resolved
+   */
+  async getPublicKey(keyId: string, refresh: boolean = false): Promise<ActivityPubPublicKey> {
+    const actor = await this.fetchActor(keyId, refresh)
+
+    // The key must be the one the actor advertises and must be owned by that actor
+    if (actor.publicKey.id !== keyId || actor.publicKey.owner !== actor.id) {
+      throw new Error(`Key ${keyId} does not belong to ${actor.id}`)
+    }
+
+    return actor.publicKey
+  }
+
+  /**
+   * Drop a cached actor, e.g. after it was deleted
+   * @param actorUri - Actor URI
+   */
+  evict(actorUri: string): void {
+    this.cache.delete(stripFragment(actorUri))
+  }
+
+  /**
+   * GET an ActivityStreams document
+   * @param url - Document URL
+   * @returns Promise<Record<string, unknown>> Parsed JSON body
+   */
+  private async fetchDocument(url: string): Promise<Record<string, unknown>> {
+    assertPublicHttpsUrl(url)
+
+    const response = await this.fetchFn(url, {
+      headers: { Accept: ACTIVITYPUB_CONTENT_TYPE },
+      signal: AbortSignal.timeout(this.timeoutMs)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Fetching ${url} failed with HTTP ${response.status}`)
+    }
+
+    return await response.json() as Record<string, unknown>
+  }
+}
+
+/**
+ * Remove the fragment from a URI (actorUri#main-key -> actorUri)
+ * @param uri - URI that may contain a fragment
+ * @returns URI without the fragment
+ */
+function stripFragment(uri: string): string {
+  const index = uri.indexOf('#')
+  return index === -1 ? uri : uri.slice(0, index)
+}
+
+/**
+ * Check that a URL is safe to fetch or deliver to
+ * Hosts are judged by name and IP literal only; names that resolve to
+ * private addresses are left to the network layer
+ * @param url - URL to check
+ * @throws Error if the URL is not https or points at a private host
+ */
+function assertPublicHttpsUrl(url: string): void {
+  const parsed = new URL(url)
+  if (parsed.protocol !== 'https:') {
+    throw new Error(`Unsupported actor URI protocol: ${parsed.protocol}`)
+  }
+  if (isPrivateHost(parsed.hostname)) {
+    throw new Error(`Refusing to fetch actor from private host ${parsed.hostname}`)
+  }
+}
+
+/**
+ * Check whether a hostname is loopback, link-local or in a private range
+ * @param hostname - Hostname from a parsed URL (IPv6 in brackets)
+ * @returns True for hosts that must never be fetched
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true
+  }
+
+  const ipv4 = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/)
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+  }
+
+  if (host.includes(':')) {
+    return host === '::' || host === '::1' ||
+      host.startsWith('fc') || host.startsWith('fd') || host.startsWith('fe80') ||
+      host.startsWith('::ffff:')
+  }
+
+  return false
+}
+
+/**
+ * Check whether a URL is a public https URL without throwing
+ * @param url - URL to check
+ * @returns True if the URL passes assertPublicHttpsUrl
+ */
+function isPublicHttpsUrl(url: string): boolean {
+  try {
+    assertPublicHttpsUrl(url)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Normalize a fetched actor document
+ * @param document - Raw JSON document
+ * @returns RemoteActor or null if required fields are missing
+ */
+function parseActor(document: Record<string, unknown>): RemoteActor | null {
+  const publicKey = document['publicKey'] as Partial<ActivityPubPublicKey> | undefined
+  const endpoints = document['endpoints'] as { sharedInbox?: unknown } | undefined
+
+  if (
+    typeof document['id'] !== 'string' ||
+    typeof document['inbox'] !== 'string' ||
+    !publicKey ||
+    typeof publicKey.id !== 'string' ||
+    typeof publicKey.owner !== 'string' ||
+    typeof publicKey.publicKeyPem !== 'string' ||
+    !isPublicHttpsUrl(document['inbox'])
+  ) {
+    return null
+  }
+
+  const actor: RemoteActor = {
+    id: document['id'],
+    inbox: document['inbox'],
+    publicKey: {
+      id: publicKey.id,
+      owner: publicKey.owner,
+      publicKeyPem: publicKey.publicKeyPem
+    }
+  }
+
+  if (endpoints && typeof endpoints.sharedInbox === 'string' && isPublicHttpsUrl(endpoints.sharedInbox)) {
+    actor.sharedInbox = endpoints.sharedInbox
+  }
+
+  if (typeof document['preferredUsername'] === 'string') {
+    actor.preferredUsername = document['preferredUsername']
+  }
+
+  return actor
+}
+
+// Export types for use in other files
+export type {
+  FetchFunction,
+  RemoteActorServiceOptions
+}
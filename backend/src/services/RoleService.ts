@@ -0,0 +1,122 @@
+// backend/src/services/RoleService.ts
+// Version: 1.0.0 - Audited role grants and revocations for moderators and admins
+
+import { USER_ROLES, UserRole } from '../models/User'
+import { UserRepository } from '../repositories/UserRepository'
+import { RoleChangeRepository, RoleChange } from '../repositories/RoleChangeRepository'
+import { SessionRepository } from '../repositories/SessionRepository'
+import { authLogger } from '../utils/logger'
+
+/**
+ * Role service result interface
+ */
+interface RoleServiceResult<T = undefined> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * Outcome of a role change
+ */
+interface RoleChangeOutcome {
+  userId: string
+  previousRole: UserRole
+  role: UserRole
+  sessionsRevoked: number
+}
+
+/**
+ * RoleService class
+ * Grants and revokes roles, recording an audit entry for each change.
+ * Roles travel in access tokens, so a demotion revokes the user's sessions;
+ * otherwise the old role would keep working until the token expired.
+ * Promotions take effect on the user's next login or token refresh.
+ */
+export class RoleService {
+  constructor(
+    private userRepository: UserRepository,
+    private roleChangeRepository: RoleChangeRepository,
+    private sessionRepository: SessionRepository
+  ) {}
+
+  /**
+   * Set a user's role
+   * @param actorId - Admin making the change, or null for changes made outside the API
+   * @param userId - User whose role changes
+   * @param role - New role
+   * @param reason - Optional note for the audit trail
+   * @returns Promise<RoleServiceResult> The change, or USER_NOT_FOUND, CANNOT_CHANGE_OWN_ROLE,
+   *   ROLE_UNCHANGED or ROLE_CONFLICT
+   */
+  async changeRole(
+    actorId: string | null,
+    userId: string,
+    role: UserRole,
+    reason?: string
+  ): Promise<RoleServiceResult<RoleChangeOutcome>> {
+    // Stops an admin from locking the instance out by demoting themselves
+    if (actorId && actorId === userId) {
+      return { success: false, error: 'You cannot change your own role', code: 'CANNOT_CHANGE_OWN_ROLE' }
+    }
+
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    if (user.role === role) {
+      return { success: false, error: `User already has the ${role} role`, code: 'ROLE_UNCHANGED' }
+    }
+
+    const change = await this.roleChangeRepository.applyChange({
+      userId,
+      actorId,
+      previousRole: user.role,
+      newRole: role,
+      reason: reason || null
+    })
+    if (!change) {
+      return { success: false, error: 'Role was changed by someone else. Please retry.', code: 'ROLE_CONFLICT' }
+    }
+
+    const demoted = USER_ROLES.indexOf(role) < USER_ROLES.indexOf(user.role)
+    const sessionsRevoked = demoted
+      ? await this.sessionRepository.revokeAllForUser(userId, 'role_revoked')
+      : 0
+
+    authLogger.info('User role changed', {
+      userId,
+      actorId,
+      previousRole: user.role,
+      role,
+      sessionsRevoked
+    })
+
+    return {
+      success: true,
+      data: { userId, previousRole: user.role, role, sessionsRevoked }
+    }
+  }
+
+  /**
+   * List the role changes made to a user
+   * @param userId - User ID
+   * @returns Promise<RoleServiceResult> Audit entries newest first, or USER_NOT_FOUND
+   */
+  async getRoleHistory(userId: string): Promise<RoleServiceResult<RoleChange[]>> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    return { success: true, data: await this.roleChangeRepository.findByUserId(userId) }
+  }
+}
+
+// Export types for use in other files
+export type {
+  RoleServiceResult,
+  RoleChangeOutcome
+}
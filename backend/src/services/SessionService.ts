@@ -0,0 +1,259 @@
+// backend/src/services/SessionService.ts
+// Version: 1.0.0 - Persisted sessions with rotating refresh tokens and reuse detection
+
+import crypto from 'crypto'
+import { AuthService, User } from './AuthService'
+import { SessionRepository, Session } from '../repositories/SessionRepository'
+import { UserRepository } from '../repositories/UserRepository'
+import { SessionTokenConfig } from '../config/sessions'
+import { authLogger } from '../utils/logger'
+
+/**
+ * Where a login or refresh came from
+ */
+interface SessionContext {
+  userAgent: string | null
+  ipAddress: string | null
+}
+
+/**
+ * Tokens handed to the client for a session
+ */
+interface SessionTokens {
+  sessionId: string
+  accessToken: string
+  refreshToken: string
+  expiresIn: number
+}
+
+/**
+ * Session as shown in the user's device list
+ */
+interface SessionSummary {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: Date
+  lastUsedAt: Date
+  expiresAt: Date
+  current: boolean
+}
+
+/**
+ * Session service result interface
+ */
+interface SessionServiceResult<T = unknown> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * Hash a refresh token for storage and lookup
+ * @param token - Refresh token as sent by the client
+ * @returns string Hex SHA-256 digest
+ */
+function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * SessionService class
+ * Every login creates a session row. Access tokens carry the session id as jti
+ * so revoking the session kills them before they expire. Refresh tokens are
+ * single use: each refresh consumes the presented token and issues a new one,
+ * and presenting a consumed token revokes the whole session because it means
+ * the token was copied.
+ */
+export class SessionService {
+  constructor(
+    private sessionRepository: SessionRepository,
+    private userRepository: UserRepository,
+    private authService: AuthService,
+    private config: SessionTokenConfig
+  ) {}
+
+  /**
+   * Start a session for a user who just logged in or registered
+   * @param user - Authenticated user
+   * @param context - Client details for the device list
+   * @returns Promise<SessionTokens> Access and refresh tokens for the new session
+   */
+  async startSession(user: User, context: SessionContext): Promise<SessionTokens> {
+    const refreshToken = this.generateRefreshToken()
+    const expiresAt = new Date(Date.now() + this.config.refreshTokenTtlDays * 24 * 60 * 60 * 1000)
+
+    const session = await this.sessionRepository.create({
+      userId: user.id,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      expiresAt
+    }, hashRefreshToken(refreshToken))
+
+    return {
+      sessionId: session.id,
+      accessToken: this.issueAccessToken(user, session.id),
+      refreshToken,
+      expiresIn: this.config.accessTokenTtlSeconds
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   * @param refreshToken - Refresh token presented by the client
+   * @param context - Client details for the device list
+   * @returns Promise<SessionServiceResult> New tokens and the session's user
+   */
+  async refresh(refreshToken: string, context: SessionContext): Promise<SessionServiceResult<SessionTokens & { user: User }>> {
+    const storedToken = await this.sessionRepository.findRefreshToken(hashRefreshToken(refreshToken))
+    if (!storedToken) {
+      return { success: false, error: 'Invalid refresh token', code: 'INVALID_REFRESH_TOKEN' }
+    }
+
+    const session = storedToken.session
+    if (session.revokedAt) {
+      return { success: false, error: 'Session has been revoked', code: 'SESSION_REVOKED' }
+    }
+
+    if (session.expiresAt <= new Date()) {
+      return { success: false, error: 'Session has expired', code: 'SESSION_EXPIRED' }
+    }
+
+    if (storedToken.usedAt) {
+      return await this.handleReuse(session)
+    }
+
+    const user = await this.userRepository.findById(session.userId)
+    if (!user || user.isActive === false) {
+      await this.sessionRepository.revoke(session.id, 'user_revoked')
+      return { success: false, error: 'Account is not active', code: 'USER_INACTIVE' }
+    }
+
+    const nextRefreshToken = this.generateRefreshToken()
+    const rotated = await this.sessionRepository.rotateRefreshToken(
+      storedToken.id,
+      session.id,
+      hashRefreshToken(nextRefreshToken),
+      context
+    )
+
+    // Another request consumed the same token between our read and the rotation
+    if (!rotated) {
+      return await this.handleReuse(session)
+    }
+
+    return {
+      success: true,
+      data: {
+        sessionId: session.id,
+        accessToken: this.issueAccessToken(user, session.id),
+        refreshToken: nextRefreshToken,
+        expiresIn: this.config.accessTokenTtlSeconds,
+        user
+      }
+    }
+  }
+
+  /**
+   * Check whether an access token's session is still valid
+   * Called by the auth middleware on every authenticated request
+   * @param sessionId - Session id from the token's jti claim
+   * @returns Promise<boolean> True if the session exists, is not revoked and has not expired
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await this.sessionRepository.findById(sessionId)
+    return !!session && !session.revokedAt && session.expiresAt > new Date()
+  }
+
+  /**
+   * List a user's logged-in devices
+   * @param userId - User whose sessions to list
+   * @param currentSessionId - Session making the request, flagged as current
+   * @returns Promise<SessionSummary[]> Active sessions, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await this.sessionRepository.findActiveByUserId(userId)
+
+    return sessions.map((session: Session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId
+    }))
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   * Sessions belonging to someone else are reported as not found
+   * @param userId - User revoking the session
+   * @param sessionId - Session to revoke
+   * @returns Promise<SessionServiceResult> Success or SESSION_NOT_FOUND
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<SessionServiceResult<{ id: string }>> {
+    const session = await this.sessionRepository.findById(sessionId)
+    if (!session || session.userId !== userId || session.revokedAt) {
+      return { success: false, error: 'Session not found', code: 'SESSION_NOT_FOUND' }
+    }
+
+    await this.sessionRepository.revoke(session.id, 'user_revoked')
+    authLogger.info('Session revoked by user', { userId, sessionId })
+
+    return { success: true, data: { id: session.id } }
+  }
+
+  /**
+   * End the session an access token belongs to
+   * @param sessionId - Session id from the token's jti claim
+   */
+  async endSession(sessionId: string): Promise<void> {
+    await this.sessionRepository.revoke(sessionId, 'logout')
+  }
+
+  /**
+   * Revoke a session whose consumed refresh token was presented again
+   * @param session - Session the replayed token belongs to
+   * @returns SessionServiceResult REFRESH_TOKEN_REUSED failure
+   */
+  private async handleReuse(session: Session): Promise<SessionServiceResult<never>> {
+    await this.sessionRepository.revoke(session.id, 'refresh_token_reuse')
+    authLogger.warn('Refresh token reuse detected, session revoked', {
+      userId: session.userId,
+      sessionId: session.id
+    })
+
+    return { success: false, error: 'Refresh token has already been used', code: 'REFRESH_TOKEN_REUSED' }
+  }
+
+  /**
+   * Sign a short-lived access token bound to a session
+   * @param user - Session's user
+   * @param sessionId - Session id placed in the jti claim
+   * @returns string Signed JWT
+   */
+  private issueAccessToken(user: User, sessionId: string): string {
+    return this.authService.generateToken(user, {
+      id: sessionId,
+      expiresInSeconds: this.config.accessTokenTtlSeconds
+    })
+  }
+
+  /**
+   * Generate an opaque refresh token
+   * @returns string 256-bit random token, base64url encoded
+   */
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(32).toString('base64url')
+  }
+}
+
+// Export types for use in other files
+export type {
+  SessionContext,
+  SessionTokens,
+  SessionSummary,
+  SessionServiceResult
+}
@@ -0,0 +1,394 @@
+// backend/src/services/TwoFactorService.ts
+// Version: 1.0.0 - TOTP enrollment, login challenges and one-time recovery codes
+
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import { AuthService } from './AuthService'
+import { User } from '../models/User'
+import { TwoFactorRepository, TwoFactorCredential } from '../repositories/TwoFactorRepository'
+import { UserRepository } from '../repositories/UserRepository'
+import { TwoFactorConfig } from '../config/twoFactor'
+import { TWO_FACTOR_RECOVERY_CODE_COUNT } from '../utils/constants'
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotpCode } from '../utils/totp'
+import { authLogger } from '../utils/logger'
+
+/**
+ * Secret and URI shown while the user adds the account to an authenticator app
+ */
+interface TwoFactorSetup {
+  secret: string
+  otpauthUri: string
+}
+
+/**
+ * Whether a user has two-factor authentication turned on
+ */
+interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+/**
+ * Short-lived token standing in for a login that still needs a code
+ */
+interface TwoFactorChallenge {
+  challengeToken: string
+  expiresIn: number
+}
+
+/**
+ * Two-factor service result interface
+ */
+interface TwoFactorResult<T = undefined> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * Audience claim that keeps challenge tokens from being accepted anywhere else
+ */
+const CHALLENGE_AUDIENCE = 'parasocial:two-factor-login'
+
+/**
+ * Prefix identifying the encryption format of stored TOTP secrets
+ */
+const ENCRYPTION_FORMAT_VERSION = 'v1'
+
+/**
+ * Normalize a recovery code as typed, so case and dashes do not matter
+ * @param code - Recovery code from the user
+ * @returns Lowercase code without separators
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * TwoFactorService class
+ * Users enroll by scanning an otpauth:// URI and confirming one code, which turns
+ * two-factor on and issues recovery codes. After that a correct password only earns
+ * a challenge token; the session is started once the challenge is answered with a
+ * TOTP code or an unused recovery code. Secrets are encrypted at rest, recovery
+ * codes are stored as keyed hashes, and each TOTP step is accepted only once.
+ */
+export class TwoFactorService {
+  private encryptionKey: Buffer
+  private challengeKey: Buffer
+  private recoveryCodeKey: Buffer
+
+  constructor(
+    private twoFactorRepository: TwoFactorRepository,
+    private userRepository: UserRepository,
+    private authService: AuthService,
+    private config: TwoFactorConfig
+  ) {
+    // Separate keys per purpose so no two features share key material
+    this.encryptionKey = this.deriveKey('totp-secret-encryption')
+    this.challengeKey = this.deriveKey('login-challenge')
+    this.recoveryCodeKey = this.deriveKey('recovery-code')
+  }
+
+  /**
+   * Check whether a user must answer a challenge to log in
+   * @param userId - User ID
+   * @returns Promise<boolean> True if two-factor authentication is on
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const credential = await this.twoFactorRepository.findByUserId(userId)
+    return Boolean(credential?.enabledAt)
+  }
+
+  /**
+   * Describe a user's two-factor settings
+   * @param userId - User ID
+   * @returns Promise<TwoFactorStatus> Whether it is on and how many recovery codes remain
+   */
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const enabled = await this.isEnabled(userId)
+
+    return {
+      enabled,
+      recoveryCodesRemaining: enabled ? await this.twoFactorRepository.countUnusedRecoveryCodes(userId) : 0
+    }
+  }
+
+  /**
+   * Start enrollment with a fresh secret
+   * Calling again before confirming replaces the secret
+   * @param userId - User enrolling
+   * @returns Promise<TwoFactorResult> Secret and otpauth URI, USER_NOT_FOUND or TWO_FACTOR_ALREADY_ENABLED
+   */
+  async beginSetup(userId: string): Promise<TwoFactorResult<TwoFactorSetup>> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      return { success: false, error: 'User not found', code: 'USER_NOT_FOUND' }
+    }
+
+    if (await this.isEnabled(userId)) {
+      return { success: false, error: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ALREADY_ENABLED' }
+    }
+
+    const secret = generateTotpSecret()
+    await this.twoFactorRepository.savePendingSecret(userId, this.encryptSecret(secret))
+
+    return {
+      success: true,
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri({ issuer: this.config.issuer, accountName: user.email, secret })
+      }
+    }
+  }
+
+  /**
+   * Finish enrollment by proving the authenticator app produces valid codes
+   * @param userId - User enrolling
+   * @param code - Current code from the app
+   * @returns Promise<TwoFactorResult> Recovery codes to show once, or TWO_FACTOR_NOT_STARTED,
+   *   TWO_FACTOR_ALREADY_ENABLED or INVALID_CODE
+   */
+  async confirmSetup(userId: string, code: string): Promise<TwoFactorResult<{ recoveryCodes: string[] }>> {
+    const credential = await this.twoFactorRepository.findByUserId(userId)
+    if (!credential) {
+      return { success: false, error: 'Two-factor setup has not been started', code: 'TWO_FACTOR_NOT_STARTED' }
+    }
+
+    if (credential.enabledAt) {
+      return { success: false, error: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ALREADY_ENABLED' }
+    }
+
+    const step = verifyTotpCode(this.decryptSecret(credential.secret), code)
+    if (step === null) {
+      return { success: false, error: 'Invalid authentication code', code: 'INVALID_CODE' }
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes()
+    const enabled = await this.twoFactorRepository.enable(userId, step, recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)))
+    if (!enabled) {
+      return { success: false, error: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ALREADY_ENABLED' }
+    }
+
+    authLogger.info('Two-factor authentication enabled', { userId })
+    return { success: true, data: { recoveryCodes } }
+  }
+
+  /**
+   * Issue a challenge for a user whose password was just accepted
+   * @param userId - User logging in
+   * @returns TwoFactorChallenge Signed token and its lifetime in seconds
+   */
+  createChallenge(userId: string): TwoFactorChallenge {
+    const challengeToken = jwt.sign({}, this.challengeKey, {
+      subject: userId,
+      audience: CHALLENGE_AUDIENCE,
+      expiresIn: this.config.challengeTtlSeconds
+    })
+
+    return { challengeToken, expiresIn: this.config.challengeTtlSeconds }
+  }
+
+  /**
+   * Answer a login challenge
+   * @param challengeToken - Token from the login response
+   * @param code - TOTP code or recovery code
+   * @returns Promise<TwoFactorResult> The user to log in, or INVALID_CHALLENGE or INVALID_CODE
+   */
+  async completeChallenge(challengeToken: string, code: string): Promise<TwoFactorResult<{ user: User, usedRecoveryCode: boolean }>> {
+    let userId: string
+    try {
+      const decoded = jwt.verify(challengeToken, this.challengeKey, { audience: CHALLENGE_AUDIENCE }) as jwt.JwtPayload
+      if (!decoded.sub) {
+        throw new Error('Challenge has no subject')
+      }
+      userId = decoded.sub
+    } catch {
+      return { success: false, error: 'Login challenge is invalid or has expired', code: 'INVALID_CHALLENGE' }
+    }
+
+    const credential = await this.twoFactorRepository.findByUserId(userId)
+    const user = await this.userRepository.findById(userId)
+    if (!credential?.enabledAt || !user) {
+      return { success: false, error: 'Login challenge is invalid or has expired', code: 'INVALID_CHALLENGE' }
+    }
+
+    const method = await this.verifyCode(credential, code)
+    if (!method) {
+      authLogger.warn('Two-factor login code rejected', { userId })
+      return { success: false, error: 'Invalid authentication code', code: 'INVALID_CODE' }
+    }
+
+    if (method === 'recovery') {
+      authLogger.info('Recovery code used to log in', { userId })
+    }
+
+    return { success: true, data: { user, usedRecoveryCode: method === 'recovery' } }
+  }
+
+  /**
+   * Turn two-factor authentication off
+   * @param userId - User turning it off
+   * @param password - Current password
+   * @param code - TOTP code or recovery code
+   * @returns Promise<TwoFactorResult> Success, TWO_FACTOR_NOT_ENABLED, INVALID_CREDENTIALS or INVALID_CODE
+   */
+  async disable(userId: string, password: string, code: string): Promise<TwoFactorResult> {
+    const reauthentication = await this.reauthenticate(userId, password, code)
+    if (!reauthentication.success) {
+      return reauthentication
+    }
+
+    await this.twoFactorRepository.delete(userId)
+    authLogger.info('Two-factor authentication disabled', { userId })
+
+    return { success: true }
+  }
+
+  /**
+   * Replace the recovery codes, invalidating the old ones
+   * @param userId - User asking for new codes
+   * @param password - Current password
+   * @param code - TOTP code or recovery code
+   * @returns Promise<TwoFactorResult> New recovery codes, or TWO_FACTOR_NOT_ENABLED,
+   *   INVALID_CREDENTIALS or INVALID_CODE
+   */
+  async regenerateRecoveryCodes(userId: string, password: string, code: string): Promise<TwoFactorResult<{ recoveryCodes: string[] }>> {
+    const reauthentication = await this.reauthenticate(userId, password, code)
+    if (!reauthentication.success) {
+      return reauthentication
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes()
+    await this.twoFactorRepository.replaceRecoveryCodes(userId, recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)))
+    authLogger.info('Two-factor recovery codes regenerated', { userId })
+
+    return { success: true, data: { recoveryCodes } }
+  }
+
+  /**
+   * Confirm a sensitive change with both the password and a second factor
+   * @param userId - User making the change
+   * @param password - Current password
+   * @param code - TOTP code or recovery code
+   * @returns Promise<TwoFactorResult> Success, TWO_FACTOR_NOT_ENABLED, INVALID_CREDENTIALS or INVALID_CODE
+   */
+  private async reauthenticate(userId: string, password: string, code: string): Promise<TwoFactorResult<never>> {
+    const credential = await this.twoFactorRepository.findByUserId(userId)
+    if (!credential?.enabledAt) {
+      return { success: false, error: 'Two-factor authentication is not enabled', code: 'TWO_FACTOR_NOT_ENABLED' }
+    }
+
+    const user = await this.userRepository.findById(userId)
+    if (!user?.passwordHash || !(await this.authService.verifyPassword(user.passwordHash, password))) {
+      return { success: false, error: 'Password is incorrect', code: 'INVALID_CREDENTIALS' }
+    }
+
+    if (!(await this.verifyCode(credential, code))) {
+      return { success: false, error: 'Invalid authentication code', code: 'INVALID_CODE' }
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * Accept a TOTP code or, failing that, an unused recovery code
+   * @param credential - User's enabled credential
+   * @param code - Code the user typed
+   * @returns Promise<'totp' | 'recovery' | null> Which kind of code matched, or null
+   */
+  private async verifyCode(credential: TwoFactorCredential, code: string): Promise<'totp' | 'recovery' | null> {
+    const step = verifyTotpCode(this.decryptSecret(credential.secret), code)
+    if (step !== null) {
+      // A code seen before is refused even though it is still inside its window
+      return await this.twoFactorRepository.recordUsedStep(credential.userId, step) ? 'totp' : null
+    }
+
+    const normalized = normalizeRecoveryCode(code)
+    if (!normalized) {
+      return null
+    }
+
+    return await this.twoFactorRepository.consumeRecoveryCode(credential.userId, this.hashRecoveryCode(normalized))
+      ? 'recovery'
+      : null
+  }
+
+  /**
+   * Generate a set of recovery codes in the form xxxxx-xxxxx
+   * @returns string[] Plain codes to show the user once
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: TWO_FACTOR_RECOVERY_CODE_COUNT }, () => {
+      const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase()
+      return `${code.slice(0, 5)}-${code.slice(5)}`
+    })
+  }
+
+  /**
+   * Hash a recovery code for storage and lookup
+   * Keyed so a leaked table cannot be brute-forced without the server secret
+   * @param code - Recovery code, with or without formatting
+   * @returns string Hex HMAC-SHA256 digest
+   */
+  private hashRecoveryCode(code: string): string {
+    return crypto.createHmac('sha256', this.recoveryCodeKey).update(normalizeRecoveryCode(code)).digest('hex')
+  }
+
+  /**
+   * Encrypt a TOTP secret for storage
+   * @param secret - Base32 secret
+   * @returns Encoded string in the form v1:iv:authTag:ciphertext (base64 parts)
+   */
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv)
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+
+    return [
+      ENCRYPTION_FORMAT_VERSION,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      ciphertext.toString('base64')
+    ].join(':')
+  }
+
+  /**
+   * Decrypt a stored TOTP secret
+   * @param encrypted - Value produced by encryptSecret
+   * @returns Base32 secret
+   * @throws Error if the value is malformed or was encrypted with another secret
+   */
+  private decryptSecret(encrypted: string): string {
+    const parts = encrypted.split(':')
+    if (parts.length !== 4 || parts[0] !== ENCRYPTION_FORMAT_VERSION) {
+      throw new Error('Unsupported two-factor secret encryption format')
+    }
+
+    const [, ivPart, tagPart, cipherPart] = parts as [string, string, string, string]
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, Buffer.from(ivPart, 'base64'))
+    decipher.setAuthTag(Buffer.from(tagPart, 'base64'))
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(cipherPart, 'base64')),
+      decipher.final()
+    ]).toString('utf8')
+  }
+
+  /**
+   * Derive a purpose-specific key from the configured secret
+   * @param purpose - Label for the key's use
+   * @returns Buffer 32-byte key
+   */
+  private deriveKey(purpose: string): Buffer {
+    return crypto.createHmac('sha256', this.config.secret).update(purpose).digest()
+  }
+}
+
+// Export types for use in other files
+export type {
+  TwoFactorSetup,
+  TwoFactorStatus,
+  TwoFactorChallenge,
+  TwoFactorResult
+}
@@ -0,0 +1,231 @@
+// backend/src/services/VideoProcessingJob.ts
+// Version: 1.1.0 - Background transcoding of uploaded videos
+// Changed: Use the shared system clock from PostScheduler
+
+import { createReadStream, createWriteStream } from 'fs'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { pipeline } from 'stream/promises'
+import { MediaRepository, PendingVideo } from '../repositories/MediaRepository'
+import { VideoProcessingConfig } from '../config/videoProcessing'
+import { SchedulerClock, systemClock } from './PostScheduler'
+import { getRenditionFilenames } from './MediaService'
+import { StorageProvider } from './StorageProvider'
+import { VideoTranscoder } from './VideoTranscoder'
+import { schedulerLogger } from '../utils/logger'
+
+// A video takes three ffmpeg runs, each limited to timeoutMs; one still
+// PROCESSING well past that is assumed to belong to a crashed worker
+const STALE_PROCESSING_TIMEOUTS = 4
+
+/**
+ * Outcome of a single processing run
+ */
+interface VideoProcessingRunResult {
+  status: 'completed' | 'skipped' | 'failed'
+  processed: number
+  failed: number
+}
+
+/**
+ * VideoProcessingJob class
+ * Periodically claims PENDING videos, transcodes them to H.264/AAC MP4 with a
+ * poster frame and marks them READY, or FAILED when ffmpeg cannot read them.
+ * Claims are per row, so several instances can run the job at once.
+ */
+export class VideoProcessingJob {
+  private timer: unknown = null
+  private currentRun: Promise<VideoProcessingRunResult> | null = null
+
+  constructor(
+    private mediaRepository: MediaRepository,
+    private storage: StorageProvider,
+    private transcoder: VideoTranscoder,
+    private config: VideoProcessingConfig,
+    private clock: SchedulerClock = systemClock
+  ) {}
+
+  /**
+   * Start the periodic timer and run once immediately
+   * Does nothing when the job is disabled or already running
+   */
+  start(): void {
+    if (!this.config.enabled || this.timer) {
+      return
+    }
+
+    this.timer = this.clock.setInterval(() => {
+      void this.runOnce()
+    }, this.config.intervalMs)
+
+    schedulerLogger.info('Video processing started', {
+      intervalMs: this.config.intervalMs,
+      batchSize: this.config.batchSize
+    })
+    void this.runOnce()
+  }
+
+  /**
+   * Stop the timer and wait for an in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      this.clock.clearInterval(this.timer)
+      this.timer = null
+      schedulerLogger.info('Video processing stopped')
+    }
+
+    if (this.currentRun) {
+      await this.currentRun
+    }
+  }
+
+  /**
+   * Check whether the periodic timer is active
+   * @returns boolean True between start() and stop()
+   */
+  isRunning(): boolean {
+    return this.timer !== null
+  }
+
+  /**
+   * Process one batch of pending videos
+   * A run that overlaps a previous one is skipped
+   * @returns Promise<VideoProcessingRunResult> What the run did
+   */
+  async runOnce(): Promise<VideoProcessingRunResult> {
+    if (this.currentRun) {
+      return { status: 'skipped', processed: 0, failed: 0 }
+    }
+
+    this.currentRun = this.processPending()
+    try {
+      return await this.currentRun
+    } finally {
+      this.currentRun = null
+    }
+  }
+
+  /**
+   * Release stale claims, then claim and process a batch
+   * @returns Promise<VideoProcessingRunResult> What the run did
+   */
+  private async processPending(): Promise<VideoProcessingRunResult> {
+    const staleBefore = new Date(
+      this.clock.now().getTime() - this.config.timeoutMs * STALE_PROCESSING_TIMEOUTS
+    )
+
+    try {
+      await this.mediaRepository.releaseStaleProcessing(staleBefore)
+      const videos = await this.mediaRepository.claimPendingVideos(this.config.batchSize)
+
+      let processed = 0
+      let failed = 0
+      for (const video of videos) {
+        if (await this.processVideo(video)) {
+          processed++
+        } else {
+          failed++
+        }
+      }
+
+      if (videos.length > 0) {
+        schedulerLogger.info('Video processing run completed', { processed, failed })
+      }
+
+      return { status: 'completed', processed, failed }
+
+    } catch (error) {
+      schedulerLogger.error('Video processing run failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return { status: 'failed', processed: 0, failed: 0 }
+    }
+  }
+
+  /**
+   * Transcode one video in a scratch directory and store the results
+   * The MP4 is stored as <base>.mp4, replacing an upload in another container
+   * @param video - Claimed video
+   * @returns Promise<boolean> True if the video is now READY
+   */
+  private async processVideo(video: PendingVideo): Promise<boolean> {
+    const workDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-video-'))
+    const base = path.basename(video.filename, path.extname(video.filename))
+    const videoKey = `${base}.mp4`
+    const posterKey = getRenditionFilenames(video.filename).poster
+
+    try {
+      const stored = await this.storage.get(video.filename)
+      if (!stored) {
+        throw new Error('Stored upload not found')
+      }
+
+      const inputPath = path.join(workDirectory, `input${path.extname(video.filename)}`)
+      await pipeline(stored.body, createWriteStream(inputPath))
+
+      const result = await this.transcoder.transcode(inputPath, workDirectory)
+      const { size } = await fs.stat(result.videoPath)
+
+      await this.storage.put(videoKey, createReadStream(result.videoPath), 'video/mp4')
+      await this.storage.put(posterKey, createReadStream(result.posterPath), 'image/jpeg')
+
+      const completed = await this.mediaRepository.completeProcessing(video.id, {
+        filename: videoKey,
+        url: this.storage.getPublicUrl(videoKey),
+        mimeType: 'video/mp4',
+        size,
+        posterUrl: this.storage.getPublicUrl(posterKey),
+        duration: result.duration,
+        width: result.width,
+        height: result.height
+      })
+
+      if (!completed) {
+        // The media was deleted while it was transcoded
+        await this.removeFiles([videoKey, posterKey])
+        return false
+      }
+
+      if (videoKey !== video.filename) {
+        await this.removeFiles([video.filename])
+      }
+
+      return true
+
+    } catch (error) {
+      schedulerLogger.error('Failed to process video', {
+        mediaId: video.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      await this.mediaRepository.markProcessingFailed(video.id)
+      return false
+
+    } finally {
+      await fs.rm(workDirectory, { recursive: true, force: true })
+    }
+  }
+
+  /**
+   * Delete files from storage, logging failures
+   * @param keys - Storage keys
+   */
+  private async removeFiles(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.storage.delete(key)
+      } catch (error) {
+        schedulerLogger.error('Failed to delete video file', {
+          key,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  VideoProcessingRunResult
+}
@@ -0,0 +1,164 @@
+// backend/src/services/VideoTranscoder.ts
+// Version: 1.0.0 - Video transcoding and poster extraction with a local ffmpeg binary
+
+import { spawn } from 'child_process'
+import path from 'path'
+import { VideoProcessingConfig } from '../config/videoProcessing'
+
+/**
+ * Longest stderr excerpt kept in error messages
+ */
+const MAX_ERROR_OUTPUT = 2000
+
+/**
+ * Seconds into the video the poster frame is taken from, for videos long enough
+ */
+const POSTER_OFFSET_SECONDS = 1
+
+/**
+ * Details ffprobe reports about a video
+ */
+interface VideoProbe {
+  duration: number | null
+  width: number | null
+  height: number | null
+}
+
+/**
+ * Files written by a transcode, with the probed details of the new video
+ */
+interface TranscodedVideo extends VideoProbe {
+  videoPath: string
+  posterPath: string
+}
+
+/**
+ * VideoTranscoder class
+ * Normalises videos to H.264/AAC MP4, which every browser plays, and extracts
+ * a JPEG poster frame. Metadata such as the recording location is dropped.
+ */
+export class VideoTranscoder {
+  constructor(
+    private config: Pick<VideoProcessingConfig, 'ffmpegPath' | 'ffprobePath' | 'timeoutMs'>
+  ) {}
+
+  /**
+   * Transcode a video and extract its poster frame
+   * @param inputPath - Local path of the uploaded video
+   * @param outputDirectory - Directory to write video.mp4 and poster.jpg to
+   * @returns Promise<TranscodedVideo> Output paths and the new video's details
+   * @throws Error if ffmpeg or ffprobe fails or times out
+   */
+  async transcode(inputPath: string, outputDirectory: string): Promise<TranscodedVideo> {
+    const videoPath = path.join(outputDirectory, 'video.mp4')
+    const posterPath = path.join(outputDirectory, 'poster.jpg')
+
+    await this.run(this.config.ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-i', inputPath,
+      '-map', '0:v:0', '-map', '0:a:0?',
+      '-map_metadata', '-1',
+      '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p',
+      // H.264 with yuv420p needs even dimensions
+      '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+      '-c:a', 'aac', '-b:a', '128k',
+      // Move the index to the front so playback starts before the download finishes
+      '-movflags', '+faststart',
+      videoPath
+    ])
+
+    const probe = await this.probe(videoPath)
+    const posterOffset = probe.duration !== null
+      ? Math.min(POSTER_OFFSET_SECONDS, probe.duration / 2)
+      : 0
+
+    await this.run(this.config.ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-ss', posterOffset.toFixed(3),
+      '-i', videoPath,
+      '-frames:v', '1', '-q:v', '3',
+      posterPath
+    ])
+
+    return { videoPath, posterPath, ...probe }
+  }
+
+  /**
+   * Read a video's duration and dimensions
+   * @param filePath - Local path of the video
+   * @returns Promise<VideoProbe> Details ffprobe could determine
+   */
+  async probe(filePath: string): Promise<VideoProbe> {
+    const output = await this.run(this.config.ffprobePath, [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'stream=width,height:format=duration',
+      '-of', 'json',
+      filePath
+    ])
+
+    const parsed = JSON.parse(output) as {
+      streams?: Array<{ width?: number, height?: number }>
+      format?: { duration?: string }
+    }
+    const stream = parsed.streams?.[0]
+    const duration = Number.parseFloat(parsed.format?.duration ?? '')
+
+    return {
+      duration: Number.isFinite(duration) ? duration : null,
+      width: stream?.width ?? null,
+      height: stream?.height ?? null
+    }
+  }
+
+  /**
+   * Run a binary to completion, killing it when it exceeds the timeout
+   * @param command - Binary to run
+   * @param args - Arguments, passed without a shell
+   * @returns Promise<string> Standard output
+   * @throws Error with the tail of standard error if the binary fails
+   */
+  private run(command: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] })
+      let stdout = ''
+      let stderr = ''
+      let timedOut = false
+
+      const timer = setTimeout(() => {
+        timedOut = true
+        child.kill('SIGKILL')
+      }, this.config.timeoutMs)
+
+      child.stdout.on('data', chunk => {
+        stdout += chunk
+      })
+      child.stderr.on('data', chunk => {
+        stderr = (stderr + chunk).slice(-MAX_ERROR_OUTPUT)
+      })
+
+      child.on('error', error => {
+        clearTimeout(timer)
+        reject(error)
+      })
+
+      child.on('close', code => {
+        clearTimeout(timer)
+        const name = path.basename(command)
+        if (timedOut) {
+          reject(new Error(`${name} timed out after ${this.config.timeoutMs}ms`))
+        } else if (code !== 0) {
+          reject(new Error(`${name} exited with code ${code}: ${stderr.trim()}`))
+        } else {
+          resolve(stdout)
+        }
+      })
+    })
+  }
+}
+
+// Export types for use in other files
+export type {
+  VideoProbe,
+  TranscodedVideo
+}
@@ -0,0 +1,197 @@
+// backend/src/services/WebFingerService.ts
+// Version: 1.0.0 - Initial WebFinger resource resolution for fediverse discovery of creators
+
+import { UserRepository } from '../repositories/UserRepository'
+
+/**
+ * JSON Resource Descriptor link (RFC 7033)
+ */
+interface WebFingerLink {
+  rel: string
+  type?: string
+  href: string
+}
+
+/**
+ * JSON Resource Descriptor returned by /.well-known/webfinger
+ */
+interface WebFingerResponse {
+  subject: string
+  aliases: string[]
+  links: WebFingerLink[]
+}
+
+/**
+ * Parsed WebFinger resource
+ */
+interface ParsedResource {
+  username: string
+  domain: string
+}
+
+/**
+ * WebFinger service result interface
+ */
+interface WebFingerResult<T = WebFingerResponse> {
+  success: boolean
+  data?: T
+  error?: string
+  code?: string
+}
+
+/**
+ * Link relation used by Mastodon and Pleroma for the HTML profile page
+ */
+const PROFILE_PAGE_REL = 'http://webfinger.net/rel/profile-page'
+
+/**
+ * WebFingerService class
+ * Resolves acct: and actor URI resources to local creators so remote
+ * instances can discover their ActivityPub actors
+ */
+export class WebFingerService {
+  constructor(
+    private userRepository: UserRepository,
+    private domain: string
+  ) {}
+
+  /**
+   * Resolve a WebFinger resource to a JSON Resource Descriptor
+   * @param resource - acct:username@domain or https://domain/users/username
+   * @returns Promise<WebFingerResult> JRD on success, error code otherwise
+   */
+  async resolve(resource: string): Promise<WebFingerResult> {
+    try {
+      const parsed = this.parseResource(resource)
+      if (!parsed) {
+        return {
+          success: false,
+          error: 'Resource must be in acct:user@domain or https://domain/users/user format',
+          code: 'INVALID_RESOURCE'
+        }
+      }
+
+      // Only answer for accounts hosted on this instance
+      if (parsed.domain !== this.domain) {
+        return {
+          success: false,
+          error: 'Resource is not hosted on this instance',
+          code: 'RESOURCE_NOT_FOUND'
+        }
+      }
+
+      const user = await this.userRepository.findByUsername(parsed.username)
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        }
+      }
+
+      // Suspended or deactivated accounts are gone as far as the fediverse is concerned
+      if (user.isActive === false) {
+        return {
+          success: false,
+          error: 'User account is no longer active',
+          code: 'USER_INACTIVE'
+        }
+      }
+
+      // Without an actor URI there is nothing for remote instances to follow
+      if (!user.actorId) {
+        return {
+          success: false,
+          error: 'User has no ActivityPub actor',
+          code: 'ACTOR_NOT_FOUND'
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          subject: `acct:${user.username}@${this.domain}`,
+          aliases: [user.actorId],
+          links: [
+            {
+              rel: 'self',
+              type: 'application/activity+json',
+              href: user.actorId
+            },
+            {
+              rel: PROFILE_PAGE_REL,
+              type: 'text/html',
+              href: user.actorId
+            }
+          ]
+        }
+      }
+
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to resolve WebFinger resource',
+        code: 'INTERNAL_ERROR'
+      }
+    }
+  }
+
+  /**
+   * Parse a WebFinger resource into username and domain
+   * Accepts acct: URIs and https actor URIs of the form /users/:username
+   * @param resource - Raw resource query parameter
+   * @returns ParsedResource or null if the resource is malformed
+   */
+  parseResource(resource: string): ParsedResource | null {
+    if (!resource || typeof resource !== 'string') {
+      return null
+    }
+
+    const trimmed = resource.trim()
+
+    if (trimmed.toLowerCase().startsWith('acct:')) {
+      const account = trimmed.slice('acct:'.length).replace(/^@/, '')
+      const separatorIndex = account.lastIndexOf('@')
+      if (separatorIndex <= 0 || separatorIndex === account.length - 1) {
+        return null
+      }
+
+      const username = account.slice(0, separatorIndex)
+      if (!/^[a-zA-Z0-9_]+$/.test(username)) {
+        return null
+      }
+
+      return {
+        username,
+        domain: account.slice(separatorIndex + 1).toLowerCase()
+      }
+    }
+
+    try {
+      const url = new URL(trimmed)
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return null
+      }
+
+      const match = url.pathname.match(/^\/users\/([a-zA-Z0-9_]+)\/?$/)
+      if (!match || !match[1]) {
+        return null
+      }
+
+      return {
+        username: match[1],
+        domain: url.host.toLowerCase()
+      }
+    } catch {
+      return null
+    }
+  }
+}
+
+// Export types for use in other files
+export type {
+  WebFingerLink,
+  WebFingerResponse,
+  WebFingerResult,
+  ParsedResource
+}
@@ -0,0 +1,222 @@
+// backend/src/services/__tests__/AccountEmailService.test.ts
+// Version: 1.0.0
+// Password reset and email verification tests with a capturing mailer
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AccountEmailService } from '../AccountEmailService'
+import type { Mailer, MailMessage } from '../Mailer'
+
+/**
+ * Mailer that keeps sent messages in memory
+ */
+class CapturingMailer implements Mailer {
+  sent: MailMessage[] = []
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message)
+  }
+
+  /**
+   * Pull the token out of the last emailed link
+   */
+  lastToken(): string {
+    const match = this.sent[this.sent.length - 1]?.text.match(/token=([^\s]+)/)
+    return decodeURIComponent(match?.[1] ?? '')
+  }
+}
+
+/**
+ * In-memory stand-in for AccountTokenRepository
+ */
+class InMemoryAccountTokenRepository {
+  tokens: any[] = []
+
+  async issue(userId: string, type: string, tokenHash: string, expiresAt: Date, now: Date = new Date()) {
+    this.tokens
+      .filter(token => token.userId === userId && token.type === type && !token.usedAt)
+      .forEach(token => { token.usedAt = now })
+    const token = { id: `token${this.tokens.length + 1}`, userId, type, tokenHash, expiresAt, usedAt: null, createdAt: now }
+    this.tokens.push(token)
+    return token
+  }
+
+  async findLatest(userId: string, type: string) {
+    return this.tokens.filter(token => token.userId === userId && token.type === type).pop() ?? null
+  }
+
+  async consume(tokenHash: string, type: string, now: Date = new Date()) {
+    const token = this.tokens.find(stored => stored.tokenHash === tokenHash)
+    if (!token || token.type !== type || token.usedAt || token.expiresAt <= now) {
+      return null
+    }
+    token.usedAt = now
+    return token
+  }
+}
+
+describe('AccountEmailService', () => {
+  const mailConfig = {
+    transport: 'console' as const,
+    from: 'ParaSocial <no-reply@parasocial.example>',
+    linkBaseUrl: 'https://app.parasocial.example',
+    fileDirectory: './tmp/mail',
+    smtp: null
+  }
+
+  const user = {
+    id: 'user123',
+    email: 'creator@example.com',
+    username: 'creator',
+    displayName: 'Creator',
+    verificationTier: 'none',
+    isActive: true
+  }
+
+  let mailer: CapturingMailer
+  let tokenRepository: InMemoryAccountTokenRepository
+  let mockUserRepository: any
+  let mockSessionRepository: any
+  let mockAuthService: any
+  let service: AccountEmailService
+
+  beforeEach(() => {
+    mailer = new CapturingMailer()
+    tokenRepository = new InMemoryAccountTokenRepository()
+    mockUserRepository = {
+      findByEmail: vi.fn().mockResolvedValue(user),
+      findById: vi.fn().mockResolvedValue(user),
+      updatePassword: vi.fn().mockResolvedValue(true),
+      markEmailVerified: vi.fn().mockResolvedValue(true)
+    }
+    mockSessionRepository = {
+      revokeAllForUser: vi.fn().mockResolvedValue(2)
+    }
+    mockAuthService = {
+      validatePassword: vi.fn().mockReturnValue({ success: true }),
+      hashPassword: vi.fn().mockResolvedValue('new-hash')
+    }
+
+    service = new AccountEmailService(
+      tokenRepository as any,
+      mockUserRepository,
+      mockSessionRepository,
+      mockAuthService,
+      mailer,
+      mailConfig
+    )
+  })
+
+  describe('password reset', () => {
+    it('should email a reset link and store only the token hash', async () => {
+      const result = await service.requestPasswordReset('creator@example.com')
+
+      expect(result).toEqual({ success: true })
+      expect(mailer.sent).toHaveLength(1)
+      expect(mailer.sent[0]?.to).toBe('creator@example.com')
+      expect(mailer.sent[0]?.text).toContain('https://app.parasocial.example/reset-password?token=')
+      expect(tokenRepository.tokens[0]?.tokenHash).not.toBe(mailer.lastToken())
+      expect(tokenRepository.tokens[0]?.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 60 * 60 * 1000)
+    })
+
+    it('should succeed without sending for unknown emails', async () => {
+      mockUserRepository.findByEmail.mockResolvedValue(null)
+
+      const result = await service.requestPasswordReset('nobody@example.com')
+
+      expect(result).toEqual({ success: true })
+      expect(mailer.sent).toHaveLength(0)
+    })
+
+    it('should not send a second email during the cooldown', async () => {
+      await service.requestPasswordReset('creator@example.com')
+      await service.requestPasswordReset('creator@example.com')
+
+      expect(mailer.sent).toHaveLength(1)
+    })
+
+    it('should reset the password once and revoke every session', async () => {
+      await service.requestPasswordReset('creator@example.com')
+      const token = mailer.lastToken()
+
+      const result = await service.resetPassword(token, 'new-password')
+
+      expect(result).toEqual({ success: true })
+      expect(mockUserRepository.updatePassword).toHaveBeenCalledWith('user123', 'new-hash')
+      expect(mockSessionRepository.revokeAllForUser).toHaveBeenCalledWith('user123', 'password_reset')
+
+      const reused = await service.resetPassword(token, 'another-password')
+      expect(reused.code).toBe('INVALID_TOKEN')
+    })
+
+    it('should keep the token usable when the new password is rejected', async () => {
+      await service.requestPasswordReset('creator@example.com')
+      const token = mailer.lastToken()
+      mockAuthService.validatePassword.mockReturnValueOnce({
+        success: false,
+        error: { details: [{ field: 'password', message: 'Password must be at least 6 characters' }] }
+      })
+
+      const rejected = await service.resetPassword(token, '123')
+      expect(rejected.code).toBe('VALIDATION_ERROR')
+
+      const accepted = await service.resetPassword(token, 'long-enough')
+      expect(accepted.success).toBe(true)
+    })
+
+    it('should reject expired tokens', async () => {
+      await service.requestPasswordReset('creator@example.com')
+      tokenRepository.tokens[0].expiresAt = new Date(Date.now() - 1000)
+
+      const result = await service.resetPassword(mailer.lastToken(), 'new-password')
+
+      expect(result.code).toBe('INVALID_TOKEN')
+      expect(mockUserRepository.updatePassword).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('email verification', () => {
+    it('should send a verification link and raise the tier when it is opened', async () => {
+      const sent = await service.sendVerificationEmail('user123')
+      expect(sent).toEqual({ success: true })
+      expect(mailer.sent[0]?.text).toContain('https://app.parasocial.example/verify-email?token=')
+
+      mockUserRepository.findById.mockResolvedValue({ ...user, verificationTier: 'email' })
+      const result = await service.verifyEmail(mailer.lastToken())
+
+      expect(result).toEqual({ success: true, data: { verificationTier: 'email' } })
+      expect(mockUserRepository.markEmailVerified).toHaveBeenCalledWith('user123')
+    })
+
+    it('should not accept a password reset token for verification', async () => {
+      await service.requestPasswordReset('creator@example.com')
+
+      const result = await service.verifyEmail(mailer.lastToken())
+
+      expect(result.code).toBe('INVALID_TOKEN')
+    })
+
+    it('should refuse to resend for verified users', async () => {
+      mockUserRepository.findById.mockResolvedValue({ ...user, verificationTier: 'email' })
+
+      const result = await service.sendVerificationEmail('user123')
+
+      expect(result.code).toBe('ALREADY_VERIFIED')
+    })
+
+    it('should throttle resends', async () => {
+      await service.sendVerificationEmail('user123')
+
+      const result = await service.sendVerificationEmail('user123')
+
+      expect(result.code).toBe('TOO_MANY_REQUESTS')
+    })
+
+    it('should report mailer failures', async () => {
+      vi.spyOn(mailer, 'send').mockRejectedValueOnce(new Error('SMTP down'))
+
+      const result = await service.sendVerificationEmail('user123')
+
+      expect(result.code).toBe('MAIL_FAILED')
+    })
+  })
+})
@@ -0,0 +1,105 @@
+// backend/src/services/__tests__/ActivityDeliveryService.test.ts
+// Version: 1.0.0
+// Delivery tests against a local stand-in inbox server that checks HTTP Signatures
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { ActivityDeliveryService } from '../ActivityDeliveryService'
+import { ActorKeyService } from '../ActorKeyService'
+import { parseSignatureHeader, verifySignature, verifyDigest } from '../../utils/httpSignature'
+
+interface ReceivedRequest {
+  verified: boolean
+  digestValid: boolean
+  contentType: string | undefined
+  body: string
+}
+
+describe('ActivityDeliveryService', () => {
+  const actorKeyService = new ActorKeyService('test-actor-key-secret-at-least-32-characters')
+  const sender = { actorId: 'https://parasocial.example/users/creator', privateKey: '' }
+  let publicKeyPem: string
+  let server: http.Server
+  let inboxUrl: string
+  let received: ReceivedRequest[]
+  let responseStatus: number
+
+  beforeAll(async () => {
+    const keyPair = await actorKeyService.generateEncryptedKeyPair()
+    publicKeyPem = keyPair.publicKey
+    sender.privateKey = keyPair.privateKey
+
+    // Stand-in remote inbox that verifies requests the way Mastodon would
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => {
+        const signature = parseSignatureHeader(String(req.headers['signature'] || ''))
+        received.push({
+          verified: !!signature && verifySignature({
+            method: req.method || 'POST',
+            path: req.url || '/',
+            headers: req.headers,
+            signature,
+            publicKeyPem
+          }),
+          digestValid: verifyDigest(String(req.headers['digest'] || ''), body),
+          contentType: req.headers['content-type'],
+          body
+        })
+        res.statusCode = responseStatus
+        res.end()
+      })
+    })
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    inboxUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/inbox`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()))
+  })
+
+  beforeEach(() => {
+    received = []
+    responseStatus = 202
+  })
+
+  it('should POST a signed activity that the remote inbox can verify', async () => {
+    const deliveryService = new ActivityDeliveryService(actorKeyService)
+    const activity = { id: `${sender.actorId}#accepts/follows/1`, type: 'Accept', actor: sender.actorId }
+
+    const result = await deliveryService.deliver(activity, inboxUrl, sender)
+
+    expect(result).toEqual({ success: true, status: 202 })
+    expect(received).toHaveLength(1)
+    expect(received[0]!.verified).toBe(true)
+    expect(received[0]!.digestValid).toBe(true)
+    expect(received[0]!.contentType).toBe('application/activity+json')
+    expect(JSON.parse(received[0]!.body)).toEqual(activity)
+  })
+
+  it('should report non-2xx responses as failures', async () => {
+    responseStatus = 500
+    const deliveryService = new ActivityDeliveryService(actorKeyService)
+
+    const result = await deliveryService.deliver({ id: 'x', type: 'Accept', actor: sender.actorId }, inboxUrl, sender)
+
+    expect(result.success).toBe(false)
+    expect(result.status).toBe(500)
+  })
+
+  it('should report network errors without throwing', async () => {
+    const deliveryService = new ActivityDeliveryService(actorKeyService)
+
+    const result = await deliveryService.deliver(
+      { id: 'x', type: 'Accept', actor: sender.actorId },
+      'http://127.0.0.1:1/inbox',
+      sender
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBeDefined()
+  })
+})
@@ -0,0 +1,390 @@
+// backend/src/services/__tests__/ActivityPubService.test.ts
+// Version: 1.5.0
+// Unit tests for actor identity creation, Person documents, follow answers and post activities
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ActivityPubService } from '../ActivityPubService'
+import { User } from '../../models/User'
+
+describe('ActivityPubService', () => {
+  let activityPubService: ActivityPubService
+  let mockUserRepository: any
+  let mockActorKeyService: any
+
+  const federationConfig = {
+    domain: 'parasocial.example',
+    baseUrl: 'https://parasocial.example',
+    instanceName: 'ParaSocial Test',
+    profileBaseUrl: 'https://app.parasocial.example/profile',
+    keyEncryptionSecret: 'test-actor-key-secret-at-least-32-characters',
+    delivery: {
+      maxAttempts: 8,
+      baseDelayMs: 60000,
+      maxDelayMs: 43200000,
+      hostConcurrency: 2,
+      batchSize: 50,
+      pollIntervalMs: 5000
+    }
+  }
+
+  const createUser = (overrides: Record<string, unknown> = {}) => new User({
+    id: 'user123',
+    email: 'creator@example.com',
+    username: 'creator',
+    displayName: 'The Creator',
+    bio: 'I make things',
+    avatar: null,
+    isActive: true,
+    actorId: 'https://parasocial.example/users/creator',
+    publicKey: '-----BEGIN PUBLIC KEY-----\nabc\n-----END PUBLIC KEY-----\n',
+    privateKey: 'v1:iv:tag:ciphertext',
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides
+  })
+
+  beforeEach(() => {
+    mockUserRepository = {
+      findByUsername: vi.fn(),
+      findByActorId: vi.fn().mockResolvedValue(null)
+    }
+    mockActorKeyService = {
+      generateEncryptedKeyPair: vi.fn().mockResolvedValue({
+        publicKey: 'PUBLIC',
+        privateKey: 'v1:encrypted'
+      })
+    }
+
+    activityPubService = new ActivityPubService(mockUserRepository, mockActorKeyService, federationConfig)
+  })
+
+  describe('createActorIdentity', () => {
+    it('should assign the actor URI and an encrypted keypair', async () => {
+      const identity = await activityPubService.createActorIdentity('creator')
+
+      expect(identity).toEqual({
+        actorId: 'https://parasocial.example/users/creator',
+        publicKey: 'PUBLIC',
+        privateKey: 'v1:encrypted'
+      })
+      expect(mockActorKeyService.generateEncryptedKeyPair).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('buildActor', () => {
+    it('should build a Person document with endpoints and public key', () => {
+      const actor = activityPubService.buildActor(createUser())
+
+      expect(actor).toEqual({
+        '@context': ['https://www.w3.org/ns/activitystreams', 'https://w3id.org/security/v1'],
+        id: 'https://parasocial.example/users/creator',
+        type: 'Person',
+        preferredUsername: 'creator',
+        name: 'The Creator',
+        summary: 'I make things',
+        url: 'https://app.parasocial.example/profile/creator',
+        inbox: 'https://parasocial.example/users/creator/inbox',
+        outbox: 'https://parasocial.example/users/creator/outbox',
+        followers: 'https://parasocial.example/users/creator/followers',
+        following: 'https://parasocial.example/users/creator/following',
+        publicKey: {
+          id: 'https://parasocial.example/users/creator#main-key',
+          owner: 'https://parasocial.example/users/creator',
+          publicKeyPem: '-----BEGIN PUBLIC KEY-----\nabc\n-----END PUBLIC KEY-----\n'
+        },
+        manuallyApprovesFollowers: false,
+        discoverable: true,
+        published: '2025-01-01T00:00:00.000Z'
+      })
+    })
+
+    it('should include the avatar as an icon', () => {
+      const actor = activityPubService.buildActor(createUser({ avatar: 'https://cdn.example/avatar.png' }))
+
+      expect(actor.icon).toEqual({ type: 'Image', url: 'https://cdn.example/avatar.png' })
+    })
+
+    it('should resolve locally stored avatars against the base URL', () => {
+      const actor = activityPubService.buildActor(createUser({ avatar: '/uploads/avatars/user123-1-400.webp' }))
+
+      expect(actor.icon?.url).toBe('https://parasocial.example/uploads/avatars/user123-1-400.webp')
+    })
+
+    it('should tell remote servers when follows need approval', () => {
+      const actor = activityPubService.buildActor(createUser({ approveFollowers: true }))
+
+      expect(actor.manuallyApprovesFollowers).toBe(true)
+    })
+
+    it('should never expose the private key', () => {
+      const actor = activityPubService.buildActor(createUser())
+
+      expect(JSON.stringify(actor)).not.toContain('v1:iv:tag:ciphertext')
+    })
+  })
+
+  describe('buildActorUpdateActivity', () => {
+    it('should wrap the actor in a public Update with a per-change id', () => {
+      const user = createUser({ updatedAt: new Date('2025-06-02T08:00:00.000Z') })
+
+      const activity = activityPubService.buildActorUpdateActivity(user)
+
+      expect(activity).toMatchObject({
+        '@context': ['https://www.w3.org/ns/activitystreams', 'https://w3id.org/security/v1'],
+        id: `https://parasocial.example/users/creator#updates/${user.updatedAt.getTime()}`,
+        type: 'Update',
+        actor: 'https://parasocial.example/users/creator',
+        to: ['https://www.w3.org/ns/activitystreams#Public'],
+        cc: ['https://parasocial.example/users/creator/followers'],
+        object: {
+          id: 'https://parasocial.example/users/creator',
+          type: 'Person',
+          name: 'The Creator'
+        }
+      })
+      expect(activity.object).not.toHaveProperty('@context')
+    })
+  })
+
+  describe('follow answers', () => {
+    const followActivity = {
+      id: 'https://remote.example/follows/1',
+      type: 'Follow',
+      actor: 'https://remote.example/users/alice',
+      object: 'https://parasocial.example/users/creator'
+    }
+
+    it.each([
+      ['buildAcceptActivity', 'Accept', 'accepts'],
+      ['buildRejectActivity', 'Reject', 'rejects']
+    ] as const)('%s should answer the Follow with a stable id', (method, type, path) => {
+      const activity = activityPubService[method](createUser(), followActivity, 'follow1')
+
+      expect(activity).toEqual({
+        '@context': 'https://www.w3.org/ns/activitystreams',
+        id: `https://parasocial.example/users/creator#${path}/follows/follow1`,
+        type,
+        actor: 'https://parasocial.example/users/creator',
+        object: followActivity
+      })
+    })
+  })
+
+  describe('post activities', () => {
+    const createPost = (overrides: Record<string, unknown> = {}) => ({
+      id: 'post1',
+      content: 'First line\nsecond <b>line</b>\n\nNew paragraph',
+      contentWarning: null,
+      isScheduled: false,
+      scheduledFor: null,
+      isPublished: true,
+      createdAt: new Date('2025-06-01T12:00:00.000Z'),
+      updatedAt: new Date('2025-06-01T12:00:00.000Z'),
+      publishedAt: new Date('2025-06-01T12:00:00.000Z'),
+      activityId: 'https://parasocial.example/posts/post1/activity',
+      objectId: 'https://parasocial.example/posts/post1',
+      authorId: 'user123',
+      author: { username: 'creator', actorId: 'https://parasocial.example/users/creator' },
+      media: [],
+      ...overrides
+    })
+
+    it('should build a public Note with escaped HTML content', () => {
+      const note = activityPubService.buildNote(createPost())
+
+      expect(note).toEqual({
+        id: 'https://parasocial.example/posts/post1',
+        type: 'Note',
+        attributedTo: 'https://parasocial.example/users/creator',
+        content: '<p>First line<br>second &lt;b&gt;line&lt;/b&gt;</p><p>New paragraph</p>',
+        summary: null,
+        sensitive: false,
+        published: '2025-06-01T12:00:00.000Z',
+        url: 'https://app.parasocial.example/profile/creator',
+        to: ['https://www.w3.org/ns/activitystreams#Public'],
+        cc: ['https://parasocial.example/users/creator/followers'],
+        attachment: []
+      })
+    })
+
+    it('should map content warnings, edits and media', () => {
+      const note = activityPubService.buildNote(createPost({
+        contentWarning: 'Spoilers',
+        updatedAt: new Date('2025-06-02T08:00:00.000Z'),
+        media: [{ url: '/uploads/photo.jpg', mimeType: 'image/jpeg', altText: 'A photo', width: 800, height: 600 }]
+      }))
+
+      expect(note['summary']).toBe('Spoilers')
+      expect(note['sensitive']).toBe(true)
+      expect(note['updated']).toBe('2025-06-02T08:00:00.000Z')
+      expect(note['attachment']).toEqual([{
+        type: 'Document',
+        mediaType: 'image/jpeg',
+        url: 'https://parasocial.example/uploads/photo.jpg',
+        name: 'A photo',
+        width: 800,
+        height: 600
+      }])
+    })
+
+    it('should name content labels in the summary ahead of the warning', () => {
+      expect(activityPubService.buildNote(createPost({
+        contentWarning: 'Storm footage',
+        contentLabels: ['flashing-lights', 'spoilers']
+      }))['summary']).toBe('Flashing lights, Spoilers: Storm footage')
+
+      const labelOnly = activityPubService.buildNote(createPost({ contentLabels: ['flashing-lights'] }))
+      expect(labelOnly['summary']).toBe('Flashing lights')
+      expect(labelOnly['sensitive']).toBe(true)
+    })
+
+    it('should mark the Note and attachment sensitive for sensitive media without a summary', () => {
+      const note = activityPubService.buildNote(createPost({
+        media: [
+          { url: '/uploads/a.jpg', mimeType: 'image/jpeg', altText: null, width: null, height: null, sensitive: true },
+          { url: '/uploads/b.jpg', mimeType: 'image/jpeg', altText: null, width: null, height: null, sensitive: false }
+        ]
+      }))
+
+      expect(note['summary']).toBeNull()
+      expect(note['sensitive']).toBe(true)
+      expect(note['attachment']).toEqual([
+        expect.objectContaining({ sensitive: true }),
+        expect.not.objectContaining({ sensitive: true })
+      ])
+    })
+
+    it('should mark every attachment sensitive when a label calls for it', () => {
+      const note = activityPubService.buildNote(createPost({
+        contentLabels: ['flashing-lights'],
+        media: [{ url: '/uploads/a.gif', mimeType: 'image/gif', altText: null, width: null, height: null }]
+      }))
+
+      expect(note['attachment']).toEqual([expect.objectContaining({ sensitive: true })])
+    })
+
+    it('should include the BlurHash of processed images', () => {
+      const note = activityPubService.buildNote(createPost({
+        media: [{
+          url: '/uploads/photo.jpg',
+          mimeType: 'image/jpeg',
+          altText: null,
+          width: 800,
+          height: 600,
+          blurhash: 'L904eigQfQgQglflfQflfQfQfQfQ'
+        }]
+      }))
+
+      expect(note['attachment']).toEqual([expect.objectContaining({ blurhash: 'L904eigQfQgQglflfQflfQfQfQfQ' })])
+    })
+
+    it('should derive object ids for posts that have none stored', () => {
+      expect(activityPubService.getObjectId(createPost({ objectId: null }))).toBe('https://parasocial.example/posts/post1')
+    })
+
+    it('should wrap the Note in Create and Update activities', () => {
+      const create = activityPubService.buildCreateActivity(createPost())
+      const update = activityPubService.buildUpdateActivity(createPost({
+        updatedAt: new Date('2025-06-02T08:00:00.000Z')
+      }))
+
+      expect(create).toMatchObject({
+        id: 'https://parasocial.example/posts/post1/activity',
+        type: 'Create',
+        actor: 'https://parasocial.example/users/creator',
+        object: { id: 'https://parasocial.example/posts/post1', type: 'Note' }
+      })
+      expect(update).toMatchObject({
+        id: `https://parasocial.example/posts/post1#updates/${new Date('2025-06-02T08:00:00.000Z').getTime()}`,
+        type: 'Update',
+        object: { id: 'https://parasocial.example/posts/post1', type: 'Note' }
+      })
+    })
+
+    it('should replace deleted posts with a Tombstone', () => {
+      expect(activityPubService.buildDeleteActivity(createPost())).toEqual({
+        '@context': 'https://www.w3.org/ns/activitystreams',
+        id: 'https://parasocial.example/posts/post1#delete',
+        type: 'Delete',
+        actor: 'https://parasocial.example/users/creator',
+        to: ['https://www.w3.org/ns/activitystreams#Public'],
+        object: { id: 'https://parasocial.example/posts/post1', type: 'Tombstone' }
+      })
+    })
+
+    it('should build the outbox collection and its pages', () => {
+      expect(activityPubService.buildOutboxCollection('creator', 45)).toMatchObject({
+        id: 'https://parasocial.example/users/creator/outbox',
+        type: 'OrderedCollection',
+        totalItems: 45,
+        first: 'https://parasocial.example/users/creator/outbox?page=1',
+        last: 'https://parasocial.example/users/creator/outbox?page=3'
+      })
+
+      const page = activityPubService.buildOutboxPage('creator', [createPost()], 2, true)
+      expect(page).toMatchObject({
+        id: 'https://parasocial.example/users/creator/outbox?page=2',
+        type: 'OrderedCollectionPage',
+        partOf: 'https://parasocial.example/users/creator/outbox',
+        prev: 'https://parasocial.example/users/creator/outbox?page=1',
+        next: 'https://parasocial.example/users/creator/outbox?page=3'
+      })
+      expect(page['orderedItems']).toHaveLength(1)
+    })
+  })
+
+  describe('getActor', () => {
+    it('should return the actor for active users', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(createUser())
+
+      const result = await activityPubService.getActor('creator')
+
+      expect(result.success).toBe(true)
+      expect(result.data?.id).toBe('https://parasocial.example/users/creator')
+      expect(mockUserRepository.findByUsername).toHaveBeenCalledWith('creator')
+    })
+
+    it('should find renamed users by the actor URI they federated under', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(null)
+      mockUserRepository.findByActorId.mockResolvedValue(createUser({ username: 'renamed' }))
+
+      const result = await activityPubService.getActor('creator')
+
+      expect(result.success).toBe(true)
+      expect(result.data?.id).toBe('https://parasocial.example/users/creator')
+      expect(result.data?.preferredUsername).toBe('renamed')
+      expect(mockUserRepository.findByActorId).toHaveBeenCalledWith('https://parasocial.example/users/creator')
+    })
+
+    it('should return USER_NOT_FOUND for unknown users', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(null)
+
+      const result = await activityPubService.getActor('nobody')
+
+      expect(result.code).toBe('USER_NOT_FOUND')
+    })
+
+    it('should return USER_INACTIVE for deactivated users', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(createUser({ isActive: false }))
+
+      const result = await activityPubService.getActor('creator')
+
+      expect(result.code).toBe('USER_INACTIVE')
+    })
+
+    it('should return ACTOR_NOT_FOUND for users without keys', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(createUser({ publicKey: null }))
+
+      const result = await activityPubService.getActor('creator')
+
+      expect(result.code).toBe('ACTOR_NOT_FOUND')
+    })
+
+    it('should return INTERNAL_ERROR when the repository fails', async () => {
+      mockUserRepository.findByUsername.mockRejectedValue(new Error('Database down'))
+
+      const result = await activityPubService.getActor('creator')
+
+      expect(result.code).toBe('INTERNAL_ERROR')
+    })
+  })
+})
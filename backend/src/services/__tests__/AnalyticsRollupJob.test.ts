@@ -0,0 +1,146 @@
+// backend/src/services/__tests__/AnalyticsRollupJob.test.ts
+// Version: 1.0.0
+// Daily per-creator analytics rollups with a mocked repository and a fixed clock
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AnalyticsRollupJob } from '../AnalyticsRollupJob'
+import { SchedulerClock } from '../PostScheduler'
+
+describe('AnalyticsRollupJob', () => {
+  const config = { enabled: true, intervalMs: 60000 }
+  const now = new Date('2025-06-02T12:00:00Z')
+  const day = (value: string) => new Date(`${value}T00:00:00Z`)
+
+  let mockAnalyticsRepository: any
+  let clock: SchedulerClock
+  let job: AnalyticsRollupJob
+
+  beforeEach(() => {
+    mockAnalyticsRepository = {
+      countNewFollowersByUser: vi.fn().mockResolvedValue(new Map([['creator1', 3]])),
+      countLostFollowersByUser: vi.fn().mockResolvedValue(new Map([['creator1', 1]])),
+      countPublishedPostsByUser: vi.fn().mockResolvedValue(new Map([['creator2', 2]])),
+      countDeliveryOutcomesByUser: vi.fn().mockResolvedValue(
+        new Map([['creator2', { attempted: 8, succeeded: 7 }]])
+      ),
+      countReportsReceivedByUser: vi.fn().mockResolvedValue(new Map()),
+      findDailyStatsUserIds: vi.fn().mockResolvedValue([]),
+      upsertDailyStats: vi.fn().mockResolvedValue(undefined)
+    }
+    clock = {
+      now: () => now,
+      setInterval: vi.fn().mockReturnValue(1),
+      clearInterval: vi.fn()
+    }
+
+    job = new AnalyticsRollupJob(mockAnalyticsRepository, config, clock)
+  })
+
+  describe('rollupDay()', () => {
+    it('should write one rollup per creator with activity that day', async () => {
+      const rows = await job.rollupDay(new Date('2025-06-01T15:00:00Z'))
+
+      expect(rows).toBe(2)
+      expect(mockAnalyticsRepository.countNewFollowersByUser).toHaveBeenCalledWith(day('2025-06-01'), day('2025-06-02'))
+      expect(mockAnalyticsRepository.upsertDailyStats).toHaveBeenCalledWith('creator1', day('2025-06-01'), {
+        newFollowers: 3,
+        lostFollowers: 1,
+        postsPublished: 0,
+        deliveriesAttempted: 0,
+        deliveriesSucceeded: 0,
+        reportsReceived: 0
+      })
+      expect(mockAnalyticsRepository.upsertDailyStats).toHaveBeenCalledWith('creator2', day('2025-06-01'), {
+        newFollowers: 0,
+        lostFollowers: 0,
+        postsPublished: 2,
+        deliveriesAttempted: 8,
+        deliveriesSucceeded: 7,
+        reportsReceived: 0
+      })
+    })
+
+    it('should write the same rollups when a day is run again', async () => {
+      await job.rollupDay(day('2025-06-01'))
+      const first = mockAnalyticsRepository.upsertDailyStats.mock.calls.slice()
+      mockAnalyticsRepository.upsertDailyStats.mockClear()
+
+      await job.rollupDay(day('2025-06-01'))
+
+      expect(mockAnalyticsRepository.upsertDailyStats.mock.calls).toEqual(first)
+    })
+
+    it('should zero an earlier rollup whose activity is gone', async () => {
+      mockAnalyticsRepository.findDailyStatsUserIds.mockResolvedValue(['creator3'])
+
+      await job.rollupDay(day('2025-06-01'))
+
+      expect(mockAnalyticsRepository.upsertDailyStats).toHaveBeenCalledWith('creator3', day('2025-06-01'), {
+        newFollowers: 0,
+        lostFollowers: 0,
+        postsPublished: 0,
+        deliveriesAttempted: 0,
+        deliveriesSucceeded: 0,
+        reportsReceived: 0
+      })
+    })
+  })
+
+  describe('runOnce()', () => {
+    it('should roll up yesterday and today', async () => {
+      const result = await job.runOnce()
+
+      expect(result).toEqual({ status: 'completed', days: 2, rows: 4 })
+      expect(mockAnalyticsRepository.findDailyStatsUserIds.mock.calls).toEqual([
+        [day('2025-06-01')],
+        [day('2025-06-02')]
+      ])
+    })
+
+    it('should report a failed run without throwing', async () => {
+      mockAnalyticsRepository.countPublishedPostsByUser.mockRejectedValue(new Error('Database down'))
+
+      const result = await job.runOnce()
+
+      expect(result).toEqual({ status: 'failed', days: 0, rows: 0 })
+    })
+
+    it('should skip a run that overlaps the previous one', async () => {
+      const first = job.runOnce()
+      const second = await job.runOnce()
+
+      expect(second).toEqual({ status: 'skipped', days: 0, rows: 0 })
+      await first
+    })
+  })
+
+  describe('backfill()', () => {
+    it('should roll up every day in the range, both ends included', async () => {
+      const result = await job.backfill(new Date('2025-05-01T18:00:00Z'), day('2025-05-10'))
+
+      expect(result).toEqual({ status: 'completed', days: 10, rows: 20 })
+      expect(mockAnalyticsRepository.findDailyStatsUserIds).toHaveBeenLastCalledWith(day('2025-05-10'))
+    })
+  })
+
+  describe('start() and stop()', () => {
+    it('should not start when disabled', () => {
+      job = new AnalyticsRollupJob(mockAnalyticsRepository, { ...config, enabled: false }, clock)
+
+      job.start()
+
+      expect(job.isRunning()).toBe(false)
+      expect(clock.setInterval).not.toHaveBeenCalled()
+    })
+
+    it('should start and stop the timer', async () => {
+      job.start()
+      expect(job.isRunning()).toBe(true)
+      expect(clock.setInterval).toHaveBeenCalledWith(expect.any(Function), 60000)
+
+      await job.stop()
+      expect(job.isRunning()).toBe(false)
+      expect(clock.clearInterval).toHaveBeenCalledWith(1)
+    })
+  })
+})
@@ -0,0 +1,220 @@
+// backend/src/services/__tests__/AnalyticsService.test.ts
+// Version: 1.1.0
+// Creator dashboard analytics and rollup series with a mocked repository
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AnalyticsService } from '../AnalyticsService'
+
+describe('AnalyticsService', () => {
+  const now = new Date('2025-06-30T12:00:00Z')
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+
+  let mockAnalyticsRepository: any
+  let analyticsService: AnalyticsService
+
+  beforeEach(() => {
+    mockAnalyticsRepository = {
+      countFollowers: vi.fn(async (_userId: string, since?: Date) => {
+        if (!since) return 120
+        return since.getTime() === daysAgo(7).getTime() ? 4 : 15
+      }),
+      findFollowerActorIds: vi.fn().mockResolvedValue([]),
+      countPublishedPosts: vi.fn().mockResolvedValue(36),
+      findPublishedTimes: vi.fn().mockResolvedValue([]),
+      countDeliveryOutcomes: vi.fn().mockResolvedValue({ attempted: 0, succeeded: 0 })
+    }
+
+    analyticsService = new AnalyticsService(mockAnalyticsRepository)
+  })
+
+  describe('getDashboard()', () => {
+    it('should count followers in total and over the last week and month', async () => {
+      const result = await analyticsService.getDashboard('user123', { now })
+
+      expect(result.success).toBe(true)
+      expect(result.data?.followers).toMatchObject({ total: 120, weeklyGrowth: 4, monthlyGrowth: 15 })
+      expect(mockAnalyticsRepository.countFollowers).toHaveBeenCalledWith('user123', daysAgo(30))
+      expect(result.data?.generatedAt).toEqual(now)
+    })
+
+    it('should rank instances by follower count from actor URIs', async () => {
+      mockAnalyticsRepository.findFollowerActorIds.mockResolvedValue([
+        'https://mastodon.social/users/alice',
+        'https://lemmy.world/u/bob',
+        'https://mastodon.social/users/carol',
+        'https://pixelfed.social/users/dan',
+        'https://lemmy.world/u/erin',
+        'https://mastodon.social/users/frank',
+        'not a url'
+      ])
+
+      const result = await analyticsService.getDashboard('user123', { now })
+
+      expect(result.data?.followers.topInstances).toEqual([
+        { host: 'mastodon.social', followers: 3 },
+        { host: 'lemmy.world', followers: 2 },
+        { host: 'pixelfed.social', followers: 1 }
+      ])
+    })
+
+    it('should keep only the five largest instances', async () => {
+      mockAnalyticsRepository.findFollowerActorIds.mockResolvedValue(
+        ['a', 'b', 'c', 'd', 'e', 'f'].map(host => `https://${host}.example/users/someone`)
+      )
+
+      const result = await analyticsService.getDashboard('user123', { now })
+
+      expect(result.data?.followers.topInstances.map(instance => instance.host)).toEqual([
+        'a.example', 'b.example', 'c.example', 'd.example', 'e.example'
+      ])
+    })
+
+    it('should find the busiest posting hours over the last 90 days', async () => {
+      mockAnalyticsRepository.findPublishedTimes.mockResolvedValue([
+        new Date('2025-06-02T09:15:00Z'),
+        new Date('2025-06-03T09:45:00Z'),
+        new Date('2025-06-04T15:00:00Z'),
+        new Date('2025-06-05T20:30:00Z'),
+        new Date('2025-06-06T20:10:00Z'),
+        new Date('2025-06-07T09:05:00Z'),
+        new Date('2025-06-08T07:00:00Z')
+      ])
+
+      const result = await analyticsService.getDashboard('user123', { now })
+
+      expect(mockAnalyticsRepository.findPublishedTimes).toHaveBeenCalledWith('user123', daysAgo(90))
+      expect(result.data?.posts).toEqual({
+        total: 36,
+        postsPerWeek: 0.5,
+        bestPostingTimes: [
+          { hour: '09:00', posts: 3 },
+          { hour: '20:00', posts: 2 },
+          { hour: '07:00', posts: 1 }
+        ],
+        timezone: 'UTC'
+      })
+    })
+
+    it('should report posting hours in the requested timezone', async () => {
+      mockAnalyticsRepository.findPublishedTimes.mockResolvedValue([
+        new Date('2025-06-02T13:00:00Z'),
+        new Date('2025-01-15T14:00:00Z')
+      ])
+
+      const result = await analyticsService.getDashboard('user123', { now, timezone: 'America/New_York' })
+
+      // Both are 9am local time, either side of daylight saving
+      expect(result.data?.posts.bestPostingTimes).toEqual([{ hour: '09:00', posts: 2 }])
+      expect(result.data?.posts.timezone).toBe('America/New_York')
+    })
+
+    it('should refuse an unknown timezone', async () => {
+      const result = await analyticsService.getDashboard('user123', { now, timezone: 'Mars/Olympus_Mons' })
+
+      expect(result).toEqual({ success: false, error: 'Unknown timezone', code: 'INVALID_TIMEZONE' })
+      expect(mockAnalyticsRepository.countFollowers).not.toHaveBeenCalled()
+    })
+
+    it('should rate delivery success over the last 30 days', async () => {
+      mockAnalyticsRepository.countDeliveryOutcomes.mockResolvedValue({ attempted: 200, succeeded: 188 })
+
+      const result = await analyticsService.getDashboard('user123', { now })
+
+      expect(mockAnalyticsRepository.countDeliveryOutcomes).toHaveBeenCalledWith('user123', daysAgo(30))
+      expect(result.data?.delivery).toEqual({
+        attempted: 200,
+        succeeded: 188,
+        successRate: 0.94,
+        federationHealth: 'fair'
+      })
+    })
+
+    it.each([
+      [100, 95, 'good'],
+      [100, 80, 'fair'],
+      [100, 79, 'poor']
+    ])('should rate %i attempts with %i successes as %s', async (attempted, succeeded, health) => {
+      mockAnalyticsRepository.countDeliveryOutcomes.mockResolvedValue({ attempted, succeeded })
+
+      const result = await analyticsService.getDashboard('user123', { now })
+
+      expect(result.data?.delivery.federationHealth).toBe(health)
+    })
+
+    it('should leave delivery success empty when nothing was delivered', async () => {
+      const result = await analyticsService.getDashboard('user123', { now })
+
+      expect(result.data?.delivery).toEqual({
+        attempted: 0,
+        succeeded: 0,
+        successRate: null,
+        federationHealth: null
+      })
+    })
+  })
+  describe('getSeries()', () => {
+    const day = (value: string) => new Date(`${value}T00:00:00Z`)
+
+    beforeEach(() => {
+      mockAnalyticsRepository.findDailyStats = vi.fn().mockResolvedValue([])
+    })
+
+    it('should default to the last 30 days up to today', async () => {
+      const result = await analyticsService.getSeries('user123', { interval: 'day', now })
+
+      expect(result.data).toMatchObject({ interval: 'day', from: '2025-06-01', to: '2025-06-30' })
+      expect(result.data?.points).toHaveLength(30)
+      expect(mockAnalyticsRepository.findDailyStats).toHaveBeenCalledWith('user123', day('2025-06-01'), day('2025-06-30'))
+    })
+
+    it('should default to 12 whole weeks and 12 whole months', async () => {
+      const weeks = await analyticsService.getSeries('user123', { interval: 'week', now })
+      const months = await analyticsService.getSeries('user123', { interval: 'month', now })
+
+      // 2025-06-30 is a Monday
+      expect(weeks.data).toMatchObject({ from: '2025-04-14', to: '2025-06-30' })
+      expect(weeks.data?.points).toHaveLength(12)
+      expect(months.data).toMatchObject({ from: '2024-07-01', to: '2025-06-30' })
+      expect(months.data?.points).toHaveLength(12)
+    })
+
+    it('should move from back to the start of its bucket', async () => {
+      const result = await analyticsService.getSeries('user123', {
+        interval: 'month',
+        from: '2025-03-15',
+        to: '2025-05-10',
+        now
+      })
+
+      expect(result.data?.from).toBe('2025-03-01')
+      expect(result.data?.points.map(point => point.start)).toEqual(['2025-03-01', '2025-04-01', '2025-05-01'])
+    })
+
+    it('should sum stored rollups into their buckets', async () => {
+      mockAnalyticsRepository.findDailyStats.mockResolvedValue([
+        { date: day('2025-06-29'), newFollowers: 2, lostFollowers: 1, postsPublished: 1, deliveriesAttempted: 4, deliveriesSucceeded: 4, reportsReceived: 0 },
+        { date: day('2025-06-30'), newFollowers: 5, lostFollowers: 0, postsPublished: 0, deliveriesAttempted: 0, deliveriesSucceeded: 0, reportsReceived: 1 }
+      ])
+
+      const result = await analyticsService.getSeries('user123', { interval: 'week', from: '2025-06-23', now })
+
+      expect(result.data?.points).toEqual([
+        { start: '2025-06-23', newFollowers: 2, lostFollowers: 1, postsPublished: 1, deliveriesAttempted: 4, deliveriesSucceeded: 4, reportsReceived: 0 },
+        { start: '2025-06-30', newFollowers: 5, lostFollowers: 0, postsPublished: 0, deliveriesAttempted: 0, deliveriesSucceeded: 0, reportsReceived: 1 }
+      ])
+    })
+
+    it('should refuse a range that ends before it starts', async () => {
+      const result = await analyticsService.getSeries('user123', { interval: 'day', from: '2025-06-10', to: '2025-06-01' })
+
+      expect(result).toMatchObject({ success: false, code: 'INVALID_RANGE' })
+      expect(mockAnalyticsRepository.findDailyStats).not.toHaveBeenCalled()
+    })
+
+    it('should refuse a series with too many points', async () => {
+      const result = await analyticsService.getSeries('user123', { interval: 'day', from: '2023-01-01', to: '2025-06-01' })
+
+      expect(result).toMatchObject({ success: false, code: 'INVALID_RANGE' })
+    })
+  })
+})
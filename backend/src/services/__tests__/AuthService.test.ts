@@ -1,5 +1,7 @@
 // backend/src/services/__tests__/AuthService.test.ts
-// Version: 3.0.0
+// Version: 3.2.0
+// Added: Password validation tests
+// Added: Session-bound token generation test
 // Fixed: Updated verifyPassword test to use correct argument order (hashedPassword, plainPassword)
 // Fixed: Updated extractTokenFromHeader tests to match case-insensitive implementation
 // Fixed: Updated whitespace handling tests to match actual split behavior
@@ -54,9 +56,42 @@ describe('AuthService', () => {
       )
       expect(result).toBe(expectedToken)
     })
+
+    it('should bind the token to a session with a jti claim', () => {
+      mockSign.mockReturnValue('session.jwt.token' as never)
+
+      const result = authService.generateToken(testUser, { id: 'session1', expiresInSeconds: 900 })
+
+      expect(mockSign).toHaveBeenCalledWith(
+        {
+          userId: testUser.id,
+          email: testUser.email,
+          username: testUser.username
+        },
+        expect.any(String),
+        { expiresIn: 900, jwtid: 'session1' }
+      )
+      expect(result).toBe('session.jwt.token')
+    })
+  })
+
+  describe('validatePassword', () => {
+    it('should accept passwords that meet the registration rules', () => {
+      expect(authService.validatePassword('Password123')).toEqual({ success: true })
+    })
+
+    it('should reject short or missing passwords', () => {
+      const result = authService.validatePassword('12345')
+
+      expect(result.success).toBe(false)
+      expect(result.error.details).toEqual([
+        { field: 'password', message: 'Password must be at least 6 characters' }
+      ])
+      expect(authService.validatePassword(undefined).success).toBe(false)
+    })
   })
 
-  describe('hashPassword', () => {
+    describe('hashPassword', () => {
     it('should hash password with bcrypt', async () => {
       // Arrange
       const password = 'plaintext_password'
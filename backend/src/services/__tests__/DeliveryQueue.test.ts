@@ -0,0 +1,258 @@
+// backend/src/services/__tests__/DeliveryQueue.test.ts
+// Version: 1.0.0
+// Delivery queue tests with an in-memory job store and a local stand-in inbox server
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { DeliveryQueue } from '../DeliveryQueue'
+import { ActivityDeliveryService } from '../ActivityDeliveryService'
+import { ActorKeyService } from '../ActorKeyService'
+import { DeliveryJob, DeliveryJobCreateData } from '../../repositories/DeliveryJobRepository'
+import { parseSignatureHeader, verifySignature } from '../../utils/httpSignature'
+
+/**
+ * In-memory stand-in for DeliveryJobRepository
+ */
+class InMemoryDeliveryJobRepository {
+  jobs: DeliveryJob[] = []
+  private nextId = 1
+
+  async enqueue(jobs: DeliveryJobCreateData[]) {
+    let created = 0
+    for (const job of jobs) {
+      if (this.jobs.some(existing => existing.activityId === job.activityId && existing.inbox === job.inbox)) {
+        continue
+      }
+      this.jobs.push({
+        ...job,
+        id: `job${this.nextId++}`,
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: new Date(0),
+        lastError: null,
+        createdAt: new Date(0),
+        updatedAt: new Date(0)
+      })
+      created++
+    }
+    return created
+  }
+
+  async claimDue(limit: number, now: Date) {
+    const due = this.jobs
+      .filter(job => job.status === 'PENDING' && job.nextAttemptAt <= now)
+      .slice(0, limit)
+    due.forEach(job => { job.status = 'PROCESSING' })
+    return due.map(job => ({ ...job }))
+  }
+
+  async markDelivered(id: string) {
+    this.jobs = this.jobs.filter(job => job.id !== id)
+  }
+
+  async scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, error: string) {
+    Object.assign(this.find(id), { status: 'PENDING', attempts, nextAttemptAt, lastError: error })
+  }
+
+  async markDead(id: string, attempts: number, error: string) {
+    Object.assign(this.find(id), { status: 'DEAD', attempts, lastError: error })
+  }
+
+  async releaseStale() {
+    return 0
+  }
+
+  private find(id: string) {
+    return this.jobs.find(job => job.id === id)!
+  }
+}
+
+describe('DeliveryQueue', () => {
+  const actorKeyService = new ActorKeyService('test-actor-key-secret-at-least-32-characters')
+  const senderActorId = 'https://parasocial.example/users/creator'
+  const config = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 5000,
+    hostConcurrency: 2,
+    batchSize: 50,
+    pollIntervalMs: 1000
+  }
+  const now = new Date('2025-06-01T12:00:00Z')
+
+  let publicKeyPem: string
+  let privateKey: string
+  let server: http.Server
+  let baseUrl: string
+  let responseStatus: number
+  let responseDelayMs: number
+  let inFlight: number
+  let maxInFlight: number
+  let verifiedBodies: string[]
+
+  let repository: InMemoryDeliveryJobRepository
+  let deliveryQueue: DeliveryQueue
+
+  const activity = {
+    '@context': 'https://www.w3.org/ns/activitystreams',
+    id: 'https://parasocial.example/posts/post1/activity',
+    type: 'Create',
+    actor: senderActorId,
+    object: { id: 'https://parasocial.example/posts/post1', type: 'Note' }
+  }
+
+  beforeAll(async () => {
+    const keyPair = await actorKeyService.generateEncryptedKeyPair()
+    publicKeyPem = keyPair.publicKey
+    privateKey = keyPair.privateKey
+
+    server = http.createServer((req, res) => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+
+      let body = ''
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => {
+        const signature = parseSignatureHeader(String(req.headers['signature'] || ''))
+        if (signature && verifySignature({
+          method: req.method || 'POST',
+          path: req.url || '/',
+          headers: req.headers,
+          signature,
+          publicKeyPem
+        })) {
+          verifiedBodies.push(body)
+        }
+
+        setTimeout(() => {
+          inFlight--
+          res.statusCode = responseStatus
+          res.end()
+        }, responseDelayMs)
+      })
+    })
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()))
+  })
+
+  beforeEach(() => {
+    responseStatus = 202
+    responseDelayMs = 0
+    inFlight = 0
+    maxInFlight = 0
+    verifiedBodies = []
+
+    repository = new InMemoryDeliveryJobRepository()
+    const userRepository = {
+      findById: async (id: string) => id === 'user123'
+        ? { id, actorId: senderActorId, privateKey }
+        : null
+    }
+
+    deliveryQueue = new DeliveryQueue(
+      repository as any,
+      new ActivityDeliveryService(actorKeyService),
+      userRepository as any,
+      config
+    )
+  })
+
+  it('should collapse duplicate inboxes and skip invalid URLs when enqueuing', async () => {
+    const queued = await deliveryQueue.enqueue(activity, [
+      `${baseUrl}/inbox`,
+      `${baseUrl}/inbox`,
+      `${baseUrl}/users/bob/inbox`,
+      'not a url'
+    ], 'user123')
+
+    expect(queued).toBe(2)
+    expect(repository.jobs.map(job => job.host)).toEqual([new URL(baseUrl).host, new URL(baseUrl).host])
+  })
+
+  it('should deliver signed activities and remove delivered jobs', async () => {
+    await deliveryQueue.enqueue(activity, [`${baseUrl}/inbox`], 'user123')
+
+    const summary = await deliveryQueue.processDue(now)
+
+    expect(summary).toEqual({ claimed: 1, delivered: 1, retried: 0, dead: 0 })
+    expect(verifiedBodies).toHaveLength(1)
+    expect(JSON.parse(verifiedBodies[0]!)).toEqual(activity)
+    expect(repository.jobs).toHaveLength(0)
+  })
+
+  it('should retry server errors with exponential backoff', async () => {
+    responseStatus = 503
+    await deliveryQueue.enqueue(activity, [`${baseUrl}/inbox`], 'user123')
+
+    await deliveryQueue.processDue(now)
+    expect(repository.jobs[0]).toMatchObject({ status: 'PENDING', attempts: 1 })
+    expect(repository.jobs[0]!.nextAttemptAt).toEqual(new Date(now.getTime() + 1000))
+
+    // Not due yet
+    expect((await deliveryQueue.processDue(now)).claimed).toBe(0)
+
+    const later = new Date(now.getTime() + 1000)
+    await deliveryQueue.processDue(later)
+    expect(repository.jobs[0]).toMatchObject({ status: 'PENDING', attempts: 2 })
+    expect(repository.jobs[0]!.nextAttemptAt).toEqual(new Date(later.getTime() + 2000))
+  })
+
+  it('should dead-letter jobs after the last attempt', async () => {
+    responseStatus = 500
+    await deliveryQueue.enqueue(activity, [`${baseUrl}/inbox`], 'user123')
+
+    let clock = now.getTime()
+    for (let attempt = 0; attempt < config.maxAttempts; attempt++) {
+      await deliveryQueue.processDue(new Date(clock))
+      clock += config.maxDelayMs
+    }
+
+    expect(repository.jobs[0]).toMatchObject({ status: 'DEAD', attempts: 3 })
+    expect(repository.jobs[0]!.lastError).toContain('HTTP 500')
+    expect((await deliveryQueue.processDue(new Date(clock))).claimed).toBe(0)
+  })
+
+  it('should dead-letter client errors immediately but retry rate limits', async () => {
+    responseStatus = 410
+    await deliveryQueue.enqueue(activity, [`${baseUrl}/gone/inbox`], 'user123')
+    await deliveryQueue.processDue(now)
+    expect(repository.jobs[0]).toMatchObject({ status: 'DEAD', attempts: 1 })
+
+    responseStatus = 429
+    await deliveryQueue.enqueue(activity, [`${baseUrl}/busy/inbox`], 'user123')
+    await deliveryQueue.processDue(now)
+    expect(repository.jobs[1]).toMatchObject({ status: 'PENDING', attempts: 1 })
+  })
+
+  it('should dead-letter jobs whose sender can no longer sign', async () => {
+    await deliveryQueue.enqueue(activity, [`${baseUrl}/inbox`], 'deleted-user')
+
+    const summary = await deliveryQueue.processDue(now)
+
+    expect(summary.dead).toBe(1)
+    expect(verifiedBodies).toHaveLength(0)
+  })
+
+  it('should limit concurrent deliveries per host', async () => {
+    responseDelayMs = 30
+    const inboxes = Array.from({ length: 6 }, (_, index) => `${baseUrl}/users/follower${index}/inbox`)
+    await deliveryQueue.enqueue(activity, inboxes, 'user123')
+
+    const summary = await deliveryQueue.processDue(now)
+
+    expect(summary.delivered).toBe(6)
+    expect(maxInFlight).toBe(config.hostConcurrency)
+  })
+
+  it('should cap the retry delay', () => {
+    expect(deliveryQueue.getRetryDelay(1)).toBe(1000)
+    expect(deliveryQueue.getRetryDelay(3)).toBe(4000)
+    expect(deliveryQueue.getRetryDelay(10)).toBe(5000)
+  })
+})
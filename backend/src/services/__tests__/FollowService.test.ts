@@ -17,7 +17,11 @@ const mockFollowRepository = {
   getFollowStats: vi.fn(),
   isFollowing: vi.fn(),
   bulkCheckFollowing: vi.fn(),
-  findRecentFollowers: vi.fn()
+  findRecentFollowers: vi.fn(),
+  findPendingByFollowedId: vi.fn(),
+  findById: vi.fn(),
+  accept: vi.fn(),
+  deleteById: vi.fn()
 }
 
 /**
@@ -28,7 +32,15 @@ const mockUserRepository = {
   findByEmail: vi.fn(),
   findByUsername: vi.fn(),
   create: vi.fn(),
-  update: vi.fn()
+  update: vi.fn(),
+  findByIds: vi.fn()
+}
+
+/**
+ * Mock OutboxService for answering remote follow requests
+ */
+const mockOutboxService = {
+  answerFollowRequest: vi.fn()
 }
 
 describe('FollowService Unit Tests', () => {
@@ -110,7 +122,8 @@ describe('FollowService Unit Tests', () => {
       expect(mockFollowRepository.create).toHaveBeenCalledWith({
         followerId: testFollowerId,
         followedId: testUserId,
-        actorId: undefined
+        actorId: undefined,
+        isAccepted: true
       })
     })
 
@@ -137,7 +150,8 @@ describe('FollowService Unit Tests', () => {
       expect(mockFollowRepository.create).toHaveBeenCalledWith({
         followerId: testFollowerId,
         followedId: testUserId,
-        actorId: testActorId
+        actorId: testActorId,
+        isAccepted: true
       })
     })
 
@@ -634,6 +648,116 @@ describe('FollowService Unit Tests', () => {
     })
   })
 
+  /**
+   * Test follow requests for accounts that approve their followers
+   */
+  describe('follow requests', () => {
+    const pendingRequest = {
+      ...mockFollowRelationship,
+      isAccepted: false
+    }
+
+    beforeEach(() => {
+      followService = new FollowService(
+        mockFollowRepository as any,
+        mockUserRepository as any,
+        mockOutboxService as any
+      )
+    })
+
+    it('should store a follow request when the user approves followers', async () => {
+      mockUserRepository.findById.mockResolvedValueOnce({ ...mockUser, approveFollowers: true })
+      mockFollowRepository.findByFollowerAndFollowed.mockResolvedValueOnce(null)
+      mockFollowRepository.create.mockResolvedValueOnce(pendingRequest)
+
+      const result = await followService.followUser({ followerId: testFollowerId, followedId: testUserId })
+
+      expect(result.success).toBe(true)
+      expect(result.data?.isAccepted).toBe(false)
+      expect(mockFollowRepository.create).toHaveBeenCalledWith(expect.objectContaining({ isAccepted: false }))
+    })
+
+    it('should not send a second request while one is pending', async () => {
+      mockUserRepository.findById.mockResolvedValueOnce({ ...mockUser, approveFollowers: true })
+      mockFollowRepository.findByFollowerAndFollowed.mockResolvedValueOnce(pendingRequest)
+
+      const result = await followService.followUser({ followerId: testFollowerId, followedId: testUserId })
+
+      expect(result.code).toBe('FOLLOW_REQUEST_PENDING')
+      expect(mockFollowRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should list pending requests with local follower profiles', async () => {
+      const createdAt = new Date('2025-01-15T10:00:00Z')
+      mockFollowRepository.findPendingByFollowedId.mockResolvedValueOnce({
+        requests: [
+          { id: 'request1', followerId: testFollowerId, actorId: null, createdAt },
+          { id: 'request2', followerId: testActorId, actorId: testActorId, createdAt }
+        ],
+        totalCount: 2,
+        hasMore: false
+      })
+      mockUserRepository.findByIds.mockResolvedValueOnce([
+        { id: testFollowerId, username: 'fan', displayName: 'Fan', avatar: null, isVerified: false, email: 'fan@example.com' }
+      ])
+
+      const result = await followService.getFollowRequests(testUserId, { limit: 20 })
+
+      expect(mockFollowRepository.findPendingByFollowedId).toHaveBeenCalledWith(testUserId, { limit: 20 })
+      expect(mockUserRepository.findByIds).toHaveBeenCalledWith([testFollowerId])
+      expect(result.data).toEqual({
+        requests: [
+          {
+            id: 'request1',
+            followerId: testFollowerId,
+            actorId: null,
+            createdAt,
+            follower: { id: testFollowerId, username: 'fan', displayName: 'Fan', avatar: null, isVerified: false }
+          },
+          { id: 'request2', followerId: testActorId, actorId: testActorId, createdAt, follower: null }
+        ],
+        totalCount: 2,
+        hasMore: false
+      })
+    })
+
+    it('should accept a pending request and answer remote requesters', async () => {
+      mockFollowRepository.findById.mockResolvedValueOnce(pendingRequest)
+      mockFollowRepository.accept.mockResolvedValueOnce({ ...pendingRequest, isAccepted: true })
+
+      const result = await followService.acceptFollowRequest(testUserId, 'follow_123')
+
+      expect(result.success).toBe(true)
+      expect(mockFollowRepository.accept).toHaveBeenCalledWith('follow_123')
+      expect(mockOutboxService.answerFollowRequest).toHaveBeenCalledWith(pendingRequest, 'Accept')
+    })
+
+    it('should reject a pending request by removing it', async () => {
+      mockFollowRepository.findById.mockResolvedValueOnce(pendingRequest)
+      mockFollowRepository.deleteById.mockResolvedValueOnce(pendingRequest)
+
+      const result = await followService.rejectFollowRequest(testUserId, 'follow_123')
+
+      expect(result.success).toBe(true)
+      expect(mockFollowRepository.deleteById).toHaveBeenCalledWith('follow_123')
+      expect(mockOutboxService.answerFollowRequest).toHaveBeenCalledWith(pendingRequest, 'Reject')
+    })
+
+    it.each([
+      ['missing', null],
+      ['sent to someone else', { ...mockFollowRelationship, followedId: 'someone_else', isAccepted: false }],
+      ['already accepted', mockFollowRelationship]
+    ])('should not answer a request that is %s', async (_label, follow) => {
+      mockFollowRepository.findById.mockResolvedValueOnce(follow)
+
+      const result = await followService.acceptFollowRequest(testUserId, 'follow_123')
+
+      expect(result.code).toBe('FOLLOW_REQUEST_NOT_FOUND')
+      expect(mockFollowRepository.accept).not.toHaveBeenCalled()
+      expect(mockOutboxService.answerFollowRequest).not.toHaveBeenCalled()
+    })
+  })
+
   /**
    * Test error handling for repository failures
    */
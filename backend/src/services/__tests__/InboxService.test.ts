@@ -0,0 +1,301 @@
+// backend/src/services/__tests__/InboxService.test.ts
+// Version: 1.1.1
+// Unit tests for inbox handling of Follow, Undo, Delete and Block activities
+// Changed: Follows to accounts that approve followers wait as requests
+// Changed: Added delivery to the old actor URI of a renamed account
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { InboxService } from '../InboxService'
+import { User } from '../../models/User'
+
+describe('InboxService', () => {
+  let inboxService: InboxService
+  let mockUserRepository: any
+  let mockFollowRepository: any
+  let mockActivityPubService: any
+  let mockRemoteActorService: any
+  let mockActivityDeliveryService: any
+
+  const remoteActor = 'https://remote.example/users/alice'
+  const localActor = 'https://parasocial.example/users/creator'
+
+  const localUser = new User({
+    id: 'user123',
+    email: 'creator@example.com',
+    username: 'creator',
+    isActive: true,
+    actorId: localActor,
+    publicKey: 'PUBLIC',
+    privateKey: 'v1:encrypted'
+  })
+
+  const followActivity = {
+    '@context': 'https://www.w3.org/ns/activitystreams',
+    id: 'https://remote.example/follows/1',
+    type: 'Follow',
+    actor: remoteActor,
+    object: localActor
+  }
+
+  beforeEach(() => {
+    mockUserRepository = {
+      findByUsername: vi.fn().mockResolvedValue(localUser),
+      findByActorId: vi.fn().mockResolvedValue(null)
+    }
+    mockFollowRepository = {
+      findByFollowerAndFollowed: vi.fn().mockResolvedValue(null),
+      findByActivityId: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue({ id: 'follow1', isAccepted: true }),
+      deleteByFollowerAndFollowed: vi.fn().mockResolvedValue({ id: 'follow1' }),
+      deleteByActorId: vi.fn().mockResolvedValue(2)
+    }
+    mockActivityPubService = {
+      getActorUri: vi.fn((username: string) => `https://parasocial.example/users/${username}`),
+      buildAcceptActivity: vi.fn().mockReturnValue({ id: `${localActor}#accepts/follows/follow1`, type: 'Accept' })
+    }
+    mockRemoteActorService = {
+      fetchActor: vi.fn().mockResolvedValue({ id: remoteActor, inbox: `${remoteActor}/inbox` }),
+      evict: vi.fn()
+    }
+    mockActivityDeliveryService = {
+      deliver: vi.fn().mockResolvedValue({ success: true, status: 202 })
+    }
+
+    inboxService = new InboxService(
+      mockUserRepository,
+      mockFollowRepository,
+      mockActivityPubService,
+      mockRemoteActorService,
+      mockActivityDeliveryService
+    )
+  })
+
+  describe('validation', () => {
+    it('should reject activities whose actor did not sign the request', async () => {
+      const result = await inboxService.handleActivity('creator', followActivity, 'https://evil.example/users/mallory')
+
+      expect(result.code).toBe('ACTOR_MISMATCH')
+      expect(mockFollowRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject activities without an id', async () => {
+      const result = await inboxService.handleActivity('creator', { ...followActivity, id: undefined } as any, remoteActor)
+
+      expect(result.code).toBe('INVALID_ACTIVITY')
+    })
+
+    it('should return USER_NOT_FOUND for unknown inboxes', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(null)
+
+      const result = await inboxService.handleActivity('nobody', followActivity, remoteActor)
+
+      expect(result.code).toBe('USER_NOT_FOUND')
+    })
+
+    it('should acknowledge unsupported activity types without changes', async () => {
+      const result = await inboxService.handleActivity('creator', { ...followActivity, type: 'Like' }, remoteActor)
+
+      expect(result).toEqual({ success: true, data: { type: 'Like', status: 'ignored' } })
+    })
+  })
+
+  describe('Follow', () => {
+    it('should store the follow with actor and activity ids and send a signed Accept', async () => {
+      const result = await inboxService.handleActivity('creator', followActivity, remoteActor)
+
+      expect(result).toEqual({ success: true, data: { type: 'Follow', status: 'processed' } })
+      expect(mockFollowRepository.create).toHaveBeenCalledWith({
+        followerId: remoteActor,
+        followedId: 'user123',
+        actorId: remoteActor,
+        activityId: 'https://remote.example/follows/1',
+        isAccepted: true
+      })
+
+      await vi.waitFor(() => expect(mockActivityDeliveryService.deliver).toHaveBeenCalled())
+      expect(mockActivityPubService.buildAcceptActivity).toHaveBeenCalledWith(localUser, followActivity, 'follow1')
+      expect(mockActivityDeliveryService.deliver).toHaveBeenCalledWith(
+        { id: `${localActor}#accepts/follows/follow1`, type: 'Accept' },
+        `${remoteActor}/inbox`,
+        { actorId: localActor, privateKey: 'v1:encrypted' }
+      )
+    })
+
+    it('should deliver to a renamed account through the actor URI of its old username', async () => {
+      const renamedUser = new User({
+        id: 'user123',
+        email: 'creator@example.com',
+        username: 'creator-renamed',
+        isActive: true,
+        actorId: localActor,
+        publicKey: 'PUBLIC',
+        privateKey: 'v1:encrypted'
+      })
+      mockUserRepository.findByUsername.mockResolvedValue(null)
+      mockUserRepository.findByActorId.mockResolvedValue(renamedUser)
+
+      const result = await inboxService.handleActivity('creator', followActivity, remoteActor)
+
+      expect(result).toEqual({ success: true, data: { type: 'Follow', status: 'processed' } })
+      expect(mockUserRepository.findByActorId).toHaveBeenCalledWith(localActor)
+      expect(mockFollowRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        followerId: remoteActor,
+        followedId: 'user123'
+      }))
+      await vi.waitFor(() => expect(mockActivityDeliveryService.deliver).toHaveBeenCalled())
+      expect(mockActivityPubService.buildAcceptActivity).toHaveBeenCalledWith(renamedUser, followActivity, 'follow1')
+    })
+
+    it('should re-send Accept without duplicating existing follows', async () => {
+      mockFollowRepository.findByFollowerAndFollowed.mockResolvedValue({ id: 'existing', isAccepted: true })
+
+      await inboxService.handleActivity('creator', followActivity, remoteActor)
+
+      expect(mockFollowRepository.create).not.toHaveBeenCalled()
+      await vi.waitFor(() => expect(mockActivityPubService.buildAcceptActivity).toHaveBeenCalledWith(localUser, followActivity, 'existing'))
+    })
+
+    it('should hold the follow as a request when the user approves followers', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(new User({ ...localUser, approveFollowers: true }))
+      mockFollowRepository.create.mockResolvedValue({ id: 'follow1', isAccepted: false })
+
+      const result = await inboxService.handleActivity('creator', followActivity, remoteActor)
+
+      expect(result).toEqual({ success: true, data: { type: 'Follow', status: 'processed' } })
+      expect(mockFollowRepository.create).toHaveBeenCalledWith(expect.objectContaining({ isAccepted: false }))
+      expect(mockActivityPubService.buildAcceptActivity).not.toHaveBeenCalled()
+    })
+
+    it('should not accept a repeated Follow while the request is pending', async () => {
+      mockFollowRepository.findByFollowerAndFollowed.mockResolvedValue({ id: 'existing', isAccepted: false })
+
+      await inboxService.handleActivity('creator', followActivity, remoteActor)
+
+      expect(mockFollowRepository.create).not.toHaveBeenCalled()
+      expect(mockRemoteActorService.fetchActor).not.toHaveBeenCalled()
+      expect(mockActivityPubService.buildAcceptActivity).not.toHaveBeenCalled()
+    })
+
+    it('should reject follows aimed at a different actor', async () => {
+      const result = await inboxService.handleActivity('creator', {
+        ...followActivity,
+        object: 'https://parasocial.example/users/other'
+      }, remoteActor)
+
+      expect(result.code).toBe('INVALID_ACTIVITY')
+      expect(mockFollowRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('should still succeed when the Accept cannot be delivered', async () => {
+      mockRemoteActorService.fetchActor.mockRejectedValue(new Error('offline'))
+
+      const result = await inboxService.handleActivity('creator', followActivity, remoteActor)
+
+      expect(result.success).toBe(true)
+    })
+  })
+
+  describe('Undo', () => {
+    const undoActivity = {
+      id: 'https://remote.example/undo/1',
+      type: 'Undo',
+      actor: remoteActor,
+      object: followActivity
+    }
+
+    it('should remove the follow matched by activity id', async () => {
+      mockFollowRepository.findByActivityId.mockResolvedValue({
+        id: 'follow1',
+        followerId: remoteActor,
+        followedId: 'user123',
+        actorId: remoteActor
+      })
+
+      const result = await inboxService.handleActivity('creator', undoActivity, remoteActor)
+
+      expect(result.data?.status).toBe('processed')
+      expect(mockFollowRepository.findByActivityId).toHaveBeenCalledWith('https://remote.example/follows/1')
+      expect(mockFollowRepository.deleteByFollowerAndFollowed).toHaveBeenCalledWith(remoteActor, 'user123')
+    })
+
+    it('should fall back to actor and target when the Follow id is unknown', async () => {
+      const result = await inboxService.handleActivity('creator', undoActivity, remoteActor)
+
+      expect(result.data?.status).toBe('processed')
+      expect(mockFollowRepository.deleteByFollowerAndFollowed).toHaveBeenCalledWith(remoteActor, 'user123')
+    })
+
+    it('should not let an actor undo someone else\'s follow', async () => {
+      mockFollowRepository.findByActivityId.mockResolvedValue({
+        id: 'follow1',
+        followerId: 'https://remote.example/users/bob',
+        followedId: 'user123',
+        actorId: 'https://remote.example/users/bob'
+      })
+
+      const result = await inboxService.handleActivity('creator', undoActivity, remoteActor)
+
+      expect(result.code).toBe('ACTOR_MISMATCH')
+      expect(mockFollowRepository.deleteByFollowerAndFollowed).not.toHaveBeenCalled()
+    })
+
+    it('should ignore Undo of other activity types', async () => {
+      const result = await inboxService.handleActivity('creator', {
+        ...undoActivity,
+        object: { id: 'https://remote.example/likes/1', type: 'Like', actor: remoteActor }
+      }, remoteActor)
+
+      expect(result.data?.status).toBe('ignored')
+      expect(mockFollowRepository.deleteByFollowerAndFollowed).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Delete', () => {
+    it('should drop every follow of a deleted actor', async () => {
+      const result = await inboxService.handleActivity('creator', {
+        id: `${remoteActor}#delete`,
+        type: 'Delete',
+        actor: remoteActor,
+        object: remoteActor
+      }, remoteActor)
+
+      expect(result.data?.status).toBe('processed')
+      expect(mockFollowRepository.deleteByActorId).toHaveBeenCalledWith(remoteActor)
+      expect(mockRemoteActorService.evict).toHaveBeenCalledWith(remoteActor)
+    })
+
+    it('should ignore deletes of remote objects we do not store', async () => {
+      const result = await inboxService.handleActivity('creator', {
+        id: 'https://remote.example/notes/1#delete',
+        type: 'Delete',
+        actor: remoteActor,
+        object: { id: 'https://remote.example/notes/1', type: 'Tombstone' }
+      }, remoteActor)
+
+      expect(result.data?.status).toBe('ignored')
+      expect(mockFollowRepository.deleteByActorId).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Block', () => {
+    it('should remove the blocking actor\'s follow of the user', async () => {
+      const result = await inboxService.handleActivity('creator', {
+        id: 'https://remote.example/blocks/1',
+        type: 'Block',
+        actor: remoteActor,
+        object: localActor
+      }, remoteActor)
+
+      expect(result.data?.status).toBe('processed')
+      expect(mockFollowRepository.deleteByFollowerAndFollowed).toHaveBeenCalledWith(remoteActor, 'user123')
+    })
+  })
+
+  it('should return INTERNAL_ERROR when the repository fails', async () => {
+    mockUserRepository.findByUsername.mockRejectedValue(new Error('Database down'))
+
+    const result = await inboxService.handleActivity('creator', followActivity, remoteActor)
+
+    expect(result.code).toBe('INTERNAL_ERROR')
+  })
+})
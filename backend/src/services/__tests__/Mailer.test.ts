@@ -0,0 +1,77 @@
+// backend/src/services/__tests__/Mailer.test.ts
+// Version: 1.0.0
+// Tests for mailer transport selection and the file transport
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { createMailer, ConsoleMailer, FileMailer, SmtpMailer } from '../Mailer'
+
+describe('Mailer', () => {
+  const baseConfig = {
+    from: 'ParaSocial <no-reply@parasocial.example>',
+    linkBaseUrl: 'https://app.parasocial.example',
+    fileDirectory: '',
+    smtp: null
+  }
+
+  let directory: string | null = null
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    if (directory) {
+      await fs.rm(directory, { recursive: true, force: true })
+      directory = null
+    }
+  })
+
+  describe('createMailer', () => {
+    it('should select the configured transport', () => {
+      expect(createMailer({ ...baseConfig, transport: 'console' })).toBeInstanceOf(ConsoleMailer)
+      expect(createMailer({ ...baseConfig, transport: 'file', fileDirectory: '/tmp/mail' })).toBeInstanceOf(FileMailer)
+      expect(createMailer({
+        ...baseConfig,
+        transport: 'smtp',
+        smtp: { host: 'smtp.example', port: 587, secure: false, user: undefined, password: undefined }
+      })).toBeInstanceOf(SmtpMailer)
+    })
+
+    it('should refuse SMTP without server settings', () => {
+      expect(() => createMailer({ ...baseConfig, transport: 'smtp' })).toThrow('SMTP transport selected without SMTP settings')
+    })
+  })
+
+  describe('FileMailer', () => {
+    it('should write each email as an .eml file', async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-mail-'))
+      const mailer = new FileMailer(directory, baseConfig.from)
+
+      await mailer.send({
+        to: 'creator@example.com',
+        subject: 'Verify your ParaSocial email address',
+        text: 'https://app.parasocial.example/verify-email?token=abc'
+      })
+
+      const files = await fs.readdir(directory)
+      expect(files).toHaveLength(1)
+      expect(files[0]).toMatch(/-creator@example\.com\.eml$/)
+
+      const contents = await fs.readFile(path.join(directory, files[0]!), 'utf8')
+      expect(contents).toContain('To: creator@example.com')
+      expect(contents).toContain('Subject: Verify your ParaSocial email address')
+      expect(contents).toContain('verify-email?token=abc')
+    })
+  })
+
+  describe('ConsoleMailer', () => {
+    it('should print the email', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      await new ConsoleMailer(baseConfig.from).send({ to: 'creator@example.com', subject: 'Hello', text: 'Body' })
+
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('To: creator@example.com'))
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('Body'))
+    })
+  })
+})
@@ -0,0 +1,119 @@
+// backend/src/services/__tests__/MediaCleanupJob.test.ts
+// Version: 1.2.0
+// Orphaned upload cleanup against local storage in a temporary directory and a fixed clock
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { MediaCleanupJob } from '../MediaCleanupJob'
+import { SchedulerClock } from '../PostScheduler'
+import { LocalStorageProvider } from '../StorageProvider'
+
+describe('MediaCleanupJob', () => {
+  const config = { enabled: true, intervalMs: 60000, gracePeriodMs: 24 * 60 * 60 * 1000, batchSize: 10 }
+  const now = new Date('2025-06-02T12:00:00Z')
+
+  let directory: string
+  let mockMediaRepository: any
+  let clock: SchedulerClock
+  let storage: LocalStorageProvider
+  let job: MediaCleanupJob
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-media-'))
+    await fs.writeFile(path.join(directory, 'file-1.png'), 'orphan')
+    await fs.writeFile(path.join(directory, 'file-1-thumb.webp'), 'orphan thumbnail')
+    await fs.writeFile(path.join(directory, 'file-1-preview.webp'), 'orphan preview')
+    await fs.writeFile(path.join(directory, 'file-2.png'), 'claimed')
+
+    mockMediaRepository = {
+      findOrphaned: vi.fn().mockResolvedValue([
+        { id: 'media1', filename: 'file-1.png' },
+        { id: 'media2', filename: 'file-2.png' }
+      ]),
+      deleteIfUnattached: vi.fn().mockImplementation(async (id: string) => id === 'media1')
+    }
+    clock = {
+      now: () => now,
+      setInterval: vi.fn().mockReturnValue(1),
+      clearInterval: vi.fn()
+    }
+
+    storage = new LocalStorageProvider({ directory, signingSecret: 'x'.repeat(32) }, '/uploads')
+
+    job = new MediaCleanupJob(mockMediaRepository, storage, config, clock)
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should remove uploads and their renditions older than the grace period', async () => {
+    const result = await job.runOnce()
+
+    expect(result).toEqual({ status: 'completed', removed: 1 })
+    expect(mockMediaRepository.findOrphaned).toHaveBeenCalledWith(new Date('2025-06-01T12:00:00Z'), 10)
+    expect(await fs.readdir(directory)).toEqual(['file-2.png'])
+  })
+
+  it('should keep the file of media a post claimed mid-run', async () => {
+    await job.runOnce()
+
+    expect(mockMediaRepository.deleteIfUnattached).toHaveBeenCalledWith('media2')
+    expect(await fs.readdir(directory)).toContain('file-2.png')
+  })
+
+  it('should count records whose files are already gone', async () => {
+    await fs.unlink(path.join(directory, 'file-1.png'))
+    await fs.unlink(path.join(directory, 'file-1-thumb.webp'))
+
+    const result = await job.runOnce()
+
+    expect(result).toEqual({ status: 'completed', removed: 1 })
+  })
+
+  it('should carry on when storage fails to delete a file', async () => {
+    vi.spyOn(storage, 'delete').mockRejectedValueOnce(new Error('Bucket unavailable'))
+
+    const result = await job.runOnce()
+
+    expect(result).toEqual({ status: 'completed', removed: 1 })
+    expect((await fs.readdir(directory)).sort()).toEqual(['file-1.png', 'file-2.png'])
+  })
+
+  it('should report a failed run without throwing', async () => {
+    mockMediaRepository.findOrphaned.mockRejectedValue(new Error('Database down'))
+
+    const result = await job.runOnce()
+
+    expect(result).toEqual({ status: 'failed', removed: 0 })
+  })
+
+  it('should skip a run that overlaps the previous one', async () => {
+    const first = job.runOnce()
+    const second = await job.runOnce()
+
+    expect(second).toEqual({ status: 'skipped', removed: 0 })
+    await first
+  })
+
+  it('should not start when disabled', () => {
+    job = new MediaCleanupJob(mockMediaRepository, storage, { ...config, enabled: false }, clock)
+
+    job.start()
+
+    expect(job.isRunning()).toBe(false)
+    expect(clock.setInterval).not.toHaveBeenCalled()
+  })
+
+  it('should start and stop the timer', async () => {
+    job.start()
+    expect(job.isRunning()).toBe(true)
+    expect(clock.setInterval).toHaveBeenCalledWith(expect.any(Function), 60000)
+
+    await job.stop()
+    expect(job.isRunning()).toBe(false)
+    expect(clock.clearInterval).toHaveBeenCalledWith(1)
+  })
+})
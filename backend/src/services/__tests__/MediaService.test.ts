@@ -0,0 +1,490 @@
+// backend/src/services/__tests__/MediaService.test.ts
+// Version: 1.6.0
+// Media records and image processing for uploads staged and stored in temporary directories
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import sharp from 'sharp'
+import { MediaService, getRenditionFilenames } from '../MediaService'
+import { LocalStorageProvider } from '../StorageProvider'
+
+describe('MediaService', () => {
+  let stagingDirectory: string
+  let directory: string
+  let mockMediaRepository: any
+  let mediaService: MediaService
+
+  /**
+   * Media as findForServing returns it, attached to a published post by default
+   */
+  const servableMedia = (overrides: Record<string, unknown> = {}) => ({
+    id: 'media1',
+    filename: 'file-9.png',
+    originalName: 'Holiday photo.png',
+    mimeType: 'image/png',
+    size: 8,
+    thumbnailUrl: '/uploads/file-9-thumb.webp',
+    previewUrl: '/uploads/file-9-preview.webp',
+    posterUrl: null,
+    uploaderId: 'user123',
+    updatedAt: new Date('2025-06-02T12:00:00Z'),
+    post: {
+      authorId: 'user123',
+      isPublished: true,
+      moderationStatus: 'visible',
+      author: { isActive: true }
+    },
+    ...overrides
+  })
+
+  /**
+   * Stage an upload the way multer would
+   * @returns Local path of the staged file
+   */
+  const storeUpload = async (filename: string, contents: Buffer | string) => {
+    const filePath = path.join(stagingDirectory, filename)
+    await fs.writeFile(filePath, contents)
+    return filePath
+  }
+
+  /**
+   * Create a solid-colour image
+   */
+  const createImage = (width: number, height: number) => sharp({
+    create: { width, height, channels: 3, background: { r: 0, g: 120, b: 200 } }
+  })
+
+  beforeEach(async () => {
+    stagingDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-staging-'))
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-uploads-'))
+    mockMediaRepository = {
+      create: vi.fn().mockImplementation(async data => ({ postId: null, createdAt: new Date(), ...data })),
+      findForServing: vi.fn().mockResolvedValue(servableMedia()),
+      delete: vi.fn().mockResolvedValue({ id: 'media1' })
+    }
+    const storage = new LocalStorageProvider({ directory, signingSecret: 'x'.repeat(32) }, '/uploads')
+
+    mediaService = new MediaService(mockMediaRepository, storage)
+  })
+
+  afterEach(async () => {
+    await fs.rm(stagingDirectory, { recursive: true, force: true })
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  describe('createUpload', () => {
+    it('should record an unattached image with its dimensions, renditions and BlurHash', async () => {
+      const image = await createImage(320, 200).png().toBuffer()
+      const stagedPath = await storeUpload('file-1.png', image)
+
+      const result = await mediaService.createUpload('user123', {
+        filename: 'file-1.png',
+        path: stagedPath,
+        originalName: 'sky.png',
+        mimeType: 'image/png',
+        size: image.length
+      }, 'A clear blue sky')
+
+      expect(result.success).toBe(true)
+      expect(mockMediaRepository.create).toHaveBeenCalledWith({
+        id: expect.any(String),
+        filename: 'file-1.png',
+        originalName: 'sky.png',
+        url: '/uploads/file-1.png',
+        thumbnailUrl: '/uploads/file-1-thumb.webp',
+        previewUrl: '/uploads/file-1-preview.webp',
+        blurhash: expect.stringMatching(/^[0-9A-Za-z#$%*+,\-.:;=?@[\]^_{|}~]{28}$/),
+        mimeType: 'image/png',
+        size: expect.any(Number),
+        uploaderId: 'user123',
+        width: 320,
+        height: 200,
+        altText: 'A clear blue sky'
+      })
+    })
+
+    it('should strip EXIF data, including GPS location', async () => {
+      const image = await createImage(64, 48)
+        .jpeg()
+        .withExif({ IFD0: { Make: 'Phone' }, IFD3: { GPSLatitudeRef: 'N', GPSLongitudeRef: 'W' } })
+        .toBuffer()
+      expect((await sharp(image).metadata()).exif).toBeDefined()
+      const stagedPath = await storeUpload('file-2.jpg', image)
+
+      await mediaService.createUpload('user123', {
+        filename: 'file-2.jpg',
+        path: stagedPath,
+        originalName: 'home.jpg',
+        mimeType: 'image/jpeg',
+        size: image.length
+      })
+
+      const stored = await sharp(path.join(directory, 'file-2.jpg')).metadata()
+      expect(stored.format).toBe('jpeg')
+      expect(stored.exif).toBeUndefined()
+    })
+
+    it('should record uploads marked sensitive', async () => {
+      const image = await createImage(20, 20).png().toBuffer()
+      const stagedPath = await storeUpload('file-10.png', image)
+
+      await mediaService.createUpload('user123', {
+        filename: 'file-10.png',
+        path: stagedPath,
+        originalName: 'strobe.png',
+        mimeType: 'image/png',
+        size: image.length
+      }, 'Strobe frame', true)
+
+      expect(mockMediaRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        altText: 'Strobe frame',
+        sensitive: true
+      }))
+    })
+
+    it('should turn images upright and record the upright dimensions', async () => {
+      const image = await createImage(80, 40).jpeg().withMetadata({ orientation: 6 }).toBuffer()
+      const stagedPath = await storeUpload('file-3.jpg', image)
+
+      await mediaService.createUpload('user123', {
+        filename: 'file-3.jpg',
+        path: stagedPath,
+        originalName: 'portrait.jpg',
+        mimeType: 'image/jpeg',
+        size: image.length
+      })
+
+      expect(mockMediaRepository.create).toHaveBeenCalledWith(expect.objectContaining({ width: 40, height: 80 }))
+      const stored = await sharp(path.join(directory, 'file-3.jpg')).metadata()
+      expect(stored).toMatchObject({ width: 40, height: 80 })
+      expect(stored.orientation).toBeUndefined()
+    })
+
+    it('should write WebP renditions without enlarging small images', async () => {
+      const image = await createImage(2000, 1000).png().toBuffer()
+      const stagedPath = await storeUpload('file-4.png', image)
+
+      await mediaService.createUpload('user123', {
+        filename: 'file-4.png',
+        path: stagedPath,
+        originalName: 'wide.png',
+        mimeType: 'image/png',
+        size: image.length
+      })
+
+      expect(await sharp(path.join(directory, 'file-4-thumb.webp')).metadata())
+        .toMatchObject({ format: 'webp', width: 400, height: 200 })
+      expect(await sharp(path.join(directory, 'file-4-preview.webp')).metadata())
+        .toMatchObject({ format: 'webp', width: 1280, height: 640 })
+    })
+
+    it('should keep GIFs as uploaded', async () => {
+      const image = await createImage(30, 30).gif().toBuffer()
+      const stagedPath = await storeUpload('file-5.gif', image)
+
+      await mediaService.createUpload('user123', {
+        filename: 'file-5.gif',
+        path: stagedPath,
+        originalName: 'loop.gif',
+        mimeType: 'image/gif',
+        size: image.length
+      })
+
+      expect(await fs.readFile(path.join(directory, 'file-5.gif'))).toEqual(image)
+      expect(mockMediaRepository.create).toHaveBeenCalledWith(expect.objectContaining({ width: 30, height: 30 }))
+    })
+
+    it('should return INVALID_IMAGE and remove files sharp cannot decode', async () => {
+      const stagedPath = await storeUpload('file-6.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))
+
+      const result = await mediaService.createUpload('user123', {
+        filename: 'file-6.png',
+        path: stagedPath,
+        originalName: 'broken.png',
+        mimeType: 'image/png',
+        size: 9
+      })
+
+      expect(result.code).toBe('INVALID_IMAGE')
+      expect(mockMediaRepository.create).not.toHaveBeenCalled()
+      expect(await fs.readdir(stagingDirectory)).toEqual([])
+      expect(await fs.readdir(directory)).toEqual([])
+    })
+
+    it('should store videos as uploaded, pending processing, and remove the staged copy', async () => {
+      const stagedPath = await storeUpload('file-7.mp4', 'video bytes')
+
+      await mediaService.createUpload('user123', {
+        filename: 'file-7.mp4',
+        path: stagedPath,
+        originalName: 'clip.mp4',
+        mimeType: 'video/mp4',
+        size: 11
+      })
+
+      const data = mockMediaRepository.create.mock.calls[0][0]
+      expect(data).not.toHaveProperty('width')
+      expect(data).not.toHaveProperty('thumbnailUrl')
+      expect(data).not.toHaveProperty('altText')
+      expect(data.processingStatus).toBe('PENDING')
+      expect(await fs.readFile(path.join(directory, 'file-7.mp4'), 'utf8')).toBe('video bytes')
+      expect(await fs.readdir(stagingDirectory)).toEqual([])
+    })
+
+    it('should remove the file and renditions when the record cannot be saved', async () => {
+      const image = await createImage(20, 20).png().toBuffer()
+      const stagedPath = await storeUpload('file-8.png', image)
+      mockMediaRepository.create.mockRejectedValue(new Error('Database down'))
+
+      await expect(mediaService.createUpload('user123', {
+        filename: 'file-8.png',
+        path: stagedPath,
+        originalName: 'tiny.png',
+        mimeType: 'image/png',
+        size: image.length
+      })).rejects.toThrow('Database down')
+
+      expect(await fs.readdir(directory)).toEqual([])
+    })
+  })
+
+  describe('discardUpload', () => {
+    it('should remove the staged file', async () => {
+      const stagedPath = await storeUpload('file-9.png', 'bytes')
+
+      await mediaService.discardUpload(stagedPath)
+
+      expect(await fs.readdir(stagingDirectory)).toEqual([])
+    })
+  })
+
+  describe('findMediaFile', () => {
+    it('should describe public media for anyone, named as it was uploaded', async () => {
+      const result = await mediaService.findMediaFile('media1', null)
+
+      expect(result.data).toEqual({
+        key: 'file-9.png',
+        mimeType: 'image/png',
+        size: 8,
+        lastModified: new Date('2025-06-02T12:00:00Z'),
+        etag: expect.stringMatching(/^"[\w-]{27}"$/),
+        downloadName: 'Holiday photo.png',
+        isPublic: true
+      })
+    })
+
+    it('should serve renditions by filename with their own type and ETag', async () => {
+      const original = await mediaService.findMediaFile('file-9.png', null)
+      const thumbnail = await mediaService.findMediaFile('file-9-thumb.webp', null)
+
+      expect(thumbnail.data).toMatchObject({
+        key: 'file-9-thumb.webp',
+        mimeType: 'image/webp',
+        size: null,
+        downloadName: 'file-9-thumb.webp'
+      })
+      expect(thumbnail.data?.etag).not.toBe(original.data?.etag)
+    })
+
+    it('should only serve draft media to the post author', async () => {
+      mockMediaRepository.findForServing.mockResolvedValue(servableMedia({
+        post: { authorId: 'user123', isPublished: false, moderationStatus: 'visible', author: { isActive: true } }
+      }))
+
+      const author = await mediaService.findMediaFile('media1', { id: 'user123' })
+      const stranger = await mediaService.findMediaFile('media1', { id: 'user456' })
+      const anonymous = await mediaService.findMediaFile('media1', null)
+      const moderator = await mediaService.findMediaFile('media1', { id: 'mod1', role: 'moderator' })
+
+      expect(author.data?.isPublic).toBe(false)
+      expect(stranger.code).toBe('NOT_FOUND')
+      expect(anonymous.code).toBe('NOT_FOUND')
+      expect(moderator.code).toBe('NOT_FOUND')
+    })
+
+    it('should only serve unattached uploads to the uploader', async () => {
+      mockMediaRepository.findForServing.mockResolvedValue(servableMedia({ post: null }))
+
+      expect((await mediaService.findMediaFile('media1', { id: 'user123' })).success).toBe(true)
+      expect((await mediaService.findMediaFile('media1', { id: 'user456' })).code).toBe('NOT_FOUND')
+    })
+
+    it('should only serve media on removed posts to staff', async () => {
+      mockMediaRepository.findForServing.mockResolvedValue(servableMedia({
+        post: { authorId: 'user123', isPublished: true, moderationStatus: 'removed', author: { isActive: true } }
+      }))
+
+      expect((await mediaService.findMediaFile('media1', { id: 'user123' })).code).toBe('NOT_FOUND')
+      expect((await mediaService.findMediaFile('media1', { id: 'admin1', role: 'admin' })).data?.isPublic).toBe(false)
+    })
+
+    it('should serve private media to holders of a valid signed URL', async () => {
+      mockMediaRepository.findForServing.mockResolvedValue(servableMedia({ post: null }))
+      const signedUrl = new URL(await mediaService.getSignedUrl('file-9.png', 60), 'http://localhost')
+      const expires = Number(signedUrl.searchParams.get('expires'))
+
+      const valid = await mediaService.findMediaFile('file-9.png', null, {
+        expires,
+        signature: signedUrl.searchParams.get('signature')!
+      })
+      const forged = await mediaService.findMediaFile('file-9.png', null, { expires, signature: 'forged' })
+
+      expect(valid.success).toBe(true)
+      expect(forged.code).toBe('NOT_FOUND')
+    })
+
+    it('should return NOT_FOUND for unknown media', async () => {
+      mockMediaRepository.findForServing.mockResolvedValue(null)
+
+      expect((await mediaService.findMediaFile('missing', null)).code).toBe('NOT_FOUND')
+    })
+
+    it('should open the file, or a range of it, from storage', async () => {
+      await fs.writeFile(path.join(directory, 'file-9.png'), 'png data')
+      const file = (await mediaService.findMediaFile('media1', null)).data!
+
+      const stored = await mediaService.openMediaFile(file, { start: 4, end: 7 })
+
+      let body = ''
+      for await (const chunk of stored!.body) {
+        body += chunk
+      }
+      expect(body).toBe('data')
+    })
+  })
+
+  describe('signed URLs', () => {
+    const draftMedia = {
+      id: 'media1',
+      filename: 'file-9.png',
+      url: '/uploads/file-9.png',
+      thumbnailUrl: '/uploads/file-9-thumb.webp',
+      previewUrl: '/uploads/file-9-preview.webp',
+      posterUrl: null
+    }
+
+    it('should return new uploads with signed URLs that last the configured time', async () => {
+      const now = Date.now()
+      const image = await createImage(32, 32).png().toBuffer()
+      const stagedPath = await storeUpload('file-11.png', image)
+
+      const result = await mediaService.createUpload('user123', {
+        filename: 'file-11.png',
+        path: stagedPath,
+        originalName: 'draft.png',
+        mimeType: 'image/png',
+        size: image.length
+      })
+
+      const url = new URL(result.data!.url, 'http://localhost')
+      expect(url.pathname).toBe('/uploads/file-11.png')
+      expect(url.searchParams.get('signature')).toBeTruthy()
+      expect(Number(url.searchParams.get('expires')) * 1000).toBeGreaterThanOrEqual(now + 14 * 60 * 1000)
+      expect(result.data!.thumbnailUrl).toMatch(/^\/uploads\/file-11-thumb\.webp\?expires=\d+&signature=/)
+      expect(mockMediaRepository.create).toHaveBeenCalledWith(expect.objectContaining({ url: '/uploads/file-11.png' }))
+    })
+
+    it('should sign the media of unpublished posts so storage links stay private', async () => {
+      const draft = await mediaService.signPostMedia({ isPublished: false, media: [draftMedia] })
+
+      const media = draft.media[0]!
+      expect(media.url).toMatch(/^\/uploads\/file-9\.png\?expires=\d+&signature=/)
+      expect(media.thumbnailUrl).toMatch(/^\/uploads\/file-9-thumb\.webp\?expires=/)
+      expect(media.previewUrl).toMatch(/^\/uploads\/file-9-preview\.webp\?expires=/)
+      expect(media.posterUrl).toBeNull()
+
+      const signedUrl = new URL(media.url, 'http://localhost')
+      mockMediaRepository.findForServing.mockResolvedValue(servableMedia({ post: null }))
+      const file = await mediaService.findMediaFile('file-9.png', null, {
+        expires: Number(signedUrl.searchParams.get('expires')),
+        signature: signedUrl.searchParams.get('signature')!
+      })
+      expect(file.success).toBe(true)
+    })
+
+    it('should leave published posts with their public URLs', async () => {
+      const post = { isPublished: true, media: [draftMedia] }
+
+      expect(await mediaService.signPostMedia(post)).toBe(post)
+    })
+
+    it('should use the lifetime it was configured with', async () => {
+      const storage = new LocalStorageProvider({ directory, signingSecret: 'x'.repeat(32) }, '/uploads')
+      const shortLived = new MediaService(mockMediaRepository, storage, 60)
+      const before = Math.floor(Date.now() / 1000)
+
+      const url = new URL(await shortLived.getSignedUrl('file-9.png'), 'http://localhost')
+
+      expect(Number(url.searchParams.get('expires')) - before).toBeLessThanOrEqual(61)
+    })
+  })
+
+  describe('deleteMedia', () => {
+    it('should delete the record through the repository, then the stored files', async () => {
+      await fs.writeFile(path.join(directory, 'file-9.png'), 'original')
+      await fs.writeFile(path.join(directory, 'file-9-thumb.webp'), 'thumbnail')
+      await fs.writeFile(path.join(directory, 'file-9-preview.webp'), 'preview')
+
+      const result = await mediaService.deleteMedia('file-9.png', { id: 'user123' })
+
+      expect(result.success).toBe(true)
+      expect(mockMediaRepository.delete).toHaveBeenCalledWith('media1')
+      expect(await fs.readdir(directory)).toEqual([])
+    })
+
+    it('should delete by media ID', async () => {
+      const result = await mediaService.deleteMedia('media1', { id: 'user123' })
+
+      expect(result.success).toBe(true)
+      expect(mockMediaRepository.delete).toHaveBeenCalledWith('media1')
+    })
+
+    it('should refuse users other than the uploader', async () => {
+      await fs.writeFile(path.join(directory, 'file-9.png'), 'original')
+
+      const result = await mediaService.deleteMedia('file-9.png', { id: 'user456' })
+
+      expect(result.code).toBe('FORBIDDEN')
+      expect(mockMediaRepository.delete).not.toHaveBeenCalled()
+      expect(await fs.readdir(directory)).toEqual(['file-9.png'])
+    })
+
+    it('should not reveal draft media to other users', async () => {
+      mockMediaRepository.findForServing.mockResolvedValue(servableMedia({
+        post: { authorId: 'user123', isPublished: false, moderationStatus: 'visible', author: { isActive: true } }
+      }))
+
+      const result = await mediaService.deleteMedia('file-9.png', { id: 'user456' })
+
+      expect(result.code).toBe('NOT_FOUND')
+    })
+
+    it('should not delete media through a rendition filename', async () => {
+      const result = await mediaService.deleteMedia('file-9-thumb.webp', { id: 'user123' })
+
+      expect(result.code).toBe('NOT_FOUND')
+      expect(mockMediaRepository.delete).not.toHaveBeenCalled()
+    })
+
+    it('should return NOT_FOUND for unknown files', async () => {
+      mockMediaRepository.findForServing.mockResolvedValue(null)
+
+      const result = await mediaService.deleteMedia('file-0.png', { id: 'user123' })
+
+      expect(result.code).toBe('NOT_FOUND')
+      expect(mockMediaRepository.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getRenditionFilenames', () => {
+    it('should name renditions after the stored filename', () => {
+      expect(getRenditionFilenames('file-123.jpeg')).toEqual({
+        thumbnail: 'file-123-thumb.webp',
+        preview: 'file-123-preview.webp',
+        poster: 'file-123-poster.jpg'
+      })
+    })
+  })
+})
@@ -0,0 +1,210 @@
+// backend/src/services/__tests__/ModerationDashboardService.test.ts
+// Version: 1.0.0
+// Creator moderation dashboard and staff report queue with mocked repositories
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ModerationDashboardService } from '../ModerationDashboardService'
+import { ReportStatus, ReportType } from '../../models/Report'
+
+describe('ModerationDashboardService', () => {
+  let mockReportRepository: any
+  let mockBlockRepository: any
+  let mockFollowRepository: any
+  let mockPostRepository: any
+  let mockUserRepository: any
+  let service: ModerationDashboardService
+
+  const report = {
+    id: 'report1',
+    type: ReportType.HARASSMENT,
+    description: 'Written by the reporter',
+    status: ReportStatus.PENDING,
+    reportedPostId: 'post1',
+    reporterId: 'reporter1',
+    moderatorNotes: 'Internal note',
+    moderatorId: 'mod1',
+    createdAt: new Date('2025-06-01T10:00:00Z'),
+    updatedAt: new Date('2025-06-01T10:00:00Z')
+  }
+  const pagination = { page: 1, limit: 20, total: 1, totalPages: 1, hasNext: false, hasPrev: false }
+
+  beforeEach(() => {
+    mockReportRepository = {
+      findReportedPostsByAuthor: vi.fn().mockResolvedValue([]),
+      countOpenByReportedUser: vi.fn().mockResolvedValue(0),
+      findByReportedUser: vi.fn().mockResolvedValue({ reports: [report], pagination }),
+      findByReportedPost: vi.fn().mockResolvedValue({ reports: [report], pagination }),
+      getStatistics: vi.fn(),
+      findOpenGroupsByReportedUsers: vi.fn().mockResolvedValue([])
+    }
+    mockBlockRepository = {
+      getBlockedCount: vi.fn().mockResolvedValue(0),
+      findBlockedByUserId: vi.fn().mockResolvedValue({ blocked: [], totalCount: 0 })
+    }
+    mockFollowRepository = {
+      countPendingByFollowedId: vi.fn().mockResolvedValue(0)
+    }
+    mockPostRepository = {
+      findByIdMinimal: vi.fn().mockResolvedValue({ id: 'post1', authorId: 'creator1' })
+    }
+    mockUserRepository = {
+      findByIds: vi.fn().mockResolvedValue([])
+    }
+
+    service = new ModerationDashboardService(
+      mockReportRepository,
+      mockBlockRepository,
+      mockFollowRepository,
+      mockPostRepository,
+      mockUserRepository
+    )
+  })
+
+  describe('getSummary()', () => {
+    it('should count posts with open reports, account reports, blocks and follow requests', async () => {
+      mockReportRepository.findReportedPostsByAuthor.mockResolvedValue([
+        { postId: 'post1', reportCount: 2, openCount: 1, latestReportAt: new Date() },
+        { postId: 'post2', reportCount: 1, openCount: 0, latestReportAt: new Date() }
+      ])
+      mockReportRepository.countOpenByReportedUser.mockResolvedValue(2)
+      mockBlockRepository.getBlockedCount.mockResolvedValue(12)
+      mockFollowRepository.countPendingByFollowedId.mockResolvedValue(3)
+
+      const result = await service.getSummary('creator1')
+
+      expect(result).toEqual({
+        success: true,
+        data: { reportedPosts: 1, accountReports: 2, blockedUsers: 12, pendingFollowRequests: 3 }
+      })
+    })
+  })
+
+  describe('getAccountReports()', () => {
+    it('should hide who reported and what moderators noted', async () => {
+      const result = await service.getAccountReports('creator1', { page: 1, limit: 20, status: ReportStatus.PENDING })
+
+      expect(mockReportRepository.findByReportedUser).toHaveBeenCalledWith('creator1', {
+        page: 1,
+        limit: 20,
+        status: ReportStatus.PENDING
+      })
+      expect(result.data?.reports).toEqual([{
+        id: 'report1',
+        type: ReportType.HARASSMENT,
+        status: ReportStatus.PENDING,
+        reportedPostId: 'post1',
+        createdAt: report.createdAt,
+        updatedAt: report.updatedAt
+      }])
+      expect(result.data?.pagination).toEqual(pagination)
+    })
+  })
+
+  describe('getReportedPosts()', () => {
+    it('should page through reported posts', async () => {
+      const posts = ['post1', 'post2', 'post3'].map(postId => ({
+        postId,
+        reportCount: 1,
+        openCount: 1,
+        latestReportAt: new Date()
+      }))
+      mockReportRepository.findReportedPostsByAuthor.mockResolvedValue(posts)
+
+      const result = await service.getReportedPosts('creator1', { page: 2, limit: 2 })
+
+      expect(result.data).toEqual({ posts: [posts[2]], totalCount: 3, hasMore: false })
+    })
+  })
+
+  describe('getPostReports()', () => {
+    it('should list reports against the creator\'s own post', async () => {
+      const result = await service.getPostReports('creator1', 'post1', { page: 1, limit: 20 })
+
+      expect(result.success).toBe(true)
+      expect(mockReportRepository.findByReportedPost).toHaveBeenCalledWith('post1', { page: 1, limit: 20 })
+      expect(result.data?.reports[0]).not.toHaveProperty('reporterId')
+    })
+
+    it('should treat someone else\'s post as missing', async () => {
+      const result = await service.getPostReports('creator2', 'post1', { page: 1, limit: 20 })
+
+      expect(result).toMatchObject({ success: false, code: 'POST_NOT_FOUND' })
+      expect(mockReportRepository.findByReportedPost).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getBlockedUsers()', () => {
+    it('should attach the blocked profiles', async () => {
+      const createdAt = new Date('2025-06-01T10:00:00Z')
+      mockBlockRepository.findBlockedByUserId.mockResolvedValue({
+        blocked: [
+          { id: 'block1', blockedId: 'user1', reason: 'Spam', createdAt },
+          { id: 'block2', blockedId: 'gone', reason: null, createdAt }
+        ],
+        totalCount: 5
+      })
+      mockUserRepository.findByIds.mockResolvedValue([
+        { id: 'user1', username: 'spammer', displayName: 'Spammer', avatar: null, email: 'spam@example.com' }
+      ])
+
+      const result = await service.getBlockedUsers('creator1', { page: 2, limit: 2 })
+
+      expect(mockBlockRepository.findBlockedByUserId).toHaveBeenCalledWith('creator1', { offset: 2, limit: 2 })
+      expect(result.data).toEqual({
+        blocks: [
+          {
+            id: 'block1',
+            blockedId: 'user1',
+            reason: 'Spam',
+            createdAt,
+            user: { id: 'user1', username: 'spammer', displayName: 'Spammer', avatar: null }
+          },
+          { id: 'block2', blockedId: 'gone', reason: null, createdAt, user: null }
+        ],
+        totalCount: 5,
+        hasMore: true
+      })
+    })
+  })
+
+  describe('getStaffQueue()', () => {
+    it('should order accounts by severity, then by their oldest open report', async () => {
+      mockReportRepository.getStatistics.mockResolvedValue({
+        pendingReports: 9,
+        topReportedUsers: [
+          { userId: 'spammer', reportCount: 8 },
+          { userId: 'handled', reportCount: 6 },
+          { userId: 'harasser-new', reportCount: 4 },
+          { userId: 'harasser-old', reportCount: 2 }
+        ]
+      })
+      mockReportRepository.findOpenGroupsByReportedUsers.mockResolvedValue([
+        { userId: 'spammer', type: ReportType.SPAM, count: 5, oldestAt: new Date('2025-05-01T00:00:00Z') },
+        { userId: 'harasser-new', type: ReportType.HARASSMENT, count: 1, oldestAt: new Date('2025-06-10T00:00:00Z') },
+        { userId: 'harasser-new', type: ReportType.SPAM, count: 2, oldestAt: new Date('2025-06-01T00:00:00Z') },
+        { userId: 'harasser-old', type: ReportType.HARASSMENT, count: 1, oldestAt: new Date('2025-05-20T00:00:00Z') }
+      ])
+      mockUserRepository.findByIds.mockResolvedValue([{ id: 'spammer', username: 'spam_account' }])
+
+      const result = await service.getStaffQueue()
+
+      expect(result.data?.pendingReports).toBe(9)
+      expect(result.data?.users.map(entry => entry.userId)).toEqual([
+        'harasser-old',
+        'harasser-new',
+        'spammer',
+        'handled'
+      ])
+      expect(result.data?.users[1]).toEqual({
+        userId: 'harasser-new',
+        username: null,
+        reportCount: 4,
+        openCount: 3,
+        severity: 'high',
+        oldestOpenAt: new Date('2025-06-01T00:00:00Z')
+      })
+      expect(result.data?.users[2]).toMatchObject({ username: 'spam_account', severity: 'low' })
+      expect(result.data?.users[3]).toMatchObject({ openCount: 0, severity: null, oldestOpenAt: null })
+    })
+  })
+})
@@ -0,0 +1,179 @@
+// backend/src/services/__tests__/ModerationService.test.ts
+// Version: 1.0.0
+// Moderator action, reversal and account standing tests with mocked repositories
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ModerationService } from '../ModerationService'
+import { ModerationActionType } from '../../models/ModerationAction'
+import { ReportStatus } from '../../models/Report'
+
+describe('ModerationService', () => {
+  let mockModerationActionRepository: any
+  let mockReportRepository: any
+  let mockUserRepository: any
+  let mockPostRepository: any
+  let mockSessionRepository: any
+  let service: ModerationService
+
+  const moderator = { id: 'mod1', role: 'moderator' as const }
+  const admin = { id: 'admin1', role: 'admin' as const }
+  const author = { id: 'user123', role: 'user', isActive: true }
+  const postReport = { id: 'report1', reportedPostId: 'post1' }
+  const userReport = { id: 'report2', reportedUserId: 'user123' }
+
+  beforeEach(() => {
+    mockModerationActionRepository = {
+      applyAction: vi.fn().mockImplementation(async data => ({ id: 'action1', reversedAt: null, ...data })),
+      reverse: vi.fn(),
+      findById: vi.fn(),
+      findByReportId: vi.fn().mockResolvedValue([]),
+      findByTargetUserId: vi.fn().mockResolvedValue([])
+    }
+    mockReportRepository = {
+      findById: vi.fn().mockResolvedValue(postReport)
+    }
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue(author)
+    }
+    mockPostRepository = {
+      findById: vi.fn().mockResolvedValue({ id: 'post1', authorId: 'user123' })
+    }
+    mockSessionRepository = {
+      revokeAllForUser: vi.fn().mockResolvedValue(3)
+    }
+
+    service = new ModerationService(
+      mockModerationActionRepository,
+      mockReportRepository,
+      mockUserRepository,
+      mockPostRepository,
+      mockSessionRepository
+    )
+  })
+
+  describe('takeAction()', () => {
+    it('should act on the author of a reported post and resolve the report', async () => {
+      const result = await service.takeAction(moderator, 'report1', ModerationActionType.REMOVE_POST, 'Spam')
+
+      expect(result.success).toBe(true)
+      expect(mockModerationActionRepository.applyAction).toHaveBeenCalledWith(
+        {
+          type: ModerationActionType.REMOVE_POST,
+          reason: 'Spam',
+          reportId: 'report1',
+          moderatorId: 'mod1',
+          targetUserId: 'user123',
+          targetPostId: 'post1'
+        },
+        ReportStatus.RESOLVED
+      )
+      expect(mockSessionRepository.revokeAllForUser).not.toHaveBeenCalled()
+    })
+
+    it('should sign a suspended user out everywhere', async () => {
+      mockReportRepository.findById.mockResolvedValueOnce(userReport)
+
+      const result = await service.takeAction(moderator, 'report2', ModerationActionType.SUSPEND_USER, 'Harassment')
+
+      expect(result.success).toBe(true)
+      expect(mockSessionRepository.revokeAllForUser).toHaveBeenCalledWith('user123', 'suspended')
+    })
+
+    it('should leave an escalated report for an admin', async () => {
+      await service.takeAction(moderator, 'report1', ModerationActionType.ESCALATE, 'Needs an admin')
+
+      expect(mockModerationActionRepository.applyAction).toHaveBeenCalledWith(
+        expect.objectContaining({ type: ModerationActionType.ESCALATE }),
+        ReportStatus.REVIEWED
+      )
+    })
+
+    it('should refuse post actions on a report about an account', async () => {
+      mockReportRepository.findById.mockResolvedValueOnce(userReport)
+
+      const result = await service.takeAction(moderator, 'report2', ModerationActionType.HIDE_POST, 'Spam')
+
+      expect(result.code).toBe('INVALID_ACTION')
+      expect(mockModerationActionRepository.applyAction).not.toHaveBeenCalled()
+    })
+
+    it('should not let moderators act on staff with the same or a higher role', async () => {
+      mockUserRepository.findById.mockResolvedValue({ id: 'user123', role: 'moderator', isActive: true })
+
+      const byModerator = await service.takeAction(moderator, 'report1', ModerationActionType.WARN_USER, 'Rude')
+      const byAdmin = await service.takeAction(admin, 'report1', ModerationActionType.WARN_USER, 'Rude')
+
+      expect(byModerator.code).toBe('CANNOT_MODERATE_STAFF')
+      expect(byAdmin.success).toBe(true)
+    })
+
+    it('should refuse to suspend an account twice', async () => {
+      mockUserRepository.findById.mockResolvedValueOnce({ ...author, isActive: false })
+
+      const result = await service.takeAction(moderator, 'report1', ModerationActionType.SUSPEND_USER, 'Spam')
+
+      expect(result.code).toBe('ALREADY_SUSPENDED')
+    })
+
+    it('should report a missing report', async () => {
+      mockReportRepository.findById.mockResolvedValueOnce(null)
+
+      const result = await service.takeAction(moderator, 'missing', ModerationActionType.WARN_USER, 'Spam')
+
+      expect(result.code).toBe('REPORT_NOT_FOUND')
+    })
+  })
+
+  describe('reverseAction()', () => {
+    it('should reverse an action in force', async () => {
+      const action = { id: 'action1', type: ModerationActionType.SUSPEND_USER, targetUserId: 'user123', reversedAt: null }
+      mockModerationActionRepository.findById.mockResolvedValueOnce(action)
+      mockModerationActionRepository.reverse.mockResolvedValueOnce({ ...action, reversedAt: new Date() })
+
+      const result = await service.reverseAction(moderator, 'action1', 'Appeal upheld')
+
+      expect(result.success).toBe(true)
+      expect(mockModerationActionRepository.reverse).toHaveBeenCalledWith('action1', 'mod1', 'Appeal upheld')
+    })
+
+    it('should refuse to reverse an action twice', async () => {
+      mockModerationActionRepository.findById.mockResolvedValueOnce({ id: 'action1', targetUserId: 'user123', reversedAt: new Date() })
+
+      const result = await service.reverseAction(moderator, 'action1')
+
+      expect(result.code).toBe('ACTION_ALREADY_REVERSED')
+      expect(mockModerationActionRepository.reverse).not.toHaveBeenCalled()
+    })
+
+    it('should report a missing action', async () => {
+      mockModerationActionRepository.findById.mockResolvedValueOnce(null)
+
+      expect((await service.reverseAction(moderator, 'missing')).code).toBe('ACTION_NOT_FOUND')
+    })
+  })
+
+  describe('getAccountStanding()', () => {
+    const history = [
+      { id: 'a2', type: ModerationActionType.ESCALATE, moderatorId: 'mod1', reversedById: null, reversedAt: null },
+      { id: 'a1', type: ModerationActionType.WARN_USER, moderatorId: 'mod1', reversedById: null, reversedAt: null }
+    ]
+
+    it('should hide escalations and moderator identities from the user', async () => {
+      mockModerationActionRepository.findByTargetUserId.mockResolvedValueOnce(history)
+
+      const result = await service.getAccountStanding('user123')
+
+      expect(result.data?.status).toBe('warned')
+      expect(result.data?.actions).toEqual([expect.objectContaining({ id: 'a1', moderatorId: null })])
+    })
+
+    it('should show staff the full record', async () => {
+      mockModerationActionRepository.findByTargetUserId.mockResolvedValueOnce(history)
+
+      const result = await service.getAccountStanding('user123', true)
+
+      expect(result.data?.actions).toHaveLength(2)
+      expect(result.data?.actions[0]?.moderatorId).toBe('mod1')
+    })
+  })
+})
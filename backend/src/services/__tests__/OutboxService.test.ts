@@ -0,0 +1,362 @@
+// backend/src/services/__tests__/OutboxService.test.ts
+// Version: 1.2.1
+// Unit tests for federating post lifecycle events, profile changes, follow request answers and serving the outbox
+// Changed: Added serving the outbox of a renamed account under its old username
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { OutboxService } from '../OutboxService'
+
+describe('OutboxService', () => {
+  let outboxService: OutboxService
+  let mockPostRepository: any
+  let mockFollowRepository: any
+  let mockUserRepository: any
+  let mockActivityPubService: any
+  let mockRemoteActorService: any
+  let mockDeliveryQueue: any
+
+  const federationConfig = {
+    domain: 'parasocial.example',
+    baseUrl: 'https://parasocial.example',
+    instanceName: 'ParaSocial Test',
+    profileBaseUrl: 'https://app.parasocial.example/profile',
+    keyEncryptionSecret: 'test-actor-key-secret-at-least-32-characters',
+    delivery: {
+      maxAttempts: 8,
+      baseDelayMs: 60000,
+      maxDelayMs: 43200000,
+      hostConcurrency: 2,
+      batchSize: 50,
+      pollIntervalMs: 5000
+    }
+  }
+
+  const post = {
+    id: 'post1',
+    content: 'Hello fediverse',
+    contentWarning: null,
+    isScheduled: false,
+    scheduledFor: null,
+    isPublished: true,
+    createdAt: new Date('2025-06-01T12:00:00Z'),
+    updatedAt: new Date('2025-06-01T12:00:00Z'),
+    publishedAt: new Date('2025-06-01T12:00:00Z'),
+    activityId: null,
+    objectId: null,
+    authorId: 'user123',
+    author: { username: 'creator', actorId: 'https://parasocial.example/users/creator' },
+    media: []
+  }
+
+  const federatedPost = {
+    ...post,
+    activityId: 'https://parasocial.example/posts/post1/activity',
+    objectId: 'https://parasocial.example/posts/post1'
+  }
+
+  beforeEach(() => {
+    mockPostRepository = {
+      findById: vi.fn().mockResolvedValue(post),
+      update: vi.fn().mockResolvedValue(federatedPost),
+      findPublished: vi.fn().mockResolvedValue({ posts: [federatedPost], totalCount: 1, hasMore: false })
+    }
+    mockFollowRepository = {
+      findRemoteFollowerActorIds: vi.fn().mockResolvedValue([
+        'https://remote.example/users/alice',
+        'https://remote.example/users/bob',
+        'https://other.example/users/carol'
+      ])
+    }
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue({ id: 'user123', username: 'creator', actorId: 'https://parasocial.example/users/creator' }),
+      findByUsername: vi.fn().mockResolvedValue({ id: 'user123', username: 'creator', isActive: true, actorId: 'https://parasocial.example/users/creator' }),
+      findByActorId: vi.fn().mockResolvedValue(null)
+    }
+    mockActivityPubService = {
+      getActorUri: vi.fn((username: string) => `https://parasocial.example/users/${username}`),
+      buildCreateActivity: vi.fn().mockReturnValue({ id: 'create1', type: 'Create' }),
+      buildUpdateActivity: vi.fn().mockReturnValue({ id: 'update1', type: 'Update' }),
+      buildDeleteActivity: vi.fn().mockReturnValue({ id: 'delete1', type: 'Delete' }),
+      buildActorUpdateActivity: vi.fn().mockReturnValue({ id: 'profile-update1', type: 'Update' }),
+      buildAcceptActivity: vi.fn().mockReturnValue({ id: 'accept1', type: 'Accept' }),
+      buildRejectActivity: vi.fn().mockReturnValue({ id: 'reject1', type: 'Reject' }),
+      buildOutboxCollection: vi.fn().mockReturnValue({ type: 'OrderedCollection' }),
+      buildOutboxPage: vi.fn().mockReturnValue({ type: 'OrderedCollectionPage' })
+    }
+    mockRemoteActorService = {
+      fetchActor: vi.fn().mockImplementation(async (actorId: string) => {
+        if (actorId.startsWith('https://remote.example')) {
+          return { id: actorId, inbox: `${actorId}/inbox`, sharedInbox: 'https://remote.example/inbox' }
+        }
+        return { id: actorId, inbox: `${actorId}/inbox` }
+      })
+    }
+    mockDeliveryQueue = {
+      enqueue: vi.fn().mockResolvedValue(2),
+      processDue: vi.fn().mockResolvedValue({ claimed: 0, delivered: 0, retried: 0, dead: 0 })
+    }
+
+    outboxService = new OutboxService(
+      mockPostRepository,
+      mockFollowRepository,
+      mockUserRepository,
+      mockActivityPubService,
+      mockRemoteActorService,
+      mockDeliveryQueue,
+      federationConfig
+    )
+  })
+
+  describe('publishPost', () => {
+    it('should store activity and object ids and queue a Create for each inbox', async () => {
+      await outboxService.publishPost('post1')
+
+      expect(mockPostRepository.update).toHaveBeenCalledWith('post1', {
+        activityId: 'https://parasocial.example/posts/post1/activity',
+        objectId: 'https://parasocial.example/posts/post1'
+      })
+      expect(mockActivityPubService.buildCreateActivity).toHaveBeenCalledWith(federatedPost)
+
+      // alice and bob share remote.example's shared inbox
+      const [activity, inboxes, senderId] = mockDeliveryQueue.enqueue.mock.calls[0]
+      expect(activity).toEqual({ id: 'create1', type: 'Create' })
+      expect(Array.from(inboxes)).toEqual([
+        'https://remote.example/inbox',
+        'https://other.example/users/carol/inbox'
+      ])
+      expect(senderId).toBe('user123')
+      expect(mockDeliveryQueue.processDue).toHaveBeenCalled()
+    })
+
+    it('should keep existing ids when re-publishing', async () => {
+      mockPostRepository.findById.mockResolvedValue(federatedPost)
+
+      await outboxService.publishPost('post1')
+
+      expect(mockPostRepository.update).not.toHaveBeenCalled()
+      expect(mockActivityPubService.buildCreateActivity).toHaveBeenCalledWith(federatedPost)
+    })
+
+    it('should ignore unpublished posts', async () => {
+      mockPostRepository.findById.mockResolvedValue({ ...post, isPublished: false })
+
+      await outboxService.publishPost('post1')
+
+      expect(mockDeliveryQueue.enqueue).not.toHaveBeenCalled()
+    })
+
+    it('should not queue anything without remote followers', async () => {
+      mockFollowRepository.findRemoteFollowerActorIds.mockResolvedValue([])
+
+      await outboxService.publishPost('post1')
+
+      expect(mockDeliveryQueue.enqueue).not.toHaveBeenCalled()
+    })
+
+    it('should skip followers whose actor cannot be fetched', async () => {
+      mockRemoteActorService.fetchActor.mockImplementation(async (actorId: string) => {
+        if (actorId.includes('carol')) {
+          throw new Error('offline')
+        }
+        return { id: actorId, inbox: `${actorId}/inbox` }
+      })
+
+      await outboxService.publishPost('post1')
+
+      const [, inboxes] = mockDeliveryQueue.enqueue.mock.calls[0]
+      expect(Array.from(inboxes)).toEqual([
+        'https://remote.example/users/alice/inbox',
+        'https://remote.example/users/bob/inbox'
+      ])
+    })
+
+    it('should swallow repository errors', async () => {
+      mockPostRepository.findById.mockRejectedValue(new Error('Database down'))
+
+      await expect(outboxService.publishPost('post1')).resolves.toBeUndefined()
+    })
+  })
+
+  describe('updatePost', () => {
+    it('should queue an Update for federated posts', async () => {
+      mockPostRepository.findById.mockResolvedValue(federatedPost)
+
+      await outboxService.updatePost('post1')
+
+      expect(mockActivityPubService.buildUpdateActivity).toHaveBeenCalledWith(federatedPost)
+      expect(mockDeliveryQueue.enqueue.mock.calls[0][0]).toEqual({ id: 'update1', type: 'Update' })
+    })
+
+    it('should not send Update for posts that were never federated', async () => {
+      await outboxService.updatePost('post1')
+
+      expect(mockDeliveryQueue.enqueue).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateProfile', () => {
+    const creator = {
+      id: 'user123',
+      username: 'creator',
+      isActive: true,
+      actorId: 'https://parasocial.example/users/creator',
+      publicKey: 'PUBLIC'
+    }
+
+    it('should queue an Update{Person} signed by the user', async () => {
+      mockUserRepository.findById.mockResolvedValue(creator)
+
+      await outboxService.updateProfile('user123')
+
+      expect(mockActivityPubService.buildActorUpdateActivity).toHaveBeenCalledWith(creator)
+      const [activity, , senderId] = mockDeliveryQueue.enqueue.mock.calls[0]
+      expect(activity).toEqual({ id: 'profile-update1', type: 'Update' })
+      expect(senderId).toBe('user123')
+    })
+
+    it('should skip users without an actor', async () => {
+      mockUserRepository.findById.mockResolvedValue({ ...creator, actorId: null, publicKey: null })
+
+      await outboxService.updateProfile('user123')
+
+      expect(mockDeliveryQueue.enqueue).not.toHaveBeenCalled()
+    })
+
+    it('should swallow repository errors', async () => {
+      mockUserRepository.findById.mockRejectedValue(new Error('Database down'))
+
+      await expect(outboxService.updateProfile('user123')).resolves.toBeUndefined()
+    })
+  })
+
+  describe('unpublishPost', () => {
+    it('should send Delete and clear the stored ids', async () => {
+      mockPostRepository.findById.mockResolvedValue({ ...federatedPost, isPublished: false })
+
+      await outboxService.unpublishPost('post1')
+
+      expect(mockDeliveryQueue.enqueue.mock.calls[0][0]).toEqual({ id: 'delete1', type: 'Delete' })
+      expect(mockPostRepository.update).toHaveBeenCalledWith('post1', { activityId: null, objectId: null })
+    })
+  })
+
+  describe('deletePost', () => {
+    it('should send Delete for deleted federated posts', async () => {
+      const { author: _author, media: _media, ...deletedRow } = federatedPost
+
+      await outboxService.deletePost(deletedRow)
+
+      expect(mockActivityPubService.buildDeleteActivity).toHaveBeenCalledWith({
+        ...deletedRow,
+        author: { username: 'creator', actorId: 'https://parasocial.example/users/creator' }
+      })
+      expect(mockDeliveryQueue.enqueue).toHaveBeenCalled()
+    })
+
+    it('should do nothing for posts that were never federated', async () => {
+      const { author: _author, media: _media, ...deletedRow } = post
+
+      await outboxService.deletePost(deletedRow)
+
+      expect(mockUserRepository.findById).not.toHaveBeenCalled()
+      expect(mockDeliveryQueue.enqueue).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('answerFollowRequest', () => {
+    const remoteRequest = {
+      id: 'follow1',
+      followedId: 'user123',
+      actorId: 'https://remote.example/users/alice',
+      activityId: 'https://remote.example/follows/1'
+    }
+    const creator = {
+      id: 'user123',
+      username: 'creator',
+      actorId: 'https://parasocial.example/users/creator',
+      privateKey: 'v1:encrypted'
+    }
+    const followActivity = {
+      id: 'https://remote.example/follows/1',
+      type: 'Follow',
+      actor: 'https://remote.example/users/alice',
+      object: 'https://parasocial.example/users/creator'
+    }
+
+    beforeEach(() => {
+      mockUserRepository.findById.mockResolvedValue(creator)
+    })
+
+    it('should queue an Accept for the requester\'s own inbox', async () => {
+      await outboxService.answerFollowRequest(remoteRequest, 'Accept')
+
+      expect(mockActivityPubService.buildAcceptActivity).toHaveBeenCalledWith(creator, followActivity, 'follow1')
+      expect(mockDeliveryQueue.enqueue).toHaveBeenCalledWith(
+        { id: 'accept1', type: 'Accept' },
+        ['https://remote.example/users/alice/inbox'],
+        'user123'
+      )
+      expect(mockDeliveryQueue.processDue).toHaveBeenCalled()
+    })
+
+    it('should queue a Reject when the request is declined', async () => {
+      await outboxService.answerFollowRequest(remoteRequest, 'Reject')
+
+      expect(mockActivityPubService.buildRejectActivity).toHaveBeenCalledWith(creator, followActivity, 'follow1')
+      expect(mockDeliveryQueue.enqueue).toHaveBeenCalledWith({ id: 'reject1', type: 'Reject' }, expect.any(Array), 'user123')
+    })
+
+    it('should skip local follow requests', async () => {
+      await outboxService.answerFollowRequest({ ...remoteRequest, actorId: null, activityId: null }, 'Accept')
+
+      expect(mockUserRepository.findById).not.toHaveBeenCalled()
+      expect(mockDeliveryQueue.enqueue).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getOutbox', () => {
+    it('should return the collection summary without a page', async () => {
+      const result = await outboxService.getOutbox('creator')
+
+      expect(result.success).toBe(true)
+      expect(mockPostRepository.findPublished).toHaveBeenCalledWith({ authorId: 'user123', limit: 1 })
+      expect(mockActivityPubService.buildOutboxCollection).toHaveBeenCalledWith('creator', 1)
+    })
+
+    it('should return a page of Create activities', async () => {
+      const result = await outboxService.getOutbox('creator', 2)
+
+      expect(result.data).toEqual({ type: 'OrderedCollectionPage' })
+      expect(mockPostRepository.findPublished).toHaveBeenCalledWith({ authorId: 'user123', offset: 20, limit: 20 })
+      expect(mockActivityPubService.buildOutboxPage).toHaveBeenCalledWith('creator', [federatedPost], 2, false)
+    })
+
+    it('should serve a renamed account\'s outbox under the username it federated as', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(null)
+      mockUserRepository.findByActorId.mockResolvedValue({
+        id: 'user123',
+        username: 'creator-renamed',
+        isActive: true,
+        actorId: 'https://parasocial.example/users/creator'
+      })
+
+      const result = await outboxService.getOutbox('creator')
+
+      expect(result.success).toBe(true)
+      expect(mockUserRepository.findByActorId).toHaveBeenCalledWith('https://parasocial.example/users/creator')
+      expect(mockPostRepository.findPublished).toHaveBeenCalledWith({ authorId: 'user123', limit: 1 })
+    })
+
+    it.each([
+      [null, 'USER_NOT_FOUND'],
+      [{ id: 'user123', isActive: false, actorId: 'x' }, 'USER_INACTIVE'],
+      [{ id: 'user123', isActive: true, actorId: null }, 'ACTOR_NOT_FOUND']
+    ])('should return an error code for user %o', async (user, code) => {
+      mockUserRepository.findByUsername.mockResolvedValue(user)
+
+      const result = await outboxService.getOutbox('creator')
+
+      expect(result.code).toBe(code)
+    })
+  })
+})
@@ -0,0 +1,215 @@
+// backend/src/services/__tests__/PostScheduler.test.ts
+// Version: 1.0.0
+// Scheduler tests driven by a fake clock and a mocked Prisma transaction
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PostScheduler, SchedulerClock } from '../PostScheduler'
+
+/**
+ * Manually advanced clock
+ * tick() moves time forward and fires every interval that comes due
+ */
+class FakeClock implements SchedulerClock {
+  private time: number
+  private timers = new Map<number, { callback: () => void, ms: number, nextAt: number }>()
+  private nextHandle = 1
+
+  constructor(start: Date) {
+    this.time = start.getTime()
+  }
+
+  now(): Date {
+    return new Date(this.time)
+  }
+
+  setInterval(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++
+    this.timers.set(handle, { callback, ms, nextAt: this.time + ms })
+    return handle
+  }
+
+  clearInterval(handle: unknown): void {
+    this.timers.delete(handle as number)
+  }
+
+  get activeTimers(): number {
+    return this.timers.size
+  }
+
+  async tick(ms: number): Promise<void> {
+    const target = this.time + ms
+    for (;;) {
+      const due = Array.from(this.timers.values())
+        .filter(timer => timer.nextAt <= target)
+        .sort((a, b) => a.nextAt - b.nextAt)[0]
+      if (!due) {
+        break
+      }
+      this.time = due.nextAt
+      due.nextAt += due.ms
+      due.callback()
+      // Let the run triggered by the callback settle
+      await new Promise(resolve => setImmediate(resolve))
+    }
+    this.time = target
+  }
+}
+
+describe('PostScheduler', () => {
+  const config = { enabled: true, intervalMs: 30000, batchSize: 25, lockKey: 42 }
+  const start = new Date('2025-06-01T12:00:00Z')
+
+  let clock: FakeClock
+  let mockTx: any
+  let mockPrisma: any
+  let publishedHook: ReturnType<typeof vi.fn>
+  let scheduler: PostScheduler
+
+  const duePosts = [
+    { id: 'post1', authorId: 'user1', scheduledFor: new Date('2025-06-01T11:59:00Z') },
+    { id: 'post2', authorId: 'user2', scheduledFor: new Date('2025-06-01T11:59:30Z') }
+  ]
+
+  beforeEach(() => {
+    clock = new FakeClock(start)
+    mockTx = {
+      $queryRaw: vi.fn().mockResolvedValue([{ locked: true }]),
+      post: {
+        findMany: vi.fn().mockResolvedValue(duePosts),
+        updateMany: vi.fn().mockResolvedValue({ count: 2 })
+      }
+    }
+    mockPrisma = {
+      $transaction: vi.fn().mockImplementation(async (work: (tx: any) => Promise<unknown>) => work(mockTx))
+    }
+    publishedHook = vi.fn().mockResolvedValue(undefined)
+
+    scheduler = new PostScheduler(mockPrisma, [publishedHook], config, clock)
+  })
+
+  describe('runOnce', () => {
+    it('should publish due posts inside the locked transaction', async () => {
+      const result = await scheduler.runOnce()
+
+      expect(result).toEqual({ status: 'completed', published: 2 })
+      expect(mockTx.$queryRaw).toHaveBeenCalledTimes(1)
+      expect(mockTx.post.findMany).toHaveBeenCalledWith({
+        where: { isScheduled: true, isPublished: false, scheduledFor: { lte: start } },
+        take: 25,
+        orderBy: { scheduledFor: 'asc' }
+      })
+      expect(mockTx.post.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['post1', 'post2'] } },
+        data: { isPublished: true, publishedAt: start, updatedAt: start }
+      })
+    })
+
+    it('should fire post-published hooks for every post', async () => {
+      await scheduler.runOnce()
+
+      expect(publishedHook).toHaveBeenCalledTimes(2)
+      expect(publishedHook).toHaveBeenCalledWith(duePosts[0])
+      expect(publishedHook).toHaveBeenCalledWith(duePosts[1])
+    })
+
+    it('should skip the run when another instance holds the lock', async () => {
+      mockTx.$queryRaw.mockResolvedValue([{ locked: false }])
+
+      const result = await scheduler.runOnce()
+
+      expect(result).toEqual({ status: 'skipped', published: 0 })
+      expect(mockTx.post.findMany).not.toHaveBeenCalled()
+      expect(publishedHook).not.toHaveBeenCalled()
+    })
+
+    it('should keep running hooks after one fails', async () => {
+      const failingHook = vi.fn().mockRejectedValue(new Error('federation down'))
+      scheduler = new PostScheduler(mockPrisma, [failingHook, publishedHook], config, clock)
+
+      const result = await scheduler.runOnce()
+
+      expect(result.status).toBe('completed')
+      expect(failingHook).toHaveBeenCalledTimes(2)
+      expect(publishedHook).toHaveBeenCalledTimes(2)
+    })
+
+    it('should report failed runs without throwing', async () => {
+      mockPrisma.$transaction.mockRejectedValue(new Error('Database down'))
+
+      const result = await scheduler.runOnce()
+
+      expect(result).toEqual({ status: 'failed', published: 0 })
+    })
+
+    it('should skip a run that overlaps one in progress', async () => {
+      let release: () => void = () => {}
+      mockTx.post.findMany.mockImplementation(() => new Promise(resolve => {
+        release = () => resolve(duePosts)
+      }))
+
+      const first = scheduler.runOnce()
+      const second = await scheduler.runOnce()
+      release()
+
+      expect(second.status).toBe('skipped')
+      expect((await first).status).toBe('completed')
+    })
+  })
+
+  describe('timer', () => {
+    it('should run immediately and then on every interval', async () => {
+      mockTx.post.findMany.mockResolvedValue([])
+
+      scheduler.start()
+      await new Promise(resolve => setImmediate(resolve))
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
+
+      await clock.tick(config.intervalMs - 1)
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
+
+      await clock.tick(1)
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(2)
+
+      await clock.tick(config.intervalMs * 3)
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(5)
+    })
+
+    it('should publish posts once their scheduled time arrives', async () => {
+      const scheduledFor = new Date(start.getTime() + 45000)
+      mockTx.post.findMany.mockImplementation(async ({ where }: any) =>
+        where.scheduledFor.lte >= scheduledFor ? [{ id: 'post3', authorId: 'user1', scheduledFor }] : []
+      )
+
+      scheduler.start()
+      await clock.tick(30000)
+      expect(publishedHook).not.toHaveBeenCalled()
+
+      await clock.tick(30000)
+      expect(publishedHook).toHaveBeenCalledWith(expect.objectContaining({ id: 'post3' }))
+    })
+
+    it('should stop firing after stop()', async () => {
+      mockTx.post.findMany.mockResolvedValue([])
+
+      scheduler.start()
+      expect(scheduler.isRunning()).toBe(true)
+      await scheduler.stop()
+
+      expect(scheduler.isRunning()).toBe(false)
+      expect(clock.activeTimers).toBe(0)
+
+      const calls = mockPrisma.$transaction.mock.calls.length
+      await clock.tick(config.intervalMs * 2)
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(calls)
+    })
+
+    it('should not start when disabled', () => {
+      scheduler = new PostScheduler(mockPrisma, [publishedHook], { ...config, enabled: false }, clock)
+
+      scheduler.start()
+
+      expect(scheduler.isRunning()).toBe(false)
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,210 @@
+// backend/src/services/__tests__/ProfileService.test.ts
+// Version: 1.3.1
+// Profile edits, username changes and avatar processing against local storage in a temporary directory
+// Changed: Username checks include the actor URI the new name would federate under
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import sharp from 'sharp'
+import { ProfileService } from '../ProfileService'
+import { LocalStorageProvider } from '../StorageProvider'
+
+describe('ProfileService', () => {
+  let mockUserRepository: any
+  let mockOutboxService: any
+  let mockActivityPubService: any
+  let directory: string
+  let avatarDirectory: string
+  let profileService: ProfileService
+
+  const user = { id: 'user123', username: 'creator', avatar: null as string | null }
+
+  /**
+   * Create a solid-colour PNG to upload
+   */
+  const createImage = (width: number, height: number) => sharp({
+    create: { width, height, channels: 3, background: { r: 200, g: 40, b: 40 } }
+  }).png().toBuffer()
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-avatars-'))
+    avatarDirectory = path.join(directory, 'avatars')
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue(user),
+      isUsernameAvailable: vi.fn().mockResolvedValue(true),
+      update: vi.fn().mockImplementation(async (id, data) => ({ ...user, id, ...data }))
+    }
+    mockOutboxService = {
+      updateProfile: vi.fn().mockResolvedValue(undefined)
+    }
+    mockActivityPubService = {
+      getActorUri: vi.fn((username: string) => `https://parasocial.example/users/${username}`)
+    }
+
+    const storage = new LocalStorageProvider({ directory, signingSecret: 'test-secret' }, '/api/media')
+    profileService = new ProfileService(mockUserRepository, storage, mockOutboxService, mockActivityPubService)
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  describe('updateProfile', () => {
+    it('should save the fields sent and federate the change', async () => {
+      const result = await profileService.updateProfile('user123', { displayName: 'New Name', bio: 'Hello' })
+
+      expect(result.success).toBe(true)
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user123', { displayName: 'New Name', bio: 'Hello' })
+      expect(mockOutboxService.updateProfile).toHaveBeenCalledWith('user123')
+    })
+
+    it('should clear the website when sent empty', async () => {
+      await profileService.updateProfile('user123', { website: '' })
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user123', { website: null })
+    })
+
+    it('should turn follower approval on and federate it', async () => {
+      await profileService.updateProfile('user123', { approveFollowers: true })
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user123', { approveFollowers: true })
+      expect(mockOutboxService.updateProfile).toHaveBeenCalledWith('user123')
+    })
+
+    it('should save labels to open without a click but keep them off the fediverse', async () => {
+      await profileService.updateProfile('user123', { autoExpandLabels: ['spoilers'] })
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user123', { autoExpandLabels: ['spoilers'] })
+      expect(mockOutboxService.updateProfile).not.toHaveBeenCalled()
+    })
+
+    it('should change the username when it is available', async () => {
+      const result = await profileService.updateProfile('user123', { username: 'renamed' })
+
+      expect(result.success).toBe(true)
+      expect(mockUserRepository.isUsernameAvailable).toHaveBeenCalledWith(
+        'renamed',
+        'user123',
+        'https://parasocial.example/users/renamed'
+      )
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user123', { username: 'renamed' })
+    })
+
+    it('should not check availability for the current username', async () => {
+      await profileService.updateProfile('user123', { username: 'creator' })
+
+      expect(mockUserRepository.isUsernameAvailable).not.toHaveBeenCalled()
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user123', {})
+    })
+
+    it('should return USERNAME_TAKEN for usernames in use', async () => {
+      mockUserRepository.isUsernameAvailable.mockResolvedValue(false)
+
+      const result = await profileService.updateProfile('user123', { username: 'taken' })
+
+      expect(result.code).toBe('USERNAME_TAKEN')
+      expect(mockUserRepository.update).not.toHaveBeenCalled()
+      expect(mockOutboxService.updateProfile).not.toHaveBeenCalled()
+    })
+
+    it('should return USERNAME_TAKEN when the username is claimed during the update', async () => {
+      mockUserRepository.isUsernameAvailable
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false)
+      mockUserRepository.update.mockResolvedValue(null)
+
+      const result = await profileService.updateProfile('user123', { username: 'contested' })
+
+      expect(result.code).toBe('USERNAME_TAKEN')
+    })
+
+    it('should return USER_NOT_FOUND for unknown users', async () => {
+      mockUserRepository.findById.mockResolvedValue(null)
+
+      const result = await profileService.updateProfile('missing', { bio: 'Hello' })
+
+      expect(result.code).toBe('USER_NOT_FOUND')
+    })
+  })
+
+  describe('updateAvatar', () => {
+    it('should write a square WebP at every size and point the user at the largest', async () => {
+      const result = await profileService.updateAvatar('user123', await createImage(800, 500))
+
+      expect(result.success).toBe(true)
+      const avatar = mockUserRepository.update.mock.calls[0][1].avatar as string
+      expect(avatar).toMatch(/^\/uploads\/avatars\/user123-\d+-400\.webp$/)
+
+      const files = (await fs.readdir(avatarDirectory)).sort()
+      expect(files).toHaveLength(3)
+      for (const size of [400, 128, 48]) {
+        const file = files.find(name => name.endsWith(`-${size}.webp`)) as string
+        const metadata = await sharp(path.join(avatarDirectory, file)).metadata()
+        expect(metadata).toMatchObject({ format: 'webp', width: size, height: size })
+      }
+      expect(mockOutboxService.updateProfile).toHaveBeenCalledWith('user123')
+    })
+
+    it('should use the crop square when one is given', async () => {
+      const result = await profileService.updateAvatar('user123', await createImage(800, 500), { x: 700, y: 0, size: 100 })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should return INVALID_CROP for a crop outside the image', async () => {
+      const result = await profileService.updateAvatar('user123', await createImage(800, 500), { x: 600, y: 0, size: 300 })
+
+      expect(result.code).toBe('INVALID_CROP')
+      expect(await fs.readdir(directory)).toEqual([])
+    })
+
+    it('should return INVALID_IMAGE for bytes that are not an image', async () => {
+      const result = await profileService.updateAvatar('user123', Buffer.from('not an image'))
+
+      expect(result.code).toBe('INVALID_IMAGE')
+      expect(mockUserRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('should remove the previous avatar files', async () => {
+      await fs.mkdir(avatarDirectory)
+      for (const size of [400, 128, 48]) {
+        await fs.writeFile(path.join(avatarDirectory, `user123-1000-${size}.webp`), 'old')
+      }
+      mockUserRepository.findById.mockResolvedValue({ ...user, avatar: '/uploads/avatars/user123-1000-400.webp' })
+
+      await profileService.updateAvatar('user123', await createImage(64, 64))
+
+      const files = await fs.readdir(avatarDirectory)
+      expect(files).toHaveLength(3)
+      expect(files.some(name => name.startsWith('user123-1000-'))).toBe(false)
+    })
+
+    it('should clean up the new files when the user disappears', async () => {
+      mockUserRepository.update.mockResolvedValue(null)
+
+      const result = await profileService.updateAvatar('user123', await createImage(64, 64))
+
+      expect(result.code).toBe('USER_NOT_FOUND')
+      expect(await fs.readdir(avatarDirectory)).toEqual([])
+    })
+  })
+
+  describe('openAvatar', () => {
+    it('should read stored avatars back from storage', async () => {
+      await profileService.updateAvatar('user123', await createImage(64, 64))
+      const avatar = mockUserRepository.update.mock.calls[0][1].avatar as string
+
+      const stored = await profileService.openAvatar(path.basename(avatar))
+
+      expect(stored).not.toBeNull()
+      stored?.body.destroy()
+    })
+
+    it('should refuse names that are not avatar files', async () => {
+      expect(await profileService.openAvatar('../file-1.png')).toBeNull()
+      expect(await profileService.openAvatar('user123-1000-400.png')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,275 @@
+// backend/src/services/__tests__/RateLimitStore.test.ts
+// Version: 1.1.0
+// Every store against the same expectations: memory directly, Postgres through an in-process
+// stand-in for the rate_limit_buckets table, and Redis through ioredis-mock running the real Lua
+// Changed: Added refunds with a negative cost
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import RedisMock from 'ioredis-mock'
+import {
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  RedisRateLimitStore,
+  createRateLimitStore,
+  RateLimitRule,
+  RateLimitStore
+} from '../RateLimitStore'
+
+/**
+ * Stand-in for the Prisma calls PostgresRateLimitStore makes
+ * Keeps rows in a Map and recognises each statement by its leading keyword
+ */
+const createPrismaStandIn = () => {
+  const rows = new Map<string, { state: unknown, expiresAt: Date }>()
+
+  const run = async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const sql = strings.join('?').trim()
+
+    if (sql.startsWith('INSERT')) {
+      const key = values[0] as string
+      if (!rows.has(key)) {
+        rows.set(key, { state: null, expiresAt: new Date(0) })
+        return 1
+      }
+      return 0
+    }
+    if (sql.startsWith('SELECT')) {
+      const row = rows.get(values[0] as string)
+      return row ? [{ ...row }] : []
+    }
+    if (sql.startsWith('UPDATE')) {
+      rows.set(values[2] as string, { state: JSON.parse(values[0] as string), expiresAt: values[1] as Date })
+      return 1
+    }
+    if (sql.startsWith('DELETE') && sql.includes('"expiresAt"')) {
+      let deleted = 0
+      for (const [key, row] of rows) {
+        if (row.expiresAt <= (values[0] as Date)) {
+          rows.delete(key)
+          deleted++
+        }
+      }
+      return deleted
+    }
+    if (sql.startsWith('DELETE')) {
+      return rows.delete(values[0] as string) ? 1 : 0
+    }
+    throw new Error(`Unexpected statement: ${sql}`)
+  }
+
+  const client = {
+    $executeRaw: vi.fn(run),
+    $queryRaw: vi.fn(run),
+    $transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => await callback(client))
+  }
+
+  return { client, rows }
+}
+
+const slidingWindow: RateLimitRule = { windowMs: 1000, max: 3, algorithm: 'sliding-window' }
+const tokenBucket: RateLimitRule = { windowMs: 3000, max: 3, algorithm: 'token-bucket' }
+
+// Start of a window, so the previous window's weight is exactly 1
+const start = 10_000
+
+/**
+ * Consume from a key several times, returning whether each was allowed
+ */
+const consumeTimes = async (store: RateLimitStore, key: string, rule: RateLimitRule, now: number, times: number) => {
+  const allowed: boolean[] = []
+  for (let i = 0; i < times; i++) {
+    allowed.push((await store.consume(key, rule, now)).allowed)
+  }
+  return allowed
+}
+
+const stores: Array<[string, () => RateLimitStore]> = [
+  ['MemoryRateLimitStore', () => new MemoryRateLimitStore()],
+  ['PostgresRateLimitStore', () => new PostgresRateLimitStore(createPrismaStandIn().client as any, 'ratelimit:')],
+  ['RedisRateLimitStore', () => new RedisRateLimitStore(new RedisMock(), 'ratelimit:')]
+]
+
+describe.each(stores)('%s', (_name, createStore) => {
+  let store: RateLimitStore
+
+  beforeEach(() => {
+    store = createStore()
+  })
+
+  afterEach(async () => {
+    await store.close?.()
+  })
+
+  describe('sliding window', () => {
+    it('should allow up to the limit and report what remains', async () => {
+      const first = await store.consume('client', slidingWindow, start)
+      expect(first).toEqual({ allowed: true, limit: 3, remaining: 2, resetMs: 2000, retryAfterMs: 0 })
+
+      expect(await consumeTimes(store, 'client', slidingWindow, start, 3)).toEqual([true, true, false])
+    })
+
+    it('should say how long until the weighted count leaves room', async () => {
+      await consumeTimes(store, 'client', slidingWindow, start, 3)
+
+      const denied = await store.consume('client', slidingWindow, start)
+
+      // The next window starts in 1000ms; the 3 requests must then weigh at most 2
+      expect(denied.allowed).toBe(false)
+      expect(denied.remaining).toBe(0)
+      expect(denied.retryAfterMs).toBe(1334)
+      expect((await store.consume('client', slidingWindow, start + 1333)).allowed).toBe(false)
+      expect((await store.consume('client', slidingWindow, start + 1334)).allowed).toBe(true)
+    })
+
+    it('should keep counting the previous window by how much it overlaps', async () => {
+      await consumeTimes(store, 'client', slidingWindow, start, 3)
+
+      // Halfway through the next window the 3 earlier requests count as 1.5
+      expect(await consumeTimes(store, 'client', slidingWindow, start + 1500, 2)).toEqual([true, false])
+    })
+
+    it('should give back a refunded request, even once the limit is used', async () => {
+      await consumeTimes(store, 'refunded', slidingWindow, start, 3)
+
+      const refund = await store.consume('refunded', slidingWindow, start, -1)
+
+      expect(refund).toMatchObject({ allowed: true, remaining: 1 })
+      expect(await consumeTimes(store, 'refunded', slidingWindow, start, 2)).toEqual([true, false])
+    })
+
+    it('should not count below zero when refunding a request from an earlier window', async () => {
+      await store.consume('late-refund', slidingWindow, start)
+
+      await store.consume('late-refund', slidingWindow, start + 1000, -1)
+
+      // Only the previous window's request, at full weight, still counts
+      expect(await consumeTimes(store, 'late-refund', slidingWindow, start + 1000, 3)).toEqual([true, true, false])
+    })
+
+    it('should start over once a whole window has passed', async () => {
+      await consumeTimes(store, 'client', slidingWindow, start, 3)
+
+      expect(await consumeTimes(store, 'client', slidingWindow, start + 2000, 3)).toEqual([true, true, true])
+    })
+  })
+
+  describe('token bucket', () => {
+    it('should allow a burst up to the limit', async () => {
+      const allowed = await consumeTimes(store, 'client', tokenBucket, start, 4)
+
+      expect(allowed).toEqual([true, true, true, false])
+    })
+
+    it('should refill at the limit per window', async () => {
+      await consumeTimes(store, 'client', tokenBucket, start, 3)
+
+      const denied = await store.consume('client', tokenBucket, start)
+      expect(denied).toEqual({ allowed: false, limit: 3, remaining: 0, resetMs: 3000, retryAfterMs: 1000 })
+
+      expect(await consumeTimes(store, 'client', tokenBucket, start + 1000, 2)).toEqual([true, false])
+    })
+
+    it('should give back a refunded token', async () => {
+      await consumeTimes(store, 'refunded-token', tokenBucket, start, 3)
+
+      const refund = await store.consume('refunded-token', tokenBucket, start, -1)
+
+      expect(refund).toMatchObject({ allowed: true, remaining: 1 })
+      expect(await consumeTimes(store, 'refunded-token', tokenBucket, start, 2)).toEqual([true, false])
+    })
+
+    it('should not refund past the limit', async () => {
+      await store.consume('full-refund', tokenBucket, start, -1)
+
+      expect(await consumeTimes(store, 'full-refund', tokenBucket, start, 4)).toEqual([true, true, true, false])
+    })
+
+    it('should never hold more than the limit', async () => {
+      await store.consume('client', tokenBucket, start)
+
+      expect(await consumeTimes(store, 'client', tokenBucket, start + 60_000, 4)).toEqual([true, true, true, false])
+    })
+  })
+
+  it('should read the limit without using it when the cost is 0', async () => {
+    await store.consume('client', slidingWindow, start)
+
+    const status = await store.consume('client', slidingWindow, start, 0)
+    const next = await store.consume('client', slidingWindow, start)
+
+    expect(status.remaining).toBe(2)
+    expect(next.remaining).toBe(1)
+  })
+
+  it('should keep keys apart and forget a key on reset', async () => {
+    await consumeTimes(store, 'first', slidingWindow, start, 3)
+
+    expect((await store.consume('second', slidingWindow, start)).allowed).toBe(true)
+    expect((await store.consume('first', slidingWindow, start)).allowed).toBe(false)
+
+    await store.reset('first')
+
+    expect((await store.consume('first', slidingWindow, start)).allowed).toBe(true)
+  })
+})
+
+describe('Shared stores', () => {
+  it('should enforce one limit for every instance using the same Redis server', async () => {
+    // ioredis-mock shares data between clients created with the same host and port
+    const instanceA = new RedisRateLimitStore(new RedisMock({ host: 'shared', port: 6380 }), 'ratelimit:')
+    const instanceB = new RedisRateLimitStore(new RedisMock({ host: 'shared', port: 6380 }), 'ratelimit:')
+
+    const allowed = [
+      (await instanceA.consume('client', slidingWindow, start)).allowed,
+      (await instanceB.consume('client', slidingWindow, start)).allowed,
+      (await instanceA.consume('client', slidingWindow, start)).allowed,
+      (await instanceB.consume('client', slidingWindow, start)).allowed
+    ]
+
+    expect(allowed).toEqual([true, true, true, false])
+    await instanceA.close()
+    await instanceB.close()
+  })
+
+  it('should keep Postgres state under the key prefix and lock the row while consuming', async () => {
+    const { client, rows } = createPrismaStandIn()
+    const store = new PostgresRateLimitStore(client as any, 'ratelimit:')
+
+    await store.consume('auth:203.0.113.7', slidingWindow, start)
+
+    expect(client.$transaction).toHaveBeenCalledTimes(1)
+    expect(client.$queryRaw.mock.calls[0]![0].join('?')).toContain('FOR UPDATE')
+    expect(rows.get('ratelimit:auth:203.0.113.7')).toEqual({
+      state: { type: 'sliding-window', windowStart: start, previous: 0, current: 1 },
+      expiresAt: new Date(start + 2000)
+    })
+  })
+
+  it('should treat expired Postgres rows as new and delete them on cleanup', async () => {
+    const { client, rows } = createPrismaStandIn()
+    const store = new PostgresRateLimitStore(client as any)
+
+    await consumeTimes(store, 'client', slidingWindow, start, 3)
+    const later = start + 5000
+
+    expect((await store.consume('client', slidingWindow, later)).allowed).toBe(true)
+    expect(await store.removeExpired(later + 2000)).toBe(1)
+    expect(rows.size).toBe(0)
+  })
+})
+
+describe('createRateLimitStore', () => {
+  const settings = { algorithm: 'sliding-window' as const, keyPrefix: 'ratelimit:', redisUrl: undefined }
+
+  it('should create the store for the configured driver', () => {
+    const prisma = createPrismaStandIn().client as any
+
+    expect(createRateLimitStore({ ...settings, store: 'memory' }, prisma)).toBeInstanceOf(MemoryRateLimitStore)
+    expect(createRateLimitStore({ ...settings, store: 'postgres' }, prisma)).toBeInstanceOf(PostgresRateLimitStore)
+  })
+
+  it('should refuse a redis store without a URL', () => {
+    expect(() => createRateLimitStore({ ...settings, store: 'redis' }, createPrismaStandIn().client as any))
+      .toThrow('Redis rate limit store selected without a URL')
+  })
+})
@@ -0,0 +1,181 @@
+// backend/src/services/__tests__/RateLimitTierService.test.ts
+// Version: 1.0.0
+// Per-user limits from verification tier, role and admin overrides with mocked repositories
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { RateLimitTierService } from '../RateLimitTierService'
+
+describe('RateLimitTierService', () => {
+  let mockUserRepository: any
+  let mockOverrideRepository: any
+  let rateLimitTierService: RateLimitTierService
+
+  const newcomer = { id: 'user123', username: 'newcomer', verificationTier: 'none', role: 'user' }
+  const newsOutlet = { id: 'news1', username: 'dailynews', verificationTier: 'notable', role: 'user' }
+
+  beforeEach(() => {
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue(newcomer)
+    }
+    mockOverrideRepository = {
+      findActiveByUserId: vi.fn().mockResolvedValue([]),
+      upsert: vi.fn().mockImplementation(async data => ({ id: 'override1', createdAt: new Date(), updatedAt: new Date(), ...data })),
+      delete: vi.fn().mockResolvedValue(true)
+    }
+
+    rateLimitTierService = new RateLimitTierService(mockUserRepository, mockOverrideRepository)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('getUserLimits()', () => {
+    it('should give an unverified user the default limits', async () => {
+      const result = await rateLimitTierService.getUserLimits('user123')
+
+      expect(result.data).toMatchObject({ verificationTier: 'none', role: 'user', multiplier: 1 })
+      expect(result.data?.limits.postCreation).toEqual({ windowMs: 60 * 1000, max: 10, source: 'tier', expiresAt: null })
+    })
+
+    it('should scale limits with the verification tier', async () => {
+      mockUserRepository.findById.mockResolvedValue(newsOutlet)
+
+      const result = await rateLimitTierService.getUserLimits('news1')
+
+      expect(result.data?.multiplier).toBe(10)
+      expect(result.data?.limits.postCreation.max).toBe(100)
+      expect(result.data?.limits.followOperations.max).toBe(200)
+    })
+
+    it('should use the role multiplier when it is larger than the tier', async () => {
+      mockUserRepository.findById.mockResolvedValue({ ...newcomer, verificationTier: 'email', role: 'moderator' })
+
+      const result = await rateLimitTierService.getUserLimits('user123')
+
+      expect(result.data?.multiplier).toBe(5)
+      expect(result.data?.limits.mediaUpload.max).toBe(50)
+    })
+
+    it('should treat an unknown tier as unverified', async () => {
+      mockUserRepository.findById.mockResolvedValue({ ...newcomer, verificationTier: 'legacy' })
+
+      const result = await rateLimitTierService.getUserLimits('user123')
+
+      expect(result.data).toMatchObject({ verificationTier: 'none', multiplier: 1 })
+    })
+
+    it('should apply an override instead of the tier limit', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000)
+      mockOverrideRepository.findActiveByUserId.mockResolvedValue([
+        { policy: 'postCreation', max: 500, windowMs: 5 * 60 * 1000, expiresAt }
+      ])
+
+      const result = await rateLimitTierService.getUserLimits('user123')
+
+      expect(result.data?.limits.postCreation).toEqual({ windowMs: 5 * 60 * 1000, max: 500, source: 'override', expiresAt })
+      expect(result.data?.limits.general.source).toBe('tier')
+    })
+
+    it('should cache limits briefly', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+
+      await rateLimitTierService.getUserLimits('user123')
+      await rateLimitTierService.getUserLimits('user123')
+      vi.advanceTimersByTime(61 * 1000)
+      await rateLimitTierService.getUserLimits('user123')
+
+      expect(mockUserRepository.findById).toHaveBeenCalledTimes(2)
+    })
+
+    it('should stop caching when an override expires', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      mockOverrideRepository.findActiveByUserId
+        .mockResolvedValueOnce([{ policy: 'general', max: 1000, windowMs: null, expiresAt: new Date(Date.now() + 10 * 1000) }])
+        .mockResolvedValue([])
+
+      const before = await rateLimitTierService.getUserLimits('user123')
+      vi.advanceTimersByTime(10 * 1000)
+      const after = await rateLimitTierService.getUserLimits('user123')
+
+      expect(before.data?.limits.general.max).toBe(1000)
+      expect(after.data?.limits.general).toMatchObject({ max: 100, source: 'tier' })
+    })
+
+    it('should report a missing user', async () => {
+      mockUserRepository.findById.mockResolvedValue(null)
+
+      const result = await rateLimitTierService.getUserLimits('missing')
+
+      expect(result).toEqual({ success: false, error: 'User not found', code: 'USER_NOT_FOUND' })
+    })
+  })
+
+  describe('resolvePolicy()', () => {
+    it('should return the user\'s window and max for a policy', async () => {
+      mockUserRepository.findById.mockResolvedValue(newsOutlet)
+
+      expect(await rateLimitTierService.resolvePolicy('news1', 'postCreation')).toEqual({ windowMs: 60 * 1000, max: 100 })
+    })
+
+    it('should fall back to the policy default when the lookup fails', async () => {
+      mockUserRepository.findById.mockRejectedValue(new Error('connection lost'))
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(await rateLimitTierService.resolvePolicy('user123', 'postCreation')).toEqual({ windowMs: 60 * 1000, max: 10 })
+    })
+  })
+
+  describe('setOverride()', () => {
+    it('should store the override and apply it straight away', async () => {
+      await rateLimitTierService.getUserLimits('user123')
+      mockOverrideRepository.findActiveByUserId.mockResolvedValue([
+        { policy: 'postCreation', max: 250, windowMs: null, expiresAt: null }
+      ])
+
+      const result = await rateLimitTierService.setOverride('admin1', 'user123', {
+        policy: 'postCreation',
+        max: 250,
+        reason: 'Live event coverage'
+      })
+
+      expect(result.success).toBe(true)
+      expect(mockOverrideRepository.upsert).toHaveBeenCalledWith({
+        userId: 'user123',
+        policy: 'postCreation',
+        max: 250,
+        windowMs: null,
+        reason: 'Live event coverage',
+        createdById: 'admin1',
+        expiresAt: null
+      })
+      expect(await rateLimitTierService.resolvePolicy('user123', 'postCreation')).toEqual({ windowMs: 60 * 1000, max: 250 })
+    })
+
+    it('should refuse an unknown user', async () => {
+      mockUserRepository.findById.mockResolvedValue(null)
+
+      const result = await rateLimitTierService.setOverride('admin1', 'missing', { policy: 'general', max: 10 })
+
+      expect(result.code).toBe('USER_NOT_FOUND')
+      expect(mockOverrideRepository.upsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('removeOverride()', () => {
+    it('should remove the override', async () => {
+      const result = await rateLimitTierService.removeOverride('admin1', 'user123', 'postCreation')
+
+      expect(result).toEqual({ success: true })
+      expect(mockOverrideRepository.delete).toHaveBeenCalledWith('user123', 'postCreation')
+    })
+
+    it('should report when no override was set', async () => {
+      mockOverrideRepository.delete.mockResolvedValue(false)
+
+      const result = await rateLimitTierService.removeOverride('admin1', 'user123', 'general')
+
+      expect(result.code).toBe('OVERRIDE_NOT_FOUND')
+    })
+  })
+})
@@ -0,0 +1,140 @@
+// backend/src/services/__tests__/RemoteActorService.test.ts
+// Version: 1.1.0
+// Unit tests for remote actor fetching, key lookup and caching
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { RemoteActorService } from '../RemoteActorService'
+
+describe('RemoteActorService', () => {
+  let mockFetch: any
+  let remoteActorService: RemoteActorService
+
+  const actorDocument = {
+    id: 'https://remote.example/users/alice',
+    type: 'Person',
+    preferredUsername: 'alice',
+    inbox: 'https://remote.example/users/alice/inbox',
+    endpoints: { sharedInbox: 'https://remote.example/inbox' },
+    publicKey: {
+      id: 'https://remote.example/users/alice#main-key',
+      owner: 'https://remote.example/users/alice',
+      publicKeyPem: 'PEM'
+    }
+  }
+
+  const respondWith = (body: unknown, status: number = 200) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body
+  })
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockResolvedValue(respondWith(actorDocument))
+    remoteActorService = new RemoteActorService({ fetchFn: mockFetch })
+  })
+
+  it('should fetch and normalize actor documents', async () => {
+    const actor = await remoteActorService.fetchActor('https://remote.example/users/alice')
+
+    expect(actor).toEqual({
+      id: 'https://remote.example/users/alice',
+      inbox: 'https://remote.example/users/alice/inbox',
+      sharedInbox: 'https://remote.example/inbox',
+      preferredUsername: 'alice',
+      publicKey: actorDocument.publicKey
+    })
+    expect(mockFetch).toHaveBeenCalledWith('https://remote.example/users/alice', expect.objectContaining({
+      headers: { Accept: 'application/activity+json' }
+    }))
+  })
+
+  it('should resolve key ids through the owning actor and cache the result', async () => {
+    const key = await remoteActorService.getPublicKey('https://remote.example/users/alice#main-key')
+    await remoteActorService.getPublicKey('https://remote.example/users/alice#main-key')
+
+    expect(key.publicKeyPem).toBe('PEM')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch).toHaveBeenCalledWith('https://remote.example/users/alice', expect.anything())
+  })
+
+  it('should bypass the cache when refreshing', async () => {
+    await remoteActorService.getPublicKey('https://remote.example/users/alice#main-key')
+    await remoteActorService.getPublicKey('https://remote.example/users/alice#main-key', true)
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should refetch after eviction', async () => {
+    await remoteActorService.fetchActor('https://remote.example/users/alice')
+    remoteActorService.evict('https://remote.example/users/alice')
+    await remoteActorService.fetchActor('https://remote.example/users/alice')
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should reject keys the actor does not advertise', async () => {
+    await expect(
+      remoteActorService.getPublicKey('https://remote.example/users/alice#other-key')
+    ).rejects.toThrow('does not belong')
+  })
+
+  it('should reject keys owned by someone else', async () => {
+    mockFetch.mockResolvedValue(respondWith({
+      ...actorDocument,
+      publicKey: { ...actorDocument.publicKey, owner: 'https://remote.example/users/mallory' }
+    }))
+
+    await expect(
+      remoteActorService.getPublicKey('https://remote.example/users/alice#main-key')
+    ).rejects.toThrow('does not belong')
+  })
+
+  it('should throw for HTTP errors and malformed documents', async () => {
+    mockFetch.mockResolvedValueOnce(respondWith({}, 410))
+    await expect(remoteActorService.fetchActor('https://remote.example/users/gone')).rejects.toThrow('HTTP 410')
+
+    mockFetch.mockResolvedValueOnce(respondWith({ id: 'https://remote.example/users/bad' }))
+    await expect(remoteActorService.fetchActor('https://remote.example/users/bad')).rejects.toThrow('Malformed')
+  })
+
+  it('should refuse non-HTTP actor URIs', async () => {
+    await expect(remoteActorService.fetchActor('file:///etc/passwd')).rejects.toThrow('Unsupported')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should reject documents claiming another actor id and not cache them', async () => {
+    mockFetch.mockResolvedValue(respondWith({
+      ...actorDocument,
+      inbox: 'https://evil.example/inbox',
+      publicKey: { ...actorDocument.publicKey, id: 'https://evil.example/users/mallory#main-key' }
+    }))
+
+    await expect(
+      remoteActorService.getPublicKey('https://evil.example/users/mallory#main-key')
+    ).rejects.toThrow('claims to be https://remote.example/users/alice')
+
+    mockFetch.mockResolvedValue(respondWith(actorDocument))
+    const actor = await remoteActorService.fetchActor('https://remote.example/users/alice')
+    expect(actor.inbox).toBe('https://remote.example/users/alice/inbox')
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should refuse plain http and private hosts', async () => {
+    await expect(remoteActorService.fetchActor('http://remote.example/users/alice')).rejects.toThrow('Unsupported')
+    await expect(remoteActorService.fetchActor('https://localhost/users/alice')).rejects.toThrow('private host')
+    await expect(remoteActorService.fetchActor('https://10.0.0.5/users/alice')).rejects.toThrow('private host')
+    await expect(remoteActorService.fetchActor('https://[::1]/users/alice')).rejects.toThrow('private host')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should treat keys without an owner or private inboxes as malformed', async () => {
+    mockFetch.mockResolvedValueOnce(respondWith({
+      ...actorDocument,
+      publicKey: { id: actorDocument.publicKey.id, publicKeyPem: 'PEM' }
+    }))
+    await expect(remoteActorService.fetchActor('https://remote.example/users/alice')).rejects.toThrow('Malformed')
+
+    mockFetch.mockResolvedValueOnce(respondWith({ ...actorDocument, inbox: 'http://127.0.0.1/inbox' }))
+    await expect(remoteActorService.fetchActor('https://remote.example/users/alice')).rejects.toThrow('Malformed')
+  })
+})
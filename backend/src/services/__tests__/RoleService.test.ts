@@ -0,0 +1,115 @@
+// backend/src/services/__tests__/RoleService.test.ts
+// Version: 1.0.0
+// Role grant, revocation and audit trail tests with mocked repositories
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { RoleService } from '../RoleService'
+
+describe('RoleService', () => {
+  let mockUserRepository: any
+  let mockRoleChangeRepository: any
+  let mockSessionRepository: any
+  let roleService: RoleService
+
+  const member = { id: 'user123', username: 'creator', role: 'user' }
+  const moderator = { id: 'mod456', username: 'helper', role: 'moderator' }
+
+  beforeEach(() => {
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue(member)
+    }
+    mockRoleChangeRepository = {
+      applyChange: vi.fn().mockImplementation(async data => ({ id: 'change1', createdAt: new Date(), ...data })),
+      findByUserId: vi.fn().mockResolvedValue([])
+    }
+    mockSessionRepository = {
+      revokeAllForUser: vi.fn().mockResolvedValue(2)
+    }
+
+    roleService = new RoleService(mockUserRepository, mockRoleChangeRepository, mockSessionRepository)
+  })
+
+  describe('changeRole()', () => {
+    it('should grant a role and record who granted it', async () => {
+      const result = await roleService.changeRole('admin1', 'user123', 'moderator', 'Helps with reports')
+
+      expect(result).toEqual({
+        success: true,
+        data: { userId: 'user123', previousRole: 'user', role: 'moderator', sessionsRevoked: 0 }
+      })
+      expect(mockRoleChangeRepository.applyChange).toHaveBeenCalledWith({
+        userId: 'user123',
+        actorId: 'admin1',
+        previousRole: 'user',
+        newRole: 'moderator',
+        reason: 'Helps with reports'
+      })
+      expect(mockSessionRepository.revokeAllForUser).not.toHaveBeenCalled()
+    })
+
+    it('should revoke sessions when a role is taken away', async () => {
+      mockUserRepository.findById.mockResolvedValueOnce(moderator)
+
+      const result = await roleService.changeRole('admin1', 'mod456', 'user')
+
+      expect(result.data?.sessionsRevoked).toBe(2)
+      expect(mockSessionRepository.revokeAllForUser).toHaveBeenCalledWith('mod456', 'role_revoked')
+      expect(mockRoleChangeRepository.applyChange).toHaveBeenCalledWith(expect.objectContaining({ reason: null }))
+    })
+
+    it('should not let an admin change their own role', async () => {
+      const result = await roleService.changeRole('admin1', 'admin1', 'user')
+
+      expect(result.code).toBe('CANNOT_CHANGE_OWN_ROLE')
+      expect(mockRoleChangeRepository.applyChange).not.toHaveBeenCalled()
+    })
+
+    it('should allow changes made outside the API without an actor', async () => {
+      const result = await roleService.changeRole(null, 'user123', 'admin')
+
+      expect(result.success).toBe(true)
+      expect(mockRoleChangeRepository.applyChange).toHaveBeenCalledWith(expect.objectContaining({ actorId: null }))
+    })
+
+    it('should report a missing user', async () => {
+      mockUserRepository.findById.mockResolvedValueOnce(null)
+
+      const result = await roleService.changeRole('admin1', 'missing', 'moderator')
+
+      expect(result.code).toBe('USER_NOT_FOUND')
+    })
+
+    it('should refuse to record a change that changes nothing', async () => {
+      const result = await roleService.changeRole('admin1', 'user123', 'user')
+
+      expect(result.code).toBe('ROLE_UNCHANGED')
+      expect(mockRoleChangeRepository.applyChange).not.toHaveBeenCalled()
+    })
+
+    it('should report a conflict when the role changed concurrently', async () => {
+      mockRoleChangeRepository.applyChange.mockResolvedValueOnce(null)
+
+      const result = await roleService.changeRole('admin1', 'user123', 'moderator')
+
+      expect(result.code).toBe('ROLE_CONFLICT')
+      expect(mockSessionRepository.revokeAllForUser).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getRoleHistory()', () => {
+    it('should return the audit entries for an existing user', async () => {
+      const entries = [{ id: 'change1', userId: 'user123', newRole: 'moderator' }]
+      mockRoleChangeRepository.findByUserId.mockResolvedValueOnce(entries)
+
+      const result = await roleService.getRoleHistory('user123')
+
+      expect(result).toEqual({ success: true, data: entries })
+    })
+
+    it('should report a missing user', async () => {
+      mockUserRepository.findById.mockResolvedValueOnce(null)
+
+      expect((await roleService.getRoleHistory('missing')).code).toBe('USER_NOT_FOUND')
+    })
+  })
+})
@@ -0,0 +1,240 @@
+// backend/src/services/__tests__/SessionService.test.ts
+// Version: 1.0.0
+// Session lifecycle tests against an in-memory session repository
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { SessionService } from '../SessionService'
+import type { Session, SessionCreateData, SessionRevokeReason } from '../../repositories/SessionRepository'
+
+interface StoredToken {
+  id: string
+  sessionId: string
+  tokenHash: string
+  createdAt: Date
+  usedAt: Date | null
+}
+
+/**
+ * In-memory stand-in for SessionRepository
+ */
+class InMemorySessionRepository {
+  sessions = new Map<string, Session>()
+  tokens: StoredToken[] = []
+  private nextId = 1
+
+  async create(data: SessionCreateData, tokenHash: string): Promise<Session> {
+    const now = new Date()
+    const session: Session = {
+      id: `session${this.nextId++}`,
+      ...data,
+      createdAt: now,
+      lastUsedAt: now,
+      revokedAt: null,
+      revokedReason: null
+    }
+    this.sessions.set(session.id, session)
+    this.tokens.push({ id: `token${this.nextId++}`, sessionId: session.id, tokenHash, createdAt: now, usedAt: null })
+    return session
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    return this.sessions.get(id) ?? null
+  }
+
+  async findActiveByUserId(userId: string, now: Date = new Date()): Promise<Session[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId && !session.revokedAt && session.expiresAt > now)
+  }
+
+  async findRefreshToken(tokenHash: string) {
+    const token = this.tokens.find(stored => stored.tokenHash === tokenHash)
+    return token ? { ...token, session: this.sessions.get(token.sessionId)! } : null
+  }
+
+  async rotateRefreshToken(tokenId: string, sessionId: string, newTokenHash: string): Promise<boolean> {
+    const token = this.tokens.find(stored => stored.id === tokenId)
+    if (!token || token.usedAt) {
+      return false
+    }
+    token.usedAt = new Date()
+    this.tokens.push({ id: `token${this.nextId++}`, sessionId, tokenHash: newTokenHash, createdAt: new Date(), usedAt: null })
+    return true
+  }
+
+  async revoke(id: string, reason: SessionRevokeReason): Promise<boolean> {
+    const session = this.sessions.get(id)
+    if (!session || session.revokedAt) {
+      return false
+    }
+    session.revokedAt = new Date()
+    session.revokedReason = reason
+    return true
+  }
+}
+
+describe('SessionService', () => {
+  const config = { accessTokenTtlSeconds: 900, refreshTokenTtlDays: 30 }
+  const context = { userAgent: 'Firefox', ipAddress: '203.0.113.7' }
+  const user = { id: 'user123', email: 'creator@example.com', username: 'creator', isActive: true }
+
+  let sessionRepository: InMemorySessionRepository
+  let mockUserRepository: any
+  let mockAuthService: any
+  let sessionService: SessionService
+
+  beforeEach(() => {
+    sessionRepository = new InMemorySessionRepository()
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue(user)
+    }
+    mockAuthService = {
+      generateToken: vi.fn().mockImplementation((_user, session) => `access-${session.id}`)
+    }
+
+    sessionService = new SessionService(sessionRepository as any, mockUserRepository, mockAuthService, config)
+  })
+
+  describe('startSession', () => {
+    it('should persist a session and return tokens bound to it', async () => {
+      const tokens = await sessionService.startSession(user, context)
+
+      expect(tokens.accessToken).toBe(`access-${tokens.sessionId}`)
+      expect(tokens.expiresIn).toBe(900)
+      expect(mockAuthService.generateToken).toHaveBeenCalledWith(user, { id: tokens.sessionId, expiresInSeconds: 900 })
+
+      const session = sessionRepository.sessions.get(tokens.sessionId)
+      expect(session?.userAgent).toBe('Firefox')
+      expect(session?.expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000)
+    })
+
+    it('should store only a hash of the refresh token', async () => {
+      const tokens = await sessionService.startSession(user, context)
+
+      expect(sessionRepository.tokens).toHaveLength(1)
+      expect(sessionRepository.tokens[0]?.tokenHash).not.toBe(tokens.refreshToken)
+      expect(sessionRepository.tokens[0]?.tokenHash).toMatch(/^[0-9a-f]{64}$/)
+    })
+  })
+
+  describe('refresh', () => {
+    it('should rotate the refresh token', async () => {
+      const first = await sessionService.startSession(user, context)
+
+      const result = await sessionService.refresh(first.refreshToken, context)
+
+      expect(result.success).toBe(true)
+      expect(result.data?.sessionId).toBe(first.sessionId)
+      expect(result.data?.refreshToken).not.toBe(first.refreshToken)
+      expect(result.data?.accessToken).toBe(`access-${first.sessionId}`)
+
+      const second = await sessionService.refresh(result.data!.refreshToken, context)
+      expect(second.success).toBe(true)
+    })
+
+    it('should revoke the session when a rotated token is replayed', async () => {
+      const first = await sessionService.startSession(user, context)
+      const rotated = await sessionService.refresh(first.refreshToken, context)
+
+      const replay = await sessionService.refresh(first.refreshToken, context)
+
+      expect(replay).toEqual({
+        success: false,
+        error: 'Refresh token has already been used',
+        code: 'REFRESH_TOKEN_REUSED'
+      })
+      expect(sessionRepository.sessions.get(first.sessionId)?.revokedReason).toBe('refresh_token_reuse')
+
+      // The legitimate holder's newer token dies with the session
+      const legitimate = await sessionService.refresh(rotated.data!.refreshToken, context)
+      expect(legitimate.code).toBe('SESSION_REVOKED')
+      expect(await sessionService.isSessionActive(first.sessionId)).toBe(false)
+    })
+
+    it('should treat losing a concurrent rotation as reuse', async () => {
+      const first = await sessionService.startSession(user, context)
+      vi.spyOn(sessionRepository, 'rotateRefreshToken').mockResolvedValueOnce(false)
+
+      const result = await sessionService.refresh(first.refreshToken, context)
+
+      expect(result.code).toBe('REFRESH_TOKEN_REUSED')
+      expect(sessionRepository.sessions.get(first.sessionId)?.revokedAt).not.toBeNull()
+    })
+
+    it('should reject unknown tokens', async () => {
+      const result = await sessionService.refresh('not-a-real-token', context)
+
+      expect(result.code).toBe('INVALID_REFRESH_TOKEN')
+    })
+
+    it('should reject tokens of expired sessions', async () => {
+      const first = await sessionService.startSession(user, context)
+      sessionRepository.sessions.get(first.sessionId)!.expiresAt = new Date(Date.now() - 1000)
+
+      const result = await sessionService.refresh(first.refreshToken, context)
+
+      expect(result.code).toBe('SESSION_EXPIRED')
+    })
+
+    it('should revoke the session of a deactivated user', async () => {
+      const first = await sessionService.startSession(user, context)
+      mockUserRepository.findById.mockResolvedValue({ ...user, isActive: false })
+
+      const result = await sessionService.refresh(first.refreshToken, context)
+
+      expect(result.code).toBe('USER_INACTIVE')
+      expect(await sessionService.isSessionActive(first.sessionId)).toBe(false)
+    })
+  })
+
+  describe('isSessionActive', () => {
+    it('should be true for a live session and false after logout', async () => {
+      const { sessionId } = await sessionService.startSession(user, context)
+      expect(await sessionService.isSessionActive(sessionId)).toBe(true)
+
+      await sessionService.endSession(sessionId)
+
+      expect(await sessionService.isSessionActive(sessionId)).toBe(false)
+      expect(sessionRepository.sessions.get(sessionId)?.revokedReason).toBe('logout')
+    })
+
+    it('should be false for unknown sessions', async () => {
+      expect(await sessionService.isSessionActive('missing')).toBe(false)
+    })
+  })
+
+  describe('listSessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      const laptop = await sessionService.startSession(user, context)
+      const phone = await sessionService.startSession(user, { userAgent: 'Mobile Safari', ipAddress: null })
+      const revoked = await sessionService.startSession(user, context)
+      await sessionService.endSession(revoked.sessionId)
+
+      const sessions = await sessionService.listSessions('user123', phone.sessionId)
+
+      expect(sessions.map(session => [session.id, session.current])).toEqual([
+        [laptop.sessionId, false],
+        [phone.sessionId, true]
+      ])
+    })
+  })
+
+  describe('revokeSession', () => {
+    it('should revoke a session owned by the user', async () => {
+      const { sessionId } = await sessionService.startSession(user, context)
+
+      const result = await sessionService.revokeSession('user123', sessionId)
+
+      expect(result).toEqual({ success: true, data: { id: sessionId } })
+      expect(sessionRepository.sessions.get(sessionId)?.revokedReason).toBe('user_revoked')
+    })
+
+    it('should not reveal or revoke another user\'s session', async () => {
+      const { sessionId } = await sessionService.startSession(user, context)
+
+      const result = await sessionService.revokeSession('someoneElse', sessionId)
+
+      expect(result.code).toBe('SESSION_NOT_FOUND')
+      expect(await sessionService.isSessionActive(sessionId)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,302 @@
+// backend/src/services/__tests__/StorageProvider.test.ts
+// Version: 1.0.0
+// Local storage against a temporary directory; S3 storage against an in-process S3-compatible stand-in
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import http from 'http'
+import os from 'os'
+import path from 'path'
+import { AddressInfo } from 'net'
+import { Readable } from 'stream'
+import { LocalStorageProvider, S3StorageProvider, createStorageProvider } from '../StorageProvider'
+
+/**
+ * Read a stored object's body into a string
+ */
+const readBody = async (body: Readable): Promise<string> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of body) {
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks).toString()
+}
+
+/**
+ * Minimal S3-compatible server in the style of MinIO, path-style only
+ * Handles the object and multipart upload calls StorageProvider makes; auth is not checked
+ */
+const createS3StandIn = () => {
+  const objects = new Map<string, { body: Buffer, contentType: string | undefined, lastModified: Date }>()
+  const uploads = new Map<string, { key: string, contentType: string | undefined, parts: Map<number, Buffer> }>()
+  let nextUploadId = 1
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const key = decodeURIComponent(url.pathname.split('/').slice(2).join('/'))
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer)
+    }
+    const body = Buffer.concat(chunks)
+    const contentType = req.headers['content-type']
+    const uploadId = url.searchParams.get('uploadId')
+
+    if (req.method === 'POST' && url.searchParams.has('uploads')) {
+      const id = `upload-${nextUploadId++}`
+      uploads.set(id, { key, contentType, parts: new Map() })
+      res.writeHead(200, { 'Content-Type': 'application/xml' })
+      res.end(`<InitiateMultipartUploadResult><Bucket>media</Bucket><Key>${key}</Key><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`)
+    } else if (req.method === 'PUT' && uploadId) {
+      const partNumber = Number(url.searchParams.get('partNumber'))
+      uploads.get(uploadId)?.parts.set(partNumber, body)
+      res.writeHead(200, { ETag: `"part-${partNumber}"` })
+      res.end()
+    } else if (req.method === 'POST' && uploadId) {
+      const upload = uploads.get(uploadId)!
+      const parts = [...upload.parts.entries()].sort(([a], [b]) => a - b).map(([, part]) => part)
+      objects.set(upload.key, { body: Buffer.concat(parts), contentType: upload.contentType, lastModified: new Date() })
+      uploads.delete(uploadId)
+      res.writeHead(200, { 'Content-Type': 'application/xml' })
+      res.end(`<CompleteMultipartUploadResult><Bucket>media</Bucket><Key>${upload.key}</Key><ETag>"done"</ETag></CompleteMultipartUploadResult>`)
+    } else if (req.method === 'PUT') {
+      objects.set(key, { body, contentType, lastModified: new Date() })
+      res.writeHead(200, { ETag: '"object"' })
+      res.end()
+    } else if (req.method === 'GET') {
+      const object = objects.get(key)
+      if (!object) {
+        res.writeHead(404, { 'Content-Type': 'application/xml' })
+        res.end('<Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>')
+        return
+      }
+      const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? '')
+      if (range) {
+        const [start, end] = [Number(range[1]), Number(range[2])]
+        res.writeHead(206, {
+          'Content-Type': object.contentType ?? 'application/octet-stream',
+          'Content-Length': end - start + 1,
+          'Content-Range': `bytes ${start}-${end}/${object.body.length}`,
+          'Last-Modified': object.lastModified.toUTCString()
+        })
+        res.end(object.body.subarray(start, end + 1))
+        return
+      }
+      res.writeHead(200, {
+        'Content-Type': object.contentType ?? 'application/octet-stream',
+        'Content-Length': object.body.length,
+        'Last-Modified': object.lastModified.toUTCString()
+      })
+      res.end(object.body)
+    } else if (req.method === 'DELETE') {
+      objects.delete(key)
+      res.writeHead(204)
+      res.end()
+    } else {
+      res.writeHead(405)
+      res.end()
+    }
+  })
+
+  return { server, objects }
+}
+
+describe('StorageProvider', () => {
+  describe('LocalStorageProvider', () => {
+    const config = { signingSecret: 'local-signing-secret-for-tests-0123456789' }
+    let directory: string
+    let storage: LocalStorageProvider
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-storage-'))
+      storage = new LocalStorageProvider({ ...config, directory }, '/uploads')
+    })
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    it('should write buffers and streams, creating nested directories', async () => {
+      await storage.put('file-1.png', Buffer.from('image bytes'), 'image/png')
+      await storage.put('avatars/abc-96.webp', Readable.from(['streamed ', 'bytes']), 'image/webp')
+
+      expect(await fs.readFile(path.join(directory, 'file-1.png'), 'utf8')).toBe('image bytes')
+      expect(await fs.readFile(path.join(directory, 'avatars', 'abc-96.webp'), 'utf8')).toBe('streamed bytes')
+    })
+
+    it('should leave no partial file when the stream fails', async () => {
+      const failing = new Readable({
+        read() {
+          this.destroy(new Error('Client disconnected'))
+        }
+      })
+
+      await expect(storage.put('file-2.mp4', failing, 'video/mp4')).rejects.toThrow('Client disconnected')
+      expect(await fs.readdir(directory)).toEqual([])
+    })
+
+    it('should read files back with their size, and return null for missing ones', async () => {
+      await storage.put('file-3.png', Buffer.from('image bytes'), 'image/png')
+
+      const stored = await storage.get('file-3.png')
+
+      expect(stored?.size).toBe(11)
+      expect(await readBody(stored!.body)).toBe('image bytes')
+      expect(await storage.get('missing.png')).toBeNull()
+    })
+
+    it('should read a byte range, reporting the whole file size', async () => {
+      await storage.put('file-4.mp4', Buffer.from('0123456789'), 'video/mp4')
+
+      const stored = await storage.get('file-4.mp4', { start: 2, end: 5 })
+
+      expect(stored?.size).toBe(10)
+      expect(await readBody(stored!.body)).toBe('2345')
+    })
+
+    it('should delete files and treat missing ones as deleted', async () => {
+      await storage.put('file-4.png', Buffer.from('image bytes'), 'image/png')
+
+      await storage.delete('file-4.png')
+      await storage.delete('file-4.png')
+
+      expect(await fs.readdir(directory)).toEqual([])
+    })
+
+    it('should reject keys that escape the storage directory', async () => {
+      await expect(storage.put('../outside.png', Buffer.from('x'), 'image/png')).rejects.toThrow('Invalid storage key')
+      await expect(storage.get('/etc/passwd')).rejects.toThrow('Invalid storage key')
+    })
+
+    it('should build public URLs under the configured path', () => {
+      expect(storage.getPublicUrl('file-5.png')).toBe('/uploads/file-5.png')
+    })
+
+    it('should sign URLs that verify until they expire', async () => {
+      const now = new Date('2025-06-01T12:00:00Z')
+      const url = new URL(await storage.getSignedUrl('file-6.png', 900, now), 'http://localhost')
+      const expires = Number(url.searchParams.get('expires'))
+      const signature = url.searchParams.get('signature')!
+
+      expect(url.pathname).toBe('/uploads/file-6.png')
+      expect(storage.verifySignedUrl('file-6.png', expires, signature, now)).toBe(true)
+      expect(storage.verifySignedUrl('file-6.png', expires, signature, new Date('2025-06-01T12:16:00Z'))).toBe(false)
+      expect(storage.verifySignedUrl('file-7.png', expires, signature, now)).toBe(false)
+      expect(storage.verifySignedUrl('file-6.png', expires + 60, signature, now)).toBe(false)
+    })
+  })
+
+  describe('S3StorageProvider', () => {
+    const standIn = createS3StandIn()
+    let endpoint: string
+    let storage: S3StorageProvider
+
+    beforeAll(async () => {
+      await new Promise<void>(resolve => standIn.server.listen(0, '127.0.0.1', resolve))
+      endpoint = `http://127.0.0.1:${(standIn.server.address() as AddressInfo).port}`
+    })
+
+    afterAll(async () => {
+      await new Promise(resolve => standIn.server.close(resolve))
+    })
+
+    beforeEach(() => {
+      standIn.objects.clear()
+      storage = new S3StorageProvider({
+        bucket: 'media',
+        region: 'us-east-1',
+        endpoint,
+        forcePathStyle: true,
+        accessKeyId: 'minio',
+        secretAccessKey: 'minio-secret'
+      }, 'https://cdn.example.com')
+    })
+
+    it('should upload objects with their content type', async () => {
+      await storage.put('file-1.png', Buffer.from('image bytes'), 'image/png')
+
+      expect(standIn.objects.get('file-1.png')).toMatchObject({
+        body: Buffer.from('image bytes'),
+        contentType: 'image/png'
+      })
+    })
+
+    it('should stream large uploads in parts', async () => {
+      const part = Buffer.alloc(1024 * 1024, 'a')
+      const chunks = Array.from({ length: 6 }, () => part)
+
+      await storage.put('file-2.mp4', Readable.from(chunks), 'video/mp4')
+
+      const stored = standIn.objects.get('file-2.mp4')
+      expect(stored?.body.length).toBe(6 * 1024 * 1024)
+      expect(stored?.contentType).toBe('video/mp4')
+    })
+
+    it('should read objects back, and return null for missing ones', async () => {
+      await storage.put('file-3.png', Buffer.from('image bytes'), 'image/png')
+
+      const stored = await storage.get('file-3.png')
+
+      expect(stored).toMatchObject({ contentType: 'image/png', size: 11 })
+      expect(await readBody(stored!.body)).toBe('image bytes')
+      expect(await storage.get('missing.png')).toBeNull()
+    })
+
+    it('should read a byte range, reporting the whole object size', async () => {
+      await storage.put('file-4.mp4', Buffer.from('0123456789'), 'video/mp4')
+
+      const stored = await storage.get('file-4.mp4', { start: 2, end: 5 })
+
+      expect(stored?.size).toBe(10)
+      expect(await readBody(stored!.body)).toBe('2345')
+    })
+
+    it('should delete objects', async () => {
+      await storage.put('file-4.png', Buffer.from('image bytes'), 'image/png')
+
+      await storage.delete('file-4.png')
+      await storage.delete('file-4.png')
+
+      expect(standIn.objects.has('file-4.png')).toBe(false)
+    })
+
+    it('should build public URLs from the configured base', () => {
+      expect(storage.getPublicUrl('avatars/abc 96.webp')).toBe('https://cdn.example.com/avatars/abc%2096.webp')
+    })
+
+    it('should presign expiring GET URLs against the bucket', async () => {
+      await storage.put('file-5.png', Buffer.from('draft image'), 'image/png')
+
+      const url = new URL(await storage.getSignedUrl('file-5.png', 900))
+
+      expect(`${url.origin}${url.pathname}`).toBe(`${endpoint}/media/file-5.png`)
+      expect(url.searchParams.get('X-Amz-Expires')).toBe('900')
+      expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/)
+      expect(await (await fetch(url)).text()).toBe('draft image')
+    })
+  })
+
+  describe('createStorageProvider', () => {
+    const local = { directory: '/srv/uploads', signingSecret: 'x'.repeat(32) }
+    const s3 = {
+      bucket: 'media',
+      region: 'us-east-1',
+      endpoint: undefined,
+      forcePathStyle: false,
+      accessKeyId: undefined,
+      secretAccessKey: undefined
+    }
+
+    it('should create the configured provider', () => {
+      expect(createStorageProvider({ driver: 'local', publicUrl: '/uploads', signedUrlTtlSeconds: 900, local, s3: null }))
+        .toBeInstanceOf(LocalStorageProvider)
+      expect(createStorageProvider({ driver: 's3', publicUrl: 'https://cdn.example.com', signedUrlTtlSeconds: 900, local, s3 }))
+        .toBeInstanceOf(S3StorageProvider)
+    })
+
+    it('should refuse S3 without bucket settings', () => {
+      expect(() => createStorageProvider({ driver: 's3', publicUrl: '/uploads', signedUrlTtlSeconds: 900, local, s3: null }))
+        .toThrow('S3 storage selected without bucket settings')
+    })
+  })
+})
@@ -0,0 +1,264 @@
+// backend/src/services/__tests__/TwoFactorService.test.ts
+// Version: 1.0.0
+// TOTP enrollment, login challenge and recovery code tests with an in-memory repository
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import jwt from 'jsonwebtoken'
+import { TwoFactorService } from '../TwoFactorService'
+import { generateTotpCode, getTotpStep } from '../../utils/totp'
+
+/**
+ * In-memory stand-in for TwoFactorRepository
+ */
+class InMemoryTwoFactorRepository {
+  credentials = new Map<string, any>()
+  recoveryCodes: any[] = []
+
+  async findByUserId(userId: string) {
+    return this.credentials.get(userId) ?? null
+  }
+
+  async savePendingSecret(userId: string, secret: string) {
+    const credential = { id: `cred-${userId}`, userId, secret, enabledAt: null, lastUsedStep: null }
+    this.credentials.set(userId, credential)
+    return credential
+  }
+
+  async enable(userId: string, step: number, codeHashes: string[], now: Date = new Date()) {
+    const credential = this.credentials.get(userId)
+    if (!credential || credential.enabledAt) {
+      return false
+    }
+    credential.enabledAt = now
+    credential.lastUsedStep = step
+    this.recoveryCodes = codeHashes.map(codeHash => ({ userId, codeHash, usedAt: null }))
+    return true
+  }
+
+  async recordUsedStep(userId: string, step: number) {
+    const credential = this.credentials.get(userId)
+    if (!credential || (credential.lastUsedStep !== null && credential.lastUsedStep >= step)) {
+      return false
+    }
+    credential.lastUsedStep = step
+    return true
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string, now: Date = new Date()) {
+    const code = this.recoveryCodes.find(stored => stored.userId === userId && stored.codeHash === codeHash && !stored.usedAt)
+    if (!code) {
+      return false
+    }
+    code.usedAt = now
+    return true
+  }
+
+  async countUnusedRecoveryCodes(userId: string) {
+    return this.recoveryCodes.filter(code => code.userId === userId && !code.usedAt).length
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]) {
+    this.recoveryCodes = codeHashes.map(codeHash => ({ userId, codeHash, usedAt: null }))
+  }
+
+  async delete(userId: string) {
+    this.recoveryCodes = this.recoveryCodes.filter(code => code.userId !== userId)
+    return this.credentials.delete(userId)
+  }
+}
+
+describe('TwoFactorService', () => {
+  const config = {
+    issuer: 'ParaSocial',
+    secret: 'test-two-factor-secret-that-is-long-enough',
+    challengeTtlSeconds: 300
+  }
+
+  const user = {
+    id: 'user123',
+    email: 'creator@example.com',
+    username: 'creator',
+    passwordHash: 'hashed-password'
+  }
+
+  let repository: InMemoryTwoFactorRepository
+  let mockUserRepository: any
+  let mockAuthService: any
+  let service: TwoFactorService
+
+  /**
+   * Run enrollment to completion
+   * @returns The plain secret and recovery codes
+   */
+  async function enroll(): Promise<{ secret: string, recoveryCodes: string[] }> {
+    const setup = await service.beginSetup('user123')
+    const secret = setup.data!.secret
+    const confirmed = await service.confirmSetup('user123', generateTotpCode(secret, getTotpStep() - 1))
+    return { secret, recoveryCodes: confirmed.data!.recoveryCodes }
+  }
+
+  beforeEach(() => {
+    repository = new InMemoryTwoFactorRepository()
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue(user)
+    }
+    mockAuthService = {
+      verifyPassword: vi.fn().mockResolvedValue(true)
+    }
+
+    service = new TwoFactorService(repository as any, mockUserRepository, mockAuthService, config)
+  })
+
+  describe('enrollment', () => {
+    it('should return an otpauth URI and store the secret encrypted', async () => {
+      const result = await service.beginSetup('user123')
+
+      expect(result.success).toBe(true)
+      expect(result.data?.otpauthUri).toBe(
+        `otpauth://totp/ParaSocial%3Acreator%40example.com?secret=${result.data?.secret}&issuer=ParaSocial&algorithm=SHA1&digits=6&period=30`
+      )
+      const stored = repository.credentials.get('user123')
+      expect(stored.secret).toMatch(/^v1:/)
+      expect(stored.secret).not.toContain(result.data?.secret)
+      expect(await service.isEnabled('user123')).toBe(false)
+    })
+
+    it('should enable two-factor and issue ten recovery codes once a code is confirmed', async () => {
+      const setup = await service.beginSetup('user123')
+
+      const result = await service.confirmSetup('user123', generateTotpCode(setup.data!.secret))
+
+      expect(result.success).toBe(true)
+      expect(result.data?.recoveryCodes).toHaveLength(10)
+      expect(result.data?.recoveryCodes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/)
+      expect(repository.recoveryCodes.map(code => code.codeHash)).not.toContain(result.data?.recoveryCodes[0])
+      expect(await service.getStatus('user123')).toEqual({ enabled: true, recoveryCodesRemaining: 10 })
+    })
+
+    it('should reject a wrong confirmation code', async () => {
+      await service.beginSetup('user123')
+
+      const result = await service.confirmSetup('user123', '000000')
+
+      expect(result.code).toBe('INVALID_CODE')
+      expect(await service.isEnabled('user123')).toBe(false)
+    })
+
+    it('should refuse to confirm before setup starts', async () => {
+      const result = await service.confirmSetup('user123', '123456')
+
+      expect(result.code).toBe('TWO_FACTOR_NOT_STARTED')
+    })
+
+    it('should refuse to start setup again once enabled', async () => {
+      await enroll()
+
+      const result = await service.beginSetup('user123')
+
+      expect(result.code).toBe('TWO_FACTOR_ALREADY_ENABLED')
+    })
+  })
+
+  describe('login challenge', () => {
+    it('should accept a current code for a valid challenge', async () => {
+      const { secret } = await enroll()
+      const { challengeToken, expiresIn } = service.createChallenge('user123')
+
+      const result = await service.completeChallenge(challengeToken, generateTotpCode(secret))
+
+      expect(expiresIn).toBe(300)
+      expect(result.success).toBe(true)
+      expect(result.data?.user).toBe(user)
+      expect(result.data?.usedRecoveryCode).toBe(false)
+    })
+
+    it('should not accept the same code twice', async () => {
+      const { secret } = await enroll()
+      const code = generateTotpCode(secret)
+
+      await service.completeChallenge(service.createChallenge('user123').challengeToken, code)
+      const replay = await service.completeChallenge(service.createChallenge('user123').challengeToken, code)
+
+      expect(replay.code).toBe('INVALID_CODE')
+    })
+
+    it('should accept each recovery code once, ignoring case and dashes', async () => {
+      const { recoveryCodes } = await enroll()
+      const typed = recoveryCodes[0]!.replace('-', '').toUpperCase()
+
+      const first = await service.completeChallenge(service.createChallenge('user123').challengeToken, typed)
+      const second = await service.completeChallenge(service.createChallenge('user123').challengeToken, recoveryCodes[0]!)
+
+      expect(first.data?.usedRecoveryCode).toBe(true)
+      expect(second.code).toBe('INVALID_CODE')
+      expect((await service.getStatus('user123')).recoveryCodesRemaining).toBe(9)
+    })
+
+    it('should reject challenges that are expired or signed for something else', async () => {
+      const { secret } = await enroll()
+      const expired = jwt.sign({}, 'whatever', { subject: 'user123', expiresIn: -10 })
+      const accessToken = jwt.sign({ userId: 'user123' }, config.secret)
+
+      expect((await service.completeChallenge(expired, generateTotpCode(secret))).code).toBe('INVALID_CHALLENGE')
+      expect((await service.completeChallenge(accessToken, generateTotpCode(secret))).code).toBe('INVALID_CHALLENGE')
+    })
+
+    it('should reject a challenge once two-factor has been turned off', async () => {
+      const { secret } = await enroll()
+      const { challengeToken } = service.createChallenge('user123')
+      await repository.delete('user123')
+
+      const result = await service.completeChallenge(challengeToken, generateTotpCode(secret))
+
+      expect(result.code).toBe('INVALID_CHALLENGE')
+    })
+  })
+
+  describe('disable and recovery codes', () => {
+    it('should turn two-factor off with the password and a code', async () => {
+      const { secret } = await enroll()
+
+      const result = await service.disable('user123', 'password', generateTotpCode(secret))
+
+      expect(result).toEqual({ success: true })
+      expect(mockAuthService.verifyPassword).toHaveBeenCalledWith('hashed-password', 'password')
+      expect(await service.getStatus('user123')).toEqual({ enabled: false, recoveryCodesRemaining: 0 })
+    })
+
+    it('should keep two-factor on when the password is wrong', async () => {
+      const { secret } = await enroll()
+      mockAuthService.verifyPassword.mockResolvedValueOnce(false)
+
+      const result = await service.disable('user123', 'wrong', generateTotpCode(secret))
+
+      expect(result.code).toBe('INVALID_CREDENTIALS')
+      expect(await service.isEnabled('user123')).toBe(true)
+    })
+
+    it('should keep two-factor on when the code is wrong', async () => {
+      await enroll()
+
+      const result = await service.disable('user123', 'password', '000000')
+
+      expect(result.code).toBe('INVALID_CODE')
+      expect(await service.isEnabled('user123')).toBe(true)
+    })
+
+    it('should report when two-factor is not on', async () => {
+      const result = await service.disable('user123', 'password', '123456')
+
+      expect(result.code).toBe('TWO_FACTOR_NOT_ENABLED')
+    })
+
+    it('should replace recovery codes so the old ones stop working', async () => {
+      const { recoveryCodes } = await enroll()
+
+      const result = await service.regenerateRecoveryCodes('user123', 'password', recoveryCodes[0]!)
+      const oldCode = await service.completeChallenge(service.createChallenge('user123').challengeToken, recoveryCodes[1]!)
+
+      expect(result.data?.recoveryCodes).toHaveLength(10)
+      expect(oldCode.code).toBe('INVALID_CODE')
+      expect((await service.getStatus('user123')).recoveryCodesRemaining).toBe(10)
+    })
+  })
+})
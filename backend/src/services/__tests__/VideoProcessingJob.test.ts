@@ -0,0 +1,165 @@
+// backend/src/services/__tests__/VideoProcessingJob.test.ts
+// Version: 1.0.0
+// Video processing against local storage in a temporary directory, a stand-in transcoder and a fixed clock
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { VideoProcessingJob } from '../VideoProcessingJob'
+import { SchedulerClock } from '../PostScheduler'
+import { LocalStorageProvider } from '../StorageProvider'
+
+describe('VideoProcessingJob', () => {
+  const config = {
+    enabled: true,
+    intervalMs: 15000,
+    batchSize: 2,
+    timeoutMs: 60000,
+    ffmpegPath: 'ffmpeg',
+    ffprobePath: 'ffprobe'
+  }
+  const now = new Date('2025-06-02T12:00:00Z')
+
+  let directory: string
+  let mockMediaRepository: any
+  let mockTranscoder: any
+  let clock: SchedulerClock
+  let job: VideoProcessingJob
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-videos-'))
+    await fs.writeFile(path.join(directory, 'file-1.mov'), 'quicktime bytes')
+
+    mockMediaRepository = {
+      releaseStaleProcessing: vi.fn().mockResolvedValue(0),
+      claimPendingVideos: vi.fn().mockResolvedValue([
+        { id: 'media1', filename: 'file-1.mov', mimeType: 'video/quicktime' }
+      ]),
+      completeProcessing: vi.fn().mockResolvedValue(true),
+      markProcessingFailed: vi.fn().mockResolvedValue(undefined)
+    }
+    mockTranscoder = {
+      transcode: vi.fn().mockImplementation(async (inputPath: string, outputDirectory: string) => {
+        const input = await fs.readFile(inputPath, 'utf8')
+        const videoPath = path.join(outputDirectory, 'video.mp4')
+        const posterPath = path.join(outputDirectory, 'poster.jpg')
+        await fs.writeFile(videoPath, `mp4 of ${input}`)
+        await fs.writeFile(posterPath, 'poster')
+        return { videoPath, posterPath, duration: 12.5, width: 1280, height: 720 }
+      })
+    }
+    clock = {
+      now: () => now,
+      setInterval: vi.fn().mockReturnValue(1),
+      clearInterval: vi.fn()
+    }
+    const storage = new LocalStorageProvider({ directory, signingSecret: 'x'.repeat(32) }, '/uploads')
+
+    job = new VideoProcessingJob(mockMediaRepository, storage, mockTranscoder, config, clock)
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should transcode a QuickTime upload to MP4 with a poster and mark it ready', async () => {
+    const result = await job.runOnce()
+
+    expect(result).toEqual({ status: 'completed', processed: 1, failed: 0 })
+    expect(mockMediaRepository.completeProcessing).toHaveBeenCalledWith('media1', {
+      filename: 'file-1.mp4',
+      url: '/uploads/file-1.mp4',
+      mimeType: 'video/mp4',
+      size: 'mp4 of quicktime bytes'.length,
+      posterUrl: '/uploads/file-1-poster.jpg',
+      duration: 12.5,
+      width: 1280,
+      height: 720
+    })
+    expect((await fs.readdir(directory)).sort()).toEqual(['file-1-poster.jpg', 'file-1.mp4'])
+    expect(await fs.readFile(path.join(directory, 'file-1.mp4'), 'utf8')).toBe('mp4 of quicktime bytes')
+  })
+
+  it('should replace an MP4 upload in place', async () => {
+    await fs.rename(path.join(directory, 'file-1.mov'), path.join(directory, 'file-2.mp4'))
+    mockMediaRepository.claimPendingVideos.mockResolvedValue([
+      { id: 'media2', filename: 'file-2.mp4', mimeType: 'video/mp4' }
+    ])
+
+    await job.runOnce()
+
+    expect((await fs.readdir(directory)).sort()).toEqual(['file-2-poster.jpg', 'file-2.mp4'])
+    expect(await fs.readFile(path.join(directory, 'file-2.mp4'), 'utf8')).toBe('mp4 of quicktime bytes')
+  })
+
+  it('should release stale claims before claiming', async () => {
+    await job.runOnce()
+
+    expect(mockMediaRepository.releaseStaleProcessing).toHaveBeenCalledWith(new Date('2025-06-02T11:56:00Z'))
+    expect(mockMediaRepository.claimPendingVideos).toHaveBeenCalledWith(2)
+  })
+
+  it('should mark videos ffmpeg cannot read as failed and keep the upload', async () => {
+    mockTranscoder.transcode.mockRejectedValue(new Error('ffmpeg exited with code 1'))
+
+    const result = await job.runOnce()
+
+    expect(result).toEqual({ status: 'completed', processed: 0, failed: 1 })
+    expect(mockMediaRepository.markProcessingFailed).toHaveBeenCalledWith('media1')
+    expect(await fs.readdir(directory)).toEqual(['file-1.mov'])
+  })
+
+  it('should mark videos whose upload is missing as failed', async () => {
+    await fs.unlink(path.join(directory, 'file-1.mov'))
+
+    await job.runOnce()
+
+    expect(mockTranscoder.transcode).not.toHaveBeenCalled()
+    expect(mockMediaRepository.markProcessingFailed).toHaveBeenCalledWith('media1')
+  })
+
+  it('should remove its output when the media was deleted mid-transcode', async () => {
+    mockMediaRepository.completeProcessing.mockResolvedValue(false)
+
+    const result = await job.runOnce()
+
+    expect(result).toEqual({ status: 'completed', processed: 0, failed: 1 })
+    expect(await fs.readdir(directory)).toEqual(['file-1.mov'])
+  })
+
+  it('should report a failed run without throwing', async () => {
+    mockMediaRepository.claimPendingVideos.mockRejectedValue(new Error('Database down'))
+
+    const result = await job.runOnce()
+
+    expect(result).toEqual({ status: 'failed', processed: 0, failed: 0 })
+  })
+
+  it('should skip a run that overlaps the previous one', async () => {
+    const first = job.runOnce()
+    const second = await job.runOnce()
+
+    expect(second).toEqual({ status: 'skipped', processed: 0, failed: 0 })
+    await first
+  })
+
+  it('should not start when disabled', () => {
+    job = new VideoProcessingJob(mockMediaRepository, {} as any, mockTranscoder, { ...config, enabled: false }, clock)
+
+    job.start()
+
+    expect(job.isRunning()).toBe(false)
+    expect(clock.setInterval).not.toHaveBeenCalled()
+  })
+
+  it('should start and stop the timer', async () => {
+    job.start()
+    expect(job.isRunning()).toBe(true)
+    expect(clock.setInterval).toHaveBeenCalledWith(expect.any(Function), 15000)
+
+    await job.stop()
+    expect(job.isRunning()).toBe(false)
+    expect(clock.clearInterval).toHaveBeenCalledWith(1)
+  })
+})
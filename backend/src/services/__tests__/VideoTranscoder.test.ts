@@ -0,0 +1,139 @@
+// backend/src/services/__tests__/VideoTranscoder.test.ts
+// Version: 1.0.0
+// ffmpeg and ffprobe invocation against stand-in binaries written to a temporary directory
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { VideoTranscoder } from '../VideoTranscoder'
+
+/**
+ * Stand-in ffmpeg: logs its arguments, writes the output file named by its last
+ * argument, and fails or hangs when the input path asks it to
+ */
+const FAKE_FFMPEG = `
+const fs = require('fs')
+const args = process.argv.slice(2)
+fs.appendFileSync(process.env.FAKE_LOG, JSON.stringify(args) + '\\n')
+const input = args[args.indexOf('-i') + 1]
+if (input.includes('broken')) {
+  process.stderr.write('Invalid data found when processing input')
+  process.exit(1)
+}
+if (input.includes('slow')) {
+  setTimeout(() => {}, 60000)
+} else {
+  fs.writeFileSync(args[args.length - 1], 'output of ' + input)
+}
+`
+
+/**
+ * Stand-in ffprobe: reports a 12.5 second 1280x720 video
+ */
+const FAKE_FFPROBE = `
+console.log(JSON.stringify({
+  streams: [{ width: 1280, height: 720 }],
+  format: { duration: '12.500000' }
+}))
+`
+
+describe('VideoTranscoder', () => {
+  let directory: string
+  let logPath: string
+  let transcoder: VideoTranscoder
+
+  /**
+   * Write an executable script that runs the given source with this Node binary
+   */
+  const writeBinary = async (name: string, source: string) => {
+    const binaryPath = path.join(directory, name)
+    await fs.writeFile(binaryPath, `#!${process.execPath}\n${source}`, { mode: 0o755 })
+    return binaryPath
+  }
+
+  /**
+   * Arguments of each stand-in ffmpeg run, in order
+   */
+  const readRuns = async (): Promise<string[][]> => {
+    const log = await fs.readFile(logPath, 'utf8')
+    return log.trim().split('\n').map(line => JSON.parse(line))
+  }
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-ffmpeg-'))
+    logPath = path.join(directory, 'runs.log')
+    process.env['FAKE_LOG'] = logPath
+
+    transcoder = new VideoTranscoder({
+      ffmpegPath: await writeBinary('ffmpeg', FAKE_FFMPEG),
+      ffprobePath: await writeBinary('ffprobe', FAKE_FFPROBE),
+      timeoutMs: 2000
+    })
+  })
+
+  afterEach(async () => {
+    delete process.env['FAKE_LOG']
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should transcode to H.264/AAC MP4 and extract a poster frame', async () => {
+    const result = await transcoder.transcode('/uploads/clip.mov', directory)
+
+    expect(result).toEqual({
+      videoPath: path.join(directory, 'video.mp4'),
+      posterPath: path.join(directory, 'poster.jpg'),
+      duration: 12.5,
+      width: 1280,
+      height: 720
+    })
+    expect(await fs.readFile(result.posterPath, 'utf8')).toBe(`output of ${result.videoPath}`)
+
+    const [transcode, poster] = await readRuns()
+    expect(transcode).toEqual(expect.arrayContaining(['-c:v', 'libx264', '-c:a', 'aac', '-pix_fmt', 'yuv420p']))
+    expect(transcode.join(' ')).toContain('-map_metadata -1')
+    expect(transcode.join(' ')).toContain('-movflags +faststart')
+    expect(poster.join(' ')).toContain('-ss 1.000')
+    expect(poster.join(' ')).toContain('-frames:v 1')
+  })
+
+  it('should take the poster from the middle of short videos', async () => {
+    transcoder = new VideoTranscoder({
+      ffmpegPath: path.join(directory, 'ffmpeg'),
+      ffprobePath: await writeBinary('ffprobe-short', `console.log(JSON.stringify({ streams: [{}], format: { duration: '0.8' } }))`),
+      timeoutMs: 2000
+    })
+
+    const result = await transcoder.transcode('/uploads/blink.mp4', directory)
+
+    expect(result).toMatchObject({ duration: 0.8, width: null, height: null })
+    const [, poster] = await readRuns()
+    expect(poster.join(' ')).toContain('-ss 0.400')
+  })
+
+  it('should reject with ffmpeg\'s error output when it fails', async () => {
+    await expect(transcoder.transcode('/uploads/broken.mov', directory))
+      .rejects.toThrow('ffmpeg exited with code 1: Invalid data found when processing input')
+  })
+
+  it('should kill ffmpeg when it exceeds the timeout', async () => {
+    transcoder = new VideoTranscoder({
+      ffmpegPath: path.join(directory, 'ffmpeg'),
+      ffprobePath: path.join(directory, 'ffprobe'),
+      timeoutMs: 200
+    })
+
+    await expect(transcoder.transcode('/uploads/slow.mov', directory))
+      .rejects.toThrow('ffmpeg timed out after 200ms')
+  })
+
+  it('should reject when the binary is missing', async () => {
+    transcoder = new VideoTranscoder({
+      ffmpegPath: path.join(directory, 'missing-ffmpeg'),
+      ffprobePath: path.join(directory, 'ffprobe'),
+      timeoutMs: 2000
+    })
+
+    await expect(transcoder.transcode('/uploads/clip.mov', directory)).rejects.toThrow('ENOENT')
+  })
+})
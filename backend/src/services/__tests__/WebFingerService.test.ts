@@ -0,0 +1,143 @@
+// backend/src/services/__tests__/WebFingerService.test.ts
+// Version: 1.0.0
+// Unit tests for WebFinger resource parsing and resolution
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { WebFingerService } from '../WebFingerService'
+
+describe('WebFingerService', () => {
+  let webFingerService: WebFingerService
+  let mockUserRepository: any
+
+  const activeUser = {
+    id: 'user123',
+    username: 'creator',
+    isActive: true,
+    actorId: 'https://parasocial.example/users/creator'
+  }
+
+  beforeEach(() => {
+    mockUserRepository = {
+      findByUsername: vi.fn()
+    }
+
+    webFingerService = new WebFingerService(mockUserRepository, 'parasocial.example')
+  })
+
+  describe('parseResource', () => {
+    it('should parse acct: resources', () => {
+      expect(webFingerService.parseResource('acct:creator@parasocial.example')).toEqual({
+        username: 'creator',
+        domain: 'parasocial.example'
+      })
+    })
+
+    it('should lowercase the domain of acct: resources', () => {
+      expect(webFingerService.parseResource('acct:creator@ParaSocial.Example')?.domain).toBe('parasocial.example')
+    })
+
+    it('should parse https actor URIs', () => {
+      expect(webFingerService.parseResource('https://parasocial.example/users/creator')).toEqual({
+        username: 'creator',
+        domain: 'parasocial.example'
+      })
+    })
+
+    it('should reject malformed resources', () => {
+      expect(webFingerService.parseResource('creator@parasocial.example')).toBeNull()
+      expect(webFingerService.parseResource('acct:@parasocial.example')).toBeNull()
+      expect(webFingerService.parseResource('acct:creator@')).toBeNull()
+      expect(webFingerService.parseResource('acct:bad-name!@parasocial.example')).toBeNull()
+      expect(webFingerService.parseResource('https://parasocial.example/posts/123')).toBeNull()
+      expect(webFingerService.parseResource('')).toBeNull()
+    })
+  })
+
+  describe('resolve', () => {
+    it('should return a JRD with self and profile-page links for active users', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(activeUser)
+
+      const result = await webFingerService.resolve('acct:creator@parasocial.example')
+
+      expect(result.success).toBe(true)
+      expect(mockUserRepository.findByUsername).toHaveBeenCalledWith('creator')
+      expect(result.data).toEqual({
+        subject: 'acct:creator@parasocial.example',
+        aliases: ['https://parasocial.example/users/creator'],
+        links: [
+          {
+            rel: 'self',
+            type: 'application/activity+json',
+            href: 'https://parasocial.example/users/creator'
+          },
+          {
+            rel: 'http://webfinger.net/rel/profile-page',
+            type: 'text/html',
+            href: 'https://parasocial.example/users/creator'
+          }
+        ]
+      })
+    })
+
+    it('should resolve actor URI resources to the same subject', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(activeUser)
+
+      const result = await webFingerService.resolve('https://parasocial.example/users/creator')
+
+      expect(result.success).toBe(true)
+      expect(result.data?.subject).toBe('acct:creator@parasocial.example')
+    })
+
+    it('should reject malformed resources', async () => {
+      const result = await webFingerService.resolve('not-a-resource')
+
+      expect(result.success).toBe(false)
+      expect(result.code).toBe('INVALID_RESOURCE')
+      expect(mockUserRepository.findByUsername).not.toHaveBeenCalled()
+    })
+
+    it('should not answer for other domains', async () => {
+      const result = await webFingerService.resolve('acct:creator@mastodon.social')
+
+      expect(result.success).toBe(false)
+      expect(result.code).toBe('RESOURCE_NOT_FOUND')
+      expect(mockUserRepository.findByUsername).not.toHaveBeenCalled()
+    })
+
+    it('should return USER_NOT_FOUND for unknown users', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue(null)
+
+      const result = await webFingerService.resolve('acct:nobody@parasocial.example')
+
+      expect(result.success).toBe(false)
+      expect(result.code).toBe('USER_NOT_FOUND')
+    })
+
+    it('should return USER_INACTIVE for deactivated users', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue({ ...activeUser, isActive: false })
+
+      const result = await webFingerService.resolve('acct:creator@parasocial.example')
+
+      expect(result.success).toBe(false)
+      expect(result.code).toBe('USER_INACTIVE')
+    })
+
+    it('should return ACTOR_NOT_FOUND for users without an actor URI', async () => {
+      mockUserRepository.findByUsername.mockResolvedValue({ ...activeUser, actorId: null })
+
+      const result = await webFingerService.resolve('acct:creator@parasocial.example')
+
+      expect(result.success).toBe(false)
+      expect(result.code).toBe('ACTOR_NOT_FOUND')
+    })
+
+    it('should return INTERNAL_ERROR when the repository fails', async () => {
+      mockUserRepository.findByUsername.mockRejectedValue(new Error('Database down'))
+
+      const result = await webFingerService.resolve('acct:creator@parasocial.example')
+
+      expect(result.success).toBe(false)
+      expect(result.code).toBe('INTERNAL_ERROR')
+    })
+  })
+})
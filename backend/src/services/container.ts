@@ -1,19 +1,71 @@
 // backend/src/services/container.ts
-// Version: 1.0.5
-// Fixed unused token parameter - prefixed with underscore to indicate intentional non-use
+// Version: 1.20.0
+// ProfileService stores avatars through the storage provider; PostController signs draft media URLs
 
 import { PrismaClient } from '@prisma/client'
 import { AuthController } from '../controllers/AuthController'
 import { PostController } from '../controllers/PostController'
 import { UserController } from '../controllers/UserController'
 import { FollowController } from '../controllers/FollowController'
+import { AdminController } from '../controllers/AdminController'
+import { ModerationController } from '../controllers/ModerationController'
+import { ModerationDashboardController } from '../controllers/ModerationDashboardController'
+import { RateLimitController } from '../controllers/RateLimitController'
+import { MediaController } from '../controllers/MediaController'
+import { AnalyticsController } from '../controllers/AnalyticsController'
 import { UserRepository } from '../repositories/UserRepository'
 import { PostRepository } from '../repositories/PostRepository'
 import { FollowRepository } from '../repositories/FollowRepository'
 import { BlockRepository } from '../repositories/BlockRepository'
+import { DeliveryJobRepository } from '../repositories/DeliveryJobRepository'
+import { SessionRepository } from '../repositories/SessionRepository'
+import { AccountTokenRepository } from '../repositories/AccountTokenRepository'
+import { TwoFactorRepository } from '../repositories/TwoFactorRepository'
+import { RoleChangeRepository } from '../repositories/RoleChangeRepository'
+import { RateLimitOverrideRepository } from '../repositories/RateLimitOverrideRepository'
+import { ReportRepository } from '../repositories/ReportRepository'
+import { ModerationActionRepository } from '../repositories/ModerationActionRepository'
+import { MediaRepository } from '../repositories/MediaRepository'
+import { AnalyticsRepository } from '../repositories/AnalyticsRepository'
 import { AuthService } from './AuthService'
 import { FollowService } from './FollowService'
+import { ActivityPubService } from './ActivityPubService'
+import { ActorKeyService } from './ActorKeyService'
+import { RemoteActorService } from './RemoteActorService'
+import { ActivityDeliveryService } from './ActivityDeliveryService'
+import { InboxService } from './InboxService'
+import { DeliveryQueue } from './DeliveryQueue'
+import { OutboxService } from './OutboxService'
+import { PostScheduler } from './PostScheduler'
+import { SessionService } from './SessionService'
+import { AccountEmailService } from './AccountEmailService'
+import { createMailer } from './Mailer'
+import { TwoFactorService } from './TwoFactorService'
+import { RoleService } from './RoleService'
+import { RateLimitTierService } from './RateLimitTierService'
+import { ModerationService } from './ModerationService'
+import { ModerationDashboardService } from './ModerationDashboardService'
+import { ProfileService } from './ProfileService'
+import { MediaService } from './MediaService'
+import { AnalyticsService } from './AnalyticsService'
+import { MediaCleanupJob } from './MediaCleanupJob'
+import { AnalyticsRollupJob } from './AnalyticsRollupJob'
+import { createStorageProvider } from './StorageProvider'
+import { VideoTranscoder } from './VideoTranscoder'
+import { VideoProcessingJob } from './VideoProcessingJob'
+import { createRateLimitStore } from './RateLimitStore'
+import { getFederationConfig } from '../config/federation'
+import { getSchedulerConfig } from '../config/scheduler'
+import { getMediaCleanupConfig } from '../config/mediaCleanup'
+import { getAnalyticsRollupConfig } from '../config/analyticsRollup'
+import { getStorageConfig } from '../config/storage'
+import { getVideoProcessingConfig } from '../config/videoProcessing'
+import { getSessionTokenConfig } from '../config/sessions'
+import { getMailConfig } from '../config/mail'
+import { getTwoFactorConfig } from '../config/twoFactor'
+import { getRateLimitSettings } from '../config/rateLimit'
 import { createAuthMiddleware, createOptionalAuthMiddleware } from '../middleware/authMiddleware'
+import { getRateLimitStore, setRateLimitResolver, setRateLimitStore } from '../middleware/rateLimitMiddleware'
 import type { RequestHandler } from 'express'
 
 /**
@@ -40,6 +92,8 @@ interface MiddlewareAuthService {
     userId: string
     email: string
     username: string
+    jti?: string
+    role?: string
   }
 }
 
@@ -51,10 +105,35 @@ interface Dependencies {
   postController: PostController
   userController: UserController
   followController: FollowController
+  adminController: AdminController
+  rateLimitController: RateLimitController
+  moderationController: ModerationController
+  moderationDashboardController: ModerationDashboardController
+  mediaController: MediaController
+  analyticsController: AnalyticsController
   authMiddleware: RequestHandler
   optionalAuthMiddleware: RequestHandler
   authService: AuthService
+  sessionService: SessionService
+  accountEmailService: AccountEmailService
+  twoFactorService: TwoFactorService
+  roleService: RoleService
+  rateLimitTierService: RateLimitTierService
+  analyticsService: AnalyticsService
+  moderationService: ModerationService
+  moderationDashboardService: ModerationDashboardService
+  profileService: ProfileService
+  mediaService: MediaService
   followService: FollowService
+  activityPubService: ActivityPubService
+  remoteActorService: RemoteActorService
+  inboxService: InboxService
+  outboxService: OutboxService
+  deliveryQueue: DeliveryQueue
+  postScheduler: PostScheduler
+  mediaCleanupJob: MediaCleanupJob
+  videoProcessingJob: VideoProcessingJob
+  analyticsRollupJob: AnalyticsRollupJob
   userRepository: UserRepository
   postRepository: PostRepository
   followRepository: FollowRepository
@@ -74,12 +153,38 @@ class ServiceContainer {
   private postRepository!: PostRepository
   private followRepository!: FollowRepository
   private blockRepository!: BlockRepository
+  private mediaRepository!: MediaRepository
   private authService!: AuthService
+  private sessionService!: SessionService
+  private accountEmailService!: AccountEmailService
+  private twoFactorService!: TwoFactorService
+  private roleService!: RoleService
+  private rateLimitTierService!: RateLimitTierService
+  private analyticsService!: AnalyticsService
+  private moderationService!: ModerationService
+  private moderationDashboardService!: ModerationDashboardService
+  private profileService!: ProfileService
+  private mediaService!: MediaService
   private followService!: FollowService
+  private activityPubService!: ActivityPubService
+  private remoteActorService!: RemoteActorService
+  private inboxService!: InboxService
+  private outboxService!: OutboxService
+  private deliveryQueue!: DeliveryQueue
+  private postScheduler!: PostScheduler
+  private mediaCleanupJob!: MediaCleanupJob
+  private videoProcessingJob!: VideoProcessingJob
+  private analyticsRollupJob!: AnalyticsRollupJob
   private authController!: AuthController
   private postController!: PostController
   private userController!: UserController
   private followController!: FollowController
+  private adminController!: AdminController
+  private rateLimitController!: RateLimitController
+  private moderationController!: ModerationController
+  private moderationDashboardController!: ModerationDashboardController
+  private mediaController!: MediaController
+  private analyticsController!: AnalyticsController
   private authMiddleware!: RequestHandler
   private optionalAuthMiddleware!: RequestHandler
 
@@ -108,15 +213,121 @@ class ServiceContainer {
       this.postRepository = new PostRepository(this.prisma)
       this.followRepository = new FollowRepository(this.prisma)
       this.blockRepository = new BlockRepository(this.prisma)
+      this.mediaRepository = new MediaRepository(this.prisma)
       console.log('✅ Repositories initialized')
 
       // Initialize services
       console.log('🔄 Initializing services...')
       this.authService = new AuthService()
-      this.followService = new FollowService(
+      const sessionRepository = new SessionRepository(this.prisma)
+      this.sessionService = new SessionService(
+        sessionRepository,
+        this.userRepository,
+        this.authService,
+        getSessionTokenConfig()
+      )
+      const mailConfig = getMailConfig()
+      this.accountEmailService = new AccountEmailService(
+        new AccountTokenRepository(this.prisma),
+        this.userRepository,
+        sessionRepository,
+        this.authService,
+        createMailer(mailConfig),
+        mailConfig
+      )
+      this.twoFactorService = new TwoFactorService(
+        new TwoFactorRepository(this.prisma),
+        this.userRepository,
+        this.authService,
+        getTwoFactorConfig()
+      )
+      this.roleService = new RoleService(
+        this.userRepository,
+        new RoleChangeRepository(this.prisma),
+        sessionRepository
+      )
+      this.rateLimitTierService = new RateLimitTierService(
+        this.userRepository,
+        new RateLimitOverrideRepository(this.prisma)
+      )
+      const analyticsRepository = new AnalyticsRepository(this.prisma)
+      this.analyticsService = new AnalyticsService(analyticsRepository)
+      this.analyticsRollupJob = new AnalyticsRollupJob(analyticsRepository, getAnalyticsRollupConfig())
+      const reportRepository = new ReportRepository(this.prisma)
+      this.moderationService = new ModerationService(
+        new ModerationActionRepository(this.prisma),
+        reportRepository,
+        this.userRepository,
+        this.postRepository,
+        sessionRepository
+      )
+      this.moderationDashboardService = new ModerationDashboardService(
+        reportRepository,
+        this.blockRepository,
         this.followRepository,
+        this.postRepository,
         this.userRepository
       )
+      const federationConfig = getFederationConfig()
+      const actorKeyService = new ActorKeyService(federationConfig.keyEncryptionSecret)
+      this.activityPubService = new ActivityPubService(
+        this.userRepository,
+        actorKeyService,
+        federationConfig
+      )
+      this.remoteActorService = new RemoteActorService()
+      const activityDeliveryService = new ActivityDeliveryService(actorKeyService)
+      this.inboxService = new InboxService(
+        this.userRepository,
+        this.followRepository,
+        this.activityPubService,
+        this.remoteActorService,
+        activityDeliveryService
+      )
+      this.deliveryQueue = new DeliveryQueue(
+        new DeliveryJobRepository(this.prisma),
+        activityDeliveryService,
+        this.userRepository,
+        federationConfig.delivery
+      )
+      this.outboxService = new OutboxService(
+        this.postRepository,
+        this.followRepository,
+        this.userRepository,
+        this.activityPubService,
+        this.remoteActorService,
+        this.deliveryQueue,
+        federationConfig
+      )
+      this.followService = new FollowService(
+        this.followRepository,
+        this.userRepository,
+        this.outboxService
+      )
+      this.postScheduler = new PostScheduler(
+        this.prisma,
+        [post => this.outboxService.publishPost(post.id)],
+        getSchedulerConfig()
+      )
+      const storageConfig = getStorageConfig()
+      const storageProvider = createStorageProvider(storageConfig)
+      this.profileService = new ProfileService(
+        this.userRepository,
+        storageProvider,
+        this.outboxService,
+        this.activityPubService
+      )
+      this.mediaService = new MediaService(this.mediaRepository, storageProvider, storageConfig.signedUrlTtlSeconds)
+      this.mediaCleanupJob = new MediaCleanupJob(this.mediaRepository, storageProvider, getMediaCleanupConfig())
+      const videoProcessingConfig = getVideoProcessingConfig()
+      this.videoProcessingJob = new VideoProcessingJob(
+        this.mediaRepository,
+        storageProvider,
+        new VideoTranscoder(videoProcessingConfig),
+        videoProcessingConfig
+      )
+      setRateLimitStore(createRateLimitStore(getRateLimitSettings(), this.prisma))
+      setRateLimitResolver((userId, policy) => this.rateLimitTierService.resolvePolicy(userId, policy))
       console.log('✅ Services initialized')
 
       // Create middleware-compatible auth service adapter
@@ -124,34 +335,60 @@ class ServiceContainer {
         extractTokenFromHeader: (header: string | undefined) => {
           return this.authService.extractTokenFromHeader(header)
         },
-        verifyToken: (_token: string) => {
-          // This is a temporary solution - the middleware expects sync but AuthService is async
-          // The proper fix is to update the middleware to handle async token verification
-          throw new Error('Synchronous token verification not implemented - middleware needs async update')
+        verifyToken: (token: string) => {
+          return this.authService.verifyToken(token)
         }
       }
 
       // Initialize middleware
       console.log('🔄 Initializing middleware...')
-      this.authMiddleware = createAuthMiddleware(middlewareAuthService)
-      this.optionalAuthMiddleware = createOptionalAuthMiddleware(middlewareAuthService)
+      this.authMiddleware = createAuthMiddleware(middlewareAuthService, this.sessionService, this.userRepository)
+      this.optionalAuthMiddleware = createOptionalAuthMiddleware(
+        middlewareAuthService,
+        this.sessionService,
+        this.userRepository
+      )
       console.log('✅ Middleware initialized')
 
       // Initialize controllers
       console.log('🔄 Initializing controllers...')
-      this.authController = new AuthController(this.authService, this.userRepository)
+      this.authController = new AuthController(
+        this.authService,
+        this.userRepository,
+        this.activityPubService,
+        this.sessionService,
+        this.accountEmailService,
+        this.twoFactorService
+      )
       this.postController = new PostController(
         this.postRepository,
-        this.userRepository
+        this.userRepository,
+        this.outboxService,
+        this.mediaService
       )
       this.userController = new UserController(
         this.userRepository,
         this.followRepository,
-        this.blockRepository
+        this.blockRepository,
+        this.profileService
       )
       this.followController = new FollowController(this.followService, this.userRepository)
+      this.adminController = new AdminController(this.roleService, this.rateLimitTierService)
+      this.rateLimitController = new RateLimitController(this.rateLimitTierService)
+      this.moderationController = new ModerationController(this.moderationService)
+      this.moderationDashboardController = new ModerationDashboardController(this.moderationDashboardService)
+      this.mediaController = new MediaController(this.mediaService)
+      this.analyticsController = new AnalyticsController(this.analyticsService)
       console.log('✅ Controllers initialized')
 
+      // Start background jobs
+      this.deliveryQueue.start()
+      this.postScheduler.start()
+      this.mediaCleanupJob.start()
+      this.videoProcessingJob.start()
+      this.analyticsRollupJob.start()
+      console.log('✅ Background jobs started')
+
       this.initialized = true
       console.log('🎉 Service container initialization complete')
 
@@ -176,10 +413,35 @@ class ServiceContainer {
       postController: this.postController,
       userController: this.userController,
       followController: this.followController,
+      adminController: this.adminController,
+      rateLimitController: this.rateLimitController,
+      moderationController: this.moderationController,
+      moderationDashboardController: this.moderationDashboardController,
+      mediaController: this.mediaController,
+      analyticsController: this.analyticsController,
       authMiddleware: this.authMiddleware,
       optionalAuthMiddleware: this.optionalAuthMiddleware,
       authService: this.authService,
+      sessionService: this.sessionService,
+      accountEmailService: this.accountEmailService,
+      twoFactorService: this.twoFactorService,
+      roleService: this.roleService,
+      rateLimitTierService: this.rateLimitTierService,
+      analyticsService: this.analyticsService,
+      moderationService: this.moderationService,
+      moderationDashboardService: this.moderationDashboardService,
+      profileService: this.profileService,
+      mediaService: this.mediaService,
       followService: this.followService,
+      activityPubService: this.activityPubService,
+      remoteActorService: this.remoteActorService,
+      inboxService: this.inboxService,
+      outboxService: this.outboxService,
+      deliveryQueue: this.deliveryQueue,
+      postScheduler: this.postScheduler,
+      mediaCleanupJob: this.mediaCleanupJob,
+      videoProcessingJob: this.videoProcessingJob,
+      analyticsRollupJob: this.analyticsRollupJob,
       userRepository: this.userRepository,
       postRepository: this.postRepository,
       followRepository: this.followRepository,
@@ -236,6 +498,23 @@ class ServiceContainer {
    */
   async cleanup(): Promise<void> {
     try {
+      // Stop background jobs before the database goes away
+      this.deliveryQueue?.stop()
+      if (this.postScheduler) {
+        await this.postScheduler.stop()
+      }
+      if (this.mediaCleanupJob) {
+        await this.mediaCleanupJob.stop()
+      }
+      if (this.videoProcessingJob) {
+        await this.videoProcessingJob.stop()
+      }
+      if (this.analyticsRollupJob) {
+        await this.analyticsRollupJob.stop()
+      }
+      await getRateLimitStore().close?.()
+      setRateLimitResolver(null)
+
       if (this.prisma) {
         await this.prisma.$disconnect()
         console.log('✅ Database connection closed')
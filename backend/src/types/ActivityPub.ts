@@ -0,0 +1,92 @@
+// backend/src/types/ActivityPub.ts
+// Version: 1.1.0
+// Added inbox activity and remote actor types
+
+/**
+ * JSON-LD context value
+ * Either a single context URL or a list of contexts and term definitions
+ */
+export type ActivityPubContext = string | Array<string | Record<string, unknown>>
+
+/**
+ * Public key block embedded in actor documents
+ * Remote servers use this to verify HTTP Signatures from the actor
+ */
+export interface ActivityPubPublicKey {
+  id: string
+  owner: string
+  publicKeyPem: string
+}
+
+/**
+ * Image object used for actor avatars
+ */
+export interface ActivityPubImage {
+  type: 'Image'
+  url: string
+  mediaType?: string
+}
+
+/**
+ * ActivityStreams Person actor representing a local creator
+ */
+export interface ActivityPubActor {
+  '@context': ActivityPubContext
+  id: string
+  type: 'Person'
+  preferredUsername: string
+  name: string
+  summary: string
+  url: string
+  inbox: string
+  outbox: string
+  followers: string
+  following: string
+  publicKey: ActivityPubPublicKey
+  manuallyApprovesFollowers: boolean
+  discoverable: boolean
+  published: string
+  icon?: ActivityPubImage
+  endpoints?: {
+    sharedInbox?: string
+  }
+}
+
+/**
+ * Reference to another object: either its URI or an embedded object
+ */
+export type ActivityPubObjectReference = string | ActivityPubObject
+
+/**
+ * Loosely typed ActivityStreams object as received from remote servers
+ * Only the fields the inbox relies on are declared
+ */
+export interface ActivityPubObject {
+  id?: string
+  type?: string
+  actor?: ActivityPubObjectReference
+  object?: ActivityPubObjectReference
+  [key: string]: unknown
+}
+
+/**
+ * Activity posted to or sent from an inbox
+ */
+export interface ActivityPubActivity extends ActivityPubObject {
+  '@context'?: ActivityPubContext
+  id: string
+  type: string
+  actor: ActivityPubObjectReference
+  object?: ActivityPubObjectReference
+}
+
+/**
+ * Subset of a remote actor document needed for delivery and verification
+ */
+export interface RemoteActor {
+  id: string
+  inbox: string
+  sharedInbox?: string
+  preferredUsername?: string
+  publicKey: ActivityPubPublicKey
+}
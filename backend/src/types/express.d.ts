@@ -1,6 +1,8 @@
 // backend/src/types/express.d.ts
-// Version: 1.0.0 - Global Express Request type augmentation
+// Version: 1.2.0 - Global Express Request type augmentation
 // Added: User property to Express Request interface for authentication middleware
+// Added: Session id from the access token's jti claim
+// Added: Role from the access token's role claim
 
 /**
  * Global augmentation of Express Request interface
@@ -17,6 +19,8 @@ declare global {
         id: string
         email: string
         username: string
+        sessionId?: string
+        role?: import('../models/User').UserRole
       }
     }
   }
@@ -26,4 +30,5 @@ declare global {
  * Export statement to make this file a module
  * Required for global declaration augmentation to work
  */
-export {}export {}
+export {}
+
@@ -0,0 +1,86 @@
+// backend/src/utils/__tests__/fileSignature.test.ts
+// Version: 1.0.0
+// Unit tests for magic byte detection of uploaded media
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { detectMediaType, matchesDeclaredType, readFileHeader, FILE_HEADER_LENGTH } from '../fileSignature'
+
+const HEADERS = {
+  jpeg: Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46]),
+  png: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]),
+  gif: Buffer.from('GIF89a\x01\x00', 'latin1'),
+  webp: Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1'),
+  mp4: Buffer.from('\x00\x00\x00\x20ftypisom\x00\x00', 'latin1'),
+  quicktime: Buffer.from('\x00\x00\x00\x14ftypqt  \x00\x00', 'latin1'),
+  webm: Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x01, 0x00]),
+  script: Buffer.from('<?php echo 1; ?>', 'latin1')
+}
+
+describe('fileSignature', () => {
+  describe('detectMediaType', () => {
+    it('should recognise every accepted format', () => {
+      expect(detectMediaType(HEADERS.jpeg)).toBe('image/jpeg')
+      expect(detectMediaType(HEADERS.png)).toBe('image/png')
+      expect(detectMediaType(HEADERS.gif)).toBe('image/gif')
+      expect(detectMediaType(HEADERS.webp)).toBe('image/webp')
+      expect(detectMediaType(HEADERS.mp4)).toBe('video/mp4')
+      expect(detectMediaType(HEADERS.quicktime)).toBe('video/mp4')
+      expect(detectMediaType(HEADERS.webm)).toBe('video/webm')
+    })
+
+    it('should return null for anything else', () => {
+      expect(detectMediaType(HEADERS.script)).toBeNull()
+      expect(detectMediaType(Buffer.alloc(0))).toBeNull()
+    })
+
+    it('should not match a RIFF file that is not WebP', () => {
+      expect(detectMediaType(Buffer.from('RIFF\x24\x00\x00\x00WAVEfmt ', 'latin1'))).toBeNull()
+    })
+  })
+
+  describe('matchesDeclaredType', () => {
+    it('should accept content that matches the declared type', () => {
+      expect(matchesDeclaredType(HEADERS.png, 'image/png')).toBe(true)
+      expect(matchesDeclaredType(HEADERS.jpeg, 'image/jpg')).toBe(true)
+      expect(matchesDeclaredType(HEADERS.quicktime, 'video/quicktime')).toBe(true)
+    })
+
+    it('should reject content disguised as another type', () => {
+      expect(matchesDeclaredType(HEADERS.script, 'image/jpeg')).toBe(false)
+      expect(matchesDeclaredType(HEADERS.png, 'image/jpeg')).toBe(false)
+      expect(matchesDeclaredType(HEADERS.webm, 'video/mp4')).toBe(false)
+    })
+  })
+
+  describe('readFileHeader', () => {
+    let directory: string
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'parasocial-signature-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    it('should read only the leading bytes', async () => {
+      const filePath = path.join(directory, 'large.bin')
+      await fs.writeFile(filePath, Buffer.concat([HEADERS.png, Buffer.alloc(1024)]))
+
+      const header = await readFileHeader(filePath)
+
+      expect(header.length).toBe(FILE_HEADER_LENGTH)
+      expect(detectMediaType(header)).toBe('image/png')
+    })
+
+    it('should return short files whole', async () => {
+      const filePath = path.join(directory, 'short.bin')
+      await fs.writeFile(filePath, HEADERS.jpeg)
+
+      expect(await readFileHeader(filePath)).toEqual(HEADERS.jpeg)
+    })
+  })
+})
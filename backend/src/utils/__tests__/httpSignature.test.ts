@@ -0,0 +1,150 @@
+// backend/src/utils/__tests__/httpSignature.test.ts
+// Version: 1.0.0
+// Unit tests for HTTP Signature signing, parsing and verification
+
+import { describe, it, expect } from 'vitest'
+import crypto from 'crypto'
+import {
+  createDigest,
+  verifyDigest,
+  parseSignatureHeader,
+  signRequest,
+  verifySignature,
+  isSignatureDateFresh,
+  SIGNATURE_MAX_AGE_MS
+} from '../httpSignature'
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+})
+
+const keyId = 'https://remote.example/users/alice#main-key'
+const body = JSON.stringify({ type: 'Follow' })
+
+describe('httpSignature', () => {
+  describe('digest', () => {
+    it('should create and verify SHA-256 digests', () => {
+      const digest = createDigest(body)
+
+      expect(digest).toMatch(/^SHA-256=/)
+      expect(verifyDigest(digest, body)).toBe(true)
+      expect(verifyDigest(digest, body + ' ')).toBe(false)
+    })
+
+    it('should accept the algorithm name in any case', () => {
+      expect(verifyDigest(createDigest(body).replace('SHA-256', 'sha-256'), body)).toBe(true)
+    })
+  })
+
+  describe('parseSignatureHeader', () => {
+    it('should parse all parameters', () => {
+      const parsed = parseSignatureHeader(
+        'keyId="https://remote.example/users/alice#main-key",algorithm="rsa-sha256",headers="(request-target) host date digest",signature="abc=="'
+      )
+
+      expect(parsed).toEqual({
+        keyId,
+        algorithm: 'rsa-sha256',
+        headers: ['(request-target)', 'host', 'date', 'digest'],
+        signature: 'abc=='
+      })
+    })
+
+    it('should return null without keyId or signature', () => {
+      expect(parseSignatureHeader('algorithm="rsa-sha256"')).toBeNull()
+    })
+  })
+
+  describe('signRequest and verifySignature', () => {
+    const signAndParse = () => {
+      const headers = signRequest({
+        method: 'POST',
+        url: 'https://parasocial.example/users/creator/inbox',
+        keyId,
+        privateKeyPem: privateKey,
+        body
+      })
+      return { headers, signature: parseSignatureHeader(headers['signature']!)! }
+    }
+
+    it('should produce a signature that verifies with the public key', () => {
+      const { headers, signature } = signAndParse()
+
+      expect(headers['host']).toBe('parasocial.example')
+      expect(headers['digest']).toBe(createDigest(body))
+      expect(signature.headers).toEqual(['(request-target)', 'host', 'date', 'digest'])
+      expect(verifySignature({
+        method: 'POST',
+        path: '/users/creator/inbox',
+        headers,
+        signature,
+        publicKeyPem: publicKey
+      })).toBe(true)
+    })
+
+    it('should fail verification for a different path', () => {
+      const { headers, signature } = signAndParse()
+
+      expect(verifySignature({
+        method: 'POST',
+        path: '/users/someone-else/inbox',
+        headers,
+        signature,
+        publicKeyPem: publicKey
+      })).toBe(false)
+    })
+
+    it('should fail verification when a signed header changed', () => {
+      const { headers, signature } = signAndParse()
+
+      expect(verifySignature({
+        method: 'POST',
+        path: '/users/creator/inbox',
+        headers: { ...headers, digest: createDigest('tampered') },
+        signature,
+        publicKeyPem: publicKey
+      })).toBe(false)
+    })
+
+    it('should fail verification when a signed header is missing', () => {
+      const { headers, signature } = signAndParse()
+      const { date: _date, ...withoutDate } = headers
+
+      expect(verifySignature({
+        method: 'POST',
+        path: '/users/creator/inbox',
+        headers: withoutDate,
+        signature,
+        publicKeyPem: publicKey
+      })).toBe(false)
+    })
+
+    it('should omit the digest when there is no body', () => {
+      const headers = signRequest({
+        method: 'GET',
+        url: 'https://remote.example/users/alice',
+        keyId,
+        privateKeyPem: privateKey
+      })
+
+      expect(headers['digest']).toBeUndefined()
+      expect(parseSignatureHeader(headers['signature']!)!.headers).toEqual(['(request-target)', 'host', 'date'])
+    })
+  })
+
+  describe('isSignatureDateFresh', () => {
+    const now = new Date('2025-06-01T12:00:00Z')
+
+    it('should accept dates inside the window', () => {
+      expect(isSignatureDateFresh(now.toUTCString(), now)).toBe(true)
+    })
+
+    it('should reject stale, future and unparseable dates', () => {
+      expect(isSignatureDateFresh(new Date(now.getTime() - SIGNATURE_MAX_AGE_MS - 1000).toUTCString(), now)).toBe(false)
+      expect(isSignatureDateFresh(new Date(now.getTime() + SIGNATURE_MAX_AGE_MS + 1000).toUTCString(), now)).toBe(false)
+      expect(isSignatureDateFresh('yesterday', now)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,98 @@
+// backend/src/utils/__tests__/totp.test.ts
+// Version: 1.0.0
+// Unit tests for TOTP codes, base32 secrets and otpauth URIs
+
+import { describe, it, expect } from 'vitest'
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotpCode,
+  getTotpStep,
+  verifyTotpCode,
+  buildOtpauthUri
+} from '../totp'
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255])
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+    })
+
+    it('should encode the RFC test secret', () => {
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET)
+    })
+
+    it('should ignore case, spaces and padding when decoding', () => {
+      expect(base32Decode('gezd gnbv===')).toEqual(base32Decode('GEZDGNBV'))
+    })
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character')
+    })
+  })
+
+  describe('generateTotpCode', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037']
+    ])('should match the RFC 6238 SHA-1 vector at %i seconds', (seconds, code) => {
+      expect(generateTotpCode(RFC_SECRET, getTotpStep(new Date(seconds * 1000)))).toBe(code)
+    })
+  })
+
+  describe('verifyTotpCode', () => {
+    const now = new Date(1111111109 * 1000)
+    const step = getTotpStep(now)
+
+    it('should accept the current code and return its step', () => {
+      expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step), now)).toBe(step)
+    })
+
+    it('should accept codes one step either side of now', () => {
+      expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), now)).toBe(step - 1)
+      expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 1), now)).toBe(step + 1)
+    })
+
+    it('should reject codes outside the window', () => {
+      expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 2), now)).toBeNull()
+    })
+
+    it('should ignore spaces and reject malformed input', () => {
+      const code = generateTotpCode(RFC_SECRET, step)
+
+      expect(verifyTotpCode(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, now)).toBe(step)
+      expect(verifyTotpCode(RFC_SECRET, '12345', now)).toBeNull()
+      expect(verifyTotpCode(RFC_SECRET, 'abcdef', now)).toBeNull()
+    })
+  })
+
+  describe('generateTotpSecret', () => {
+    it('should return a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret()
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+      expect(base32Decode(secret)).toHaveLength(20)
+    })
+  })
+
+  describe('buildOtpauthUri', () => {
+    it('should label the account with the issuer and include the parameters apps expect', () => {
+      const uri = buildOtpauthUri({ issuer: 'ParaSocial', accountName: 'creator@example.com', secret: RFC_SECRET })
+
+      expect(uri.startsWith('otpauth://totp/ParaSocial%3Acreator%40example.com?')).toBe(true)
+      const params = new URL(uri).searchParams
+      expect(params.get('secret')).toBe(RFC_SECRET)
+      expect(params.get('issuer')).toBe('ParaSocial')
+      expect(params.get('digits')).toBe('6')
+      expect(params.get('period')).toBe('30')
+    })
+  })
+})
@@ -0,0 +1,42 @@
+// backend/src/utils/advisoryLock.ts
+// Version: 1.0.0 - Postgres advisory lock helper for single-instance background jobs
+
+import { PrismaClient, Prisma } from '@prisma/client'
+
+/**
+ * Outcome of trying to run work under the lock
+ */
+type AdvisoryLockResult<T> =
+  | { acquired: true; result: T }
+  | { acquired: false }
+
+/**
+ * Run work while holding a transaction-scoped Postgres advisory lock
+ * Uses pg_try_advisory_xact_lock so the lock lives on the same connection as the
+ * work and is released on commit or rollback; session locks are unreliable with
+ * Prisma's connection pool because unlock may run on another connection.
+ * Returns immediately without running the work if another instance holds the lock.
+ * @param prisma - Prisma client
+ * @param lockKey - Application-wide lock identifier
+ * @param work - Work to run with the transaction client
+ * @param timeoutMs - Maximum time the transaction may stay open
+ * @returns Promise<AdvisoryLockResult> Whether the lock was acquired and the work's result
+ */
+export async function withAdvisoryLock<T>(
+  prisma: PrismaClient,
+  lockKey: number,
+  work: (tx: Prisma.TransactionClient) => Promise<T>,
+  timeoutMs: number = 60 * 1000
+): Promise<AdvisoryLockResult<T>> {
+  return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const rows = await tx.$queryRaw<Array<{ locked: boolean }>>`SELECT pg_try_advisory_xact_lock(${lockKey}) AS locked`
+
+    if (!rows[0]?.locked) {
+      return { acquired: false as const }
+    }
+
+    return { acquired: true as const, result: await work(tx) }
+  }, { timeout: timeoutMs })
+}
+
+export type { AdvisoryLockResult }
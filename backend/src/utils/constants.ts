@@ -1,5 +1,5 @@
 // backend/src/utils/constants.ts
-// Version: 1.0.0 - Initial implementation of centralized application constants
+// Version: 1.8.0 - Added content labels
 // Centralized constants for the social media backend application
 
 // ============================================================================
@@ -24,6 +24,44 @@ export const MAX_CONTENT_WARNING_LENGTH = 280
  */
 export const MAX_MEDIA_ATTACHMENTS = 4
 
+/**
+ * Content labels a creator can put on a post alongside its content warning
+ * Readers can choose labels whose posts open without a click
+ */
+export const CONTENT_LABELS = [
+  'violence',
+  'gore',
+  'nudity',
+  'self-harm',
+  'flashing-lights',
+  'spoilers',
+  'medical'
+] as const
+
+/**
+ * Reader-facing names for content labels
+ * Used when labels are written into a federated post's summary
+ */
+export const CONTENT_LABEL_NAMES: Record<typeof CONTENT_LABELS[number], string> = {
+  'violence': 'Violence',
+  'gore': 'Gore',
+  'nudity': 'Nudity',
+  'self-harm': 'Self-harm',
+  'flashing-lights': 'Flashing lights',
+  'spoilers': 'Spoilers',
+  'medical': 'Medical'
+}
+
+/**
+ * Labels that mark every attachment on the post as sensitive
+ * Flashing images must never show before the reader asks for them
+ */
+export const SENSITIVE_MEDIA_LABELS: readonly string[] = [
+  'flashing-lights',
+  'gore',
+  'nudity'
+] as const
+
 /**
  * Regular expression for validating post IDs
  * Allows alphanumeric characters, hyphens, and underscores
@@ -108,12 +146,33 @@ export const MAX_DOMAIN_LENGTH = 255
  */
 export const MAX_FILE_SIZE = 50 * 1024 * 1024
 
+/**
+ * Maximum length of media alt text
+ * Long enough for detailed image descriptions; matches common fediverse limits
+ */
+export const MAX_ALT_TEXT_LENGTH = 1500
+
+/**
+ * Longest edge in pixels of the WebP renditions made for each uploaded image
+ * Thumbnails fill feed grids; previews are shown when a post is opened
+ */
+export const MEDIA_RENDITIONS = {
+  thumbnail: 400,
+  preview: 1280
+} as const
+
 /**
  * Maximum file size for user avatar images (5MB in bytes)
  * Smaller limit for profile pictures to optimize loading
  */
 export const MAX_AVATAR_SIZE = 5 * 1024 * 1024
 
+/**
+ * Square edge lengths in pixels generated for each avatar, largest first
+ * User.avatar points at the largest; the others share its name with their size
+ */
+export const AVATAR_SIZES: readonly number[] = [400, 128, 48] as const
+
 /**
  * Maximum file size for profile header images (10MB in bytes)
  * Moderate limit for header banners
@@ -239,6 +298,28 @@ export const SESSION_COOKIE_NAME = 'session'
  */
 export const CSRF_TOKEN_HEADER = 'X-CSRF-Token'
 
+/**
+ * Password reset link lifetime in milliseconds
+ * Short because the link grants account access
+ */
+export const PASSWORD_RESET_TOKEN_TTL = 60 * 60 * 1000
+
+/**
+ * Email verification link lifetime in milliseconds
+ */
+export const EMAIL_VERIFICATION_TOKEN_TTL = 24 * 60 * 60 * 1000
+
+/**
+ * Minimum time between account emails of the same kind to one user
+ * Stops the forgot-password and resend endpoints from flooding an inbox
+ */
+export const ACCOUNT_EMAIL_COOLDOWN = 60 * 1000
+
+/**
+ * Number of one-time recovery codes issued when two-factor authentication is turned on
+ */
+export const TWO_FACTOR_RECOVERY_CODE_COUNT = 10
+
 // ============================================================================
 // ACTIVITYPUB FEDERATION CONSTANTS
 // ============================================================================
@@ -249,6 +330,18 @@ export const CSRF_TOKEN_HEADER = 'X-CSRF-Token'
  */
 export const ACTIVITYPUB_CONTEXT = 'https://www.w3.org/ns/activitystreams'
 
+/**
+ * Security vocabulary JSON-LD context URL
+ * Required for publicKey blocks on actor documents
+ */
+export const ACTIVITYPUB_SECURITY_CONTEXT = 'https://w3id.org/security/v1'
+
+/**
+ * Media type for ActivityPub documents
+ * Used for content negotiation and federated responses
+ */
+export const ACTIVITYPUB_CONTENT_TYPE = 'application/activity+json'
+
 /**
  * Maximum size for ActivityPub activities (1MB in bytes)
  * Prevents abuse while allowing reasonable content
@@ -273,6 +366,17 @@ export const FEDERATION_MAX_RETRIES = 3
  */
 export const ACTIVITYPUB_ACTOR_TYPE = 'Person'
 
+/**
+ * Special collection addressing an object to everyone
+ * Used in to/cc of public posts
+ */
+export const ACTIVITYPUB_PUBLIC = 'https://www.w3.org/ns/activitystreams#Public'
+
+/**
+ * Number of activities per outbox collection page
+ */
+export const OUTBOX_PAGE_SIZE = 20
+
 /**
  * Regular expression for validating ActivityPub activity IDs
  * Must be valid HTTPS URLs
@@ -448,4 +552,4 @@ export type AllowedMediaType = typeof ALLOWED_MEDIA_TYPES[number]
 export type SupportedContentType = typeof SUPPORTED_CONTENT_TYPES[number]
 
 // backend/src/utils/constants.ts
-// Version: 1.0.0 - Initial implementation of centralized application constants
\ No newline at end of file
+// Version: 1.7.0 - Added media rendition sizes
\ No newline at end of file
@@ -0,0 +1,99 @@
+// backend/src/utils/fileSignature.ts
+// Version: 1.0.0
+// Media type detection from magic bytes, so uploads cannot lie about their content
+
+import fs from 'fs/promises'
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * Byte pattern that identifies a file format
+ * Null entries in bytes match any value
+ */
+interface FileSignature {
+  mimeType: string
+  offset: number
+  bytes: Array<number | null>
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Bytes read from the start of a file; enough for every signature below
+ */
+export const FILE_HEADER_LENGTH = 16
+
+/**
+ * Signatures of the media formats accepted for upload
+ */
+const SIGNATURES: readonly FileSignature[] = [
+  { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38, null, 0x61] },
+  // RIFF....WEBP
+  { mimeType: 'image/webp', offset: 0, bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  // ISO base media (MP4 and QuickTime): ....ftyp
+  { mimeType: 'video/mp4', offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+  // EBML header used by WebM
+  { mimeType: 'video/webm', offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3] }
+]
+
+/**
+ * Declared MIME types that share a detected format
+ */
+const TYPE_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'video/quicktime': 'video/mp4'
+}
+
+// =============================================================================
+// FUNCTIONS
+// =============================================================================
+
+/**
+ * Detect a media type from a file's leading bytes
+ * QuickTime files are reported as video/mp4, since both use the ISO base media container
+ * @param header - Leading bytes of the file
+ * @returns Detected MIME type, or null for unrecognised content
+ */
+export function detectMediaType(header: Buffer): string | null {
+  const match = SIGNATURES.find(signature =>
+    header.length >= signature.offset + signature.bytes.length &&
+    signature.bytes.every((byte, index) => byte === null || header[signature.offset + index] === byte)
+  )
+
+  return match ? match.mimeType : null
+}
+
+/**
+ * Check that a file's content matches the MIME type it was uploaded with
+ * @param header - Leading bytes of the file
+ * @param declaredType - MIME type sent by the client
+ * @returns True when the magic bytes belong to the declared type
+ */
+export function matchesDeclaredType(header: Buffer, declaredType: string): boolean {
+  const detected = detectMediaType(header)
+  const declared = declaredType.toLowerCase()
+
+  return detected !== null && detected === (TYPE_ALIASES[declared] ?? declared)
+}
+
+/**
+ * Read the leading bytes of a file on disk
+ * @param filePath - File to read
+ * @returns Promise<Buffer> Up to FILE_HEADER_LENGTH bytes
+ */
+export async function readFileHeader(filePath: string): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(FILE_HEADER_LENGTH)
+    const { bytesRead } = await handle.read(buffer, 0, FILE_HEADER_LENGTH, 0)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
@@ -0,0 +1,227 @@
+// backend/src/utils/httpSignature.ts
+// Version: 1.0.0
+// HTTP Signature (draft-cavage-http-signatures) signing and verification for ActivityPub requests
+
+import crypto from 'crypto'
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * Parsed Signature header parameters
+ */
+export interface ParsedSignature {
+  keyId: string
+  algorithm: string
+  headers: string[]
+  signature: string
+}
+
+/**
+ * Options for signing an outgoing request
+ */
+export interface SignRequestOptions {
+  method: string
+  url: string
+  keyId: string
+  privateKeyPem: string
+  body?: string | undefined
+  date?: Date | undefined
+}
+
+/**
+ * Options for verifying an incoming request
+ */
+export interface VerifySignatureOptions {
+  method: string
+  path: string
+  headers: Record<string, string | string[] | undefined>
+  signature: ParsedSignature
+  publicKeyPem: string
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Maximum allowed difference between the Date header and local time
+ * Matches the window Mastodon accepts, which tolerates slow delivery queues
+ */
+export const SIGNATURE_MAX_AGE_MS = 12 * 60 * 60 * 1000
+
+/**
+ * Headers covered by signatures on outgoing requests
+ */
+const SIGNED_HEADERS_WITH_BODY = ['(request-target)', 'host', 'date', 'digest']
+const SIGNED_HEADERS_WITHOUT_BODY = ['(request-target)', 'host', 'date']
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Build the Digest header value for a request body
+ * @param body - Raw request body
+ * @returns Digest header value, e.g. SHA-256=base64hash
+ */
+export function createDigest(body: string | Buffer): string {
+  return `SHA-256=${crypto.createHash('sha256').update(body).digest('base64')}`
+}
+
+/**
+ * Check a Digest header against the raw body
+ * @param digestHeader - Digest header value from the request
+ * @param body - Raw request body
+ * @returns True if a SHA-256 digest is present and matches
+ */
+export function verifyDigest(digestHeader: string, body: string | Buffer): boolean {
+  const expected = createDigest(body)
+
+  return digestHeader
+    .split(',')
+    .map(part => part.trim())
+    .some(part => part.toLowerCase().startsWith('sha-256=') && part.slice(8) === expected.slice(8))
+}
+
+/**
+ * Parse a Signature header into its parameters
+ * @param header - Signature header value
+ * @returns ParsedSignature or null if required parameters are missing
+ */
+export function parseSignatureHeader(header: string): ParsedSignature | null {
+  const params: Record<string, string> = {}
+  const pattern = /([a-zA-Z]+)="([^"]*)"/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(header)) !== null) {
+    params[match[1]!.toLowerCase()] = match[2]!
+  }
+
+  const keyId = params['keyid']
+  const signature = params['signature']
+  if (!keyId || !signature) {
+    return null
+  }
+
+  return {
+    keyId,
+    algorithm: params['algorithm'] || 'rsa-sha256',
+    // Spec default when the headers parameter is omitted
+    headers: (params['headers'] || 'date').toLowerCase().split(/\s+/).filter(Boolean),
+    signature
+  }
+}
+
+/**
+ * Build the string that is signed for a request
+ * @param method - HTTP method
+ * @param path - Request path including query string
+ * @param headers - Request headers keyed by lowercase name
+ * @param headerNames - Ordered list of headers covered by the signature
+ * @returns Signing string
+ * @throws Error if a covered header is missing
+ */
+export function buildSigningString(
+  method: string,
+  path: string,
+  headers: Record<string, string | string[] | undefined>,
+  headerNames: string[]
+): string {
+  return headerNames.map(name => {
+    if (name === '(request-target)') {
+      return `(request-target): ${method.toLowerCase()} ${path}`
+    }
+
+    const value = headers[name]
+    if (value === undefined) {
+      throw new Error(`Signed header "${name}" is missing`)
+    }
+
+    return `${name}: ${Array.isArray(value) ? value.join(', ') : value}`
+  }).join('\n')
+}
+
+// =============================================================================
+// SIGNING AND VERIFICATION
+// =============================================================================
+
+/**
+ * Sign an outgoing request
+ * @param options - Request details and signing key
+ * @returns Headers to send (Host, Date, Signature and Digest when there is a body)
+ */
+export function signRequest(options: SignRequestOptions): Record<string, string> {
+  const url = new URL(options.url)
+  const headers: Record<string, string> = {
+    host: url.host,
+    date: (options.date || new Date()).toUTCString()
+  }
+
+  if (options.body !== undefined) {
+    headers['digest'] = createDigest(options.body)
+  }
+
+  const headerNames = options.body !== undefined ? SIGNED_HEADERS_WITH_BODY : SIGNED_HEADERS_WITHOUT_BODY
+  const signingString = buildSigningString(options.method, `${url.pathname}${url.search}`, headers, headerNames)
+  const signature = crypto.sign('sha256', Buffer.from(signingString), options.privateKeyPem).toString('base64')
+
+  headers['signature'] = [
+    `keyId="${options.keyId}"`,
+    'algorithm="rsa-sha256"',
+    `headers="${headerNames.join(' ')}"`,
+    `signature="${signature}"`
+  ].join(',')
+
+  return headers
+}
+
+/**
+ * Verify the signature of an incoming request
+ * @param options - Request details, parsed signature and the sender's public key
+ * @returns True if the signature is valid
+ */
+export function verifySignature(options: VerifySignatureOptions): boolean {
+  try {
+    // hs2019 is what newer servers advertise for RSA keys
+    const algorithm = options.signature.algorithm.toLowerCase()
+    if (algorithm !== 'rsa-sha256' && algorithm !== 'hs2019') {
+      return false
+    }
+
+    const signingString = buildSigningString(
+      options.method,
+      options.path,
+      options.headers,
+      options.signature.headers
+    )
+
+    return crypto.verify(
+      'sha256',
+      Buffer.from(signingString),
+      options.publicKeyPem,
+      Buffer.from(options.signature.signature, 'base64')
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check that a Date header is within the accepted window
+ * @param dateHeader - Date header value
+ * @param now - Current time
+ * @returns True if the date parses and is recent enough
+ */
+export function isSignatureDateFresh(dateHeader: string, now: Date = new Date()): boolean {
+  const timestamp = Date.parse(dateHeader)
+  if (Number.isNaN(timestamp)) {
+    return false
+  }
+
+  return Math.abs(now.getTime() - timestamp) <= SIGNATURE_MAX_AGE_MS
+}
+
+// backend/src/utils/httpSignature.ts
+// Version: 1.0.0
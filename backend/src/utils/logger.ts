@@ -1,5 +1,5 @@
 // backend/src/utils/logger.ts
-// Version: 1.4.0 - Fixed unused parameter warning in error middleware
+// Version: 1.6.0 - Added moderation logger for moderator actions
 // Comprehensive logging utility using Pino with TypeScript support for social media backend
 
 import pino from 'pino'
@@ -398,6 +398,24 @@ export const federationLogger = logger.child({
   type: 'federation'
 })
 
+/**
+ * Pre-configured logger for moderator actions
+ * Includes moderation context so suspensions and removals can be audited
+ */
+export const moderationLogger = logger.child({
+  component: 'moderation',
+  type: 'security'
+})
+
+/**
+ * Pre-configured logger for background jobs
+ * Includes scheduler context so each run can be traced
+ */
+export const schedulerLogger = logger.child({
+  component: 'scheduler',
+  type: 'job'
+})
+
 // ============================================================================
 // EXPRESS MIDDLEWARE HELPERS
 // ============================================================================
@@ -465,4 +483,4 @@ export const createErrorLoggingMiddleware = () => {
 export type { LoggerConfig, Logger, RequestLogData, ErrorLogData }
 
 // backend/src/utils/logger.ts
-// Version: 1.4.0
\ No newline at end of file
+// Version: 1.6.0
\ No newline at end of file
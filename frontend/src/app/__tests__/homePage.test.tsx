@@ -1,6 +1,6 @@
 // frontend/src/app/__tests__/homePage.test.tsx
 // Unit tests for HomePage component and utilities using Vitest
-// Version: 1.2.0 - Added comprehensive avatar fallback tests for new implementation
+// Version: 1.3.1 - Feed posts render through the shared post card
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { render, screen, cleanup, fireEvent, waitFor } from '@testing-library/react'
@@ -16,69 +16,10 @@ vi.mock('next/image', () => ({
   )
 }))
 
-// Type definitions for test data
-interface Author {
-  username: string
-  displayName: string
-  avatar: string
-  isVerified: boolean
-  verificationTier: string | null
-  followerCount: number
-}
-
-interface Post {
-  id: string
-  author: Author
-  content: string
-  createdAt: string
-  hasMedia: boolean
-}
-
-// Test data matching the structure from page.tsx
-const mockPosts: Post[] = [
-  {
-    id: '1',
-    author: {
-      username: 'sarahjohnson',
-      displayName: 'Sarah Johnson',
-      avatar: 'https://images.unsplash.com/photo-1494790108755-2616b12f1b38?w=100&h=100&fit=crop&crop=face',
-      isVerified: true,
-      verificationTier: 'notable',
-      followerCount: 12500
-    },
-    content: 'Excited to share my latest thoughts on sustainable living and how small changes can make a big impact on our planet. The future is in our hands! 🌱',
-    createdAt: '2024-12-20T10:30:00Z',
-    hasMedia: false
-  },
-  {
-    id: '2',
-    author: {
-      username: 'michaelchen',
-      displayName: 'Michael Chen',
-      avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop&crop=face',
-      isVerified: true,
-      verificationTier: 'identity',
-      followerCount: 8900
-    },
-    content: 'Deep dive into machine learning algorithms coming tomorrow. The intersection of AI and creativity is more fascinating than you might think.',
-    createdAt: '2024-12-20T09:15:00Z',
-    hasMedia: true
-  },
-  {
-    id: '3',
-    author: {
-      username: 'emmarodriguez',
-      displayName: 'Emma Rodriguez',
-      avatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=100&h=100&fit=crop&crop=face',
-      isVerified: false,
-      verificationTier: null,
-      followerCount: 3400
-    },
-    content: 'Captured this amazing shot of ocean waves at sunset yesterday. Nature never fails to inspire my photography work.',
-    createdAt: '2024-12-19T16:45:00Z',
-    hasMedia: true
-  }
-]
+// The discovery feed reads the signed-in reader's label preferences
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ user: null })
+}))
 
 // Mock system time for consistent testing
 beforeEach(() => {
@@ -274,8 +215,8 @@ describe('Avatar Fallback Functionality', () => {
       fireEvent.error(avatarImage)
       
       await waitFor(() => {
-        // Check for size classes (w-14 h-14)
-        const sizedElements = document.querySelectorAll('[class*="w-14"], [class*="h-14"]')
+        // Check for size classes (w-12 h-12)
+        const sizedElements = document.querySelectorAll('[class*="w-12"], [class*="h-12"]')
         expect(sizedElements.length).toBeGreaterThan(0)
       })
     })
@@ -639,6 +580,9 @@ describe('HomePage Component', () => {
       expect(likeButtons.length).toBeGreaterThan(0)
       expect(replyButtons.length).toBeGreaterThan(0)
       expect(shareButtons.length).toBeGreaterThan(0)
+
+      // Replies are not available on ParaSocial
+      expect(screen.getAllByTitle('Comments not available on ParaSocial')).toHaveLength(3)
     })
   })
 
@@ -649,10 +593,12 @@ describe('HomePage Component', () => {
       const buttons = screen.getAllByRole('button')
       expect(buttons.length).toBeGreaterThan(0)
       
-      // Test that buttons are clickable
-      buttons.forEach(button => {
-        expect(button).toBeEnabled()
-      })
+      // Test that buttons are clickable, apart from the unavailable replies
+      buttons
+        .filter(button => button.getAttribute('title') !== 'Comments not available on ParaSocial')
+        .forEach(button => {
+          expect(button).toBeEnabled()
+        })
     })
 
     it('should have load more functionality', () => {
@@ -783,4 +729,4 @@ describe('HomePage Error Handling', () => {
 })
 
 // frontend/src/app/__tests__/homePage.test.tsx
-// Version: 1.2.0 - Added comprehensive avatar fallback tests for new implementation
\ No newline at end of file
+// Version: 1.3.1 - Feed posts render through the shared post card
\ No newline at end of file
@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { put } from '@/lib/api'
+import { CONTENT_LABELS } from '@/lib/contentLabels'
+
+/**
+ * Props for ContentLabelPreferences component
+ */
+interface ContentLabelPreferencesProps {
+  /** Labels the reader already opens without a click */
+  initialLabels?: string[]
+  /** Called with the saved list after each change */
+  onSaved?: (labels: string[]) => void
+  /** Custom CSS classes */
+  className?: string
+}
+
+// Must match the key useAuth stores the token under
+const AUTH_TOKEN_KEY = 'auth-token'
+
+/**
+ * Reader setting for content labels to open without a click
+ * Each change is saved to the profile straight away and undone if the save fails.
+ * Posts with a free-text warning and no labels always wait for a click.
+ */
+export default function ContentLabelPreferences({
+  initialLabels = [],
+  onSaved,
+  className = ''
+}: ContentLabelPreferencesProps) {
+  const [labels, setLabels] = useState<string[]>(initialLabels)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Add or remove a label and save the new list
+   * @param label - Label value
+   */
+  const toggleLabel = async (label: string): Promise<void> => {
+    const previous = labels
+    const next = labels.indexOf(label) === -1
+      ? [...labels, label]
+      : labels.filter(item => item !== label)
+
+    setLabels(next)
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const token = localStorage.getItem(AUTH_TOKEN_KEY)
+      if (!token) {
+        throw new Error('Sign in to change your preferences')
+      }
+      await put('/api/users/profile', { autoExpandLabels: next }, { token })
+      onSaved?.(next)
+    } catch (err) {
+      setLabels(previous)
+      setError(err instanceof Error ? err.message : 'Failed to save preferences')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <fieldset className={`bg-white border border-gray-200 rounded-lg p-4 ${className}`} data-testid="content-label-preferences">
+      <legend className="sr-only">Content labels to open without a click</legend>
+      <p className="text-sm text-gray-600 mb-3">
+        Posts with only these labels open straight away, sensitive media included.
+      </p>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {CONTENT_LABELS.map(label => (
+          <label key={label.value} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={labels.indexOf(label.value) !== -1}
+              onChange={() => void toggleLabel(label.value)}
+              disabled={isSaving}
+              aria-label={`Open ${label.name} posts without a click`}
+            />
+            {label.name}
+          </label>
+        ))}
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin text-gray-400" aria-label="Saving" />}
+      </div>
+      {error && (
+        <p className="text-sm text-red-600 mt-2" role="alert">{error}</p>
+      )}
+    </fieldset>
+  )
+}
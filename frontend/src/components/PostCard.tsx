@@ -14,8 +14,11 @@ import {
   Trash2,
   Edit3,
   Flag,
-  Link2
+  Link2,
+  Loader2,
+  EyeOff
 } from 'lucide-react'
+import { getContentLabelName, labelsRequireSensitiveMedia, shouldAutoExpand } from '@/lib/contentLabels'
 
 /**
  * Post data interface
@@ -24,6 +27,7 @@ interface Post {
   id: string
   content: string
   contentWarning?: string | null
+  contentLabels?: string[]
   createdAt: string
   publishedAt?: string | null
   isScheduled?: boolean
@@ -35,14 +39,21 @@ interface Post {
     avatar?: string | null
     isVerified: boolean
     verificationTier?: string
+    followerCount?: number
   }
   media?: Array<{
     id: string
     url: string
+    thumbnailUrl?: string | null
+    previewUrl?: string | null
     altText?: string | null
+    sensitive?: boolean
     mimeType: string
     width?: number | null
     height?: number | null
+    posterUrl?: string | null
+    duration?: number | null
+    processingStatus?: 'PENDING' | 'PROCESSING' | 'READY' | 'FAILED'
   }>
 }
 
@@ -61,6 +72,47 @@ interface PostCardProps {
   className?: string
   showEngagement?: boolean
   showActions?: boolean
+  // Content labels the reader opens without a click
+  autoExpandLabels?: string[]
+}
+
+type PostMedia = NonNullable<Post['media']>[number]
+
+/**
+ * Cover shown over sensitive media until the reader asks to see it
+ * Still images show blurred; GIFs and videos show only a poster frame, if any,
+ * so nothing animates or flashes before the click
+ */
+function SensitiveMediaCover({
+  media,
+  onReveal
+}: {
+  media: PostMedia
+  onReveal: () => void
+}) {
+  const isStill = media.mimeType.startsWith('image/') && media.mimeType !== 'image/gif'
+  const backdrop = isStill ? media.thumbnailUrl || media.url : media.posterUrl
+
+  return (
+    <div className="relative h-48 overflow-hidden bg-gray-800" data-testid="sensitive-media-cover">
+      {backdrop && (
+        <img
+          src={backdrop}
+          alt=""
+          aria-hidden="true"
+          className="w-full h-full object-cover blur-2xl scale-110"
+        />
+      )}
+      <button
+        type="button"
+        onClick={onReveal}
+        className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-black/40 text-white text-sm font-medium hover:bg-black/50 transition-colors"
+      >
+        <EyeOff className="w-5 h-5" />
+        Show sensitive media
+      </button>
+    </div>
+  )
 }
 
 /**
@@ -150,13 +202,24 @@ export default function PostCard({
   onReport,
   className = '',
   showEngagement = true,
-  showActions = true
+  showActions = true,
+  autoExpandLabels = []
 }: PostCardProps) {
-  const [showFullContent, setShowFullContent] = useState(!post.contentWarning)
+  const contentLabels = post.contentLabels || []
+  const hasWarning = Boolean(post.contentWarning) || contentLabels.length > 0
+  const isAutoExpanded = shouldAutoExpand(contentLabels, autoExpandLabels)
+  const allMediaSensitive = labelsRequireSensitiveMedia(contentLabels)
+
+  const [showFullContent, setShowFullContent] = useState(!hasWarning || isAutoExpanded)
+  // Auto-expanded posts show their media too; the reader chose these labels
+  const [revealedMediaIds, setRevealedMediaIds] = useState<string[]>(() =>
+    isAutoExpanded ? (post.media || []).map(media => media.id) : []
+  )
   const [isLiked, setIsLiked] = useState(false)
   const [isBookmarked, setIsBookmarked] = useState(false)
   const [showDropdown, setShowDropdown] = useState(false)
   const [likeCount, setLikeCount] = useState(0)
+  const [avatarLoadError, setAvatarLoadError] = useState(false)
 
   /**
    * Format relative time (e.g., "2 hours ago")
@@ -179,6 +242,15 @@ export default function PostCard({
     })
   }
 
+  /**
+   * Format follower count (e.g., "12.5K")
+   */
+  const formatFollowerCount = (count: number) => {
+    if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`
+    if (count >= 1000) return `${(count / 1000).toFixed(1)}K`
+    return count.toString()
+  }
+
   /**
    * Format full timestamp for hover tooltip
    */
@@ -194,15 +266,17 @@ export default function PostCard({
   }
 
   /**
-   * Get user avatar or generate initials
+   * Get user avatar, or initials when there is none or it fails to load
    */
   const getAvatarContent = () => {
-    if (post.author.avatar) {
+    if (post.author.avatar && !avatarLoadError) {
       return (
         <img 
           src={post.author.avatar} 
           alt={`${post.author.displayName}'s avatar`}
           className="w-full h-full object-cover"
+          loading="lazy"
+          onError={() => setAvatarLoadError(true)}
         />
       )
     }
@@ -265,6 +339,12 @@ export default function PostCard({
     }
   }
 
+  /**
+   * Check whether media stays covered until the reader clicks
+   */
+  const isMediaCovered = (media: PostMedia) =>
+    (media.sensitive || allMediaSensitive) && revealedMediaIds.indexOf(media.id) === -1
+
   /**
    * Check if post is scheduled
    */
@@ -306,6 +386,12 @@ export default function PostCard({
               >
                 {formatRelativeTime(displayTime)}
               </time>
+              {post.author.followerCount !== undefined && (
+                <>
+                  <span>·</span>
+                  <span>{formatFollowerCount(post.author.followerCount)} followers</span>
+                </>
+              )}
               {isScheduledPost && (
                 <>
                   <span>·</span>
@@ -362,13 +448,24 @@ export default function PostCard({
       )}
 
       {/* Content Warning */}
-      {post.contentWarning && !showFullContent && (
+      {hasWarning && !showFullContent && (
         <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
           <div className="flex items-center gap-2 mb-2">
             <AlertTriangle className="w-4 h-4 text-amber-600" />
             <span className="font-medium text-amber-800">Content Warning</span>
           </div>
-          <p className="text-amber-700 text-sm mb-3">{post.contentWarning}</p>
+          {contentLabels.length > 0 && (
+            <ul className="flex flex-wrap gap-1 mb-2" aria-label="Content labels" data-testid="content-labels">
+              {contentLabels.map(label => (
+                <li key={label} className="px-2 py-0.5 bg-amber-100 text-amber-800 text-xs font-medium rounded-full">
+                  {getContentLabelName(label)}
+                </li>
+              ))}
+            </ul>
+          )}
+          {post.contentWarning && (
+            <p className="text-amber-700 text-sm mb-3">{post.contentWarning}</p>
+          )}
           <button
             onClick={() => setShowFullContent(true)}
             className="px-3 py-1 bg-amber-100 text-amber-800 text-sm font-medium rounded-md hover:bg-amber-200 transition-colors"
@@ -403,13 +500,57 @@ export default function PostCard({
                       post.media!.length === 3 && index === 0 ? 'col-span-2' : ''
                     }`}
                   >
-                    {media.mimeType.startsWith('image/') && (
-                      <img
-                        src={media.url}
-                        alt={media.altText || 'Post image'}
-                        className="w-full h-auto max-h-96 object-cover hover:scale-105 transition-transform duration-200 cursor-pointer"
-                        loading="lazy"
+                    {isMediaCovered(media) ? (
+                      <SensitiveMediaCover
+                        media={media}
+                        onReveal={() => setRevealedMediaIds(current => [...current, media.id])}
                       />
+                    ) : (
+                      <>
+                        {media.mimeType.startsWith('image/') && (
+                          <img
+                            src={media.previewUrl || media.url}
+                            {...(media.thumbnailUrl && media.previewUrl && {
+                              srcSet: `${media.thumbnailUrl} 400w, ${media.previewUrl} 1280w`,
+                              sizes: post.media!.length === 1 ? '(max-width: 640px) 100vw, 600px' : '(max-width: 640px) 50vw, 300px'
+                            })}
+                            {...(media.width && media.height && { width: media.width, height: media.height })}
+                            alt={media.altText || 'Post image'}
+                            className="w-full h-auto max-h-96 object-cover hover:scale-105 transition-transform duration-200 cursor-pointer"
+                            loading="lazy"
+                          />
+                        )}
+
+                        {/* Videos are transcoded after upload; show their state until they can play */}
+                        {media.mimeType.startsWith('video/') && (
+                          media.processingStatus === 'PENDING' || media.processingStatus === 'PROCESSING' ? (
+                            <div
+                              className="flex items-center justify-center gap-2 h-48 text-sm text-gray-500"
+                              role="status"
+                              data-testid="video-processing"
+                            >
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                              Processing video…
+                            </div>
+                          ) : media.processingStatus === 'FAILED' ? (
+                            <div className="flex items-center justify-center gap-2 h-48 text-sm text-gray-500">
+                              <AlertTriangle className="w-4 h-4" />
+                              This video could not be processed
+                            </div>
+                          ) : (
+                            <video
+                              src={media.url}
+                              {...(media.posterUrl && { poster: media.posterUrl })}
+                              {...(media.width && media.height && { width: media.width, height: media.height })}
+                              aria-label={media.altText || 'Post video'}
+                              className="w-full h-auto max-h-96 bg-black"
+                              controls
+                              playsInline
+                              preload="metadata"
+                            />
+                          )
+                        )}
+                      </>
                     )}
                     
                     {/* Show +N overlay for more than 4 images */}
@@ -434,7 +575,7 @@ export default function PostCard({
           )}
 
           {/* Content warning toggle (if content is shown) */}
-          {post.contentWarning && (
+          {hasWarning && (
             <button
               onClick={() => setShowFullContent(false)}
               className="mt-3 text-sm text-amber-600 hover:text-amber-700 font-medium"
@@ -461,6 +602,7 @@ export default function PostCard({
               <Heart className={`w-5 h-5 transition-transform ${
                 isLiked ? 'fill-current scale-110' : 'group-hover:scale-110'
               }`} />
+              <span className="sr-only">Like</span>
               <span className="text-sm font-medium">
                 {likeCount > 0 ? likeCount.toLocaleString() : ''}
               </span>
@@ -473,6 +615,7 @@ export default function PostCard({
               title="Comments not available on ParaSocial"
             >
               <MessageCircle className="w-5 h-5" />
+              <span className="sr-only">Reply</span>
               <span className="text-sm font-medium">0</span>
             </button>
 
@@ -482,6 +625,7 @@ export default function PostCard({
               className="flex items-center gap-2 px-3 py-2 rounded-full text-gray-400 hover:text-blue-500 hover:bg-blue-50 transition-all duration-200 group"
             >
               <Share className="w-5 h-5 group-hover:scale-110 transition-transform" />
+              <span className="sr-only">Share</span>
             </button>
           </div>
 
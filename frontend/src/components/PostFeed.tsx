@@ -1,34 +1,15 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { ChevronLeft, ChevronRight, AlertTriangle, Clock, Verified, MoreHorizontal, Heart, MessageCircle, Share, Bookmark } from 'lucide-react'
+import type { ComponentProps } from 'react'
+import { ChevronLeft, ChevronRight, AlertTriangle, Clock } from 'lucide-react'
+import PostCard from '@/components/PostCard'
+import { useAuth } from '@/contexts/AuthContext'
 
 /**
- * Post data interface
+ * Post data as the shared post card renders it
  */
-interface Post {
-  id: string
-  content: string
-  contentWarning?: string | null
-  createdAt: string
-  publishedAt?: string | null
-  author: {
-    id: string
-    username: string
-    displayName: string
-    avatar?: string | null
-    isVerified: boolean
-    verificationTier?: string
-  }
-  media?: Array<{
-    id: string
-    url: string
-    altText?: string | null
-    mimeType: string
-    width?: number | null
-    height?: number | null
-  }>
-}
+type Post = ComponentProps<typeof PostCard>['post']
 
 /**
  * API response interface
@@ -56,186 +37,6 @@ interface PostFeedProps {
   postsPerPage?: number
 }
 
-/**
- * Individual post card component
- */
-function PostCard({ post }: { post: Post }) {
-  const [showFullContent, setShowFullContent] = useState(!post.contentWarning)
-  const [isLiked, setIsLiked] = useState(false)
-  const [isBookmarked, setIsBookmarked] = useState(false)
-
-  /**
-   * Format relative time (e.g., "2 hours ago")
-   */
-  const formatRelativeTime = (dateString: string) => {
-    const date = new Date(dateString)
-    const now = new Date()
-    const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000)
-
-    if (diffInSeconds < 60) return 'now'
-    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m`
-    if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h`
-    if (diffInSeconds < 604800) return `${Math.floor(diffInSeconds / 86400)}d`
-    
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric',
-      year: date.getFullYear() !== now.getFullYear() ? 'numeric' : undefined
-    })
-  }
-
-  /**
-   * Get user avatar or generate initials
-   */
-  const getAvatarContent = () => {
-    if (post.author.avatar) {
-      return (
-        <img 
-          src={post.author.avatar} 
-          alt={`${post.author.displayName}'s avatar`}
-          className="w-full h-full object-cover"
-        />
-      )
-    }
-    
-    const initials = post.author.displayName
-      .split(' ')
-      .map(name => name[0])
-      .join('')
-      .toUpperCase()
-      .slice(0, 2)
-    
-    return (
-      <span className="text-white font-semibold text-sm">
-        {initials}
-      </span>
-    )
-  }
-
-  return (
-    <article className="bg-white border-b border-gray-200 p-6 hover:bg-gray-50/50 transition-colors duration-200">
-      {/* Header */}
-      <div className="flex items-start justify-between mb-3">
-        <div className="flex items-center gap-3">
-          {/* Avatar */}
-          <div className="w-12 h-12 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center flex-shrink-0 overflow-hidden">
-            {getAvatarContent()}
-          </div>
-          
-          {/* User Info */}
-          <div className="min-w-0 flex-1">
-            <div className="flex items-center gap-1">
-              <h3 className="font-semibold text-gray-900 truncate">
-                {post.author.displayName}
-              </h3>
-              {post.author.isVerified && (
-                <Verified className="w-4 h-4 text-blue-500 flex-shrink-0" />
-              )}
-            </div>
-            <div className="flex items-center gap-2 text-sm text-gray-500">
-              <span>@{post.author.username}</span>
-              <span>·</span>
-              <time dateTime={post.publishedAt || post.createdAt}>
-                {formatRelativeTime(post.publishedAt || post.createdAt)}
-              </time>
-            </div>
-          </div>
-        </div>
-
-        {/* More Menu */}
-        <button className="p-2 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600 transition-colors">
-          <MoreHorizontal className="w-5 h-5" />
-        </button>
-      </div>
-
-      {/* Content Warning */}
-      {post.contentWarning && !showFullContent && (
-        <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
-          <div className="flex items-center gap-2 mb-2">
-            <AlertTriangle className="w-4 h-4 text-amber-600" />
-            <span className="font-medium text-amber-800">Content Warning</span>
-          </div>
-          <p className="text-amber-700 text-sm mb-3">{post.contentWarning}</p>
-          <button
-            onClick={() => setShowFullContent(true)}
-            className="text-amber-800 text-sm font-medium hover:text-amber-900 transition-colors"
-          >
-            Show content
-          </button>
-        </div>
-      )}
-
-      {/* Post Content */}
-      {showFullContent && (
-        <div className="mb-4">
-          <p className="text-gray-900 text-base leading-relaxed whitespace-pre-wrap">
-            {post.content}
-          </p>
-          
-          {/* Media Attachments */}
-          {post.media && post.media.length > 0 && (
-            <div className="mt-4 grid gap-2">
-              {post.media.map((media) => (
-                <div key={media.id} className="relative rounded-xl overflow-hidden bg-gray-100">
-                  {media.mimeType.startsWith('image/') && (
-                    <img
-                      src={media.url}
-                      alt={media.altText || 'Post image'}
-                      className="w-full h-auto max-h-96 object-cover"
-                      loading="lazy"
-                    />
-                  )}
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-      )}
-
-      {/* Engagement Bar */}
-      <div className="flex items-center justify-between pt-3 border-t border-gray-100">
-        <div className="flex items-center gap-6">
-          {/* Like */}
-          <button
-            onClick={() => setIsLiked(!isLiked)}
-            className={`flex items-center gap-2 p-2 rounded-full transition-colors group ${
-              isLiked 
-                ? 'text-red-500' 
-                : 'text-gray-400 hover:text-red-500 hover:bg-red-50'
-            }`}
-          >
-            <Heart className={`w-5 h-5 ${isLiked ? 'fill-current' : ''}`} />
-            <span className="text-sm font-medium">0</span>
-          </button>
-
-          {/* Comment (disabled for ParaSocial) */}
-          <button className="flex items-center gap-2 p-2 rounded-full text-gray-300 cursor-not-allowed">
-            <MessageCircle className="w-5 h-5" />
-            <span className="text-sm font-medium">0</span>
-          </button>
-
-          {/* Share */}
-          <button className="flex items-center gap-2 p-2 rounded-full text-gray-400 hover:text-blue-500 hover:bg-blue-50 transition-colors">
-            <Share className="w-5 h-5" />
-          </button>
-        </div>
-
-        {/* Bookmark */}
-        <button
-          onClick={() => setIsBookmarked(!isBookmarked)}
-          className={`p-2 rounded-full transition-colors ${
-            isBookmarked 
-              ? 'text-blue-500' 
-              : 'text-gray-400 hover:text-blue-500 hover:bg-blue-50'
-          }`}
-        >
-          <Bookmark className={`w-5 h-5 ${isBookmarked ? 'fill-current' : ''}`} />
-        </button>
-      </div>
-    </article>
-  )
-}
-
 /**
  * Loading skeleton for posts
  */
@@ -272,6 +73,7 @@ export default function PostFeed({
   className = '',
   postsPerPage = 20
 }: PostFeedProps) {
+  const { user } = useAuth()
   const [posts, setPosts] = useState<Post[]>([])
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(0)
@@ -391,7 +193,7 @@ export default function PostFeed({
         {!loading && !error && posts.length > 0 && (
           <div>
             {posts.map((post) => (
-              <PostCard key={post.id} post={post} />
+              <PostCard key={post.id} post={post} autoExpandLabels={user?.autoExpandLabels} />
             ))}
           </div>
         )}
@@ -1,27 +1,32 @@
 // frontend/src/components/RateLimitStatus.tsx
-// Version: 1.0.0
-// Initial implementation of rate limit status display component
+// Version: 1.1.0
+// Rate limit status display component
+// Changed: Shows every policy with its window and the verification tier and role that set the user's limits
 
 'use client'
 
 import { useState, useEffect } from 'react'
-
-// Type definitions for rate limit information
-interface RateLimitInfo {
-  limit: number
-  remaining: number
-  reset: number
-  retryAfter?: string
+import {
+  parseRateLimitHeaders,
+  parseRateLimitTier,
+  type RateLimitInfo,
+  type RateLimits,
+  type RateLimitTier
+} from '@/hooks/useRateLimit'
+
+// Display names for verification tiers
+const TIER_LABELS: Record<string, string> = {
+  none: 'Unverified',
+  email: 'Email verified',
+  phone: 'Phone verified',
+  identity: 'Identity verified',
+  notable: 'Notable'
 }
 
-// Rate limit categories based on backend implementation
-interface RateLimits {
-  authentication: RateLimitInfo
-  postCreation: RateLimitInfo
-  followOperations: RateLimitInfo
-  mediaUpload: RateLimitInfo
-  general: RateLimitInfo
-  passwordReset: RateLimitInfo
+// Display names for roles with raised limits
+const ROLE_LABELS: Record<string, string> = {
+  moderator: 'Moderator',
+  admin: 'Admin'
 }
 
 // Props for the RateLimitStatus component
@@ -45,6 +50,7 @@ export default function RateLimitStatus({
   onLimitExceeded 
 }: RateLimitStatusProps) {
   const [rateLimits, setRateLimits] = useState<Partial<RateLimits>>({})
+  const [tier, setTier] = useState<RateLimitTier | null>(null)
   const [loading, setLoading] = useState<boolean>(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -61,35 +67,10 @@ export default function RateLimitStatus({
       })
 
       // Extract rate limit information from response headers
-      const rateLimitData: Partial<RateLimits> = {}
-
-      // Parse authentication rate limits
-      const authLimit = response.headers.get('ratelimit-limit-auth')
-      const authRemaining = response.headers.get('ratelimit-remaining-auth')
-      const authReset = response.headers.get('ratelimit-reset-auth')
-
-      if (authLimit && authRemaining && authReset) {
-        rateLimitData.authentication = {
-          limit: parseInt(authLimit),
-          remaining: parseInt(authRemaining),
-          reset: parseInt(authReset)
-        }
-      }
-
-      // Parse general API rate limits
-      const generalLimit = response.headers.get('ratelimit-limit')
-      const generalRemaining = response.headers.get('ratelimit-remaining')
-      const generalReset = response.headers.get('ratelimit-reset')
-
-      if (generalLimit && generalRemaining && generalReset) {
-        rateLimitData.general = {
-          limit: parseInt(generalLimit),
-          remaining: parseInt(generalRemaining),
-          reset: parseInt(generalReset)
-        }
-      }
+      const rateLimitData = parseRateLimitHeaders(response.headers)
 
       setRateLimits(rateLimitData)
+      setTier(parseRateLimitTier(response.headers))
 
       // Check for rate limit violations and notify parent
       Object.entries(rateLimitData).forEach(([cat, info]) => {
@@ -108,20 +89,8 @@ export default function RateLimitStatus({
 
   // Update rate limits when API responses include rate limit headers
   const updateFromResponse = (response: Response) => {
-    const limit = response.headers.get('ratelimit-limit')
-    const remaining = response.headers.get('ratelimit-remaining')
-    const reset = response.headers.get('ratelimit-reset')
-
-    if (limit && remaining && reset) {
-      setRateLimits(prev => ({
-        ...prev,
-        general: {
-          limit: parseInt(limit),
-          remaining: parseInt(remaining),
-          reset: parseInt(reset)
-        }
-      }))
-    }
+    const rateLimitData = parseRateLimitHeaders(response.headers)
+    setRateLimits(prev => ({ ...prev, ...rateLimitData }))
   }
 
   // Handle rate limit exceeded errors
@@ -163,6 +132,23 @@ export default function RateLimitStatus({
     return `${seconds}s`
   }
 
+  // Format a window length, e.g. "per minute" or "per 15 minutes"
+  const formatWindow = (windowMs: number): string => {
+    const units: [number, string][] = [[3600000, 'hour'], [60000, 'minute'], [1000, 'second']]
+    const [size, unit] = units.find(([unitMs]) => windowMs % unitMs === 0) ?? [1000, 'second']
+    const count = Math.round(windowMs / size)
+
+    return count === 1 ? `per ${unit}` : `per ${count} ${unit}s`
+  }
+
+  // Describe the tier and role the user's limits come from
+  const formatTier = (current: RateLimitTier): string => {
+    const tierLabel = TIER_LABELS[current.verificationTier] ?? current.verificationTier
+    const roleLabel = ROLE_LABELS[current.role]
+
+    return roleLabel ? `${tierLabel} · ${roleLabel}` : tierLabel
+  }
+
   // Get status color based on remaining requests
   const getStatusColor = (remaining: number, limit: number): string => {
     const percentage = (remaining / limit) * 100
@@ -216,6 +202,9 @@ export default function RateLimitStatus({
         <span className={getStatusColor(info.remaining, info.limit)}>
           {info.remaining}/{info.limit}
         </span>
+        {info.window !== undefined && (
+          <span className="text-gray-500">{formatWindow(info.window)}</span>
+        )}
         {info.remaining === 0 && (
           <span className="text-gray-500">
             (resets in {formatTimeUntilReset(info.reset)})
@@ -230,6 +219,11 @@ export default function RateLimitStatus({
     return (
       <div className="space-y-2">
         <h3 className="text-sm font-medium text-gray-900">Rate Limit Status</h3>
+        {tier && (
+          <p className="text-xs text-gray-500">
+            Your tier: <span className="font-medium text-gray-700">{formatTier(tier)}</span>
+          </p>
+        )}
         {Object.entries(rateLimits).map(([cat, info]) => (
           <div key={cat} className="flex justify-between items-center text-sm">
             <span className="text-gray-600 capitalize">
@@ -239,6 +233,9 @@ export default function RateLimitStatus({
               <span className={getStatusColor(info.remaining, info.limit)}>
                 {info.remaining}/{info.limit}
               </span>
+              {info.window !== undefined && (
+                <span className="text-gray-500 text-xs">{formatWindow(info.window)}</span>
+              )}
               {info.remaining === 0 && (
                 <span className="text-gray-500 text-xs">
                   {formatTimeUntilReset(info.reset)}
@@ -0,0 +1,58 @@
+// frontend/src/components/__tests__/ContentLabelPreferences.test.tsx
+// Reader content label preference tests: saving each change and undoing failed saves
+// Version: 1.0.0
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { render, screen, cleanup, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import '@testing-library/jest-dom'
+
+vi.mock('@/lib/api', () => ({
+  put: vi.fn()
+}))
+
+import { put } from '@/lib/api'
+import ContentLabelPreferences from '../ContentLabelPreferences'
+
+const mockPut = vi.mocked(put)
+
+describe('ContentLabelPreferences', () => {
+  beforeEach(() => {
+    vi.mocked(localStorage.getItem).mockReturnValue('token-1')
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.clearAllMocks()
+  })
+
+  it('should save the chosen labels to the profile', async () => {
+    const user = userEvent.setup()
+    const onSaved = vi.fn()
+    mockPut.mockResolvedValue({ data: {}, status: 200 })
+    render(<ContentLabelPreferences initialLabels={['spoilers']} onSaved={onSaved} />)
+
+    await user.click(screen.getByRole('checkbox', { name: /open violence posts/i }))
+
+    expect(mockPut).toHaveBeenCalledWith(
+      '/api/users/profile',
+      { autoExpandLabels: ['spoilers', 'violence'] },
+      { token: 'token-1' }
+    )
+    await waitFor(() => {
+      expect(onSaved).toHaveBeenCalledWith(['spoilers', 'violence'])
+    })
+    expect(screen.getByRole('checkbox', { name: /open violence posts/i })).toBeChecked()
+  })
+
+  it('should undo the change and show the error when saving fails', async () => {
+    const user = userEvent.setup()
+    mockPut.mockRejectedValue(new Error('HTTP Error 500'))
+    render(<ContentLabelPreferences initialLabels={['spoilers']} />)
+
+    await user.click(screen.getByRole('checkbox', { name: /open spoilers posts/i }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('HTTP Error 500')
+    expect(screen.getByRole('checkbox', { name: /open spoilers posts/i })).toBeChecked()
+  })
+})
@@ -0,0 +1,76 @@
+// frontend/src/components/__tests__/PostCard.media.test.tsx
+// Media attachment rendering tests for PostCard: image renditions and video processing states
+// Version: 1.0.0
+
+import { describe, it, expect, afterEach } from 'vitest'
+import type { ComponentProps } from 'react'
+import { render, screen, cleanup } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import PostCard from '../PostCard'
+
+type PostCardPost = ComponentProps<typeof PostCard>['post']
+type PostMedia = NonNullable<PostCardPost['media']>[number]
+
+// Minimal post with a single attachment
+const createPost = (media: Partial<PostMedia> & Pick<PostMedia, 'mimeType'>): PostCardPost => ({
+  id: 'post-1',
+  content: 'Look at this',
+  createdAt: '2025-06-01T12:00:00Z',
+  author: {
+    id: 'user-1',
+    username: 'creator',
+    displayName: 'Creator',
+    isVerified: false
+  },
+  media: [{ id: 'media-1', url: '/uploads/file-1', altText: null, ...media }]
+})
+
+describe('PostCard media', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('should load image renditions through srcSet', () => {
+    render(<PostCard post={createPost({
+      url: '/uploads/file-1.jpg',
+      thumbnailUrl: '/uploads/file-1-thumb.webp',
+      previewUrl: '/uploads/file-1-preview.webp',
+      mimeType: 'image/jpeg',
+      width: 2000,
+      height: 1000,
+      altText: 'A wide landscape'
+    })} />)
+
+    const image = screen.getByAltText('A wide landscape')
+    expect(image).toHaveAttribute('src', '/uploads/file-1-preview.webp')
+    expect(image).toHaveAttribute('srcset', '/uploads/file-1-thumb.webp 400w, /uploads/file-1-preview.webp 1280w')
+    expect(image).toHaveAttribute('width', '2000')
+  })
+
+  it('should show that a video is still processing', () => {
+    render(<PostCard post={createPost({ url: '/uploads/file-1.mov', mimeType: 'video/quicktime', processingStatus: 'PENDING' })} />)
+
+    expect(screen.getByTestId('video-processing')).toHaveTextContent('Processing video')
+    expect(document.querySelector('video')).toBeNull()
+  })
+
+  it('should play ready videos with their poster', () => {
+    render(<PostCard post={createPost({
+      url: '/uploads/file-1.mp4',
+      posterUrl: '/uploads/file-1-poster.jpg',
+      mimeType: 'video/mp4',
+      processingStatus: 'READY'
+    })} />)
+
+    const video = screen.getByLabelText('Post video')
+    expect(video).toHaveAttribute('src', '/uploads/file-1.mp4')
+    expect(video).toHaveAttribute('poster', '/uploads/file-1-poster.jpg')
+    expect(screen.queryByTestId('video-processing')).not.toBeInTheDocument()
+  })
+
+  it('should explain when a video could not be processed', () => {
+    render(<PostCard post={createPost({ url: '/uploads/file-1.mov', mimeType: 'video/quicktime', processingStatus: 'FAILED' })} />)
+
+    expect(screen.getByText('This video could not be processed')).toBeInTheDocument()
+  })
+})
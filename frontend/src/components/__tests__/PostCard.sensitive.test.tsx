@@ -0,0 +1,82 @@
+// frontend/src/components/__tests__/PostCard.sensitive.test.tsx
+// Content label and sensitive media tests for PostCard: click-through covers and reader auto-expansion
+// Version: 1.0.0
+
+import { describe, it, expect, afterEach } from 'vitest'
+import type { ComponentProps } from 'react'
+import { render, screen, cleanup, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import PostCard from '../PostCard'
+
+type PostCardPost = ComponentProps<typeof PostCard>['post']
+
+// Post with one still image and one GIF
+const createPost = (overrides: Partial<PostCardPost> = {}): PostCardPost => ({
+  id: 'post-1',
+  content: 'Storm footage from tonight',
+  createdAt: '2025-06-01T12:00:00Z',
+  author: {
+    id: 'user-1',
+    username: 'creator',
+    displayName: 'Creator',
+    isVerified: false
+  },
+  media: [
+    { id: 'media-1', url: '/uploads/sky.jpg', thumbnailUrl: '/uploads/sky-thumb.webp', altText: 'Dark sky', mimeType: 'image/jpeg' },
+    { id: 'media-2', url: '/uploads/strobe.gif', altText: 'Lightning strobe', mimeType: 'image/gif' }
+  ],
+  ...overrides
+})
+
+describe('PostCard sensitive content', () => {
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('should cover sensitive media until the reader clicks', () => {
+    const post = createPost()
+    post.media![1] = { ...post.media![1], sensitive: true }
+    render(<PostCard post={post} />)
+
+    expect(screen.getByAltText('Dark sky')).toBeInTheDocument()
+    expect(screen.queryByAltText('Lightning strobe')).not.toBeInTheDocument()
+    // GIFs get no blurred backdrop, so nothing animates behind the cover
+    expect(screen.getByTestId('sensitive-media-cover').querySelector('img')).toBeNull()
+
+    fireEvent.click(screen.getByRole('button', { name: /show sensitive media/i }))
+
+    expect(screen.getByAltText('Lightning strobe')).toBeInTheDocument()
+  })
+
+  it('should show labels in the warning and cover every attachment for flashing lights', () => {
+    render(<PostCard post={createPost({ contentLabels: ['flashing-lights'] })} />)
+
+    expect(screen.getByTestId('content-labels')).toHaveTextContent('Flashing lights')
+    expect(screen.queryByText('Storm footage from tonight')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: /show content/i }))
+
+    expect(screen.getByText('Storm footage from tonight')).toBeInTheDocument()
+    const [stillCover, gifCover] = screen.getAllByTestId('sensitive-media-cover')
+    expect(stillCover.querySelector('img')).toHaveAttribute('src', '/uploads/sky-thumb.webp')
+    expect(gifCover.querySelector('img')).toBeNull()
+  })
+
+  it('should open posts whose labels the reader chose, media included', () => {
+    render(<PostCard post={createPost({ contentLabels: ['flashing-lights'] })} autoExpandLabels={['flashing-lights']} />)
+
+    expect(screen.getByText('Storm footage from tonight')).toBeInTheDocument()
+    expect(screen.queryByTestId('sensitive-media-cover')).not.toBeInTheDocument()
+    expect(screen.getByAltText('Lightning strobe')).toBeInTheDocument()
+  })
+
+  it('should keep posts collapsed when any label was not chosen', () => {
+    render(<PostCard
+      post={createPost({ contentLabels: ['flashing-lights', 'spoilers'] })}
+      autoExpandLabels={['spoilers']}
+    />)
+
+    expect(screen.queryByText('Storm footage from tonight')).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /show content/i })).toBeInTheDocument()
+  })
+})
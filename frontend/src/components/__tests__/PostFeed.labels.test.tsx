@@ -0,0 +1,73 @@
+// frontend/src/components/__tests__/PostFeed.labels.test.tsx
+// Content label tests for PostFeed: feed posts warn on labels and open the ones the reader chose
+// Version: 1.0.0
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { render, screen, cleanup } from '@testing-library/react'
+import '@testing-library/jest-dom'
+
+const mockUseAuth = vi.fn()
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => mockUseAuth()
+}))
+
+import PostFeed from '../PostFeed'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+// Feed page holding one post labelled flashing lights, with no written warning
+const labelledFeed = {
+  success: true,
+  data: {
+    posts: [
+      {
+        id: 'post-1',
+        content: 'Storm footage from tonight',
+        contentLabels: ['flashing-lights'],
+        createdAt: '2025-06-01T12:00:00Z',
+        author: {
+          id: 'user-1',
+          username: 'creator',
+          displayName: 'Creator',
+          isVerified: false
+        },
+        media: [
+          { id: 'media-1', url: '/uploads/strobe.gif', altText: 'Lightning strobe', mimeType: 'image/gif' }
+        ]
+      }
+    ],
+    pagination: { currentPage: 1, totalPages: 1, totalPosts: 1, hasNext: false, hasPrev: false }
+  }
+}
+
+describe('PostFeed content labels', () => {
+  beforeEach(() => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => labelledFeed })
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.clearAllMocks()
+  })
+
+  it('should warn about labelled posts for signed-out readers', async () => {
+    mockUseAuth.mockReturnValue({ user: null })
+    render(<PostFeed />)
+
+    expect(await screen.findByTestId('content-labels')).toHaveTextContent('Flashing lights')
+    expect(screen.queryByText('Storm footage from tonight')).not.toBeInTheDocument()
+    expect(screen.queryByAltText('Lightning strobe')).not.toBeInTheDocument()
+  })
+
+  it('should open labelled posts the signed-in reader chose to auto-expand', async () => {
+    mockUseAuth.mockReturnValue({
+      user: { id: 'reader-1', email: 'reader@example.com', autoExpandLabels: ['flashing-lights'] }
+    })
+    render(<PostFeed />)
+
+    expect(await screen.findByText('Storm footage from tonight')).toBeInTheDocument()
+    expect(screen.getByAltText('Lightning strobe')).toBeInTheDocument()
+    expect(screen.queryByTestId('sensitive-media-cover')).not.toBeInTheDocument()
+  })
+})
@@ -1,6 +1,7 @@
 // frontend/src/components/__tests__/RateLimitStatus.test.tsx
-// Version: 1.0.0
+// Version: 1.1.0
 // Unit tests for RateLimitStatus component
+// Changed: Added tests for the tier line and per-policy windows
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { render, screen, waitFor, act } from '@testing-library/react'
@@ -306,6 +307,56 @@ describe('RateLimitStatus Component', () => {
     })
   })
 
+  describe('Tier And Windows', () => {
+    it('should show the tier and role that set the user\'s limits', async () => {
+      const headers = {
+        ...createRateLimitHeaders('1000', '990', '3600'),
+        'ratelimit-tier': 'notable',
+        'ratelimit-role': 'moderator'
+      }
+      mockFetch.mockResolvedValue(createMockResponse(headers))
+
+      render(<RateLimitStatus showAll={true} />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Notable · Moderator')).toBeInTheDocument()
+      })
+    })
+
+    it('should leave out the tier line for anonymous callers', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(createRateLimitHeaders('100', '75', '3600')))
+
+      render(<RateLimitStatus showAll={true} />)
+
+      await waitFor(() => {
+        expect(screen.getByText('75/100')).toBeInTheDocument()
+      })
+      expect(screen.queryByText(/Your tier/)).not.toBeInTheDocument()
+    })
+
+    it('should show each policy\'s window next to its allowance', async () => {
+      const headers = {
+        ...createRateLimitHeaders('100', '75', '3600', '5', '3', '60'),
+        'ratelimit-window': '60000',
+        'ratelimit-window-auth': '900000',
+        'ratelimit-limit-post': '30',
+        'ratelimit-remaining-post': '29',
+        'ratelimit-reset-post': '3600',
+        'ratelimit-window-post': '3600000'
+      }
+      mockFetch.mockResolvedValue(createMockResponse(headers))
+
+      render(<RateLimitStatus showAll={true} />)
+
+      await waitFor(() => {
+        expect(screen.getByText('29/30')).toBeInTheDocument()
+      })
+      expect(screen.getByText('per minute')).toBeInTheDocument()
+      expect(screen.getByText('per 15 minutes')).toBeInTheDocument()
+      expect(screen.getByText('per hour')).toBeInTheDocument()
+    })
+  })
+
   describe('Callback Functionality', () => {
     it('should call onLimitExceeded when rate limit is exhausted', async () => {
       const onLimitExceeded = vi.fn()
@@ -1,6 +1,6 @@
 // frontend/src/components/auth/LoginComponent.tsx
 // Fixed login component with proper success handling for localStorage and callbacks
-// Version: 1.3.0 - Added missing success handling logic to pass failing tests
+// Version: 1.4.0 - Added two-factor code step for accounts with TOTP enabled
 
 'use client'
 
@@ -15,6 +15,30 @@ interface LoginComponentProps {
   apiBaseUrl?: string
 }
 
+// Fields a login or two-factor verification can return
+interface LoginResult {
+  token?: string
+  user?: unknown
+  twoFactorRequired?: boolean
+  challengeToken?: string
+}
+
+// Login API response, with the result at the top level or nested under data
+interface LoginApiResponse extends LoginResult {
+  success?: boolean
+  data?: LoginResult
+  error?: string | { code?: string; message?: string }
+}
+
+/**
+ * Pull a readable message out of an API error response
+ * The API sends either a plain string or an { code, message } object
+ */
+function getErrorMessage(data: LoginApiResponse, fallback: string): string {
+  if (typeof data.error === 'string') return data.error
+  return data.error?.message || fallback
+}
+
 /**
  * Fixed LoginComponent with complete success handling logic
  * Includes error display, password toggle, loading states, and proper success handling
@@ -38,6 +62,10 @@ export default function LoginComponent({
   const [isLoading, setIsLoading] = useState(false)
   const [showPassword, setShowPassword] = useState(false)
 
+  // Two-factor step state, set when the password was accepted but a code is still needed
+  const [challengeToken, setChallengeToken] = useState<string>('')
+  const [twoFactorCode, setTwoFactorCode] = useState<string>('')
+
   /**
    * Handle input field changes and clear field-specific errors
    */
@@ -66,6 +94,35 @@ export default function LoginComponent({
     setShowPassword(prev => !prev)
   }
 
+  /**
+   * Store the token and report the logged-in user
+   * Accepts the payload at the top level or nested under data
+   */
+  const completeLogin = (data: LoginApiResponse) => {
+    const { token, user } = data.data ?? data
+
+    // Store token in localStorage with correct key name
+    if (token) {
+      localStorage.setItem('authToken', token)
+    }
+
+    // Call success callback with user data
+    if (onLoginSuccess && user) {
+      onLoginSuccess(user)
+    }
+  }
+
+  /**
+   * Show an error and report it to the parent
+   */
+  const reportError = (errorMessage: string) => {
+    setGeneralError(errorMessage)
+
+    if (onLoginError) {
+      onLoginError(errorMessage)
+    }
+  }
+
   /**
    * Handle form submission with validation and API call
    */
@@ -100,46 +157,159 @@ export default function LoginComponent({
         body: JSON.stringify(formData)
       })
 
-      const data = await response.json()
+      const data: LoginApiResponse = await response.json()
 
       if (response.ok && data.success) {
-        // FIXED: Handle successful login response
-        const { token, user } = data
-        
-        // Store token in localStorage with correct key name
-        if (token) {
-          localStorage.setItem('authToken', token)
-        }
-        
-        // Call success callback with user data
-        if (onLoginSuccess && user) {
-          onLoginSuccess(user)
+        const payload = data.data ?? data
+
+        // Password accepted, but the account needs a code before tokens are issued
+        if (payload.twoFactorRequired && payload.challengeToken) {
+          setChallengeToken(payload.challengeToken)
+          setTwoFactorCode('')
+          return
         }
+
+        completeLogin(data)
       } else {
         // Handle API error response
-        const errorMessage = data.error || 'Login failed'
-        setGeneralError(errorMessage)
-        
-        if (onLoginError) {
-          onLoginError(errorMessage)
-        }
+        reportError(getErrorMessage(data, 'Login failed'))
       }
     } catch (error) {
       // Handle network errors
-      const errorMessage = 'Something went wrong. Please try again.'
-      setGeneralError(errorMessage)
-      
-      if (onLoginError) {
-        onLoginError(errorMessage)
+      reportError('Something went wrong. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Submit the authenticator or recovery code for the pending challenge
+   */
+  const handleTwoFactorSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+
+    // Prevent multiple submissions
+    if (isLoading) return
+
+    setIsLoading(true)
+    setGeneralError('')
+
+    try {
+      const apiUrl = apiBaseUrl ?
+        `${apiBaseUrl}/api/auth/2fa/verify` :
+        '/api/auth/2fa/verify'
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ challengeToken, code: twoFactorCode.trim() })
+      })
+
+      const data: LoginApiResponse = await response.json()
+
+      if (response.ok && data.success) {
+        completeLogin(data)
+      } else if (typeof data.error === 'object' && data.error.code === 'INVALID_CHALLENGE') {
+        // The challenge expired, so the password has to be entered again
+        setChallengeToken('')
+        setTwoFactorCode('')
+        reportError('Your sign-in attempt expired. Please sign in again.')
+      } else {
+        reportError(getErrorMessage(data, 'Invalid authentication code'))
       }
+    } catch {
+      // Handle network errors
+      reportError('Something went wrong. Please try again.')
     } finally {
       setIsLoading(false)
     }
   }
 
+  /**
+   * Leave the code step and return to the email and password form
+   */
+  const cancelTwoFactor = () => {
+    setChallengeToken('')
+    setTwoFactorCode('')
+    setGeneralError('')
+  }
+
   // Check if form is valid
   const isFormValid = formData.email.trim() !== '' && formData.password.trim() !== ''
 
+  // Second step: ask for the code from the authenticator app
+  if (challengeToken) {
+    return (
+      <section className="login-container">
+        <header className="login-header">
+          <h1>Two-Factor Authentication</h1>
+          <p>Enter the 6-digit code from your authenticator app, or one of your recovery codes</p>
+        </header>
+
+        <form className="login-form" onSubmit={handleTwoFactorSubmit} noValidate>
+          {/* General error message */}
+          {generalError && (
+            <div className="error-message" role="alert">
+              ⚠️ {generalError}
+            </div>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="twoFactorCode" className="form-label">
+              Authentication Code
+            </label>
+            <input
+              id="twoFactorCode"
+              name="twoFactorCode"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              required
+              className="form-input"
+              placeholder="123456"
+              value={twoFactorCode}
+              onChange={(e) => {
+                setTwoFactorCode(e.target.value)
+                if (generalError) setGeneralError('')
+              }}
+              disabled={isLoading}
+            />
+          </div>
+
+          <button
+            type="submit"
+            className="submit-button focus:ring-2 focus:ring-blue-500"
+            disabled={twoFactorCode.trim() === '' || isLoading}
+            aria-label="Verify authentication code"
+          >
+            {isLoading ? (
+              <>
+                <span className="loading-spinner">⟳</span>
+                Verifying...
+              </>
+            ) : (
+              'Verify'
+            )}
+          </button>
+        </form>
+
+        <footer className="login-footer">
+          <button
+            type="button"
+            className="help-link focus:ring-2 focus:ring-blue-500"
+            onClick={cancelTwoFactor}
+            disabled={isLoading}
+          >
+            Back to sign in
+          </button>
+        </footer>
+      </section>
+    )
+  }
+
   return (
     <section className="login-container">
       <header className="login-header">
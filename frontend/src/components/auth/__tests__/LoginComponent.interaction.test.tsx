@@ -1,6 +1,6 @@
 // frontend/src/components/auth/__tests__/LoginComponent.interaction.test.tsx
 // Interaction tests for login component user actions and form behavior
-// Version: 1.4.0 - Fixed localStorage test to check setItem instead of getItem
+// Version: 1.5.0 - Added two-factor code step tests
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
@@ -410,4 +410,128 @@ describe('LoginComponent - User Interactions', () => {
       })
     })
   })
-})
\ No newline at end of file
+
+  /**
+   * Test the two-factor code step
+   */
+  describe('Two-Factor Authentication', () => {
+    /**
+     * Submit the email and password form and answer with a two-factor challenge
+     */
+    const signInWithChallenge = async (user: ReturnType<typeof userEvent.setup>) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          success: true,
+          data: { twoFactorRequired: true, challengeToken: 'challenge.token', expiresIn: 300 }
+        })
+      })
+
+      await user.type(screen.getByLabelText(/email address/i), 'test@example.com')
+      await user.type(screen.getByLabelText(/^password$/i), 'password123')
+      await user.click(screen.getByRole('button', { name: /sign in to your account/i }))
+
+      await waitFor(() => {
+        expect(screen.getByLabelText(/^authentication code$/i)).toBeInTheDocument()
+      })
+    }
+
+    it('should ask for a code instead of logging in when two-factor is required', async () => {
+      const user = userEvent.setup()
+      const mockOnSuccess = vi.fn()
+      render(<LoginComponent onLoginSuccess={mockOnSuccess} />)
+
+      await signInWithChallenge(user)
+
+      expect(screen.queryByLabelText(/email address/i)).not.toBeInTheDocument()
+      expect(localStorage.setItem).not.toHaveBeenCalled()
+      expect(mockOnSuccess).not.toHaveBeenCalled()
+    })
+
+    it('should send the challenge token and code, then complete the login', async () => {
+      const user = userEvent.setup()
+      const mockOnSuccess = vi.fn()
+      const mockUser = { id: 'user123', email: 'test@example.com' }
+      render(<LoginComponent onLoginSuccess={mockOnSuccess} apiBaseUrl="http://localhost:3001" />)
+
+      await signInWithChallenge(user)
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          success: true,
+          data: { user: mockUser, token: 'jwt.token', usedRecoveryCode: false }
+        })
+      })
+
+      await user.type(screen.getByLabelText(/^authentication code$/i), '123456')
+      await user.click(screen.getByRole('button', { name: /verify authentication code/i }))
+
+      await waitFor(() => {
+        expect(mockOnSuccess).toHaveBeenCalledWith(mockUser)
+      })
+      expect(mockFetch).toHaveBeenLastCalledWith('http://localhost:3001/api/auth/2fa/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeToken: 'challenge.token', code: '123456' })
+      })
+      expect(localStorage.setItem).toHaveBeenCalledWith('authToken', 'jwt.token')
+    })
+
+    it('should show an error and stay on the code step for a wrong code', async () => {
+      const user = userEvent.setup()
+      render(<LoginComponent />)
+
+      await signInWithChallenge(user)
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        json: async () => ({
+          success: false,
+          error: { code: 'INVALID_CODE', message: 'Invalid authentication code' }
+        })
+      })
+
+      await user.type(screen.getByLabelText(/^authentication code$/i), '000000')
+      await user.click(screen.getByRole('button', { name: /verify authentication code/i }))
+
+      await waitFor(() => {
+        expect(screen.getByRole('alert')).toHaveTextContent('Invalid authentication code')
+      })
+      expect(screen.getByLabelText(/^authentication code$/i)).toBeInTheDocument()
+    })
+
+    it('should return to the password form when the challenge has expired', async () => {
+      const user = userEvent.setup()
+      render(<LoginComponent />)
+
+      await signInWithChallenge(user)
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        json: async () => ({
+          success: false,
+          error: { code: 'INVALID_CHALLENGE', message: 'Login challenge is invalid or has expired' }
+        })
+      })
+
+      await user.type(screen.getByLabelText(/^authentication code$/i), '123456')
+      await user.click(screen.getByRole('button', { name: /verify authentication code/i }))
+
+      await waitFor(() => {
+        expect(screen.getByRole('alert')).toHaveTextContent(/sign-in attempt expired/i)
+      })
+      expect(screen.getByLabelText(/email address/i)).toBeInTheDocument()
+    })
+
+    it('should go back to the password form on request', async () => {
+      const user = userEvent.setup()
+      render(<LoginComponent />)
+
+      await signInWithChallenge(user)
+      await user.click(screen.getByRole('button', { name: /back to sign in/i }))
+
+      expect(screen.getByLabelText(/email address/i)).toBeInTheDocument()
+    })
+  })
+})
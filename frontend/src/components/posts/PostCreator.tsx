@@ -1,221 +1,533 @@
 // frontend/src/components/posts/PostCreator.tsx
-// Version: 1.0.0
-// Initial PostCreator component for creating posts with content warnings and scheduling
+// Version: 2.1.0
+// Broadcast composer with media, content warnings, timezone-aware scheduling and a live preview
+// Changed: Content labels in the warning section and a sensitive flag on each attachment
 
 'use client'
 
-import { useState } from 'react'
-import { Send, Calendar, AlertTriangle, Clock, X } from 'lucide-react'
+import { useState, useEffect, useRef } from 'react'
+import type { ComponentProps } from 'react'
+import {
+  Send,
+  Calendar,
+  AlertTriangle,
+  X,
+  ImagePlus,
+  Eye,
+  Save,
+  Loader2,
+  RotateCcw
+} from 'lucide-react'
+import PostCard from '@/components/PostCard'
+import SchedulePicker from '@/components/posts/SchedulePicker'
+import { useBroadcastDraft, BroadcastMedia } from '@/hooks/useBroadcastDraft'
+import { ACCEPTED_MEDIA_TYPES, POST_LIMITS, getCounterColor } from '@/lib/postLimits'
+import { CONTENT_LABELS, labelsRequireSensitiveMedia } from '@/lib/contentLabels'
+import {
+  ZonedDateTime,
+  formatInTimezone,
+  fromZonedDateTime,
+  getLocalTimezone,
+  toZonedDateTime
+} from '@/lib/scheduling'
 
 /**
- * Post form data interface for submission
+ * Post and author as the preview card takes them
  */
-interface PostFormData {
-  content: string
-  contentWarning: string
-  isScheduled: boolean
-  scheduledFor: string
+type PreviewPost = ComponentProps<typeof PostCard>['post']
+type PreviewAuthor = PreviewPost['author']
+
+/**
+ * File attached to the composer
+ * Files wait for a description before they are uploaded
+ */
+interface Attachment {
+  key: string
+  file: File
+  objectUrl: string
+  altText: string
+  sensitive: boolean
+  status: 'needs-alt' | 'uploading' | 'ready' | 'failed'
+  media: BroadcastMedia | null
+  error: string | null
 }
 
 /**
  * Props interface for PostCreator component
  */
 interface PostCreatorProps {
-  onSubmit?: (data: PostFormData) => Promise<void>
+  author: PreviewAuthor
+  onPublished?: (scheduledFor: Date | null) => void
   disabled?: boolean
   className?: string
   placeholder?: string
-  maxLength?: number
+}
+
+// Default schedule is an hour from now, so the picker opens on a sensible time
+const DEFAULT_SCHEDULE_LEAD_MS = 60 * 60 * 1000
+
+// Scheduled times must leave the server a minute to accept the request
+const MIN_SCHEDULE_LEAD_MS = 60 * 1000
+
+/**
+ * Describe why a file can't be attached
+ * @param file - Dropped or picked file
+ * @returns Message, or null if the file can be attached
+ */
+function checkFile(file: File): string | null {
+  if (ACCEPTED_MEDIA_TYPES.indexOf(file.type) === -1) {
+    return `${file.name} is not a supported image or video`
+  }
+  if (file.size > POST_LIMITS.mediaBytes) {
+    return `${file.name} is larger than 50MB`
+  }
+  return null
 }
 
 /**
- * PostCreator component for creating new posts
- * Supports content warnings, scheduling, and character limits
- * 
- * @param onSubmit - Callback function called when form is submitted
- * @param disabled - Whether the form should be disabled
+ * One attachment with its description prompt
+ */
+function AttachmentItem({
+  attachment,
+  disabled,
+  onAltTextChange,
+  onSensitiveChange,
+  onUpload,
+  onRemove
+}: {
+  attachment: Attachment
+  disabled: boolean
+  onAltTextChange: (altText: string) => void
+  onSensitiveChange: (sensitive: boolean) => void
+  onUpload: () => void
+  onRemove: () => void
+}) {
+  const isVideo = attachment.file.type.startsWith('video/')
+  const canEdit = attachment.status === 'needs-alt' || attachment.status === 'failed'
+
+  return (
+    <li className="flex gap-3 p-3 border border-gray-200 rounded-lg" data-testid="media-attachment">
+      <div className="w-20 h-20 flex-shrink-0 rounded-md overflow-hidden bg-gray-100">
+        {isVideo ? (
+          <video src={attachment.objectUrl} className="w-full h-full object-cover" muted />
+        ) : (
+          <img src={attachment.objectUrl} alt="" className="w-full h-full object-cover" />
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <span className="text-sm font-medium text-gray-700 truncate">{attachment.file.name}</span>
+          <button
+            type="button"
+            onClick={onRemove}
+            className="text-gray-400 hover:text-red-600 transition-colors"
+            aria-label={`Remove ${attachment.file.name}`}
+            disabled={disabled}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {canEdit ? (
+          <>
+            <label className="block text-xs text-gray-600 mb-1" htmlFor={`alt-${attachment.key}`}>
+              Describe this {isVideo ? 'video' : 'image'} for people who can&apos;t see it (required)
+            </label>
+            <textarea
+              id={`alt-${attachment.key}`}
+              value={attachment.altText}
+              onChange={e => onAltTextChange(e.target.value.slice(0, POST_LIMITS.altText))}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+              rows={2}
+              disabled={disabled}
+              aria-label={`Alt text for ${attachment.file.name}`}
+            />
+            <div className="flex items-center justify-between mt-1">
+              <button
+                type="button"
+                onClick={onUpload}
+                disabled={disabled || !attachment.altText.trim()}
+                className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+              >
+                {attachment.status === 'failed' && <RotateCcw className="w-3 h-3" />}
+                {attachment.status === 'failed' ? 'Retry upload' : 'Add description'}
+              </button>
+              <span className={`text-xs ${getCounterColor(attachment.altText.length, POST_LIMITS.altText)}`}>
+                {attachment.altText.length}/{POST_LIMITS.altText}
+              </span>
+            </div>
+            <label className="flex items-center gap-2 mt-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={attachment.sensitive}
+                onChange={e => onSensitiveChange(e.target.checked)}
+                disabled={disabled}
+                aria-label={`Mark ${attachment.file.name} as sensitive`}
+              />
+              Sensitive: hide until readers click
+            </label>
+            {attachment.error && (
+              <p className="text-xs text-red-600 mt-1" role="alert">{attachment.error}</p>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-gray-500 flex items-center gap-1">
+            {attachment.status === 'uploading' && <Loader2 className="w-3 h-3 animate-spin" />}
+            {attachment.status === 'uploading' ? 'Uploading…' : attachment.altText}
+            {attachment.sensitive && (
+              <span className="ml-1 px-1.5 py-0.5 bg-amber-100 text-amber-800 rounded">Sensitive</span>
+            )}
+          </p>
+        )}
+      </div>
+    </li>
+  )
+}
+
+/**
+ * PostCreator component
+ * The dashboard's broadcast composer. Files can be dropped or picked and are
+ * uploaded once they have a description. The draft is saved to the server as
+ * the creator types, and the preview uses the same PostCard readers see.
+ *
+ * @param author - Signed-in creator, shown in the preview
+ * @param onPublished - Called after publishing, with the schedule time if scheduled
+ * @param disabled - Whether the composer should be disabled
  * @param className - Additional CSS classes for the container
  * @param placeholder - Placeholder text for the main content area
- * @param maxLength - Maximum character length for post content
  */
-export default function PostCreator({ 
-  onSubmit, 
-  disabled = false, 
+export default function PostCreator({
+  author,
+  onPublished,
+  disabled = false,
   className = '',
-  placeholder = "What's happening?",
-  maxLength = 5000 
+  placeholder = "What's happening?"
 }: PostCreatorProps) {
   // Form state management
   const [content, setContent] = useState('')
   const [contentWarning, setContentWarning] = useState('')
+  const [contentLabels, setContentLabels] = useState<string[]>([])
   const [showContentWarning, setShowContentWarning] = useState(false)
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const [mediaError, setMediaError] = useState<string | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
   const [isScheduled, setIsScheduled] = useState(false)
-  const [scheduledFor, setScheduledFor] = useState('')
+  const [timezone, setTimezone] = useState(getLocalTimezone)
+  const [scheduleValue, setScheduleValue] = useState<ZonedDateTime>({ date: '', time: '' })
+  const [showPreview, setShowPreview] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const nextKeyRef = useRef(0)
+  const attachmentsRef = useRef<Attachment[]>([])
+  attachmentsRef.current = attachments
 
-  // Constants for validation
-  const MAX_CONTENT_LENGTH = maxLength
-  const MAX_WARNING_LENGTH = 200
-  
-  // Calculate character counts and validation states
+  const { saveStatus, lastSavedAt, error: draftError, queueAutosave, saveDraft, uploadMedia, publish } = useBroadcastDraft()
+
+  // Validation against the limits the server enforces
   const contentLength = content.length
   const warningLength = contentWarning.length
-  const isContentValid = contentLength > 0 && contentLength <= MAX_CONTENT_LENGTH
-  const isWarningValid = !showContentWarning || warningLength <= MAX_WARNING_LENGTH
-  const isScheduleValid = !isScheduled || (scheduledFor && new Date(scheduledFor) > new Date())
-  const canSubmit = isContentValid && isWarningValid && isScheduleValid && !isSubmitting
+  const mediaIds = attachments.flatMap(attachment => attachment.media ? [attachment.media.id] : [])
+  const allMediaReady = attachments.every(attachment => attachment.status === 'ready')
+  const scheduledFor = isScheduled ? fromZonedDateTime(scheduleValue, timezone) : null
+  const scheduleError = !isScheduled ? null
+    : !scheduledFor ? 'Pick a date and time'
+    : scheduledFor.getTime() < Date.now() + MIN_SCHEDULE_LEAD_MS ? 'Pick a time in the future'
+    : null
+
+  const isContentValid = content.trim().length > 0 && contentLength <= POST_LIMITS.content
+  const isWarningValid = !showContentWarning || warningLength <= POST_LIMITS.contentWarning
+  const canSubmit = isContentValid && isWarningValid && allMediaReady && !scheduleError && !isSubmitting && !disabled
+
+  const draft = {
+    content,
+    contentWarning: showContentWarning ? contentWarning : '',
+    contentLabels: showContentWarning ? contentLabels : [],
+    mediaIds
+  }
+  const mediaKey = mediaIds.join(',')
+  const labelKey = draft.contentLabels.join(',')
+
+  // Save to the server once typing pauses
+  useEffect(() => {
+    queueAutosave({
+      content,
+      contentWarning: showContentWarning ? contentWarning : '',
+      contentLabels: labelKey ? labelKey.split(',') : [],
+      mediaIds: mediaKey ? mediaKey.split(',') : []
+    })
+  }, [content, contentWarning, showContentWarning, labelKey, mediaKey, queueAutosave])
+
+  // Release previews of whatever is still attached when the composer goes away
+  useEffect(() => {
+    return () => {
+      attachmentsRef.current.forEach(attachment => URL.revokeObjectURL(attachment.objectUrl))
+    }
+  }, [])
 
   /**
-   * Get minimum datetime for scheduling (current time + 5 minutes)
-   * Prevents scheduling posts in the immediate past
+   * Update one attachment
+   * @param key - Attachment key
+   * @param changes - Fields to change
    */
-  const getMinScheduleTime = (): string => {
-    const now = new Date()
-    now.setMinutes(now.getMinutes() + 5)
-    return now.toISOString().slice(0, 16)
+  const updateAttachment = (key: string, changes: Partial<Attachment>): void => {
+    setAttachments(current => current.map(attachment =>
+      attachment.key === key ? { ...attachment, ...changes } : attachment
+    ))
   }
 
   /**
-   * Handle form submission
-   * Validates data and calls onSubmit callback if provided
+   * Attach dropped or picked files, up to the attachment limit
+   * Each file then waits for its description
+   * @param files - Files to attach
    */
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault()
-    
-    if (!canSubmit || !onSubmit) return
-
-    setIsSubmitting(true)
+  const addFiles = (files: FileList | File[]): void => {
+    const list = Array.from(files)
+    const room = POST_LIMITS.mediaAttachments - attachments.length
+    const problems: string[] = []
+    const added: Attachment[] = []
 
-    try {
-      const formData: PostFormData = {
-        content: content.trim(),
-        contentWarning: showContentWarning ? contentWarning.trim() : '',
-        isScheduled,
-        scheduledFor: isScheduled ? scheduledFor : ''
+    for (const file of list) {
+      const problem = checkFile(file)
+      if (problem) {
+        problems.push(problem)
+      } else if (added.length < room) {
+        added.push({
+          key: `attachment-${nextKeyRef.current++}`,
+          file,
+          objectUrl: URL.createObjectURL(file),
+          altText: '',
+          sensitive: false,
+          status: 'needs-alt',
+          media: null,
+          error: null
+        })
+      } else {
+        problems.push(`Posts can have at most ${POST_LIMITS.mediaAttachments} attachments`)
+        break
       }
+    }
 
-      await onSubmit(formData)
-      
-      // Reset form after successful submission
-      resetForm()
+    setMediaError(problems.length > 0 ? problems.join('. ') : null)
+    if (added.length > 0) {
+      setAttachments(current => [...current, ...added])
+    }
+  }
+
+  /**
+   * Upload an attachment now that it has a description
+   * @param attachment - Attachment to upload
+   */
+  const uploadAttachment = async (attachment: Attachment): Promise<void> => {
+    updateAttachment(attachment.key, { status: 'uploading', error: null })
+    try {
+      const media = await uploadMedia(attachment.file, attachment.altText, attachment.sensitive)
+      updateAttachment(attachment.key, { status: 'ready', media })
     } catch (error) {
-      console.error('Error submitting post:', error)
-      // Note: Error handling should be implemented by parent component
-      // via onSubmit callback rejection
-    } finally {
-      setIsSubmitting(false)
+      updateAttachment(attachment.key, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Upload failed'
+      })
     }
   }
 
   /**
-   * Reset form to initial state
-   * Called after successful submission
+   * Remove an attachment; the next save detaches it from the draft
+   * @param attachment - Attachment to remove
    */
-  const resetForm = (): void => {
-    setContent('')
-    setContentWarning('')
-    setShowContentWarning(false)
-    setIsScheduled(false)
-    setScheduledFor('')
+  const removeAttachment = (attachment: Attachment): void => {
+    URL.revokeObjectURL(attachment.objectUrl)
+    setAttachments(current => current.filter(item => item.key !== attachment.key))
+  }
+
+  /**
+   * Handle files dropped anywhere on the composer
+   */
+  const handleDrop = (e: React.DragEvent<HTMLFormElement>): void => {
+    e.preventDefault()
+    setIsDragging(false)
+    if (!disabled && !isSubmitting && e.dataTransfer.files.length > 0) {
+      addFiles(e.dataTransfer.files)
+    }
+  }
+
+  /**
+   * Handle files picked with the attach button
+   */
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    if (e.target.files) {
+      addFiles(e.target.files)
+    }
+    // Allow picking the same file again after removing it
+    e.target.value = ''
   }
 
   /**
    * Toggle content warning section visibility
    */
   const toggleContentWarning = (): void => {
-    setShowContentWarning(!showContentWarning)
     if (showContentWarning) {
       setContentWarning('')
+      setContentLabels([])
     }
+    setShowContentWarning(!showContentWarning)
   }
 
   /**
-   * Toggle post scheduling section visibility
+   * Add or remove a content label
+   * @param label - Label value
    */
-  const toggleScheduled = (): void => {
-    setIsScheduled(!isScheduled)
-    if (isScheduled) {
-      setScheduledFor('')
-    }
+  const toggleContentLabel = (label: string): void => {
+    setContentLabels(current => current.indexOf(label) === -1
+      ? [...current, label]
+      : current.filter(item => item !== label))
   }
 
   /**
-   * Handle content textarea change
-   * Updates content state and ensures character limit
+   * Toggle scheduling, starting an hour from now in the chosen timezone
    */
-  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>): void => {
-    const newContent = e.target.value
-    if (newContent.length <= MAX_CONTENT_LENGTH) {
-      setContent(newContent)
+  const toggleScheduled = (): void => {
+    if (!isScheduled) {
+      setScheduleValue(toZonedDateTime(new Date(Date.now() + DEFAULT_SCHEDULE_LEAD_MS), timezone))
     }
+    setIsScheduled(!isScheduled)
   }
 
   /**
-   * Handle content warning input change
-   * Updates warning state and ensures character limit
+   * Reset form to initial state
+   * Called after successful submission
    */
-  const handleWarningChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
-    const newWarning = e.target.value
-    if (newWarning.length <= MAX_WARNING_LENGTH) {
-      setContentWarning(newWarning)
-    }
+  const resetForm = (): void => {
+    attachments.forEach(attachment => URL.revokeObjectURL(attachment.objectUrl))
+    setContent('')
+    setContentWarning('')
+    setContentLabels([])
+    setShowContentWarning(false)
+    setAttachments([])
+    setMediaError(null)
+    setIsScheduled(false)
+    setShowPreview(false)
   }
 
   /**
-   * Handle schedule datetime input change
+   * Handle form submission
+   * Publishes now or schedules, then clears the composer
    */
-  const handleScheduleChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
-    setScheduledFor(e.target.value)
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault()
+    if (!canSubmit) return
+
+    setIsSubmitting(true)
+    setSubmitError(null)
+    setNotice(null)
+
+    try {
+      await publish(draft, scheduledFor)
+      resetForm()
+      setNotice(scheduledFor ? `Scheduled for ${formatInTimezone(scheduledFor, timezone)}` : 'Published')
+      onPublished?.(scheduledFor)
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : 'Failed to publish post')
+    } finally {
+      setIsSubmitting(false)
+    }
   }
 
+  // Post as readers will see it; attachments not uploaded yet use the local file
+  const previewPost: PreviewPost = {
+    id: 'preview',
+    content,
+    contentWarning: showContentWarning && contentWarning.trim() ? contentWarning.trim() : null,
+    contentLabels: draft.contentLabels,
+    createdAt: new Date().toISOString(),
+    isScheduled: scheduledFor !== null,
+    scheduledFor: scheduledFor ? scheduledFor.toISOString() : null,
+    author,
+    media: attachments.map(attachment => attachment.media
+      ? { ...attachment.media, altText: attachment.altText, sensitive: attachment.sensitive }
+      : {
+          id: attachment.key,
+          url: attachment.objectUrl,
+          altText: attachment.altText,
+          sensitive: attachment.sensitive,
+          mimeType: attachment.file.type,
+          processingStatus: 'READY' as const
+        })
+  }
+
+  const isBusy = disabled || isSubmitting
+
   return (
-    <div 
-      className={`bg-white border border-gray-200 rounded-lg shadow-sm ${className}`} 
+    <div
+      className={`bg-white border border-gray-200 rounded-lg shadow-sm ${className}`}
       data-testid="post-creator"
     >
-      <form onSubmit={handleSubmit} data-testid="post-creator-form">
+      <form
+        onSubmit={handleSubmit}
+        onDragOver={e => { e.preventDefault(); setIsDragging(true) }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className="relative"
+        data-testid="post-creator-form"
+      >
+        {/* Drop overlay */}
+        {isDragging && (
+          <div
+            className="absolute inset-0 z-10 flex items-center justify-center bg-blue-50/90 border-2 border-dashed border-blue-400 rounded-lg"
+            data-testid="media-drop-overlay"
+          >
+            <span className="text-blue-700 font-medium">Drop images or videos to attach</span>
+          </div>
+        )}
+
         {/* Content Warning Section */}
         {showContentWarning && (
-          <div 
-            className="bg-amber-50 border-b border-amber-200 p-3" 
+          <div
+            className="bg-amber-50 border-b border-amber-200 p-3"
             data-testid="content-warning-section"
           >
-            <div className="flex items-center justify-between mb-2">
-              <div className="flex items-center gap-2">
-                <AlertTriangle className="w-4 h-4 text-amber-600" />
-                <span className="text-sm font-medium text-amber-800">Content Warning</span>
-              </div>
-              <button
-                type="button"
-                onClick={toggleContentWarning}
-                className="text-amber-600 hover:text-amber-800 transition-colors"
-                data-testid="remove-content-warning-btn"
-                aria-label="Remove content warning"
-              >
-                <X className="w-4 h-4" />
-              </button>
-            </div>
             <input
               type="text"
               value={contentWarning}
-              onChange={handleWarningChange}
+              onChange={e => setContentWarning(e.target.value.slice(0, POST_LIMITS.contentWarning))}
               placeholder="Describe the potentially sensitive content..."
               className="w-full px-3 py-2 border border-amber-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
-              disabled={disabled || isSubmitting}
+              disabled={isBusy}
               data-testid="content-warning-input"
-              aria-label="Content warning description"
+              aria-label="Content warning text"
             />
             <div className="flex justify-between items-center mt-1">
               <p className="text-xs text-amber-600">
                 This warning will be shown before your post content
               </p>
-              <span className={`text-xs font-medium ${
-                warningLength > MAX_WARNING_LENGTH * 0.8 
-                  ? 'text-amber-600' : 'text-amber-500'
-              }`}>
-                {warningLength}/{MAX_WARNING_LENGTH}
+              <span className={`text-xs font-medium ${getCounterColor(warningLength, POST_LIMITS.contentWarning)}`}>
+                {warningLength}/{POST_LIMITS.contentWarning}
               </span>
             </div>
+            <fieldset className="mt-2" data-testid="content-label-options">
+              <legend className="text-xs font-medium text-amber-800 mb-1">Content labels</legend>
+              <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {CONTENT_LABELS.map(label => (
+                  <label key={label.value} className="flex items-center gap-1 text-xs text-amber-800">
+                    <input
+                      type="checkbox"
+                      checked={contentLabels.indexOf(label.value) !== -1}
+                      onChange={() => toggleContentLabel(label.value)}
+                      disabled={isBusy}
+                    />
+                    {label.name}
+                  </label>
+                ))}
+              </div>
+              {labelsRequireSensitiveMedia(contentLabels) && (
+                <p className="text-xs text-amber-700 mt-1" data-testid="sensitive-media-notice">
+                  Every attachment will stay hidden until readers click to see it
+                </p>
+              )}
+            </fieldset>
           </div>
         )}
 
@@ -223,135 +535,229 @@ export default function PostCreator({
         <div className="relative">
           <textarea
             value={content}
-            onChange={handleContentChange}
+            onChange={e => setContent(e.target.value.slice(0, POST_LIMITS.content))}
             placeholder={placeholder}
-            className="w-full min-h-[120px] p-4 text-lg border-0 resize-none focus:outline-none placeholder-gray-400"
-            disabled={disabled || isSubmitting}
+            className="w-full min-h-[120px] p-4 pb-8 text-lg border-0 resize-none focus:outline-none placeholder-gray-400"
+            disabled={isBusy}
             data-testid="content-textarea"
-            aria-label="Post content"
+            aria-label="Compose new post"
           />
-          
+
           {/* Character Counter */}
           <div className="absolute bottom-3 right-3">
-            <div 
-              className={`text-sm font-medium ${
-                contentLength > MAX_CONTENT_LENGTH * 0.9 
-                  ? 'text-red-500' 
-                  : contentLength > MAX_CONTENT_LENGTH * 0.7 
-                  ? 'text-amber-500' 
-                  : 'text-gray-400'
-              }`}
+            <div
+              className={`text-sm font-medium ${getCounterColor(contentLength, POST_LIMITS.content)}`}
               data-testid="character-counter"
             >
-              {contentLength}/{MAX_CONTENT_LENGTH}
+              {contentLength}/{POST_LIMITS.content}
             </div>
           </div>
         </div>
 
+        {/* Attachments */}
+        {attachments.length > 0 && (
+          <ul className="px-4 pb-3 space-y-2" data-testid="media-attachment-list">
+            {attachments.map(attachment => (
+              <AttachmentItem
+                key={attachment.key}
+                attachment={attachment}
+                disabled={isBusy}
+                onAltTextChange={altText => updateAttachment(attachment.key, { altText })}
+                onSensitiveChange={sensitive => updateAttachment(attachment.key, { sensitive })}
+                onUpload={() => void uploadAttachment(attachment)}
+                onRemove={() => removeAttachment(attachment)}
+              />
+            ))}
+          </ul>
+        )}
+        {mediaError && (
+          <p className="px-4 pb-3 text-sm text-red-600" role="alert" data-testid="media-error">
+            {mediaError}
+          </p>
+        )}
+
         {/* Schedule Section */}
         {isScheduled && (
-          <div 
-            className="bg-blue-50 border border-blue-200 rounded-lg p-3 mx-4 mb-3" 
-            data-testid="schedule-section"
-          >
-            <div className="flex items-center justify-between mb-2">
-              <div className="flex items-center gap-2">
-                <Clock className="w-4 h-4 text-blue-600" />
-                <span className="text-sm font-medium text-blue-800">Schedule Post</span>
-              </div>
+          <SchedulePicker
+            value={scheduleValue}
+            timezone={timezone}
+            onChange={setScheduleValue}
+            onTimezoneChange={setTimezone}
+            onRemove={toggleScheduled}
+            error={scheduleError}
+            disabled={isBusy}
+          />
+        )}
+
+        {/* Action Bar */}
+        <div className="flex flex-wrap items-center justify-between gap-2 pt-3 border-t border-gray-100 p-4">
+          {/* Left side - Additional options */}
+          <div className="flex items-center gap-2">
+            <div data-testid="media-attachment-controls">
               <button
                 type="button"
-                onClick={toggleScheduled}
-                className="text-blue-600 hover:text-blue-800 transition-colors"
-                data-testid="remove-schedule-btn"
-                aria-label="Remove schedule"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy || attachments.length >= POST_LIMITS.mediaAttachments}
+                className="p-2 rounded-full text-gray-400 hover:bg-gray-100 hover:text-blue-600 transition-colors disabled:opacity-50"
+                title="Attach media"
+                aria-label="Attach media"
               >
-                <X className="w-4 h-4" />
+                <ImagePlus className="w-5 h-5" />
               </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_MEDIA_TYPES.join(',')}
+                multiple
+                onChange={handleFileChange}
+                className="hidden"
+                data-testid="media-file-input"
+              />
             </div>
-            <input
-              type="datetime-local"
-              value={scheduledFor}
-              onChange={handleScheduleChange}
-              min={getMinScheduleTime()}
-              className="w-full px-3 py-2 border border-blue-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              data-testid="schedule-input"
-              aria-label="Schedule date and time"
-            />
-            <p className="text-xs text-blue-600 mt-1">
-              Your post will be published automatically at the scheduled time
-            </p>
-          </div>
-        )}
 
-        {/* Action Bar */}
-        <div className="flex items-center justify-between pt-3 border-t border-gray-100 p-4">
-          {/* Left side - Additional options */}
-          <div className="flex items-center gap-2">
-            <button
-              type="button"
-              onClick={toggleContentWarning}
-              className={`p-2 rounded-full transition-colors ${
-                showContentWarning 
-                  ? 'bg-amber-100 text-amber-600' 
+            <label
+              className={`p-2 rounded-full cursor-pointer transition-colors ${
+                showContentWarning
+                  ? 'bg-amber-100 text-amber-600'
                   : 'text-gray-400 hover:bg-gray-100 hover:text-amber-600'
               }`}
               title="Add content warning"
-              data-testid="content-warning-btn"
-              aria-label="Add content warning"
             >
+              <input
+                type="checkbox"
+                checked={showContentWarning}
+                onChange={toggleContentWarning}
+                disabled={isBusy}
+                className="sr-only"
+                data-testid="content-warning-toggle"
+                aria-label="Add content warning"
+              />
               <AlertTriangle className="w-5 h-5" />
-            </button>
-            
+            </label>
+
+            <div data-testid="publishing-scheduler">
+              <button
+                type="button"
+                onClick={toggleScheduled}
+                disabled={isBusy}
+                className={`p-2 rounded-full transition-colors ${
+                  isScheduled
+                    ? 'bg-blue-100 text-blue-600'
+                    : 'text-gray-400 hover:bg-gray-100 hover:text-blue-600'
+                }`}
+                title="Schedule post"
+                aria-label="Schedule post"
+                aria-pressed={isScheduled}
+                data-testid="schedule-btn"
+              >
+                <Calendar className="w-5 h-5" />
+              </button>
+            </div>
+
             <button
               type="button"
-              onClick={toggleScheduled}
+              onClick={() => setShowPreview(!showPreview)}
               className={`p-2 rounded-full transition-colors ${
-                isScheduled 
-                  ? 'bg-blue-100 text-blue-600' 
-                  : 'text-gray-400 hover:bg-gray-100 hover:text-blue-600'
+                showPreview
+                  ? 'bg-purple-100 text-purple-600'
+                  : 'text-gray-400 hover:bg-gray-100 hover:text-purple-600'
               }`}
-              title="Schedule post"
-              data-testid="schedule-btn"
-              aria-label="Schedule post"
+              title="Preview"
+              aria-label="Preview post"
+              aria-pressed={showPreview}
+              data-testid="preview-btn"
             >
-              <Calendar className="w-5 h-5" />
+              <Eye className="w-5 h-5" />
             </button>
           </div>
 
-          {/* Right side - Submit button */}
-          <button
-            type="submit"
-            disabled={!canSubmit || disabled}
-            className={`
-              flex items-center gap-2 px-6 py-2 rounded-full font-medium transition-all duration-200
-              ${canSubmit && !disabled
-                ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white hover:from-blue-600 hover:to-purple-700 shadow-lg hover:shadow-xl transform hover:scale-105' 
-                : 'bg-gray-200 text-gray-400 cursor-not-allowed'
-              }
-            `}
-            data-testid="submit-btn"
-            aria-label={isScheduled ? 'Schedule post' : 'Post now'}
-          >
-            {isSubmitting ? (
-              <>
-                <div 
-                  className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" 
-                  data-testid="loading-spinner" 
-                />
-                <span>Posting...</span>
-              </>
-            ) : (
-              <>
-                <Send className="w-4 h-4" />
-                <span>{isScheduled ? 'Schedule' : 'Post'}</span>
-              </>
-            )}
-          </button>
+          {/* Right side - Draft status and submit button */}
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-2" data-testid="draft-management">
+              <span className="text-xs text-gray-500" role="status" data-testid="draft-status">
+                {saveStatus === 'saving' && 'Saving draft…'}
+                {saveStatus === 'saved' && lastSavedAt && `Draft saved ${lastSavedAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`}
+                {saveStatus === 'error' && `Draft not saved: ${draftError}`}
+              </span>
+              <button
+                type="button"
+                onClick={() => void saveDraft(draft)}
+                disabled={isBusy || !content.trim()}
+                className="flex items-center gap-1 px-3 py-2 rounded-full text-sm font-medium text-gray-600 hover:bg-gray-100 disabled:text-gray-300"
+              >
+                <Save className="w-4 h-4" />
+                Save draft
+              </button>
+            </div>
+
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className={`
+                flex items-center gap-2 px-6 py-2 rounded-full font-medium transition-all duration-200
+                ${canSubmit
+                  ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white hover:from-blue-600 hover:to-purple-700 shadow-lg hover:shadow-xl'
+                  : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                }
+              `}
+              data-testid="submit-btn"
+            >
+              {isSubmitting ? (
+                <>
+                  <div
+                    className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"
+                    data-testid="loading-spinner"
+                  />
+                  <span>{isScheduled ? 'Scheduling...' : 'Posting...'}</span>
+                </>
+              ) : (
+                <>
+                  <Send className="w-4 h-4" />
+                  <span>{isScheduled ? 'Schedule' : 'Publish now'}</span>
+                </>
+              )}
+            </button>
+          </div>
         </div>
+
+        {!allMediaReady && (
+          <p className="px-4 pb-3 text-xs text-gray-500" data-testid="alt-text-reminder">
+            Every attachment needs a description before you can post
+          </p>
+        )}
+        {submitError && (
+          <p className="px-4 pb-3 text-sm text-red-600" role="alert" data-testid="submit-error">
+            {submitError}
+          </p>
+        )}
+        {notice && (
+          <p className="px-4 pb-3 text-sm text-green-600" role="status" data-testid="submit-notice">
+            {notice}
+          </p>
+        )}
       </form>
+
+      {/* Live preview with the card readers see */}
+      {showPreview && (
+        <div className="border-t border-gray-100 p-4 bg-gray-50" data-testid="broadcast-preview">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Preview</p>
+          {content.trim() || attachments.length > 0 ? (
+            <PostCard
+              // Remount when the warning or labels change so the card starts collapsed
+              key={`${previewPost.contentWarning ? 'with-warning' : 'without-warning'}:${labelKey}`}
+              post={previewPost}
+              showEngagement={false}
+              showActions={false}
+            />
+          ) : (
+            <p className="text-sm text-gray-400">Start typing to see how your post will look</p>
+          )}
+        </div>
+      )}
     </div>
   )
 }
 
-// frontend/src/components/posts/PostCreator.tsx
\ No newline at end of file
+// frontend/src/components/posts/PostCreator.tsx
+// Version: 2.1.0
+// Broadcast composer with media, content warnings, timezone-aware scheduling and a live preview
@@ -0,0 +1,134 @@
+// frontend/src/components/posts/SchedulePicker.tsx
+// Version: 1.0.0
+// Date, time and timezone picker for scheduling a broadcast
+
+'use client'
+
+import { useMemo } from 'react'
+import { Clock, Globe, X } from 'lucide-react'
+import {
+  ZonedDateTime,
+  formatInTimezone,
+  fromZonedDateTime,
+  getLocalTimezone,
+  listTimezones,
+  toZonedDateTime
+} from '@/lib/scheduling'
+
+/**
+ * Props interface for SchedulePicker component
+ */
+interface SchedulePickerProps {
+  value: ZonedDateTime
+  timezone: string
+  onChange: (value: ZonedDateTime) => void
+  onTimezoneChange: (timezone: string) => void
+  onRemove: () => void
+  error?: string | null
+  disabled?: boolean
+}
+
+/**
+ * SchedulePicker component
+ * Picks a wall-clock date and time in a chosen timezone, and shows when that
+ * is in the creator's own timezone if the two differ
+ *
+ * @param value - Selected date and time in the chosen timezone
+ * @param timezone - IANA timezone the date and time are in
+ * @param onChange - Called with the new date and time
+ * @param onTimezoneChange - Called with the new timezone
+ * @param onRemove - Called when scheduling is turned off
+ * @param error - Validation message to show
+ * @param disabled - Whether the inputs are disabled
+ */
+export default function SchedulePicker({
+  value,
+  timezone,
+  onChange,
+  onTimezoneChange,
+  onRemove,
+  error = null,
+  disabled = false
+}: SchedulePickerProps) {
+  const timezones = useMemo(() => listTimezones(), [])
+  const localTimezone = getLocalTimezone()
+  const instant = fromZonedDateTime(value, timezone)
+  const today = toZonedDateTime(new Date(), timezone).date
+
+  return (
+    <div
+      className="bg-blue-50 border border-blue-200 rounded-lg p-3 mx-4 mb-3"
+      data-testid="schedule-section"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-blue-600" />
+          <span className="text-sm font-medium text-blue-800">Schedule Post</span>
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-blue-600 hover:text-blue-800 transition-colors"
+          data-testid="remove-schedule-btn"
+          aria-label="Remove schedule"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <input
+          type="date"
+          value={value.date}
+          min={today}
+          onChange={e => onChange({ ...value, date: e.target.value })}
+          className="px-3 py-2 border border-blue-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={disabled}
+          data-testid="schedule-date-input"
+          aria-label="Schedule date"
+        />
+        <input
+          type="time"
+          value={value.time}
+          onChange={e => onChange({ ...value, time: e.target.value })}
+          className="px-3 py-2 border border-blue-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={disabled}
+          data-testid="schedule-time-input"
+          aria-label="Schedule time"
+        />
+        <div className="relative">
+          <Globe className="w-4 h-4 text-blue-500 absolute left-2 top-1/2 -translate-y-1/2 pointer-events-none" />
+          <select
+            value={timezone}
+            onChange={e => onTimezoneChange(e.target.value)}
+            className="w-full pl-8 pr-2 py-2 border border-blue-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={disabled}
+            data-testid="schedule-timezone-select"
+            aria-label="Timezone"
+          >
+            {timezones.map(zone => (
+              <option key={zone} value={zone}>
+                {zone === localTimezone ? `${zone} (your timezone)` : zone}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-600 mt-1" role="alert" data-testid="schedule-error">
+          {error}
+        </p>
+      ) : instant && (
+        <p className="text-xs text-blue-600 mt-1" data-testid="schedule-summary">
+          Publishes {formatInTimezone(instant, timezone)}
+          {timezone !== localTimezone && ` (${formatInTimezone(instant, localTimezone)} your time)`}
+        </p>
+      )}
+    </div>
+  )
+}
+
+// frontend/src/components/posts/SchedulePicker.tsx
+// Version: 1.0.0
+// Date, time and timezone picker for scheduling a broadcast
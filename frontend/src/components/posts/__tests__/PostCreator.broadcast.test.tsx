@@ -0,0 +1,247 @@
+// frontend/src/components/posts/__tests__/PostCreator.broadcast.test.tsx
+// Broadcast composer tests: limits, media with alt text, scheduling across timezones, preview and autosave
+// Version: 1.1.0
+// Changed: Content labels and sensitive attachments
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { render, screen, cleanup, fireEvent, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import '@testing-library/jest-dom'
+import PostCreator from '../PostCreator'
+
+const draftHook = {
+  draftId: null,
+  saveStatus: 'idle',
+  lastSavedAt: null as Date | null,
+  error: null,
+  queueAutosave: vi.fn(),
+  saveDraft: vi.fn(),
+  uploadMedia: vi.fn(),
+  publish: vi.fn(),
+  reset: vi.fn()
+}
+
+vi.mock('@/hooks/useBroadcastDraft', () => ({
+  useBroadcastDraft: () => draftHook
+}))
+
+const author = {
+  id: 'creator-1',
+  username: 'creator',
+  displayName: 'Test Creator',
+  isVerified: false
+}
+
+const imageFile = (name = 'stage.png') => new File(['png'], name, { type: 'image/png' })
+
+describe('PostCreator broadcast composer', () => {
+  beforeEach(() => {
+    draftHook.saveStatus = 'idle'
+    draftHook.lastSavedAt = null
+    draftHook.saveDraft.mockResolvedValue(true)
+    draftHook.uploadMedia.mockResolvedValue({ id: 'media-1', url: '/media/media-1', mimeType: 'image/png' })
+    draftHook.publish.mockResolvedValue(undefined)
+    URL.createObjectURL = vi.fn(() => 'blob:preview')
+    URL.revokeObjectURL = vi.fn()
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.clearAllMocks()
+  })
+
+  it('should count characters against the post limits', async () => {
+    const user = userEvent.setup()
+    render(<PostCreator author={author} />)
+
+    await user.type(screen.getByRole('textbox', { name: /compose new post/i }), 'Hello world!')
+    expect(screen.getByTestId('character-counter')).toHaveTextContent('12/5000')
+
+    await user.click(screen.getByRole('checkbox', { name: /add content warning/i }))
+    await user.type(screen.getByRole('textbox', { name: /content warning text/i }), 'Contains spoilers')
+    expect(screen.getByText('17/200')).toBeInTheDocument()
+  })
+
+  it('should ask for alt text before uploading dropped media', async () => {
+    const user = userEvent.setup()
+    render(<PostCreator author={author} />)
+
+    await user.type(screen.getByRole('textbox', { name: /compose new post/i }), 'New poster')
+    fireEvent.drop(screen.getByTestId('post-creator-form'), { dataTransfer: { files: [imageFile()] } })
+
+    const submit = screen.getByTestId('submit-btn')
+    const addDescription = screen.getByRole('button', { name: /add description/i })
+    expect(submit).toBeDisabled()
+    expect(addDescription).toBeDisabled()
+    expect(screen.getByTestId('alt-text-reminder')).toBeInTheDocument()
+    expect(draftHook.uploadMedia).not.toHaveBeenCalled()
+
+    await user.type(screen.getByRole('textbox', { name: /alt text for stage\.png/i }), 'An empty stage')
+    await user.click(addDescription)
+
+    expect(draftHook.uploadMedia).toHaveBeenCalledWith(expect.any(File), 'An empty stage', false)
+    await waitFor(() => {
+      expect(submit).not.toBeDisabled()
+    })
+    expect(draftHook.queueAutosave).toHaveBeenLastCalledWith({
+      content: 'New poster',
+      contentWarning: '',
+      contentLabels: [],
+      mediaIds: ['media-1']
+    })
+  })
+
+  it('should let a failed upload be retried', async () => {
+    const user = userEvent.setup()
+    draftHook.uploadMedia.mockRejectedValueOnce(new Error('HTTP Error 500'))
+    render(<PostCreator author={author} />)
+
+    fireEvent.drop(screen.getByTestId('post-creator-form'), { dataTransfer: { files: [imageFile()] } })
+    await user.type(screen.getByRole('textbox', { name: /alt text for stage\.png/i }), 'An empty stage')
+    await user.click(screen.getByRole('button', { name: /add description/i }))
+
+    expect(await screen.findByText('HTTP Error 500')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: /retry upload/i }))
+    expect(draftHook.uploadMedia).toHaveBeenCalledTimes(2)
+  })
+
+  it('should refuse unsupported files and more than four attachments', () => {
+    render(<PostCreator author={author} />)
+
+    const files = [
+      new File(['pdf'], 'notes.pdf', { type: 'application/pdf' }),
+      ...['1', '2', '3', '4', '5'].map(n => imageFile(`photo-${n}.png`))
+    ]
+    fireEvent.drop(screen.getByTestId('post-creator-form'), { dataTransfer: { files } })
+
+    expect(screen.getAllByTestId('media-attachment')).toHaveLength(4)
+    expect(screen.getByTestId('media-error')).toHaveTextContent('notes.pdf is not a supported image or video')
+    expect(screen.getByTestId('media-error')).toHaveTextContent('at most 4 attachments')
+    expect(screen.getByRole('button', { name: /attach media/i })).toBeDisabled()
+  })
+
+  it('should schedule at the wall-clock time in the chosen timezone', async () => {
+    const user = userEvent.setup()
+    render(<PostCreator author={author} />)
+
+    await user.type(screen.getByRole('textbox', { name: /compose new post/i }), 'Live in Tokyo')
+    await user.click(within(screen.getByTestId('publishing-scheduler')).getByRole('button', { name: /schedule post/i }))
+
+    fireEvent.change(screen.getByLabelText('Timezone'), { target: { value: 'Asia/Tokyo' } })
+    fireEvent.change(screen.getByLabelText('Schedule date'), { target: { value: '2030-01-02' } })
+    fireEvent.change(screen.getByLabelText('Schedule time'), { target: { value: '09:00' } })
+
+    expect(screen.getByTestId('schedule-summary')).toHaveTextContent('GMT+9')
+    await user.click(screen.getByTestId('submit-btn'))
+
+    expect(draftHook.publish).toHaveBeenCalledWith(
+      { content: 'Live in Tokyo', contentWarning: '', contentLabels: [], mediaIds: [] },
+      new Date('2030-01-02T00:00:00Z')
+    )
+    expect(await screen.findByTestId('submit-notice')).toHaveTextContent('Scheduled for')
+  })
+
+  it('should not schedule in the past', async () => {
+    const user = userEvent.setup()
+    render(<PostCreator author={author} />)
+
+    await user.type(screen.getByRole('textbox', { name: /compose new post/i }), 'Too late')
+    await user.click(screen.getByTestId('schedule-btn'))
+    fireEvent.change(screen.getByLabelText('Schedule date'), { target: { value: '2020-01-01' } })
+
+    expect(screen.getByTestId('schedule-error')).toHaveTextContent('Pick a time in the future')
+    expect(screen.getByTestId('submit-btn')).toBeDisabled()
+  })
+
+  it('should preview the post with PostCard, behind its content warning', async () => {
+    const user = userEvent.setup()
+    render(<PostCreator author={author} />)
+
+    await user.type(screen.getByRole('textbox', { name: /compose new post/i }), 'Finale tonight')
+    await user.click(screen.getByRole('checkbox', { name: /add content warning/i }))
+    await user.type(screen.getByRole('textbox', { name: /content warning text/i }), 'Spoilers')
+    await user.click(screen.getByRole('button', { name: /preview post/i }))
+
+    const preview = screen.getByTestId('broadcast-preview')
+    expect(within(preview).getByText('Test Creator')).toBeInTheDocument()
+    expect(within(preview).getByText('Spoilers')).toBeInTheDocument()
+    expect(within(preview).queryByText('Finale tonight')).not.toBeInTheDocument()
+
+    await user.click(within(preview).getByRole('button', { name: /show content/i }))
+    expect(within(preview).getByText('Finale tonight')).toBeInTheDocument()
+  })
+
+  it('should warn that flashing lights hide all media and publish the label', async () => {
+    const user = userEvent.setup()
+    render(<PostCreator author={author} />)
+
+    await user.type(screen.getByRole('textbox', { name: /compose new post/i }), 'Strobe test')
+    await user.click(screen.getByRole('checkbox', { name: /add content warning/i }))
+    expect(screen.queryByTestId('sensitive-media-notice')).not.toBeInTheDocument()
+
+    await user.click(within(screen.getByTestId('content-label-options')).getByRole('checkbox', { name: 'Flashing lights' }))
+    expect(screen.getByTestId('sensitive-media-notice')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: /publish now/i }))
+    await waitFor(() => {
+      expect(draftHook.publish).toHaveBeenCalledWith(
+        { content: 'Strobe test', contentWarning: '', contentLabels: ['flashing-lights'], mediaIds: [] },
+        null
+      )
+    })
+  })
+
+  it('should upload attachments marked sensitive with the flag set', async () => {
+    const user = userEvent.setup()
+    render(<PostCreator author={author} />)
+
+    fireEvent.drop(screen.getByTestId('post-creator-form'), { dataTransfer: { files: [imageFile()] } })
+    await user.click(screen.getByRole('checkbox', { name: /mark stage\.png as sensitive/i }))
+    await user.type(screen.getByRole('textbox', { name: /alt text for stage\.png/i }), 'An empty stage')
+    await user.click(screen.getByRole('button', { name: /add description/i }))
+
+    expect(draftHook.uploadMedia).toHaveBeenCalledWith(expect.any(File), 'An empty stage', true)
+  })
+
+  it('should save the draft on request and show when it was saved', async () => {
+    const user = userEvent.setup()
+    draftHook.saveStatus = 'saved'
+    draftHook.lastSavedAt = new Date('2025-01-15T14:30:00')
+    render(<PostCreator author={author} />)
+
+    await user.type(screen.getByRole('textbox', { name: /compose new post/i }), 'Half an idea')
+    await user.click(within(screen.getByTestId('draft-management')).getByRole('button', { name: /save draft/i }))
+
+    expect(draftHook.saveDraft).toHaveBeenCalledWith({ content: 'Half an idea', contentWarning: '', contentLabels: [], mediaIds: [] })
+    expect(screen.getByTestId('draft-status')).toHaveTextContent('Draft saved 2:30 PM')
+  })
+
+  it('should keep the post and show the error when publishing fails', async () => {
+    const user = userEvent.setup()
+    draftHook.publish.mockRejectedValue(new Error('HTTP Error 400'))
+    render(<PostCreator author={author} />)
+
+    const textarea = screen.getByRole('textbox', { name: /compose new post/i })
+    await user.type(textarea, 'Try this')
+    await user.click(screen.getByRole('button', { name: /publish now/i }))
+
+    expect(await screen.findByTestId('submit-error')).toHaveTextContent('HTTP Error 400')
+    expect(textarea).toHaveValue('Try this')
+  })
+
+  it('should clear the composer after publishing', async () => {
+    const user = userEvent.setup()
+    const onPublished = vi.fn()
+    render(<PostCreator author={author} onPublished={onPublished} />)
+
+    const textarea = screen.getByRole('textbox', { name: /compose new post/i })
+    await user.type(textarea, 'Hello followers')
+    await user.click(screen.getByRole('button', { name: /publish now/i }))
+
+    await waitFor(() => {
+      expect(textarea).toHaveValue('')
+    })
+    expect(onPublished).toHaveBeenCalledWith(null)
+    expect(screen.getByTestId('submit-notice')).toHaveTextContent('Published')
+  })
+})
@@ -12,6 +12,7 @@ interface User {
   displayName?: string
   avatar?: string
   role?: string
+  autoExpandLabels?: string[]  // Content labels this reader opens without a click
 }
 
 // Authentication context interface
@@ -0,0 +1,221 @@
+// frontend/src/hooks/__tests__/useBroadcastDraft.test.ts
+// Version: 1.1.0
+// Tests for broadcast draft autosave, media uploads and publishing against a mocked posts API
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useBroadcastDraft } from '../useBroadcastDraft'
+
+const draft = { content: 'Tour dates next week', contentWarning: '', contentLabels: [] as string[], mediaIds: [] as string[] }
+
+describe('useBroadcastDraft Hook', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  /**
+   * Find the fetch calls made to a URL
+   * @param method - HTTP method
+   * @param path - Path the URL ends with
+   */
+  const callsTo = (method: string, path: string) =>
+    fetchMock.mock.calls.filter(([url, init]) => String(url).endsWith(path) && init.method === method)
+
+  const bodyOf = (call: unknown[]) => JSON.parse((call[1] as RequestInit).body as string)
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => url.endsWith('/api/media/upload')
+        ? { success: true, data: { media: { id: 'media-1', url: '/media/media-1', mimeType: 'image/png', altText: 'A stage' } } }
+        : { success: true, data: { post: { id: 'draft-1' } } }
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+    // The test setup replaces localStorage with mocks
+    vi.mocked(localStorage.getItem).mockImplementation(key => key === 'auth-token' ? 'test-token' : null)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.clearAllMocks()
+  })
+
+  it('should create the draft on the first save and edit it afterwards', async () => {
+    const { result } = renderHook(() => useBroadcastDraft())
+
+    await act(async () => {
+      await result.current.saveDraft(draft)
+    })
+
+    expect(callsTo('POST', '/api/posts')).toHaveLength(1)
+    expect(bodyOf(callsTo('POST', '/api/posts')[0])).toEqual({
+      content: 'Tour dates next week',
+      contentWarning: null,
+      contentLabels: [],
+      mediaIds: [],
+      isPublished: false
+    })
+    expect(result.current.draftId).toBe('draft-1')
+    expect(result.current.saveStatus).toBe('saved')
+    expect(result.current.lastSavedAt).toBeInstanceOf(Date)
+
+    await act(async () => {
+      await result.current.saveDraft({ ...draft, content: 'Tour dates next week!', mediaIds: ['media-1'] })
+    })
+
+    expect(callsTo('POST', '/api/posts')).toHaveLength(1)
+    expect(bodyOf(callsTo('PUT', '/api/posts/draft-1')[0])).toEqual({
+      content: 'Tour dates next week!',
+      contentWarning: null,
+      contentLabels: [],
+      mediaIds: ['media-1'],
+      isPublished: false
+    })
+  })
+
+  it('should not save empty or unchanged drafts', async () => {
+    const { result } = renderHook(() => useBroadcastDraft())
+
+    await act(async () => {
+      await result.current.saveDraft({ ...draft, content: '   ' })
+      await result.current.saveDraft(draft)
+      await result.current.saveDraft(draft)
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should create only one draft when saves overlap', async () => {
+    const { result } = renderHook(() => useBroadcastDraft())
+
+    await act(async () => {
+      await Promise.all([
+        result.current.saveDraft(draft),
+        result.current.saveDraft({ ...draft, content: 'Tour dates soon' })
+      ])
+    })
+
+    expect(callsTo('POST', '/api/posts')).toHaveLength(1)
+    expect(callsTo('PUT', '/api/posts/draft-1')).toHaveLength(1)
+  })
+
+  it('should autosave once typing pauses', async () => {
+    const { result } = renderHook(() => useBroadcastDraft({ autosaveDelayMs: 20 }))
+
+    act(() => {
+      result.current.queueAutosave({ ...draft, content: 'Tour' })
+      result.current.queueAutosave({ ...draft, content: 'Tour dates' })
+    })
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    await waitFor(() => {
+      expect(result.current.saveStatus).toBe('saved')
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(bodyOf(fetchMock.mock.calls[0]).content).toBe('Tour dates')
+  })
+
+  it('should report failed saves', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error', json: async () => ({}) })
+    const { result } = renderHook(() => useBroadcastDraft())
+
+    let saved = true
+    await act(async () => {
+      saved = await result.current.saveDraft(draft)
+    })
+
+    expect(saved).toBe(false)
+    expect(result.current.saveStatus).toBe('error')
+    expect(result.current.error).toContain('HTTP Error 500')
+  })
+
+  it('should upload media with its description as multipart form data', async () => {
+    const { result } = renderHook(() => useBroadcastDraft())
+    const file = new File(['png'], 'stage.png', { type: 'image/png' })
+
+    let media
+    await act(async () => {
+      media = await result.current.uploadMedia(file, '  A stage  ')
+    })
+
+    expect(media).toMatchObject({ id: 'media-1' })
+    const [, init] = callsTo('POST', '/api/media/upload')[0]
+    expect(init.body).toBeInstanceOf(FormData)
+    expect((init.body as FormData).get('altText')).toBe('A stage')
+    expect((init.body as FormData).get('sensitive')).toBe('false')
+    expect((init.body as FormData).get('file')).toBeInstanceOf(File)
+    expect(init.headers).not.toHaveProperty('Content-Type')
+    expect(init.headers).toHaveProperty('Authorization', 'Bearer test-token')
+  })
+
+  it('should mark uploads sensitive when asked', async () => {
+    const { result } = renderHook(() => useBroadcastDraft())
+
+    await act(async () => {
+      await result.current.uploadMedia(new File(['gif'], 'strobe.gif', { type: 'image/gif' }), 'Strobe', true)
+    })
+
+    const [, init] = callsTo('POST', '/api/media/upload')[0]
+    expect((init.body as FormData).get('sensitive')).toBe('true')
+  })
+
+  it('should create a scheduled post when there is no saved draft', async () => {
+    const { result } = renderHook(() => useBroadcastDraft())
+    const scheduledFor = new Date('2030-01-01T09:00:00Z')
+
+    await act(async () => {
+      await result.current.publish({
+        ...draft,
+        contentWarning: 'Finale',
+        contentLabels: ['spoilers'],
+        mediaIds: ['media-1']
+      }, scheduledFor)
+    })
+
+    expect(bodyOf(callsTo('POST', '/api/posts')[0])).toEqual({
+      content: 'Tour dates next week',
+      contentWarning: 'Finale',
+      contentLabels: ['spoilers'],
+      isScheduled: true,
+      scheduledFor: '2030-01-01T09:00:00.000Z',
+      mediaIds: ['media-1']
+    })
+  })
+
+  it('should update and publish the saved draft', async () => {
+    const { result } = renderHook(() => useBroadcastDraft())
+
+    await act(async () => {
+      await result.current.saveDraft(draft)
+    })
+    await act(async () => {
+      await result.current.publish({ ...draft, content: 'Final words' }, null)
+    })
+
+    expect(bodyOf(callsTo('PUT', '/api/posts/draft-1')[0]).content).toBe('Final words')
+    expect(callsTo('POST', '/api/posts/draft-1/publish')).toHaveLength(1)
+    expect(result.current.draftId).toBeNull()
+    expect(result.current.saveStatus).toBe('idle')
+  })
+
+  it('should schedule the saved draft', async () => {
+    const { result } = renderHook(() => useBroadcastDraft())
+
+    await act(async () => {
+      await result.current.saveDraft(draft)
+      await result.current.publish(draft, new Date('2030-01-01T09:00:00Z'))
+    })
+
+    expect(bodyOf(callsTo('POST', '/api/posts/draft-1/schedule')[0])).toEqual({
+      scheduledFor: '2030-01-01T09:00:00.000Z'
+    })
+  })
+
+  it('should throw when publishing fails', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request', json: async () => ({}) })
+    const { result } = renderHook(() => useBroadcastDraft())
+
+    await act(async () => {
+      await expect(result.current.publish(draft, null)).rejects.toThrow('HTTP Error 400')
+    })
+  })
+})
@@ -0,0 +1,165 @@
+// frontend/src/hooks/__tests__/useDashboardData.test.ts
+// Version: 1.1.0
+// Tests for the dashboard data hook against mocked analytics and moderation APIs
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { renderHook, waitFor } from '@testing-library/react'
+import { useDashboardData } from '../useDashboardData'
+
+// Dashboard as the backend returns it
+const dashboardResponse = {
+  success: true,
+  data: {
+    followers: {
+      total: 120,
+      weeklyGrowth: 4,
+      monthlyGrowth: 15,
+      topInstances: [
+        { host: 'mastodon.social', followers: 60 },
+        { host: 'lemmy.world', followers: 20 }
+      ]
+    },
+    posts: {
+      total: 36,
+      postsPerWeek: 2.5,
+      bestPostingTimes: [{ hour: '09:00', posts: 8 }, { hour: '20:00', posts: 5 }],
+      timezone: 'UTC'
+    },
+    delivery: {
+      attempted: 200,
+      succeeded: 188,
+      successRate: 0.94,
+      federationHealth: 'fair'
+    },
+    generatedAt: '2025-06-30T12:00:00.000Z'
+  }
+}
+
+// Moderation counts as the backend returns them
+const moderationResponse = {
+  success: true,
+  data: {
+    reportedPosts: 3,
+    accountReports: 1,
+    blockedUsers: 12,
+    pendingFollowRequests: 2
+  }
+}
+
+describe('useDashboardData Hook', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => url.includes('/api/moderation/dashboard') ? moderationResponse : dashboardResponse
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+    // The test setup replaces localStorage with mocks
+    vi.mocked(localStorage.getItem).mockImplementation(key => key === 'auth-token' ? 'test-token' : null)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should load analytics from the dashboard endpoint with the saved token', async () => {
+    const { result } = renderHook(() => useDashboardData())
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toMatch(/\/api\/analytics\/dashboard\?timezone=/)
+    expect(init.headers.Authorization).toBe('Bearer test-token')
+    expect(result.current.error).toBeNull()
+  })
+
+  it('should map the response onto follower stats and post analytics', async () => {
+    const { result } = renderHook(() => useDashboardData())
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    expect(result.current.followerStats).toEqual({
+      total: 120,
+      weeklyGrowth: 4,
+      monthlyGrowth: 15,
+      topInstances: ['mastodon.social', 'lemmy.world']
+    })
+    expect(result.current.postAnalytics).toEqual({
+      totalPosts: 36,
+      postsPerWeek: 2.5,
+      bestPostingTimes: ['09:00', '20:00'],
+      reachMetrics: {
+        deliverySuccess: 0.94,
+        federationHealth: 'fair'
+      }
+    })
+  })
+
+  it('should load the moderation queue from the moderation dashboard', async () => {
+    const { result } = renderHook(() => useDashboardData())
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    const moderationCall = fetchMock.mock.calls.find(([url]) => url.includes('/api/moderation/dashboard'))
+    expect(moderationCall?.[1].headers.Authorization).toBe('Bearer test-token')
+    expect(result.current.moderationQueue).toEqual({
+      reportedPosts: 3,
+      blockedFollowers: 12,
+      pendingReviews: 2
+    })
+  })
+
+  it('should keep delivery success empty when nothing has been delivered', async () => {
+    fetchMock.mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => url.includes('/api/moderation/dashboard') ? moderationResponse : ({
+        ...dashboardResponse,
+        data: {
+          ...dashboardResponse.data,
+          delivery: { attempted: 0, succeeded: 0, successRate: null, federationHealth: null }
+        }
+      })
+    }))
+
+    const { result } = renderHook(() => useDashboardData())
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    expect(result.current.postAnalytics?.reachMetrics).toEqual({ deliverySuccess: null, federationHealth: null })
+  })
+
+  it('should report an error without calling the API when signed out', async () => {
+    vi.mocked(localStorage.getItem).mockReturnValue(null)
+
+    const { result } = renderHook(() => useDashboardData())
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(result.current.error).toBe('Sign in to see your analytics')
+    expect(result.current.followerStats).toBeNull()
+  })
+
+  it('should report API errors', async () => {
+    fetchMock.mockImplementation(async () => ({
+      ok: false,
+      status: 500,
+      statusText: 'Internal Server Error',
+      json: async () => ({
+        success: false,
+        error: { code: 'SERVER_ERROR', message: 'Internal server error while loading analytics' }
+      })
+    }))
+
+    const { result } = renderHook(() => useDashboardData())
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    expect(result.current.error).toBe('HTTP Error 500')
+    expect(result.current.postAnalytics).toBeNull()
+    expect(result.current.moderationQueue).toBeNull()
+  })
+})
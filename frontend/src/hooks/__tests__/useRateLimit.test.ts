@@ -1,13 +1,13 @@
 // frontend/src/hooks/__tests__/useRateLimit.test.ts
-// Version: 1.4.0 - Fixed loading state assertion: accounts for autoRefresh starting loading immediately
-// Changed: Changed loading assertion from expecting false to checking boolean type when autoRefresh enabled
+// Version: 1.5.0 - Added header parsing tests for per-policy windows and the user's tier
+// Changed: Covers parseRateLimitHeaders, parseRateLimitTier and the hook's tier state
 
 import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest'
 import { renderHook, act, waitFor } from '@testing-library/react'
 import { ReactNode } from 'react'
 
 // Fixed: Changed from named import to default import to match hook export
-import useRateLimit from '../useRateLimit'
+import useRateLimit, { parseRateLimitHeaders, parseRateLimitTier } from '../useRateLimit'
 
 // Mock dependencies that the hook would likely use
 vi.mock('../useAuth', () => ({
@@ -159,6 +159,57 @@ describe('useRateLimit Hook', () => {
     })
   })
 
+  describe('Header Parsing', () => {
+    // Build a Headers-like object from a plain record
+    const headersFrom = (values: Record<string, string>) => ({
+      get: (name: string) => values[name] ?? null
+    })
+
+    it('should parse every policy with its window', () => {
+      const parsed = parseRateLimitHeaders(headersFrom({
+        'ratelimit-limit': '1000',
+        'ratelimit-remaining': '999',
+        'ratelimit-reset': '1750000000000',
+        'ratelimit-window': '900000',
+        'ratelimit-limit-post': '100',
+        'ratelimit-remaining-post': '97',
+        'ratelimit-reset-post': '1750000060000'
+      }))
+
+      expect(parsed.general).toEqual({ limit: 1000, remaining: 999, reset: 1750000000000, window: 900000 })
+      expect(parsed.postCreation).toEqual({ limit: 100, remaining: 97, reset: 1750000060000 })
+      expect(parsed.authentication).toBeUndefined()
+    })
+
+    it('should read the tier and role only when both are present', () => {
+      expect(parseRateLimitTier(headersFrom({
+        'ratelimit-tier': 'identity',
+        'ratelimit-role': 'user'
+      }))).toEqual({ verificationTier: 'identity', role: 'user' })
+      expect(parseRateLimitTier(headersFrom({ 'ratelimit-tier': 'identity' }))).toBe(null)
+    })
+
+    it('should keep the tier from the latest response', () => {
+      const { result } = renderHook(() => useRateLimit())
+
+      const mockResponse = {
+        headers: headersFrom({
+          'ratelimit-limit': '500',
+          'ratelimit-remaining': '499',
+          'ratelimit-reset': String(Date.now() + 60000),
+          'ratelimit-tier': 'email',
+          'ratelimit-role': 'user'
+        })
+      } as unknown as Response
+
+      act(() => {
+        result.current.updateFromResponse(mockResponse)
+      })
+
+      expect(result.current.tier).toEqual({ verificationTier: 'email', role: 'user' })
+    })
+  })
+
   describe('Rate Limit Checking', () => {
     it('should check if limits are exceeded', () => {
       const { result } = renderHook(() => useRateLimit())
@@ -0,0 +1,290 @@
+// frontend/src/hooks/useBroadcastDraft.ts
+// Version: 1.1.0
+// Server side of the broadcast composer: draft autosave, media uploads and publishing
+// Changed: Drafts carry content labels; uploads can be marked sensitive
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { post, put, upload } from '@/lib/api'
+
+// Media as returned by POST /api/media/upload
+export interface BroadcastMedia {
+  id: string
+  url: string
+  thumbnailUrl?: string | null
+  previewUrl?: string | null
+  altText?: string | null
+  sensitive?: boolean
+  mimeType: string
+  width?: number | null
+  height?: number | null
+  posterUrl?: string | null
+  processingStatus?: 'PENDING' | 'PROCESSING' | 'READY' | 'FAILED'
+}
+
+// What the composer saves; an empty contentWarning means none
+export interface BroadcastDraft {
+  content: string
+  contentWarning: string
+  contentLabels: string[]
+  mediaIds: string[]
+}
+
+export type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+export interface UseBroadcastDraftOptions {
+  // How long typing has to pause before the draft is saved
+  autosaveDelayMs?: number
+}
+
+export interface UseBroadcastDraftReturn {
+  draftId: string | null
+  saveStatus: DraftSaveStatus
+  lastSavedAt: Date | null
+  error: string | null
+  queueAutosave: (draft: BroadcastDraft) => void
+  saveDraft: (draft: BroadcastDraft) => Promise<boolean>
+  uploadMedia: (file: File, altText: string, sensitive?: boolean) => Promise<BroadcastMedia>
+  publish: (draft: BroadcastDraft, scheduledFor: Date | null) => Promise<void>
+  reset: () => void
+}
+
+// Post as returned by the posts API; only the ID is needed here
+interface PostApiResponse {
+  success: boolean
+  data: {
+    post: { id: string }
+  }
+}
+
+interface MediaApiResponse {
+  success: boolean
+  data: {
+    media: BroadcastMedia
+  }
+}
+
+// Must match the key useAuth stores the token under
+const AUTH_TOKEN_KEY = 'auth-token'
+
+const DEFAULT_AUTOSAVE_DELAY_MS = 2000
+
+/**
+ * Get the signed-in user's token
+ * @returns Token
+ * @throws Error when nobody is signed in
+ */
+function requireToken(): string {
+  const token = localStorage.getItem(AUTH_TOKEN_KEY)
+  if (!token) {
+    throw new Error('Sign in to post')
+  }
+  return token
+}
+
+/**
+ * Build the body shared by draft saves and edits
+ * The posts API rejects empty content on edits, so it is left out until there is some
+ * @param draft - Composer contents
+ * @returns Request body
+ */
+function toDraftBody(draft: BroadcastDraft) {
+  const content = draft.content.trim()
+  return {
+    ...(content && { content }),
+    contentWarning: draft.contentWarning.trim() || null,
+    contentLabels: draft.contentLabels,
+    mediaIds: draft.mediaIds,
+    isPublished: false
+  }
+}
+
+/**
+ * Custom hook keeping the composer's draft on the server
+ * The first save creates an unpublished post; later saves edit it. Saves run
+ * one at a time so a slow first save can't leave two drafts behind.
+ * Publishing a saved draft publishes or schedules that same post.
+ */
+export function useBroadcastDraft(options: UseBroadcastDraftOptions = {}): UseBroadcastDraftReturn {
+  const autosaveDelayMs = options.autosaveDelayMs ?? DEFAULT_AUTOSAVE_DELAY_MS
+
+  const [draftId, setDraftId] = useState<string | null>(null)
+  const [saveStatus, setSaveStatus] = useState<DraftSaveStatus>('idle')
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Refs so queued saves see the latest draft ID without waiting for a render
+  const draftIdRef = useRef<string | null>(null)
+  const lastSavedRef = useRef<string | null>(null)
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve())
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current)
+      }
+    }
+  }, [])
+
+  const cancelAutosave = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+  }, [])
+
+  /**
+   * Create or update the draft unless nothing changed since the last save
+   * @param draft - Composer contents
+   * @returns Promise<boolean> False if the save failed
+   */
+  const writeDraft = useCallback(async (draft: BroadcastDraft): Promise<boolean> => {
+    const body = toDraftBody(draft)
+    const snapshot = JSON.stringify(body)
+    if (snapshot === lastSavedRef.current) {
+      return true
+    }
+
+    setSaveStatus('saving')
+    setError(null)
+
+    try {
+      const token = requireToken()
+
+      if (draftIdRef.current) {
+        await put<PostApiResponse>(`/api/posts/${draftIdRef.current}`, body, { token })
+      } else {
+        const response = await post<PostApiResponse>('/api/posts', { content: '', ...body }, { token })
+        draftIdRef.current = response.data.data.post.id
+        setDraftId(draftIdRef.current)
+      }
+
+      lastSavedRef.current = snapshot
+      setLastSavedAt(new Date())
+      setSaveStatus('saved')
+      return true
+
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save draft')
+      setSaveStatus('error')
+      return false
+    }
+  }, [])
+
+  /**
+   * Save the draft now, after any save already running
+   * Drafts without text are not saved
+   * @param draft - Composer contents
+   * @returns Promise<boolean> False if the save failed
+   */
+  const saveDraft = useCallback((draft: BroadcastDraft): Promise<boolean> => {
+    cancelAutosave()
+    if (!draft.content.trim()) {
+      return Promise.resolve(true)
+    }
+
+    const saved = queueRef.current.then(() => writeDraft(draft))
+    queueRef.current = saved
+    return saved
+  }, [cancelAutosave, writeDraft])
+
+  /**
+   * Save the draft once typing pauses
+   * @param draft - Composer contents
+   */
+  const queueAutosave = useCallback((draft: BroadcastDraft) => {
+    cancelAutosave()
+    if (!draft.content.trim()) {
+      return
+    }
+
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null
+      void saveDraft(draft)
+    }, autosaveDelayMs)
+  }, [autosaveDelayMs, cancelAutosave, saveDraft])
+
+  /**
+   * Upload a file with its description
+   * @param file - Image or video
+   * @param altText - Description for people who can't see it
+   * @param sensitive - Hide it from readers until they click through
+   * @returns Promise<BroadcastMedia> The stored upload, ready to attach
+   */
+  const uploadMedia = useCallback(async (file: File, altText: string, sensitive = false): Promise<BroadcastMedia> => {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('altText', altText.trim())
+    formData.append('sensitive', String(sensitive))
+
+    const response = await upload<MediaApiResponse>('/api/media/upload', formData, { token: requireToken() })
+    return response.data.data.media
+  }, [])
+
+  /**
+   * Clear the draft so the next save starts a new one
+   */
+  const reset = useCallback(() => {
+    cancelAutosave()
+    draftIdRef.current = null
+    lastSavedRef.current = null
+    setDraftId(null)
+    setSaveStatus('idle')
+    setLastSavedAt(null)
+    setError(null)
+  }, [cancelAutosave])
+
+  /**
+   * Publish now, or schedule, the composer's contents
+   * A saved draft is brought up to date and then published or scheduled;
+   * otherwise a new post is created
+   * @param draft - Composer contents
+   * @param scheduledFor - When to publish, or null for now
+   * @throws Error when the post could not be published or scheduled
+   */
+  const publish = useCallback(async (draft: BroadcastDraft, scheduledFor: Date | null): Promise<void> => {
+    cancelAutosave()
+    // Let a save in flight finish so its draft is the one published
+    await queueRef.current
+
+    const token = requireToken()
+    const id = draftIdRef.current
+
+    if (id) {
+      await put<PostApiResponse>(`/api/posts/${id}`, toDraftBody(draft), { token })
+      if (scheduledFor) {
+        await post<PostApiResponse>(`/api/posts/${id}/schedule`, { scheduledFor: scheduledFor.toISOString() }, { token })
+      } else {
+        await post<PostApiResponse>(`/api/posts/${id}/publish`, {}, { token })
+      }
+    } else {
+      await post<PostApiResponse>('/api/posts', {
+        content: draft.content.trim(),
+        contentWarning: draft.contentWarning.trim() || null,
+        contentLabels: draft.contentLabels,
+        isScheduled: scheduledFor !== null,
+        scheduledFor: scheduledFor ? scheduledFor.toISOString() : null,
+        mediaIds: draft.mediaIds
+      }, { token })
+    }
+
+    reset()
+  }, [cancelAutosave, reset])
+
+  return {
+    draftId,
+    saveStatus,
+    lastSavedAt,
+    error,
+    queueAutosave,
+    saveDraft,
+    uploadMedia,
+    publish,
+    reset
+  }
+}
+
+// frontend/src/hooks/useBroadcastDraft.ts
+// Version: 1.1.0
+// Server side of the broadcast composer: draft autosave, media uploads and publishing
+// Changed: Drafts carry content labels; uploads can be marked sensitive
@@ -1,38 +1,40 @@
 // frontend/src/hooks/useDashboardData.ts
-// Version: 1.3.0
+// Version: 1.6.0
 // Dashboard data hook for ParaSocial broadcasting analytics
-// Changed: Removed async delay completely for test compatibility
+// Changed: Uses the shared local timezone helper from lib/scheduling
 
 import { useState, useEffect } from 'react'
+import { get } from '@/lib/api'
+import { getLocalTimezone } from '@/lib/scheduling'
 
 // Type definitions for dashboard data
-interface FollowerStats {
+export interface FollowerStats {
   total: number
   weeklyGrowth: number
+  monthlyGrowth: number
   topInstances: string[]
-  geographicDistribution: Array<{
-    country: string
-    count: number
-  }>
 }
 
-interface PostAnalytics {
+export interface PostAnalytics {
   totalPosts: number
-  avgEngagement: number
+  postsPerWeek: number
   bestPostingTimes: string[]
   reachMetrics: {
-    deliverySuccess: number
-    federationHealth: 'good' | 'fair' | 'poor'
+    // Share of finished deliveries that succeeded; null until something has been delivered
+    deliverySuccess: number | null
+    federationHealth: 'good' | 'fair' | 'poor' | null
   }
 }
 
-interface ModerationQueue {
+export interface ModerationQueue {
+  // Posts with reports still waiting for a decision
   reportedPosts: number
   blockedFollowers: number
+  // Follow requests waiting for the creator's approval
   pendingReviews: number
 }
 
-interface DashboardData {
+export interface DashboardData {
   followerStats: FollowerStats | null
   postAnalytics: PostAnalytics | null
   moderationQueue: ModerationQueue | null
@@ -40,6 +42,45 @@ interface DashboardData {
   error: string | null
 }
 
+// Dashboard as returned by GET /api/analytics/dashboard
+interface DashboardApiResponse {
+  success: boolean
+  data: {
+    followers: {
+      total: number
+      weeklyGrowth: number
+      monthlyGrowth: number
+      topInstances: Array<{ host: string; followers: number }>
+    }
+    posts: {
+      total: number
+      postsPerWeek: number
+      bestPostingTimes: Array<{ hour: string; posts: number }>
+      timezone: string
+    }
+    delivery: {
+      attempted: number
+      succeeded: number
+      successRate: number | null
+      federationHealth: 'good' | 'fair' | 'poor' | null
+    }
+  }
+}
+
+// Moderation counts as returned by GET /api/moderation/dashboard
+interface ModerationApiResponse {
+  success: boolean
+  data: {
+    reportedPosts: number
+    accountReports: number
+    blockedUsers: number
+    pendingFollowRequests: number
+  }
+}
+
+// Must match the key useAuth stores the token under
+const AUTH_TOKEN_KEY = 'auth-token'
+
 // Custom hook for dashboard data management
 export function useDashboardData(): DashboardData {
   const [followerStats, setFollowerStats] = useState<FollowerStats | null>(null)
@@ -49,59 +90,65 @@ export function useDashboardData(): DashboardData {
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
-    // Simulate API call with mock data for development
+    let cancelled = false
+
     const fetchDashboardData = async () => {
       try {
         setIsLoading(true)
         setError(null)
 
-        // No delay for testing compatibility
-
-        // Mock follower statistics
-        const mockFollowerStats: FollowerStats = {
-          total: 1250,
-          weeklyGrowth: 45,
-          topInstances: ['mastodon.social', 'lemmy.world', 'pixelfed.social'],
-          geographicDistribution: [
-            { country: 'US', count: 400 },
-            { country: 'DE', count: 200 },
-            { country: 'CA', count: 150 },
-            { country: 'UK', count: 120 },
-            { country: 'FR', count: 100 },
-          ]
+        const token = localStorage.getItem(AUTH_TOKEN_KEY)
+        if (!token) {
+          throw new Error('Sign in to see your analytics')
         }
 
-        // Mock post analytics
-        const mockPostAnalytics: PostAnalytics = {
-          totalPosts: 89,
-          avgEngagement: 0.12,
-          bestPostingTimes: ['09:00', '15:00', '20:00'],
+        // Posting times are shown in the creator's local time
+        const timezone = encodeURIComponent(getLocalTimezone())
+        const [response, moderationResponse] = await Promise.all([
+          get<DashboardApiResponse>(`/api/analytics/dashboard?timezone=${timezone}`, { token }),
+          get<ModerationApiResponse>('/api/moderation/dashboard', { token })
+        ])
+        if (cancelled) return
+
+        const { followers, posts, delivery } = response.data.data
+        const moderation = moderationResponse.data.data
+
+        setFollowerStats({
+          total: followers.total,
+          weeklyGrowth: followers.weeklyGrowth,
+          monthlyGrowth: followers.monthlyGrowth,
+          topInstances: followers.topInstances.map(instance => instance.host)
+        })
+        setPostAnalytics({
+          totalPosts: posts.total,
+          postsPerWeek: posts.postsPerWeek,
+          bestPostingTimes: posts.bestPostingTimes.map(time => time.hour),
           reachMetrics: {
-            deliverySuccess: 0.94,
-            federationHealth: 'good'
+            deliverySuccess: delivery.successRate,
+            federationHealth: delivery.federationHealth
           }
-        }
-
-        // Mock moderation queue
-        const mockModerationQueue: ModerationQueue = {
-          reportedPosts: 3,
-          blockedFollowers: 12,
-          pendingReviews: 1
-        }
-
-        // Set the mock data
-        setFollowerStats(mockFollowerStats)
-        setPostAnalytics(mockPostAnalytics)
-        setModerationQueue(mockModerationQueue)
+        })
+        setModerationQueue({
+          reportedPosts: moderation.reportedPosts,
+          blockedFollowers: moderation.blockedUsers,
+          pendingReviews: moderation.pendingFollowRequests
+        })
 
       } catch (err) {
+        if (cancelled) return
         setError(err instanceof Error ? err.message : 'Failed to load dashboard data')
       } finally {
-        setIsLoading(false)
+        if (!cancelled) {
+          setIsLoading(false)
+        }
       }
     }
 
     fetchDashboardData()
+
+    return () => {
+      cancelled = true
+    }
   }, [])
 
   return {
@@ -114,9 +161,9 @@ export function useDashboardData(): DashboardData {
 }
 
 // frontend/src/hooks/useDashboardData.ts
-// Version: 1.3.0
+// Version: 1.6.0
 // Dashboard data hook for ParaSocial broadcasting analytics
-// Changed: Removed async delay completely for test compatibility
+// Changed: Uses the shared local timezone helper from lib/scheduling
 
 // frontend/src/hooks/useDashboardData.ts
 // Version: 1.0.0
@@ -1,19 +1,27 @@
 // frontend/src/hooks/useRateLimit.ts
-// Version: 1.0.0
+// Version: 1.1.0
 // Custom hook for managing rate limits across the application
+// Changed: Reads each policy's window and the user's verification tier and role, which set their limits
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 
 // Type definitions for rate limit information
-interface RateLimitInfo {
+export interface RateLimitInfo {
   limit: number
   remaining: number
   reset: number
   retryAfter?: string
+  window?: number // Window length in milliseconds, when the server reports it
+}
+
+// Verification tier and role the signed-in user's limits are based on
+export interface RateLimitTier {
+  verificationTier: string
+  role: string
 }
 
 // Rate limit categories based on backend implementation
-interface RateLimits {
+export interface RateLimits {
   authentication: RateLimitInfo
   postCreation: RateLimitInfo
   followOperations: RateLimitInfo
@@ -41,6 +49,7 @@ interface UseRateLimitOptions {
 // Return type for the hook
 interface UseRateLimitReturn {
   rateLimits: Partial<RateLimits>
+  tier: RateLimitTier | null
   loading: boolean
   error: string | null
   updateFromResponse: (response: Response, category?: keyof RateLimits) => void
@@ -53,6 +62,47 @@ interface UseRateLimitReturn {
   getLimitPercentage: (category: keyof RateLimits) => number
 }
 
+// Suffix of each category's headers from /api/rate-limit-status; general uses the plain names
+const CATEGORY_HEADER_SUFFIXES: Record<keyof RateLimits, string> = {
+  general: '',
+  authentication: '-auth',
+  postCreation: '-post',
+  followOperations: '-follow',
+  mediaUpload: '-media',
+  passwordReset: '-password'
+}
+
+// Parse rate limit headers from API response
+export function parseRateLimitHeaders(headers: Pick<Headers, 'get'>): Partial<RateLimits> {
+  const rateLimitData: Partial<RateLimits> = {}
+
+  for (const [category, suffix] of Object.entries(CATEGORY_HEADER_SUFFIXES) as [keyof RateLimits, string][]) {
+    const limit = headers.get(`ratelimit-limit${suffix}`)
+    const remaining = headers.get(`ratelimit-remaining${suffix}`)
+    const reset = headers.get(`ratelimit-reset${suffix}`)
+    const window = headers.get(`ratelimit-window${suffix}`)
+
+    if (limit && remaining && reset) {
+      rateLimitData[category] = {
+        limit: parseInt(limit),
+        remaining: parseInt(remaining),
+        reset: parseInt(reset),
+        ...(window && { window: parseInt(window) })
+      }
+    }
+  }
+
+  return rateLimitData
+}
+
+// Parse the verification tier and role sent for signed-in users
+export function parseRateLimitTier(headers: Pick<Headers, 'get'>): RateLimitTier | null {
+  const verificationTier = headers.get('ratelimit-tier')
+  const role = headers.get('ratelimit-role')
+
+  return verificationTier && role ? { verificationTier, role } : null
+}
+
 export default function useRateLimit(options: UseRateLimitOptions = {}): UseRateLimitReturn {
   const {
     autoRefresh = false,
@@ -63,6 +113,7 @@ export default function useRateLimit(options: UseRateLimitOptions = {}): UseRate
 
   // State management
   const [rateLimits, setRateLimits] = useState<Partial<RateLimits>>({})
+  const [tier, setTier] = useState<RateLimitTier | null>(null)
   const [loading, setLoading] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -75,95 +126,14 @@ export default function useRateLimit(options: UseRateLimitOptions = {}): UseRate
     setError(null)
   }, [])
 
-  // Parse rate limit headers from API response
-  const parseRateLimitHeaders = useCallback((response: Response): Partial<RateLimits> => {
-    const rateLimitData: Partial<RateLimits> = {}
-
-    // Parse general API rate limits
-    const generalLimit = response.headers.get('ratelimit-limit')
-    const generalRemaining = response.headers.get('ratelimit-remaining')
-    const generalReset = response.headers.get('ratelimit-reset')
-
-    if (generalLimit && generalRemaining && generalReset) {
-      rateLimitData.general = {
-        limit: parseInt(generalLimit),
-        remaining: parseInt(generalRemaining),
-        reset: parseInt(generalReset)
-      }
-    }
-
-    // Parse authentication rate limits
-    const authLimit = response.headers.get('ratelimit-limit-auth')
-    const authRemaining = response.headers.get('ratelimit-remaining-auth')
-    const authReset = response.headers.get('ratelimit-reset-auth')
-
-    if (authLimit && authRemaining && authReset) {
-      rateLimitData.authentication = {
-        limit: parseInt(authLimit),
-        remaining: parseInt(authRemaining),
-        reset: parseInt(authReset)
-      }
-    }
-
-    // Parse post creation rate limits
-    const postLimit = response.headers.get('ratelimit-limit-post')
-    const postRemaining = response.headers.get('ratelimit-remaining-post')
-    const postReset = response.headers.get('ratelimit-reset-post')
-
-    if (postLimit && postRemaining && postReset) {
-      rateLimitData.postCreation = {
-        limit: parseInt(postLimit),
-        remaining: parseInt(postRemaining),
-        reset: parseInt(postReset)
-      }
-    }
-
-    // Parse follow operations rate limits
-    const followLimit = response.headers.get('ratelimit-limit-follow')
-    const followRemaining = response.headers.get('ratelimit-remaining-follow')
-    const followReset = response.headers.get('ratelimit-reset-follow')
-
-    if (followLimit && followRemaining && followReset) {
-      rateLimitData.followOperations = {
-        limit: parseInt(followLimit),
-        remaining: parseInt(followRemaining),
-        reset: parseInt(followReset)
-      }
-    }
-
-    // Parse media upload rate limits
-    const mediaLimit = response.headers.get('ratelimit-limit-media')
-    const mediaRemaining = response.headers.get('ratelimit-remaining-media')
-    const mediaReset = response.headers.get('ratelimit-reset-media')
-
-    if (mediaLimit && mediaRemaining && mediaReset) {
-      rateLimitData.mediaUpload = {
-        limit: parseInt(mediaLimit),
-        remaining: parseInt(mediaRemaining),
-        reset: parseInt(mediaReset)
-      }
-    }
-
-    // Parse password reset rate limits
-    const passwordLimit = response.headers.get('ratelimit-limit-password')
-    const passwordRemaining = response.headers.get('ratelimit-remaining-password')
-    const passwordReset = response.headers.get('ratelimit-reset-password')
-
-    if (passwordLimit && passwordRemaining && passwordReset) {
-      rateLimitData.passwordReset = {
-        limit: parseInt(passwordLimit),
-        remaining: parseInt(passwordRemaining),
-        reset: parseInt(passwordReset)
-      }
-    }
-
-    return rateLimitData
-  }, [])
-
   // Update rate limits from API response headers
   const updateFromResponse = useCallback((response: Response, category?: keyof RateLimits) => {
-    const newRateLimits = parseRateLimitHeaders(response)
-    
+    const newRateLimits = parseRateLimitHeaders(response.headers)
+    const newTier = parseRateLimitTier(response.headers)
+    if (newTier) {
+      setTier(newTier)
+    }
+
     setRateLimits(prev => {
       const updated = { ...prev, ...newRateLimits }
       
@@ -176,7 +146,7 @@ export default function useRateLimit(options: UseRateLimitOptions = {}): UseRate
       
       return updated
     })
-  }, [parseRateLimitHeaders, onLimitExceeded])
+  }, [onLimitExceeded])
 
   // Update rate limits from error response
   const updateFromError = useCallback((errorData: RateLimitError, category: keyof RateLimits) => {
@@ -335,6 +305,7 @@ export default function useRateLimit(options: UseRateLimitOptions = {}): UseRate
 
   return {
     rateLimits,
+    tier,
     loading,
     error,
     updateFromResponse,
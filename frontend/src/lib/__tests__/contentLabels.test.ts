@@ -0,0 +1,25 @@
+// frontend/src/lib/__tests__/contentLabels.test.ts
+// Version: 1.0.0
+// Tests for content label names, sensitive media labels and reader auto-expansion
+
+import { describe, it, expect } from 'vitest'
+import { getContentLabelName, labelsRequireSensitiveMedia, shouldAutoExpand } from '../contentLabels'
+
+describe('contentLabels', () => {
+  it('should name known labels and pass unknown ones through', () => {
+    expect(getContentLabelName('flashing-lights')).toBe('Flashing lights')
+    expect(getContentLabelName('new-label')).toBe('new-label')
+  })
+
+  it('should hide all media for flashing lights, gore and nudity only', () => {
+    expect(labelsRequireSensitiveMedia(['spoilers', 'flashing-lights'])).toBe(true)
+    expect(labelsRequireSensitiveMedia(['spoilers', 'medical'])).toBe(false)
+    expect(labelsRequireSensitiveMedia([])).toBe(false)
+  })
+
+  it('should auto-expand only when the reader chose every label on the post', () => {
+    expect(shouldAutoExpand(['spoilers'], ['spoilers', 'medical'])).toBe(true)
+    expect(shouldAutoExpand(['spoilers', 'flashing-lights'], ['spoilers'])).toBe(false)
+    expect(shouldAutoExpand([], ['spoilers'])).toBe(false)
+  })
+})
@@ -0,0 +1,70 @@
+// frontend/src/lib/__tests__/scheduling.test.ts
+// Version: 1.0.0
+// Tests for converting schedule times between timezones
+
+import { describe, it, expect } from 'vitest'
+import { formatInTimezone, fromZonedDateTime, listTimezones, toZonedDateTime } from '../scheduling'
+
+describe('scheduling', () => {
+  describe('toZonedDateTime', () => {
+    it('should read an instant in the given timezone', () => {
+      const instant = new Date('2025-01-15T14:30:00Z')
+
+      expect(toZonedDateTime(instant, 'UTC')).toEqual({ date: '2025-01-15', time: '14:30' })
+      expect(toZonedDateTime(instant, 'America/New_York')).toEqual({ date: '2025-01-15', time: '09:30' })
+      expect(toZonedDateTime(instant, 'Asia/Tokyo')).toEqual({ date: '2025-01-15', time: '23:30' })
+    })
+
+    it('should write midnight as 00:00', () => {
+      expect(toZonedDateTime(new Date('2025-01-15T00:00:00Z'), 'UTC')).toEqual({ date: '2025-01-15', time: '00:00' })
+    })
+  })
+
+  describe('fromZonedDateTime', () => {
+    it('should find the instant of a wall-clock time', () => {
+      expect(fromZonedDateTime({ date: '2025-01-15', time: '09:30' }, 'America/New_York')?.toISOString())
+        .toBe('2025-01-15T14:30:00.000Z')
+      expect(fromZonedDateTime({ date: '2025-07-15', time: '09:30' }, 'America/New_York')?.toISOString())
+        .toBe('2025-07-15T13:30:00.000Z')
+      expect(fromZonedDateTime({ date: '2025-01-16', time: '08:30' }, 'Asia/Tokyo')?.toISOString())
+        .toBe('2025-01-15T23:30:00.000Z')
+    })
+
+    it('should use the new offset on the day daylight saving starts', () => {
+      // Clocks in New York went from 02:00 EST to 03:00 EDT on 9 March 2025
+      expect(fromZonedDateTime({ date: '2025-03-09', time: '12:00' }, 'America/New_York')?.toISOString())
+        .toBe('2025-03-09T16:00:00.000Z')
+    })
+
+    it('should round-trip with toZonedDateTime', () => {
+      const value = { date: '2025-10-26', time: '18:45' }
+      const instant = fromZonedDateTime(value, 'Europe/Berlin')
+
+      expect(instant).not.toBeNull()
+      expect(toZonedDateTime(instant!, 'Europe/Berlin')).toEqual(value)
+    })
+
+    it('should return null for incomplete or invalid input', () => {
+      expect(fromZonedDateTime({ date: '', time: '10:00' }, 'UTC')).toBeNull()
+      expect(fromZonedDateTime({ date: '2025-01-15', time: '' }, 'UTC')).toBeNull()
+      expect(fromZonedDateTime({ date: '2025-13-40', time: '10:00' }, 'UTC')).toBeNull()
+      expect(fromZonedDateTime({ date: '2025-01-15', time: '10:00' }, 'Not/AZone')).toBeNull()
+    })
+  })
+
+  describe('formatInTimezone', () => {
+    it('should include the timezone name', () => {
+      expect(formatInTimezone(new Date('2025-01-15T14:30:00Z'), 'UTC')).toMatch(/2:30 PM UTC$/)
+    })
+  })
+
+  describe('listTimezones', () => {
+    it('should list the local timezone first and only once', () => {
+      const zones = listTimezones()
+      const local = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+      expect(zones[0]).toBe(local)
+      expect(zones.filter(zone => zone === local)).toHaveLength(1)
+    })
+  })
+})
@@ -1,6 +1,6 @@
 // frontend/src/lib/api.ts
-// Version: 1.1.0
-// Updated: Added base URL configuration to connect to backend on port 3001
+// Version: 1.2.0
+// Updated: Added upload helper for multipart form data
 
 // Base types for API responses and errors
 export interface ApiResponse<T = unknown> {
@@ -171,14 +171,21 @@ async function request<T>(
     // Resolve URL against base API URL
     const resolvedUrl = resolveUrl(url)
     
+    const headers = createHeaders(options)
     const config: RequestInit = {
       method,
-      headers: createHeaders(options)
+      headers
     }
 
     // Add body for methods that support it
     if (body && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
-      config.body = JSON.stringify(body)
+      if (body instanceof FormData) {
+        // Let the browser set the multipart boundary
+        delete headers['Content-Type']
+        config.body = body
+      } else {
+        config.body = JSON.stringify(body)
+      }
     }
 
     const response = await fetch(resolvedUrl, config)
@@ -270,6 +277,21 @@ export async function patch<TResponse, TRequest = unknown>(
   return request<TResponse>(url, 'PATCH', data, options)
 }
 
+/**
+ * Performs multipart POST request, for example a file upload
+ * @param url - Request URL (relative or absolute)
+ * @param formData - Files and fields to send
+ * @param options - Request options
+ * @returns Promise with API response
+ */
+export async function upload<TResponse>(
+  url: string,
+  formData: FormData,
+  options?: RequestOptions
+): Promise<ApiResponse<TResponse>> {
+  return request<TResponse>(url, 'POST', formData, options)
+}
+
 /**
  * Performs DELETE request
  * @param url - Request URL (relative or absolute)
@@ -294,5 +316,5 @@ export { del as delete }
 export { ApiErrorClass as ApiError }
 
 // frontend/src/lib/api.ts
-// Version: 1.1.0
-// Updated: Added base URL configuration to connect to backend on port 3001
\ No newline at end of file
+// Version: 1.2.0
+// Updated: Added upload helper for multipart form data
\ No newline at end of file
@@ -0,0 +1,51 @@
+// frontend/src/lib/contentLabels.ts
+// Version: 1.0.0
+// Content labels creators put on posts, kept in step with the backend
+
+/**
+ * Content labels with the names readers see
+ * Values follow CONTENT_LABELS in backend/src/utils/constants.ts
+ */
+export const CONTENT_LABELS: ReadonlyArray<{ value: string; name: string }> = [
+  { value: 'violence', name: 'Violence' },
+  { value: 'gore', name: 'Gore' },
+  { value: 'nudity', name: 'Nudity' },
+  { value: 'self-harm', name: 'Self-harm' },
+  { value: 'flashing-lights', name: 'Flashing lights' },
+  { value: 'spoilers', name: 'Spoilers' },
+  { value: 'medical', name: 'Medical' }
+]
+
+// Labels that hide every attachment on the post, as SENSITIVE_MEDIA_LABELS on the backend
+export const SENSITIVE_MEDIA_LABELS: readonly string[] = ['flashing-lights', 'gore', 'nudity']
+
+/**
+ * Get the name readers see for a label
+ * @param value - Label value from the API
+ * @returns Label name, or the value itself for labels this build doesn't know
+ */
+export function getContentLabelName(value: string): string {
+  const label = CONTENT_LABELS.find(item => item.value === value)
+  return label ? label.name : value
+}
+
+/**
+ * Check whether a post's labels hide all of its media
+ * @param labels - Post content labels
+ * @returns True if any label is in SENSITIVE_MEDIA_LABELS
+ */
+export function labelsRequireSensitiveMedia(labels: readonly string[]): boolean {
+  return labels.some(label => SENSITIVE_MEDIA_LABELS.indexOf(label) !== -1)
+}
+
+/**
+ * Check whether a post opens without a click for this reader
+ * Only labelled posts qualify, and only when the reader chose every one of
+ * their labels; a free-text warning alone always waits for a click
+ * @param labels - Post content labels
+ * @param autoExpandLabels - Labels the reader chose to open automatically
+ * @returns True if the post should start expanded
+ */
+export function shouldAutoExpand(labels: readonly string[], autoExpandLabels: readonly string[]): boolean {
+  return labels.length > 0 && labels.every(label => autoExpandLabels.indexOf(label) !== -1)
+}
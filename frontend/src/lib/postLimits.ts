@@ -0,0 +1,41 @@
+// frontend/src/lib/postLimits.ts
+// Version: 1.0.0
+// Limits the broadcast composer enforces, kept in step with the backend
+
+/**
+ * Post limits
+ * content and contentWarning follow PostSchemas in backend/src/models/Post.ts;
+ * the media limits follow backend/src/utils/constants.ts
+ */
+export const POST_LIMITS = {
+  content: 5000,
+  contentWarning: 200,
+  mediaAttachments: 4,
+  altText: 1500,
+  // Multer rejects larger files in backend/src/routes/media.ts
+  mediaBytes: 50 * 1024 * 1024
+} as const
+
+// File types POST /media/upload accepts
+export const ACCEPTED_MEDIA_TYPES: readonly string[] = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'video/mp4',
+  'video/webm',
+  'video/quicktime'
+]
+
+/**
+ * Pick the character counter colour for how much of a limit is used
+ * Amber past 70%, red past 90%
+ * @param length - Characters used
+ * @param limit - Character limit
+ * @returns Tailwind text colour class
+ */
+export function getCounterColor(length: number, limit: number): string {
+  if (length > limit * 0.9) return 'text-red-500'
+  if (length > limit * 0.7) return 'text-amber-500'
+  return 'text-gray-400'
+}
@@ -0,0 +1,120 @@
+// frontend/src/lib/scheduling.ts
+// Version: 1.0.0
+// Timezone helpers for scheduling posts at a wall-clock time in any IANA timezone
+
+/**
+ * Date and time as shown in a timezone's calendar
+ * date is YYYY-MM-DD and time is HH:mm, as date and time inputs use
+ */
+export interface ZonedDateTime {
+  date: string
+  time: string
+}
+
+/**
+ * Get the browser's IANA timezone
+ * @returns Timezone name, or UTC if the browser does not report one
+ */
+export function getLocalTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch {
+    return 'UTC'
+  }
+}
+
+/**
+ * List the timezones a schedule can be set in
+ * Falls back to the local timezone and UTC where Intl cannot list them
+ * @returns Timezone names with the local timezone first
+ */
+export function listTimezones(): string[] {
+  const local = getLocalTimezone()
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] }
+  const all = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : ['UTC']
+  return [local, ...all.filter(timezone => timezone !== local)]
+}
+
+/**
+ * Read an instant as calendar date and time in a timezone
+ * @param instant - Point in time
+ * @param timeZone - IANA timezone
+ * @returns ZonedDateTime Wall-clock date and time there
+ */
+export function toZonedDateTime(instant: Date, timeZone: string): ZonedDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).formatToParts(instant)
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '00'
+  // Some engines write midnight as 24 with hour12: false
+  const hour = part('hour') === '24' ? '00' : part('hour')
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${hour}:${part('minute')}`
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at an instant
+ * @param instant - Point in time
+ * @param timeZone - IANA timezone
+ * @returns Milliseconds to add to UTC to get the wall-clock time there
+ */
+function getTimezoneOffset(instant: Date, timeZone: string): number {
+  const { date, time } = toZonedDateTime(instant, timeZone)
+  const wallClock = Date.parse(`${date}T${time}:00Z`)
+  return wallClock - Math.floor(instant.getTime() / 60000) * 60000
+}
+
+/**
+ * Find the instant a wall-clock date and time happens in a timezone
+ * Times skipped by a daylight saving change move forward by the size of the gap
+ * @param value - Date (YYYY-MM-DD) and time (HH:mm)
+ * @param timeZone - IANA timezone
+ * @returns Date The instant, or null if the date or time is not valid
+ */
+export function fromZonedDateTime(value: ZonedDateTime, timeZone: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value.date) || !/^\d{2}:\d{2}$/.test(value.time)) {
+    return null
+  }
+
+  const wallClock = Date.parse(`${value.date}T${value.time}:00Z`)
+  if (isNaN(wallClock)) {
+    return null
+  }
+
+  try {
+    // Guess with the offset at the wall-clock time, then correct once for a DST change in between
+    const firstGuess = wallClock - getTimezoneOffset(new Date(wallClock), timeZone)
+    return new Date(wallClock - getTimezoneOffset(new Date(firstGuess), timeZone))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Describe an instant in a timezone, including the zone's short name
+ * @param instant - Point in time
+ * @param timeZone - IANA timezone
+ * @returns Text such as "Tue, Dec 24, 2024, 3:30 PM EST"
+ */
+export function formatInTimezone(instant: Date, timeZone: string): string {
+  return instant.toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  })
+}